@@ -0,0 +1,119 @@
+// Black-Litterman View Editor - Author absolute and relative return views with per-view confidence
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MarketView } from '@/types/portfolio';
+
+interface BlackLittermanViewEditorProps {
+  symbols: string[];
+  views: MarketView[];
+  onChange: (views: MarketView[]) => void;
+}
+
+// Select value for an absolute view's benchmark slot
+const ABSOLUTE = '__absolute__';
+
+export function BlackLittermanViewEditor({ symbols, views, onChange }: BlackLittermanViewEditorProps) {
+  const update = (id: string, patch: Partial<MarketView>) =>
+    onChange(views.map(v => (v.id === id ? { ...v, ...patch } : v)));
+
+  const addView = () => {
+    if (symbols.length === 0) return;
+    onChange([
+      ...views,
+      {
+        id: crypto.randomUUID(),
+        asset: symbols[0],
+        versus: symbols.length > 1 ? symbols[1] : undefined,
+        expectedReturn: 0.02,
+        confidence: 0.5,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {views.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No views yet. Add one such as "QQQ outperforms TLT by 3%" to tilt the equilibrium returns.
+        </p>
+      )}
+
+      {views.map(view => (
+        <div key={view.id} className="p-3 rounded-lg bg-muted/50 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={view.asset} onValueChange={asset => update(view.id, { asset, versus: view.versus === asset ? undefined : view.versus })}>
+              <SelectTrigger className="w-28 font-mono">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {symbols.map(s => (
+                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <span className="text-sm text-muted-foreground">{view.versus ? 'beats' : 'returns'}</span>
+
+            <Select
+              value={view.versus ?? ABSOLUTE}
+              onValueChange={versus => update(view.id, { versus: versus === ABSOLUTE ? undefined : versus })}
+            >
+              <SelectTrigger className="w-36 font-mono">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ABSOLUTE}>(absolute)</SelectItem>
+                {symbols.filter(s => s !== view.asset).map(s => (
+                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <span className="text-sm text-muted-foreground">by</span>
+            <div className="relative w-24">
+              <Input
+                type="number"
+                step={0.5}
+                value={Number((view.expectedReturn * 100).toFixed(2))}
+                onChange={e => update(view.id, { expectedReturn: (Number(e.target.value) || 0) / 100 })}
+                className="pr-6"
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">%</span>
+            </div>
+
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ml-auto h-8 w-8"
+              onClick={() => onChange(views.filter(v => v.id !== view.id))}
+              aria-label="Remove view"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground w-20">Confidence</span>
+            <Slider
+              value={[Math.round(view.confidence * 100)]}
+              onValueChange={([c]) => update(view.id, { confidence: c / 100 })}
+              min={0}
+              max={100}
+              step={5}
+              className="flex-1"
+            />
+            <span className="text-xs font-medium w-10 text-right">{Math.round(view.confidence * 100)}%</span>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addView} disabled={symbols.length === 0}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add View
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+// Black-Litterman Views Panel - View editor with prior vs posterior returns, weight tilts and view consistency
+import { Eye, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { MarketView } from '@/types/portfolio';
+import { BlackLittermanPosterior } from '@/services/blackLittermanOptimizer';
+import { BlackLittermanViewEditor } from './BlackLittermanViewEditor';
+
+interface BlackLittermanViewsPanelProps {
+  symbols: string[];
+  views: MarketView[];
+  onChange: (views: MarketView[]) => void;
+  posterior: BlackLittermanPosterior | null;
+  error?: string | null;
+}
+
+// Views that disagree with the prior beyond this p-value are flagged
+const CONSISTENCY_THRESHOLD = 0.05;
+
+const pct = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+const signedPct = (value: number, digits = 1) => `${value >= 0 ? '+' : ''}${pct(value, digits)}`;
+
+function describeView(view: MarketView): string {
+  const size = pct(Math.abs(view.expectedReturn));
+  if (!view.versus) return `${view.asset} returns ${view.expectedReturn < 0 ? '-' : ''}${size}`;
+  return `${view.asset} ${view.expectedReturn < 0 ? 'underperforms' : 'outperforms'} ${view.versus} by ${size}`;
+}
+
+export function BlackLittermanViewsPanel({ symbols, views, onChange, posterior, error }: BlackLittermanViewsPanelProps) {
+  const consistency = posterior?.consistency;
+  const conflicting = consistency !== null && consistency !== undefined && consistency.pValue < CONSISTENCY_THRESHOLD;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Eye className="h-4 w-4 text-primary" />
+          Black-Litterman Views
+        </CardTitle>
+        <CardDescription>
+          Blend your return views into the equilibrium implied by your current weights. Confidence is calibrated with
+          Idzorek's method: 100% imposes a view exactly, 0% ignores it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <BlackLittermanViewEditor symbols={symbols} views={views} onChange={onChange} />
+
+        {error && <p className="text-xs text-rose-500">{error}</p>}
+
+        {posterior?.ignoredViews.map(({ view, reason }) => (
+          <p key={view.id} className="text-xs text-amber-600">
+            Ignoring "{describeView(view)}": {reason}
+          </p>
+        ))}
+
+        {posterior && posterior.views.length > 0 && (
+          <>
+            {consistency && (
+              <div
+                className={cn(
+                  'flex items-start gap-3 p-3 rounded-lg border text-sm',
+                  conflicting ? 'bg-amber-500/10 border-amber-500/30' : 'bg-emerald-500/10 border-emerald-500/30'
+                )}
+              >
+                {conflicting ? (
+                  <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5" />
+                ) : (
+                  <CheckCircle2 className="h-4 w-4 text-emerald-500 mt-0.5" />
+                )}
+                <div>
+                  <p className="font-medium">
+                    {conflicting ? 'Views conflict with the equilibrium prior' : 'Views are consistent with the equilibrium prior'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    χ² = {consistency.statistic.toFixed(2)} on {consistency.degreesOfFreedom} degree
+                    {consistency.degreesOfFreedom === 1 ? '' : 's'} of freedom, p = {consistency.pValue.toFixed(3)}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>View</TableHead>
+                  <TableHead className="text-right">Confidence</TableHead>
+                  <TableHead className="text-right">Prior implies</TableHead>
+                  <TableHead className="text-right">Posterior</TableHead>
+                  <TableHead className="text-right">Surprise (σ)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {posterior.views.map(d => (
+                  <TableRow key={d.view.id}>
+                    <TableCell className="font-medium">{describeView(d.view)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(d.view.confidence, 0)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(d.priorImplied, 2)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(d.posteriorImplied, 2)}</TableCell>
+                    <TableCell className={cn('text-right tabular-nums', Math.abs(d.zScore) > 2 && 'text-amber-600')}>
+                      {d.zScore.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Asset</TableHead>
+                  <TableHead className="text-right">Prior return</TableHead>
+                  <TableHead className="text-right">Posterior return</TableHead>
+                  <TableHead className="text-right">Prior weight</TableHead>
+                  <TableHead className="text-right">Posterior weight</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {posterior.symbols.map(symbol => {
+                  const delta = posterior.weightDeltas.get(symbol) ?? 0;
+                  return (
+                    <TableRow key={symbol}>
+                      <TableCell className="font-mono">{symbol}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(posterior.priorReturns.get(symbol) ?? 0, 2)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(posterior.posteriorReturns.get(symbol) ?? 0, 2)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(posterior.priorWeights.get(symbol) ?? 0)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(posterior.posteriorWeights.get(symbol) ?? 0)}</TableCell>
+                      <TableCell
+                        className={cn(
+                          'text-right tabular-nums',
+                          delta > 0.0005 ? 'text-emerald-500' : delta < -0.0005 ? 'text-rose-500' : 'text-muted-foreground'
+                        )}
+                      >
+                        {signedPct(delta)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {Math.abs(Array.from(posterior.posteriorWeights.values()).reduce((a, b) => a + b, 0) - 1) > 0.005 && (
+              <Badge variant="outline" className="text-xs">
+                Absolute views move the unconstrained total away from 100%; the difference is held in cash
+              </Badge>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
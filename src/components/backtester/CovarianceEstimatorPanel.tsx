@@ -0,0 +1,156 @@
+import { Sigma, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CovarianceEstimate,
+  CovarianceMethod,
+  CovarianceOptions,
+  DEFAULT_COVARIANCE_OPTIONS,
+} from '@/services/covarianceEstimationService';
+
+const COVARIANCE_METHODS: { id: CovarianceMethod; label: string; description: string }[] = [
+  { id: 'sample', label: 'Sample', description: 'Equal-weighted historical covariance' },
+  { id: 'ledoitWolf', label: 'Ledoit-Wolf', description: 'Sample covariance shrunk towards a scaled identity' },
+  { id: 'ewma', label: 'EWMA', description: 'Exponentially weighted, reacts faster to recent volatility' },
+  { id: 'pca', label: 'PCA factors', description: 'Statistical factor model plus specific risk' },
+];
+
+interface CovarianceEstimatorPanelProps {
+  options: CovarianceOptions;
+  onChange: (options: CovarianceOptions) => void;
+  estimate: CovarianceEstimate | null;
+  error?: string | null;
+  onApply: () => void;
+  isRunning?: boolean;
+}
+
+function formatCondition(value: number): string {
+  if (!Number.isFinite(value)) return '∞';
+  return value >= 1000 ? value.toExponential(1) : value.toFixed(1);
+}
+
+export function CovarianceEstimatorPanel({ options, onChange, estimate, error, onApply, isRunning }: CovarianceEstimatorPanelProps) {
+  const method = COVARIANCE_METHODS.find(m => m.id === options.method);
+  const diagnostics = estimate?.diagnostics;
+  const isStale = estimate !== null && estimate.method !== options.method;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Sigma className="h-4 w-4 text-primary" />
+          Covariance Estimator
+        </CardTitle>
+        <CardDescription>{method?.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Method</Label>
+            <Select value={options.method} onValueChange={value => onChange({ ...options, method: value as CovarianceMethod })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COVARIANCE_METHODS.map(m => (
+                  <SelectItem key={m.id} value={m.id}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {options.method === 'ewma' && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Half-life (trading days)</Label>
+              <Input
+                type="number"
+                min={5}
+                value={options.halfLife ?? DEFAULT_COVARIANCE_OPTIONS.halfLife}
+                onChange={e => onChange({ ...options, halfLife: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+          )}
+
+          {options.method === 'pca' && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Factors (blank = 90% of variance)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={options.numFactors ?? ''}
+                onChange={e => onChange({ ...options, numFactors: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : undefined })}
+              />
+            </div>
+          )}
+
+          <Button variant="outline" size="sm" onClick={onApply} disabled={isRunning} className="sm:col-start-3">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-optimize
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-amber-600">{error}</p>}
+
+        {diagnostics && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <div className="p-3 rounded-lg bg-muted/50">
+              <p className="text-xs text-muted-foreground">Observations</p>
+              <p className="font-bold">
+                {diagnostics.observations}
+                {diagnostics.effectiveObservations < diagnostics.observations && (
+                  <span className="text-xs text-muted-foreground font-normal"> ({diagnostics.effectiveObservations.toFixed(0)} effective)</span>
+                )}
+              </p>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50">
+              <p className="text-xs text-muted-foreground">Condition number</p>
+              <p className="font-bold">{formatCondition(diagnostics.conditionNumber)}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50">
+              <p className="text-xs text-muted-foreground">Effective rank</p>
+              <p className="font-bold">
+                {diagnostics.effectiveRank.toFixed(1)}
+                <span className="text-xs text-muted-foreground font-normal"> / {estimate.symbols.length}</span>
+              </p>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50">
+              {diagnostics.shrinkage !== undefined && (
+                <>
+                  <p className="text-xs text-muted-foreground">Shrinkage</p>
+                  <p className="font-bold">{(diagnostics.shrinkage * 100).toFixed(1)}%</p>
+                </>
+              )}
+              {diagnostics.numFactors !== undefined && (
+                <>
+                  <p className="text-xs text-muted-foreground">Variance explained</p>
+                  <p className="font-bold">
+                    {((diagnostics.explainedVariance ?? 0) * 100).toFixed(1)}%
+                    <span className="text-xs text-muted-foreground font-normal"> by {diagnostics.numFactors}</span>
+                  </p>
+                </>
+              )}
+              {diagnostics.shrinkage === undefined && diagnostics.numFactors === undefined && (
+                <>
+                  <p className="text-xs text-muted-foreground">Estimator</p>
+                  <p className="font-bold">{COVARIANCE_METHODS.find(m => m.id === estimate.method)?.label}</p>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {isStale && (
+          <Badge variant="outline" className="text-xs">
+            Showing {COVARIANCE_METHODS.find(m => m.id === estimate.method)?.label} results; re-optimize to apply
+          </Badge>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
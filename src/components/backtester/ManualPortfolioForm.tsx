@@ -16,18 +16,21 @@ import {
   Scale,
   CheckCircle2,
   AlertTriangle,
-  Play
+  Play,
+  Eye
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { motion } from 'framer-motion';
-import { PortfolioAllocation, AssetClass, ASSET_CLASS_ETFS } from '@/types/portfolio';
+import { PortfolioAllocation, AssetClass, ASSET_CLASS_ETFS, MarketView } from '@/types/portfolio';
 import { POLYGON_CONFIG } from '@/config/apiConfig';
+import { BlackLittermanViewEditor } from './BlackLittermanViewEditor';
 
 interface ManualPortfolioFormProps {
   onComplete: (data: {
     capital: number;
     horizon: number;
     allocations: PortfolioAllocation[];
+    views: MarketView[];
   }) => void;
   onBack: () => void;
 }
@@ -37,6 +40,7 @@ export function ManualPortfolioForm({ onComplete, onBack }: ManualPortfolioFormP
   const [horizon, setHorizon] = useState(5);
   const [allocations, setAllocations] = useState<PortfolioAllocation[]>([]);
   const [newSymbol, setNewSymbol] = useState('');
+  const [views, setViews] = useState<MarketView[]>([]);
 
   const totalWeight = useMemo(() => 
     allocations.reduce((sum, a) => sum + a.weight, 0), 
@@ -101,7 +105,14 @@ export function ManualPortfolioForm({ onComplete, onBack }: ManualPortfolioFormP
 
   const handleSubmit = () => {
     if (canProceed) {
-      onComplete({ capital, horizon, allocations });
+      const symbols = allocations.map(a => a.symbol);
+      // Drop views on assets that were removed after the view was written
+      onComplete({
+        capital,
+        horizon,
+        allocations,
+        views: views.filter(v => symbols.includes(v.asset) && (!v.versus || symbols.includes(v.versus))),
+      });
     }
   };
 
@@ -361,6 +372,29 @@ export function ManualPortfolioForm({ onComplete, onBack }: ManualPortfolioFormP
           </CardContent>
         </Card>
 
+        {/* Black-Litterman Views */}
+        {allocations.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <Eye className="h-4 w-4 text-blue-500" />
+                Market Views
+                <Badge variant="outline" className="text-xs">Optional</Badge>
+              </CardTitle>
+              <CardDescription>
+                Tell Black-Litterman where you disagree with the market, e.g. "QQQ outperforms TLT by 3%"
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BlackLittermanViewEditor
+                symbols={allocations.map(a => a.symbol)}
+                views={views}
+                onChange={setViews}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Navigation */}
         <div className="flex justify-between pt-6 border-t border-border">
           <Button variant="outline" onClick={onBack}>
@@ -0,0 +1,343 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Plus, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSavedStrategies } from '@/hooks/useSavedStrategies';
+import {
+  COMPARISON_OPERATORS,
+  ConditionOperator,
+  DEFAULT_OPERANDS,
+  ExitLevel,
+  OPERAND_KIND_LABELS,
+  OPERATOR_LABELS,
+  Operand,
+  OperandKind,
+  PositionSizing,
+  RuleSet,
+  SIZING_LABELS,
+  STRATEGY_TEMPLATES,
+  StrategyCondition,
+  StrategyDefinition,
+  describeRuleSet,
+  validateStrategy,
+} from '@/services/strategyDslService';
+
+interface StrategyBuilderProps {
+  value: StrategyDefinition;
+  onChange: (definition: StrategyDefinition) => void;
+  tickers: string[];
+  onTickersChange: (tickers: string[]) => void;
+}
+
+const fieldClass = 'h-8 text-xs bg-muted border-border text-foreground';
+const NONE = 'none';
+
+function NumberField({ value, onChange, className }: { value: number; onChange: (n: number) => void; className?: string }) {
+  return (
+    <Input
+      type="number"
+      value={Number.isFinite(value) ? value : ''}
+      onChange={e => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+      className={`${fieldClass} ${className || 'w-16'}`}
+    />
+  );
+}
+
+function OperandEditor({ operand, onChange }: { operand: Operand; onChange: (operand: Operand) => void }) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Select value={operand.kind} onValueChange={kind => onChange(DEFAULT_OPERANDS[kind as OperandKind])}>
+        <SelectTrigger className={`${fieldClass} w-32`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(OPERAND_KIND_LABELS) as OperandKind[]).map(kind => (
+            <SelectItem key={kind} value={kind}>{OPERAND_KIND_LABELS[kind]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {operand.kind === 'price' && (
+        <Select value={operand.field} onValueChange={field => onChange({ ...operand, field: field as typeof operand.field })}>
+          <SelectTrigger className={`${fieldClass} w-20`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {['open', 'high', 'low', 'close'].map(f => (
+              <SelectItem key={f} value={f}>{f}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {(operand.kind === 'sma' || operand.kind === 'ema' || operand.kind === 'rsi' || operand.kind === 'atr' || operand.kind === 'momentum') && (
+        <NumberField value={operand.period} onChange={period => onChange({ ...operand, period })} />
+      )}
+      {operand.kind === 'bollinger' && (
+        <>
+          <Select value={operand.band} onValueChange={band => onChange({ ...operand, band: band as typeof operand.band })}>
+            <SelectTrigger className={`${fieldClass} w-20`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {['upper', 'middle', 'lower'].map(b => (
+                <SelectItem key={b} value={b}>{b}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <NumberField value={operand.period} onChange={period => onChange({ ...operand, period })} className="w-14" />
+          <NumberField value={operand.stdDev} onChange={stdDev => onChange({ ...operand, stdDev })} className="w-14" />
+        </>
+      )}
+      {operand.kind === 'metric' && (
+        <Input
+          value={operand.name}
+          onChange={e => onChange({ ...operand, name: e.target.value })}
+          placeholder="metric name"
+          className={`${fieldClass} w-28`}
+        />
+      )}
+      {operand.kind === 'constant' && (
+        <NumberField value={operand.value} onChange={value => onChange({ ...operand, value })} className="w-20" />
+      )}
+    </div>
+  );
+}
+
+function RuleSetEditor({ label, rules, onChange }: { label: string; rules: RuleSet; onChange: (rules: RuleSet) => void }) {
+  const updateCondition = (index: number, condition: StrategyCondition) =>
+    onChange({ ...rules, conditions: rules.conditions.map((c, i) => (i === index ? condition : c)) });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground">{label}</Label>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={rules.logic}
+          onValueChange={logic => logic && onChange({ ...rules, logic: logic as RuleSet['logic'] })}
+        >
+          <ToggleGroupItem value="AND" className="h-6 px-2 text-xs">ALL</ToggleGroupItem>
+          <ToggleGroupItem value="OR" className="h-6 px-2 text-xs">ANY</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {rules.conditions.map((condition, i) => (
+        <div key={i} className="relative space-y-1 rounded-md border border-border p-2 pr-7">
+          <OperandEditor operand={condition.left} onChange={left => updateCondition(i, { ...condition, left })} />
+          <Select
+            value={condition.operator}
+            onValueChange={operator => updateCondition(i, { ...condition, operator: operator as ConditionOperator })}
+          >
+            <SelectTrigger className={`${fieldClass} w-32`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COMPARISON_OPERATORS.map(op => (
+                <SelectItem key={op} value={op}>{OPERATOR_LABELS[op]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <OperandEditor operand={condition.right} onChange={right => updateCondition(i, { ...condition, right })} />
+          <button
+            type="button"
+            onClick={() => onChange({ ...rules, conditions: rules.conditions.filter((_, j) => j !== i) })}
+            className="absolute right-2 top-2 text-muted-foreground hover:text-rose-400"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7 text-xs border-dashed border-border"
+        onClick={() =>
+          onChange({
+            ...rules,
+            conditions: [
+              ...rules.conditions,
+              { left: DEFAULT_OPERANDS.price, operator: '>', right: DEFAULT_OPERANDS.sma },
+            ],
+          })
+        }
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Add condition
+      </Button>
+    </div>
+  );
+}
+
+function ExitLevelEditor({ label, level, onChange }: { label: string; level: ExitLevel | null | undefined; onChange: (level: ExitLevel | null) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex items-center gap-1">
+        <Select
+          value={level?.type || NONE}
+          onValueChange={type =>
+            onChange(type === 'percent' ? { type: 'percent', value: 10 } : type === 'atr' ? { type: 'atr', multiple: 2, period: 14 } : null)
+          }
+        >
+          <SelectTrigger className={`${fieldClass} w-20`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>None</SelectItem>
+            <SelectItem value="percent">%</SelectItem>
+            <SelectItem value="atr">× ATR</SelectItem>
+          </SelectContent>
+        </Select>
+        {level?.type === 'percent' && <NumberField value={level.value} onChange={value => onChange({ ...level, value })} />}
+        {level?.type === 'atr' && (
+          <>
+            <NumberField value={level.multiple} onChange={multiple => onChange({ ...level, multiple })} className="w-12" />
+            <NumberField value={level.period} onChange={period => onChange({ ...level, period })} className="w-12" />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SizingEditor({ sizing, onChange }: { sizing: PositionSizing; onChange: (sizing: PositionSizing) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">Position Size</Label>
+      <div className="flex flex-wrap items-center gap-1">
+        <Select
+          value={sizing.type}
+          onValueChange={type =>
+            onChange(
+              type === 'fixed_amount'
+                ? { type, amount: 10000 }
+                : type === 'risk_atr'
+                  ? { type, riskPercent: 1, atrPeriod: 14, atrMultiple: 2 }
+                  : { type: 'percent_equity', percent: 100 }
+            )
+          }
+        >
+          <SelectTrigger className={`${fieldClass} w-32`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SIZING_LABELS) as PositionSizing['type'][]).map(type => (
+              <SelectItem key={type} value={type}>{SIZING_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {sizing.type === 'percent_equity' && (
+          <NumberField value={sizing.percent} onChange={percent => onChange({ ...sizing, percent })} />
+        )}
+        {sizing.type === 'fixed_amount' && (
+          <NumberField value={sizing.amount} onChange={amount => onChange({ ...sizing, amount })} className="w-24" />
+        )}
+        {sizing.type === 'risk_atr' && (
+          <>
+            <NumberField value={sizing.riskPercent} onChange={riskPercent => onChange({ ...sizing, riskPercent })} className="w-14" />
+            <span className="text-xs text-muted-foreground">% at</span>
+            <NumberField value={sizing.atrMultiple} onChange={atrMultiple => onChange({ ...sizing, atrMultiple })} className="w-12" />
+            <span className="text-xs text-muted-foreground">× ATR</span>
+            <NumberField value={sizing.atrPeriod} onChange={atrPeriod => onChange({ ...sizing, atrPeriod })} className="w-12" />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function StrategyBuilder({ value, onChange, tickers, onTickersChange }: StrategyBuilderProps) {
+  const { strategies, saveStrategy, deleteStrategy, isSaving } = useSavedStrategies();
+  const [loadedId, setLoadedId] = useState<string>(NONE);
+
+  const handleLoad = (id: string) => {
+    setLoadedId(id);
+    const template = STRATEGY_TEMPLATES.find(t => `template:${t.name}` === id);
+    if (template) {
+      onChange(template);
+      return;
+    }
+    const saved = strategies.find(s => s.id === id);
+    if (saved) {
+      onChange(saved.definition);
+      if (saved.tickers.length > 0) onTickersChange(saved.tickers);
+    }
+  };
+
+  const handleSave = async () => {
+    const { errors } = validateStrategy(value);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+    await saveStrategy({ definition: value, tickers, description: `Entry: ${describeRuleSet(value.entry)}` });
+  };
+
+  const selectedSaved = strategies.find(s => s.id === loadedId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-1">
+        <Select value={loadedId} onValueChange={handleLoad}>
+          <SelectTrigger className={`${fieldClass} flex-1`}>
+            <SelectValue placeholder="Load strategy..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE} disabled>Load strategy...</SelectItem>
+            {STRATEGY_TEMPLATES.map(t => (
+              <SelectItem key={t.name} value={`template:${t.name}`}>Template: {t.name}</SelectItem>
+            ))}
+            {strategies.map(s => (
+              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedSaved && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={async () => {
+              await deleteStrategy(selectedSaved.id);
+              setLoadedId(NONE);
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Input
+          value={value.name}
+          onChange={e => onChange({ ...value, name: e.target.value })}
+          placeholder="Strategy name"
+          className={`${fieldClass} flex-1`}
+        />
+        <Button variant="outline" size="sm" className="h-8 border-border" onClick={handleSave} disabled={isSaving}>
+          <Save className="h-3 w-3 mr-1" />
+          Save
+        </Button>
+      </div>
+
+      <RuleSetEditor label="Enter when" rules={value.entry} onChange={entry => onChange({ ...value, entry })} />
+      <RuleSetEditor label="Exit when" rules={value.exit} onChange={exit => onChange({ ...value, exit })} />
+
+      <SizingEditor sizing={value.sizing} onChange={sizing => onChange({ ...value, sizing })} />
+      <div className="grid grid-cols-2 gap-2">
+        <ExitLevelEditor label="Stop-Loss" level={value.stopLoss} onChange={stopLoss => onChange({ ...value, stopLoss })} />
+        <ExitLevelEditor label="Take-Profit" level={value.takeProfit} onChange={takeProfit => onChange({ ...value, takeProfit })} />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Signals are read at the close and filled at the next open. Each ticker trades an equal share of capital.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { FlaskConical, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { loadCachedBars } from '@/services/strategyDslService';
+import { DEFAULT_COST_MODEL } from '@/services/transactionCostService';
+import {
+  PARAMETER_SPACES,
+  SegmentMetrics,
+  WalkForwardObjective,
+  WalkForwardResult,
+  formatParameters,
+  runWalkForward,
+} from '@/services/walkForwardService';
+
+interface WalkForwardPanelProps {
+  tickers: string[];
+  startDate: string;
+  endDate: string;
+  initialCapital?: number;
+}
+
+const TRADING_DAYS_PER_MONTH = 21;
+
+const pct = (n: number) => `${n >= 0 ? '+' : ''}${n.toFixed(1)}%`;
+
+function Stat({ label, value, hint, tone }: { label: string; value: string; hint: string; tone?: 'good' | 'bad' }) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/50">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={cn('text-lg font-bold tabular-nums', tone === 'good' ? 'text-emerald-400' : tone === 'bad' ? 'text-rose-400' : 'text-foreground')}>
+        {value}
+      </p>
+      <p className="text-[10px] text-muted-foreground">{hint}</p>
+    </div>
+  );
+}
+
+function SegmentRow({ label, metrics }: { label: string; metrics: SegmentMetrics }) {
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      <TableCell className="text-right tabular-nums">{pct(metrics.cagr)}</TableCell>
+      <TableCell className="text-right tabular-nums">{metrics.sharpeRatio.toFixed(2)}</TableCell>
+      <TableCell className="text-right tabular-nums">-{metrics.maxDrawdownPercent.toFixed(1)}%</TableCell>
+      <TableCell className="text-right tabular-nums">{metrics.days}</TableCell>
+    </TableRow>
+  );
+}
+
+export function WalkForwardPanel({ tickers, startDate, endDate, initialCapital = 100000 }: WalkForwardPanelProps) {
+  const [spaceId, setSpaceId] = useState(PARAMETER_SPACES[0].id);
+  const [trainMonths, setTrainMonths] = useState('24');
+  const [testMonths, setTestMonths] = useState('6');
+  const [holdout, setHoldout] = useState('20');
+  const [objective, setObjective] = useState<WalkForwardObjective>('sharpe');
+  const [anchored, setAnchored] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<WalkForwardResult | null>(null);
+
+  const space = PARAMETER_SPACES.find(s => s.id === spaceId)!;
+
+  const handleRun = async () => {
+    if (tickers.length === 0) {
+      toast.error('Add at least one ticker');
+      return;
+    }
+
+    setIsRunning(true);
+    setResult(null);
+    try {
+      const { data: fetchResult, error: fetchError } = await supabase.functions.invoke('fetch-stock-batch', {
+        body: { tickers, startDate, endDate }
+      });
+      if (fetchError) throw fetchError;
+      if (!fetchResult?.success) throw new Error(fetchResult?.error || 'Failed to fetch data');
+
+      const bars = await loadCachedBars(tickers, startDate, endDate);
+      const walkForward = runWalkForward(space, bars, {
+        trainBars: Number(trainMonths) * TRADING_DAYS_PER_MONTH,
+        testBars: Number(testMonths) * TRADING_DAYS_PER_MONTH,
+        anchored,
+        holdoutFraction: Number(holdout) / 100,
+        objective,
+        initialCapital,
+        costModel: DEFAULT_COST_MODEL,
+      });
+      setResult(walkForward);
+    } catch (e) {
+      console.error('Walk-forward error:', e);
+      toast.error(e instanceof Error ? e.message : 'Walk-forward analysis failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const selectClass = 'h-8 text-xs bg-muted border-border text-foreground';
+  const overfit = result?.overfitting;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <FlaskConical className="h-4 w-4 text-primary" />
+        <p className="text-sm font-medium text-foreground">Walk-Forward Validation</p>
+        <span className="text-xs text-muted-foreground">· {space.description}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <div className="space-y-1 col-span-2">
+          <Label className="text-xs text-muted-foreground">Strategy ({Object.values(space.grid).reduce((n, v) => n * v.length, 1)} parameter sets)</Label>
+          <Select value={spaceId} onValueChange={setSpaceId}>
+            <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PARAMETER_SPACES.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Train</Label>
+          <Select value={trainMonths} onValueChange={setTrainMonths}>
+            <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {['12', '24', '36'].map(m => <SelectItem key={m} value={m}>{m} months</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Test</Label>
+          <Select value={testMonths} onValueChange={setTestMonths}>
+            <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {['3', '6', '12'].map(m => <SelectItem key={m} value={m}>{m} months</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Holdout</Label>
+          <Select value={holdout} onValueChange={setHoldout}>
+            <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {['0', '20', '30'].map(h => <SelectItem key={h} value={h}>{h === '0' ? 'None' : `Last ${h}%`}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Optimize</Label>
+          <Select value={objective} onValueChange={v => setObjective(v as WalkForwardObjective)}>
+            <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sharpe">Sharpe</SelectItem>
+              <SelectItem value="sortino">Sortino</SelectItem>
+              <SelectItem value="cagr">CAGR</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch id="wf-anchored" checked={anchored} onCheckedChange={setAnchored} />
+          <Label htmlFor="wf-anchored" className="text-xs text-muted-foreground">Anchored (expanding) training window</Label>
+        </div>
+        <Button size="sm" onClick={handleRun} disabled={isRunning || tickers.length === 0}>
+          {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+          Run Validation
+        </Button>
+      </div>
+
+      {result && overfit && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat
+              label="Walk-Forward Efficiency"
+              value={`${(result.efficiency * 100).toFixed(0)}%`}
+              hint="OOS CAGR / in-sample CAGR"
+              tone={result.efficiency >= 0.5 ? 'good' : 'bad'}
+            />
+            <Stat
+              label="Deflated Sharpe"
+              value={`${(overfit.deflatedSharpe * 100).toFixed(0)}%`}
+              hint={`Best of ${overfit.trials}: ${overfit.bestSharpe.toFixed(2)} vs ${overfit.expectedMaxSharpe.toFixed(2)} by luck`}
+              tone={overfit.deflatedSharpe >= 0.95 ? 'good' : 'bad'}
+            />
+            <Stat
+              label="Prob. of Overfitting"
+              value={overfit.pbo === null ? '—' : `${(overfit.pbo * 100).toFixed(0)}%`}
+              hint="CSCV: best in-sample ranks below median OOS"
+              tone={overfit.pbo === null ? undefined : overfit.pbo <= 0.25 ? 'good' : 'bad'}
+            />
+            <Stat
+              label="Holdout CAGR"
+              value={result.holdout ? pct(result.holdout.outOfSample.cagr) : '—'}
+              hint={result.holdout ? `${result.holdout.startDate} → ${result.holdout.endDate}` : 'No holdout reserved'}
+              tone={result.holdout ? (result.holdout.outOfSample.cagr >= 0 ? 'good' : 'bad') : undefined}
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Segment</TableHead>
+                <TableHead className="text-right">CAGR</TableHead>
+                <TableHead className="text-right">Sharpe</TableHead>
+                <TableHead className="text-right">Max DD</TableHead>
+                <TableHead className="text-right">Days</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <SegmentRow label="In-sample (training windows)" metrics={result.inSample} />
+              <SegmentRow label="Out-of-sample (test windows)" metrics={result.outOfSample} />
+              {result.holdout && (
+                <>
+                  <SegmentRow label={`Full in-sample (${formatParameters(result.holdout.params)})`} metrics={result.holdout.inSample} />
+                  <SegmentRow label="Holdout" metrics={result.holdout.outOfSample} />
+                </>
+              )}
+            </TableBody>
+          </Table>
+
+          {result.outOfSampleEquity.length > 1 && (
+            <div className="h-40">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={result.outOfSampleEquity}>
+                  <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={40} />
+                  <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} tickFormatter={v => `$${(v / 1000).toFixed(0)}k`} />
+                  <Tooltip formatter={(v: number) => [`$${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}`, 'OOS equity']} />
+                  <Line type="monotone" dataKey="value" stroke="#10b981" dot={false} strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Train</TableHead>
+                <TableHead>Test</TableHead>
+                <TableHead>Parameters</TableHead>
+                <TableHead className="text-right">IS Sharpe</TableHead>
+                <TableHead className="text-right">OOS Sharpe</TableHead>
+                <TableHead className="text-right">OOS Return</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.windows.map(w => (
+                <TableRow key={w.testStart}>
+                  <TableCell className="text-xs">{w.trainStart} → {w.trainEnd}</TableCell>
+                  <TableCell className="text-xs">{w.testStart} → {w.testEnd}</TableCell>
+                  <TableCell><Badge variant="outline" className="text-xs">{formatParameters(w.params)}</Badge></TableCell>
+                  <TableCell className="text-right tabular-nums">{w.inSample.sharpeRatio.toFixed(2)}</TableCell>
+                  <TableCell className={cn('text-right tabular-nums', w.outOfSample.sharpeRatio < 0 && 'text-rose-400')}>
+                    {w.outOfSample.sharpeRatio.toFixed(2)}
+                  </TableCell>
+                  <TableCell className={cn('text-right tabular-nums', w.outOfSample.totalReturn < 0 && 'text-rose-400')}>
+                    {pct(w.outOfSample.totalReturn)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {Object.keys(result.selectionCounts).length > 1 && (
+            <p className="text-xs text-muted-foreground">
+              Parameters changed across windows ({Object.keys(result.selectionCounts).length} distinct sets chosen in {result.windows.length} windows) — unstable choices are a sign the edge is noise.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -40,6 +40,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { TickerSearchAutocomplete } from '@/components/shared/TickerSearchAutocomplete';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { entryStages } from '@/services/pipelineStageService';
 
 interface AddAssetWizardProps {
   open: boolean;
@@ -105,15 +107,6 @@ const INDUSTRIES = [
   'Financial Services', 'Energy', 'Real Estate', 'Media & Entertainment', 'Other',
 ];
 
-const PIPELINE_STAGES = [
-  { id: 'sourcing', label: 'Sourcing', desc: 'Just identified' },
-  { id: 'initial-review', label: 'Initial Review', desc: 'First look' },
-  { id: 'deep-dive', label: 'Deep Dive', desc: 'Detailed analysis' },
-  { id: 'loi', label: 'LOI', desc: 'Letter of intent' },
-  { id: 'due-diligence', label: 'Due Diligence', desc: 'Final verification' },
-  { id: 'closing', label: 'Closing', desc: 'Finalizing deal' },
-];
-
 const PROPERTY_TYPES = [
   'Office', 'Retail', 'Industrial', 'Multifamily', 
   'Hotel', 'Mixed Use', 'Land', 'Other',
@@ -123,6 +116,7 @@ const EXCHANGES = ['NYSE', 'NASDAQ', 'LSE', 'TSE', 'Other'];
 
 export function AddAssetWizard({ open, onOpenChange, onComplete, onCreate }: AddAssetWizardProps) {
   const { enabledAssetTypes } = useOrganization();
+  const { stages } = usePipelineStages();
   const [step, setStep] = useState(0);
   const [isCreating, setIsCreating] = useState(false);
   const [isLoadingQuote, setIsLoadingQuote] = useState(false);
@@ -135,7 +129,7 @@ export function AddAssetWizard({ open, onOpenChange, onComplete, onCreate }: Add
     industry: '',
     description: '',
     stage: '',
-    pipelineStage: 'sourcing',
+    pipelineStage: stages[0].id,
     revenue: '',
     ebitda: '',
     tickerSymbol: '',
@@ -175,7 +169,7 @@ export function AddAssetWizard({ open, onOpenChange, onComplete, onCreate }: Add
       industry: '',
       description: '',
       stage: '',
-      pipelineStage: 'sourcing',
+      pipelineStage: stages[0].id,
       revenue: '',
       ebitda: '',
       tickerSymbol: '',
@@ -611,6 +605,8 @@ function StepPrivateEquityBasics({ form, updateForm }: { form: WizardForm; updat
 }
 
 function StepPrivateEquityStage({ form, updateForm }: { form: WizardForm; updateForm: (u: Partial<WizardForm>) => void }) {
+  const { stages } = usePipelineStages();
+
   return (
     <div className="space-y-6">
       <div className="text-center mb-6">
@@ -626,7 +622,7 @@ function StepPrivateEquityStage({ form, updateForm }: { form: WizardForm; update
               ? "bg-blue-500/10 border-blue-500" 
               : "bg-slate-800/50 border-slate-700 hover:border-slate-500"
           )}
-          onClick={() => updateForm({ stage: 'pipeline', pipelineStage: 'sourcing' })}
+          onClick={() => updateForm({ stage: 'pipeline', pipelineStage: stages[0].id })}
         >
           <div className="flex items-center gap-3">
             <div className="h-10 w-10 rounded-lg bg-blue-500/20 flex items-center justify-center">
@@ -664,7 +660,7 @@ function StepPrivateEquityStage({ form, updateForm }: { form: WizardForm; update
         <div className="mt-4">
           <Label className="text-slate-300">Pipeline Stage</Label>
           <div className="grid grid-cols-3 gap-2 mt-2">
-            {PIPELINE_STAGES.map(stage => (
+            {entryStages(stages).map(stage => (
               <Button
                 key={stage.id}
                 type="button"
@@ -678,7 +674,7 @@ function StepPrivateEquityStage({ form, updateForm }: { form: WizardForm; update
                 onClick={() => updateForm({ pipelineStage: stage.id })}
               >
                 <div>
-                  <p className="text-sm font-medium">{stage.label}</p>
+                  <p className="text-sm font-medium">{stage.title}</p>
                 </div>
               </Button>
             ))}
@@ -36,6 +36,8 @@ import { AppCompany, CompanyStage } from '@/hooks/useAppData';
 import { CompanyAvatar } from './CompanyAvatar';
 import { StageIndicator } from './StageIndicator';
 import { HealthScore } from './HealthScore';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { STAGE_COLORS } from '@/services/pipelineStageService';
 
 interface CompanyListViewProps {
   companies: AppCompany[];
@@ -45,6 +47,7 @@ interface CompanyListViewProps {
 
 export function CompanyListView({ companies, onUpdateStage, onDelete }: CompanyListViewProps) {
   const navigate = useNavigate();
+  const { stages } = usePipelineStages();
 
   const getHealthScore = (company: AppCompany) => {
     if (company.ebitda_ltm && company.revenue_ltm) {
@@ -142,24 +145,15 @@ export function CompanyListView({ companies, onUpdateStage, onDelete }: CompanyL
                       </DropdownMenuSubTrigger>
                       <DropdownMenuSubContent>
                         <DropdownMenuLabel>Pipeline Stages</DropdownMenuLabel>
-                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateStage(company.id, 'pipeline', 'sourcing'); }}>
-                          Sourcing
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateStage(company.id, 'pipeline', 'initial-review'); }}>
-                          Initial Review
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateStage(company.id, 'pipeline', 'deep-dive'); }}>
-                          Deep Dive
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateStage(company.id, 'pipeline', 'loi'); }}>
-                          LOI
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateStage(company.id, 'pipeline', 'due-diligence'); }}>
-                          Due Diligence
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateStage(company.id, 'pipeline', 'closing'); }}>
-                          Closing
-                        </DropdownMenuItem>
+                        {stages.map(stage => (
+                          <DropdownMenuItem
+                            key={stage.id}
+                            onClick={(e) => { e.stopPropagation(); onUpdateStage(company.id, 'pipeline', stage.id); }}
+                          >
+                            <div className={`h-2 w-2 rounded-full mr-2 ${STAGE_COLORS[stage.color].dot}`} />
+                            {stage.title}
+                          </DropdownMenuItem>
+                        ))}
                         <DropdownMenuSeparator />
                         <DropdownMenuLabel>Other</DropdownMenuLabel>
                         <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateStage(company.id, 'portfolio'); }}>
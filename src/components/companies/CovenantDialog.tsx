@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Trash2 } from 'lucide-react';
+import { CovenantInput, CovenantModelOption } from '@/hooks/useCompanyCovenants';
+import {
+  COVENANT_DEFINITIONS,
+  Covenant,
+  CovenantType,
+  DEFAULT_WARNING_HEADROOM_PCT,
+  TestFrequency,
+  isCovenantType,
+} from '@/services/covenantService';
+
+const LATEST_MODEL = 'latest';
+
+interface CovenantDialogProps {
+  open: boolean;
+  covenant: Covenant | null; // null when adding a covenant
+  models: CovenantModelOption[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: CovenantInput) => Promise<boolean>;
+  onDelete: (covenant: Covenant) => Promise<boolean>;
+}
+
+export function CovenantDialog({ open, covenant, models, onOpenChange, onSave, onDelete }: CovenantDialogProps) {
+  const [type, setType] = useState<CovenantType>('max_leverage');
+  const [limit, setLimit] = useState('');
+  const [frequency, setFrequency] = useState<TestFrequency>('quarterly');
+  const [warningPct, setWarningPct] = useState(String(DEFAULT_WARNING_HEADROOM_PCT));
+  const [modelId, setModelId] = useState(LATEST_MODEL);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setType(covenant && isCovenantType(covenant.covenant_type) ? covenant.covenant_type : 'max_leverage');
+      setLimit(covenant ? String(covenant.limit_value) : '');
+      setFrequency(covenant?.test_frequency || 'quarterly');
+      setWarningPct(String(covenant?.warning_headroom_pct ?? DEFAULT_WARNING_HEADROOM_PCT));
+      setModelId(covenant?.model_id || LATEST_MODEL);
+    }
+  }, [open, covenant]);
+
+  const definition = COVENANT_DEFINITIONS[type];
+  const limitValue = parseFloat(limit);
+  const warningValue = parseFloat(warningPct);
+  const isValid = Number.isFinite(limitValue) && limitValue > 0 && Number.isFinite(warningValue) && warningValue >= 0;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    const saved = await onSave({
+      covenant_type: type,
+      limit_value: limitValue,
+      test_frequency: frequency,
+      warning_headroom_pct: warningValue,
+      model_id: modelId === LATEST_MODEL ? null : modelId,
+    });
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  const handleDelete = async () => {
+    if (!covenant) return;
+    if (await onDelete(covenant)) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{covenant ? 'Edit Covenant' : 'Add Covenant'}</DialogTitle>
+          <DialogDescription>
+            Tested each reporting period against the company's extracted financials
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Covenant</Label>
+            <Select value={type} onValueChange={(v) => setType(v as CovenantType)}>
+              <SelectTrigger className="bg-background border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COVENANT_DEFINITIONS) as CovenantType[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {COVENANT_DEFINITIONS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{definition.description}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="covenant-limit">
+                Limit ({definition.direction === 'max' ? 'max' : 'min'}, {definition.unit})
+              </Label>
+              <Input
+                id="covenant-limit"
+                type="number"
+                step="0.1"
+                min="0"
+                value={limit}
+                onChange={(e) => setLimit(e.target.value)}
+                placeholder={definition.unit === 'x' ? '4.5' : '10'}
+                className="bg-background border-border"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="covenant-warning">Warning Headroom (%)</Label>
+              <Input
+                id="covenant-warning"
+                type="number"
+                step="1"
+                min="0"
+                value={warningPct}
+                onChange={(e) => setWarningPct(e.target.value)}
+                className="bg-background border-border"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Test Frequency</Label>
+              <Select value={frequency} onValueChange={(v) => setFrequency(v as TestFrequency)}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="quarterly">Quarterly</SelectItem>
+                  <SelectItem value="annual">Annual</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Projection Model</Label>
+              <Select value={modelId} onValueChange={setModelId}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={LATEST_MODEL}>Latest LBO model</SelectItem>
+                  {models.map((model) => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {model.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2 pt-4 border-t border-border">
+          {covenant ? (
+            <Button variant="ghost" className="text-destructive hover:text-destructive" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!isValid || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {covenant ? 'Save' : 'Add Covenant'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ChevronDown, ChevronRight, Loader2, Pencil, Plus, RefreshCw, ShieldCheck } from 'lucide-react';
+import { CovenantTest, useCompanyCovenants } from '@/hooks/useCompanyCovenants';
+import { CovenantDialog } from '@/components/companies/CovenantDialog';
+import {
+  COVENANT_DEFINITIONS,
+  COVENANT_STATUS_LABELS,
+  Covenant,
+  formatCovenantValue,
+  isCovenantType,
+  isTestDue,
+} from '@/services/covenantService';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface CovenantsTabProps {
+  companyId: string;
+  companyName: string;
+}
+
+const statusStyles: Record<Covenant['status'], string> = {
+  compliant: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/30',
+  warning: 'bg-amber-500/10 text-amber-500 border-amber-500/30',
+  breach: 'bg-destructive/10 text-destructive border-destructive/30',
+  missing_data: 'bg-muted text-muted-foreground border-border',
+  untested: 'bg-muted text-muted-foreground border-border',
+};
+
+function StatusBadge({ status }: { status: Covenant['status'] }) {
+  return (
+    <Badge variant="outline" className={cn('text-xs', statusStyles[status])}>
+      {COVENANT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+function formatHeadroom(headroom: number | null): string {
+  return headroom === null ? '—' : `${headroom.toFixed(1)}%`;
+}
+
+function TestTable({ covenant, tests, title }: { covenant: Covenant; tests: CovenantTest[]; title: string }) {
+  if (tests.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h5 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{title}</h5>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Period</TableHead>
+            <TableHead className="text-right">Actual</TableHead>
+            <TableHead className="text-right">Limit</TableHead>
+            <TableHead className="text-right">Headroom</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tests.map((test) => (
+            <TableRow
+              key={test.id}
+              className={cn(test.is_projected && test.period === covenant.projected_breach_period && 'bg-destructive/5')}
+            >
+              <TableCell className="font-medium">{test.period}</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatCovenantValue(covenant.covenant_type, test.actual_value)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatCovenantValue(covenant.covenant_type, test.limit_value)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{formatHeadroom(test.headroom_pct)}</TableCell>
+              <TableCell>
+                <StatusBadge status={test.status} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function CovenantsTab({ companyId, companyName }: CovenantsTabProps) {
+  const {
+    covenants,
+    tests,
+    models,
+    isLoading,
+    isTesting,
+    createCovenant,
+    updateCovenant,
+    deleteCovenant,
+    runTests,
+  } = useCompanyCovenants(companyId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Covenant | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const autoTestedRef = useRef<string | null>(null);
+
+  // Test covenants that have not been tested this reporting period, once per company visit
+  useEffect(() => {
+    if (isLoading || isTesting || autoTestedRef.current === companyId) return;
+    autoTestedRef.current = companyId;
+    const due = covenants.filter((c) => isTestDue(c));
+    if (due.length > 0) runTests(companyName, due);
+  }, [companyId, companyName, covenants, isLoading, isTesting, runTests]);
+
+  const handleRunTests = async () => {
+    const summary = await runTests(companyName);
+    if (!summary) return;
+
+    const missingCount = Object.keys(summary.missing).length;
+    if (summary.alerts > 0) {
+      toast.warning(`${summary.alerts} covenant alert${summary.alerts === 1 ? '' : 's'} raised`);
+    } else {
+      toast.success(`Tested ${summary.tested} covenant${summary.tested === 1 ? '' : 's'}`);
+    }
+    if (missingCount > 0) {
+      toast.info(`${missingCount} covenant${missingCount === 1 ? ' is' : 's are'} missing financial data`);
+    }
+  };
+
+  const openDialog = (covenant: Covenant | null) => {
+    setEditing(covenant);
+    setDialogOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-10 bg-muted rounded w-full" />
+        <div className="h-24 bg-muted rounded w-full" />
+        <div className="h-24 bg-muted rounded w-full" />
+      </div>
+    );
+  }
+
+  const breaches = covenants.filter((c) => c.status === 'breach').length;
+  const warnings = covenants.filter((c) => c.status === 'warning' || (c.status !== 'breach' && c.projected_breach_period)).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Covenant Compliance</h3>
+          {breaches > 0 && <Badge variant="destructive">{breaches} in breach</Badge>}
+          {warnings > 0 && (
+            <Badge variant="outline" className={statusStyles.warning}>
+              {warnings} at risk
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleRunTests} disabled={isTesting || covenants.length === 0}>
+            {isTesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Test Now
+          </Button>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Covenant
+          </Button>
+        </div>
+      </div>
+
+      {covenants.length === 0 ? (
+        <Card className="p-8 text-center">
+          <ShieldCheck className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">No covenants defined</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Add leverage, interest coverage, liquidity or capex covenants to monitor compliance each period
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {covenants.map((covenant) => {
+            const definition = isCovenantType(covenant.covenant_type) ? COVENANT_DEFINITIONS[covenant.covenant_type] : null;
+            const covenantTests = tests.filter((t) => t.covenant_id === covenant.id);
+            const history = covenantTests.filter((t) => !t.is_projected).reverse();
+            const projections = covenantTests.filter((t) => t.is_projected);
+            const isExpanded = expanded === covenant.id;
+            const headroom = covenant.headroom_pct;
+
+            return (
+              <Card key={covenant.id} className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <button
+                    type="button"
+                    className="flex items-start gap-2 text-left flex-1 min-w-0"
+                    onClick={() => setExpanded(isExpanded ? null : covenant.id)}
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4 mt-1 text-muted-foreground shrink-0" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mt-1 text-muted-foreground shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium text-foreground">{definition?.label || covenant.covenant_type}</span>
+                        <StatusBadge status={covenant.status} />
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {definition?.description} · {definition?.direction === 'min' ? 'Min' : 'Max'}{' '}
+                        {formatCovenantValue(covenant.covenant_type, covenant.limit_value)} · Tested{' '}
+                        {covenant.test_frequency}
+                        {covenant.last_tested_at && ` · Last tested ${format(new Date(covenant.last_tested_at), 'MMM d, yyyy')}`}
+                      </p>
+                    </div>
+                  </button>
+
+                  <div className="flex items-center gap-4 shrink-0">
+                    <div className="text-right">
+                      <p className="text-sm font-semibold tabular-nums text-foreground">
+                        {covenant.status === 'untested' || covenant.status === 'missing_data'
+                          ? '—'
+                          : formatCovenantValue(covenant.covenant_type, covenant.current_value)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{covenant.last_period || 'Current'}</p>
+                    </div>
+                    <div className="w-28">
+                      <Progress value={Math.max(0, Math.min(100, headroom ?? 0))} className="h-2" />
+                      <p className="text-xs text-muted-foreground mt-1 text-right tabular-nums">
+                        {formatHeadroom(headroom)} headroom
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(covenant)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {covenant.projected_breach_period && (
+                  <div className="flex items-center gap-2 mt-3 text-sm text-amber-500">
+                    <AlertTriangle className="h-4 w-4" />
+                    The model projects a breach in {covenant.projected_breach_period}
+                  </div>
+                )}
+
+                {isExpanded && (
+                  <div className="mt-4 pt-4 border-t border-border space-y-4">
+                    {history.length === 0 && projections.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No test results yet</p>
+                    ) : (
+                      <>
+                        <TestTable covenant={covenant} tests={history} title="Reporting Periods" />
+                        <TestTable covenant={covenant} tests={projections} title="Projected (LBO Model)" />
+                      </>
+                    )}
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <CovenantDialog
+        open={dialogOpen}
+        covenant={editing}
+        models={models}
+        onOpenChange={setDialogOpen}
+        onSave={(input) => (editing ? updateCovenant(editing.id, input) : createCovenant(input))}
+        onDelete={(covenant) => deleteCovenant(covenant.id)}
+      />
+    </div>
+  );
+}
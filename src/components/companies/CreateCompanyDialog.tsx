@@ -36,6 +36,9 @@ import {
 } from '@/services/marketData';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { entryStages } from '@/services/pipelineStageService';
+import { DEAL_SOURCES } from '@/services/pipelineAnalyticsService';
 
 const formSchema = z.object({
   name: z.string().min(1, 'Company name is required').max(100),
@@ -44,6 +47,7 @@ const formSchema = z.object({
   description: z.string().optional(),
   company_type: z.enum(['pipeline', 'portfolio', 'prospect']),
   pipeline_stage: z.string().optional(),
+  deal_source: z.string().optional(),
   ebitda_ltm: z.number().optional(),
   valuation: z.number().optional(),
 });
@@ -56,16 +60,6 @@ interface CreateCompanyDialogProps {
   onSubmit: (values: FormValues) => Promise<void>;
 }
 
-const PIPELINE_STAGES = [
-  'Sourcing',
-  'Initial Review',
-  'Management Meeting',
-  'Due Diligence',
-  'LOI Submitted',
-  'Negotiation',
-  'Closing',
-];
-
 const INDUSTRIES = [
   'Technology',
   'Healthcare',
@@ -91,6 +85,7 @@ export function CreateCompanyDialog({
   const [currentMultiple, setCurrentMultiple] = useState<number | null>(null);
   const [isAutoValuation, setIsAutoValuation] = useState(false);
   const { toast } = useToast();
+  const { stages } = usePipelineStages();
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -101,6 +96,7 @@ export function CreateCompanyDialog({
       description: '',
       company_type: 'prospect',
       pipeline_stage: '',
+      deal_source: '',
       ebitda_ltm: undefined,
       valuation: undefined,
     },
@@ -452,9 +448,34 @@ export function CreateCompanyDialog({
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {PIPELINE_STAGES.map((stage) => (
-                            <SelectItem key={stage} value={stage.toLowerCase()}>
-                              {stage}
+                          {entryStages(stages).map((stage) => (
+                            <SelectItem key={stage.id} value={stage.id}>
+                              {stage.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="deal_source"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Deal Source</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="bg-background border-border">
+                            <SelectValue placeholder="How did this deal come in?" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {DEAL_SOURCES.map((source) => (
+                            <SelectItem key={source} value={source}>
+                              {source}
                             </SelectItem>
                           ))}
                         </SelectContent>
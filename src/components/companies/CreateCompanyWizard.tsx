@@ -19,6 +19,9 @@ import {
 import { cn } from '@/lib/utils';
 import { FileUploadZone, UploadFile } from './FileUploadZone';
 import { triggerDocumentProcessing } from '@/hooks/useAppData';
+import { DEAL_SOURCES } from '@/services/pipelineAnalyticsService';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { entryStages } from '@/services/pipelineStageService';
 
 interface CreateCompanyWizardProps {
   open: boolean;
@@ -32,20 +35,6 @@ const INDUSTRIES = [
   'Transportation', 'Education', 'Retail', 'Other'
 ];
 
-const STAGES = [
-  { value: 'sourcing', label: 'Sourcing' },
-  { value: 'initial_review', label: 'Initial Review' },
-  { value: 'management_meeting', label: 'Management Meeting' },
-  { value: 'due_diligence', label: 'Due Diligence' },
-  { value: 'loi', label: 'LOI' },
-  { value: 'closing', label: 'Closing' },
-  { value: 'passed', label: 'Passed' },
-];
-
-const SOURCES = [
-  'Banker/Broker', 'Direct Outreach', 'Referral', 'Conference', 'Other'
-];
-
 const STEPS = [
   { id: 1, name: 'Basic Info', icon: Building2 },
   { id: 2, name: 'Details', icon: FileText },
@@ -85,13 +74,16 @@ export function CreateCompanyWizard({ open, onOpenChange, onComplete }: CreateCo
   const navigate = useNavigate();
   const { user } = useAuth();
   const orgId = useOrgId();
+  const { stages } = usePipelineStages();
+  // New deals can start in any stage up to the first gated one
+  const startStages = entryStages(stages);
   const [currentStep, setCurrentStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
   const [data, setData] = useState<WizardData>({
     name: '',
     website: '',
     industry: '',
-    stage: 'sourcing',
+    stage: stages[0].id,
     source: '',
     description: '',
     yearFounded: '',
@@ -251,7 +243,7 @@ export function CreateCompanyWizard({ open, onOpenChange, onComplete }: CreateCo
     setSuggestions([]);
     lastLookedUpName.current = '';
     setData({
-      name: '', website: '', industry: '', stage: 'sourcing', source: '',
+      name: '', website: '', industry: '', stage: stages[0].id, source: '',
       description: '', yearFounded: '', headquarters: '', employeeCount: '',
       revenueLtm: '', ebitdaLtm: '', uploadFiles: [], extractedData: {}, aiSummary: '',
     });
@@ -273,6 +265,7 @@ export function CreateCompanyWizard({ open, onOpenChange, onComplete }: CreateCo
           website: data.website || null,
           industry: data.industry || null,
           pipeline_stage: data.stage,
+          deal_source: data.source || null,
           description: data.description || null,
           revenue_ltm: data.revenueLtm ? parseFloat(data.revenueLtm) : null,
           ebitda_ltm: data.ebitdaLtm ? parseFloat(data.ebitdaLtm) : null,
@@ -543,8 +536,8 @@ export function CreateCompanyWizard({ open, onOpenChange, onComplete }: CreateCo
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent className="bg-slate-800 border-slate-700">
-                        {STAGES.map(stage => (
-                          <SelectItem key={stage.value} value={stage.value}>{stage.label}</SelectItem>
+                        {startStages.map(stage => (
+                          <SelectItem key={stage.id} value={stage.id}>{stage.title}</SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
@@ -558,7 +551,7 @@ export function CreateCompanyWizard({ open, onOpenChange, onComplete }: CreateCo
                       <SelectValue placeholder="Select source" />
                     </SelectTrigger>
                     <SelectContent className="bg-slate-800 border-slate-700">
-                      {SOURCES.map(src => (
+                      {DEAL_SOURCES.map(src => (
                         <SelectItem key={src} value={src}>{src}</SelectItem>
                       ))}
                     </SelectContent>
@@ -776,7 +769,7 @@ export function CreateCompanyWizard({ open, onOpenChange, onComplete }: CreateCo
                       <div className="flex justify-between">
                         <span className="text-slate-500">Stage</span>
                         <Badge variant="outline" className="text-purple-400 border-purple-400/50">
-                          {STAGES.find(s => s.value === data.stage)?.label}
+                          {stages.find(s => s.id === data.stage)?.title}
                         </Badge>
                       </div>
                       {data.website && (
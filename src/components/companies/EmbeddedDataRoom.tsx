@@ -473,7 +473,7 @@ export function EmbeddedDataRoom({ companyId, companyName, tickerSymbol }: Embed
 
       {/* Right Sidebar - Checklist */}
       <div className="w-64 border-l border-border overflow-y-auto p-3 bg-muted/20">
-        <DataRoomChecklist documents={documents} />
+        <DataRoomChecklist companyId={companyId} companyName={companyName} documents={documents} />
       </div>
 
       {/* Document Preview Modal */}
@@ -8,39 +8,33 @@ import { AppCompany } from '@/hooks/useAppData';
 import { CompanyAvatar } from './CompanyAvatar';
 import { HealthScore } from './HealthScore';
 import { toast } from 'sonner';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { STAGE_COLORS, stageIndex } from '@/services/pipelineStageService';
 import { cn } from '@/lib/utils';
 
 interface PipelineKanbanViewProps {
   companies: AppCompany[];
-  onUpdatePipelineStage: (companyId: string, stage: string) => Promise<void>;
+  onUpdatePipelineStage: (companyId: string, stage: string) => Promise<boolean>; // False when a stage gate blocks the move
 }
 
-const PIPELINE_COLUMNS = [
-  { id: 'sourcing', label: 'Sourcing', color: 'slate' },
-  { id: 'initial-review', label: 'Initial Review', color: 'blue' },
-  { id: 'deep-dive', label: 'Deep Dive', color: 'indigo' },
-  { id: 'loi', label: 'LOI', color: 'purple' },
-  { id: 'due-diligence', label: 'Due Diligence', color: 'amber' },
-  { id: 'closing', label: 'Closing', color: 'emerald' },
-];
-
 export function PipelineKanbanView({ companies, onUpdatePipelineStage }: PipelineKanbanViewProps) {
   const navigate = useNavigate();
+  const { stages } = usePipelineStages();
   const [draggedCompany, setDraggedCompany] = useState<AppCompany | null>(null);
   const [dragOverColumn, setDragOverColumn] = useState<string | null>(null);
 
   // Filter only pipeline companies
   const pipelineCompanies = companies.filter(c => c.company_type === 'pipeline');
 
-  // Group companies by stage
-  const groupedCompanies = PIPELINE_COLUMNS.reduce((acc, col) => {
-    acc[col.id] = pipelineCompanies.filter(c => (c.pipeline_stage || 'sourcing') === col.id);
+  // Group companies by stage; deals on a stage the organization has since removed sit in the first column
+  const groupedCompanies = stages.reduce((acc, stage) => {
+    acc[stage.id] = pipelineCompanies.filter(c => stages[stageIndex(stages, c.pipeline_stage)].id === stage.id);
     return acc;
   }, {} as Record<string, AppCompany[]>);
 
   // Calculate totals per column
-  const columnTotals = PIPELINE_COLUMNS.reduce((acc, col) => {
-    acc[col.id] = groupedCompanies[col.id].reduce((sum, c) => sum + (c.revenue_ltm || 0), 0);
+  const columnTotals = stages.reduce((acc, stage) => {
+    acc[stage.id] = groupedCompanies[stage.id].reduce((sum, c) => sum + (c.revenue_ltm || 0), 0);
     return acc;
   }, {} as Record<string, number>);
 
@@ -66,12 +60,14 @@ export function PipelineKanbanView({ companies, onUpdatePipelineStage }: Pipelin
     const companyId = e.dataTransfer.getData('companyId');
     if (!companyId || !draggedCompany) return;
 
-    if (draggedCompany.pipeline_stage === newStage) return;
+    if (stages[stageIndex(stages, draggedCompany.pipeline_stage)].id === newStage) return;
+
+    const moved = await onUpdatePipelineStage(companyId, newStage);
+    if (moved) {
+      const stageName = stages.find(s => s.id === newStage)?.title || newStage;
+      toast.success(`Moved to ${stageName}`);
+    }
 
-    await onUpdatePipelineStage(companyId, newStage);
-    const stageName = PIPELINE_COLUMNS.find(c => c.id === newStage)?.label || newStage;
-    toast.success(`Moved to ${stageName}`);
-    
     setDraggedCompany(null);
   };
 
@@ -93,18 +89,6 @@ export function PipelineKanbanView({ companies, onUpdatePipelineStage }: Pipelin
     return `$${value.toFixed(0)}M`;
   };
 
-  const getColumnColorClasses = (color: string) => {
-    const colorMap: Record<string, { bg: string; dot: string; header: string }> = {
-      slate: { bg: 'bg-slate-900/50', dot: 'bg-slate-500', header: 'bg-slate-800/50' },
-      blue: { bg: 'bg-blue-900/20', dot: 'bg-blue-500', header: 'bg-blue-900/30' },
-      indigo: { bg: 'bg-indigo-900/20', dot: 'bg-indigo-500', header: 'bg-indigo-900/30' },
-      purple: { bg: 'bg-purple-900/20', dot: 'bg-purple-500', header: 'bg-purple-900/30' },
-      amber: { bg: 'bg-amber-900/20', dot: 'bg-amber-500', header: 'bg-amber-900/30' },
-      emerald: { bg: 'bg-emerald-900/20', dot: 'bg-emerald-500', header: 'bg-emerald-900/30' },
-    };
-    return colorMap[color] || colorMap.slate;
-  };
-
   // Calculate summary stats
   const totalDeals = pipelineCompanies.length;
   const totalValue = pipelineCompanies.reduce((sum, c) => sum + (c.revenue_ltm || 0), 0);
@@ -135,8 +119,7 @@ export function PipelineKanbanView({ companies, onUpdatePipelineStage }: Pipelin
 
       {/* Kanban Board */}
       <div className="flex gap-4 overflow-x-auto pb-4">
-        {PIPELINE_COLUMNS.map(column => {
-          const colors = getColumnColorClasses(column.color);
+        {stages.map(column => {
           const columnCompanies = groupedCompanies[column.id];
           const isDropTarget = dragOverColumn === column.id;
 
@@ -149,11 +132,11 @@ export function PipelineKanbanView({ companies, onUpdatePipelineStage }: Pipelin
               )}
             >
               {/* Column Header */}
-              <div className={cn("p-3 border-b border-border rounded-t-xl", colors.header)}>
+              <div className="p-3 border-b border-border rounded-t-xl bg-muted/30">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
-                    <div className={cn("h-2 w-2 rounded-full", colors.dot)} />
-                    <span className="text-foreground font-medium">{column.label}</span>
+                    <div className={cn("h-2 w-2 rounded-full", STAGE_COLORS[column.color].dot)} />
+                    <span className="text-foreground font-medium">{column.title}</span>
                     <Badge variant="secondary" className="text-xs">
                       {columnCompanies.length}
                     </Badge>
@@ -1,6 +1,7 @@
 import { Target, Briefcase, XCircle, LogOut } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
 
 interface StageIndicatorProps {
   stage: string | null;
@@ -14,18 +15,10 @@ const stageConfig: Record<string, { color: string; label: string; icon: typeof T
   prospect: { color: 'purple', label: 'Prospect', icon: LogOut },
 };
 
-const subStageLabels: Record<string, string> = {
-  'sourcing': 'Sourcing',
-  'initial-review': 'Initial Review',
-  'deep-dive': 'Deep Dive',
-  'loi': 'LOI',
-  'due-diligence': 'Due Diligence',
-  'closing': 'Closing',
-};
-
 export function StageIndicator({ stage, subStage }: StageIndicatorProps) {
   const config = stageConfig[stage || 'pipeline'] || stageConfig.pipeline;
   const Icon = config.icon;
+  const { stages } = usePipelineStages();
 
   const colorClasses: Record<string, string> = {
     blue: 'bg-blue-600/20 text-blue-400 border-blue-600/30',
@@ -42,7 +35,7 @@ export function StageIndicator({ stage, subStage }: StageIndicatorProps) {
       </Badge>
       {subStage && stage === 'pipeline' && (
         <span className="text-xs text-muted-foreground pl-1">
-          {subStageLabels[subStage] || subStage}
+          {stages.find(s => s.id === subStage)?.title || subStage}
         </span>
       )}
     </div>
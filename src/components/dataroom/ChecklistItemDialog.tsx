@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Loader2 } from 'lucide-react';
+import { DocumentRecord } from '@/hooks/useDocuments';
+import { TeamMember } from '@/hooks/useTeamMembers';
+import { ChecklistItemUpdate } from '@/hooks/useDataRoomChecklist';
+import {
+  ChecklistDocument,
+  ChecklistItem,
+  ChecklistItemState,
+  ChecklistMatch,
+  MATCH_SOURCE_LABELS,
+} from '@/services/dataRoomChecklistService';
+
+const UNASSIGNED = 'unassigned';
+
+interface ChecklistItemDialogProps {
+  item: ChecklistItem | null;
+  state: ChecklistItemState | undefined;
+  match: ChecklistMatch | undefined;
+  suggested?: ChecklistDocument[];
+  documents: DocumentRecord[];
+  teamMembers: TeamMember[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (itemId: string, update: ChecklistItemUpdate) => Promise<boolean>;
+}
+
+export function ChecklistItemDialog({
+  item,
+  state,
+  match,
+  suggested,
+  documents,
+  teamMembers,
+  onOpenChange,
+  onSave,
+}: ChecklistItemDialogProps) {
+  const [ownerId, setOwnerId] = useState<string>(UNASSIGNED);
+  const [dueDate, setDueDate] = useState('');
+  const [taggedIds, setTaggedIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (item) {
+      setOwnerId(state?.owner_id || UNASSIGNED);
+      setDueDate(state?.due_date || '');
+      setTaggedIds(state?.document_ids || []);
+      setNotes(state?.notes || '');
+    }
+  }, [item, state]);
+
+  const toggleDocument = (documentId: string, checked: boolean) => {
+    setTaggedIds((prev) => (checked ? [...prev, documentId] : prev.filter((id) => id !== documentId)));
+  };
+
+  const tagSuggested = () => {
+    const ids = (suggested || []).flatMap((d) => (d.id ? [d.id] : []));
+    setTaggedIds((prev) => [...new Set([...prev, ...ids])]);
+  };
+
+  const handleSave = async () => {
+    if (!item) return;
+
+    setIsSaving(true);
+    const saved = await onSave(item.id, {
+      owner_id: ownerId === UNASSIGNED ? null : ownerId,
+      due_date: dueDate || null,
+      // Drop tags for documents that have since been deleted
+      document_ids: taggedIds.filter((id) => documents.some((d) => d.id === id)),
+      notes: notes.trim() || null,
+    });
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] bg-card border-border max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item?.name}</DialogTitle>
+          <DialogDescription>
+            {item?.description || item?.category}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {match && match.source !== 'tagged' && (
+            <p className="text-xs text-muted-foreground">
+              Currently satisfied by {MATCH_SOURCE_LABELS[match.source].toLowerCase()}:{' '}
+              {match.documents.map((d) => d.name).join(', ')}. Tag documents below to confirm.
+            </p>
+          )}
+          {!match && suggested && suggested.length > 0 && (
+            <div className="flex items-start justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                Possible matches by filename: {suggested.map((d) => d.name).join(', ')}. Tag them to mark this item
+                received.
+              </p>
+              <Button variant="outline" size="sm" className="h-7 shrink-0 text-xs" onClick={tagSuggested}>
+                Tag suggested
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Owner</Label>
+              <Select value={ownerId} onValueChange={setOwnerId}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {teamMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="checklist-due-date">Due Date</Label>
+              <Input
+                id="checklist-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="bg-background border-border"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tagged Documents</Label>
+            {documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No documents uploaded yet.</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto space-y-1 rounded-md border border-border p-2">
+                {documents.map((doc) => (
+                  <label
+                    key={doc.id}
+                    className="flex items-center gap-2 py-1 px-1 rounded hover:bg-muted/50 cursor-pointer text-sm"
+                  >
+                    <Checkbox
+                      checked={taggedIds.includes(doc.id)}
+                      onCheckedChange={(checked) => toggleDocument(doc.id, checked === true)}
+                    />
+                    <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <span className="truncate">{doc.name}</span>
+                    {doc.folder && (
+                      <span className="ml-auto text-xs text-muted-foreground shrink-0">{doc.folder}</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="checklist-notes">Notes</Label>
+            <Textarea
+              id="checklist-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Follow-ups, partial deliveries..."
+              className="bg-background border-border"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
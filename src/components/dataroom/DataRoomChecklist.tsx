@@ -1,81 +1,57 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { CheckCircle2, Circle, FileCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CheckCircle2, Circle, Download, FileCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { DocumentRecord } from '@/hooks/useDocuments';
-
-interface ChecklistItem {
-  id: string;
-  name: string;
-  category: string;
-  keywords: string[];
-}
-
-const REQUIRED_DOCUMENTS: ChecklistItem[] = [
-  // Financial
-  { id: 'historical-3yr', name: '3 Years Historical Financials', category: 'Financial', keywords: ['historical', 'financials', 'income statement', 'p&l', 'balance sheet'] },
-  { id: 'monthly-financials', name: 'Monthly Financial Statements', category: 'Financial', keywords: ['monthly', 'statement', 'financials'] },
-  { id: 'budget-forecast', name: 'Budget & Forecast', category: 'Financial', keywords: ['budget', 'forecast', 'projection'] },
-  { id: 'audit-reports', name: 'Audit Reports', category: 'Financial', keywords: ['audit', 'audited'] },
-  { id: 'tax-returns', name: 'Tax Returns (3 Years)', category: 'Financial', keywords: ['tax', 'return', '1120'] },
-  
-  // Legal
-  { id: 'cap-table', name: 'Cap Table', category: 'Legal', keywords: ['cap table', 'capitalization', 'equity', 'ownership'] },
-  { id: 'corporate-docs', name: 'Corporate Formation Documents', category: 'Legal', keywords: ['articles', 'incorporation', 'bylaws', 'certificate'] },
-  { id: 'contracts', name: 'Material Contracts', category: 'Legal', keywords: ['contract', 'agreement', 'material'] },
-  
-  // Commercial
-  { id: 'customer-list', name: 'Customer List & Analysis', category: 'Commercial', keywords: ['customer', 'client', 'analysis', 'revenue'] },
-  { id: 'sales-pipeline', name: 'Sales Pipeline', category: 'Commercial', keywords: ['pipeline', 'sales', 'opportunity'] },
-  
-  // Operations
-  { id: 'org-chart', name: 'Org Chart', category: 'Operations', keywords: ['org', 'organization', 'chart', 'structure'] },
-  { id: 'employee-list', name: 'Employee Census', category: 'Operations', keywords: ['employee', 'census', 'headcount', 'staff'] },
-  
-  // Deal Documents
-  { id: 'cim', name: 'CIM / Teaser', category: 'Deal Documents', keywords: ['cim', 'teaser', 'memorandum', 'confidential information'] },
-  { id: 'management-presentation', name: 'Management Presentation', category: 'Deal Documents', keywords: ['management', 'presentation', 'deck'] },
-];
+import { useDataRoomChecklist } from '@/hooks/useDataRoomChecklist';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { ChecklistItemDialog } from './ChecklistItemDialog';
+import {
+  ChecklistItem,
+  MATCH_SOURCE_LABELS,
+  buildRequestList,
+  checklistCategories,
+  evaluateChecklist,
+  exportRequestList,
+  isChecklistItemOverdue,
+} from '@/services/dataRoomChecklistService';
 
 interface DataRoomChecklistProps {
+  companyId: string;
+  companyName: string;
   documents: DocumentRecord[];
   className?: string;
 }
 
-export function DataRoomChecklist({ documents, className }: DataRoomChecklistProps) {
-  const { completedItems, progress, categoryCounts } = useMemo(() => {
-    const completed = new Set<string>();
-    
-    // Match documents to checklist items
-    REQUIRED_DOCUMENTS.forEach((item) => {
-      const hasMatch = documents.some((doc) => {
-        const docName = doc.name.toLowerCase();
-        return item.keywords.some((keyword) => docName.includes(keyword.toLowerCase()));
-      });
-      if (hasMatch) {
-        completed.add(item.id);
-      }
-    });
+export function DataRoomChecklist({ companyId, companyName, documents, className }: DataRoomChecklistProps) {
+  const { templates, template, states, assignTemplate, updateItem } = useDataRoomChecklist(companyId);
+  const { teamMembers } = useTeamMembers();
+  const [editingItem, setEditingItem] = useState<ChecklistItem | null>(null);
 
-    // Calculate category counts
-    const categories = [...new Set(REQUIRED_DOCUMENTS.map((i) => i.category))];
-    const counts: Record<string, { completed: number; total: number }> = {};
-    
-    categories.forEach((cat) => {
-      const catItems = REQUIRED_DOCUMENTS.filter((i) => i.category === cat);
-      const catCompleted = catItems.filter((i) => completed.has(i.id)).length;
-      counts[cat] = { completed: catCompleted, total: catItems.length };
-    });
+  const status = useMemo(
+    () => evaluateChecklist(documents, template.items, states),
+    [documents, template, states]
+  );
+  const { completedItems, matches, suggestions, progress, categoryCounts } = status;
 
-    return {
-      completedItems: completed,
-      progress: Math.round((completed.size / REQUIRED_DOCUMENTS.length) * 100),
-      categoryCounts: counts,
-    };
-  }, [documents]);
+  const ownerNames = useMemo(
+    () => Object.fromEntries(teamMembers.map((m) => [m.id, m.name])),
+    [teamMembers]
+  );
 
-  const categories = [...new Set(REQUIRED_DOCUMENTS.map((i) => i.category))];
+  const handleExport = (outstandingOnly: boolean) => {
+    exportRequestList(companyName, template.name, buildRequestList(template.items, status, states, ownerNames, outstandingOnly));
+  };
 
   return (
     <Card className={cn('glass-card', className)}>
@@ -86,9 +62,34 @@ export function DataRoomChecklist({ documents, className }: DataRoomChecklistPro
             Data Room Checklist
           </CardTitle>
           <span className="text-sm font-medium text-muted-foreground">
-            {completedItems.size}/{REQUIRED_DOCUMENTS.length}
+            {completedItems.size}/{template.items.length}
           </span>
         </div>
+        <div className="flex items-center gap-2 pt-2">
+          <Select value={template.id} onValueChange={assignTemplate}>
+            <SelectTrigger className="h-8 text-xs flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" title="Export request list">
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport(true)}>Outstanding requests</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport(false)}>Full request list</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
         <div className="space-y-1 pt-2">
           <Progress value={progress} className="h-2" />
           <p className="text-xs text-muted-foreground">
@@ -97,8 +98,8 @@ export function DataRoomChecklist({ documents, className }: DataRoomChecklistPro
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        {categories.map((category) => {
-          const items = REQUIRED_DOCUMENTS.filter((i) => i.category === category);
+        {checklistCategories(template.items).map((category) => {
+          const items = template.items.filter((i) => i.category === category);
           const counts = categoryCounts[category];
           const isComplete = counts.completed === counts.total;
 
@@ -116,25 +117,43 @@ export function DataRoomChecklist({ documents, className }: DataRoomChecklistPro
               <div className="space-y-1">
                 {items.map((item) => {
                   const isCompleted = completedItems.has(item.id);
+                  const state = states.find((s) => s.item_id === item.id);
+                  const match = matches[item.id];
+                  const overdue = isChecklistItemOverdue(state, isCompleted);
+                  const details = [
+                    match ? MATCH_SOURCE_LABELS[match.source] : suggestions[item.id] ? 'Suggested match' : null,
+                    state?.owner_id ? ownerNames[state.owner_id] : null,
+                    state?.due_date && !isCompleted ? `Due ${format(parseISO(state.due_date), 'MMM d')}` : null,
+                  ].filter(Boolean);
+
                   return (
-                    <div
+                    <button
                       key={item.id}
-                      className="flex items-center gap-2 py-1"
+                      type="button"
+                      onClick={() => setEditingItem(item)}
+                      className="w-full flex items-start gap-2 py-1 px-1 -mx-1 rounded text-left hover:bg-muted/50 transition-colors"
                     >
                       {isCompleted ? (
-                        <CheckCircle2 className="h-4 w-4 text-success shrink-0" />
+                        <CheckCircle2 className="h-4 w-4 text-success shrink-0 mt-0.5" />
                       ) : (
-                        <Circle className="h-4 w-4 text-muted-foreground/40 shrink-0" />
+                        <Circle className="h-4 w-4 text-muted-foreground/40 shrink-0 mt-0.5" />
                       )}
-                      <span
-                        className={cn(
-                          'text-sm truncate',
-                          isCompleted ? 'text-foreground' : 'text-muted-foreground'
+                      <div className="min-w-0">
+                        <span
+                          className={cn(
+                            'block text-sm truncate',
+                            isCompleted ? 'text-foreground' : 'text-muted-foreground'
+                          )}
+                        >
+                          {item.name}
+                        </span>
+                        {details.length > 0 && (
+                          <span className={cn('block text-xs truncate', overdue ? 'text-destructive' : 'text-muted-foreground/70')}>
+                            {details.join(' · ')}
+                          </span>
                         )}
-                      >
-                        {item.name}
-                      </span>
-                    </div>
+                      </div>
+                    </button>
                   );
                 })}
               </div>
@@ -142,6 +161,17 @@ export function DataRoomChecklist({ documents, className }: DataRoomChecklistPro
           );
         })}
       </CardContent>
+
+      <ChecklistItemDialog
+        item={editingItem}
+        state={editingItem ? states.find((s) => s.item_id === editingItem.id) : undefined}
+        match={editingItem ? matches[editingItem.id] : undefined}
+        suggested={editingItem ? suggestions[editingItem.id] : undefined}
+        documents={documents}
+        teamMembers={teamMembers}
+        onOpenChange={(open) => !open && setEditingItem(null)}
+        onSave={updateItem}
+      />
     </Card>
   );
 }
@@ -90,7 +90,8 @@ export function InlineUploadZone({
         const { data: suggestion } = await supabase.functions.invoke("suggest-folder", {
           body: { fileName: file.name, fileType: fileExt },
         });
-        if (suggestion?.folder) {
+        // A blocked suggestion is a placeholder, not a classification of this file
+        if (suggestion?.folder && !suggestion.isBlocked) {
           suggestedFolder = suggestion.folder;
           suggestedSubfolder = suggestion.subfolder;
         }
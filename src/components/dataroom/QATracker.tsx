@@ -0,0 +1,283 @@
+import { useMemo, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Download,
+  FileText,
+  Loader2,
+  MessageSquareText,
+  Paperclip,
+  Plus,
+  Search,
+  Upload,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { DocumentRecord } from '@/hooks/useDocuments';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { useDataRoomChecklist } from '@/hooks/useDataRoomChecklist';
+import { QuestionInput, useDataRoomQuestions } from '@/hooks/useDataRoomQuestions';
+import { QuestionDialog } from './QuestionDialog';
+import {
+  DataRoomQuestion,
+  QUESTION_PRIORITY_LABELS,
+  QUESTION_STATUS_LABELS,
+  QuestionPriority,
+  QuestionStatus,
+  exportQALog,
+  formatQuestionRef,
+  parseQALog,
+  summarizeQuestions,
+} from '@/services/dataRoomQAService';
+
+type StatusFilter = QuestionStatus | 'all';
+
+const STATUS_VARIANTS: Record<QuestionStatus, 'warning' | 'success' | 'outline'> = {
+  open: 'warning',
+  answered: 'success',
+  closed: 'outline',
+};
+
+const PRIORITY_CLASSES: Record<QuestionPriority, string> = {
+  high: 'text-destructive',
+  medium: 'text-warning',
+  low: 'text-muted-foreground',
+};
+
+interface QATrackerProps {
+  companyId: string;
+  companyName: string;
+  documents: DocumentRecord[];
+  onDocumentsChanged: () => void;
+  onDownload: (document: DocumentRecord) => void;
+}
+
+export function QATracker({ companyId, companyName, documents, onDocumentsChanged, onDownload }: QATrackerProps) {
+  const { questions, isLoading, createQuestion, updateQuestion, deleteQuestion, uploadAttachments, importQuestions } =
+    useDataRoomQuestions(companyId);
+  const { teamMembers } = useTeamMembers();
+  const { template } = useDataRoomChecklist(companyId);
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const summary = useMemo(() => summarizeQuestions(questions), [questions]);
+  const editingQuestion = questions.find((q) => q.id === editingId) || null;
+
+  const documentNames = useMemo(() => Object.fromEntries(documents.map((d) => [d.id, d.name])), [documents]);
+  const assigneeNames = useMemo(() => Object.fromEntries(teamMembers.map((m) => [m.id, m.name])), [teamMembers]);
+
+  const visibleQuestions = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return questions.filter(
+      (q) =>
+        (statusFilter === 'all' || q.status === statusFilter) &&
+        (!query ||
+          q.question.toLowerCase().includes(query) ||
+          q.answer?.toLowerCase().includes(query) ||
+          q.category?.toLowerCase().includes(query) ||
+          formatQuestionRef(q.number).toLowerCase().includes(query))
+    );
+  }, [questions, statusFilter, search]);
+
+  const handleSave = async (input: Required<QuestionInput>): Promise<boolean> => {
+    if (editingQuestion) return updateQuestion(editingQuestion.id, input);
+    return (await createQuestion(input)) !== null;
+  };
+
+  const handleDelete = (question: DataRoomQuestion) => deleteQuestion(question.id);
+
+  const handleUpload = async (question: DataRoomQuestion, files: File[]) => {
+    if ((await uploadAttachments(question, files, documents)) > 0) onDocumentsChanged();
+  };
+
+  const handleExport = () => {
+    exportQALog(companyName, questions, {
+      assignees: assigneeNames,
+      documents: documentNames,
+      checklistItems: Object.fromEntries(template.items.map((i) => [i.id, i.name])),
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      toast.error('Invalid file', { description: 'Please select a CSV file' });
+      return;
+    }
+
+    const { rows, skipped, error } = parseQALog(await file.text());
+    if (error) {
+      toast.error('Failed to import Q&A log', { description: error });
+      return;
+    }
+
+    setIsImporting(true);
+    const result = await importQuestions(rows, teamMembers, documents, template.items);
+    setIsImporting(false);
+
+    if (result) {
+      toast.success(`Imported ${result.created} new, updated ${result.updated}`, {
+        description: skipped > 0 ? `${skipped} row${skipped === 1 ? '' : 's'} without a question skipped` : undefined,
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm">
+          <MessageSquareText className="h-4 w-4 text-primary" />
+          <span className="font-medium text-foreground">Q&A Tracker</span>
+          <span className="text-muted-foreground">
+            {summary.open} open · {summary.answered} answered · {summary.closed} closed
+          </span>
+          {summary.highPriorityOpen > 0 && (
+            <Badge variant="destructive" className="text-xs">
+              {summary.highPriorityOpen} high priority
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : <Upload className="mr-2 h-3.5 w-3.5" />}
+            Import CSV
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleImport} />
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={questions.length === 0}>
+            <Download className="mr-2 h-3.5 w-3.5" />
+            Export CSV
+          </Button>
+          <Button size="sm" onClick={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-3.5 w-3.5" />
+            New Question
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search questions..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9 h-8"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(QUESTION_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : visibleQuestions.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <MessageSquareText className="h-12 w-12 text-muted-foreground/50 mb-4" />
+          <h3 className="text-lg font-medium text-foreground mb-1">
+            {questions.length === 0 ? 'No questions yet' : 'No matching questions'}
+          </h3>
+          <p className="text-sm text-muted-foreground max-w-sm">
+            {questions.length === 0
+              ? 'Raise diligence questions for the seller, or import an existing Q&A log.'
+              : 'Try a different search or status filter.'}
+          </p>
+        </div>
+      ) : (
+        <div className="border border-border rounded-lg overflow-hidden">
+          <div className="flex items-center gap-4 px-4 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wider bg-muted/30 border-b border-border">
+            <span className="w-14">Ref</span>
+            <span className="flex-1">Question</span>
+            <span className="w-28">Assignee</span>
+            <span className="w-16">Priority</span>
+            <span className="w-20">Status</span>
+          </div>
+          <div className="divide-y divide-border">
+            {visibleQuestions.map((q) => {
+              const documentName = q.document_id ? documentNames[q.document_id] : null;
+              return (
+                <button
+                  key={q.id}
+                  type="button"
+                  onClick={() => setEditingId(q.id)}
+                  className="w-full flex items-start gap-4 px-4 py-3 text-left hover:bg-muted/30 transition-colors"
+                >
+                  <span className="w-14 text-xs font-mono text-muted-foreground pt-0.5">{formatQuestionRef(q.number)}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground line-clamp-2">{q.question}</p>
+                    <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+                      {q.category && <span>{q.category}</span>}
+                      {documentName && (
+                        <span className="flex items-center gap-1 truncate">
+                          <FileText className="h-3 w-3 shrink-0" />
+                          {documentName}
+                        </span>
+                      )}
+                      {q.attachment_ids.length > 0 && (
+                        <span className="flex items-center gap-1">
+                          <Paperclip className="h-3 w-3" />
+                          {q.attachment_ids.length}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <span className="w-28 text-xs text-muted-foreground truncate pt-0.5">
+                    {q.assignee_id ? assigneeNames[q.assignee_id] || '—' : '—'}
+                  </span>
+                  <span className={cn('w-16 text-xs font-medium pt-0.5', PRIORITY_CLASSES[q.priority])}>
+                    {QUESTION_PRIORITY_LABELS[q.priority]}
+                  </span>
+                  <span className="w-20">
+                    <Badge variant={STATUS_VARIANTS[q.status]} className="text-xs">
+                      {QUESTION_STATUS_LABELS[q.status]}
+                    </Badge>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <QuestionDialog
+        open={isCreating || !!editingQuestion}
+        question={editingQuestion}
+        documents={documents}
+        teamMembers={teamMembers}
+        checklistItems={template.items}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsCreating(false);
+            setEditingId(null);
+          }
+        }}
+        onSave={handleSave}
+        onDelete={handleDelete}
+        onUploadAttachments={handleUpload}
+        onDownload={onDownload}
+      />
+    </div>
+  );
+}
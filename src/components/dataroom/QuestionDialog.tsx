@@ -0,0 +1,311 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileText, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import { DocumentRecord } from '@/hooks/useDocuments';
+import { TeamMember } from '@/hooks/useTeamMembers';
+import { QuestionInput } from '@/hooks/useDataRoomQuestions';
+import { ChecklistItem } from '@/services/dataRoomChecklistService';
+import {
+  DataRoomQuestion,
+  QUESTION_PRIORITY_LABELS,
+  QUESTION_STATUS_LABELS,
+  QuestionPriority,
+  QuestionStatus,
+  formatQuestionRef,
+} from '@/services/dataRoomQAService';
+
+const NONE = 'none';
+
+interface QuestionDialogProps {
+  open: boolean;
+  question: DataRoomQuestion | null; // null when adding a question
+  documents: DocumentRecord[];
+  teamMembers: TeamMember[];
+  checklistItems: ChecklistItem[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: Required<QuestionInput>) => Promise<boolean>;
+  onDelete: (question: DataRoomQuestion) => Promise<boolean>;
+  onUploadAttachments: (question: DataRoomQuestion, files: File[]) => Promise<void>;
+  onDownload: (document: DocumentRecord) => void;
+}
+
+export function QuestionDialog({
+  open,
+  question,
+  documents,
+  teamMembers,
+  checklistItems,
+  onOpenChange,
+  onSave,
+  onDelete,
+  onUploadAttachments,
+  onDownload,
+}: QuestionDialogProps) {
+  const [text, setText] = useState('');
+  const [category, setCategory] = useState('');
+  const [documentId, setDocumentId] = useState(NONE);
+  const [checklistItemId, setChecklistItemId] = useState(NONE);
+  const [priority, setPriority] = useState<QuestionPriority>('medium');
+  const [status, setStatus] = useState<QuestionStatus>('open');
+  const [assigneeId, setAssigneeId] = useState(NONE);
+  const [answer, setAnswer] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setText(question?.question || '');
+      setCategory(question?.category || '');
+      setDocumentId(question?.document_id || NONE);
+      setChecklistItemId(question?.checklist_item_id || NONE);
+      setPriority(question?.priority || 'medium');
+      setStatus(question?.status || 'open');
+      setAssigneeId(question?.assignee_id || NONE);
+      setAnswer(question?.answer || '');
+    }
+  }, [open, question]);
+
+  const attachments = question
+    ? documents.filter((d) => question.attachment_ids.includes(d.id))
+    : [];
+
+  const handleChecklistItemChange = (value: string) => {
+    setChecklistItemId(value);
+    // Default the workstream to the checklist category
+    const item = checklistItems.find((i) => i.id === value);
+    if (item && !category.trim()) setCategory(item.category);
+  };
+
+  const handleAnswerChange = (value: string) => {
+    setAnswer(value);
+    if (value.trim() && status === 'open') setStatus('answered');
+  };
+
+  const handleSave = async () => {
+    if (!text.trim()) return;
+
+    setIsSaving(true);
+    const saved = await onSave({
+      question: text.trim(),
+      category: category.trim() || null,
+      document_id: documentId === NONE ? null : documentId,
+      checklist_item_id: checklistItemId === NONE ? null : checklistItemId,
+      priority,
+      status,
+      assignee_id: assigneeId === NONE ? null : assigneeId,
+      answer: answer.trim() || null,
+    });
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  const handleDelete = async () => {
+    if (!question) return;
+    if (await onDelete(question)) onOpenChange(false);
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!question || files.length === 0) return;
+
+    setIsUploading(true);
+    await onUploadAttachments(question, files);
+    setIsUploading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] bg-card border-border max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{question ? formatQuestionRef(question.number) : 'New Question'}</DialogTitle>
+          <DialogDescription>
+            {question ? 'Update the question, its response and attachments' : 'Raise a diligence question with the seller'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="qa-question">Question *</Label>
+            <Textarea
+              id="qa-question"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Please provide a breakdown of revenue by customer for FY22-FY24..."
+              className="bg-background border-border"
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="qa-category">Workstream</Label>
+              <Input
+                id="qa-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder="Financial, Legal..."
+                className="bg-background border-border"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Assignee</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Unassigned</SelectItem>
+                  {teamMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Document</Label>
+              <Select value={documentId} onValueChange={setDocumentId}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {documents.map((doc) => (
+                    <SelectItem key={doc.id} value={doc.id}>
+                      {doc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Checklist Item</Label>
+              <Select value={checklistItemId} onValueChange={handleChecklistItemChange}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {checklistItems.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(v) => setPriority(v as QuestionPriority)}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUESTION_PRIORITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as QuestionStatus)}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUESTION_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="qa-answer">Response</Label>
+            <Textarea
+              id="qa-answer"
+              value={answer}
+              onChange={(e) => handleAnswerChange(e.target.value)}
+              placeholder="Seller's response..."
+              className="bg-background border-border"
+              rows={3}
+            />
+          </div>
+
+          {question && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Attachments</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                >
+                  {isUploading ? (
+                    <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Paperclip className="mr-2 h-3.5 w-3.5" />
+                  )}
+                  Upload
+                </Button>
+                <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFiles} />
+              </div>
+              {attachments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Files uploaded here are added to the data room and linked to this question.
+                </p>
+              ) : (
+                <div className="space-y-1 rounded-md border border-border p-2">
+                  {attachments.map((doc) => (
+                    <div key={doc.id} className="flex items-center gap-2 py-1 px-1 text-sm">
+                      <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                      <span className="truncate flex-1">{doc.name}</span>
+                      <Button variant="ghost" size="icon-sm" onClick={() => onDownload(doc)}>
+                        <Download className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          {question ? (
+            <Button variant="ghost" className="text-destructive hover:text-destructive" onClick={handleDelete}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !text.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {question ? 'Save' : 'Add Question'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -38,6 +38,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { WalkForwardPanel } from '@/components/backtester/WalkForwardPanel';
 
 interface AssetBacktestPanelProps {
   ticker: string;
@@ -298,6 +299,14 @@ export function AssetBacktestPanel({ ticker, companyName }: AssetBacktestPanelPr
     fetchMetrics();
   }, [ticker, period]);
 
+  // Walk-forward needs several training and test windows, so validate on at least five years
+  const [validationStart, validationEnd] = useMemo(() => {
+    const end = new Date();
+    const start = new Date();
+    start.setFullYear(end.getFullYear() - (period === 'MAX' ? 20 : Math.max(5, parseInt(period))));
+    return [start.toISOString().split('T')[0], end.toISOString().split('T')[0]];
+  }, [period]);
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     await fetchMetrics();
@@ -523,6 +532,13 @@ export function AssetBacktestPanel({ ticker, companyName }: AssetBacktestPanelPr
         </CardContent>
       </Card>
 
+      {/* Strategy Validation */}
+      <Card className="bg-secondary/50 border-border">
+        <CardContent className="p-6">
+          <WalkForwardPanel tickers={[ticker]} startDate={validationStart} endDate={validationEnd} />
+        </CardContent>
+      </Card>
+
       {/* Data Source Note */}
       <p className="text-xs text-muted-foreground text-center">
         Data sourced from market_daily_bars • Benchmark: S&P 500 (SPY) • Risk-free rate: 5%
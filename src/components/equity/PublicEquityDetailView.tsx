@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -22,6 +23,9 @@ import {
 import { PremiumBadge } from '@/components/ui/PremiumBadge';
 import { CompanyNotesSection } from '@/components/companies/CompanyNotesSection';
 import { CandlestickChart } from '@/components/charts/CandlestickChart';
+import { SellLotPicker } from './SellLotPicker';
+import { lotTransactionFromRow } from '@/hooks/useTaxLots';
+import { buildLotLedger, LotReliefMethod, LotSelection } from '@/services/taxLotService';
 
 interface PublicEquityDetailViewProps {
   company: {
@@ -59,16 +63,18 @@ interface StockQuote {
   chartData: { time: string; price: number }[];
 }
 
-interface Transaction {
-  id: string;
-  transaction_type: string;
-  shares: number | null;
-  price_per_share: number | null;
-  total_amount: number | null;
-  transaction_date: string;
-  notes: string | null;
-  created_at: string;
-}
+type Transaction = Tables<'asset_transactions'>;
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  split: 'Split',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out',
+  dividend: 'Dividend',
+  distribution: 'Distribution',
+  capital_call: 'Capital Call',
+};
 
 export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions = false }: PublicEquityDetailViewProps) {
   const { user } = useAuth();
@@ -89,6 +95,16 @@ export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions
     date: format(new Date(), 'yyyy-MM-dd'),
     notes: '',
   });
+  const [lotMethod, setLotMethod] = useState<LotReliefMethod>('fifo');
+  const [lotSelection, setLotSelection] = useState<Record<string, string>>({});
+
+  // Tax lots replayed from this holding's recorded transactions
+  const lotSymbol = company.ticker_symbol?.toUpperCase() || company.name;
+  const lotTransactions = useMemo(
+    () => transactions.map(tx => lotTransactionFromRow(tx, lotSymbol)),
+    [transactions, lotSymbol]
+  );
+  const openLots = useMemo(() => buildLotLedger(lotTransactions).openLots, [lotTransactions]);
   
   // Fetch stock quote using cached Finnhub
   const fetchQuote = useCallback(async () => {
@@ -203,9 +219,21 @@ export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions
       toast.error('Please enter valid values');
       return;
     }
+
+    const isSell = transactionType === 'sell';
+    const selection: LotSelection[] = Object.entries(lotSelection)
+      .map(([lotId, value]) => ({ lotId, shares: parseFloat(value) || 0 }))
+      .filter(s => s.shares > 0);
+    if (isSell && lotMethod === 'specific_id') {
+      const selected = selection.reduce((sum, s) => sum + s.shares, 0);
+      if (Math.abs(selected - shares) > 1e-9) {
+        toast.error(`Select lots totalling ${shares} shares (${selected} selected)`);
+        return;
+      }
+    }
     
     try {
-      const { error } = await supabase
+      const { data: inserted, error } = await supabase
         .from('asset_transactions')
         .insert({
           company_id: company.id,
@@ -216,7 +244,11 @@ export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions
           total_amount: shares * pricePerShare,
           transaction_date: transactionForm.date,
           notes: transactionForm.notes || null,
-        });
+          lot_method: isSell ? lotMethod : null,
+          lot_selection: isSell && lotMethod === 'specific_id' ? (selection as unknown as Json) : null,
+        })
+        .select()
+        .single();
       
       if (error) throw error;
       
@@ -226,8 +258,14 @@ export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions
       
       let newShares: number;
       let newCostBasis: number;
-      
-      if (transactionType === 'buy') {
+
+      // When every share is covered by recorded lots, the basis follows the lots actually relieved
+      const trackedShares = openLots.reduce((sum, lot) => sum + lot.shares, 0);
+      if (transactions.length > 0 && Math.abs(trackedShares - currentShares) < 1e-6) {
+        const { openLots: after } = buildLotLedger([...lotTransactions, lotTransactionFromRow(inserted, lotSymbol)]);
+        newShares = after.reduce((sum, lot) => sum + lot.shares, 0);
+        newCostBasis = after.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0);
+      } else if (transactionType === 'buy') {
         newShares = currentShares + shares;
         newCostBasis = currentCostBasis + (shares * pricePerShare);
       } else {
@@ -252,6 +290,7 @@ export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions
       
       toast.success(`${transactionType === 'buy' ? 'Purchase' : 'Sale'} recorded`);
       setShowTransactionDialog(false);
+      setLotSelection({});
       setTransactionForm({ shares: '', pricePerShare: '', date: format(new Date(), 'yyyy-MM-dd'), notes: '' });
       fetchTransactions();
       onUpdate();
@@ -342,7 +381,7 @@ export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions
                       </TableCell>
                       <TableCell>
                         <Badge variant={tx.transaction_type === 'buy' ? 'default' : 'outline'}>
-                          {tx.transaction_type === 'buy' ? 'Buy' : 'Sell'}
+                          {TRANSACTION_LABELS[tx.transaction_type] ?? tx.transaction_type}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-right tabular-nums">
@@ -426,6 +465,17 @@ export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions
                 </div>
               </div>
               
+              {transactionType === 'sell' && (
+                <SellLotPicker
+                  lots={openLots}
+                  method={lotMethod}
+                  onMethodChange={setLotMethod}
+                  selection={lotSelection}
+                  onSelectionChange={setLotSelection}
+                  sharesToSell={parseFloat(transactionForm.shares) || 0}
+                />
+              )}
+              
               <div className="space-y-2">
                 <Label>Date</Label>
                 <Input
@@ -784,6 +834,17 @@ export function PublicEquityDetailView({ company, onUpdate, showOnlyTransactions
               </div>
             </div>
             
+            {transactionType === 'sell' && (
+              <SellLotPicker
+                lots={openLots}
+                method={lotMethod}
+                onMethodChange={setLotMethod}
+                selection={lotSelection}
+                onSelectionChange={setLotSelection}
+                sharesToSell={parseFloat(transactionForm.shares) || 0}
+              />
+            )}
+            
             <div className="space-y-2">
               <Label>Date</Label>
               <Input
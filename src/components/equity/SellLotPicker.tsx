@@ -0,0 +1,80 @@
+// Sell Lot Picker - Choose the lot relief method for a sale, or the specific lots to sell
+import { format } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { LOT_RELIEF_METHODS, LotReliefMethod, OpenLot } from '@/services/taxLotService';
+
+interface SellLotPickerProps {
+  lots: OpenLot[];
+  method: LotReliefMethod;
+  onMethodChange: (method: LotReliefMethod) => void;
+  selection: Record<string, string>; // Lot id -> shares typed for specific-ID
+  onSelectionChange: (selection: Record<string, string>) => void;
+  sharesToSell: number;
+}
+
+export function SellLotPicker({ lots, method, onMethodChange, selection, onSelectionChange, sharesToSell }: SellLotPickerProps) {
+  const selected = Object.values(selection).reduce((s, v) => s + (parseFloat(v) || 0), 0);
+  const mismatch = method === 'specific_id' && sharesToSell > 0 && Math.abs(selected - sharesToSell) > 1e-9;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Lot relief method</Label>
+        <Select value={method} onValueChange={v => onMethodChange(v as LotReliefMethod)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LOT_RELIEF_METHODS.map(m => (
+              <SelectItem key={m.value} value={m.value} disabled={m.value === 'specific_id' && lots.length === 0}>
+                {m.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {method === 'specific_id' && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Acquired</TableHead>
+                <TableHead className="text-right">Held</TableHead>
+                <TableHead className="text-right">Cost / share</TableHead>
+                <TableHead className="text-right w-28">Sell</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lots.map(lot => (
+                <TableRow key={lot.id}>
+                  <TableCell className="tabular-nums">{format(new Date(`${lot.holdingPeriodStart}T00:00:00`), 'MMM d, yyyy')}</TableCell>
+                  <TableCell className="text-right tabular-nums">{lot.shares.toLocaleString(undefined, { maximumFractionDigits: 4 })}</TableCell>
+                  <TableCell className="text-right tabular-nums">${lot.costPerShare.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={lot.shares}
+                      className="h-8 text-right"
+                      value={selection[lot.id] ?? ''}
+                      onChange={e => onSelectionChange({ ...selection, [lot.id]: e.target.value })}
+                      placeholder="0"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className={cn('text-xs', mismatch ? 'text-amber-600' : 'text-muted-foreground')}>
+            {selected.toLocaleString(undefined, { maximumFractionDigits: 4 })} of {sharesToSell || 0} shares selected
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
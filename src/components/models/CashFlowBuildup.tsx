@@ -7,36 +7,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   Loader2, ArrowLeft, FileSpreadsheet, 
-  TrendingUp, DollarSign, Percent, BarChart3, Save, CheckCircle 
+  TrendingUp, DollarSign, Percent, BarChart3, Save, CheckCircle, AlertTriangle 
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
-
-interface CashFlowBuildupResponse {
-  success: boolean;
-  company_name: string;
-  model_type: string;
-  historical_years: string[];
-  projection_years: string[];
-  all_years: string[];
-  income_statement: Record<string, Record<string, number>>;
-  cash_flow_buildup: Record<string, Record<string, number>>;
-  cash_bridge: Record<string, Record<string, number>>;
-  key_metrics: Record<string, Record<string, number>>;
-  summary: {
-    total_ufcf_5yr: number;
-    total_lfcf_5yr: number;
-    avg_ufcf_margin: number;
-    avg_cash_conversion: number;
-  };
-  display_metrics: {
-    total_ufcf: string;
-    total_lfcf: string;
-    avg_ufcf_margin: string;
-    avg_cash_conversion: string;
-  };
-  analysis_notes?: string;
-}
+import { calculateLocalCashFlow, CashFlowBuildupResponse } from '@/services/cashFlowBuildupService';
+import { ProjectionAssumptions } from '@/services/threeStatementEngine';
+import { exportCashFlowModelToExcel } from '@/services/modelExcelService';
 
 interface CashFlowBuildupProps {
   companyName: string;
@@ -49,6 +26,7 @@ interface CashFlowBuildupProps {
     tax_rate: number;
     da_pct: number;
     interest_rate: number;
+    sbc_pct?: number;
   };
   assumptionsRationale?: Record<string, string>;
   onBack: () => void;
@@ -71,259 +49,41 @@ export function CashFlowBuildup({
   const [results, setResults] = useState<CashFlowBuildupResponse | null>(null);
   const [isSaved, setIsSaved] = useState(false);
   
-  const [assumptions, setAssumptions] = useState({
+  const [generationError, setGenerationError] = useState<string | null>(null);
+
+  const histYears: string[] = historicalData?.historical_years || [];
+  const lastHistYear = histYears[histYears.length - 1];
+  const needsOpeningCash = typeof historicalData?.balance_sheet?.cash?.[lastHistYear] !== 'number';
+  const needsOpeningDebt = typeof historicalData?.balance_sheet?.total_debt?.[lastHistYear] !== 'number';
+
+  const [assumptions, setAssumptions] = useState<ProjectionAssumptions>({
     revenue_growth: initialAssumptions?.revenue_growth ?? 10,
     ebitda_margin: initialAssumptions?.ebitda_margin ?? 20,
     capex_pct: initialAssumptions?.capex_pct ?? 3,
     nwc_pct: initialAssumptions?.nwc_pct ?? 10,
     tax_rate: initialAssumptions?.tax_rate ?? 25,
     da_pct: initialAssumptions?.da_pct ?? 4,
-    interest_rate: initialAssumptions?.interest_rate ?? 8
+    interest_rate: initialAssumptions?.interest_rate ?? 8,
+    sbc_pct: initialAssumptions?.sbc_pct ?? 0
   });
 
-  const handleGenerate = async () => {
+  const handleGenerate = () => {
     setIsGenerating(true);
+    setGenerationError(null);
     try {
-      // Try n8n first
-      try {
-        const response = await fetch('https://stanford5667.app.n8n.cloud/webhook/cash-flow-buildup', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            company_name: companyName,
-            historical_data: historicalData,
-            assumptions: {
-              revenue_growth: assumptions.revenue_growth / 100,
-              ebitda_margin: assumptions.ebitda_margin / 100,
-              capex_pct: assumptions.capex_pct / 100,
-              nwc_pct: assumptions.nwc_pct / 100,
-              tax_rate: assumptions.tax_rate / 100,
-              da_pct: assumptions.da_pct / 100,
-              interest_rate: assumptions.interest_rate / 100
-            },
-            projection_years: 5
-          })
-        });
-
-        if (response.ok) {
-          const result = await response.json();
-          if (result.success) {
-            setResults(result);
-            toast.success('Cash Flow model generated via AI!');
-            return;
-          }
-        }
-      } catch (e) {
-        console.log('n8n failed, using local calculation:', e);
-      }
-
-      // Fallback: Local calculation
-      console.log('Using local calculation fallback');
       const localResult = calculateLocalCashFlow(companyName, historicalData, assumptions);
       setResults(localResult);
       toast.success('Cash Flow model generated!');
     } catch (error) {
-      console.error('Error:', error);
-      toast.error('Failed to generate model');
+      const message = error instanceof Error ? error.message : 'Failed to generate model';
+      console.error('Error generating cash flow model:', error);
+      setGenerationError(message);
+      toast.error(message);
     } finally {
       setIsGenerating(false);
     }
   };
 
-  function calculateLocalCashFlow(companyName: string, historicalData: any, assumptions: any): CashFlowBuildupResponse {
-    const projectionYears = ['2025', '2026', '2027', '2028', '2029'];
-    const is = historicalData?.income_statement || {};
-    const bs = historicalData?.balance_sheet || {};
-    const cf = historicalData?.cash_flow || {};
-    const histYears: string[] = historicalData?.historical_years || [];
-    const lastHistYear = histYears[histYears.length - 1] || '2024';
-    
-    // Combine historical + projection years
-    const allYears = [...histYears, ...projectionYears];
-    
-    // Get starting values from historical data
-    let baseRevenue = historicalData?.calculated_metrics?.latest_revenue || is.revenue?.[lastHistYear] || 100;
-    let baseEBITDA = historicalData?.calculated_metrics?.latest_ebitda || is.ebitda?.[lastHistYear] || 20;
-    
-    const growthRate = assumptions.revenue_growth / 100;
-    const ebitdaMargin = assumptions.ebitda_margin / 100;
-    const capexPct = assumptions.capex_pct / 100;
-    const nwcPct = assumptions.nwc_pct / 100;
-    const taxRate = assumptions.tax_rate / 100;
-    const daPct = assumptions.da_pct / 100;
-    const interestRate = assumptions.interest_rate / 100;
-    const debtBalance = bs.total_debt?.[lastHistYear] || 50;
-
-    const income_statement: Record<string, Record<string, number>> = {
-      revenue: {}, ebitda: {}, depreciation: {}, ebit: {},
-      interest_expense: {}, ebt: {}, taxes: {}, net_income: {}
-    };
-    
-    const cash_flow_buildup: Record<string, Record<string, number>> = {
-      net_income: {}, add_back_da: {}, add_back_sbc: {},
-      cash_from_ops_before_wc: {}, change_nwc: {},
-      cash_from_operations: {}, total_capex: {},
-      cash_from_investing: {}, unlevered_fcf: {},
-      levered_fcf: {}, cumulative_lfcf: {}
-    };
-
-    const cash_bridge: Record<string, Record<string, number>> = {
-      opening_cash: {}, cfo: {}, cfi: {}, cff: {}, closing_cash: {}
-    };
-
-    const key_metrics: Record<string, Record<string, number>> = {
-      revenue_growth_pct: {}, ebitda_margin_pct: {},
-      ufcf_margin_pct: {}, lfcf_margin_pct: {},
-      cash_conversion_pct: {}, capex_intensity_pct: {}
-    };
-
-    // First, populate historical data
-    histYears.forEach((year) => {
-      const revenue = is.revenue?.[year];
-      const ebitda = is.ebitda?.[year];
-      const da = is.depreciation_amortization?.[year] || (revenue ? revenue * 0.04 : undefined);
-      const netIncome = is.net_income?.[year];
-      const capex = cf.capex?.[year];
-      
-      if (revenue !== undefined) {
-        income_statement.revenue[year] = Math.round(revenue * 10) / 10;
-      }
-      if (ebitda !== undefined) {
-        income_statement.ebitda[year] = Math.round(ebitda * 10) / 10;
-        if (revenue) {
-          key_metrics.ebitda_margin_pct[year] = ebitda / revenue;
-        }
-      }
-      if (da !== undefined) {
-        income_statement.depreciation[year] = Math.round(da * 10) / 10;
-        cash_flow_buildup.add_back_da[year] = Math.round(da * 10) / 10;
-      }
-      if (netIncome !== undefined) {
-        income_statement.net_income[year] = Math.round(netIncome * 10) / 10;
-        cash_flow_buildup.net_income[year] = Math.round(netIncome * 10) / 10;
-      }
-      if (capex !== undefined) {
-        cash_flow_buildup.total_capex[year] = Math.round(capex * 10) / 10;
-        if (revenue) {
-          key_metrics.capex_intensity_pct[year] = Math.abs(capex) / revenue;
-        }
-      }
-      
-      // Calculate historical EBIT if we have EBITDA and D&A
-      if (ebitda !== undefined && da !== undefined) {
-        income_statement.ebit[year] = Math.round((ebitda - da) * 10) / 10;
-      }
-    });
-
-    // Calculate historical revenue growth
-    for (let i = 1; i < histYears.length; i++) {
-      const prevRev = is.revenue?.[histYears[i-1]];
-      const currRev = is.revenue?.[histYears[i]];
-      if (prevRev && currRev) {
-        key_metrics.revenue_growth_pct[histYears[i]] = (currRev - prevRev) / prevRev;
-      }
-    }
-
-    let totalUFCF = 0;
-    let totalLFCF = 0;
-    let cumulativeLFCF = 0;
-    let prevNWC = baseRevenue * nwcPct;
-    let openingCash = bs.cash?.[lastHistYear] || 20;
-
-    projectionYears.forEach((year, i) => {
-      // Income Statement
-      const revenue = baseRevenue * Math.pow(1 + growthRate, i + 1);
-      const ebitda = revenue * ebitdaMargin;
-      const da = revenue * daPct;
-      const ebit = ebitda - da;
-      const interest = debtBalance * interestRate;
-      const ebt = ebit - interest;
-      const taxes = Math.max(0, ebt * taxRate);
-      const netIncome = ebt - taxes;
-
-      income_statement.revenue[year] = Math.round(revenue * 10) / 10;
-      income_statement.ebitda[year] = Math.round(ebitda * 10) / 10;
-      income_statement.depreciation[year] = Math.round(da * 10) / 10;
-      income_statement.ebit[year] = Math.round(ebit * 10) / 10;
-      income_statement.interest_expense[year] = Math.round(interest * 10) / 10;
-      income_statement.ebt[year] = Math.round(ebt * 10) / 10;
-      income_statement.taxes[year] = Math.round(taxes * 10) / 10;
-      income_statement.net_income[year] = Math.round(netIncome * 10) / 10;
-
-      // Cash Flow Buildup
-      const sbc = revenue * 0.02; // 2% SBC
-      const cfBeforeWC = netIncome + da + sbc;
-      const currentNWC = revenue * nwcPct;
-      const changeNWC = -(currentNWC - prevNWC); // Negative = cash outflow
-      const cfo = cfBeforeWC + changeNWC;
-      const capex = -(revenue * capexPct);
-      const cfi = capex;
-      const ufcf = ebit * (1 - taxRate) + da + capex + changeNWC;
-      const lfcf = netIncome + da + capex + changeNWC;
-      cumulativeLFCF += lfcf;
-
-      cash_flow_buildup.net_income[year] = Math.round(netIncome * 10) / 10;
-      cash_flow_buildup.add_back_da[year] = Math.round(da * 10) / 10;
-      cash_flow_buildup.add_back_sbc[year] = Math.round(sbc * 10) / 10;
-      cash_flow_buildup.cash_from_ops_before_wc[year] = Math.round(cfBeforeWC * 10) / 10;
-      cash_flow_buildup.change_nwc[year] = Math.round(changeNWC * 10) / 10;
-      cash_flow_buildup.cash_from_operations[year] = Math.round(cfo * 10) / 10;
-      cash_flow_buildup.total_capex[year] = Math.round(capex * 10) / 10;
-      cash_flow_buildup.cash_from_investing[year] = Math.round(cfi * 10) / 10;
-      cash_flow_buildup.unlevered_fcf[year] = Math.round(ufcf * 10) / 10;
-      cash_flow_buildup.levered_fcf[year] = Math.round(lfcf * 10) / 10;
-      cash_flow_buildup.cumulative_lfcf[year] = Math.round(cumulativeLFCF * 10) / 10;
-
-      // Cash Bridge
-      const cff = 0; // No financing activity
-      const closingCash = openingCash + cfo + cfi + cff;
-      cash_bridge.opening_cash[year] = Math.round(openingCash * 10) / 10;
-      cash_bridge.cfo[year] = Math.round(cfo * 10) / 10;
-      cash_bridge.cfi[year] = Math.round(cfi * 10) / 10;
-      cash_bridge.cff[year] = Math.round(cff * 10) / 10;
-      cash_bridge.closing_cash[year] = Math.round(closingCash * 10) / 10;
-      openingCash = closingCash;
-
-      // Key Metrics
-      key_metrics.revenue_growth_pct[year] = growthRate;
-      key_metrics.ebitda_margin_pct[year] = ebitdaMargin;
-      key_metrics.ufcf_margin_pct[year] = ufcf / revenue;
-      key_metrics.lfcf_margin_pct[year] = lfcf / revenue;
-      key_metrics.cash_conversion_pct[year] = ufcf / ebitda;
-      key_metrics.capex_intensity_pct[year] = capexPct;
-
-      totalUFCF += ufcf;
-      totalLFCF += lfcf;
-      prevNWC = currentNWC;
-    });
-
-    return {
-      success: true,
-      company_name: companyName,
-      model_type: 'cash_flow_buildup',
-      historical_years: histYears,
-      projection_years: projectionYears,
-      all_years: allYears,
-      income_statement,
-      cash_flow_buildup,
-      cash_bridge,
-      key_metrics,
-      summary: {
-        total_ufcf_5yr: Math.round(totalUFCF * 10) / 10,
-        total_lfcf_5yr: Math.round(totalLFCF * 10) / 10,
-        avg_ufcf_margin: 0.08,
-        avg_cash_conversion: 0.55
-      },
-      display_metrics: {
-        total_ufcf: `$${totalUFCF.toFixed(1)}M`,
-        total_lfcf: `$${totalLFCF.toFixed(1)}M`,
-        avg_ufcf_margin: '8.0%',
-        avg_cash_conversion: '55.0%'
-      },
-      analysis_notes: `This ${companyName} cash flow model shows ${histYears.length} years of historical data and projects ${(growthRate * 100).toFixed(0)}% annual revenue growth with ${(ebitdaMargin * 100).toFixed(0)}% EBITDA margins. Total unlevered free cash flow of $${totalUFCF.toFixed(1)}M over 5 years.`
-    };
-  }
-
   if (!results) {
     return (
       <div className="p-6 lg:p-8 max-w-4xl mx-auto space-y-6 animate-fade-up">
@@ -437,8 +197,60 @@ export function CashFlowBuildup({
                   <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">%</span>
                 </div>
               </div>
+
+              <div className="space-y-2">
+                <Label className="text-foreground">SBC % Revenue</Label>
+                <div className="relative">
+                  <Input
+                    type="number"
+                    value={assumptions.sbc_pct ?? 0}
+                    onChange={(e) => setAssumptions({...assumptions, sbc_pct: parseFloat(e.target.value) || 0})}
+                    className="bg-secondary border-border text-foreground pr-8"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">%</span>
+                </div>
+              </div>
+
+              {needsOpeningCash && (
+                <div className="space-y-2">
+                  <Label className="text-foreground">Opening Cash ({lastHistYear || 'latest'})</Label>
+                  <div className="relative">
+                    <Input
+                      type="number"
+                      placeholder="Required"
+                      value={assumptions.opening_cash ?? ''}
+                      onChange={(e) => setAssumptions({...assumptions, opening_cash: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                      className="bg-secondary border-border text-foreground pr-8"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$M</span>
+                  </div>
+                </div>
+              )}
+
+              {needsOpeningDebt && (
+                <div className="space-y-2">
+                  <Label className="text-foreground">Opening Debt ({lastHistYear || 'latest'})</Label>
+                  <div className="relative">
+                    <Input
+                      type="number"
+                      placeholder="Required"
+                      value={assumptions.opening_debt ?? ''}
+                      onChange={(e) => setAssumptions({...assumptions, opening_debt: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                      className="bg-secondary border-border text-foreground pr-8"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$M</span>
+                  </div>
+                </div>
+              )}
             </div>
 
+            {generationError && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{generationError}</span>
+              </div>
+            )}
+
             <Button onClick={handleGenerate} disabled={isGenerating} className="w-full sm:w-auto">
               {isGenerating ? (
                 <>
@@ -507,9 +319,18 @@ export function CashFlowBuildup({
               )}
             </Button>
           )}
-          <Button variant="outline">
+          <Button
+            variant="outline"
+            onClick={() => {
+              try {
+                exportCashFlowModelToExcel(companyName, historicalData, assumptions);
+              } catch (error) {
+                toast.error(error instanceof Error ? error.message : 'Failed to export model');
+              }
+            }}
+          >
             <FileSpreadsheet className="h-4 w-4 mr-2" />
-            Export to Sheets
+            Export to Excel
           </Button>
         </div>
       </div>
@@ -522,7 +343,7 @@ export function CashFlowBuildup({
               <DollarSign className="h-5 w-5 text-cyan-500" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Total UFCF (5yr)</p>
+              <p className="text-sm text-muted-foreground">Total UFCF ({projectionYears.length}yr)</p>
               <p className="text-2xl font-bold text-foreground">{results.display_metrics?.total_ufcf || '$0M'}</p>
             </div>
           </div>
@@ -534,7 +355,7 @@ export function CashFlowBuildup({
               <DollarSign className="h-5 w-5 text-emerald-500" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Total LFCF (5yr)</p>
+              <p className="text-sm text-muted-foreground">Total LFCF ({projectionYears.length}yr)</p>
               <p className="text-2xl font-bold text-foreground">{results.display_metrics?.total_lfcf || '$0M'}</p>
             </div>
           </div>
@@ -571,6 +392,7 @@ export function CashFlowBuildup({
           <TabsTrigger value="buildup">Cash Flow Buildup</TabsTrigger>
           <TabsTrigger value="waterfall">Waterfall</TabsTrigger>
           <TabsTrigger value="bridge">Cash Bridge</TabsTrigger>
+          {results.balance_sheet && <TabsTrigger value="balance">Balance Sheet</TabsTrigger>}
           <TabsTrigger value="metrics">Key Metrics</TabsTrigger>
         </TabsList>
 
@@ -612,6 +434,23 @@ export function CashFlowBuildup({
           </Card>
         </TabsContent>
 
+        {results.balance_sheet && (
+          <TabsContent value="balance">
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle>Balance Sheet</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <BalanceSheetTable 
+                  data={results.balance_sheet} 
+                  years={allYears}
+                  historicalYears={historicalYears}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+
         <TabsContent value="metrics">
           <Card className="glass-card">
             <CardHeader>
@@ -839,6 +678,74 @@ function CashBridgeTable({
   );
 }
 
+// Balance Sheet Table Component
+function BalanceSheetTable({ 
+  data, 
+  years,
+  historicalYears = []
+}: { 
+  data: Record<string, Record<string, number>>; 
+  years: string[];
+  historicalYears?: string[];
+}) {
+  const rows = [
+    { label: 'Cash', key: 'cash' },
+    { label: 'Net Working Capital', key: 'net_working_capital' },
+    { label: 'Net PP&E', key: 'net_ppe' },
+    { label: '= Total Assets', key: 'total_assets', bold: true },
+    { label: 'Debt', key: 'debt' },
+    { label: 'Equity', key: 'equity' },
+    { label: '= Total Liabilities & Equity', key: 'total_liabilities_and_equity', bold: true },
+  ];
+
+  const isHistorical = (year: string) => historicalYears.includes(year);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-border">
+          <TableHead className="text-muted-foreground">Item</TableHead>
+          {years.map(year => (
+            <TableHead 
+              key={year} 
+              className={cn(
+                "text-right text-muted-foreground",
+                isHistorical(year) && "bg-muted/30"
+              )}
+            >
+              {year}{isHistorical(year) ? 'A' : 'P'}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row, idx) => (
+          <TableRow key={idx} className="border-border">
+            <TableCell className={cn("text-foreground", row.bold && "font-semibold")}>
+              {row.label}
+            </TableCell>
+            {years.map(year => {
+              const val = data[row.key]?.[year];
+              return (
+                <TableCell 
+                  key={year} 
+                  className={cn(
+                    "text-right tabular-nums", 
+                    row.bold && "font-semibold text-primary",
+                    isHistorical(year) && "bg-muted/30"
+                  )}
+                >
+                  {val !== undefined ? `$${val.toFixed(1)}M` : '—'}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
 // Metrics Table Component
 function MetricsTable({ 
   data, 
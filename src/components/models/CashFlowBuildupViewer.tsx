@@ -1,12 +1,18 @@
+import { useMemo, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   ArrowLeft, FileSpreadsheet, 
-  TrendingUp, DollarSign, Percent, BarChart3 
+  TrendingUp, DollarSign, Percent, BarChart3, Landmark, Loader2, Upload 
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { exportCashFlowModelToExcel, readAssumptionsFromWorkbook } from '@/services/modelExcelService';
+import { ProjectionAssumptions } from '@/services/threeStatementEngine';
+import { ScenarioSensitivityPanel } from '@/components/models/ScenarioSensitivityPanel';
+import { ModelScenario, cashFlowScenarioAdapter, parseScenarios } from '@/services/scenarioService';
 
 interface ModelData {
   id: string;
@@ -15,6 +21,7 @@ interface ModelData {
   model_data: any;
   assumptions: any;
   historical_data: any;
+  scenarios?: unknown;
   status: string | null;
   created_at: string;
   updated_at: string;
@@ -24,11 +31,35 @@ interface CashFlowBuildupViewerProps {
   model: ModelData;
   companyName: string;
   onBack: () => void;
+  onPromoteToLBO?: () => void;
+  isPromoting?: boolean;
+  onSaveScenarios?: (scenarios: ModelScenario[]) => Promise<unknown>;
+  isSavingScenarios?: boolean;
+  onImportAssumptions?: (assumptions: Partial<ProjectionAssumptions>) => Promise<unknown>;
+  isImporting?: boolean;
 }
 
-export function CashFlowBuildupViewer({ model, companyName, onBack }: CashFlowBuildupViewerProps) {
+export function CashFlowBuildupViewer({
+  model,
+  companyName,
+  onBack,
+  onPromoteToLBO,
+  isPromoting = false,
+  onSaveScenarios,
+  isSavingScenarios = false,
+  onImportAssumptions,
+  isImporting = false,
+}: CashFlowBuildupViewerProps) {
   const results = model.model_data;
   const assumptions = model.assumptions;
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Scenarios, Excel export and import re-run the projection, so they need the saved historicals and assumptions
+  const canRecalculate = Boolean(model.historical_data && assumptions);
+  const scenarioAdapter = useMemo(
+    () => (canRecalculate ? cashFlowScenarioAdapter(companyName, model.historical_data) : null),
+    [canRecalculate, companyName, model.historical_data]
+  );
 
   if (!results) {
     return (
@@ -44,6 +75,28 @@ export function CashFlowBuildupViewer({ model, companyName, onBack }: CashFlowBu
     );
   }
 
+  const handleExport = () => {
+    try {
+      exportCashFlowModelToExcel(companyName, model.historical_data, assumptions, model.name);
+    } catch (error) {
+      console.error('Error exporting model:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export model');
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImportAssumptions) return;
+    try {
+      const imported = readAssumptionsFromWorkbook(await file.arrayBuffer());
+      await onImportAssumptions(imported);
+    } catch (error) {
+      console.error('Error importing assumptions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import assumptions');
+    }
+  };
+
   const allYears = results.all_years || results.projection_years || [];
   const historicalYears = results.historical_years || [];
   const projectionYears = results.projection_years || [];
@@ -193,10 +246,37 @@ export function CashFlowBuildupViewer({ model, companyName, onBack }: CashFlowBu
             </p>
           </div>
         </div>
-        <Button variant="outline">
-          <FileSpreadsheet className="h-4 w-4 mr-2" />
-          Export to Sheets
-        </Button>
+        <div className="flex gap-2">
+          {onPromoteToLBO && (
+            <Button variant="outline" onClick={onPromoteToLBO} disabled={isPromoting}>
+              {isPromoting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Landmark className="h-4 w-4 mr-2" />
+              )}
+              Promote to LBO
+            </Button>
+          )}
+          {onImportAssumptions && canRecalculate && (
+            <>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".xlsx"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+              <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={isImporting}>
+                {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Import Assumptions
+              </Button>
+            </>
+          )}
+          <Button variant="outline" onClick={handleExport} disabled={!canRecalculate}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export to Excel
+          </Button>
+        </div>
       </div>
 
       {/* Summary KPIs */}
@@ -207,7 +287,7 @@ export function CashFlowBuildupViewer({ model, companyName, onBack }: CashFlowBu
               <DollarSign className="h-5 w-5 text-cyan-500" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Total UFCF (5yr)</p>
+              <p className="text-sm text-muted-foreground">Total UFCF ({projectionYears.length}yr)</p>
               <p className="text-2xl font-bold text-foreground">{results.display_metrics?.total_ufcf || '$0M'}</p>
             </div>
           </div>
@@ -219,7 +299,7 @@ export function CashFlowBuildupViewer({ model, companyName, onBack }: CashFlowBu
               <DollarSign className="h-5 w-5 text-emerald-500" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Total LFCF (5yr)</p>
+              <p className="text-sm text-muted-foreground">Total LFCF ({projectionYears.length}yr)</p>
               <p className="text-2xl font-bold text-foreground">{results.display_metrics?.total_lfcf || '$0M'}</p>
             </div>
           </div>
@@ -297,7 +377,9 @@ export function CashFlowBuildupViewer({ model, companyName, onBack }: CashFlowBu
           <TabsTrigger value="income">Income Statement</TabsTrigger>
           <TabsTrigger value="cashflow">Cash Flow Buildup</TabsTrigger>
           <TabsTrigger value="bridge">Cash Bridge</TabsTrigger>
+          {results.balance_sheet && <TabsTrigger value="balance">Balance Sheet</TabsTrigger>}
           <TabsTrigger value="metrics">Key Metrics</TabsTrigger>
+          {scenarioAdapter && <TabsTrigger value="scenarios">Scenarios & Sensitivity</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="income">
@@ -312,9 +394,30 @@ export function CashFlowBuildupViewer({ model, companyName, onBack }: CashFlowBu
           <CashFlowTable data={results.cash_bridge} title="Cash Bridge ($M)" />
         </TabsContent>
 
+        {results.balance_sheet && (
+          <TabsContent value="balance">
+            <CashFlowTable data={results.balance_sheet} title="Balance Sheet ($M)" />
+          </TabsContent>
+        )}
+
         <TabsContent value="metrics">
           <MetricsTable data={results.key_metrics} />
         </TabsContent>
+
+        {scenarioAdapter && (
+          <TabsContent value="scenarios">
+            <ScenarioSensitivityPanel
+              adapter={scenarioAdapter}
+              baseAssumptions={assumptions}
+              savedScenarios={parseScenarios(model.scenarios)}
+              onSaveScenarios={onSaveScenarios}
+              saving={isSavingScenarios}
+              defaultRowKey="revenue_growth"
+              defaultColKey="ebitda_margin"
+              defaultOutputKey="total_ufcf"
+            />
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Analysis Notes */}
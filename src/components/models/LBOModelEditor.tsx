@@ -0,0 +1,541 @@
+import { useState, useMemo, useCallback, ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Save, Copy, Loader2, Settings2, AlertTriangle, Landmark, Scale, TrendingUp, Grid3X3 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Model } from "@/hooks/useModels";
+import {
+  DebtTranche,
+  LBOAssumptions,
+  LBOModelData,
+  LBOOperatingCase,
+  LBOResult,
+  DEFAULT_LBO_ASSUMPTIONS,
+  TRANCHE_TYPE_LABELS,
+  operatingCaseFromAssumptions,
+  runLBOModel,
+} from "@/services/lboModelService";
+import { ModelScenario, lboScenarioAdapter, parseScenarios } from "@/services/scenarioService";
+import { ScenarioSensitivityPanel } from "@/components/models/ScenarioSensitivityPanel";
+
+interface LBOModelEditorProps {
+  model: Model;
+  companyName: string;
+  onBack: () => void;
+  onSave: (assumptions: LBOAssumptions, modelData: LBOModelData) => Promise<unknown>;
+  onSaveNewVersion: (assumptions: LBOAssumptions, modelData: LBOModelData) => Promise<unknown>;
+  onSaveScenarios?: (scenarios: ModelScenario[]) => Promise<unknown>;
+  saving: boolean;
+  versionHistory?: ReactNode;
+}
+
+const formatM = (val: number) => {
+  if (!Number.isFinite(val)) return "—";
+  const isNegative = val < 0;
+  return `${isNegative ? "(" : ""}$${Math.abs(val).toFixed(1)}M${isNegative ? ")" : ""}`;
+};
+
+function projectionYearsFrom(model: Model, count: number): string[] {
+  const histYears: string[] = model.historical_data?.historical_years || [];
+  const lastYear = parseInt(histYears[histYears.length - 1], 10) || new Date().getFullYear() - 1;
+  return Array.from({ length: count }, (_, i) => String(lastYear + i + 1));
+}
+
+export function LBOModelEditor({ model, companyName, onBack, onSave, onSaveNewVersion, onSaveScenarios, saving, versionHistory }: LBOModelEditorProps) {
+  const [assumptions, setAssumptions] = useState<LBOAssumptions>(() => ({
+    ...DEFAULT_LBO_ASSUMPTIONS,
+    ...(model.assumptions || {}),
+    operating: { ...DEFAULT_LBO_ASSUMPTIONS.operating, ...(model.assumptions?.operating || {}) },
+    tranches: model.assumptions?.tranches || DEFAULT_LBO_ASSUMPTIONS.tranches,
+  }));
+
+  // Operating case promoted from a cash flow buildup is fixed; otherwise driven by sliders. Standalone
+  // models save their operating case too, so only the source link marks a promoted one.
+  const linkedOperatingCase: LBOOperatingCase | null =
+    (model.model_data?.source_model_id && model.model_data?.operating_case) || null;
+
+  const buildOperatingCase = useCallback((a: LBOAssumptions): LBOOperatingCase => {
+    if (linkedOperatingCase) return linkedOperatingCase;
+    const margin = a.operating.ebitdaMargin / 100;
+    const entryRevenue = margin > 0 ? a.entryEbitda / margin : 0;
+    const years = projectionYearsFrom(model, Math.max(5, a.exitYear));
+    return operatingCaseFromAssumptions(entryRevenue, a.operating, years);
+  }, [linkedOperatingCase, model]);
+
+  const operatingCase = useMemo(() => buildOperatingCase(assumptions), [buildOperatingCase, assumptions]);
+
+  const maxExitYear = linkedOperatingCase ? linkedOperatingCase.years.length : 10;
+
+  const scenarioAdapter = useMemo(
+    () => lboScenarioAdapter(buildOperatingCase, !!linkedOperatingCase, maxExitYear),
+    [buildOperatingCase, linkedOperatingCase, maxExitYear]
+  );
+
+  const { result, error } = useMemo<{ result: LBOResult | null; error: string | null }>(() => {
+    try {
+      return { result: runLBOModel(operatingCase, assumptions), error: null };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : "Failed to run LBO" };
+    }
+  }, [operatingCase, assumptions]);
+
+  const setField = useCallback((key: keyof LBOAssumptions, value: number) => {
+    setAssumptions((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  const setOperating = useCallback((key: keyof LBOAssumptions["operating"], value: number) => {
+    setAssumptions((prev) => ({ ...prev, operating: { ...prev.operating, [key]: value } }));
+  }, []);
+
+  const updateTranche = useCallback((id: string, patch: Partial<DebtTranche>) => {
+    setAssumptions((prev) => ({
+      ...prev,
+      tranches: prev.tranches.map((t) => (t.id === id ? { ...t, ...patch } : t)),
+    }));
+  }, []);
+
+  const buildModelData = (): LBOModelData => ({
+    operating_case: operatingCase,
+    lbo: result,
+    source_model_id: model.model_data?.source_model_id,
+  });
+
+  const sliders: { key: keyof LBOAssumptions; label: string; min: number; max: number; step: number; suffix: string }[] = [
+    { key: "entryEbitda", label: "Entry EBITDA", min: 1, max: 500, step: 1, suffix: "M" },
+    { key: "entryMultiple", label: "Entry Multiple", min: 4, max: 20, step: 0.25, suffix: "x" },
+    { key: "transactionFeePct", label: "Transaction Fees", min: 0, max: 5, step: 0.25, suffix: "%" },
+    { key: "minimumCash", label: "Minimum Cash", min: 0, max: 50, step: 1, suffix: "M" },
+    { key: "cashSweepPct", label: "Cash Sweep", min: 0, max: 100, step: 5, suffix: "%" },
+    { key: "taxRate", label: "Tax Rate", min: 0, max: 40, step: 0.5, suffix: "%" },
+    { key: "exitMultiple", label: "Exit Multiple", min: 4, max: 20, step: 0.25, suffix: "x" },
+    { key: "exitYear", label: "Exit Year", min: 1, max: maxExitYear, step: 1, suffix: "" },
+  ];
+
+  const operatingSliders: { key: keyof LBOAssumptions["operating"]; label: string; min: number; max: number; step: number }[] = [
+    { key: "revenueGrowth", label: "Revenue Growth", min: -10, max: 30, step: 0.5 },
+    { key: "ebitdaMargin", label: "EBITDA Margin", min: 5, max: 60, step: 0.5 },
+    { key: "capexPercent", label: "CapEx % Revenue", min: 0, max: 15, step: 0.5 },
+    { key: "nwcPercent", label: "NWC % Revenue", min: 0, max: 25, step: 0.5 },
+    { key: "daPercent", label: "D&A % Revenue", min: 0, max: 15, step: 0.5 },
+  ];
+
+  const exitCashFlows = result?.cashFlows || [];
+
+  return (
+    <div className="flex h-[calc(100vh-4rem)]">
+      {/* Left Sidebar - Assumptions */}
+      <div className="w-80 border-r border-border bg-card/30 flex flex-col">
+        <div className="p-4 border-b border-border">
+          <Button variant="ghost" size="sm" onClick={onBack} className="mb-3">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h2 className="font-semibold text-foreground">{model.name}</h2>
+          <p className="text-sm text-muted-foreground">{companyName}</p>
+          <div className="flex gap-2 mt-2">
+            <Badge variant="outline">LBO</Badge>
+            {linkedOperatingCase && <Badge variant="secondary">Linked to Cash Flow Buildup</Badge>}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 custom-scrollbar">
+          <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+            <Settings2 className="h-4 w-4" />
+            Assumptions
+          </div>
+
+          <div className="space-y-4">
+            <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Transaction & Exit
+            </h4>
+            {sliders.map((s) => (
+              <div key={s.key} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <Label>{s.label}</Label>
+                  <span className="text-primary font-medium">
+                    {s.suffix === "M" ? `$${assumptions[s.key]}M` : `${assumptions[s.key]}${s.suffix}`}
+                  </span>
+                </div>
+                <Slider
+                  value={[assumptions[s.key] as number]}
+                  onValueChange={([v]) => setField(s.key, v)}
+                  min={s.min}
+                  max={s.max}
+                  step={s.step}
+                />
+              </div>
+            ))}
+          </div>
+
+          {!linkedOperatingCase && (
+            <>
+              <Separator />
+              <div className="space-y-4">
+                <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Operating
+                </h4>
+                {operatingSliders.map((s) => (
+                  <div key={s.key} className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <Label>{s.label}</Label>
+                      <span className="text-primary font-medium">{assumptions.operating[s.key]}%</span>
+                    </div>
+                    <Slider
+                      value={[assumptions.operating[s.key]]}
+                      onValueChange={([v]) => setOperating(s.key, v)}
+                      min={s.min}
+                      max={s.max}
+                      step={s.step}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Save Buttons */}
+        <div className="p-4 border-t border-border space-y-2">
+          <Button className="w-full" onClick={() => onSave(assumptions, buildModelData())} disabled={saving || !result}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => onSaveNewVersion(assumptions, buildModelData())}
+            disabled={saving || !result}
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Save as New Version
+          </Button>
+          {versionHistory}
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="p-4 border-b border-border bg-card/30">
+          <div className="grid grid-cols-4 gap-4">
+            <Card className="bg-primary/10 border-primary/20">
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground uppercase tracking-wider">Sponsor IRR</p>
+                <p className="text-2xl font-bold text-primary">
+                  {result ? `${result.returns.irr.toFixed(1)}%` : "—"}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground uppercase tracking-wider">MOIC</p>
+                <p className="text-2xl font-bold text-foreground">
+                  {result ? `${result.returns.moic.toFixed(2)}x` : "—"}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground uppercase tracking-wider">Sponsor Equity</p>
+                <p className="text-2xl font-bold text-foreground">
+                  {result ? formatM(result.sourcesAndUses.sponsorEquity) : "—"}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground uppercase tracking-wider">Exit Equity</p>
+                <p className="text-2xl font-bold text-foreground">
+                  {result ? formatM(result.returns.exitEquityValue) : "—"}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+          {(error || (result && result.warnings.length > 0)) && (
+            <div className="mt-3 space-y-1">
+              {[...(error ? [error] : []), ...(result?.warnings || [])].map((w) => (
+                <p key={w} className="text-sm text-warning flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  {w}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Tabs defaultValue="sources" className="flex-1 flex flex-col">
+          <div className="px-4 pt-4 border-b border-border">
+            <TabsList>
+              <TabsTrigger value="sources" className="gap-2">
+                <Scale className="h-4 w-4" />
+                Sources & Uses
+              </TabsTrigger>
+              <TabsTrigger value="debt" className="gap-2">
+                <Landmark className="h-4 w-4" />
+                Debt Schedule
+              </TabsTrigger>
+              <TabsTrigger value="cashflow" className="gap-2">
+                <TrendingUp className="h-4 w-4" />
+                Cash Flow & Credit Stats
+              </TabsTrigger>
+              <TabsTrigger value="sensitivity" className="gap-2">
+                <Grid3X3 className="h-4 w-4" />
+                Scenarios & Sensitivity
+              </TabsTrigger>
+            </TabsList>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4">
+            <TabsContent value="sources" className="mt-0 space-y-4">
+              {result && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Sources</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableBody>
+                          {result.sourcesAndUses.sources.map((s) => (
+                            <TableRow key={s.label}>
+                              <TableCell>{s.label}</TableCell>
+                              <TableCell className="text-right tabular-nums">{formatM(s.amount)}</TableCell>
+                              <TableCell className="text-right tabular-nums text-muted-foreground">
+                                {((s.amount / result.sourcesAndUses.totalSources) * 100).toFixed(1)}%
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                          <TableRow className="font-semibold">
+                            <TableCell>Total Sources</TableCell>
+                            <TableCell className="text-right tabular-nums">
+                              {formatM(result.sourcesAndUses.totalSources)}
+                            </TableCell>
+                            <TableCell />
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Uses</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableBody>
+                          {result.sourcesAndUses.uses.map((u) => (
+                            <TableRow key={u.label}>
+                              <TableCell>{u.label}</TableCell>
+                              <TableCell className="text-right tabular-nums">{formatM(u.amount)}</TableCell>
+                            </TableRow>
+                          ))}
+                          <TableRow className="font-semibold">
+                            <TableCell>Total Uses</TableCell>
+                            <TableCell className="text-right tabular-nums">
+                              {formatM(result.sourcesAndUses.totalUses)}
+                            </TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Debt Tranches</CardTitle>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Tranche</TableHead>
+                        <TableHead className="text-right">x EBITDA</TableHead>
+                        <TableHead className="text-right">Commitment ($M)</TableHead>
+                        <TableHead className="text-right">Cash Rate %</TableHead>
+                        <TableHead className="text-right">Amort. %/yr</TableHead>
+                        <TableHead className="text-right">Fee %</TableHead>
+                        <TableHead className="text-center">Sweep</TableHead>
+                        <TableHead className="text-center">PIK</TableHead>
+                        <TableHead className="text-right">PIK Rate %</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {assumptions.tranches.map((t) => (
+                        <TableRow key={t.id}>
+                          <TableCell>
+                            <div className="font-medium">{t.name}</div>
+                            <div className="text-xs text-muted-foreground">{TRANCHE_TYPE_LABELS[t.type]}</div>
+                          </TableCell>
+                          <TableCell>
+                            <NumberCell value={t.multiple} onChange={(v) => updateTranche(t.id, { multiple: v })} />
+                          </TableCell>
+                          <TableCell>
+                            {t.type === "revolver" ? (
+                              <NumberCell value={t.commitment ?? 0} onChange={(v) => updateTranche(t.id, { commitment: v })} />
+                            ) : (
+                              <span className="block text-right text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <NumberCell value={t.interestRate} onChange={(v) => updateTranche(t.id, { interestRate: v })} />
+                          </TableCell>
+                          <TableCell>
+                            <NumberCell value={t.amortizationPct} onChange={(v) => updateTranche(t.id, { amortizationPct: v })} />
+                          </TableCell>
+                          <TableCell>
+                            <NumberCell value={t.financingFeePct} onChange={(v) => updateTranche(t.id, { financingFeePct: v })} />
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Switch checked={t.cashSweep} onCheckedChange={(v) => updateTranche(t.id, { cashSweep: v })} />
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Switch checked={t.pikToggle} onCheckedChange={(v) => updateTranche(t.id, { pikToggle: v })} />
+                          </TableCell>
+                          <TableCell>
+                            <NumberCell
+                              value={t.pikRate}
+                              disabled={!t.pikToggle}
+                              onChange={(v) => updateTranche(t.id, { pikRate: v })}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="debt" className="mt-0 space-y-4">
+              {result &&
+                assumptions.tranches.map((t) => {
+                  const schedule = result.debtSchedule[t.id] || [];
+                  if (schedule.every((r) => r.opening === 0 && r.closing === 0)) return null;
+                  return (
+                    <Card key={t.id}>
+                      <CardHeader>
+                        <CardTitle className="text-base">{t.name}</CardTitle>
+                      </CardHeader>
+                      <CardContent className="overflow-x-auto">
+                        <ScheduleTable
+                          years={schedule.map((r) => r.year)}
+                          rows={[
+                            { label: "Opening Balance", values: schedule.map((r) => r.opening) },
+                            { label: "+ Drawdown", values: schedule.map((r) => r.drawdown) },
+                            { label: "+ PIK Accrued", values: schedule.map((r) => r.pikAccrued) },
+                            { label: "- Mandatory Amortization", values: schedule.map((r) => -r.mandatoryRepayment) },
+                            { label: "- Cash Sweep", values: schedule.map((r) => -r.sweepRepayment) },
+                            { label: "Closing Balance", values: schedule.map((r) => r.closing), bold: true },
+                            { label: "Cash Interest", values: schedule.map((r) => r.cashInterest) },
+                          ]}
+                        />
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+            </TabsContent>
+
+            <TabsContent value="cashflow" className="mt-0">
+              {result && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Levered Cash Flow ({result.returns.exitYear} exit)</CardTitle>
+                  </CardHeader>
+                  <CardContent className="overflow-x-auto">
+                    <ScheduleTable
+                      years={exitCashFlows.map((c) => c.year)}
+                      rows={[
+                        { label: "Revenue", values: exitCashFlows.map((c) => c.revenue) },
+                        { label: "EBITDA", values: exitCashFlows.map((c) => c.ebitda), bold: true },
+                        { label: "- Cash Interest", values: exitCashFlows.map((c) => -c.cashInterest) },
+                        { label: "- Taxes", values: exitCashFlows.map((c) => -c.taxes) },
+                        { label: "- CapEx", values: exitCashFlows.map((c) => -c.capex) },
+                        { label: "+/- Change in NWC", values: exitCashFlows.map((c) => c.changeNwc) },
+                        { label: "Free Cash Flow", values: exitCashFlows.map((c) => c.freeCashFlow), bold: true },
+                        { label: "Total Debt", values: exitCashFlows.map((c) => c.totalDebt) },
+                        { label: "Closing Cash", values: exitCashFlows.map((c) => c.closingCash) },
+                        { label: "Total Leverage", values: exitCashFlows.map((c) => c.leverage), format: "multiple" },
+                        { label: "Interest Coverage", values: exitCashFlows.map((c) => c.interestCoverage), format: "multiple" },
+                      ]}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="sensitivity" className="mt-0">
+              <ScenarioSensitivityPanel
+                adapter={scenarioAdapter}
+                baseAssumptions={assumptions}
+                savedScenarios={parseScenarios(model.scenarios)}
+                onSaveScenarios={onSaveScenarios}
+                saving={saving}
+                defaultRowKey="entryMultiple"
+                defaultColKey="exitMultiple"
+                defaultOutputKey="irr"
+              />
+            </TabsContent>
+          </div>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
+
+function NumberCell({ value, onChange, disabled }: { value: number; onChange: (v: number) => void; disabled?: boolean }) {
+  return (
+    <Input
+      type="number"
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="h-8 w-20 ml-auto text-right bg-secondary border-border"
+    />
+  );
+}
+
+function ScheduleTable({
+  years,
+  rows,
+}: {
+  years: string[];
+  rows: { label: string; values: number[]; bold?: boolean; format?: "currency" | "multiple" }[];
+}) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-border">
+          <TableHead className="text-muted-foreground min-w-[180px]">Line Item</TableHead>
+          {years.map((year) => (
+            <TableHead key={year} className="text-right text-muted-foreground">
+              {year}P
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.label} className="border-border">
+            <TableCell className={cn("text-foreground", row.bold && "font-semibold")}>{row.label}</TableCell>
+            {row.values.map((v, i) => (
+              <TableCell key={years[i]} className={cn("text-right tabular-nums", row.bold && "font-semibold")}>
+                {row.format === "multiple" ? `${v.toFixed(1)}x` : formatM(v)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default LBOModelEditor;
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { History, Loader2, RotateCcw, User } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Model } from "@/hooks/useModels";
+import { useModelVersions } from "@/hooks/useModelVersions";
+import { DiffValue, ModelVersion, VersionDiffEntry, diffModelVersions } from "@/services/modelVersionService";
+
+interface ModelVersionHistoryProps {
+  modelId: string;
+  onRestored: (model: Model) => void;
+}
+
+const formatDiffValue = (value: DiffValue | undefined) => {
+  if (value === undefined) return "—";
+  if (value === null) return "null";
+  if (typeof value === "number") return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(2);
+  return String(value);
+};
+
+const formatTimestamp = (iso: string) => format(new Date(iso), "MMM d, yyyy h:mm a");
+
+export function ModelVersionHistory({ modelId, onRestored }: ModelVersionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const { versions, loading, restoring, fetchVersions, restoreVersion } = useModelVersions(modelId);
+  const [baseId, setBaseId] = useState<string>("");
+  const [compareId, setCompareId] = useState<string>("");
+
+  // Saves happen outside the sheet, so refresh whenever it is opened
+  useEffect(() => {
+    if (open) fetchVersions();
+  }, [open, fetchVersions]);
+
+  useEffect(() => {
+    if (versions.length === 0) return;
+    setCompareId((prev) => (versions.some((v) => v.id === prev) ? prev : versions[0].id));
+    setBaseId((prev) => (versions.some((v) => v.id === prev) ? prev : versions[Math.min(1, versions.length - 1)].id));
+  }, [versions]);
+
+  const base = versions.find((v) => v.id === baseId);
+  const compare = versions.find((v) => v.id === compareId);
+
+  const diff = useMemo(() => (base && compare ? diffModelVersions(base, compare) : null), [base, compare]);
+
+  const handleRestore = async (version: ModelVersion) => {
+    const restored = await restoreVersion(version);
+    if (restored) onRestored(restored);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" className="w-full">
+          <History className="h-4 w-4 mr-2" />
+          Version History
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Version History</SheetTitle>
+          <SheetDescription>Every save is recorded. Restoring creates a new version from the selected snapshot.</SheetDescription>
+        </SheetHeader>
+
+        {loading && versions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">No versions yet. Save the model to start its history.</p>
+        ) : (
+          <div className="flex-1 grid grid-rows-[minmax(0,2fr)_minmax(0,3fr)] gap-4 min-h-0 mt-4">
+            <ScrollArea className="border border-border rounded-md">
+              <div className="divide-y divide-border">
+                {versions.map((version) => (
+                  <div key={version.id} className="flex items-center justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">v{version.version_number}</Badge>
+                        {version.id === versions[0].id && <Badge className="bg-primary/10 text-primary">Current</Badge>}
+                        {version.note && <span className="text-sm text-foreground truncate">{version.note}</span>}
+                      </div>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                        <User className="h-3 w-3" />
+                        {version.author_name || "Unknown"} · {formatTimestamp(version.created_at)}
+                      </div>
+                    </div>
+                    {version.id !== versions[0].id && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" disabled={restoring}>
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Restore
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Restore v{version.version_number}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The model's assumptions, outputs and scenarios will be replaced with this snapshot and saved as
+                              v{versions[0].version_number + 1}. Existing versions are kept.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRestore(version)}>Restore</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-col min-h-0 gap-3">
+              <div className="grid grid-cols-2 gap-3">
+                <VersionSelect label="Compare from" value={baseId} onChange={setBaseId} versions={versions} />
+                <VersionSelect label="To" value={compareId} onChange={setCompareId} versions={versions} />
+              </div>
+
+              {diff && base && compare && (
+                <Tabs defaultValue="assumptions" className="flex-1 flex flex-col min-h-0">
+                  <TabsList className="self-start">
+                    <TabsTrigger value="assumptions">Assumptions ({diff.assumptions.length})</TabsTrigger>
+                    <TabsTrigger value="outputs">Outputs ({diff.outputs.length})</TabsTrigger>
+                    <TabsTrigger value="scenarios">Scenarios ({diff.scenarios.length})</TabsTrigger>
+                  </TabsList>
+                  {(["assumptions", "outputs", "scenarios"] as const).map((section) => (
+                    <TabsContent key={section} value={section} className="flex-1 min-h-0 mt-2">
+                      <ScrollArea className="h-full border border-border rounded-md">
+                        <DiffTable
+                          entries={diff[section]}
+                          beforeLabel={`v${base.version_number}`}
+                          afterLabel={`v${compare.version_number}`}
+                        />
+                      </ScrollArea>
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function VersionSelect({
+  label,
+  value,
+  onChange,
+  versions,
+}: {
+  label: string;
+  value: string;
+  onChange: (id: string) => void;
+  versions: ModelVersion[];
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map((v) => (
+            <SelectItem key={v.id} value={v.id}>
+              v{v.version_number} · {formatTimestamp(v.created_at)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function DiffTable({ entries, beforeLabel, afterLabel }: { entries: VersionDiffEntry[]; beforeLabel: string; afterLabel: string }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground p-4 text-center">No differences.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          <TableHead className="text-right">{beforeLabel}</TableHead>
+          <TableHead className="text-right">{afterLabel}</TableHead>
+          <TableHead className="text-right">Change</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.path}>
+            <TableCell className="text-sm">{entry.label}</TableCell>
+            <TableCell className={cn("text-right font-mono text-sm", entry.change === "removed" && "text-destructive")}>
+              {formatDiffValue(entry.before)}
+            </TableCell>
+            <TableCell className={cn("text-right font-mono text-sm", entry.change === "added" && "text-success")}>
+              {formatDiffValue(entry.after)}
+            </TableCell>
+            <TableCell
+              className={cn(
+                "text-right font-mono text-xs",
+                entry.delta !== null && entry.delta > 0 && "text-success",
+                entry.delta !== null && entry.delta < 0 && "text-destructive"
+              )}
+            >
+              {entry.delta === null
+                ? entry.change
+                : `${entry.delta > 0 ? "+" : ""}${formatDiffValue(entry.delta)}${
+                    entry.pctChange !== null ? ` (${(entry.pctChange * 100).toFixed(1)}%)` : ""
+                  }`}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,346 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Save, Trash2, Loader2, Grid3X3, Layers } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  ModelScenario,
+  ScenarioModelAdapter,
+  SensitivityVariable,
+  createDefaultScenarios,
+  formatScenarioOutput,
+  getAssumptionValue,
+  runScenarios,
+  runSensitivityGrid,
+} from "@/services/scenarioService";
+
+interface ScenarioSensitivityPanelProps<A extends object> {
+  adapter: ScenarioModelAdapter<A>;
+  baseAssumptions: A;
+  savedScenarios: ModelScenario[];
+  onSaveScenarios?: (scenarios: ModelScenario[]) => Promise<unknown>;
+  saving?: boolean;
+  defaultRowKey?: string;
+  defaultColKey?: string;
+  defaultOutputKey?: string;
+}
+
+const KIND_STYLES: Record<ModelScenario["kind"], string> = {
+  base: "bg-muted text-foreground",
+  upside: "bg-success/10 text-success",
+  downside: "bg-destructive/10 text-destructive",
+  custom: "bg-primary/10 text-primary",
+};
+
+const formatVariable = (value: number, variable: SensitivityVariable) => {
+  if (variable.unit === "x") return `${value.toFixed(2)}x`;
+  if (variable.unit === "%") return `${value.toFixed(1)}%`;
+  if (variable.unit === "yr") return `Yr ${value}`;
+  return `$${value.toFixed(1)}M`;
+};
+
+const HEAT_UP = ["bg-success/10", "bg-success/20", "bg-success/30"];
+const HEAT_DOWN = ["bg-destructive/10", "bg-destructive/20", "bg-destructive/30"];
+
+// Shade cells relative to the base case: green above, red below
+function heatmapClass(value: number | null, base: number | null, min: number, max: number): string {
+  if (value === null || base === null) return "bg-muted/40 text-muted-foreground";
+  const spread = Math.max(max - base, base - min);
+  if (spread === 0) return "";
+  const intensity = Math.abs(value - base) / spread;
+  if (intensity < 0.05) return "";
+  const level = intensity > 0.66 ? 2 : intensity > 0.33 ? 1 : 0;
+  return value > base ? HEAT_UP[level] : HEAT_DOWN[level];
+}
+
+export function ScenarioSensitivityPanel<A extends object>({
+  adapter,
+  baseAssumptions,
+  savedScenarios,
+  onSaveScenarios,
+  saving = false,
+  defaultRowKey,
+  defaultColKey,
+  defaultOutputKey,
+}: ScenarioSensitivityPanelProps<A>) {
+  const [scenarios, setScenarios] = useState<ModelScenario[]>(() =>
+    savedScenarios.length > 0 ? savedScenarios : createDefaultScenarios(adapter, baseAssumptions)
+  );
+  const [dirty, setDirty] = useState(false);
+  const [rowKey, setRowKey] = useState(defaultRowKey || adapter.variables[0]?.key);
+  const [colKey, setColKey] = useState(defaultColKey || adapter.variables[1]?.key);
+  const [outputKey, setOutputKey] = useState(defaultOutputKey || adapter.outputs[0]?.key);
+
+  const scenarioResults = useMemo(
+    () => runScenarios(adapter, baseAssumptions, scenarios),
+    [adapter, baseAssumptions, scenarios]
+  );
+
+  const { grid, gridError } = useMemo(() => {
+    try {
+      return { grid: runSensitivityGrid(adapter, baseAssumptions, rowKey, colKey, outputKey), gridError: null };
+    } catch (e) {
+      return { grid: null, gridError: e instanceof Error ? e.message : "Failed to build sensitivity grid" };
+    }
+  }, [adapter, baseAssumptions, rowKey, colKey, outputKey]);
+
+  const updateScenario = (id: string, patch: Partial<ModelScenario>) => {
+    setScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+    setDirty(true);
+  };
+
+  const setOverride = (id: string, key: string, raw: string) => {
+    setScenarios((prev) =>
+      prev.map((s) => {
+        if (s.id !== id) return s;
+        const overrides = { ...s.overrides };
+        const value = parseFloat(raw);
+        if (raw.trim() === "" || !Number.isFinite(value)) {
+          delete overrides[key];
+        } else {
+          overrides[key] = value;
+        }
+        return { ...s, overrides };
+      })
+    );
+    setDirty(true);
+  };
+
+  const addScenario = () => {
+    const id = `custom-${Date.now()}`;
+    setScenarios((prev) => [...prev, { id, name: `Scenario ${prev.length + 1}`, kind: "custom", overrides: {} }]);
+    setDirty(true);
+  };
+
+  const removeScenario = (id: string) => {
+    setScenarios((prev) => prev.filter((s) => s.id !== id));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!onSaveScenarios) return;
+    await onSaveScenarios(scenarios);
+    setDirty(false);
+  };
+
+  const baseValue = grid && grid.baseRowIndex >= 0 && grid.baseColIndex >= 0
+    ? grid.values[grid.baseRowIndex][grid.baseColIndex]
+    : null;
+  const finiteValues = (grid?.values.flat() || []).filter((v): v is number => v !== null);
+  const minValue = finiteValues.length ? Math.min(...finiteValues) : 0;
+  const maxValue = finiteValues.length ? Math.max(...finiteValues) : 0;
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Layers className="h-4 w-4" />
+              Scenarios
+            </CardTitle>
+            <CardDescription>Override assumptions per case; blank cells use the base assumptions.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={addScenario} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Scenario
+            </Button>
+            {onSaveScenarios && (
+              <Button size="sm" onClick={handleSave} disabled={saving || !dirty} className="gap-2">
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save Scenarios
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[180px]">Scenario</TableHead>
+                  {adapter.variables.map((v) => (
+                    <TableHead key={v.key} className="text-right min-w-[90px]">
+                      {v.label}
+                    </TableHead>
+                  ))}
+                  {adapter.outputs.map((o) => (
+                    <TableHead key={o.key} className="text-right min-w-[100px] bg-muted/30">
+                      {o.label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scenarioResults.map(({ scenario, outputs, error }) => (
+                  <TableRow key={scenario.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className={cn("capitalize", KIND_STYLES[scenario.kind])}>
+                          {scenario.kind}
+                        </Badge>
+                        <Input
+                          value={scenario.name}
+                          onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+                          className="h-8"
+                        />
+                      </div>
+                    </TableCell>
+                    {adapter.variables.map((v) => {
+                      const override = scenario.overrides[v.key];
+                      return (
+                        <TableCell key={v.key} className="text-right">
+                          {scenario.kind === "base" ? (
+                            <span className="font-mono text-muted-foreground">
+                              {formatVariable(getAssumptionValue(baseAssumptions, v.key), v)}
+                            </span>
+                          ) : (
+                            <Input
+                              type="number"
+                              step={v.step}
+                              value={override ?? ""}
+                              placeholder={String(getAssumptionValue(baseAssumptions, v.key))}
+                              onChange={(e) => setOverride(scenario.id, v.key, e.target.value)}
+                              className="h-8 w-20 ml-auto text-right font-mono"
+                            />
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                    {adapter.outputs.map((o) => (
+                      <TableCell key={o.key} className="text-right font-mono bg-muted/30">
+                        {error ? (
+                          <span className="text-destructive text-xs" title={error}>Error</span>
+                        ) : (
+                          formatScenarioOutput(outputs?.[o.key], o.format)
+                        )}
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {scenario.kind !== "base" && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeScenario(scenario.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Grid3X3 className="h-4 w-4" />
+            Sensitivity Analysis
+          </CardTitle>
+          <CardDescription>Flex any two assumptions around the base case.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Rows</Label>
+              <Select value={rowKey} onValueChange={setRowKey}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {adapter.variables.map((v) => (
+                    <SelectItem key={v.key} value={v.key} disabled={v.key === colKey}>{v.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Columns</Label>
+              <Select value={colKey} onValueChange={setColKey}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {adapter.variables.map((v) => (
+                    <SelectItem key={v.key} value={v.key} disabled={v.key === rowKey}>{v.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Output</Label>
+              <Select value={outputKey} onValueChange={setOutputKey}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {adapter.outputs.map((o) => (
+                    <SelectItem key={o.key} value={o.key}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {gridError && <p className="text-sm text-destructive">{gridError}</p>}
+
+          {grid && (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs text-muted-foreground">
+                      {grid.rowVariable.label} ↓ / {grid.colVariable.label} →
+                    </TableHead>
+                    {grid.colValues.map((cv, j) => (
+                      <TableHead
+                        key={cv}
+                        className={cn("text-right font-mono", j === grid.baseColIndex && "text-foreground font-semibold")}
+                      >
+                        {formatVariable(cv, grid.colVariable)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {grid.rowValues.map((rv, i) => (
+                    <TableRow key={rv}>
+                      <TableCell className={cn("font-mono", i === grid.baseRowIndex && "font-semibold")}>
+                        {formatVariable(rv, grid.rowVariable)}
+                      </TableCell>
+                      {grid.colValues.map((cv, j) => {
+                        const value = grid.values[i][j];
+                        const isBase = i === grid.baseRowIndex && j === grid.baseColIndex;
+                        return (
+                          <TableCell
+                            key={cv}
+                            className={cn(
+                              "text-right font-mono",
+                              heatmapClass(value, baseValue, minValue, maxValue),
+                              isBase && "ring-2 ring-primary ring-inset font-semibold"
+                            )}
+                          >
+                            {formatScenarioOutput(value, grid.output.format)}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {[grid.rowVariable, grid.colVariable]
+                .filter((v) => v.min !== undefined || v.max !== undefined)
+                .map((v) => (
+                  <p key={v.key} className="text-xs text-muted-foreground mt-2">
+                    {v.label} limited to {v.min !== undefined ? formatVariable(v.min, v) : "—"} –{" "}
+                    {v.max !== undefined ? formatVariable(v.max, v) : "—"}
+                  </p>
+                ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -46,14 +46,6 @@ const ASSET_TYPES: AssetTypeInfo[] = [
     description: 'Deals, pipeline, and portfolio companies',
     icon: Briefcase,
     color: 'text-purple-400 bg-purple-400/10',
-    configOptions: [
-      {
-        id: 'pipeline_stages',
-        label: 'Default pipeline stages',
-        type: 'list',
-        default: 'Sourcing, Initial Review, Due Diligence, IC Review, Closing',
-      },
-    ],
   },
   {
     id: 'public_equity',
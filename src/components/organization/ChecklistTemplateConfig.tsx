@@ -0,0 +1,357 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  ChecklistItem,
+  ChecklistTemplate,
+  DATA_ROOM_FOLDERS,
+  DEAL_TYPE_LABELS,
+  DEFAULT_CHECKLIST_TEMPLATES,
+  DOCUMENT_TYPE_LABELS,
+  DealType,
+  createChecklistId,
+  validateChecklistTemplates,
+} from '@/services/dataRoomChecklistService';
+
+interface ChecklistTemplateConfigProps {
+  templates: ChecklistTemplate[];
+  onSave: (templates: ChecklistTemplate[]) => Promise<void>;
+  saving?: boolean;
+  disabled?: boolean;
+}
+
+const FOLDER_OPTIONS = Object.entries(DATA_ROOM_FOLDERS).flatMap(([folder, subfolders]) => [
+  folder,
+  ...subfolders.map((subfolder) => `${folder}/${subfolder}`),
+]);
+
+const parseList = (value: string) =>
+  value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+export function ChecklistTemplateConfig({ templates, onSave, saving, disabled }: ChecklistTemplateConfigProps) {
+  const [draft, setDraft] = useState<ChecklistTemplate[]>(templates);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [newDealType, setNewDealType] = useState<DealType>('buyout');
+
+  useEffect(() => {
+    setDraft(templates);
+    setSelectedIndex(0);
+  }, [templates]);
+
+  const validationError = validateChecklistTemplates(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(templates);
+  const template = draft[Math.min(selectedIndex, draft.length - 1)];
+
+  const updateTemplate = (updates: Partial<ChecklistTemplate>) => {
+    setDraft((prev) => prev.map((t, i) => (i === selectedIndex ? { ...t, ...updates } : t)));
+  };
+
+  const updateItem = (itemIndex: number, updates: Partial<ChecklistItem>) => {
+    updateTemplate({ items: template.items.map((item, i) => (i === itemIndex ? { ...item, ...updates } : item)) });
+  };
+
+  const moveItem = (itemIndex: number, direction: -1 | 1) => {
+    const items = [...template.items];
+    [items[itemIndex], items[itemIndex + direction]] = [items[itemIndex + direction], items[itemIndex]];
+    updateTemplate({ items });
+  };
+
+  const addItem = () => {
+    const category = template.items[template.items.length - 1]?.category || 'General';
+    updateTemplate({
+      items: [
+        ...template.items,
+        {
+          id: createChecklistId('New Item', template.items.map((i) => i.id)),
+          name: 'New Item',
+          category,
+          description: null,
+          keywords: [],
+          documentTypes: [],
+          folders: [],
+        },
+      ],
+    });
+  };
+
+  // New templates start from the built-in checklist for their deal type
+  const addTemplate = () => {
+    const base = DEFAULT_CHECKLIST_TEMPLATES.find((t) => t.dealType === newDealType) || DEFAULT_CHECKLIST_TEMPLATES[0];
+    const name = `${DEAL_TYPE_LABELS[newDealType]} ${draft.filter((t) => t.dealType === newDealType).length + 1}`;
+    setDraft((prev) => [
+      ...prev,
+      { id: createChecklistId(name, prev.map((t) => t.id)), name, dealType: newDealType, items: base.items },
+    ]);
+    setSelectedIndex(draft.length);
+  };
+
+  const removeTemplate = () => {
+    setDraft((prev) => prev.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(0);
+  };
+
+  // New templates and items get ids from their final names; saved ids never change since
+  // companies and per-company checklist state reference them
+  const handleSave = () => {
+    const savedTemplateIds = templates.map((t) => t.id);
+    const savedItemIds = templates.flatMap((t) => t.items.map((i) => i.id));
+    const usedTemplateIds: string[] = [];
+
+    const finalized = draft.map((t) => {
+      const id = savedTemplateIds.includes(t.id) ? t.id : createChecklistId(t.name, [...savedTemplateIds, ...usedTemplateIds]);
+      usedTemplateIds.push(id);
+
+      const usedItemIds: string[] = [];
+      const items = t.items.map((item) => {
+        const itemId = savedItemIds.includes(item.id) && !usedItemIds.includes(item.id)
+          ? item.id
+          : createChecklistId(item.name, [...savedItemIds, ...usedItemIds]);
+        usedItemIds.push(itemId);
+        return { ...item, id: itemId, name: item.name.trim(), category: item.category.trim() };
+      });
+
+      return { ...t, id, name: t.name.trim(), items };
+    });
+    onSave(finalized);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Template picker */}
+      <div className="flex flex-wrap items-center gap-2">
+        {draft.map((t, index) => (
+          <Button
+            key={t.id}
+            variant={index === selectedIndex ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSelectedIndex(index)}
+            className={cn(index !== selectedIndex && 'border-slate-700 text-slate-300 hover:bg-slate-800')}
+          >
+            {t.name || 'Untitled'}
+            <span className="ml-2 text-xs opacity-70">{t.items.length}</span>
+          </Button>
+        ))}
+        {!disabled && (
+          <div className="flex items-center gap-1 ml-auto">
+            <Select value={newDealType} onValueChange={(value) => setNewDealType(value as DealType)}>
+              <SelectTrigger className="w-36 h-8 bg-slate-700 border-slate-600 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {(Object.keys(DEAL_TYPE_LABELS) as DealType[]).map((dealType) => (
+                  <SelectItem key={dealType} value={dealType}>
+                    {DEAL_TYPE_LABELS[dealType]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={addTemplate} className="border-slate-700 text-slate-300 hover:bg-slate-800">
+              <Plus className="h-4 w-4 mr-1" />
+              Template
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {template && (
+        <>
+          <div className="flex items-center gap-3">
+            <Input
+              value={template.name}
+              onChange={(e) => updateTemplate({ name: e.target.value })}
+              disabled={disabled}
+              placeholder="Template name"
+              className="flex-1 bg-slate-700 border-slate-600 text-white"
+            />
+            <Select
+              value={template.dealType}
+              onValueChange={(value) => updateTemplate({ dealType: value as DealType })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-40 bg-slate-700 border-slate-600 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {(Object.keys(DEAL_TYPE_LABELS) as DealType[]).map((dealType) => (
+                  <SelectItem key={dealType} value={dealType}>
+                    {DEAL_TYPE_LABELS[dealType]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={removeTemplate}
+              disabled={disabled || draft.length === 1}
+              title="Delete template"
+              className="text-rose-400 hover:text-rose-300 hover:bg-rose-400/10"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {template.items.map((item, itemIndex) => (
+            <Card key={item.id} className="bg-slate-800/50 border-slate-700">
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={item.name}
+                    onChange={(e) => updateItem(itemIndex, { name: e.target.value })}
+                    disabled={disabled}
+                    placeholder="Item"
+                    className="flex-1 bg-slate-700 border-slate-600 text-white"
+                  />
+                  <Input
+                    value={item.category}
+                    onChange={(e) => updateItem(itemIndex, { category: e.target.value })}
+                    disabled={disabled}
+                    placeholder="Category"
+                    className="w-40 bg-slate-700 border-slate-600 text-sm"
+                  />
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => moveItem(itemIndex, -1)} disabled={disabled || itemIndex === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveItem(itemIndex, 1)}
+                      disabled={disabled || itemIndex === template.items.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateTemplate({ items: template.items.filter((_, i) => i !== itemIndex) })}
+                      disabled={disabled}
+                      className="text-rose-400 hover:text-rose-300 hover:bg-rose-400/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <Input
+                  value={item.description || ''}
+                  onChange={(e) => updateItem(itemIndex, { description: e.target.value || null })}
+                  disabled={disabled}
+                  placeholder="Request description sent to management"
+                  className="bg-slate-700 border-slate-600 text-sm"
+                />
+
+                {/* How uploaded documents satisfy the item */}
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {(item.documentTypes || []).map((type) => (
+                    <Badge key={type} variant="outline" className="text-xs border-blue-500/30 text-blue-300 gap-1">
+                      {DOCUMENT_TYPE_LABELS[type] || type}
+                      {!disabled && (
+                        <button onClick={() => updateItem(itemIndex, { documentTypes: item.documentTypes?.filter((t) => t !== type) })}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                  {(item.folders || []).map((folder) => (
+                    <Badge key={folder} variant="outline" className="text-xs border-amber-500/30 text-amber-300 gap-1">
+                      {folder}
+                      {!disabled && (
+                        <button onClick={() => updateItem(itemIndex, { folders: item.folders?.filter((f) => f !== folder) })}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                  {!disabled && (
+                    <>
+                      <Select
+                        value=""
+                        onValueChange={(type) => updateItem(itemIndex, { documentTypes: [...(item.documentTypes || []), type] })}
+                      >
+                        <SelectTrigger className="w-36 h-7 bg-slate-700 border-slate-600 text-xs">
+                          <SelectValue placeholder="+ Document type" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700">
+                          {Object.entries(DOCUMENT_TYPE_LABELS)
+                            .filter(([type]) => !item.documentTypes?.includes(type))
+                            .map(([type, label]) => (
+                              <SelectItem key={type} value={type}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value=""
+                        onValueChange={(folder) => updateItem(itemIndex, { folders: [...(item.folders || []), folder] })}
+                      >
+                        <SelectTrigger className="w-36 h-7 bg-slate-700 border-slate-600 text-xs">
+                          <SelectValue placeholder="+ Folder" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700">
+                          {FOLDER_OPTIONS.filter((folder) => !item.folders?.includes(folder)).map((folder) => (
+                            <SelectItem key={folder} value={folder}>
+                              {folder}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
+                </div>
+                {/* Committed on blur so commas can be typed freely */}
+                <Input
+                  key={item.keywords.join(',')}
+                  defaultValue={item.keywords.join(', ')}
+                  onBlur={(e) => updateItem(itemIndex, { keywords: parseList(e.target.value) })}
+                  disabled={disabled}
+                  placeholder="Filename keywords, comma separated"
+                  className="bg-slate-700 border-slate-600 text-xs h-8"
+                />
+              </CardContent>
+            </Card>
+          ))}
+
+          <Button
+            variant="outline"
+            onClick={addItem}
+            disabled={disabled}
+            className="w-full border-dashed border-slate-700 text-slate-300 hover:bg-slate-800"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+        </>
+      )}
+
+      {validationError && <p className="text-xs text-rose-400">{validationError}</p>}
+
+      {!disabled && (
+        <div className="flex items-center gap-2">
+          <Button
+            onClick={handleSave}
+            disabled={saving || !isDirty || !!validationError}
+            className="bg-purple-600 hover:bg-purple-500"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Save Templates
+          </Button>
+          {isDirty && (
+            <Button variant="ghost" onClick={() => setDraft(templates)} disabled={saving} className="text-slate-400">
+              Discard
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
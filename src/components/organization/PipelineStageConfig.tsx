@@ -0,0 +1,330 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { ArrowDown, ArrowUp, Loader2, Lock, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DEFAULT_CHECKLIST_TEMPLATES, templateCategories } from '@/services/dataRoomChecklistService';
+import {
+  DEFAULT_AGING_DAYS,
+  GATE_TYPE_LABELS,
+  MODEL_TYPE_LABELS,
+  PipelineStage,
+  STAGE_COLORS,
+  StageColor,
+  StageGateRule,
+  StageGateType,
+  createStageId,
+  validatePipelineStages,
+} from '@/services/pipelineStageService';
+
+interface PipelineStageConfigProps {
+  stages: PipelineStage[];
+  onSave: (stages: PipelineStage[]) => Promise<void>;
+  saving?: boolean;
+  disabled?: boolean;
+}
+
+const ANY_MODEL = 'any';
+
+const defaultGate = (type: StageGateType, categories: string[]): StageGateRule => {
+  switch (type) {
+    case 'checklist_category':
+      return { type, category: categories[0] };
+    case 'model_exists':
+      return { type, modelType: null };
+    case 'tasks_complete':
+      return { type, tag: null };
+  }
+};
+
+export function PipelineStageConfig({ stages, onSave, saving, disabled }: PipelineStageConfigProps) {
+  const { currentOrganization } = useOrganization();
+  const [draft, setDraft] = useState<PipelineStage[]>(stages);
+  const [dealCounts, setDealCounts] = useState<Record<string, number>>({});
+  const checklistCategories = useMemo(
+    () => templateCategories(currentOrganization?.checklist_templates ?? DEFAULT_CHECKLIST_TEMPLATES),
+    [currentOrganization?.checklist_templates]
+  );
+
+  useEffect(() => {
+    setDraft(stages);
+  }, [stages]);
+
+  useEffect(() => {
+    const orgId = currentOrganization?.id;
+    if (!orgId) return;
+
+    const fetchDealCounts = async () => {
+      const { data, error } = await supabase
+        .from('companies')
+        .select('pipeline_stage')
+        .eq('organization_id', orgId)
+        .eq('company_type', 'pipeline');
+
+      if (!error && data) {
+        const counts: Record<string, number> = {};
+        data.forEach((item) => {
+          if (item.pipeline_stage) counts[item.pipeline_stage] = (counts[item.pipeline_stage] || 0) + 1;
+        });
+        setDealCounts(counts);
+      }
+    };
+
+    fetchDealCounts();
+  }, [currentOrganization?.id]);
+
+  const validationError = validatePipelineStages(draft, checklistCategories);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(stages);
+  const orphanedDeals = Object.entries(dealCounts)
+    .filter(([stageId]) => !draft.some((s) => s.id === stageId))
+    .reduce((sum, [, count]) => sum + count, 0);
+
+  const updateStage = (index: number, updates: Partial<PipelineStage>) => {
+    setDraft((prev) => prev.map((s, i) => (i === index ? { ...s, ...updates } : s)));
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setDraft((prev) => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const addStage = () => {
+    setDraft((prev) => [
+      ...prev,
+      { id: createStageId('New Stage', prev.map((s) => s.id)), title: 'New Stage', color: 'slate', gates: [], agingDays: null },
+    ]);
+  };
+
+  // New stages get an id from their final title; saved ids never change since deals reference them
+  const handleSave = () => {
+    const savedIds = stages.map((s) => s.id);
+    const usedIds: string[] = [];
+    const finalized = draft.map((stage) => {
+      const id = savedIds.includes(stage.id) ? stage.id : createStageId(stage.title, [...savedIds, ...usedIds]);
+      usedIds.push(id);
+      return { ...stage, title: stage.title.trim(), id };
+    });
+    onSave(finalized);
+  };
+
+  const updateGate = (stageIndex: number, gateIndex: number, gate: StageGateRule) => {
+    updateStage(stageIndex, { gates: draft[stageIndex].gates.map((g, i) => (i === gateIndex ? gate : g)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {draft.map((stage, index) => (
+        <Card key={stage.id} className="bg-slate-800/50 border-slate-700">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <div className={cn('w-3 h-3 rounded-full shrink-0', STAGE_COLORS[stage.color].dot)} />
+              <Input
+                value={stage.title}
+                onChange={(e) => updateStage(index, { title: e.target.value })}
+                disabled={disabled}
+                className="flex-1 bg-slate-700 border-slate-600 text-white"
+              />
+              <Select
+                value={stage.color}
+                onValueChange={(color) => updateStage(index, { color: color as StageColor })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-32 bg-slate-700 border-slate-600 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {(Object.keys(STAGE_COLORS) as StageColor[]).map((color) => (
+                    <SelectItem key={color} value={color}>
+                      <span className="flex items-center gap-2 capitalize">
+                        <span className={cn('w-2 h-2 rounded-full', STAGE_COLORS[color].dot)} />
+                        {color}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                value={stage.agingDays ?? ''}
+                onChange={(e) => updateStage(index, { agingDays: e.target.value ? Math.max(1, Number(e.target.value)) : null })}
+                disabled={disabled}
+                placeholder={`${DEFAULT_AGING_DAYS}`}
+                title="Flag deals in this stage after this many days"
+                className="w-20 bg-slate-700 border-slate-600 text-sm"
+              />
+              <span className="text-xs text-slate-500 -ml-2">days</span>
+              {dealCounts[stage.id] > 0 && (
+                <Badge variant="outline" className="text-xs border-slate-600 text-slate-400 whitespace-nowrap">
+                  {dealCounts[stage.id]} deal{dealCounts[stage.id] !== 1 ? 's' : ''}
+                </Badge>
+              )}
+              <div className="flex items-center">
+                <Button variant="ghost" size="sm" onClick={() => moveStage(index, -1)} disabled={disabled || index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveStage(index, 1)}
+                  disabled={disabled || index === draft.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={disabled || draft.length === 1}
+                  className="text-rose-400 hover:text-rose-300 hover:bg-rose-400/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Gate requirements for entering this stage */}
+            <div className="pl-6 space-y-2">
+              {stage.gates.map((gate, gateIndex) => (
+                <div key={gateIndex} className="flex items-center gap-2">
+                  <Lock className="h-3 w-3 text-amber-400 shrink-0" />
+                  <Select
+                    value={gate.type}
+                    onValueChange={(type) => updateGate(index, gateIndex, defaultGate(type as StageGateType, checklistCategories))}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="w-56 h-8 bg-slate-700 border-slate-600 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      {(Object.keys(GATE_TYPE_LABELS) as StageGateType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {GATE_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {gate.type === 'checklist_category' && (
+                    <Select
+                      value={gate.category}
+                      onValueChange={(category) => updateGate(index, gateIndex, { ...gate, category })}
+                      disabled={disabled}
+                    >
+                      <SelectTrigger className="w-44 h-8 bg-slate-700 border-slate-600 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        {checklistCategories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {gate.type === 'model_exists' && (
+                    <Select
+                      value={gate.modelType || ANY_MODEL}
+                      onValueChange={(modelType) =>
+                        updateGate(index, gateIndex, { ...gate, modelType: modelType === ANY_MODEL ? null : modelType })
+                      }
+                      disabled={disabled}
+                    >
+                      <SelectTrigger className="w-44 h-8 bg-slate-700 border-slate-600 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        <SelectItem value={ANY_MODEL}>Any model type</SelectItem>
+                        {Object.entries(MODEL_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {gate.type === 'tasks_complete' && (
+                    <Input
+                      value={gate.tag || ''}
+                      onChange={(e) => updateGate(index, gateIndex, { ...gate, tag: e.target.value || null })}
+                      disabled={disabled}
+                      placeholder="Tag (blank = all tasks)"
+                      className="w-44 h-8 bg-slate-700 border-slate-600 text-xs"
+                    />
+                  )}
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateStage(index, { gates: stage.gates.filter((_, i) => i !== gateIndex) })}
+                    disabled={disabled}
+                    className="h-8 text-slate-400 hover:text-white"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              {index > 0 && (
+                <button
+                  onClick={() => updateStage(index, { gates: [...stage.gates, defaultGate('checklist_category', checklistCategories)] })}
+                  disabled={disabled}
+                  className="flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+                >
+                  <Plus className="h-3 w-3" />
+                  Add requirement to enter {stage.title || 'this stage'}
+                </button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Button
+        variant="outline"
+        onClick={addStage}
+        disabled={disabled}
+        className="w-full border-dashed border-slate-700 text-slate-300 hover:bg-slate-800"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Stage
+      </Button>
+
+      {orphanedDeals > 0 && (
+        <p className="text-xs text-amber-400">
+          {orphanedDeals} deal{orphanedDeals !== 1 ? 's are' : ' is'} on a removed stage and will show in{' '}
+          {draft[0]?.title || 'the first stage'} until moved.
+        </p>
+      )}
+      {validationError && <p className="text-xs text-rose-400">{validationError}</p>}
+
+      {!disabled && (
+        <div className="flex items-center gap-2">
+          <Button
+            onClick={handleSave}
+            disabled={saving || !isDirty || !!validationError}
+            className="bg-purple-600 hover:bg-purple-500"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Save Pipeline
+          </Button>
+          {isDirty && (
+            <Button variant="ghost" onClick={() => setDraft(stages)} disabled={saving} className="text-slate-400">
+              Discard
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { CLOSE_REASONS, DealOutcome } from '@/services/pipelineAnalyticsService';
+import { toast } from 'sonner';
+
+const OUTCOMES: { value: DealOutcome; label: string; description: string }[] = [
+  { value: 'won', label: 'Won', description: 'Deal closed, moves to portfolio' },
+  { value: 'passed', label: 'Passed', description: 'We decided not to proceed' },
+  { value: 'killed', label: 'Killed', description: 'Deal fell away on the other side' },
+];
+
+interface CloseDealDialogProps {
+  deal: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onClosed: () => void;
+}
+
+export function CloseDealDialog({ deal, onOpenChange, onClosed }: CloseDealDialogProps) {
+  const [outcome, setOutcome] = useState<DealOutcome>('passed');
+  const [reason, setReason] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (deal) {
+      setOutcome('passed');
+      setReason('');
+      setNotes('');
+    }
+  }, [deal]);
+
+  const handleSave = async () => {
+    if (!deal || !reason) return;
+
+    setIsSaving(true);
+    // The stage history trigger copies the reason and notes onto the transition row
+    const { error } = await supabase
+      .from('companies')
+      .update({
+        company_type: outcome === 'won' ? 'portfolio' : 'passed',
+        close_reason: reason,
+        close_notes: notes.trim() || null,
+      })
+      .eq('id', deal.id);
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error closing deal:', error);
+      toast.error('Failed to close deal');
+      return;
+    }
+
+    toast.success(outcome === 'won' ? `"${deal.name}" moved to portfolio` : `"${deal.name}" closed`);
+    onOpenChange(false);
+    onClosed();
+  };
+
+  return (
+    <Dialog open={!!deal} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Close Deal</DialogTitle>
+          <DialogDescription>Record the outcome for "{deal?.name}" so it counts in win/loss analytics.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Outcome</Label>
+            <RadioGroup
+              value={outcome}
+              onValueChange={value => {
+                setOutcome(value as DealOutcome);
+                setReason('');
+              }}
+              className="space-y-2"
+            >
+              {OUTCOMES.map(o => (
+                <div key={o.value} className="flex items-start space-x-2">
+                  <RadioGroupItem value={o.value} id={`outcome-${o.value}`} className="mt-0.5" />
+                  <label htmlFor={`outcome-${o.value}`} className="text-sm cursor-pointer">
+                    <span className="text-foreground">{o.label}</span>
+                    <span className="block text-xs text-muted-foreground">{o.description}</span>
+                  </label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger className="bg-background border-border">
+                <SelectValue placeholder="Select reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {CLOSE_REASONS.filter(r => r.outcome === outcome).map(r => (
+                  <SelectItem key={r.value} value={r.value}>
+                    {r.value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="close-notes">Notes</Label>
+            <Textarea
+              id="close-notes"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              placeholder="Context for the team..."
+              className="bg-background border-border"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!reason || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Close Deal
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { cn } from '@/lib/utils';
 import { PipelineDealCard } from './PipelineDealCard';
 import { PipelineCompany } from '@/hooks/usePipelineCompanies';
+import { PipelineStage } from '@/services/pipelineStageService';
 
 interface KanbanColumnProps {
   title: string;
@@ -9,8 +10,10 @@ interface KanbanColumnProps {
   companies: PipelineCompany[];
   totalValue: string;
   color: string;
+  stages: PipelineStage[];
   onDrop?: (companyId: string, stage: string) => void;
   onMoveStage?: (companyId: string, stage: string) => void;
+  onCloseDeal?: (company: PipelineCompany) => void;
 }
 
 export function KanbanColumn({
@@ -19,8 +22,10 @@ export function KanbanColumn({
   companies,
   totalValue,
   color,
+  stages,
   onDrop,
   onMoveStage,
+  onCloseDeal,
 }: KanbanColumnProps) {
   const [isDragOver, setIsDragOver] = useState(false);
 
@@ -74,8 +79,11 @@ export function KanbanColumn({
           <PipelineDealCard
             key={company.id}
             company={company}
+            stage={stage}
+            stages={stages}
             onDragStart={handleDragStart}
             onMoveStage={onMoveStage}
+            onCloseDeal={onCloseDeal}
           />
         ))}
 
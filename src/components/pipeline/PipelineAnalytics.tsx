@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, Clock, Filter, Trophy, TrendingDown } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePipelineAnalytics } from '@/hooks/usePipelineAnalytics';
+import { STAGE_COLORS } from '@/services/pipelineStageService';
+import { WinLossDimension } from '@/services/pipelineAnalyticsService';
+import { cn } from '@/lib/utils';
+
+const formatDays = (days: number | null) => (days === null ? '—' : `${days < 10 ? days.toFixed(1) : Math.round(days)}d`);
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+export function PipelineAnalytics() {
+  const navigate = useNavigate();
+  const { funnel, velocity, agingDeals, winLossByIndustry, winLossBySource, transitions, isLoading } =
+    usePipelineAnalytics();
+  const [dimension, setDimension] = useState<WinLossDimension>('industry');
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-6 lg:grid-cols-2">
+        {[1, 2, 3, 4].map(i => (
+          <Skeleton key={i} className="h-64 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (transitions.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        No stage history yet. Analytics appear as deals move through the pipeline.
+      </div>
+    );
+  }
+
+  const maxReached = Math.max(1, ...funnel.map(f => f.reached));
+  const winLoss = dimension === 'industry' ? winLossByIndustry : winLossBySource;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      {/* Conversion Funnel */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Filter className="h-4 w-4 text-primary" />
+            Stage Conversion
+          </CardTitle>
+          <CardDescription>Deals that reached each stage and the share that moved on</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {funnel.map((f, index) => (
+            <div key={f.stage.id}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="text-foreground">{f.stage.title}</span>
+                <span className="text-muted-foreground font-mono">
+                  {f.reached} · {formatPercent(f.conversionRate)} {index < funnel.length - 1 ? 'advance' : 'won'}
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-secondary overflow-hidden">
+                <div
+                  className={cn('h-full rounded-full', STAGE_COLORS[f.stage.color].dot)}
+                  style={{ width: `${(f.reached / maxReached) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Stage Velocity */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Clock className="h-4 w-4 text-primary" />
+            Time in Stage
+          </CardTitle>
+          <CardDescription>Median days for completed stays, and for deals there now</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stage</TableHead>
+                <TableHead className="text-right">Median</TableHead>
+                <TableHead className="text-right">Completed</TableHead>
+                <TableHead className="text-right">Current (median)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {velocity.map(v => (
+                <TableRow key={v.stage.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <div className={cn('w-2 h-2 rounded-full', STAGE_COLORS[v.stage.color].dot)} />
+                      {v.stage.title}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatDays(v.medianDays)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{v.completed}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {v.current} ({formatDays(v.currentMedianDays)})
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Aging Alerts */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <AlertTriangle className="h-4 w-4 text-amber-400" />
+            Aging Deals
+            {agingDeals.length > 0 && (
+              <Badge variant="outline" className="bg-amber-500/20 text-amber-300 border-amber-500/30">
+                {agingDeals.length}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>Active deals past their stage's aging threshold</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {agingDeals.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No deals are overdue in their stage.</p>
+          ) : (
+            <div className="space-y-2">
+              {agingDeals.map(alert => (
+                <button
+                  key={alert.companyId}
+                  onClick={() => navigate(`/portfolio/${alert.companyId}`)}
+                  className="w-full flex items-center justify-between p-3 rounded-lg border border-border hover:border-primary/50 transition-colors text-left"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{alert.companyName}</p>
+                    <Badge variant="outline" className={cn('text-xs mt-1', STAGE_COLORS[alert.stage.color].badge)}>
+                      {alert.stage.title}
+                    </Badge>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-mono text-amber-400">{Math.floor(alert.days)} days</p>
+                    <p className="text-xs text-muted-foreground">limit {alert.thresholdDays}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Win / Loss */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Trophy className="h-4 w-4 text-primary" />
+              Win / Loss
+            </CardTitle>
+            <CardDescription>Closed deals and their most common reasons</CardDescription>
+          </div>
+          <Select value={dimension} onValueChange={value => setDimension(value as WinLossDimension)}>
+            <SelectTrigger className="w-32 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="industry">By Industry</SelectItem>
+              <SelectItem value="deal_source">By Source</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {winLoss.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No deals have been won, passed or killed yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{dimension === 'industry' ? 'Industry' : 'Source'}</TableHead>
+                  <TableHead className="text-right">Won</TableHead>
+                  <TableHead className="text-right">Passed</TableHead>
+                  <TableHead className="text-right">Killed</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead>Top Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {winLoss.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell>{row.key}</TableCell>
+                    <TableCell className="text-right text-emerald-400">{row.won}</TableCell>
+                    <TableCell className="text-right">{row.passed}</TableCell>
+                    <TableCell className="text-right text-rose-400">{row.killed}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPercent(row.winRate)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {row.reasons[0] ? (
+                        <span className="flex items-center gap-1">
+                          <TrendingDown className="h-3 w-3" />
+                          {row.reasons[0].reason} ({row.reasons[0].count})
+                        </span>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,24 +13,27 @@ import {
   DropdownMenuSubTrigger,
   DropdownMenuSubContent,
 } from '@/components/ui/dropdown-menu';
-import { MoreHorizontal, ExternalLink, FolderOpen, ArrowRight } from 'lucide-react';
+import { MoreHorizontal, ExternalLink, FolderOpen, ArrowRight, Flag } from 'lucide-react';
 import { PipelineCompany } from '@/hooks/usePipelineCompanies';
+import { PipelineStage } from '@/services/pipelineStageService';
 
 interface PipelineDealCardProps {
   company: PipelineCompany;
+  stage: string; // Column the card is shown in
+  stages: PipelineStage[];
   onDragStart?: (e: React.DragEvent, company: PipelineCompany) => void;
   onMoveStage?: (companyId: string, stage: string) => void;
+  onCloseDeal?: (company: PipelineCompany) => void;
 }
 
-const STAGES = [
-  { id: 'sourcing', label: 'Sourcing' },
-  { id: 'screening', label: 'Screening' },
-  { id: 'due-diligence', label: 'Due Diligence' },
-  { id: 'ic-review', label: 'IC Review' },
-  { id: 'closing', label: 'Closing' },
-];
-
-export function PipelineDealCard({ company, onDragStart, onMoveStage }: PipelineDealCardProps) {
+export function PipelineDealCard({
+  company,
+  stage: currentStage,
+  stages,
+  onDragStart,
+  onMoveStage,
+  onCloseDeal,
+}: PipelineDealCardProps) {
   const navigate = useNavigate();
 
   // Calculate EV and multiple
@@ -88,16 +91,22 @@ export function PipelineDealCard({ company, onDragStart, onMoveStage }: Pipeline
                 Move Stage
               </DropdownMenuSubTrigger>
               <DropdownMenuSubContent>
-                {STAGES.filter((s) => s.id !== company.pipeline_stage).map((stage) => (
+                {stages.filter((s) => s.id !== currentStage).map((stage) => (
                   <DropdownMenuItem
                     key={stage.id}
                     onClick={() => onMoveStage?.(company.id, stage.id)}
                   >
-                    {stage.label}
+                    {stage.title}
                   </DropdownMenuItem>
                 ))}
               </DropdownMenuSubContent>
             </DropdownMenuSub>
+            {onCloseDeal && (
+              <DropdownMenuItem onClick={() => onCloseDeal(company)}>
+                <Flag className="h-4 w-4 mr-2" />
+                Close Deal…
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
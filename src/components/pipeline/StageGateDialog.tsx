@@ -0,0 +1,71 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Lock, XCircle } from 'lucide-react';
+import { PipelineStage, StageTransitionCheck } from '@/services/pipelineStageService';
+
+export interface BlockedStageMove {
+  companyId: string;
+  companyName: string;
+  targetStage: PipelineStage;
+  check: StageTransitionCheck;
+}
+
+interface StageGateDialogProps {
+  blockedMove: BlockedStageMove | null;
+  onOpenChange: (open: boolean) => void;
+  onOpenDataRoom: (companyId: string) => void;
+}
+
+export function StageGateDialog({ blockedMove, onOpenChange, onOpenDataRoom }: StageGateDialogProps) {
+  return (
+    <AlertDialog open={!!blockedMove} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5 text-amber-400" />
+            Can't move to {blockedMove?.targetStage.title}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            "{blockedMove?.companyName}" doesn't meet the stage requirements yet.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          {blockedMove?.check.blocked.map(({ stage, failures }) => (
+            <div key={stage.id}>
+              <h4 className="text-sm font-medium text-foreground mb-2">{stage.title} requires</h4>
+              <ul className="space-y-2">
+                {failures.map((failure, i) => (
+                  <li key={i} className="flex items-start gap-2 text-sm">
+                    <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-foreground">{failure.label}</p>
+                      {failure.detail && <p className="text-xs text-muted-foreground">{failure.detail}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Close</AlertDialogCancel>
+          {blockedMove && (
+            <AlertDialogAction onClick={() => onOpenDataRoom(blockedMove.companyId)}>
+              Open Data Room
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
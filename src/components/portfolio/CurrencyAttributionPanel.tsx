@@ -0,0 +1,292 @@
+// Currency Attribution Panel - Base-currency returns split into local-asset return and currency effect, with hedged views
+import { useMemo, useState } from 'react';
+import { format, subMonths, subYears } from 'date-fns';
+import { AlertTriangle, Coins, Loader2 } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useFxRates } from '@/hooks/useForexCommodities';
+import { useCurrencyAttribution } from '@/hooks/useCurrency';
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney } from '@/services/fxService';
+import type { HedgeSettings } from '@/services/currencyAttributionService';
+import type { SyncedPosition } from '@/types/positions';
+
+interface CurrencyAttributionPanelProps {
+  positions: SyncedPosition[];
+  baseCurrency: string;
+  onBaseCurrencyChange?: (currency: string) => void;
+}
+
+const PERIODS = [
+  { value: '3m', label: '3 months', start: (d: Date) => subMonths(d, 3) },
+  { value: '6m', label: '6 months', start: (d: Date) => subMonths(d, 6) },
+  { value: '1y', label: '1 year', start: (d: Date) => subYears(d, 1) },
+  { value: '3y', label: '3 years', start: (d: Date) => subYears(d, 3) },
+];
+
+const HEDGE_RATIOS = [
+  { value: '0', label: 'Unhedged' },
+  { value: '0.5', label: '50% hedged' },
+  { value: '1', label: 'Fully hedged' },
+];
+
+const SERIES = [
+  { key: 'baseReturn', label: 'In base currency', color: 'hsl(var(--primary))' },
+  { key: 'localReturn', label: 'Local assets', color: 'hsl(var(--muted-foreground))' },
+  { key: 'hedgedReturn', label: 'Hedged', color: '#10b981' },
+] as const;
+
+const pct = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+const weightPct = (value: number) => `${(value * 100).toFixed(1)}%`;
+const tone = (value: number) => (value > 0 ? 'text-emerald-500' : value < 0 ? 'text-rose-500' : '');
+
+export function CurrencyAttributionPanel({ positions, baseCurrency, onBaseCurrencyChange }: CurrencyAttributionPanelProps) {
+  const [period, setPeriod] = useState('1y');
+  const [hedgeRatio, setHedgeRatio] = useState('0');
+  const [hedgeCost, setHedgeCost] = useState(0);
+
+  const needsFx = positions.some(p => (p.currency || DEFAULT_CURRENCY) !== baseCurrency);
+  const { rates: spotRates } = useFxRates({ enabled: needsFx });
+
+  // Current base-currency weights; the period's returns are attributed at these weights
+  const holdings = useMemo(() => {
+    const valued = positions
+      .map(p => {
+        const currency = p.currency || DEFAULT_CURRENCY;
+        const local = p.current_value ?? p.quantity * (p.current_price ?? 0);
+        const rate = currency === baseCurrency ? 1 : spotRates?.rate(currency, baseCurrency) ?? null;
+        return { symbol: p.symbol.toUpperCase(), currency, value: rate === null ? 0 : local * rate };
+      })
+      .filter(h => h.value > 0);
+    const total = valued.reduce((sum, h) => sum + h.value, 0);
+    return valued.map(h => ({ symbol: h.symbol, currency: h.currency, weight: h.value / total }));
+  }, [positions, baseCurrency, spotRates]);
+
+  const { startDate, endDate } = useMemo(() => {
+    const today = new Date();
+    const start = PERIODS.find(p => p.value === period)?.start(today) ?? subYears(today, 1);
+    return { startDate: format(start, 'yyyy-MM-dd'), endDate: format(today, 'yyyy-MM-dd') };
+  }, [period]);
+
+  const hedge = useMemo<HedgeSettings>(
+    () => ({ ratio: Number(hedgeRatio), annualCost: hedgeCost / 100 }),
+    [hedgeRatio, hedgeCost]
+  );
+
+  const { attribution, isLoading, error } = useCurrencyAttribution({
+    holdings,
+    baseCurrency,
+    startDate,
+    endDate,
+    hedge,
+    enabled: !needsFx || !!spotRates,
+  });
+
+  const chartData = useMemo(
+    () =>
+      (attribution?.cumulative ?? []).map(p => ({
+        date: format(new Date(`${p.date}T00:00:00`), 'MMM d'),
+        baseReturn: p.baseReturn * 100,
+        localReturn: p.localReturn * 100,
+        hedgedReturn: p.hedgedReturn * 100,
+      })),
+    [attribution]
+  );
+
+  const hasForeign = attribution?.exposures.some(e => e.currency !== baseCurrency) ?? false;
+  const positionValue = positions.reduce((sum, p) => {
+    const currency = p.currency || DEFAULT_CURRENCY;
+    const rate = currency === baseCurrency ? 1 : spotRates?.rate(currency, baseCurrency) ?? 0;
+    return sum + (p.current_value ?? p.quantity * (p.current_price ?? 0)) * rate;
+  }, 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Coins className="h-4 w-4 text-primary" />
+          Currency
+        </CardTitle>
+        <CardDescription>
+          Returns in your base currency, split into what the assets did in their own currency and what exchange rates
+          added or took away. The hedged view removes part of the currency effect at the carry cost you enter.
+        </CardDescription>
+        <div className="flex flex-wrap items-end gap-3 pt-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Base currency</Label>
+            <Select value={baseCurrency} onValueChange={v => onBaseCurrencyChange?.(v)} disabled={!onBaseCurrencyChange}>
+              <SelectTrigger className="w-40 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(c => (
+                  <SelectItem key={c.code} value={c.code}>{c.code} · {c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Period</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="w-32 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(p => (
+                  <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Hedge</Label>
+            <Select value={hedgeRatio} onValueChange={setHedgeRatio}>
+              <SelectTrigger className="w-36 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HEDGE_RATIOS.map(h => (
+                  <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Hedge cost % / yr</Label>
+            <Input
+              type="number"
+              step="0.1"
+              className="w-24 h-8"
+              value={hedgeCost}
+              onChange={e => setHedgeCost(Number(e.target.value) || 0)}
+              disabled={hedgeRatio === '0'}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || (needsFx && !spotRates) ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading prices and exchange rates...
+          </div>
+        ) : error ? (
+          <p className="text-xs text-rose-500">{error}</p>
+        ) : !attribution || attribution.daily.length === 0 ? (
+          <p className="text-xs text-muted-foreground py-6 text-center">No price history for these positions over the period.</p>
+        ) : (
+          <>
+            {[...attribution.missingCurrencies, ...attribution.missingSymbols].length > 0 && (
+              <p className="text-xs text-amber-600 flex items-start gap-1.5">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                Left out for lack of data:{' '}
+                {[
+                  ...attribution.missingCurrencies.map(c => `${c} holdings (no ${c}/${baseCurrency} rates)`),
+                  ...attribution.missingSymbols,
+                ].join(', ')}
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-muted-foreground">Exposure</span>
+              {attribution.exposures.map(e => (
+                <Badge key={e.currency} variant={e.currency === baseCurrency ? 'secondary' : 'outline'}>
+                  {e.currency} {weightPct(e.weight)}
+                </Badge>
+              ))}
+              <span className="text-muted-foreground">· {formatMoney(positionValue, baseCurrency)} at today's rates</span>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              {[
+                ['Local assets', attribution.totals.localReturn],
+                ['Currency effect', attribution.totals.currencyEffect],
+                [`Total in ${baseCurrency}`, attribution.totals.baseReturn],
+                ['Hedged', attribution.totals.hedgedReturn],
+              ].map(([label, value]) => (
+                <div key={label} className="p-3 rounded-lg bg-muted/30 border border-border/50">
+                  <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">{label}</div>
+                  <div className={cn('font-bold tabular-nums', tone(value as number))}>{pct(value as number)}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted/30" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                  <YAxis tickFormatter={v => `${v.toFixed(0)}%`} tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={50} />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [
+                      `${value > 0 ? '+' : ''}${value.toFixed(2)}%`,
+                      SERIES.find(s => s.key === name)?.label ?? name,
+                    ]}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                  />
+                  <Legend
+                    formatter={value => (
+                      <span className="text-xs text-muted-foreground">{SERIES.find(s => s.key === value)?.label ?? value}</span>
+                    )}
+                  />
+                  {SERIES.filter(s => s.key !== 'hedgedReturn' || (hasForeign && hedgeRatio !== '0')).map(s => (
+                    <Line
+                      key={s.key}
+                      type="monotone"
+                      dataKey={s.key}
+                      name={s.key}
+                      stroke={s.color}
+                      strokeWidth={s.key === 'baseReturn' ? 2.5 : 1.5}
+                      strokeDasharray={s.key === 'localReturn' ? '5 5' : undefined}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">Weight</TableHead>
+                  <TableHead className="text-right">Local return</TableHead>
+                  <TableHead className="text-right">FX move</TableHead>
+                  <TableHead className="text-right">Currency effect</TableHead>
+                  <TableHead className="text-right">In {baseCurrency}</TableHead>
+                  <TableHead className="text-right">Hedged</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attribution.holdings.map(h => (
+                  <TableRow key={h.symbol}>
+                    <TableCell className="font-mono">{h.symbol}</TableCell>
+                    <TableCell>{h.currency}</TableCell>
+                    <TableCell className="text-right tabular-nums">{weightPct(h.weight)}</TableCell>
+                    <TableCell className={cn('text-right tabular-nums', tone(h.localReturn))}>{pct(h.localReturn)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{h.currency === baseCurrency ? '—' : pct(h.fxReturn)}</TableCell>
+                    <TableCell className={cn('text-right tabular-nums', tone(h.currencyEffect))}>
+                      {h.currency === baseCurrency ? '—' : pct(h.currencyEffect)}
+                    </TableCell>
+                    <TableCell className={cn('text-right tabular-nums', tone(h.baseReturn))}>{pct(h.baseReturn)}</TableCell>
+                    <TableCell className={cn('text-right tabular-nums', tone(h.hedgedReturn))}>{pct(h.hedgedReturn)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,6 +21,7 @@ import { BrokerageConnectionPanel } from './BrokerageConnectionPanel';
 import type { PortfolioAllocation } from '@/types/portfolio';
 import type { PositionFormData } from '@/types/positions';
 import type { UnifiedPosition } from '@/services/unifiedPortfolioService';
+import { DEFAULT_CURRENCY, formatMoney } from '@/services/fxService';
 
 interface SavedPortfolioOption {
   id: string;
@@ -45,6 +46,7 @@ interface EnhancedPortfolioBuilderProps {
   
   // Common
   totalValue?: number;
+  baseCurrency?: string; // Currency totalValue is in
   savedPortfolios?: SavedPortfolioOption[];
   onLoadSavedPortfolio?: (portfolio: SavedPortfolioOption) => void;
   
@@ -61,6 +63,7 @@ export function EnhancedPortfolioBuilder({
   onPositionsImport,
   onBrokerageSync,
   totalValue = 0,
+  baseCurrency = DEFAULT_CURRENCY,
   savedPortfolios = [],
   onLoadSavedPortfolio,
   compact = false,
@@ -197,7 +200,7 @@ export function EnhancedPortfolioBuilder({
             )}
             {totalValue > 0 && (
               <Badge variant="secondary" className="font-mono">
-                ${totalValue.toLocaleString()}
+                {formatMoney(totalValue, baseCurrency)}
               </Badge>
             )}
           </div>
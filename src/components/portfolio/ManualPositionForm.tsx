@@ -19,6 +19,7 @@ import { ASSET_TYPES, type PositionFormData } from '@/types/positions';
 import { cn } from '@/lib/utils';
 import { useBatchQuotes } from '@/hooks/useMarketDataQuery';
 import { format } from 'date-fns';
+import { CURRENCIES, DEFAULT_CURRENCY, inferListingCurrency } from '@/services/fxService';
 
 interface ManualPositionFormProps {
   onSubmit: (data: PositionFormData) => Promise<void>;
@@ -31,6 +32,7 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
   const [quantity, setQuantity] = useState<string>('');
   const [costPerShare, setCostPerShare] = useState<string>('');
   const [assetType, setAssetType] = useState('stock');
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
   const [purchaseDate, setPurchaseDate] = useState<Date | undefined>(new Date());
 
   // Ticker search - use the hook and update its query
@@ -59,9 +61,12 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
   const currentValue = currentQuote?.price ? parsedQuantity * currentQuote.price : null;
   const unrealizedGain = currentValue && totalCostBasis ? currentValue - totalCostBasis : null;
   const unrealizedGainPercent = unrealizedGain && totalCostBasis ? (unrealizedGain / totalCostBasis) * 100 : null;
+  const formatAmount = (value: number) =>
+    value.toLocaleString(undefined, { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
   const handleSelectTicker = useCallback((symbol: string, name: string) => {
     setSelectedTicker({ symbol, name });
+    setCurrency(inferListingCurrency(symbol));
     setSearchQuery('');
   }, []);
 
@@ -75,6 +80,7 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
       cost_per_share: parsedCostPerShare || undefined,
       cost_basis: totalCostBasis || undefined,
       asset_type: assetType,
+      currency,
       purchase_date: purchaseDate ? format(purchaseDate, 'yyyy-MM-dd') : undefined,
     });
 
@@ -83,6 +89,7 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
     setQuantity('');
     setCostPerShare('');
     setAssetType('stock');
+    setCurrency(DEFAULT_CURRENCY);
     setPurchaseDate(new Date());
   };
 
@@ -102,7 +109,7 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
               <p className="font-medium">{selectedTicker.name}</p>
               {currentQuote && (
                 <div className="flex items-center gap-2 text-sm">
-                  <span className="tabular-nums">${currentQuote.price?.toFixed(2)}</span>
+                  <span className="tabular-nums">{formatAmount(currentQuote.price)}</span>
                   <span className={cn(
                     'flex items-center gap-1 tabular-nums',
                     (currentQuote.changePercent || 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'
@@ -193,8 +200,8 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
         </div>
       </div>
 
-      {/* Asset Type & Purchase Date */}
-      <div className="grid grid-cols-2 gap-4">
+      {/* Asset Type, Currency & Purchase Date */}
+      <div className="grid grid-cols-3 gap-4">
         <div className="space-y-2">
           <Label>Asset Type</Label>
           <Select value={assetType} onValueChange={setAssetType}>
@@ -214,6 +221,22 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
           </Select>
         </div>
         
+        <div className="space-y-2">
+          <Label>Currency</Label>
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((c) => (
+                <SelectItem key={c.code} value={c.code}>
+                  {c.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
         <div className="space-y-2">
           <Label className="flex items-center gap-2">
             <CalendarIcon className="h-4 w-4" />
@@ -251,12 +274,12 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
           <div className="grid grid-cols-2 gap-3 text-sm">
             <div>
               <span className="text-muted-foreground">Total Cost Basis</span>
-              <p className="font-mono text-lg">${totalCostBasis.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+              <p className="font-mono text-lg">{formatAmount(totalCostBasis)}</p>
             </div>
             {currentValue !== null && (
               <div>
                 <span className="text-muted-foreground">Current Value</span>
-                <p className="font-mono text-lg">${currentValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                <p className="font-mono text-lg">{formatAmount(currentValue)}</p>
               </div>
             )}
             {unrealizedGain !== null && (
@@ -267,7 +290,7 @@ export function ManualPositionForm({ onSubmit, isSubmitting }: ManualPositionFor
                   unrealizedGain >= 0 ? 'text-emerald-400' : 'text-rose-400'
                 )}>
                   {unrealizedGain >= 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
-                  {unrealizedGain >= 0 ? '+' : ''}${unrealizedGain.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {unrealizedGain >= 0 ? '+' : ''}{formatAmount(unrealizedGain)}
                   <span className="text-sm">
                     ({unrealizedGainPercent! >= 0 ? '+' : ''}{unrealizedGainPercent!.toFixed(2)}%)
                   </span>
@@ -1,5 +1,5 @@
 // Portfolio Analysis Tabs - Brings Portfolio Builder tabs to the Portfolio page
-// Provides Overview, Health, Metrics, Holdings, Data Quality, and Stress Test views
+// Provides Overview, Health, Metrics, Risk, Holdings, Data Quality, and Stress Test views
 
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -31,6 +31,7 @@ import {
   ArrowDownRight,
   Heart,
   LineChart,
+  Scale,
 } from 'lucide-react';
 import { PortfolioGrowthChart } from './PortfolioGrowthChart';
 import { PerformanceSummaryTable } from './PerformanceSummaryTable';
@@ -45,6 +46,7 @@ import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/comp
 import { MetricExplanationCard } from '@/components/shared/MetricExplanationCard';
 import { getCachedQuotes } from '@/services/quoteCacheService';
 import { PortfolioHealthPanel } from './PortfolioHealthPanel';
+import { RiskBudgetPanel } from './RiskBudgetPanel';
 
 // Pie chart colors
 const PIE_COLORS = [
@@ -306,7 +308,7 @@ export function PortfolioAnalysisTabs({
       </CardHeader>
       <CardContent>
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-4 sm:grid-cols-7 h-auto gap-1 p-1 mb-4">
+          <TabsList className="grid w-full grid-cols-4 sm:grid-cols-8 h-auto gap-1 p-1 mb-4">
             <TabsTrigger value="performance" className="gap-1.5 text-xs px-2 py-2 flex-col sm:flex-row">
               <LineChart className="h-4 w-4 sm:h-3.5 sm:w-3.5" />
               <span className="text-[10px] sm:text-xs">Performance</span>
@@ -323,6 +325,10 @@ export function PortfolioAnalysisTabs({
               <Heart className="h-4 w-4 sm:h-3.5 sm:w-3.5" />
               <span className="text-[10px] sm:text-xs">Health</span>
             </TabsTrigger>
+            <TabsTrigger value="risk" className="gap-1.5 text-xs px-2 py-2 flex-col sm:flex-row">
+              <Scale className="h-4 w-4 sm:h-3.5 sm:w-3.5" />
+              <span className="text-[10px] sm:text-xs">Risk</span>
+            </TabsTrigger>
             <TabsTrigger value="holdings" className="gap-1.5 text-xs px-2 py-2 flex-col sm:flex-row">
               <Settings className="h-4 w-4 sm:h-3.5 sm:w-3.5" />
               <span className="text-[10px] sm:text-xs">Holdings</span>
@@ -528,6 +534,13 @@ export function PortfolioAnalysisTabs({
             </ErrorBoundary>
           </TabsContent>
 
+          {/* Risk Tab - Risk contributions, risk parity, factor decomposition and tracking error */}
+          <TabsContent value="risk" className="mt-0">
+            <ErrorBoundary variant="default">
+              <RiskBudgetPanel allocations={allocations} startDate={startDate} endDate={endDate} />
+            </ErrorBoundary>
+          </TabsContent>
+
           {/* Metrics Tab - Combined metrics overview and detailed explanations */}
           <TabsContent value="metrics" className="mt-0">
             <ErrorBoundary variant="default">
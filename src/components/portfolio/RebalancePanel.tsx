@@ -0,0 +1,334 @@
+// Rebalance Panel - Trade list and projected allocation that bring synced positions back to the target allocation
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ArrowLeftRight, AlertTriangle, CalendarCheck, Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useTaxLots } from '@/hooks/useTaxLots';
+import { getCachedQuotes } from '@/services/quoteCacheService';
+import { DEFAULT_TAX_RATES } from '@/services/taxLotService';
+import {
+  exportTradeList,
+  holdingsFromPositions,
+  planRebalance,
+  REBALANCE_FREQUENCIES,
+  REBALANCE_LOT_METHODS,
+  REBALANCE_REASON_LABELS,
+  RebalanceLotMethod,
+  rebalancingRulesFromProfile,
+} from '@/services/rebalancingService';
+import type { SyncedPosition } from '@/types/positions';
+
+interface RebalancePanelProps {
+  portfolioId: string | null;
+  portfolioName?: string;
+  allocations: { symbol: string; weight: number }[];
+  positions: SyncedPosition[];
+  investorProfile?: unknown;
+}
+
+const LAST_REBALANCED_KEY = 'rebalance-last-date';
+
+const currency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+const shares = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+const pct = (value: number) => `${value.toFixed(1)}%`;
+const signedPct = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}pp`;
+const day = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy');
+
+function NumberField({ label, value, onChange, className }: { label: string; value: number; onChange: (value: number) => void; className?: string }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input type="number" className={cn('w-28 h-8', className)} value={value} onChange={e => onChange(Number(e.target.value) || 0)} />
+    </div>
+  );
+}
+
+export function RebalancePanel({ portfolioId, portfolioName, allocations, positions, investorProfile }: RebalancePanelProps) {
+  const policyRules = useMemo(() => rebalancingRulesFromProfile(investorProfile), [investorProfile]);
+  const [frequency, setFrequency] = useState(policyRules.frequency);
+  const [threshold, setThreshold] = useState(policyRules.threshold);
+  const [cashBalance, setCashBalance] = useState(0);
+  const [cashFlow, setCashFlow] = useState(0);
+  const [minTradeValue, setMinTradeValue] = useState(100);
+  const [wholeShares, setWholeShares] = useState(true);
+  const [lotMethod, setLotMethod] = useState<RebalanceLotMethod>('tax_min');
+  const [force, setForce] = useState(false);
+
+  const storageKey = `${LAST_REBALANCED_KEY}-${portfolioId ?? 'default'}`;
+  const [lastRebalanced, setLastRebalanced] = useState<string | null>(() => localStorage.getItem(storageKey));
+
+  const { ledger } = useTaxLots();
+
+  const symbols = useMemo(
+    () => [...new Set([...allocations.map(a => a.symbol), ...positions.map(p => p.symbol.toUpperCase())])].sort(),
+    [allocations, positions]
+  );
+
+  const { data: quotes, isLoading: quotesLoading } = useQuery({
+    queryKey: ['rebalance-quotes', symbols],
+    queryFn: () => getCachedQuotes(symbols),
+    enabled: symbols.length > 0,
+    staleTime: 60 * 1000,
+  });
+
+  const prices = useMemo(() => {
+    const map = new Map<string, number>();
+    positions.forEach(p => {
+      if (p.current_price) map.set(p.symbol.toUpperCase(), p.current_price);
+    });
+    quotes?.forEach((quote, symbol) => {
+      if (quote.price > 0) map.set(symbol, quote.price);
+    });
+    return map;
+  }, [positions, quotes]);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const { plan, error } = useMemo(() => {
+    try {
+      return {
+        plan: planRebalance(allocations, holdingsFromPositions(positions, ledger.openLots), prices, {
+          rules: { frequency, threshold },
+          asOf: today,
+          lastRebalanced,
+          cashBalance,
+          cashFlow,
+          minTradeValue,
+          wholeShares,
+          lotMethod,
+          taxRates: DEFAULT_TAX_RATES,
+          force,
+        }),
+        error: null,
+      };
+    } catch (e) {
+      return { plan: null, error: e instanceof Error ? e.message : 'Could not plan the rebalance' };
+    }
+  }, [allocations, positions, ledger, prices, frequency, threshold, today, lastRebalanced, cashBalance, cashFlow, minTradeValue, wholeShares, lotMethod, force]);
+
+  const markRebalanced = () => {
+    localStorage.setItem(storageKey, today);
+    setLastRebalanced(today);
+    setForce(false);
+    toast.success('Rebalance recorded; the next scheduled date has moved');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-sm flex items-center gap-2">
+              <ArrowLeftRight className="h-4 w-4 text-primary" />
+              Rebalance
+            </CardTitle>
+            <CardDescription>
+              Trades that bring your positions back to the target allocation. Deposits and withdrawals are used first;
+              a full rebalance runs when the schedule is due or a position drifts outside its band.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="gap-1.5" onClick={markRebalanced} disabled={!plan || plan.trades.length === 0}>
+              <CalendarCheck className="h-3.5 w-3.5" />
+              Mark executed
+            </Button>
+            <Button
+              size="sm"
+              className="gap-1.5"
+              onClick={() => plan && exportTradeList(portfolioName || 'Portfolio', plan)}
+              disabled={!plan || plan.trades.length === 0}
+            >
+              <Download className="h-3.5 w-3.5" />
+              Export trades
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 pt-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Schedule</Label>
+            <Select value={frequency} onValueChange={setFrequency}>
+              <SelectTrigger className="w-36 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REBALANCE_FREQUENCIES.map(f => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+                {!REBALANCE_FREQUENCIES.some(f => f.value === frequency) && <SelectItem value={frequency}>{frequency}</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+          <NumberField label="Band ± pp" value={threshold} onChange={v => setThreshold(Math.max(v, 0))} className="w-20" />
+          <NumberField label="Cash on hand" value={cashBalance} onChange={v => setCashBalance(Math.max(v, 0))} />
+          <NumberField label="Deposit / withdraw" value={cashFlow} onChange={setCashFlow} />
+          <NumberField label="Min trade $" value={minTradeValue} onChange={v => setMinTradeValue(Math.max(v, 0))} className="w-24" />
+          <div className="space-y-1">
+            <Label className="text-xs">Lots to sell</Label>
+            <Select value={lotMethod} onValueChange={v => setLotMethod(v as RebalanceLotMethod)}>
+              <SelectTrigger className="w-36 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REBALANCE_LOT_METHODS.map(m => (
+                  <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 h-8">
+            <Switch id="rebalance-whole-shares" checked={wholeShares} onCheckedChange={setWholeShares} />
+            <Label htmlFor="rebalance-whole-shares" className="text-xs">Whole shares</Label>
+          </div>
+          <div className="flex items-center gap-2 h-8">
+            <Switch id="rebalance-force" checked={force} onCheckedChange={setForce} />
+            <Label htmlFor="rebalance-force" className="text-xs">Rebalance now</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {quotesLoading && prices.size < symbols.length ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading prices...
+          </div>
+        ) : error || !plan ? (
+          <p className="text-xs text-rose-500">{error}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <Badge variant={plan.trigger.reason ? 'default' : 'secondary'}>
+                {plan.trigger.reason ? REBALANCE_REASON_LABELS[plan.trigger.reason] : 'Within policy — no trades due'}
+              </Badge>
+              <span className="text-muted-foreground">Max drift {pct(plan.trigger.maxDrift)}</span>
+              {plan.trigger.nextCalendarDate && (
+                <span className="text-muted-foreground">
+                  · Next scheduled {plan.trigger.calendarDue ? 'now' : day(plan.trigger.nextCalendarDate)}
+                </span>
+              )}
+              {lastRebalanced && <span className="text-muted-foreground">· Last rebalanced {day(lastRebalanced)}</span>}
+              {plan.trigger.outsideBand.length > 0 && (
+                <span className="text-amber-600">· Outside band: {plan.trigger.outsideBand.join(', ')}</span>
+              )}
+            </div>
+
+            {plan.warnings.map(warning => (
+              <p key={warning} className="text-xs text-amber-600 flex items-start gap-1.5">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                {warning}
+              </p>
+            ))}
+
+            {plan.trades.length > 0 && (
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-sm">
+                {[
+                  ['Sells', currency(plan.sellValue)],
+                  ['Buys', currency(plan.buyValue)],
+                  ['Cash after', currency(plan.cashAfter)],
+                  ['Turnover', pct(plan.turnover * 100)],
+                  ['Estimated tax', currency(plan.estimatedTax)],
+                ].map(([label, value]) => (
+                  <div key={label} className="p-3 rounded-lg bg-muted/30 border border-border/50">
+                    <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">{label}</div>
+                    <div className="font-bold tabular-nums">{value}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {plan.trades.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Lots</TableHead>
+                    <TableHead className="text-right">Gain</TableHead>
+                    <TableHead className="text-right">Est. tax</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.trades.map(t => (
+                    <TableRow key={`${t.action}-${t.symbol}`}>
+                      <TableCell>
+                        <Badge variant="outline" className={t.action === 'buy' ? 'text-emerald-500' : 'text-rose-500'}>
+                          {t.action.toUpperCase()}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-mono">{t.symbol}</TableCell>
+                      <TableCell className="text-right tabular-nums">{shares(t.shares)}</TableCell>
+                      <TableCell className="text-right tabular-nums">${t.price.toFixed(2)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{currency(t.value)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {t.lots.map(l => `${shares(l.shares)} @ $${l.costPerShare.toFixed(2)} (${l.term === 'long' ? 'LT' : 'ST'})`).join(', ')}
+                      </TableCell>
+                      <TableCell
+                        className={cn('text-right tabular-nums', t.realizedGain > 0 ? 'text-emerald-500' : t.realizedGain < 0 ? 'text-rose-500' : '')}
+                      >
+                        {t.action === 'sell' ? currency(t.realizedGain) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{t.action === 'sell' ? currency(t.estimatedTax) : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {plan.skipped.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Below the minimum trade size, skipped: {plan.skipped.map(s => `${s.action} ${s.symbol} ${currency(s.value)}`).join(', ')}
+              </p>
+            )}
+
+            <div>
+              <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Projected allocation</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">Target</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Drift</TableHead>
+                    <TableHead className="text-right">Shares after</TableHead>
+                    <TableHead className="text-right">Value after</TableHead>
+                    <TableHead className="text-right">Weight after</TableHead>
+                    <TableHead className="text-right">Drift after</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.allocation.map(a => (
+                    <TableRow key={a.symbol}>
+                      <TableCell className="font-mono">{a.symbol}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(a.targetWeight)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(a.currentWeight)}</TableCell>
+                      <TableCell className={cn('text-right tabular-nums', Math.abs(a.currentDrift) > threshold && threshold > 0 && 'text-amber-600')}>
+                        {signedPct(a.currentDrift)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{shares(a.projectedShares)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{currency(a.projectedValue)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(a.projectedWeight)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{signedPct(a.projectedDrift)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+// Risk Budget Panel - Where portfolio risk comes from: position contributions, risk parity, factors and tracking error
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, AlertTriangle, Scale, Layers, Crosshair } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { marketDataService } from '@/services/hybridMarketDataService';
+import {
+  analyzePortfolioRisk,
+  BENCHMARK_OPTIONS,
+  FACTOR_PROXIES,
+  FACTOR_TICKERS,
+} from '@/services/riskBudgetingService';
+
+interface RiskBudgetPanelProps {
+  allocations: { symbol: string; weight: number }[];
+  startDate: string;
+  endDate: string;
+}
+
+const pct = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+const signedPct = (value: number, digits = 1) => `${value >= 0 ? '+' : ''}${pct(value, digits)}`;
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 border border-border/50">
+      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">{label}</div>
+      <div className="font-bold tabular-nums text-lg">{value}</div>
+      {hint && <div className="text-[10px] text-muted-foreground mt-0.5">{hint}</div>}
+    </div>
+  );
+}
+
+export function RiskBudgetPanel({ allocations, startDate, endDate }: RiskBudgetPanelProps) {
+  const [benchmark, setBenchmark] = useState('SPY');
+
+  const weights = useMemo(
+    () =>
+      new Map(
+        allocations.map(a => [a.symbol.toUpperCase(), a.weight > 1 ? a.weight / 100 : a.weight] as const)
+      ),
+    [allocations]
+  );
+  const tickers = useMemo(
+    () => [...new Set([...weights.keys(), ...FACTOR_TICKERS, ...BENCHMARK_OPTIONS])].sort(),
+    [weights]
+  );
+
+  const { data: returnsByDate, isLoading, error: fetchError } = useQuery({
+    queryKey: ['risk-budget-returns', tickers, startDate, endDate],
+    queryFn: async () => {
+      const data = await marketDataService.getTickersData(tickers, { startDate, endDate });
+      const series = new Map<string, Map<string, number>>();
+      data.forEach((tickerData, ticker) => {
+        const byDate = new Map<string, number>();
+        tickerData.bars.forEach(bar => {
+          if (bar.dailyReturn !== undefined) byDate.set(bar.date, bar.dailyReturn);
+        });
+        if (byDate.size > 0) series.set(ticker, byDate);
+      });
+      return series;
+    },
+    enabled: weights.size > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const analysis = useMemo(() => {
+    if (!returnsByDate) return null;
+    try {
+      return { report: analyzePortfolioRisk(weights, returnsByDate, benchmark), error: null };
+    } catch (err) {
+      return { report: null, error: err instanceof Error ? err.message : 'Risk analysis failed' };
+    }
+  }, [weights, returnsByDate, benchmark]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-8">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        <span>Loading position, factor and benchmark history...</span>
+      </div>
+    );
+  }
+
+  const error = fetchError instanceof Error ? fetchError.message : analysis?.error;
+  if (error || !analysis?.report) {
+    return (
+      <div className="text-center py-8">
+        <AlertTriangle className="h-10 w-10 mx-auto mb-3 text-amber-500" />
+        <p className="text-sm text-muted-foreground">{error || 'No return history available for risk analysis'}</p>
+      </div>
+    );
+  }
+
+  const { report } = analysis;
+  const parityWeights = new Map<string, number>(report.riskParity.positions.map(p => [p.symbol, p.weight]));
+  const factors = report.factors;
+  const tracking = report.trackingError;
+
+  return (
+    <div className="space-y-6">
+      {/* Position risk contributions */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Scale className="h-4 w-4 text-primary" />
+            Risk Contributions
+          </CardTitle>
+          <CardDescription>
+            Each position's share of {pct(report.contributions.volatility)} annualized volatility over{' '}
+            {report.observations} trading days ({report.startDate} to {report.endDate}), next to the
+            equal-risk-contribution weights that would give every position the same share.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Position</TableHead>
+                <TableHead className="text-right">Weight</TableHead>
+                <TableHead className="text-right">Marginal</TableHead>
+                <TableHead className="text-right">Contribution</TableHead>
+                <TableHead className="text-right">Share of risk</TableHead>
+                <TableHead className="text-right">Risk parity weight</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.contributions.positions.map(p => {
+                const overBudget = p.percent - p.weight;
+                return (
+                  <TableRow key={p.symbol}>
+                    <TableCell className="font-mono">{p.symbol}</TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(p.weight)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(p.marginal)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(p.component, 2)}</TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right tabular-nums',
+                        overBudget > 0.05 ? 'text-rose-500' : overBudget < -0.05 ? 'text-emerald-500' : ''
+                      )}
+                    >
+                      {pct(p.percent)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(parityWeights.get(p.symbol) ?? 0)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground mt-3">
+            Risk parity volatility: {pct(report.riskParity.volatility)}. Red shares carry more risk than their weight.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Factor decomposition */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Layers className="h-4 w-4 text-primary" />
+            Factor Decomposition
+          </CardTitle>
+          <CardDescription>
+            Daily portfolio returns regressed on ETF proxies for market, size, value, momentum, rates and credit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {report.factorError && <p className="text-xs text-amber-600">{report.factorError}</p>}
+          {factors && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <Stat label="R²" value={factors.rSquared.toFixed(2)} hint={`${factors.observations} days`} />
+                <Stat label="Systematic" value={pct(factors.systematicVariance / factors.totalVariance)} hint="of variance" />
+                <Stat label="Idiosyncratic" value={pct(factors.idiosyncraticVariance / factors.totalVariance)} hint="of variance" />
+                <Stat label="Alpha" value={signedPct(factors.alpha, 2)} hint="annualized" />
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Factor</TableHead>
+                    <TableHead>Proxy</TableHead>
+                    <TableHead className="text-right">Beta</TableHead>
+                    <TableHead className="text-right">t-stat</TableHead>
+                    <TableHead className="text-right">Share of variance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {factors.exposures.map(e => {
+                    const proxy = FACTOR_PROXIES.find(p => p.factor === e.factor);
+                    return (
+                      <TableRow key={e.factor}>
+                        <TableCell className="font-medium">{proxy?.label ?? e.factor}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{proxy?.description}</TableCell>
+                        <TableCell className="text-right tabular-nums">{e.beta.toFixed(2)}</TableCell>
+                        <TableCell className={cn('text-right tabular-nums', Math.abs(e.tStat) < 2 && 'text-muted-foreground')}>
+                          {e.tStat.toFixed(1)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{pct(e.percent)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {factors.omitted.map(o => (
+                <p key={o.factor} className="text-xs text-amber-600">
+                  {FACTOR_PROXIES.find(p => p.factor === o.factor)?.label ?? o.factor} factor omitted: {o.reason}
+                </p>
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Tracking error */}
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <CardTitle className="text-sm flex items-center gap-2">
+                <Crosshair className="h-4 w-4 text-primary" />
+                Tracking Error
+              </CardTitle>
+              <CardDescription>Active risk against a benchmark ETF.</CardDescription>
+            </div>
+            <Select value={benchmark} onValueChange={setBenchmark}>
+              <SelectTrigger className="w-28 font-mono">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BENCHMARK_OPTIONS.map(b => (
+                  <SelectItem key={b} value={b}>{b}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {report.trackingErrorMessage && <p className="text-xs text-amber-600">{report.trackingErrorMessage}</p>}
+          {tracking && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <Stat label="Tracking error" value={pct(tracking.trackingError, 2)} hint="annualized" />
+                <Stat label="Active return" value={signedPct(tracking.activeReturn, 2)} hint="annualized" />
+                <Stat label="Information ratio" value={tracking.informationRatio.toFixed(2)} />
+                <Stat label="Beta" value={tracking.beta.toFixed(2)} hint={`ρ = ${tracking.correlation.toFixed(2)}`} />
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Leg</TableHead>
+                    <TableHead className="text-right">Contribution</TableHead>
+                    <TableHead className="text-right">Share of active risk</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tracking.contributions.map(c => (
+                    <TableRow key={c.symbol}>
+                      <TableCell className="font-mono">{c.symbol}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(c.component, 2)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{pct(c.percent)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-mono">
+                      {tracking.benchmark} <Badge variant="outline" className="ml-1 text-[10px]">benchmark</Badge>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(tracking.benchmarkContribution.component, 2)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{pct(tracking.benchmarkContribution.percent)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+// Tax Lot Panel - Realized and unrealized short/long-term gains, wash sales and tax-loss harvesting ideas
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Receipt, AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useTaxLots } from '@/hooks/useTaxLots';
+import {
+  DEFAULT_TAX_RATES,
+  harvestingCandidates,
+  LOT_RELIEF_METHODS,
+  LotReliefMethod,
+  realizedGainsReport,
+  taxYears,
+  unrealizedGains,
+} from '@/services/taxLotService';
+
+const currency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+const shares = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+const day = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy');
+
+function GainCell({ value }: { value: number }) {
+  return (
+    <TableCell className={cn('text-right tabular-nums', value > 0 ? 'text-emerald-500' : value < 0 ? 'text-rose-500' : '')}>
+      {currency(value)}
+    </TableCell>
+  );
+}
+
+function Stat({ label, value, tone }: { label: string; value: number; tone?: boolean }) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 border border-border/50">
+      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">{label}</div>
+      <div
+        className={cn(
+          'font-bold tabular-nums text-lg',
+          tone && (value > 0 ? 'text-emerald-500' : value < 0 ? 'text-rose-500' : '')
+        )}
+      >
+        {currency(value)}
+      </div>
+    </div>
+  );
+}
+
+export function TaxLotPanel() {
+  const [method, setMethod] = useState<LotReliefMethod>('fifo');
+  const [rates, setRates] = useState(DEFAULT_TAX_RATES);
+  const { ledger, prices, transactions, isLoading, error, refetch } = useTaxLots(method);
+
+  const years = useMemo(() => taxYears(ledger), [ledger]);
+  const currentYear = new Date().getFullYear();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const taxYear = selectedYear ?? years[0] ?? currentYear;
+
+  const today = new Date().toISOString().split('T')[0];
+  const realized = useMemo(() => realizedGainsReport(ledger, taxYear, rates), [ledger, taxYear, rates]);
+  const unrealized = useMemo(() => unrealizedGains(ledger.openLots, prices, today), [ledger, prices, today]);
+  const harvest = useMemo(() => harvestingCandidates(ledger, prices, today, { rates }), [ledger, prices, today, rates]);
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-8">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading transactions...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (transactions.length === 0 && !error) return null;
+
+  const setRate = (key: 'shortTerm' | 'longTerm', value: string) =>
+    setRates(r => ({ ...r, [key]: Math.min(Math.max((Number(value) || 0) / 100, 0), 1) }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Receipt className="h-4 w-4 text-primary" />
+              Tax Lots
+            </CardTitle>
+            <CardDescription>
+              Lots replayed from your recorded buys, sells, splits and transfers. Sales without a recorded method use
+              the default below.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={refetch} className="gap-1.5">
+            <RefreshCw className="h-3.5 w-3.5" />
+            Refresh
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 pt-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Default relief</Label>
+            <Select value={method} onValueChange={v => setMethod(v as LotReliefMethod)}>
+              <SelectTrigger className="w-32 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOT_RELIEF_METHODS.filter(m => m.value !== 'specific_id').map(m => (
+                  <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Tax year</Label>
+            <Select value={String(taxYear)} onValueChange={v => setSelectedYear(Number(v))}>
+              <SelectTrigger className="w-24 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(years.length > 0 ? years : [currentYear]).map(y => (
+                  <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Short-term rate %</Label>
+            <Input
+              type="number"
+              className="w-24 h-8"
+              value={Math.round(rates.shortTerm * 1000) / 10}
+              onChange={e => setRate('shortTerm', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Long-term rate %</Label>
+            <Input
+              type="number"
+              className="w-24 h-8"
+              value={Math.round(rates.longTerm * 1000) / 10}
+              onChange={e => setRate('longTerm', e.target.value)}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-xs text-rose-500">{error}</p>}
+        {ledger.issues.map(issue => (
+          <p key={issue} className="text-xs text-amber-600 flex items-start gap-1.5">
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            {issue}
+          </p>
+        ))}
+
+        <Tabs defaultValue="realized">
+          <TabsList className="grid w-full grid-cols-4 mb-4">
+            <TabsTrigger value="realized" className="text-xs">Realized</TabsTrigger>
+            <TabsTrigger value="unrealized" className="text-xs">Unrealized</TabsTrigger>
+            <TabsTrigger value="wash-sales" className="text-xs">
+              Wash Sales{ledger.washSales.length > 0 && ` (${ledger.washSales.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="harvest" className="text-xs">Harvest</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="realized" className="mt-0 space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label="Short-term" value={realized.shortTerm.reportableGain} tone />
+              <Stat label="Long-term" value={realized.longTerm.reportableGain} tone />
+              <Stat label="Wash-sale disallowed" value={realized.shortTerm.disallowedLoss + realized.longTerm.disallowedLoss} />
+              <Stat label="Estimated tax" value={realized.estimatedTax} />
+            </div>
+            {realized.lots.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Acquired</TableHead>
+                    <TableHead>Sold</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Proceeds</TableHead>
+                    <TableHead className="text-right">Cost basis</TableHead>
+                    <TableHead className="text-right">Gain</TableHead>
+                    <TableHead className="text-right">Disallowed</TableHead>
+                    <TableHead>Term</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {realized.lots.map(r => (
+                    <TableRow key={`${r.saleId}-${r.lotId}`}>
+                      <TableCell className="font-mono">{r.symbol}</TableCell>
+                      <TableCell className="tabular-nums">{day(r.acquiredDate)}</TableCell>
+                      <TableCell className="tabular-nums">{day(r.saleDate)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{shares(r.shares)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{currency(r.proceeds)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{currency(r.costBasis)}</TableCell>
+                      <GainCell value={r.gain} />
+                      <TableCell className="text-right tabular-nums">{r.disallowedLoss > 0 ? currency(r.disallowedLoss) : '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-[10px]">{r.term === 'long' ? 'Long' : 'Short'}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">No sales in {taxYear}</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="unrealized" className="mt-0 space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label="Short-term" value={unrealized.shortTerm.gain} tone />
+              <Stat label="Long-term" value={unrealized.longTerm.gain} tone />
+              <Stat label="Cost basis" value={unrealized.shortTerm.costBasis + unrealized.longTerm.costBasis} />
+              <Stat label="Market value" value={unrealized.shortTerm.marketValue + unrealized.longTerm.marketValue} />
+            </div>
+            {unrealized.missingPrices.length > 0 && (
+              <p className="text-xs text-amber-600">No current price for {unrealized.missingPrices.join(', ')}</p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Held since</TableHead>
+                  <TableHead className="text-right">Shares</TableHead>
+                  <TableHead className="text-right">Cost / share</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Gain</TableHead>
+                  <TableHead>Term</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unrealized.lots.map(lot => (
+                  <TableRow key={lot.id}>
+                    <TableCell className="font-mono">
+                      {lot.symbol}
+                      {lot.washSaleAdjustment > 0 && (
+                        <Badge variant="outline" className="ml-1.5 text-[10px]">wash adj.</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="tabular-nums">{day(lot.holdingPeriodStart)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{shares(lot.shares)}</TableCell>
+                    <TableCell className="text-right tabular-nums">${lot.costPerShare.toFixed(2)}</TableCell>
+                    <TableCell className="text-right tabular-nums">${lot.price.toFixed(2)}</TableCell>
+                    <GainCell value={lot.gain} />
+                    <TableCell>
+                      <Badge variant="outline" className="text-[10px]">{lot.term === 'long' ? 'Long' : 'Short'}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="wash-sales" className="mt-0">
+            {ledger.washSales.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Loss sale</TableHead>
+                    <TableHead>Replacement bought</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Disallowed loss</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger.washSales.map(w => (
+                    <TableRow key={`${w.saleId}-${w.soldLotId}-${w.replacementLotId}`}>
+                      <TableCell className="font-mono">{w.symbol}</TableCell>
+                      <TableCell className="tabular-nums">{day(w.saleDate)}</TableCell>
+                      <TableCell className="tabular-nums">{day(w.replacementDate)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{shares(w.shares)}</TableCell>
+                      <TableCell className="text-right tabular-nums text-rose-500">{currency(w.disallowedLoss)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No losses were sold within 30 days of buying the same security
+              </p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="harvest" className="mt-0">
+            {harvest.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Short-term loss</TableHead>
+                    <TableHead className="text-right">Long-term loss</TableHead>
+                    <TableHead className="text-right">Tax saved</TableHead>
+                    <TableHead>Substitutes</TableHead>
+                    <TableHead>Timing</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {harvest.map(c => (
+                    <TableRow key={c.symbol}>
+                      <TableCell className="font-mono">{c.symbol}</TableCell>
+                      <TableCell className="text-right tabular-nums">{shares(c.shares)}</TableCell>
+                      <GainCell value={c.shortTermLoss} />
+                      <GainCell value={c.longTermLoss} />
+                      <TableCell className="text-right tabular-nums font-medium">{currency(c.taxSavings)}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {c.substitutes.length > 0 ? c.substitutes.join(', ') : <span className="text-muted-foreground">None on file</span>}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {c.blockedUntil ? (
+                          <span className="text-amber-600">Recent buy would wash it; wait until {day(c.blockedUntil)}</span>
+                        ) : (
+                          <span className="text-muted-foreground">Don't rebuy {c.symbol} before {day(c.repurchaseAfter)}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">No lots with a harvestable loss of $100 or more</p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,8 @@ export { CreatePortfolioDialog } from './CreatePortfolioDialog';
 export { PortfolioMetricsPanel } from './PortfolioMetricsPanel';
 export { RealPerformanceChart } from './RealPerformanceChart';
 export { PortfolioAnalysisTabs } from './PortfolioAnalysisTabs';
+export { TaxLotPanel } from './TaxLotPanel';
+export { RebalancePanel } from './RebalancePanel';
 export { EnhancedPortfolioBuilder } from './EnhancedPortfolioBuilder';
 export { PortfolioGrowthChart } from './PortfolioGrowthChart';
 export { AnnualReturnsChart } from './AnnualReturnsChart';
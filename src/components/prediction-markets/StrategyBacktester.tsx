@@ -78,6 +78,7 @@ interface BacktestResults {
   trades: Trade[];
   equity_curve: Array<{ date: string; value: number }>;
   category_breakdown: Record<string, { trades: number; pnl: number }>;
+  unsupported_metrics?: string[];
 }
 
 interface Analysis {
@@ -324,6 +325,13 @@ export function StrategyBacktester() {
 
       {results && (
         <>
+          {results.unsupported_metrics && results.unsupported_metrics.length > 0 && (
+            <div className="flex items-center gap-2 rounded-md border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-500">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              No price history for {results.unsupported_metrics.join(', ')}; conditions on these metrics never trigger.
+            </div>
+          )}
+
           {/* Metrics Summary */}
           <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
             <MetricCard
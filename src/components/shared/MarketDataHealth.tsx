@@ -0,0 +1,166 @@
+// MarketDataHealth - Per-provider circuit state, call stats and fallback order for the market data router
+import { ArrowDown, ArrowUp, Activity, RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { useMarketDataHealth } from '@/hooks/useMarketDataHealth';
+import { marketDataRouter, PROVIDER_LABELS, resetProviderOrder, setProviderOrder } from '@/services/marketDataProviders';
+import { MARKET_DATA_CAPABILITIES, type MarketDataCapability, type ProviderHealth, type ProviderId } from '@/services/marketDataRouter';
+
+const STATE_STYLES: Record<ProviderHealth['state'], { dot: string; label: string }> = {
+  closed: { dot: 'bg-emerald-400', label: 'Healthy' },
+  half_open: { dot: 'bg-amber-400', label: 'Recovering' },
+  open: { dot: 'bg-destructive', label: 'Circuit open' },
+};
+
+const CAPABILITY_LABELS: Record<MarketDataCapability, string> = {
+  quote: 'Quotes',
+  bars: 'Daily bars',
+  search: 'Search',
+  profile: 'Profiles',
+};
+
+function dotClass(p: ProviderHealth) {
+  // A provider that has never been called is shown neutral rather than healthy
+  if (p.state === 'closed' && p.calls === 0) return 'bg-muted-foreground';
+  return STATE_STYLES[p.state].dot;
+}
+
+function ProviderSummary({ provider }: { provider: ProviderHealth }) {
+  return (
+    <div className="space-y-0.5 text-xs">
+      <p className="font-medium">
+        {provider.label} · {STATE_STYLES[provider.state].label}
+      </p>
+      <p className="text-muted-foreground">
+        {provider.successes} ok · {provider.empties} empty · {provider.failures} failed
+        {provider.averageLatencyMs !== null && ` · ${Math.round(provider.averageLatencyMs)} ms avg`}
+      </p>
+      {provider.budget && (
+        <p className="text-muted-foreground">
+          {provider.budget.remaining}/{provider.budget.limit} calls left this minute
+          {provider.rateLimited > 0 && ` · ${provider.rateLimited} skipped`}
+        </p>
+      )}
+      {provider.reopensAt && (
+        <p className="text-muted-foreground">Retries {formatDistanceToNow(provider.reopensAt, { addSuffix: true })}</p>
+      )}
+      {provider.lastError && <p className="text-destructive">Last error: {provider.lastError}</p>}
+    </div>
+  );
+}
+
+function OrderEditor({ capability }: { capability: MarketDataCapability }) {
+  const order = marketDataRouter.getOrder(capability);
+  const available = (Object.keys(PROVIDER_LABELS) as ProviderId[]).filter(
+    id => marketDataRouter.supports(id, capability) && !order.includes(id)
+  );
+
+  const move = (index: number, delta: number) => {
+    const next = [...order];
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    setProviderOrder(capability, next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">{CAPABILITY_LABELS[capability]}</p>
+      <div className="flex flex-wrap items-center gap-1">
+        {order.map((id, i) => (
+          <span key={id} className="flex items-center gap-0.5 rounded border border-border px-1.5 py-0.5 text-xs">
+            {PROVIDER_LABELS[id]}
+            <button type="button" disabled={i === 0} onClick={() => move(i, -1)} className="disabled:opacity-30" aria-label="Move earlier">
+              <ArrowUp className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              disabled={i === order.length - 1}
+              onClick={() => move(i, 1)}
+              className="disabled:opacity-30"
+              aria-label="Move later"
+            >
+              <ArrowDown className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              disabled={order.length === 1}
+              onClick={() => setProviderOrder(capability, order.filter(p => p !== id))}
+              className="text-muted-foreground disabled:opacity-30"
+              aria-label="Remove"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {available.map(id => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setProviderOrder(capability, [...order, id])}
+            className="rounded border border-dashed border-border px-1.5 py-0.5 text-xs text-muted-foreground"
+          >
+            + {PROVIDER_LABELS[id]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function MarketDataHealth({ className }: { className?: string }) {
+  const health = useMarketDataHealth();
+
+  return (
+    <Popover>
+      <TooltipProvider>
+        <div className={cn('flex items-center gap-1', className)}>
+          {health.map(p => (
+            <Tooltip key={p.id}>
+              <TooltipTrigger asChild>
+                <span className={cn('h-2 w-2 rounded-full', dotClass(p))} aria-label={`${p.label}: ${STATE_STYLES[p.state].label}`} />
+              </TooltipTrigger>
+              <TooltipContent>
+                <ProviderSummary provider={p} />
+              </TooltipContent>
+            </Tooltip>
+          ))}
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2" aria-label="Market data providers">
+              <Activity className="h-3.5 w-3.5" />
+            </Button>
+          </PopoverTrigger>
+        </div>
+      </TooltipProvider>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">Market data providers</p>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => marketDataRouter.resetHealth()}>
+            <RotateCcw className="mr-1 h-3 w-3" />
+            Reset
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {health.map(p => (
+            <div key={p.id} className="flex gap-2">
+              <span className={cn('mt-1 h-2 w-2 shrink-0 rounded-full', dotClass(p))} />
+              <ProviderSummary provider={p} />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2 border-t border-border pt-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">Fallback order</p>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={resetProviderOrder}>
+              Defaults
+            </Button>
+          </div>
+          {MARKET_DATA_CAPABILITIES.map(c => (
+            <OrderEditor key={c} capability={c} />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
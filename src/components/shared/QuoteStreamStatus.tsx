@@ -0,0 +1,65 @@
+// QuoteStreamStatus - Whether prices on screen are streaming live, polling, or paused
+import { Radio } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { useQuoteStreamState } from '@/hooks/useQuoteStream';
+import { getMarketStatus } from '@/services/MarketDataManager';
+import type { StreamProvider, StreamStatus } from '@/services/quoteStreamService';
+
+const STATUS_STYLES: Record<StreamStatus, { dot: string; label: string }> = {
+  idle: { dot: 'bg-muted-foreground', label: 'Not streaming' },
+  connecting: { dot: 'bg-amber-400 animate-pulse', label: 'Connecting' },
+  streaming: { dot: 'bg-emerald-400', label: 'Live' },
+  polling: { dot: 'bg-amber-400', label: 'Polling' },
+  paused: { dot: 'bg-muted-foreground', label: 'Paused' },
+};
+
+const PROVIDER_NAMES: Record<StreamProvider, string> = {
+  polygon: 'Polygon',
+  finnhub: 'Finnhub',
+  mock: 'mock feed',
+};
+
+export function QuoteStreamStatus({ className }: { className?: string }) {
+  const state = useQuoteStreamState();
+  const style = STATUS_STYLES[state.status];
+
+  const detail =
+    state.status === 'streaming'
+      ? `Trades from ${PROVIDER_NAMES[state.provider!]} for ${state.symbols} visible ${state.symbols === 1 ? 'ticker' : 'tickers'}`
+      : state.status === 'polling'
+        ? state.provider
+          ? `Stream disconnected; polling quotes until reconnect attempt ${state.reconnectAttempts + 1}`
+          : 'No stream configured; polling quotes'
+        : state.status === 'paused'
+          ? getMarketStatus() === 'closed'
+            ? 'Market closed; resumes at pre-market'
+            : 'Paused while the tab is hidden or live data is off'
+          : state.status === 'connecting'
+            ? `Opening ${state.provider ? PROVIDER_NAMES[state.provider] : ''} stream`
+            : 'Nothing visible to stream';
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className={cn('flex items-center gap-1 text-xs text-muted-foreground', className)}>
+            <Radio className="h-3 w-3" />
+            <span className={cn('h-1.5 w-1.5 rounded-full', style.dot)} />
+            {style.label}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          <div className="space-y-0.5 text-xs">
+            <p>{detail}</p>
+            {state.lastTickAt && (
+              <p className="text-muted-foreground">Last update {formatDistanceToNow(state.lastTickAt, { addSuffix: true })}</p>
+            )}
+            {state.lastError && <p className="text-destructive">Last error: {state.lastError}</p>}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -3,6 +3,10 @@ import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
+import { MarketDataHealth } from '@/components/shared/MarketDataHealth';
+import { QuoteStreamStatus } from '@/components/shared/QuoteStreamStatus';
+import { PROVIDER_LABELS } from '@/services/marketDataProviders';
+import type { ProviderId } from '@/services/marketDataRouter';
 
 interface CacheStatusBarProps {
   lastFetched: Date | null;
@@ -11,6 +15,9 @@ interface CacheStatusBarProps {
   isLoading: boolean;
   onRefresh: () => void;
   source?: string;
+  providers?: ProviderId[]; // Market data providers that supplied what is shown
+  showProviderHealth?: boolean;
+  showStreamStatus?: boolean;
   className?: string;
 }
 
@@ -21,6 +28,9 @@ export function CacheStatusBar({
   isLoading,
   onRefresh,
   source = 'data',
+  providers,
+  showProviderHealth = false,
+  showStreamStatus = false,
   className
 }: CacheStatusBarProps) {
   const timeUntilRefresh = expiresAt ? formatTimeUntil(expiresAt) : null;
@@ -49,6 +59,9 @@ export function CacheStatusBar({
           <span className="text-xs text-muted-foreground">
             Updated {formatDistanceToNow(lastFetched, { addSuffix: true })}
             {isStale && <span className="text-amber-400 ml-1">(stale)</span>}
+            {providers && providers.length > 0 && (
+              <span className="ml-1">via {providers.map(p => PROVIDER_LABELS[p]).join(', ')}</span>
+            )}
           </span>
         ) : (
           <span className="text-xs text-muted-foreground">No data cached</span>
@@ -56,6 +69,9 @@ export function CacheStatusBar({
       </div>
       
       <div className="flex items-center gap-3">
+        {showStreamStatus && <QuoteStreamStatus />}
+        {showProviderHealth && <MarketDataHealth />}
+
         {/* Time until auto-refresh */}
         {timeUntilRefresh && !isStale && !isLoading && (
           <span className="text-xs text-muted-foreground flex items-center gap-1">
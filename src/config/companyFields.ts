@@ -37,6 +37,9 @@ export const COMPANY_FIELDS = {
     total_debt: { type: 'currency', label: 'Total Debt', unit: 'M' },
     cash: { type: 'currency', label: 'Cash & Equivalents', unit: 'M' },
     net_debt: { type: 'currency', label: 'Net Debt', unit: 'M' },
+    interest_expense_ltm: { type: 'currency', label: 'LTM Interest Expense', unit: 'M' },
+    capex_ltm: { type: 'currency', label: 'LTM Capex', unit: 'M' },
+    revolver_availability: { type: 'currency', label: 'Undrawn Revolver', unit: 'M' },
     revenue_per_employee: { type: 'currency', label: 'Revenue per Employee', unit: 'K' },
     recurring_revenue_pct: { type: 'percentage', label: 'Recurring Revenue %' },
   },
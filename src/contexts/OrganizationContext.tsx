@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './AuthContext';
+import { PipelineStage, parsePipelineStages } from '@/services/pipelineStageService';
+import { ChecklistTemplate, parseChecklistTemplates } from '@/services/dataRoomChecklistService';
 
 export type AssetType = 'private_equity' | 'public_equity' | 'real_estate' | 'credit' | 'other';
 
@@ -19,6 +21,8 @@ export interface Organization {
   created_at: string;
   enabled_asset_types: AssetType[];
   default_asset_view: string;
+  pipeline_stages: PipelineStage[];
+  checklist_templates: ChecklistTemplate[];
 }
 
 export interface UserProfile {
@@ -171,6 +175,8 @@ export function OrganizationProvider({ children }: { children: React.ReactNode }
       created_at: data.created_at,
       enabled_asset_types: (data.enabled_asset_types as AssetType[]) || ['private_equity'],
       default_asset_view: data.default_asset_view || 'all',
+      pipeline_stages: parsePipelineStages(data.pipeline_stages),
+      checklist_templates: parseChecklistTemplates(data.checklist_templates),
     };
 
     setCurrentOrganization(org);
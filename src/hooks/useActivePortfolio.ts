@@ -4,6 +4,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import type { Json } from '@/integrations/supabase/types';
+import { STRATEGY_PORTFOLIO_MODE } from '@/hooks/useSavedStrategies';
 
 export interface SavedPortfolio {
   id: string;
@@ -13,6 +14,8 @@ export interface SavedPortfolio {
   allocations: Json;
   investor_profile: Json;
   portfolio_mode: string | null;
+  views?: Json; // Black-Litterman MarketView[]
+  base_currency?: string | null; // Reporting currency; null follows the profile default
   created_at: string;
   updated_at: string;
 }
@@ -28,8 +31,8 @@ interface UseActivePortfolioReturn {
   
   // Actions
   setActivePortfolio: (id: string | null) => void;
-  savePortfolio: (data: { name: string; description?: string; allocations: Json; investor_profile?: Json; portfolio_mode?: string }) => Promise<SavedPortfolio>;
-  updatePortfolio: (id: string, data: { name?: string; description?: string; allocations?: Json }) => Promise<void>;
+  savePortfolio: (data: { name: string; description?: string; allocations: Json; investor_profile?: Json; portfolio_mode?: string; views?: Json; base_currency?: string | null }) => Promise<SavedPortfolio>;
+  updatePortfolio: (id: string, data: { name?: string; description?: string; allocations?: Json; views?: Json; base_currency?: string | null }) => Promise<void>;
   deletePortfolio: (id: string) => Promise<void>;
   duplicatePortfolio: (id: string, newName: string) => Promise<SavedPortfolio>;
   refetch: () => void;
@@ -65,7 +68,8 @@ export function useActivePortfolio(): UseActivePortfolioReturn {
         .eq('user_id', user.id)
         .order('updated_at', { ascending: false });
       if (error) throw error;
-      return (data || []) as SavedPortfolio[];
+      // Backtest strategies share the table but are not holdings (see useSavedStrategies)
+      return ((data || []) as SavedPortfolio[]).filter(p => p.portfolio_mode !== STRATEGY_PORTFOLIO_MODE);
     },
     enabled: !!user?.id,
   });
@@ -112,6 +116,8 @@ export function useActivePortfolio(): UseActivePortfolioReturn {
       allocations: Json; 
       investor_profile?: Json;
       portfolio_mode?: string;
+      views?: Json;
+      base_currency?: string | null;
     }) => {
       if (!user?.id) throw new Error('Must be logged in');
       const { data: result, error } = await supabase
@@ -123,6 +129,8 @@ export function useActivePortfolio(): UseActivePortfolioReturn {
           allocations: data.allocations,
           investor_profile: data.investor_profile || {},
           portfolio_mode: data.portfolio_mode || 'manual',
+          views: data.views ?? [],
+          base_currency: data.base_currency ?? null,
         }])
         .select()
         .single();
@@ -142,11 +150,13 @@ export function useActivePortfolio(): UseActivePortfolioReturn {
 
   // Update portfolio mutation
   const updateMutation = useMutation({
-    mutationFn: async ({ id, ...data }: { id: string; name?: string; description?: string; allocations?: Json }) => {
+    mutationFn: async ({ id, ...data }: { id: string; name?: string; description?: string; allocations?: Json; views?: Json; base_currency?: string | null }) => {
       const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
       if (data.name !== undefined) updateData.name = data.name;
       if (data.description !== undefined) updateData.description = data.description;
       if (data.allocations !== undefined) updateData.allocations = data.allocations;
+      if (data.views !== undefined) updateData.views = data.views;
+      if (data.base_currency !== undefined) updateData.base_currency = data.base_currency;
       
       const { error } = await supabase
         .from('saved_portfolios')
@@ -195,6 +205,8 @@ export function useActivePortfolio(): UseActivePortfolioReturn {
       allocations: source.allocations,
       investor_profile: source.investor_profile,
       portfolio_mode: source.portfolio_mode || undefined,
+      views: source.views,
+      base_currency: source.base_currency,
     });
   }, [portfolios, saveMutation]);
 
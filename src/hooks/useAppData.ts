@@ -3,6 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useOrgId } from '@/contexts/OrganizationContext';
 import { toast } from 'sonner';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { StageTransitionCheck } from '@/services/pipelineStageService';
 
 // ============ Types ============
 export type CompanyStage = 'pipeline' | 'portfolio' | 'prospect' | 'passed';
@@ -73,6 +75,7 @@ export function useAppCompanies(filters?: {
   const { user } = useAuth();
   const orgId = useOrgId();
   const queryClient = useQueryClient();
+  const { moveToStage } = usePipelineStages();
 
   const query = useQuery({
     queryKey: ['companies', orgId, user?.id, filters],
@@ -182,17 +185,36 @@ export function useAppCompanies(filters?: {
     },
   });
 
-  const updateStage = async (companyId: string, stage: CompanyStage, pipelineStage?: string) => {
-    const updates: Partial<AppCompany> = { company_type: stage };
+  // Stage moves go through the organization's gates; a blocked move is returned rather than written
+  const moveStageMutation = useMutation({
+    mutationFn: async ({ id, pipelineStage }: { id: string; pipelineStage: string }) => {
+      const company = query.data?.find(c => c.id === id);
+      const fromStage = company?.company_type === 'pipeline' ? company.pipeline_stage : null;
+      return moveToStage(id, fromStage, pipelineStage);
+    },
+    onSuccess: (check) => {
+      if (check.allowed) queryClient.invalidateQueries({ queryKey: ['companies'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update stage: ' + error.message);
+    },
+  });
+
+  const updateStage = async (
+    companyId: string,
+    stage: CompanyStage,
+    pipelineStage?: string
+  ): Promise<StageTransitionCheck> => {
     if (pipelineStage) {
-      updates.pipeline_stage = pipelineStage;
+      const check = await moveStageMutation.mutateAsync({ id: companyId, pipelineStage });
+      if (!check.allowed) return check;
     }
-    await updateMutation.mutateAsync({ id: companyId, updates });
+    await updateMutation.mutateAsync({ id: companyId, updates: { company_type: stage } });
+    return { allowed: true, blocked: [] };
   };
 
-  const updatePipelineStage = async (companyId: string, pipelineStage: string) => {
-    await updateMutation.mutateAsync({ id: companyId, updates: { pipeline_stage: pipelineStage } });
-  };
+  const updatePipelineStage = (companyId: string, pipelineStage: string): Promise<StageTransitionCheck> =>
+    moveStageMutation.mutateAsync({ id: companyId, pipelineStage });
 
   return {
     companies: query.data || [],
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import {
   runBacktest,
   StrategyType,
@@ -11,9 +11,12 @@ import {
   runStressTests,
   calculateCorrelationMatrix,
 } from '@/services/backtesterService';
+import { CostModel } from '@/services/transactionCostService';
+import { isCancelledError } from '@/services/computePoolService';
 
 interface UseBacktesterOptions {
   defaultBenchmark?: string;
+  costModel?: CostModel;
 }
 
 export interface BacktestAsset {
@@ -22,7 +25,7 @@ export interface BacktestAsset {
 }
 
 export function useBacktester(options: UseBacktesterOptions = {}) {
-  const { defaultBenchmark = 'SPY' } = options;
+  const { defaultBenchmark = 'SPY', costModel } = options;
 
   const [isRunning, setIsRunning] = useState(false);
   const [result, setResult] = useState<BacktestResult | null>(null);
@@ -31,6 +34,7 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
   const [correlationMatrix, setCorrelationMatrix] = useState<CorrelationMatrix | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<string>('');
+  const monteCarloAbortRef = useRef<AbortController | null>(null);
 
   const runTest = useCallback(
     async (
@@ -58,6 +62,7 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
           initialCapital,
           strategy,
           benchmarkSymbol: defaultBenchmark,
+          costModel,
         };
 
         // Step 1: Run main backtest
@@ -74,7 +79,9 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
         // Step 2: Monte Carlo Simulation
         setProgress('Step 2/4: Running Monte Carlo simulation...');
         try {
-          const mcResult = await runMonteCarloSimulation(config, 500, 5);
+          const mcResult = await runMonteCarloSimulation(config, 500, 5, {
+            onProgress: msg => setProgress(`Step 2/4: ${msg}`),
+          });
           setMonteCarloResult(mcResult);
         } catch (mcErr) {
           console.warn('Monte Carlo failed:', mcErr);
@@ -113,7 +120,7 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
         setIsRunning(false);
       }
     },
-    [defaultBenchmark]
+    [defaultBenchmark, costModel]
   );
 
   const runMonteCarlo = useCallback(
@@ -121,8 +128,12 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
       assets: BacktestAsset[],
       initialCapital: number,
       projectionYears: number = 5,
-      numSimulations: number = 1000
+      numSimulations: number = 1000,
+      seed?: number // Replays a previous result's paths when given its seed
     ): Promise<MonteCarloResult | null> => {
+      monteCarloAbortRef.current?.abort();
+      const abortController = new AbortController();
+      monteCarloAbortRef.current = abortController;
       setIsRunning(true);
       setError(null);
       setProgress('Running Monte Carlo simulation...');
@@ -135,22 +146,29 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
           initialCapital,
           strategy: 'buy-hold',
           benchmarkSymbol: defaultBenchmark,
+          costModel,
         };
 
-        const mcResult = await runMonteCarloSimulation(config, numSimulations, projectionYears);
+        const mcResult = await runMonteCarloSimulation(config, numSimulations, projectionYears, {
+          seed,
+          signal: abortController.signal,
+          onProgress: msg => setProgress(`Running Monte Carlo simulation... ${msg}`),
+        });
         setMonteCarloResult(mcResult);
         setProgress('');
         return mcResult;
       } catch (err) {
+        if (isCancelledError(err)) return null;
         const errorMessage = err instanceof Error ? err.message : 'Monte Carlo simulation failed';
         setError(errorMessage);
         setProgress('');
         return null;
       } finally {
-        setIsRunning(false);
+        // A superseding run owns the running state from here
+        if (monteCarloAbortRef.current === abortController) setIsRunning(false);
       }
     },
-    [defaultBenchmark]
+    [defaultBenchmark, costModel]
   );
 
   const runStress = useCallback(
@@ -170,6 +188,7 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
           initialCapital,
           strategy: 'buy-hold',
           benchmarkSymbol: defaultBenchmark,
+          costModel,
         };
 
         const results = await runStressTests(config);
@@ -185,7 +204,7 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
         setIsRunning(false);
       }
     },
-    [defaultBenchmark]
+    [defaultBenchmark, costModel]
   );
 
   const calculateCorrelations = useCallback(
@@ -216,6 +235,7 @@ export function useBacktester(options: UseBacktesterOptions = {}) {
   );
 
   const reset = useCallback(() => {
+    monteCarloAbortRef.current?.abort();
     setResult(null);
     setMonteCarloResult(null);
     setStressTestResults([]);
@@ -3,9 +3,10 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useOrgId } from '@/contexts/OrganizationContext';
 import { toast } from 'sonner';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { StageTransitionCheck } from '@/services/pipelineStageService';
 
 export type CompanyStage = 'pipeline' | 'portfolio' | 'passed' | 'prospect';
-export type PipelineSubStage = 'sourcing' | 'initial-review' | 'deep-dive' | 'loi' | 'due-diligence' | 'closing';
 
 export interface Company {
   id: string;
@@ -28,6 +29,7 @@ export interface Company {
 export function useCompanies() {
   const { user } = useAuth();
   const orgId = useOrgId();
+  const { stages, moveToStage } = usePipelineStages();
   const [companies, setCompanies] = useState<Company[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -80,7 +82,7 @@ export function useCompanies() {
           website: companyData.website || null,
           description: companyData.description || null,
           company_type: companyData.company_type || 'pipeline',
-          pipeline_stage: companyData.pipeline_stage || 'sourcing',
+          pipeline_stage: companyData.pipeline_stage || stages[0].id,
           revenue_ltm: companyData.revenue_ltm || null,
           ebitda_ltm: companyData.ebitda_ltm || null,
           deal_lead: companyData.deal_lead || null,
@@ -120,53 +122,56 @@ export function useCompanies() {
     }
   };
 
+  // Pipeline stage changes go through the organization's gates; a blocked move comes back unwritten
   const updateStage = async (
     companyId: string, 
     stage: CompanyStage, 
     pipelineStage?: string
-  ): Promise<boolean> => {
+  ): Promise<StageTransitionCheck | null> => {
     try {
-      const updates: Partial<Company> = { 
-        company_type: stage,
-        pipeline_stage: stage === 'pipeline' ? (pipelineStage || 'sourcing') : null
-      };
+      const company = companies.find(c => c.id === companyId);
+      const targetStage = pipelineStage || stages[0].id;
+      if (stage === 'pipeline') {
+        const fromStage = company?.company_type === 'pipeline' ? company.pipeline_stage : null;
+        const check = await moveToStage(companyId, fromStage, targetStage);
+        if (!check.allowed) return check;
+      }
 
       const { error } = await supabase
         .from('companies')
-        .update(updates)
+        .update(stage === 'pipeline' ? { company_type: stage } : { company_type: stage, pipeline_stage: null })
         .eq('id', companyId);
 
       if (error) throw error;
 
       setCompanies(prev =>
-        prev.map(c => c.id === companyId ? { ...c, ...updates } : c)
+        prev.map(c => c.id === companyId
+          ? { ...c, company_type: stage, pipeline_stage: stage === 'pipeline' ? targetStage : null }
+          : c)
       );
       
-      return true;
+      return { allowed: true, blocked: [] };
     } catch (error) {
       console.error('Error updating stage:', error);
       toast.error('Failed to update stage');
-      return false;
+      return null;
     }
   };
 
-  const updatePipelineStage = async (companyId: string, pipelineStage: string): Promise<boolean> => {
+  const updatePipelineStage = async (companyId: string, pipelineStage: string): Promise<StageTransitionCheck | null> => {
     try {
-      const { error } = await supabase
-        .from('companies')
-        .update({ pipeline_stage: pipelineStage })
-        .eq('id', companyId);
-
-      if (error) throw error;
-
-      setCompanies(prev =>
-        prev.map(c => c.id === companyId ? { ...c, pipeline_stage: pipelineStage } : c)
-      );
-      return true;
+      const company = companies.find(c => c.id === companyId);
+      const check = await moveToStage(companyId, company?.pipeline_stage ?? null, pipelineStage);
+      if (check.allowed) {
+        setCompanies(prev =>
+          prev.map(c => c.id === companyId ? { ...c, pipeline_stage: pipelineStage } : c)
+        );
+      }
+      return check;
     } catch (error) {
       console.error('Error updating pipeline stage:', error);
       toast.error('Failed to update stage');
-      return false;
+      return null;
     }
   };
 
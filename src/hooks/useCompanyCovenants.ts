@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrgId } from '@/contexts/OrganizationContext';
+import { LBOAssumptions, LBOModelData } from '@/services/lboModelService';
+import {
+  Covenant,
+  CovenantTestResult,
+  covenantAlert,
+  firstProjectedBreach,
+  metricsFromDataFields,
+  projectCovenant,
+  reportingPeriod,
+  testCovenant,
+} from '@/services/covenantService';
+import { toast } from 'sonner';
+
+export interface CovenantTest extends Omit<CovenantTestResult, 'missingFields'> {
+  id: string;
+  covenant_id: string;
+  model_id: string | null;
+  tested_at: string;
+}
+
+export interface CovenantModelOption {
+  id: string;
+  name: string;
+  updated_at: string;
+}
+
+export type CovenantInput = Pick<
+  Covenant,
+  'covenant_type' | 'limit_value' | 'test_frequency' | 'warning_headroom_pct' | 'model_id'
+>;
+
+export interface CovenantRunSummary {
+  tested: number;
+  alerts: number;
+  missing: Record<string, string[]>; // Covenant id -> company_data_fields that were not available
+}
+
+interface SavedLBOModel {
+  id: string;
+  name: string;
+  updated_at: string;
+  model_data: LBOModelData | null;
+  assumptions: LBOAssumptions | null;
+}
+
+export function useCompanyCovenants(companyId: string | undefined) {
+  const { user } = useAuth();
+  const orgId = useOrgId();
+  const [covenants, setCovenants] = useState<Covenant[]>([]);
+  const [tests, setTests] = useState<CovenantTest[]>([]);
+  const [models, setModels] = useState<CovenantModelOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const fetchCovenants = useCallback(async () => {
+    if (!companyId || !user) {
+      setCovenants([]);
+      setTests([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [covenantRes, modelRes] = await Promise.all([
+        supabase.from('portfolio_covenants').select('*').eq('company_id', companyId).order('created_at'),
+        supabase
+          .from('models')
+          .select('id, name, updated_at')
+          .eq('company_id', companyId)
+          .eq('model_type', 'lbo')
+          .order('updated_at', { ascending: false }),
+      ]);
+      if (covenantRes.error) throw covenantRes.error;
+      if (modelRes.error) throw modelRes.error;
+
+      const rows = (covenantRes.data || []) as Covenant[];
+      setCovenants(rows);
+      setModels(modelRes.data || []);
+
+      if (rows.length > 0) {
+        const { data, error } = await supabase
+          .from('covenant_tests')
+          .select('*')
+          .in('covenant_id', rows.map((c) => c.id))
+          .order('period');
+        if (error) throw error;
+        setTests((data || []) as CovenantTest[]);
+      } else {
+        setTests([]);
+      }
+    } catch (error) {
+      console.error('Error fetching covenants:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [companyId, user]);
+
+  useEffect(() => {
+    fetchCovenants();
+  }, [fetchCovenants]);
+
+  const createCovenant = useCallback(
+    async (input: CovenantInput): Promise<boolean> => {
+      if (!companyId || !user) return false;
+
+      const { error } = await supabase.from('portfolio_covenants').insert({
+        ...input,
+        company_id: companyId,
+        current_value: 0,
+        created_by: user.id,
+      });
+
+      if (error) {
+        console.error('Error creating covenant:', error);
+        toast.error('Failed to add covenant');
+        return false;
+      }
+
+      await fetchCovenants();
+      return true;
+    },
+    [companyId, user, fetchCovenants]
+  );
+
+  const updateCovenant = useCallback(
+    async (id: string, input: CovenantInput): Promise<boolean> => {
+      // A changed definition invalidates the last result, so the next run re-tests the period
+      const { error } = await supabase
+        .from('portfolio_covenants')
+        .update({ ...input, last_period: null })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error updating covenant:', error);
+        toast.error('Failed to update covenant');
+        return false;
+      }
+
+      await fetchCovenants();
+      return true;
+    },
+    [fetchCovenants]
+  );
+
+  const deleteCovenant = useCallback(async (id: string): Promise<boolean> => {
+    const { error } = await supabase.from('portfolio_covenants').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting covenant:', error);
+      toast.error('Failed to delete covenant');
+      return false;
+    }
+
+    setCovenants((prev) => prev.filter((c) => c.id !== id));
+    setTests((prev) => prev.filter((t) => t.covenant_id !== id));
+    return true;
+  }, []);
+
+  /**
+   * Test covenants for the current reporting period against company_data_fields, project them
+   * over the saved LBO model, and raise an alert and a task for each covenant whose headroom
+   * newly falls below its threshold or that is newly projected to breach.
+   */
+  const runTests = useCallback(
+    async (companyName: string, only?: Covenant[]): Promise<CovenantRunSummary | null> => {
+      if (!companyId || !user) return null;
+      const toTest = only || covenants;
+      if (toTest.length === 0) return { tested: 0, alerts: 0, missing: {} };
+
+      setIsTesting(true);
+      try {
+        const [fieldsRes, modelsRes] = await Promise.all([
+          supabase.from('company_data_fields').select('field_name, value').eq('company_id', companyId),
+          supabase
+            .from('models')
+            .select('id, name, updated_at, model_data, assumptions')
+            .eq('company_id', companyId)
+            .eq('model_type', 'lbo')
+            .order('updated_at', { ascending: false }),
+        ]);
+        if (fieldsRes.error) throw fieldsRes.error;
+        if (modelsRes.error) throw modelsRes.error;
+
+        const metrics = metricsFromDataFields(fieldsRes.data || []);
+        const savedModels = (modelsRes.data || []) as unknown as SavedLBOModel[];
+        const now = new Date();
+        const summary: CovenantRunSummary = { tested: 0, alerts: 0, missing: {} };
+
+        for (const covenant of toTest) {
+          const period = reportingPeriod(now, covenant.test_frequency);
+          const result = testCovenant(covenant, metrics, period);
+          if (result.missingFields.length > 0) summary.missing[covenant.id] = result.missingFields;
+
+          // Only models that have been run can be projected
+          const model = covenant.model_id
+            ? savedModels.find((m) => m.id === covenant.model_id && m.model_data?.lbo)
+            : savedModels.find((m) => m.model_data?.lbo);
+          const projections = model?.model_data?.lbo ? projectCovenant(covenant, model.model_data.lbo, model.assumptions) : [];
+          const projectedBreach = firstProjectedBreach(projections);
+
+          const toRow = ({ missingFields: _missing, ...row }: CovenantTestResult) => ({
+            ...row,
+            covenant_id: covenant.id,
+            model_id: row.is_projected ? model?.id ?? null : null,
+            tested_at: now.toISOString(),
+          });
+
+          const { error: testError } = await supabase
+            .from('covenant_tests')
+            .upsert(toRow(result), { onConflict: 'covenant_id,period,is_projected' });
+          if (testError) throw testError;
+
+          const { error: clearError } = await supabase
+            .from('covenant_tests')
+            .delete()
+            .eq('covenant_id', covenant.id)
+            .eq('is_projected', true);
+          if (clearError) throw clearError;
+
+          if (projections.length > 0) {
+            const { error: projectionError } = await supabase.from('covenant_tests').insert(projections.map(toRow));
+            if (projectionError) throw projectionError;
+          }
+
+          const alert = covenantAlert(companyName, covenant, result, projectedBreach);
+          if (alert) {
+            const [alertRes, taskRes] = await Promise.all([
+              supabase.from('alerts').insert({ ...alert, company_id: companyId }),
+              supabase.from('tasks').insert({
+                title: alert.title,
+                description: alert.description,
+                priority: alert.severity === 'critical' ? 'urgent' : 'high',
+                status: 'todo',
+                company_id: companyId,
+                tags: ['covenant'],
+                user_id: user.id,
+                organization_id: orgId || null,
+              }),
+            ]);
+            if (alertRes.error) console.error('Error raising covenant alert:', alertRes.error);
+            if (taskRes.error) console.error('Error creating covenant task:', taskRes.error);
+            summary.alerts++;
+          }
+
+          const { error: updateError } = await supabase
+            .from('portfolio_covenants')
+            .update({
+              current_value: result.actual_value ?? covenant.current_value,
+              headroom_pct: result.headroom_pct,
+              status: result.status,
+              is_warning: result.status === 'warning' || result.status === 'breach' || projectedBreach !== null,
+              last_period: period.period,
+              last_tested_at: now.toISOString(),
+              projected_breach_period: projectedBreach?.period ?? null,
+            })
+            .eq('id', covenant.id);
+          if (updateError) throw updateError;
+
+          summary.tested++;
+        }
+
+        return summary;
+      } catch (error) {
+        console.error('Error testing covenants:', error);
+        toast.error('Failed to test covenants');
+        return null;
+      } finally {
+        setIsTesting(false);
+        await fetchCovenants();
+      }
+    },
+    [companyId, user, orgId, covenants, fetchCovenants]
+  );
+
+  return {
+    covenants,
+    tests,
+    models,
+    isLoading,
+    isTesting,
+    createCovenant,
+    updateCovenant,
+    deleteCovenant,
+    runTests,
+    refetch: fetchCovenants,
+  };
+}
@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_CURRENCY, loadFxHistory } from '@/services/fxService';
+import { marketDataService } from '@/services/hybridMarketDataService';
+import {
+  attributeCurrencyReturns,
+  type CurrencyAttribution,
+  type HedgeSettings,
+} from '@/services/currencyAttributionService';
+
+/**
+ * The reporting currency: the portfolio's own setting when it has one, else the profile default
+ */
+export function useBaseCurrency(portfolioBaseCurrency?: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: defaultCurrency, isLoading } = useQuery({
+    queryKey: ['profile-base-currency', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('base_currency')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.base_currency ?? DEFAULT_CURRENCY;
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      if (!user?.id) throw new Error('Must be logged in');
+      const { error } = await supabase
+        .from('profiles')
+        .update({ base_currency: currency })
+        .eq('user_id', user.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile-base-currency'] });
+      toast.success('Base currency updated');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update currency: ${error.message}`);
+    },
+  });
+
+  return {
+    baseCurrency: portfolioBaseCurrency || defaultCurrency || DEFAULT_CURRENCY,
+    defaultCurrency: defaultCurrency ?? DEFAULT_CURRENCY,
+    setDefaultCurrency: updateMutation.mutate,
+    isLoading,
+    isSaving: updateMutation.isPending,
+  };
+}
+
+interface UseCurrencyAttributionOptions {
+  holdings: { symbol: string; currency: string; weight: number }[];
+  baseCurrency: string;
+  startDate: string;
+  endDate: string;
+  hedge: HedgeSettings;
+  enabled?: boolean;
+}
+
+/**
+ * Local-asset return and currency effect for the holdings over a date range. Price and FX
+ * history load once per holdings set; changing the hedge only recomputes.
+ */
+export function useCurrencyAttribution(options: UseCurrencyAttributionOptions) {
+  const { holdings, baseCurrency, startDate, endDate, hedge, enabled = true } = options;
+  const symbols = useMemo(() => [...new Set(holdings.map(h => h.symbol))].sort(), [holdings]);
+  const currencies = useMemo(
+    () => [...new Set([...holdings.map(h => h.currency), baseCurrency])].sort(),
+    [holdings, baseCurrency]
+  );
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['currency-attribution', symbols, currencies, startDate, endDate],
+    queryFn: async () => {
+      const [tickers, rates] = await Promise.all([
+        marketDataService.getTickersData(symbols, { startDate, endDate }),
+        loadFxHistory(currencies, startDate, endDate),
+      ]);
+      return { tickers, rates };
+    },
+    enabled: enabled && symbols.length > 0,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const attribution = useMemo<CurrencyAttribution | null>(() => {
+    if (!data) return null;
+    return attributeCurrencyReturns(
+      holdings.map(h => ({ ...h, bars: data.tickers.get(h.symbol)?.bars ?? [] })),
+      data.rates,
+      baseCurrency,
+      hedge
+    );
+  }, [data, holdings, baseCurrency, hedge]);
+
+  return { attribution, isLoading, error: error instanceof Error ? error.message : null };
+}
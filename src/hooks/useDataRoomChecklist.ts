@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import {
+  ChecklistItemState,
+  DEFAULT_CHECKLIST_TEMPLATES,
+  resolveChecklistTemplate,
+} from '@/services/dataRoomChecklistService';
+import { toast } from 'sonner';
+
+export type ChecklistItemUpdate = Partial<Omit<ChecklistItemState, 'item_id'>>;
+
+const emptyState = (itemId: string): ChecklistItemState => ({
+  item_id: itemId,
+  owner_id: null,
+  due_date: null,
+  document_ids: [],
+  notes: null,
+});
+
+export function useDataRoomChecklist(companyId: string | null | undefined) {
+  const { user } = useAuth();
+  const { currentOrganization } = useOrganization();
+  const templates = currentOrganization?.checklist_templates ?? DEFAULT_CHECKLIST_TEMPLATES;
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [states, setStates] = useState<ChecklistItemState[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchChecklist = useCallback(async () => {
+    if (!companyId || !user) {
+      setTemplateId(null);
+      setStates([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [company, items] = await Promise.all([
+        supabase.from('companies').select('checklist_template_id').eq('id', companyId).single(),
+        supabase
+          .from('data_room_checklist_items')
+          .select('item_id, owner_id, due_date, document_ids, notes')
+          .eq('company_id', companyId),
+      ]);
+      if (company.error) throw company.error;
+      if (items.error) throw items.error;
+
+      setTemplateId(company.data.checklist_template_id);
+      setStates(items.data || []);
+    } catch (error) {
+      console.error('Error fetching data room checklist:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [companyId, user]);
+
+  useEffect(() => {
+    fetchChecklist();
+  }, [fetchChecklist]);
+
+  const assignTemplate = useCallback(
+    async (newTemplateId: string) => {
+      if (!companyId) return;
+
+      const previous = templateId;
+      setTemplateId(newTemplateId);
+      const { error } = await supabase
+        .from('companies')
+        .update({ checklist_template_id: newTemplateId })
+        .eq('id', companyId);
+
+      if (error) {
+        console.error('Error assigning checklist template:', error);
+        setTemplateId(previous);
+        toast.error('Failed to change checklist template');
+      }
+    },
+    [companyId, templateId]
+  );
+
+  const updateItem = useCallback(
+    async (itemId: string, update: ChecklistItemUpdate): Promise<boolean> => {
+      if (!companyId || !user) return false;
+
+      const current = states.find((s) => s.item_id === itemId) || emptyState(itemId);
+      const next = { ...current, ...update };
+
+      const { error } = await supabase.from('data_room_checklist_items').upsert(
+        {
+          company_id: companyId,
+          item_id: itemId,
+          owner_id: next.owner_id,
+          due_date: next.due_date,
+          document_ids: next.document_ids,
+          notes: next.notes,
+          updated_by: user.id,
+        },
+        { onConflict: 'company_id,item_id' }
+      );
+
+      if (error) {
+        console.error('Error updating checklist item:', error);
+        toast.error('Failed to update checklist item');
+        return false;
+      }
+
+      setStates((prev) => [...prev.filter((s) => s.item_id !== itemId), next]);
+      return true;
+    },
+    [companyId, user, states]
+  );
+
+  return {
+    templates,
+    template: resolveChecklistTemplate(templates, templateId),
+    states,
+    isLoading,
+    assignTemplate,
+    updateItem,
+    refetch: fetchChecklist,
+  };
+}
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrgId } from '@/contexts/OrganizationContext';
+import { DocumentRecord } from '@/hooks/useDocuments';
+import { TeamMember } from '@/hooks/useTeamMembers';
+import {
+  DataRoomQuestion,
+  QALogRow,
+  findByName,
+  importedStatus,
+  nextQuestionNumber,
+  planQAImport,
+} from '@/services/dataRoomQAService';
+import { toast } from 'sonner';
+
+export type QuestionInput = Pick<
+  DataRoomQuestion,
+  'question' | 'category' | 'document_id' | 'checklist_item_id' | 'priority' | 'assignee_id'
+> &
+  Partial<Pick<DataRoomQuestion, 'answer' | 'status'>>;
+
+export type QuestionUpdate = Partial<Omit<DataRoomQuestion, 'id' | 'company_id' | 'number' | 'created_at' | 'updated_at'>>;
+
+// Stamp answered_at the first time a question moves past open
+const withAnsweredAt = <T extends { status?: DataRoomQuestion['status']; answered_at?: string | null }>(
+  update: T,
+  current?: DataRoomQuestion
+): T =>
+  update.status && update.status !== 'open' && !current?.answered_at
+    ? { ...update, answered_at: new Date().toISOString() }
+    : update;
+
+export function useDataRoomQuestions(companyId: string | null | undefined) {
+  const { user } = useAuth();
+  const orgId = useOrgId();
+  const [questions, setQuestions] = useState<DataRoomQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchQuestions = useCallback(async () => {
+    if (!companyId || !user) {
+      setQuestions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('data_room_questions')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('number', { ascending: true });
+
+      if (error) throw error;
+      setQuestions((data || []) as DataRoomQuestion[]);
+    } catch (error) {
+      console.error('Error fetching data room questions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [companyId, user]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  const createQuestion = useCallback(
+    async (input: QuestionInput): Promise<DataRoomQuestion | null> => {
+      if (!companyId || !user) return null;
+
+      const { data, error } = await supabase
+        .from('data_room_questions')
+        .insert(
+          withAnsweredAt({
+            ...input,
+            company_id: companyId,
+            number: nextQuestionNumber(questions),
+            raised_by: user.id,
+          })
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating question:', error);
+        toast.error('Failed to add question');
+        return null;
+      }
+
+      const question = data as DataRoomQuestion;
+      setQuestions((prev) => [...prev, question]);
+      return question;
+    },
+    [companyId, user, questions]
+  );
+
+  const updateQuestion = useCallback(
+    async (id: string, update: QuestionUpdate): Promise<boolean> => {
+      const current = questions.find((q) => q.id === id);
+      const { data, error } = await supabase
+        .from('data_room_questions')
+        .update(withAnsweredAt(update, current))
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating question:', error);
+        toast.error('Failed to update question');
+        return false;
+      }
+
+      setQuestions((prev) => prev.map((q) => (q.id === id ? (data as DataRoomQuestion) : q)));
+      return true;
+    },
+    [questions]
+  );
+
+  const deleteQuestion = useCallback(async (id: string): Promise<boolean> => {
+    const { error } = await supabase.from('data_room_questions').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting question:', error);
+      toast.error('Failed to delete question');
+      return false;
+    }
+
+    setQuestions((prev) => prev.filter((q) => q.id !== id));
+    return true;
+  }, []);
+
+  /**
+   * Upload answer attachments into the data room and link them to the question.
+   * Files land next to the question's document, or in General when it has none.
+   */
+  const uploadAttachments = useCallback(
+    async (question: DataRoomQuestion, files: File[], documents: DocumentRecord[]): Promise<number> => {
+      if (!companyId || !user) return 0;
+
+      const linked = documents.find((d) => d.id === question.document_id);
+      const uploadedIds: string[] = [];
+
+      for (const file of files) {
+        try {
+          const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+          const filePath = `${user.id}/${companyId}/${Date.now()}_${sanitizedName}`;
+          const { error: uploadError } = await supabase.storage.from('documents').upload(filePath, file);
+          if (uploadError) throw uploadError;
+
+          const { data, error } = await supabase
+            .from('documents')
+            .insert({
+              company_id: companyId,
+              user_id: user.id,
+              organization_id: orgId || null,
+              name: file.name,
+              file_path: filePath,
+              file_type: file.name.split('.').pop()?.toLowerCase() || null,
+              file_size: file.size,
+              folder: linked?.folder || 'General',
+              subfolder: linked?.subfolder || null,
+            })
+            .select('id')
+            .single();
+          if (error) throw error;
+
+          uploadedIds.push(data.id);
+        } catch (error) {
+          console.error('Error uploading answer attachment:', error);
+          toast.error(`Failed to upload ${file.name}`);
+        }
+      }
+
+      if (uploadedIds.length === 0) return 0;
+
+      const attached = await updateQuestion(question.id, {
+        attachment_ids: [...question.attachment_ids, ...uploadedIds],
+      });
+      if (!attached) return 0;
+
+      toast.success(`${uploadedIds.length} attachment${uploadedIds.length === 1 ? '' : 's'} uploaded`);
+      return uploadedIds.length;
+    },
+    [companyId, user, orgId, updateQuestion]
+  );
+
+  /**
+   * Import a Q&A log. New questions are numbered after the existing ones; questions already in the
+   * tracker take the imported response and status. Assignee and document names are matched to
+   * team members and data room documents where possible.
+   */
+  const importQuestions = useCallback(
+    async (
+      rows: QALogRow[],
+      teamMembers: TeamMember[],
+      documents: DocumentRecord[],
+      checklistItems: { id: string; name: string }[]
+    ): Promise<{ created: number; updated: number } | null> => {
+      if (!companyId || !user) return null;
+
+      const plan = planQAImport(questions, rows);
+      const firstNumber = nextQuestionNumber(questions);
+      const answeredAt = new Date().toISOString();
+
+      try {
+        if (plan.inserts.length > 0) {
+          const { error } = await supabase.from('data_room_questions').insert(
+            plan.inserts.map((row, index) => {
+              const status = importedStatus(row);
+              return {
+                company_id: companyId,
+                number: firstNumber + index,
+                category: row.category,
+                question: row.question,
+                answer: row.answer,
+                status,
+                priority: row.priority,
+                assignee_id: findByName(teamMembers, row.assignee),
+                document_id: findByName(documents, row.document),
+                checklist_item_id: findByName(checklistItems, row.checklistItem),
+                raised_by: user.id,
+                answered_at: status === 'open' ? null : answeredAt,
+              };
+            })
+          );
+          if (error) throw error;
+        }
+
+        for (const { id, row } of plan.updates) {
+          const current = questions.find((q) => q.id === id);
+          const checklistItemId = findByName(checklistItems, row.checklistItem);
+          const update: QuestionUpdate = {
+            answer: row.answer ?? current?.answer ?? null,
+            ...(row.status && { status: row.status }),
+            ...(checklistItemId && { checklist_item_id: checklistItemId }),
+          };
+          const { error } = await supabase.from('data_room_questions').update(withAnsweredAt(update, current)).eq('id', id);
+          if (error) throw error;
+        }
+
+        return { created: plan.inserts.length, updated: plan.updates.length };
+      } catch (error) {
+        console.error('Error importing Q&A log:', error);
+        toast.error('Failed to import Q&A log');
+        return null;
+      } finally {
+        await fetchQuestions();
+      }
+    },
+    [companyId, user, questions, fetchQuestions]
+  );
+
+  return {
+    questions,
+    isLoading,
+    createQuestion,
+    updateQuestion,
+    deleteQuestion,
+    uploadAttachments,
+    importQuestions,
+    refetch: fetchQuestions,
+  };
+}
@@ -15,6 +15,7 @@ export interface DocumentRecord {
   file_size: number | null;
   folder: string | null;
   subfolder: string | null;
+  document_type: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -4,7 +4,9 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { FxRates } from '@/services/fxService';
 
 export interface CommodityData {
   symbol: string;
@@ -182,6 +184,34 @@ export function useForexAndCommodities() {
   return { commodities, forex, isLoading, error, lastUpdated, refetch: fetchData };
 }
 
+// Spot FX rates for converting holdings, shared by every component on one 60-second poll
+export function useFxRates(options: { enabled?: boolean } = {}) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['fx-rates'],
+    queryFn: async () => {
+      const { data: responseData, error: fetchError } = await supabase.functions.invoke<ForexCommoditiesResponse>(
+        'polygon-forex-commodities',
+        { body: { type: 'forex' } }
+      );
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+
+      if (!responseData?.ok) {
+        throw new Error(responseData?.error || 'Failed to fetch forex data');
+      }
+
+      return FxRates.fromQuotes(responseData.forex || []);
+    },
+    enabled: options.enabled ?? true,
+    staleTime: 60000,
+    refetchInterval: 60000,
+  });
+
+  return { rates: data ?? null, isLoading, error: error instanceof Error ? error.message : null };
+}
+
 // Helper function to group commodities by category
 export function groupCommoditiesByCategory(commodities: CommodityData[]) {
   return {
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { marketDataRouter } from '@/services/marketDataProviders';
+import type { ProviderHealth } from '@/services/marketDataRouter';
+
+const subscribe = (listener: () => void) => marketDataRouter.subscribe(listener);
+const getSnapshot = () => marketDataRouter.getHealth();
+
+export function useMarketDataHealth(): ProviderHealth[] {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
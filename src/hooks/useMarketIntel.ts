@@ -70,7 +70,7 @@ export function useCovenants() {
   return useQuery({
     queryKey: ['covenants'],
     queryFn: async () => {
-      const { data, error } = await supabase.from('portfolio_covenants').select('*, portfolio_assets(name)').order('is_warning', { ascending: false });
+      const { data, error } = await supabase.from('portfolio_covenants').select('*, portfolio_assets(name), companies(name)').order('is_warning', { ascending: false });
       if (error) throw error;
       return data || [];
     },
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useModels, Model } from '@/hooks/useModels';
+import { ModelVersion } from '@/services/modelVersionService';
+import { parseScenarios } from '@/services/scenarioService';
+import { toast } from 'sonner';
+
+export function useModelVersions(modelId: string | undefined) {
+  const { user } = useAuth();
+  const { updateModel, saving } = useModels();
+  const [versions, setVersions] = useState<ModelVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    if (!modelId || !user) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('model_versions')
+        .select('*')
+        .eq('model_id', modelId)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      setVersions(data || []);
+    } catch (error) {
+      console.error('Error fetching model versions:', error);
+      toast.error('Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+  }, [modelId, user]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  // Restoring writes the old snapshot back as a new version; history is never rewritten
+  const restoreVersion = async (version: ModelVersion): Promise<Model | null> => {
+    if (!modelId) return null;
+    const restored = await updateModel(modelId, {
+      assumptions: version.assumptions,
+      modelData: version.model_data,
+      scenarios: parseScenarios(version.scenarios),
+      versionNote: `Restored from v${version.version_number}`,
+      restoredFromVersion: version.version_number,
+    });
+    if (restored) await fetchVersions();
+    return restored;
+  };
+
+  return {
+    versions,
+    loading,
+    restoring: saving,
+    fetchVersions,
+    restoreVersion,
+  };
+}
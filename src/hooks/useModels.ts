@@ -1,7 +1,15 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import {
+  LBOModelData,
+  lboAssumptionsFromCashFlowBuildup,
+  operatingCaseFromCashFlowBuildup,
+} from '@/services/lboModelService';
+import { ModelScenario } from '@/services/scenarioService';
+import { ensureBaselineVersion, recordModelVersion } from '@/services/modelVersionService';
 
 export interface Model {
   id: string;
@@ -13,6 +21,7 @@ export interface Model {
   assumptions: any;
   historical_data: any;
   interview_responses: any;
+  scenarios: Json;
   status: string | null;
   version: number | null;
   created_at: string;
@@ -34,14 +43,28 @@ interface UpdateModelParams {
   modelData?: any;
   assumptions?: any;
   historicalData?: any;
+  scenarios?: ModelScenario[];
   status?: 'draft' | 'final';
   name?: string;
+  versionNote?: string;
+  restoredFromVersion?: number;
 }
 
 export function useModels() {
   const { user } = useAuth();
   const [saving, setSaving] = useState(false);
 
+  // Version history is an audit trail: a failed snapshot is surfaced but does not undo the save
+  const snapshotVersion = async (model: Model, options: { note?: string; restoredFromVersion?: number } = {}) => {
+    if (!user) return;
+    try {
+      await recordModelVersion(model, user, options);
+    } catch (error) {
+      console.error('Error recording model version:', error);
+      toast.error('Model saved, but its version history could not be updated');
+    }
+  };
+
   const saveModel = async (params: SaveModelParams): Promise<Model | null> => {
     if (!user) {
       toast.error('Please sign in to save a model');
@@ -67,7 +90,8 @@ export function useModels() {
         .single();
 
       if (error) throw error;
-      
+
+      await snapshotVersion(data, { note: 'Created' });
       toast.success('Model saved successfully');
       return data;
     } catch (error) {
@@ -85,12 +109,25 @@ export function useModels() {
       return null;
     }
 
+    // Name/status-only edits are metadata and do not create a version
+    const versioned = params.assumptions !== undefined || params.modelData !== undefined || params.scenarios !== undefined;
+
     setSaving(true);
     try {
+      if (versioned) {
+        const current = await getModel(modelId);
+        if (current) {
+          await ensureBaselineVersion(current, user).catch((error) =>
+            console.error('Error recording baseline model version:', error)
+          );
+        }
+      }
+
       const updateData: any = { updated_at: new Date().toISOString() };
       if (params.modelData !== undefined) updateData.model_data = params.modelData;
       if (params.assumptions !== undefined) updateData.assumptions = params.assumptions;
       if (params.historicalData !== undefined) updateData.historical_data = params.historicalData;
+      if (params.scenarios !== undefined) updateData.scenarios = params.scenarios;
       if (params.status !== undefined) updateData.status = params.status;
       if (params.name !== undefined) updateData.name = params.name;
 
@@ -102,7 +139,10 @@ export function useModels() {
         .single();
 
       if (error) throw error;
-      
+
+      if (versioned) {
+        await snapshotVersion(data, { note: params.versionNote, restoredFromVersion: params.restoredFromVersion });
+      }
       toast.success('Model updated');
       return data;
     } catch (error) {
@@ -153,12 +193,14 @@ export function useModels() {
           assumptions: original.assumptions,
           historical_data: original.historical_data,
           interview_responses: original.interview_responses,
+          scenarios: original.scenarios ?? [],
           status: 'draft'
         })
         .select()
         .single();
 
       if (error) throw error;
+      await snapshotVersion(data, { note: `Duplicated from ${original.name}` });
       toast.success('Model duplicated');
       return data;
     } catch (error) {
@@ -213,6 +255,7 @@ export function useModels() {
           assumptions: params.assumptions ?? original.assumptions,
           historical_data: params.historicalData ?? original.historical_data,
           interview_responses: original.interview_responses,
+          scenarios: params.scenarios ?? original.scenarios ?? [],
           status: params.status || 'draft',
           version: newVersion
         })
@@ -220,6 +263,7 @@ export function useModels() {
         .single();
 
       if (error) throw error;
+      await snapshotVersion(data, { note: `Forked from ${original.name}` });
       toast.success(`Saved as version ${newVersion}`);
       return data;
     } catch (error) {
@@ -229,7 +273,56 @@ export function useModels() {
     }
   };
 
-  const getModelsForCompany = async (companyId: string): Promise<Model[]> => {
+  const promoteToLBO = async (sourceModelId: string, name?: string): Promise<Model | null> => {
+    if (!user) {
+      toast.error('Please sign in');
+      return null;
+    }
+
+    setSaving(true);
+    try {
+      const source = await getModel(sourceModelId);
+      if (!source) throw new Error('Model not found');
+      if (source.model_type !== 'cash_flow_buildup') {
+        throw new Error('Only cash flow buildup models can be promoted to an LBO');
+      }
+
+      const operatingCase = operatingCaseFromCashFlowBuildup(source.model_data);
+      const assumptions = lboAssumptionsFromCashFlowBuildup(source.model_data, source.assumptions);
+
+      const modelData: LBOModelData = { operating_case: operatingCase, source_model_id: source.id };
+      const insert: TablesInsert<'models'> = {
+        company_id: source.company_id,
+        user_id: user.id,
+        model_type: 'lbo',
+        name: name || `${source.name.replace(/ v\d+$/, '')} LBO`,
+        model_data: modelData as unknown as Json,
+        assumptions: assumptions as unknown as Json,
+        historical_data: source.historical_data,
+        status: 'draft'
+      };
+
+      const { data, error } = await supabase
+        .from('models')
+        .insert(insert)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await snapshotVersion(data, { note: `Promoted from ${source.name}` });
+      toast.success('Promoted to LBO model');
+      return data;
+    } catch (error) {
+      console.error('Error promoting model to LBO:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to promote model');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Stable across renders so pages can load models from an effect
+  const getModelsForCompany = useCallback(async (companyId: string): Promise<Model[]> => {
     if (!user) return [];
 
     try {
@@ -245,7 +338,7 @@ export function useModels() {
       console.error('Error fetching models:', error);
       return [];
     }
-  };
+  }, [user]);
 
   const getAllModels = async (): Promise<Model[]> => {
     if (!user) return [];
@@ -271,6 +364,7 @@ export function useModels() {
     duplicateModel,
     deleteModel,
     saveAsNewVersion,
+    promoteToLBO,
     getModelsForCompany, 
     getAllModels,
     saving 
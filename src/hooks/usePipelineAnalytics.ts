@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrgId } from '@/contexts/OrganizationContext';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import {
+  AnalyticsCompany,
+  StageTransition,
+  buildStageIntervals,
+  computeConversionFunnel,
+  computeStageVelocity,
+  computeWinLoss,
+  findAgingDeals,
+} from '@/services/pipelineAnalyticsService';
+import { toast } from 'sonner';
+
+export function usePipelineAnalytics() {
+  const { user } = useAuth();
+  const orgId = useOrgId();
+  const { stages } = usePipelineStages();
+  const [transitions, setTransitions] = useState<StageTransition[]>([]);
+  const [companies, setCompanies] = useState<AnalyticsCompany[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    if (!user) {
+      setTransitions([]);
+      setCompanies([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      let historyQuery = supabase
+        .from('pipeline_stage_history')
+        .select('company_id, from_stage, to_stage, from_type, to_type, reason, notes, changed_by, changed_at')
+        .order('changed_at', { ascending: true });
+      let companyQuery = supabase
+        .from('companies')
+        .select('id, name, industry, deal_source, company_type, pipeline_stage');
+
+      if (orgId) {
+        historyQuery = historyQuery.eq('organization_id', orgId);
+        companyQuery = companyQuery.eq('organization_id', orgId);
+      } else {
+        historyQuery = historyQuery.eq('user_id', user.id);
+        companyQuery = companyQuery.eq('user_id', user.id);
+      }
+
+      const [history, companyResult] = await Promise.all([historyQuery, companyQuery]);
+      if (history.error) throw history.error;
+      if (companyResult.error) throw companyResult.error;
+
+      setTransitions(history.data || []);
+      setCompanies(companyResult.data || []);
+    } catch (error) {
+      console.error('Error fetching pipeline history:', error);
+      toast.error('Failed to load pipeline analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, orgId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const analytics = useMemo(() => {
+    const intervals = buildStageIntervals(stages, transitions);
+    return {
+      intervals,
+      funnel: computeConversionFunnel(stages, intervals, transitions),
+      velocity: computeStageVelocity(stages, intervals),
+      agingDeals: findAgingDeals(stages, intervals, companies),
+      winLossByIndustry: computeWinLoss('industry', companies, transitions),
+      winLossBySource: computeWinLoss('deal_source', companies, transitions),
+    };
+  }, [stages, transitions, companies]);
+
+  return {
+    ...analytics,
+    transitions,
+    isLoading,
+    refetch: fetchHistory,
+  };
+}
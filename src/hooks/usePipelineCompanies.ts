@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { StageTransitionCheck } from '@/services/pipelineStageService';
 
 export type CompanyType = 'pipeline' | 'portfolio' | 'prospect' | 'passed';
 
@@ -24,6 +26,7 @@ export interface PipelineCompany {
 
 export function usePipelineCompanies() {
   const { user } = useAuth();
+  const { moveToStage } = usePipelineStages();
   const [companies, setCompanies] = useState<PipelineCompany[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -51,25 +54,23 @@ export function usePipelineCompanies() {
     }
   };
 
-  const updateStage = async (companyId: string, newStage: string): Promise<boolean> => {
+  // Blocked moves come back with the unmet gates and leave the deal where it is
+  const updateStage = async (companyId: string, newStage: string): Promise<StageTransitionCheck | null> => {
+    const company = companies.find((c) => c.id === companyId);
     try {
-      const { error } = await supabase
-        .from('companies')
-        .update({ pipeline_stage: newStage })
-        .eq('id', companyId);
-
-      if (error) throw error;
-
-      setCompanies((prev) =>
-        prev.map((c) =>
-          c.id === companyId ? { ...c, pipeline_stage: newStage } : c
-        )
-      );
-      return true;
+      const check = await moveToStage(companyId, company?.pipeline_stage ?? null, newStage);
+      if (check.allowed) {
+        setCompanies((prev) =>
+          prev.map((c) =>
+            c.id === companyId ? { ...c, pipeline_stage: newStage } : c
+          )
+        );
+      }
+      return check;
     } catch (error) {
       console.error('Error updating stage:', error);
       toast.error('Failed to update stage');
-      return false;
+      return null;
     }
   };
 
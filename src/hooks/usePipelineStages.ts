@@ -0,0 +1,49 @@
+import { useCallback, useState } from 'react';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import {
+  DEFAULT_PIPELINE_STAGES,
+  StageTransitionCheck,
+  checkDealTransition,
+  moveDealToStage,
+} from '@/services/pipelineStageService';
+import { DEFAULT_CHECKLIST_TEMPLATES } from '@/services/dataRoomChecklistService';
+
+export function usePipelineStages() {
+  const { currentOrganization } = useOrganization();
+  const stages = currentOrganization?.pipeline_stages ?? DEFAULT_PIPELINE_STAGES;
+  const checklistTemplates = currentOrganization?.checklist_templates ?? DEFAULT_CHECKLIST_TEMPLATES;
+  const [checking, setChecking] = useState(false);
+
+  // Gate check alone, for saves that write the stage along with other fields
+  const checkMove = useCallback(
+    async (companyId: string, fromStageId: string | null, toStageId: string): Promise<StageTransitionCheck> => {
+      setChecking(true);
+      try {
+        return await checkDealTransition(stages, checklistTemplates, companyId, fromStageId, toStageId);
+      } finally {
+        setChecking(false);
+      }
+    },
+    [stages, checklistTemplates]
+  );
+
+  // Writes the new stage only when the gates crossed on the way pass; a blocked check lists what is missing
+  const moveToStage = useCallback(
+    async (companyId: string, fromStageId: string | null, toStageId: string): Promise<StageTransitionCheck> => {
+      setChecking(true);
+      try {
+        return await moveDealToStage(stages, checklistTemplates, companyId, fromStageId, toStageId);
+      } finally {
+        setChecking(false);
+      }
+    },
+    [stages, checklistTemplates]
+  );
+
+  return {
+    stages,
+    checking,
+    checkMove,
+    moveToStage,
+  };
+}
@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { getCachedQuotes } from '@/services/quoteCacheService';
+import { DEFAULT_CURRENCY } from '@/services/fxService';
+import { useFxRates } from '@/hooks/useForexCommodities';
 import { format, subDays, parseISO } from 'date-fns';
 
 export interface ChartDataPoint {
@@ -42,6 +44,8 @@ export interface PortfolioPerformanceData {
   isLoading: boolean;
   hasHistory: boolean;
   positionCount: number;
+  baseCurrency: string; // Currency of every value above
+  unconvertedCurrencies: string[]; // Held currencies with no spot rate, counted at face value
   refresh: () => Promise<void>;
   generateDemoHistory: () => void;
 }
@@ -50,6 +54,7 @@ interface UsePortfolioPerformanceOptions {
   days?: number;
   portfolioId?: string | null;
   allocations?: PortfolioAllocationInput[];
+  baseCurrency?: string;
 }
 
 interface PositionData {
@@ -62,6 +67,7 @@ interface PositionData {
   current_price: number | null;
   current_value: number | null;
   asset_type: string;
+  currency: string;
   last_price_update: string | null;
 }
 
@@ -74,13 +80,15 @@ interface HistorySnapshot {
 const HISTORY_KEY_PREFIX = 'portfolio-perf-history';
 const MAX_HISTORY_DAYS = 365;
 
-function getHistoryKey(portfolioId?: string | null): string {
-  return portfolioId ? `${HISTORY_KEY_PREFIX}-${portfolioId}` : HISTORY_KEY_PREFIX;
+// Snapshots are kept per base currency; USD keeps the original key
+function getHistoryKey(portfolioId?: string | null, baseCurrency: string = DEFAULT_CURRENCY): string {
+  const key = portfolioId ? `${HISTORY_KEY_PREFIX}-${portfolioId}` : HISTORY_KEY_PREFIX;
+  return baseCurrency === DEFAULT_CURRENCY ? key : `${key}-${baseCurrency}`;
 }
 
-function getStoredHistory(portfolioId?: string | null): HistorySnapshot[] {
+function getStoredHistory(portfolioId?: string | null, baseCurrency?: string): HistorySnapshot[] {
   try {
-    const key = getHistoryKey(portfolioId);
+    const key = getHistoryKey(portfolioId, baseCurrency);
     const stored = localStorage.getItem(key);
     return stored ? JSON.parse(stored) : [];
   } catch {
@@ -88,10 +96,10 @@ function getStoredHistory(portfolioId?: string | null): HistorySnapshot[] {
   }
 }
 
-function storeSnapshot(snapshot: HistorySnapshot, portfolioId?: string | null) {
+function storeSnapshot(snapshot: HistorySnapshot, portfolioId?: string | null, baseCurrency?: string) {
   try {
-    const key = getHistoryKey(portfolioId);
-    let history = getStoredHistory(portfolioId);
+    const key = getHistoryKey(portfolioId, baseCurrency);
+    let history = getStoredHistory(portfolioId, baseCurrency);
     const existingIndex = history.findIndex(h => h.date === snapshot.date);
     
     if (existingIndex >= 0) {
@@ -137,13 +145,17 @@ export function usePortfolioPerformance(
     ? { days: optionsOrDays } 
     : optionsOrDays;
   
-  const { days = 30, portfolioId } = options;
+  const { days = 30, portfolioId, baseCurrency = DEFAULT_CURRENCY } = options;
   const { user } = useAuth();
   
   const [positions, setPositions] = useState<PositionData[]>([]);
   const [liveQuotes, setLiveQuotes] = useState<Map<string, { price: number; change: number; changePercent: number }>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [history, setHistory] = useState<HistorySnapshot[]>([]);
+  
+  // Spot rates are only needed once something is held outside the base currency
+  const needsFx = positions.some(p => (p.currency || DEFAULT_CURRENCY) !== baseCurrency);
+  const { rates: fxRates } = useFxRates({ enabled: needsFx });
 
   // Fetch positions from synced_positions table
   const fetchPositions = useCallback(async () => {
@@ -193,8 +205,8 @@ export function usePortfolioPerformance(
   // Initial data load
   useEffect(() => {
     fetchPositions();
-    setHistory(getStoredHistory(portfolioId));
-  }, [fetchPositions, portfolioId]);
+    setHistory(getStoredHistory(portfolioId, baseCurrency));
+  }, [fetchPositions, portfolioId, baseCurrency]);
 
   // Fetch quotes when positions change
   useEffect(() => {
@@ -221,16 +233,25 @@ export function usePortfolioPerformance(
     let totalValue = 0;
     let totalCostBasis = 0;
     let totalTodayChange = 0;
+    const unconverted = new Set<string>();
 
     positions.forEach(pos => {
       const assetClass = mapAssetType(pos.asset_type);
       const quote = liveQuotes.get(pos.symbol.toUpperCase());
       
+      // Quotes and cost basis are in the position's currency; convert at the spot rate
+      const currency = pos.currency || DEFAULT_CURRENCY;
+      let fx = currency === baseCurrency ? 1 : fxRates?.rate(currency, baseCurrency) ?? null;
+      if (fx === null) {
+        unconverted.add(currency);
+        fx = 1;
+      }
+      
       const price = quote?.price ?? pos.current_price ?? 0;
       const dailyChange = quote?.change ?? 0;
-      const value = pos.quantity * price;
-      const costBasis = pos.cost_basis ?? (pos.cost_per_share ? pos.cost_per_share * pos.quantity : 0);
-      const todayChange = pos.quantity * dailyChange;
+      const value = pos.quantity * price * fx;
+      const costBasis = (pos.cost_basis ?? (pos.cost_per_share ? pos.cost_per_share * pos.quantity : 0)) * fx;
+      const todayChange = pos.quantity * dailyChange * fx;
 
       byAssetClass[assetClass].value += value;
       byAssetClass[assetClass].costBasis += costBasis;
@@ -255,12 +276,13 @@ export function usePortfolioPerformance(
       totalGainLoss,
       totalGainLossPercent,
       byAssetClass,
+      unconvertedCurrencies: [...unconverted],
     };
-  }, [positions, liveQuotes]);
+  }, [positions, liveQuotes, fxRates, baseCurrency]);
 
-  // Store today's snapshot whenever metrics change
+  // Store today's snapshot whenever metrics change, unless some holdings could not be converted yet
   useEffect(() => {
-    if (metrics.totalValue > 0) {
+    if (metrics.totalValue > 0 && metrics.unconvertedCurrencies.length === 0) {
       const today = new Date().toISOString().split('T')[0];
       const snapshot: HistorySnapshot = {
         date: today,
@@ -269,10 +291,10 @@ export function usePortfolioPerformance(
           Object.entries(metrics.byAssetClass).map(([k, v]) => [k, v.value])
         ),
       };
-      storeSnapshot(snapshot, portfolioId);
-      setHistory(getStoredHistory(portfolioId));
+      storeSnapshot(snapshot, portfolioId, baseCurrency);
+      setHistory(getStoredHistory(portfolioId, baseCurrency));
     }
-  }, [metrics.totalValue, portfolioId]);
+  }, [metrics.totalValue, metrics.unconvertedCurrencies.length, portfolioId, baseCurrency]);
 
   // Build chart data from history
   const chartData = useMemo<ChartDataPoint[]>(() => {
@@ -356,10 +378,10 @@ export function usePortfolioPerformance(
       });
     }
     
-    const key = getHistoryKey(portfolioId);
+    const key = getHistoryKey(portfolioId, baseCurrency);
     localStorage.setItem(key, JSON.stringify(demoHistory));
     setHistory(demoHistory);
-  }, [metrics, portfolioId]);
+  }, [metrics, portfolioId, baseCurrency]);
 
   return {
     ...metrics,
@@ -369,6 +391,7 @@ export function usePortfolioPerformance(
     isLoading,
     hasHistory: history.length > 1,
     positionCount: positions.length,
+    baseCurrency,
     refresh,
     generateDemoHistory: handleGenerateDemoHistory,
   };
@@ -3,6 +3,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { inferListingCurrency } from '@/services/fxService';
 import type { SyncedPosition, BrokerageConnection, PositionFormData } from '@/types/positions';
 
 export function usePositions(portfolioId?: string) {
@@ -63,6 +64,7 @@ export function usePositions(portfolioId?: string) {
       cost_basis: costBasis,
       cost_per_share: data.cost_per_share || null,
       asset_type: data.asset_type || 'stock',
+      currency: (data.currency || inferListingCurrency(data.symbol)).toUpperCase(),
       purchase_date: data.purchase_date || new Date().toISOString().split('T')[0],
       source,
     };
@@ -126,6 +128,7 @@ export function usePositions(portfolioId?: string) {
       cost_basis: data.cost_basis ?? (data.cost_per_share && data.quantity ? data.cost_per_share * data.quantity : null),
       cost_per_share: data.cost_per_share || null,
       asset_type: data.asset_type || 'stock',
+      currency: (data.currency || inferListingCurrency(data.symbol)).toUpperCase(),
       purchase_date: data.purchase_date || new Date().toISOString().split('T')[0],
       source: 'csv' as const,
     }));
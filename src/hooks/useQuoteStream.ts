@@ -0,0 +1,56 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { marketDataManager, quoteStream } from '@/services/MarketDataManager';
+import type { QuoteStreamState, QuoteTick } from '@/services/quoteStreamService';
+
+const subscribe = (listener: () => void) => quoteStream.subscribe(listener);
+const getSnapshot = () => quoteStream.getState();
+
+export function useQuoteStreamState(): QuoteStreamState {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * Latest streamed or polled tick for each symbol. Listening alone does not start a symbol streaming;
+ * something on screen has to mark it visible.
+ */
+export function useQuoteTicks(symbols: string[]): Map<string, QuoteTick> {
+  const [ticks, setTicks] = useState<Map<string, QuoteTick>>(new Map());
+  const key = [...new Set(symbols.map(s => s.toUpperCase()))].sort().join(',');
+
+  useEffect(() => {
+    const wanted = new Set(key.split(',').filter(Boolean));
+    setTicks(prev => new Map([...prev].filter(([s]) => wanted.has(s))));
+    return quoteStream.onTicks(batch => {
+      const relevant = [...batch].filter(([s]) => wanted.has(s));
+      if (relevant.length > 0) setTicks(prev => new Map([...prev, ...relevant]));
+    });
+  }, [key]);
+
+  return ticks;
+}
+
+/**
+ * Stream a ticker while the element given to the returned callback ref is in the viewport
+ */
+export function useVisibleTicker<T extends Element>(ticker: string | null) {
+  const [element, setElement] = useState<T | null>(null);
+
+  useEffect(() => {
+    if (!ticker || !element) return;
+    let visible = false;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting === visible) return;
+      visible = entry.isIntersecting;
+      if (visible) marketDataManager.markVisible(ticker);
+      else marketDataManager.markHidden(ticker);
+    });
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+      if (visible) marketDataManager.markHidden(ticker);
+    };
+  }, [ticker, element]);
+
+  return setElement;
+}
@@ -0,0 +1,102 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import { StrategyDefinition, validateStrategy } from '@/services/strategyDslService';
+
+// Rule-based strategies are stored in saved_portfolios under this mode
+export const STRATEGY_PORTFOLIO_MODE = 'strategy';
+
+export interface SavedStrategy {
+  id: string;
+  name: string;
+  description: string | null;
+  tickers: string[];
+  definition: StrategyDefinition;
+  updated_at: string;
+}
+
+export function useSavedStrategies() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: strategies = [], isLoading } = useQuery({
+    queryKey: ['saved-strategies', user?.id],
+    queryFn: async (): Promise<SavedStrategy[]> => {
+      if (!user?.id) return [];
+      const { data, error } = await supabase
+        .from('saved_portfolios')
+        .select('id, name, description, allocations, strategy, updated_at')
+        .eq('user_id', user.id)
+        .eq('portfolio_mode', STRATEGY_PORTFOLIO_MODE)
+        .order('updated_at', { ascending: false });
+      if (error) throw error;
+
+      return (data || []).flatMap(row => {
+        const { definition } = validateStrategy(row.strategy);
+        if (!definition) return [];
+        const allocations = Array.isArray(row.allocations) ? (row.allocations as { symbol?: string }[]) : [];
+        return [{
+          id: row.id,
+          name: row.name,
+          description: row.description,
+          tickers: allocations.map(a => a.symbol).filter((s): s is string => !!s),
+          definition,
+          updated_at: row.updated_at,
+        }];
+      });
+    },
+    enabled: !!user?.id,
+  });
+
+  // Saving under an existing name replaces that strategy
+  const saveMutation = useMutation({
+    mutationFn: async ({ definition, tickers, description }: { definition: StrategyDefinition; tickers: string[]; description?: string }) => {
+      if (!user?.id) throw new Error('Must be logged in');
+      const allocations = tickers.map(symbol => ({ symbol, weight: 100 / tickers.length }));
+      const fields = {
+        name: definition.name,
+        description: description || null,
+        allocations: allocations as unknown as Json,
+        strategy: definition as unknown as Json,
+        updated_at: new Date().toISOString(),
+      };
+
+      const existing = strategies.find(s => s.name === definition.name);
+      const { error } = existing
+        ? await supabase.from('saved_portfolios').update(fields).eq('id', existing.id)
+        : await supabase.from('saved_portfolios').insert([{ ...fields, user_id: user.id, portfolio_mode: STRATEGY_PORTFOLIO_MODE }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-strategies'] });
+      toast.success('Strategy saved');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save strategy: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('saved_portfolios').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-strategies'] });
+      toast.success('Strategy deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete strategy: ${error.message}`);
+    },
+  });
+
+  return {
+    strategies,
+    isLoading,
+    saveStrategy: saveMutation.mutateAsync,
+    deleteStrategy: deleteMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
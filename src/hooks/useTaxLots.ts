@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { getCachedQuotes } from '@/services/quoteCacheService';
+import { buildLotLedger, LotReliefMethod, LotSelection, LotTransaction } from '@/services/taxLotService';
+
+type AssetTransactionRow = Tables<'asset_transactions'>;
+
+interface TransactionWithCompany extends AssetTransactionRow {
+  companies: { ticker_symbol: string | null; name: string; current_price: number | null } | null;
+}
+
+/**
+ * Map an asset_transactions row onto the lot ledger's transaction shape
+ */
+export function lotTransactionFromRow(row: AssetTransactionRow, symbol: string): LotTransaction {
+  const shares = row.shares ?? 0;
+  return {
+    id: row.id,
+    symbol,
+    type: row.transaction_type,
+    date: row.transaction_date,
+    shares,
+    pricePerShare: row.price_per_share ?? (shares > 0 && row.total_amount ? row.total_amount / shares : 0),
+    splitRatio: row.split_ratio,
+    acquiredDate: row.acquired_date,
+    lotMethod: row.lot_method as LotReliefMethod | null,
+    lotSelection: Array.isArray(row.lot_selection) ? (row.lot_selection as unknown as LotSelection[]) : null,
+  };
+}
+
+/**
+ * All of the user's public-equity transactions replayed into tax lots, with current prices
+ */
+export function useTaxLots(defaultMethod: LotReliefMethod = 'fifo') {
+  const { user } = useAuth();
+  const [transactions, setTransactions] = useState<LotTransaction[]>([]);
+  const [prices, setPrices] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTransactions = useCallback(async () => {
+    if (!user) {
+      setTransactions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error: queryError } = await supabase
+        .from('asset_transactions')
+        .select('*, companies(ticker_symbol, name, current_price)')
+        .eq('user_id', user.id)
+        .order('transaction_date');
+      if (queryError) throw queryError;
+
+      const rows = (data || []) as TransactionWithCompany[];
+      const lotTransactions = rows.map(row =>
+        lotTransactionFromRow(row, row.companies?.ticker_symbol?.toUpperCase() || row.companies?.name || row.company_id)
+      );
+
+      // Stored prices first, then live quotes where the cache has them
+      const latest = new Map<string, number>();
+      rows.forEach(row => {
+        const symbol = row.companies?.ticker_symbol?.toUpperCase();
+        if (symbol && row.companies?.current_price) latest.set(symbol, row.companies.current_price);
+      });
+      const tickers = [...new Set(rows.map(r => r.companies?.ticker_symbol?.toUpperCase()).filter(Boolean))] as string[];
+      if (tickers.length > 0) {
+        try {
+          const quotes = await getCachedQuotes(tickers);
+          quotes.forEach((quote, symbol) => {
+            if (quote.price > 0) latest.set(symbol, quote.price);
+          });
+        } catch (quoteError) {
+          console.error('Tax lot quotes error:', quoteError);
+        }
+      }
+
+      setTransactions(lotTransactions);
+      setPrices(latest);
+      setError(null);
+    } catch (e) {
+      console.error('Tax lot transactions error:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load transactions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [fetchTransactions]);
+
+  const ledger = useMemo(() => buildLotLedger(transactions, defaultMethod), [transactions, defaultMethod]);
+
+  return { ledger, prices, transactions, isLoading, error, refetch: fetchTransactions };
+}
@@ -9,7 +9,10 @@ import {
   createPortfolioService,
   unifiedToAllocation,
   calculateSummary,
+  applyBaseCurrency,
 } from '@/services/unifiedPortfolioService';
+import { DEFAULT_CURRENCY, FxRates } from '@/services/fxService';
+import { useFxRates } from '@/hooks/useForexCommodities';
 import {
   useRealtimePositions,
   usePortfolioRealtimeInit,
@@ -24,6 +27,7 @@ interface UseUnifiedPortfolioOptions {
   portfolioId?: string | null;
   autoFetch?: boolean;
   enableRealtime?: boolean;
+  baseCurrency?: string; // Totals and weights are reported in this currency
 }
 
 interface UseUnifiedPortfolioReturn {
@@ -52,10 +56,10 @@ interface UseUnifiedPortfolioReturn {
 
 // Main unified hook
 export function useUnifiedPortfolio(options: UseUnifiedPortfolioOptions = {}): UseUnifiedPortfolioReturn {
-  const { portfolioId, autoFetch = true, enableRealtime = false } = options;
+  const { portfolioId, autoFetch = true, enableRealtime = false, baseCurrency = DEFAULT_CURRENCY } = options;
   const { user } = useAuth();
   
-  const [positions, setPositions] = useState<UnifiedPosition[]>([]);
+  const [rawPositions, setPositions] = useState<UnifiedPosition[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -68,8 +72,17 @@ export function useUnifiedPortfolio(options: UseUnifiedPortfolioOptions = {}): U
     return createPortfolioService(user.id, portfolioId);
   }, [user?.id, portfolioId]);
   
+  // Weights and totals in the base currency, at spot rates
+  const needsFx = rawPositions.some(p => p.currency !== baseCurrency);
+  const { rates: fxRates } = useFxRates({ enabled: needsFx });
+  const fx = useMemo(() => ({ baseCurrency, rates: fxRates ?? new FxRates() }), [baseCurrency, fxRates]);
+  const positions = useMemo(
+    () => (needsFx ? applyBaseCurrency(rawPositions, fx) : rawPositions),
+    [rawPositions, needsFx, fx]
+  );
+  
   // Derived data
-  const summary = useMemo(() => calculateSummary(positions), [positions]);
+  const summary = useMemo(() => calculateSummary(positions, fx), [positions, fx]);
   const allocations = useMemo(() => positions.map(p => unifiedToAllocation(p)), [positions]);
   const tickers = useMemo(() => [...new Set(positions.map(p => p.symbol))], [positions]);
   const tickerWeights = useMemo(() => {
@@ -99,6 +112,7 @@ export function useUnifiedPortfolio(options: UseUnifiedPortfolioOptions = {}): U
       unrealized_gain: p.unrealizedGain || null,
       unrealized_gain_percent: p.unrealizedGainPercent || null,
       asset_type: p.assetType || null,
+      currency: p.currency,
       source: p.source,
       purchase_date: p.purchaseDate || null,
       last_price_update: null,
@@ -303,6 +317,7 @@ function mapRealtimeToUnified(rt: RealtimePosition): UnifiedPosition {
     unrealizedGainPercent: rt.unrealized_gain_percent || null,
     assetType: rt.asset_type || 'stock',
     assetClass: null,
+    currency: rt.currency || DEFAULT_CURRENCY,
     sector: null,
     source: rt.source as 'manual' | 'brokerage' | 'csv' | 'visualizer',
     purchaseDate: rt.purchase_date || null,
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useWatchlist, WatchlistItem } from './useWatchlist';
-import { getCachedQuotes } from '@/services/quoteCacheService';
+import { useQuoteTicks } from './useQuoteStream';
+import { getCachedQuotes, getQuoteProvider } from '@/services/quoteCacheService';
+import type { ProviderId } from '@/services/marketDataRouter';
 import { StockQuote } from '@/services/finnhubService';
 
 export interface WatchlistItemWithQuote extends WatchlistItem {
@@ -22,6 +24,7 @@ export function useWatchlistWithQuotes() {
 
   const [quotes, setQuotes] = useState<Map<string, StockQuote>>(new Map());
   const [isLoadingQuotes, setIsLoadingQuotes] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
   const fetchQuotes = useCallback(async () => {
     if (watchlist.length === 0) {
@@ -35,6 +38,7 @@ export function useWatchlistWithQuotes() {
     try {
       const quotesMap = await getCachedQuotes(symbols);
       setQuotes(quotesMap);
+      setLastUpdated(new Date());
     } catch (error) {
       console.error('Failed to fetch quotes:', error);
     } finally {
@@ -46,8 +50,22 @@ export function useWatchlistWithQuotes() {
     fetchQuotes();
   }, [fetchQuotes]);
 
+  // Rows on screen stream; their ticks move the price against the fetched previous close
+  const ticks = useQuoteTicks(watchlist.map((item) => item.item_id));
+
   const itemsWithQuotes: WatchlistItemWithQuote[] = watchlist.map((item) => {
     const quote = quotes.get(item.item_id) || quotes.get(item.item_id.toUpperCase());
+    const tick = ticks.get(item.item_id.toUpperCase());
+    if (quote && tick && tick.timestamp > quote.timestamp) {
+      const change = tick.price - quote.previousClose;
+      return {
+        ...item,
+        currentPrice: tick.price,
+        change,
+        changePercent: quote.previousClose ? (change / quote.previousClose) * 100 : 0,
+        isLoading: isLoadingQuotes,
+      };
+    }
     return {
       ...item,
       currentPrice: quote?.price ?? null,
@@ -57,6 +75,10 @@ export function useWatchlistWithQuotes() {
     };
   });
 
+  const providers = [
+    ...new Set(watchlist.map((item) => getQuoteProvider(item.item_id)).filter((p): p is ProviderId => p !== null)),
+  ];
+
   // Stats calculations
   const gainersCount = itemsWithQuotes.filter((i) => (i.change ?? 0) > 0).length;
   const losersCount = itemsWithQuotes.filter((i) => (i.change ?? 0) < 0).length;
@@ -76,6 +98,8 @@ export function useWatchlistWithQuotes() {
     isAdding,
     isRemoving,
     refreshQuotes: fetchQuotes,
+    lastUpdated,
+    providers,
     stats: {
       total: watchlist.length,
       gainers: gainersCount,
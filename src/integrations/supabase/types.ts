@@ -117,6 +117,7 @@ export type Database = {
       alerts: {
         Row: {
           asset_id: string | null
+          company_id: string | null
           created_at: string | null
           description: string | null
           id: string
@@ -126,6 +127,7 @@ export type Database = {
         }
         Insert: {
           asset_id?: string | null
+          company_id?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
@@ -135,6 +137,7 @@ export type Database = {
         }
         Update: {
           asset_id?: string | null
+          company_id?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
@@ -150,6 +153,13 @@ export type Database = {
             referencedRelation: "portfolio_assets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "alerts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
         ]
       }
       arbitrage_opportunities: {
@@ -240,36 +250,48 @@ export type Database = {
       }
       asset_transactions: {
         Row: {
+          acquired_date: string | null
           company_id: string
           created_at: string
           id: string
+          lot_method: string | null
+          lot_selection: Json | null
           notes: string | null
           price_per_share: number | null
           shares: number | null
+          split_ratio: number | null
           total_amount: number | null
           transaction_date: string
           transaction_type: string
           user_id: string
         }
         Insert: {
+          acquired_date?: string | null
           company_id: string
           created_at?: string
           id?: string
+          lot_method?: string | null
+          lot_selection?: Json | null
           notes?: string | null
           price_per_share?: number | null
           shares?: number | null
+          split_ratio?: number | null
           total_amount?: number | null
           transaction_date?: string
           transaction_type: string
           user_id: string
         }
         Update: {
+          acquired_date?: string | null
           company_id?: string
           created_at?: string
           id?: string
+          lot_method?: string | null
+          lot_selection?: Json | null
           notes?: string | null
           price_per_share?: number | null
           shares?: number | null
+          split_ratio?: number | null
           total_amount?: number | null
           transaction_date?: string
           transaction_type?: string
@@ -563,12 +585,16 @@ export type Database = {
       companies: {
         Row: {
           asset_class: string | null
+          checklist_template_id: string | null
+          close_notes: string | null
+          close_reason: string | null
           company_type: Database["public"]["Enums"]["company_type"] | null
           cost_basis: number | null
           created_at: string
           created_by: string | null
           current_price: number | null
           deal_lead: string | null
+          deal_source: string | null
           description: string | null
           ebitda_ltm: number | null
           exchange: string | null
@@ -589,12 +615,16 @@ export type Database = {
         }
         Insert: {
           asset_class?: string | null
+          checklist_template_id?: string | null
+          close_notes?: string | null
+          close_reason?: string | null
           company_type?: Database["public"]["Enums"]["company_type"] | null
           cost_basis?: number | null
           created_at?: string
           created_by?: string | null
           current_price?: number | null
           deal_lead?: string | null
+          deal_source?: string | null
           description?: string | null
           ebitda_ltm?: number | null
           exchange?: string | null
@@ -615,12 +645,16 @@ export type Database = {
         }
         Update: {
           asset_class?: string | null
+          checklist_template_id?: string | null
+          close_notes?: string | null
+          close_reason?: string | null
           company_type?: Database["public"]["Enums"]["company_type"] | null
           cost_basis?: number | null
           created_at?: string
           created_by?: string | null
           current_price?: number | null
           deal_lead?: string | null
+          deal_source?: string | null
           description?: string | null
           ebitda_ltm?: number | null
           exchange?: string | null
@@ -928,6 +962,196 @@ export type Database = {
           },
         ]
       }
+      covenant_tests: {
+        Row: {
+          actual_value: number | null
+          covenant_id: string
+          headroom_pct: number | null
+          id: string
+          is_projected: boolean
+          limit_value: number
+          model_id: string | null
+          period: string
+          period_end: string | null
+          status: string
+          tested_at: string
+        }
+        Insert: {
+          actual_value?: number | null
+          covenant_id: string
+          headroom_pct?: number | null
+          id?: string
+          is_projected?: boolean
+          limit_value: number
+          model_id?: string | null
+          period: string
+          period_end?: string | null
+          status: string
+          tested_at?: string
+        }
+        Update: {
+          actual_value?: number | null
+          covenant_id?: string
+          headroom_pct?: number | null
+          id?: string
+          is_projected?: boolean
+          limit_value?: number
+          model_id?: string | null
+          period?: string
+          period_end?: string | null
+          status?: string
+          tested_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "covenant_tests_covenant_id_fkey"
+            columns: ["covenant_id"]
+            isOneToOne: false
+            referencedRelation: "portfolio_covenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "covenant_tests_model_id_fkey"
+            columns: ["model_id"]
+            isOneToOne: false
+            referencedRelation: "models"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_room_checklist_items: {
+        Row: {
+          company_id: string
+          created_at: string
+          document_ids: string[]
+          due_date: string | null
+          id: string
+          item_id: string
+          notes: string | null
+          owner_id: string | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          document_ids?: string[]
+          due_date?: string | null
+          id?: string
+          item_id: string
+          notes?: string | null
+          owner_id?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          document_ids?: string[]
+          due_date?: string | null
+          id?: string
+          item_id?: string
+          notes?: string | null
+          owner_id?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_room_checklist_items_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "data_room_checklist_items_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_room_questions: {
+        Row: {
+          answer: string | null
+          answered_at: string | null
+          assignee_id: string | null
+          attachment_ids: string[]
+          category: string | null
+          checklist_item_id: string | null
+          company_id: string
+          created_at: string
+          document_id: string | null
+          id: string
+          number: number
+          priority: string
+          question: string
+          raised_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          answer?: string | null
+          answered_at?: string | null
+          assignee_id?: string | null
+          attachment_ids?: string[]
+          category?: string | null
+          checklist_item_id?: string | null
+          company_id: string
+          created_at?: string
+          document_id?: string | null
+          id?: string
+          number: number
+          priority?: string
+          question: string
+          raised_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          answer?: string | null
+          answered_at?: string | null
+          assignee_id?: string | null
+          attachment_ids?: string[]
+          category?: string | null
+          checklist_item_id?: string | null
+          company_id?: string
+          created_at?: string
+          document_id?: string | null
+          id?: string
+          number?: number
+          priority?: string
+          question?: string
+          raised_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_room_questions_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "data_room_questions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "data_room_questions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       data_sync_log: {
         Row: {
           bars_inserted: number | null
@@ -1710,6 +1934,63 @@ export type Database = {
         }
         Relationships: []
       }
+      market_corporate_action_coverage: {
+        Row: {
+          checked_at: string | null
+          covered_from: string
+          covered_to: string
+          ticker: string
+        }
+        Insert: {
+          checked_at?: string | null
+          covered_from: string
+          covered_to: string
+          ticker: string
+        }
+        Update: {
+          checked_at?: string | null
+          covered_from?: string
+          covered_to?: string
+          ticker?: string
+        }
+        Relationships: []
+      }
+      market_corporate_actions: {
+        Row: {
+          action_date: string
+          action_type: string
+          cash_amount: number | null
+          created_at: string | null
+          id: number
+          source: string
+          split_from: number | null
+          split_to: number | null
+          ticker: string
+        }
+        Insert: {
+          action_date: string
+          action_type: string
+          cash_amount?: number | null
+          created_at?: string | null
+          id?: number
+          source?: string
+          split_from?: number | null
+          split_to?: number | null
+          ticker: string
+        }
+        Update: {
+          action_date?: string
+          action_type?: string
+          cash_amount?: number | null
+          created_at?: string | null
+          id?: number
+          source?: string
+          split_from?: number | null
+          split_to?: number | null
+          ticker?: string
+        }
+        Relationships: []
+      }
       market_daily_bars: {
         Row: {
           bar_date: string
@@ -1952,6 +2233,56 @@ export type Database = {
         }
         Relationships: []
       }
+      model_versions: {
+        Row: {
+          assumptions: Json | null
+          author_name: string | null
+          created_at: string
+          created_by: string
+          id: string
+          model_data: Json | null
+          model_id: string
+          note: string | null
+          restored_from_version: number | null
+          scenarios: Json
+          version_number: number
+        }
+        Insert: {
+          assumptions?: Json | null
+          author_name?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          model_data?: Json | null
+          model_id: string
+          note?: string | null
+          restored_from_version?: number | null
+          scenarios?: Json
+          version_number: number
+        }
+        Update: {
+          assumptions?: Json | null
+          author_name?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          model_data?: Json | null
+          model_id?: string
+          note?: string | null
+          restored_from_version?: number | null
+          scenarios?: Json
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "model_versions_model_id_fkey"
+            columns: ["model_id"]
+            isOneToOne: false
+            referencedRelation: "models"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       models: {
         Row: {
           assumptions: Json | null
@@ -1963,6 +2294,7 @@ export type Database = {
           model_data: Json | null
           model_type: string
           name: string
+          scenarios: Json
           status: string | null
           updated_at: string
           user_id: string
@@ -1978,6 +2310,7 @@ export type Database = {
           model_data?: Json | null
           model_type: string
           name: string
+          scenarios?: Json
           status?: string | null
           updated_at?: string
           user_id: string
@@ -1993,6 +2326,7 @@ export type Database = {
           model_data?: Json | null
           model_type?: string
           name?: string
+          scenarios?: Json
           status?: string | null
           updated_at?: string
           user_id?: string
@@ -2233,6 +2567,7 @@ export type Database = {
       organizations: {
         Row: {
           allow_join_requests: boolean | null
+          checklist_templates: Json | null
           created_at: string | null
           created_by: string | null
           default_asset_view: string | null
@@ -2243,6 +2578,7 @@ export type Database = {
           max_companies: number | null
           max_members: number | null
           name: string
+          pipeline_stages: Json | null
           plan: string | null
           settings: Json | null
           slug: string
@@ -2252,6 +2588,7 @@ export type Database = {
         }
         Insert: {
           allow_join_requests?: boolean | null
+          checklist_templates?: Json | null
           created_at?: string | null
           created_by?: string | null
           default_asset_view?: string | null
@@ -2262,6 +2599,7 @@ export type Database = {
           max_companies?: number | null
           max_members?: number | null
           name: string
+          pipeline_stages?: Json | null
           plan?: string | null
           settings?: Json | null
           slug: string
@@ -2271,6 +2609,7 @@ export type Database = {
         }
         Update: {
           allow_join_requests?: boolean | null
+          checklist_templates?: Json | null
           created_at?: string | null
           created_by?: string | null
           default_asset_view?: string | null
@@ -2281,6 +2620,7 @@ export type Database = {
           max_companies?: number | null
           max_members?: number | null
           name?: string
+          pipeline_stages?: Json | null
           plan?: string | null
           settings?: Json | null
           slug?: string
@@ -2329,6 +2669,66 @@ export type Database = {
         }
         Relationships: []
       }
+      pipeline_stage_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          company_id: string
+          from_stage: string | null
+          from_type: string | null
+          id: string
+          notes: string | null
+          organization_id: string | null
+          reason: string | null
+          to_stage: string | null
+          to_type: string | null
+          user_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          company_id: string
+          from_stage?: string | null
+          from_type?: string | null
+          id?: string
+          notes?: string | null
+          organization_id?: string | null
+          reason?: string | null
+          to_stage?: string | null
+          to_type?: string | null
+          user_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          company_id?: string
+          from_stage?: string | null
+          from_type?: string | null
+          id?: string
+          notes?: string | null
+          organization_id?: string | null
+          reason?: string | null
+          to_stage?: string | null
+          to_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stage_history_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_stage_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       portfolio_assets: {
         Row: {
           asset_type: string
@@ -2383,30 +2783,63 @@ export type Database = {
       portfolio_covenants: {
         Row: {
           asset_id: string | null
+          company_id: string | null
           covenant_type: string
           created_at: string | null
+          created_by: string | null
           current_value: number
+          headroom_pct: number | null
           id: string
           is_warning: boolean | null
+          last_period: string | null
+          last_tested_at: string | null
           limit_value: number
+          model_id: string | null
+          projected_breach_period: string | null
+          status: string
+          test_frequency: string
+          updated_at: string
+          warning_headroom_pct: number
         }
         Insert: {
           asset_id?: string | null
+          company_id?: string | null
           covenant_type: string
           created_at?: string | null
+          created_by?: string | null
           current_value: number
+          headroom_pct?: number | null
           id?: string
           is_warning?: boolean | null
+          last_period?: string | null
+          last_tested_at?: string | null
           limit_value: number
+          model_id?: string | null
+          projected_breach_period?: string | null
+          status?: string
+          test_frequency?: string
+          updated_at?: string
+          warning_headroom_pct?: number
         }
         Update: {
           asset_id?: string | null
+          company_id?: string | null
           covenant_type?: string
           created_at?: string | null
+          created_by?: string | null
           current_value?: number
+          headroom_pct?: number | null
           id?: string
           is_warning?: boolean | null
+          last_period?: string | null
+          last_tested_at?: string | null
           limit_value?: number
+          model_id?: string | null
+          projected_breach_period?: string | null
+          status?: string
+          test_frequency?: string
+          updated_at?: string
+          warning_headroom_pct?: number
         }
         Relationships: [
           {
@@ -2416,6 +2849,20 @@ export type Database = {
             referencedRelation: "portfolio_assets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "portfolio_covenants_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "portfolio_covenants_model_id_fkey"
+            columns: ["model_id"]
+            isOneToOne: false
+            referencedRelation: "models"
+            referencedColumns: ["id"]
+          },
         ]
       }
       prediction_markets: {
@@ -2496,6 +2943,7 @@ export type Database = {
       profiles: {
         Row: {
           avatar_url: string | null
+          base_currency: string
           company: string | null
           created_at: string
           current_organization_id: string | null
@@ -2512,6 +2960,7 @@ export type Database = {
         }
         Insert: {
           avatar_url?: string | null
+          base_currency?: string
           company?: string | null
           created_at?: string
           current_organization_id?: string | null
@@ -2528,6 +2977,7 @@ export type Database = {
         }
         Update: {
           avatar_url?: string | null
+          base_currency?: string
           company?: string | null
           created_at?: string
           current_organization_id?: string | null
@@ -2677,36 +3127,45 @@ export type Database = {
       saved_portfolios: {
         Row: {
           allocations: Json
+          base_currency: string | null
           created_at: string
           description: string | null
           id: string
           investor_profile: Json | null
           name: string
           portfolio_mode: string | null
+          strategy: Json | null
           updated_at: string
           user_id: string
+          views: Json
         }
         Insert: {
           allocations?: Json
+          base_currency?: string | null
           created_at?: string
           description?: string | null
           id?: string
           investor_profile?: Json | null
           name: string
           portfolio_mode?: string | null
+          strategy?: Json | null
           updated_at?: string
           user_id: string
+          views?: Json
         }
         Update: {
           allocations?: Json
+          base_currency?: string | null
           created_at?: string
           description?: string | null
           id?: string
           investor_profile?: Json | null
           name?: string
           portfolio_mode?: string | null
+          strategy?: Json | null
           updated_at?: string
           user_id?: string
+          views?: Json
         }
         Relationships: []
       }
@@ -2845,6 +3304,7 @@ export type Database = {
           cost_basis: number | null
           cost_per_share: number | null
           created_at: string
+          currency: string
           current_price: number | null
           current_value: number | null
           id: string
@@ -2866,6 +3326,7 @@ export type Database = {
           cost_basis?: number | null
           cost_per_share?: number | null
           created_at?: string
+          currency?: string
           current_price?: number | null
           current_value?: number | null
           id?: string
@@ -2887,6 +3348,7 @@ export type Database = {
           cost_basis?: number | null
           cost_per_share?: number | null
           created_at?: string
+          currency?: string
           current_price?: number | null
           current_value?: number | null
           id?: string
@@ -3773,6 +4235,10 @@ export type Database = {
           source_url: string
         }[]
       }
+      split_adjusted_dividends: {
+        Args: { p_after_date: string; p_through_date: string; p_ticker: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "member" | "viewer"
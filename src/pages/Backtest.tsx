@@ -16,6 +16,17 @@ import { cn } from '@/lib/utils';
 import { usePortfolioForBacktest } from '@/hooks/useUnifiedPortfolio';
 import { StudiesValidationPanel } from '@/components/dev/StudiesValidationPanel';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { StrategyBuilder } from '@/components/backtester/StrategyBuilder';
+import { WalkForwardPanel } from '@/components/backtester/WalkForwardPanel';
+import {
+  STRATEGY_TEMPLATES,
+  StrategyBacktestResult,
+  StrategyDefinition,
+  backtestStrategy,
+  loadCachedBars,
+  validateStrategy,
+} from '@/services/strategyDslService';
+import { DEFAULT_COST_MODEL } from '@/services/transactionCostService';
 
 const POPULAR_TICKERS = ['SPY', 'QQQ', 'AAPL', 'MSFT', 'GOOGL', 'AMZN', 'NVDA', 'TSLA'];
 
@@ -56,6 +67,42 @@ interface BacktestResults {
   }>;
 }
 
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Map a local rule-based run onto the shape returned by the run-backtest edge function
+function toBacktestResults(result: StrategyBacktestResult): BacktestResults {
+  const { metrics } = result;
+  const trades = result.trades
+    .flatMap(t => [
+      { date: t.entryDate, ticker: t.symbol, action: 'BUY' as const, shares: t.shares, price: round2(t.entryPrice) },
+      ...(t.exitReason === 'end_of_data'
+        ? []
+        : [{ date: t.exitDate, ticker: t.symbol, action: 'SELL' as const, shares: t.shares, price: round2(t.exitPrice) }]),
+    ])
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const warnings = result.missingSymbols.length > 0 ? [`No cached prices for ${result.missingSymbols.join(', ')}`] : [];
+  if (metrics.totalCosts > 0) warnings.push(`Includes $${metrics.totalCosts.toFixed(2)} of estimated trading costs`);
+
+  return {
+    success: true,
+    metrics: {
+      totalReturn: round2(metrics.totalReturn),
+      annualizedReturn: round2(metrics.cagr),
+      sharpeRatio: round2(metrics.sharpeRatio),
+      maxDrawdown: round2(metrics.maxDrawdownPercent),
+      initialCapital: result.initialCapital,
+      finalValue: round2(result.finalValue),
+      tradingDays: result.equity.length,
+      totalTrades: trades.length,
+      volatility: round2(metrics.volatility),
+    },
+    warnings,
+    portfolioHistory: result.equity.map(e => ({ date: e.date, value: round2(e.value) })),
+    finalHoldings: result.finalHoldings,
+    trades,
+  };
+}
+
 export default function BacktestPage() {
   // Use unified portfolio hook to get real portfolio positions
   const { tickers: portfolioTickers, tickerWeights: portfolioWeights, allocations: portfolioAllocations } = usePortfolioForBacktest();
@@ -71,6 +118,7 @@ export default function BacktestPage() {
   const [strategy, setStrategy] = useState('buy_hold');
   const [rebalance, setRebalance] = useState('monthly');
   const [capital, setCapital] = useState(100000);
+  const [customStrategy, setCustomStrategy] = useState<StrategyDefinition>(STRATEGY_TEMPLATES[0]);
   const [isLoading, setIsLoading] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
   const [results, setResults] = useState<BacktestResults | null>(null);
@@ -128,6 +176,16 @@ export default function BacktestPage() {
       return;
     }
 
+    let definition: StrategyDefinition | null = null;
+    if (strategy === 'custom_rules') {
+      const validation = validateStrategy(customStrategy);
+      if (!validation.definition) {
+        toast.error(validation.errors[0]);
+        return;
+      }
+      definition = validation.definition;
+    }
+
     setIsLoading(true);
     setResults(null);
 
@@ -145,6 +203,16 @@ export default function BacktestPage() {
       const summary = fetchResult.summary;
       toast.success(`Data ready: ${summary.fromCache} cached, ${summary.fromApi} fetched`);
 
+      // Rule-based strategies are evaluated locally on the cached bars
+      if (definition) {
+        const bars = await loadCachedBars(tickers, startDate, endDate);
+        const local = backtestStrategy(definition, bars, { initialCapital: capital, costModel: DEFAULT_COST_MODEL });
+        if (local.equity.length === 0) throw new Error('No cached price data for the selected tickers');
+        setResults(toBacktestResults(local));
+        toast.success('Backtest complete!');
+        return;
+      }
+
       // Step 2: Run backtest
       const { data: backtestResult, error: backtestError } = await supabase.functions.invoke('run-backtest', {
         body: {
@@ -336,8 +404,18 @@ export default function BacktestPage() {
                 <SelectContent>
                   <SelectItem value="buy_hold">Buy & Hold</SelectItem>
                   <SelectItem value="equal_weight">Equal Weight Rebalancing</SelectItem>
+                  <SelectItem value="custom_rules">Custom Rules</SelectItem>
                 </SelectContent>
               </Select>
+
+              {strategy === 'custom_rules' && (
+                <StrategyBuilder
+                  value={customStrategy}
+                  onChange={setCustomStrategy}
+                  tickers={tickers}
+                  onTickersChange={setTickers}
+                />
+              )}
               
               {strategy === 'equal_weight' && (
                 <div className="space-y-2">
@@ -692,6 +770,11 @@ export default function BacktestPage() {
             )}
           </Card>
         </div>
+
+        {/* Out-of-sample validation of parameterized strategies on the selected tickers */}
+        <Card className="p-6 bg-card border-border">
+          <WalkForwardPanel tickers={tickers} startDate={startDate} endDate={endDate} initialCapital={capital} />
+        </Card>
       </div>
       
       {/* Dev Tools: Studies Validation Panel */}
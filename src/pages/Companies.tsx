@@ -12,6 +12,9 @@ import { PortfolioGridView } from '@/components/companies/PortfolioGridView';
 import { AddAssetWizard } from '@/components/companies/AddAssetWizard';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AssetTypeFilter, useAssetTypeFilter } from '@/components/shared/AssetTypeFilter';
+import { BlockedStageMove, StageGateDialog } from '@/components/pipeline/StageGateDialog';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { StageTransitionCheck } from '@/services/pipelineStageService';
 
 type ViewType = 'list' | 'pipeline' | 'portfolio';
 type StageFilter = 'all' | 'pipeline' | 'portfolio' | 'passed';
@@ -23,6 +26,8 @@ export default function Companies() {
   const [stageFilter, setStageFilter] = useState<StageFilter>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [wizardOpen, setWizardOpen] = useState(false);
+  const [blockedMove, setBlockedMove] = useState<BlockedStageMove | null>(null);
+  const { stages } = usePipelineStages();
   const assetTypeFilter = useAssetTypeFilter();
 
   // Calculate counts
@@ -52,10 +57,26 @@ export default function Companies() {
     });
   }, [companies, searchQuery, stageFilter, assetTypeFilter]);
 
+  // Stage moves that miss a gate open the requirements dialog instead of moving the deal
+  const showBlockedMove = (companyId: string, targetStageId: string, check: StageTransitionCheck) => {
+    if (check.allowed) return true;
+    setBlockedMove({
+      companyId,
+      companyName: companies.find(c => c.id === companyId)?.name || 'This deal',
+      targetStage: stages.find(s => s.id === targetStageId)!,
+      check,
+    });
+    return false;
+  };
+
   const handleUpdateStage = async (companyId: string, stage: CompanyStage, subStage?: string) => {
-    await updateStage(companyId, stage, subStage);
+    const check = await updateStage(companyId, stage, subStage);
+    if (subStage) showBlockedMove(companyId, subStage, check);
   };
 
+  const handleUpdatePipelineStage = async (companyId: string, pipelineStage: string) =>
+    showBlockedMove(companyId, pipelineStage, await updatePipelineStage(companyId, pipelineStage));
+
   const formatCurrency = (value: number) => {
     if (value >= 1000) return `$${(value / 1000).toFixed(1)}B`;
     return `$${value.toFixed(0)}M`;
@@ -174,7 +195,7 @@ export default function Companies() {
           {view === 'pipeline' && (
             <PipelineKanbanView 
               companies={filteredCompanies}
-              onUpdatePipelineStage={updatePipelineStage}
+              onUpdatePipelineStage={handleUpdatePipelineStage}
             />
           )}
           {view === 'portfolio' && (
@@ -186,6 +207,13 @@ export default function Companies() {
         </>
       )}
 
+      {/* Stage Gate Dialog */}
+      <StageGateDialog
+        blockedMove={blockedMove}
+        onOpenChange={open => !open && setBlockedMove(null)}
+        onOpenDataRoom={companyId => navigate(`/documents?company=${companyId}`)}
+      />
+
       {/* Creation Wizard */}
       <AddAssetWizard
         open={wizardOpen}
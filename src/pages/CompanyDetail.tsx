@@ -13,6 +13,7 @@ import { MarketIntelTab } from '@/components/companies/MarketIntelTab';
 import { EmbeddedDataRoom } from '@/components/companies/EmbeddedDataRoom';
 import { CompanyTeamPanel } from '@/components/companies/CompanyTeamPanel';
 import { CompanyTasksTab } from '@/components/companies/CompanyTasksTab';
+import { CovenantsTab } from '@/components/companies/CovenantsTab';
 import { ProcessingBanner, ProcessingIndicator, AIAnalyzedBadge } from '@/components/companies/ProcessingBanner';
 import { AISummaryCard } from '@/components/companies/AISummaryCard';
 import { PublicEquityDetailView } from '@/components/equity/PublicEquityDetailView';
@@ -47,6 +48,7 @@ import {
   Briefcase,
   BarChart3,
   FlaskConical,
+  ShieldCheck,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { useCompanyTasks } from '@/hooks/useTasks';
@@ -242,6 +244,7 @@ export default function CompanyDetail() {
   };
 
   const isPublicEquity = company.asset_class === 'public_equity' && company.ticker_symbol;
+  const isPortfolioCompany = !isPublicEquity && company.company_type === 'portfolio';
 
   // Unified company view for both public and private companies
   return (
@@ -362,6 +365,12 @@ export default function CompanyDetail() {
               <span className="hidden sm:inline">Notes & Tasks</span>
               <span className="sm:hidden">Tasks</span>
             </TabsTrigger>
+            {isPortfolioCompany && (
+              <TabsTrigger value="covenants" className="gap-1.5 text-sm md:text-base px-3 md:px-5 py-2.5 md:py-3 whitespace-nowrap">
+                <ShieldCheck className="h-4 w-4 md:h-5 md:w-5" />
+                Covenants
+              </TabsTrigger>
+            )}
             {isPublicEquity && (
               <TabsTrigger value="backtest" className="gap-1.5 text-sm md:text-base px-3 md:px-5 py-2.5 md:py-3 whitespace-nowrap">
                 <BarChart3 className="h-4 w-4 md:h-5 md:w-5" />
@@ -693,6 +702,13 @@ export default function CompanyDetail() {
         {/* Notes Tab - Moved to combined Notes & Tasks */}
 
 
+        {/* Covenants Tab - Portfolio Companies Only */}
+        {isPortfolioCompany && (
+          <TabsContent value="covenants">
+            <CovenantsTab companyId={company.id} companyName={company.name} />
+          </TabsContent>
+        )}
+
         {/* Backtest Tab - Public Equity Only */}
         {isPublicEquity && company.ticker_symbol && (
           <TabsContent value="backtest">
@@ -11,6 +11,7 @@ import {
   Loader2,
   FolderOpen,
   ChevronRight,
+  MessageSquareText,
 } from "lucide-react";
 import { FolderSidebar, FolderNode } from "@/components/dataroom/FolderSidebar";
 import { DocumentTable, DocumentItem } from "@/components/dataroom/DocumentTable";
@@ -18,6 +19,7 @@ import { InlineUploadZone } from "@/components/dataroom/InlineUploadZone";
 import { CompanySummaryCard } from "@/components/dataroom/CompanySummaryCard";
 import { DocumentPreview } from "@/components/dataroom/DocumentPreview";
 import { DataRoomChecklist } from "@/components/dataroom/DataRoomChecklist";
+import { QATracker } from "@/components/dataroom/QATracker";
 import { useCompanies } from "@/hooks/useCompanies";
 import { useDocuments, DocumentRecord } from "@/hooks/useDocuments";
 import { useAuth } from "@/contexts/AuthContext";
@@ -114,6 +116,7 @@ export default function DataRoom() {
   const [selectedPath, setSelectedPath] = useState<string[]>(["All Files"]);
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set());
   const [viewMode, setViewMode] = useState<"list" | "grid">("list");
+  const [section, setSection] = useState<"documents" | "qa">("documents");
   const [previewDocument, setPreviewDocument] = useState<DocumentItem | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -203,6 +206,13 @@ export default function DataRoom() {
     }
   };
 
+  const handleDownloadRecord = async (doc: DocumentRecord) => {
+    const url = await getDownloadUrl(doc.file_path);
+    if (url) {
+      window.open(url, "_blank");
+    }
+  };
+
   const handleDelete = async (doc: DocumentItem) => {
     const realId = doc.id.startsWith("doc-") ? doc.id.replace("doc-", "") : doc.id;
     const success = await deleteDocument(realId, doc.filePath);
@@ -368,98 +378,136 @@ export default function DataRoom() {
 
         {/* Toolbar */}
         <div className="flex items-center justify-between gap-4 p-4 border-b border-border">
-          <div className="flex items-center gap-2 text-sm">
-            <FolderOpen className="h-4 w-4 text-primary" />
-            {selectedPath.map((segment, i) => (
-              <span key={i} className="flex items-center gap-2">
-                {i > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
-                <span
-                  className={
-                    i === selectedPath.length - 1
-                      ? "font-medium text-foreground"
-                      : "text-muted-foreground"
-                  }
-                >
-                  {segment}
-                </span>
-              </span>
-            ))}
-          </div>
-
-          <div className="flex items-center gap-3">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search documents..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9 w-56 h-8"
-              />
-            </div>
-
+          <div className="flex items-center gap-4 text-sm min-w-0">
             <div className="flex items-center border border-border rounded-md p-0.5">
               <Button
-                variant={viewMode === "list" ? "secondary" : "ghost"}
-                size="icon-sm"
-                onClick={() => setViewMode("list")}
+                variant={section === "documents" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSection("documents")}
               >
-                <List className="h-3.5 w-3.5" />
+                Documents
               </Button>
               <Button
-                variant={viewMode === "grid" ? "secondary" : "ghost"}
-                size="icon-sm"
-                onClick={() => setViewMode("grid")}
+                variant={section === "qa" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSection("qa")}
               >
-                <LayoutGrid className="h-3.5 w-3.5" />
+                <MessageSquareText className="mr-1.5 h-3.5 w-3.5" />
+                Q&A
               </Button>
             </div>
+
+            {section === "documents" && (
+              <div className="flex items-center gap-2">
+                <FolderOpen className="h-4 w-4 text-primary" />
+                {selectedPath.map((segment, i) => (
+                  <span key={i} className="flex items-center gap-2">
+                    {i > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                    <span
+                      className={
+                        i === selectedPath.length - 1
+                          ? "font-medium text-foreground"
+                          : "text-muted-foreground"
+                      }
+                    >
+                      {segment}
+                    </span>
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
+
+          {section === "documents" && (
+            <div className="flex items-center gap-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search documents..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9 w-56 h-8"
+                />
+              </div>
+
+              <div className="flex items-center border border-border rounded-md p-0.5">
+                <Button
+                  variant={viewMode === "list" ? "secondary" : "ghost"}
+                  size="icon-sm"
+                  onClick={() => setViewMode("list")}
+                >
+                  <List className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant={viewMode === "grid" ? "secondary" : "ghost"}
+                  size="icon-sm"
+                  onClick={() => setViewMode("grid")}
+                >
+                  <LayoutGrid className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Content Area */}
         <div className="flex-1 overflow-y-auto p-4 custom-scrollbar space-y-4">
-          {/* Always-visible upload zone */}
-          {selectedCompanyId && (
-            <InlineUploadZone
+          {section === "qa" && selectedCompanyId ? (
+            <QATracker
               companyId={selectedCompanyId}
-              folder={selectedFolderId === "historical" ? "Financial" : "General"}
-              subfolder={selectedFolderId === "historical" ? "Historical" : undefined}
-              onUploadComplete={refreshData}
+              companyName={selectedCompany?.name || "Company"}
+              documents={documents}
+              onDocumentsChanged={refreshData}
+              onDownload={handleDownloadRecord}
             />
-          )}
-
-          {/* Document Table */}
-          {loading ? (
-            <div className="flex items-center justify-center py-16">
-              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-            </div>
-          ) : !selectedCompanyId ? (
-            <div className="flex flex-col items-center justify-center py-16 text-center">
-              <Building2 className="h-12 w-12 text-muted-foreground/50 mb-4" />
-              <h3 className="text-lg font-medium text-foreground mb-1">
-                Select a company
-              </h3>
-              <p className="text-sm text-muted-foreground">
-                Choose a company to view its documents
-              </p>
-            </div>
           ) : (
             <>
-              <DocumentTable
-                documents={displayItems}
-                selectedDocuments={selectedDocuments}
-                onToggleSelect={handleToggleSelect}
-                onSelectAll={handleSelectAll}
-                onView={handleView}
-                onDownload={handleDownload}
-                onDelete={handleDelete}
-                onRename={handleRename}
-                onMoveToFolder={handleMoveToFolder}
-              />
-              {displayItems.length > 0 && (
-                <p className="text-xs text-muted-foreground">
-                  {displayItems.length} item{displayItems.length !== 1 ? "s" : ""}
-                </p>
+              {/* Always-visible upload zone */}
+              {selectedCompanyId && (
+                <InlineUploadZone
+                  companyId={selectedCompanyId}
+                  folder={selectedFolderId === "historical" ? "Financial" : "General"}
+                  subfolder={selectedFolderId === "historical" ? "Historical" : undefined}
+                  onUploadComplete={refreshData}
+                />
+              )}
+
+              {/* Document Table */}
+              {loading ? (
+                <div className="flex items-center justify-center py-16">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : !selectedCompanyId ? (
+                <div className="flex flex-col items-center justify-center py-16 text-center">
+                  <Building2 className="h-12 w-12 text-muted-foreground/50 mb-4" />
+                  <h3 className="text-lg font-medium text-foreground mb-1">
+                    Select a company
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Choose a company to view its documents
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <DocumentTable
+                    documents={displayItems}
+                    selectedDocuments={selectedDocuments}
+                    onToggleSelect={handleToggleSelect}
+                    onSelectAll={handleSelectAll}
+                    onView={handleView}
+                    onDownload={handleDownload}
+                    onDelete={handleDelete}
+                    onRename={handleRename}
+                    onMoveToFolder={handleMoveToFolder}
+                  />
+                  {displayItems.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {displayItems.length} item{displayItems.length !== 1 ? "s" : ""}
+                    </p>
+                  )}
+                </>
               )}
             </>
           )}
@@ -468,7 +516,13 @@ export default function DataRoom() {
 
       {/* Right Sidebar - Checklist */}
       <div className="w-72 border-l border-border overflow-y-auto p-4 custom-scrollbar bg-muted/20">
-        <DataRoomChecklist documents={documents} />
+        {selectedCompanyId && (
+          <DataRoomChecklist
+            companyId={selectedCompanyId}
+            companyName={selectedCompany?.name || "Company"}
+            documents={documents}
+          />
+        )}
       </div>
 
       {/* Document Preview Modal */}
@@ -22,6 +22,7 @@ import { usePortfolioTotals, useAlerts, useDealPipeline, usePortfolioAssets, use
 import { LiveMacroContent } from '@/components/markets/LiveMacroContent';
 import { useCommodities, useForex, groupCommoditiesByCategory, groupForexByCategory, type CommodityData, type ForexData } from '@/hooks/useForexCommodities';
 import { MarketDataDetail, type MarketDataItem } from '@/components/market-intel/MarketDataDetail';
+import { COVENANT_DEFINITIONS, formatCovenantValue, isCovenantType } from '@/services/covenantService';
 
 export default function MarketIntel() {
   const [activeTab, setActiveTab] = useState('macro');
@@ -392,13 +393,15 @@ function HealthContent() {
         <h3 className="text-lg font-medium mb-4">Covenant Tracking</h3>
         <div className="space-y-4">
           {covenants?.map((c: any) => {
-            const headroom = Math.round((1 - c.current_value / c.limit_value) * 100);
+            // Engine-tested covenants carry their own headroom, which accounts for min-type limits
+            const headroom = Math.round(c.headroom_pct ?? (1 - c.current_value / c.limit_value) * 100);
+            const label = isCovenantType(c.covenant_type) ? COVENANT_DEFINITIONS[c.covenant_type].label : c.covenant_type;
             return (
               <div key={c.id} className={`p-4 rounded-lg ${c.is_warning ? 'bg-rose-900/20 border border-rose-500/30' : 'bg-card'}`}>
                 <div className="flex justify-between mb-2">
                   <div>
-                    <span className="font-medium">{c.portfolio_assets?.name}</span>
-                    <span className="text-muted-foreground text-sm ml-2">• {c.covenant_type}</span>
+                    <span className="font-medium">{c.portfolio_assets?.name || c.companies?.name}</span>
+                    <span className="text-muted-foreground text-sm ml-2">• {label}</span>
                   </div>
                   {c.is_warning && <Badge variant="destructive">Warning</Badge>}
                 </div>
@@ -406,10 +409,10 @@ function HealthContent() {
                   <div className="flex-1 bg-muted rounded-full h-2">
                     <div 
                       className={`h-2 rounded-full ${c.is_warning ? 'bg-rose-500' : 'bg-primary'}`} 
-                      style={{ width: `${Math.min((c.current_value / c.limit_value) * 100, 100)}%` }} 
+                      style={{ width: `${Math.min(Math.max(100 - headroom, 0), 100)}%` }} 
                     />
                   </div>
-                  <span className="text-sm w-24">{c.current_value}x / {c.limit_value}x</span>
+                  <span className="text-sm w-24">{formatCovenantValue(c.covenant_type, c.current_value)} / {formatCovenantValue(c.covenant_type, c.limit_value)}</span>
                   <span className={`text-sm w-20 text-right ${headroom < 10 ? 'text-rose-400' : headroom < 25 ? 'text-yellow-400' : 'text-emerald-400'}`}>
                     {headroom}% room
                   </span>
@@ -35,6 +35,10 @@ import {
 import { useModels, Model } from "@/hooks/useModels";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { LBOModelEditor } from "@/components/models/LBOModelEditor";
+import { ModelVersionHistory } from "@/components/models/ModelVersionHistory";
+import { LBOAssumptions, LBOModelData } from "@/services/lboModelService";
+import { ModelScenario } from "@/services/scenarioService";
 
 interface Assumptions {
   revenueGrowth: number;
@@ -181,6 +185,29 @@ export default function ModelEditor() {
     }
   };
 
+  const handleSaveLBO = async (lboAssumptions: LBOAssumptions, modelData: LBOModelData) => {
+    if (!modelId) return;
+    return updateModel(modelId, { assumptions: lboAssumptions, modelData });
+  };
+
+  const handleSaveLBONewVersion = async (lboAssumptions: LBOAssumptions, modelData: LBOModelData) => {
+    if (!modelId) return;
+    const newModel = await saveAsNewVersion(modelId, { assumptions: lboAssumptions, modelData });
+    if (newModel) {
+      navigate(`/models/${newModel.id}/edit`);
+    }
+  };
+
+  const handleSaveScenarios = async (scenarios: ModelScenario[]) => {
+    if (!modelId) return;
+    return updateModel(modelId, { scenarios });
+  };
+
+  const handleRestored = (restored: Model) => {
+    setModel(restored);
+    setAssumptions({ ...defaultAssumptions, ...(restored.assumptions || {}) });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-[calc(100vh-4rem)]">
@@ -202,6 +229,22 @@ export default function ModelEditor() {
     );
   }
 
+  if (model.model_type === "lbo") {
+    return (
+      <LBOModelEditor
+        key={`${model.id}-${model.updated_at}`}
+        model={model}
+        companyName={companyName}
+        onBack={() => navigate("/models")}
+        onSave={handleSaveLBO}
+        onSaveNewVersion={handleSaveLBONewVersion}
+        onSaveScenarios={handleSaveScenarios}
+        saving={saving}
+        versionHistory={<ModelVersionHistory modelId={model.id} onRestored={handleRestored} />}
+      />
+    );
+  }
+
   return (
     <div className="flex h-[calc(100vh-4rem)]">
       {/* Left Sidebar - Assumptions */}
@@ -379,6 +422,7 @@ export default function ModelEditor() {
             <Copy className="h-4 w-4 mr-2" />
             Save as New Version
           </Button>
+          <ModelVersionHistory modelId={model.id} onRestored={handleRestored} />
         </div>
       </div>
 
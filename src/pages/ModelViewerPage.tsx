@@ -6,6 +6,11 @@ import { ArrowLeft, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { CashFlowBuildupViewer } from '@/components/models/CashFlowBuildupViewer';
+import { useModels } from '@/hooks/useModels';
+import type { Json } from '@/integrations/supabase/types';
+import { calculateLocalCashFlow } from '@/services/cashFlowBuildupService';
+import { ProjectionAssumptions } from '@/services/threeStatementEngine';
+import { toast } from 'sonner';
 
 interface ModelData {
   id: string;
@@ -16,6 +21,7 @@ interface ModelData {
   assumptions: any;
   historical_data: any;
   interview_responses: any;
+  scenarios: Json;
   status: string | null;
   created_at: string;
   updated_at: string;
@@ -30,6 +36,7 @@ export default function ModelViewerPage() {
   const { modelId } = useParams();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { promoteToLBO, updateModel, saving } = useModels();
   const [model, setModel] = useState<ModelData | null>(null);
   const [company, setCompany] = useState<CompanyData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -116,6 +123,33 @@ export default function ModelViewerPage() {
         model={model}
         companyName={company?.name || 'Unknown Company'}
         onBack={() => navigate(-1)}
+        onPromoteToLBO={async () => {
+          const lbo = await promoteToLBO(model.id);
+          if (lbo) navigate(`/models/${lbo.id}/edit`);
+        }}
+        isPromoting={saving}
+        onSaveScenarios={async (scenarios) => {
+          const updated = await updateModel(model.id, { scenarios });
+          if (updated) setModel({ ...model, scenarios });
+        }}
+        isSavingScenarios={saving}
+        onImportAssumptions={async (imported: Partial<ProjectionAssumptions>) => {
+          const assumptions = { ...model.assumptions, ...imported };
+          let modelData;
+          try {
+            modelData = calculateLocalCashFlow(company?.name || 'Unknown Company', model.historical_data, assumptions);
+          } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Imported assumptions could not be projected');
+            return;
+          }
+          const updated = await updateModel(model.id, {
+            assumptions,
+            modelData,
+            versionNote: 'Imported assumptions from Excel',
+          });
+          if (updated) setModel(updated);
+        }}
+        isImporting={saving}
       />
     );
   }
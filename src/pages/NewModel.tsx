@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -27,10 +27,11 @@ import {
   Upload,
 } from "lucide-react";
 import { useCompanies } from "@/hooks/useCompanies";
-import { useModels } from "@/hooks/useModels";
+import { useModels, Model } from "@/hooks/useModels";
 import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import { DEFAULT_LBO_ASSUMPTIONS } from "@/services/lboModelService";
 
 interface ModelTypeOption {
   id: string;
@@ -75,18 +76,36 @@ const steps = [
 
 export default function NewModel() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
   const { companies, loading: companiesLoading } = useCompanies();
-  const { saveModel, saving } = useModels();
+  const { saveModel, promoteToLBO, getModelsForCompany, saving } = useModels();
 
+  const initialType = searchParams.get("type") || "";
   const [currentStep, setCurrentStep] = useState(1);
-  const [selectedType, setSelectedType] = useState<string>("");
+  const [selectedType, setSelectedType] = useState<string>(
+    modelTypes.some((t) => t.id === initialType) ? initialType : ""
+  );
   const [selectedCompany, setSelectedCompany] = useState<string>("");
   const [modelName, setModelName] = useState("");
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [generating, setGenerating] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
   const [generationStep, setGenerationStep] = useState("");
+  const [cashFlowModels, setCashFlowModels] = useState<Model[]>([]);
+  const [sourceModelId, setSourceModelId] = useState<string>("none");
+
+  // LBOs can reuse the operating projection of an existing cash flow buildup
+  useEffect(() => {
+    if (selectedType !== "lbo" || !selectedCompany) {
+      setCashFlowModels([]);
+      setSourceModelId("none");
+      return;
+    }
+    getModelsForCompany(selectedCompany).then((models) =>
+      setCashFlowModels(models.filter((m) => m.model_type === "cash_flow_buildup"))
+    );
+  }, [selectedType, selectedCompany, getModelsForCompany]);
 
   const canProceed = () => {
     switch (currentStep) {
@@ -129,6 +148,18 @@ export default function NewModel() {
     setGenerating(true);
     setGenerationProgress(0);
 
+    if (selectedType === "lbo" && sourceModelId !== "none") {
+      setGenerationProgress(50);
+      setGenerationStep("Linking cash flow buildup projection...");
+      const promoted = await promoteToLBO(sourceModelId, modelName);
+      if (promoted) {
+        navigate(`/models/${promoted.id}/edit`);
+      } else {
+        setGenerating(false);
+      }
+      return;
+    }
+
     // Simulate AI generation process
     const generationSteps = [
       { progress: 20, text: "Analyzing historical data..." },
@@ -173,7 +204,10 @@ export default function NewModel() {
       modelType: selectedType,
       name: modelName,
       modelData: {},
-      assumptions: mockAssumptions,
+      assumptions:
+        selectedType === "lbo"
+          ? { ...DEFAULT_LBO_ASSUMPTIONS, entryEbitda: mockHistoricalData.ebitda }
+          : mockAssumptions,
       historicalData: mockHistoricalData,
       status: "draft",
     });
@@ -389,6 +423,28 @@ export default function NewModel() {
                 <p className="text-sm text-muted-foreground mt-4">
                   💡 If no file is uploaded, we'll use placeholder data that you can edit later.
                 </p>
+
+                {selectedType === "lbo" && cashFlowModels.length > 0 && (
+                  <div className="space-y-2 mt-6">
+                    <Label>Operating Case</Label>
+                    <Select value={sourceModelId} onValueChange={setSourceModelId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Standalone operating drivers</SelectItem>
+                        {cashFlowModels.map((m) => (
+                          <SelectItem key={m.id} value={m.id}>
+                            Promote: {m.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Reuse the income statement and cash flow projection of a saved cash flow buildup.
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -425,7 +481,11 @@ export default function NewModel() {
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Data Source</span>
                         <span className="font-medium">
-                          {uploadedFile ? uploadedFile.name : "Placeholder data"}
+                          {sourceModelId !== "none"
+                            ? cashFlowModels.find((m) => m.id === sourceModelId)?.name
+                            : uploadedFile
+                            ? uploadedFile.name
+                            : "Placeholder data"}
                         </span>
                       </div>
                     </CardContent>
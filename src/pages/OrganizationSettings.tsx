@@ -14,8 +14,12 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { toast } from 'sonner';
-import { Building2, Copy, Loader2, Mail, Trash2, UserPlus, Users, Layers } from 'lucide-react';
+import { Building2, Copy, Loader2, Mail, Trash2, UserPlus, Users, Layers, Target, FileCheck } from 'lucide-react';
 import { AssetTypeConfig } from '@/components/organization/AssetTypeConfig';
+import { PipelineStageConfig } from '@/components/organization/PipelineStageConfig';
+import { PipelineStage } from '@/services/pipelineStageService';
+import { ChecklistTemplateConfig } from '@/components/organization/ChecklistTemplateConfig';
+import { ChecklistTemplate } from '@/services/dataRoomChecklistService';
 
 interface Member {
   id: string;
@@ -63,6 +67,8 @@ export default function OrganizationSettings() {
   const [isPublic, setIsPublic] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [enabledAssetTypes, setEnabledAssetTypes] = useState<string[]>(['private_equity']);
+  const [isSavingPipeline, setIsSavingPipeline] = useState(false);
+  const [isSavingChecklists, setIsSavingChecklists] = useState(false);
   
   // Invite form
   const [inviteEmail, setInviteEmail] = useState('');
@@ -144,6 +150,46 @@ export default function OrganizationSettings() {
     }
   };
 
+  const handleSavePipeline = async (stages: PipelineStage[]) => {
+    if (!currentOrganization || !isAdmin) return;
+
+    setIsSavingPipeline(true);
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ pipeline_stages: stages })
+        .eq('id', currentOrganization.id);
+
+      if (error) throw error;
+      toast.success('Pipeline stages saved');
+      refreshOrganization();
+    } catch (error) {
+      toast.error('Failed to save pipeline stages');
+    } finally {
+      setIsSavingPipeline(false);
+    }
+  };
+
+  const handleSaveChecklists = async (templates: ChecklistTemplate[]) => {
+    if (!currentOrganization || !isAdmin) return;
+
+    setIsSavingChecklists(true);
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ checklist_templates: templates })
+        .eq('id', currentOrganization.id);
+
+      if (error) throw error;
+      toast.success('Checklist templates saved');
+      refreshOrganization();
+    } catch (error) {
+      toast.error('Failed to save checklist templates');
+    } finally {
+      setIsSavingChecklists(false);
+    }
+  };
+
   const handleInvite = async () => {
     if (!currentOrganization || !inviteEmail.trim()) return;
     
@@ -243,6 +289,8 @@ export default function OrganizationSettings() {
           <TabsList className="bg-slate-800 border-slate-700">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="assets">Asset Types</TabsTrigger>
+            <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+            <TabsTrigger value="dataroom">Data Room</TabsTrigger>
             <TabsTrigger value="members">Members</TabsTrigger>
             <TabsTrigger value="billing">Billing</TabsTrigger>
           </TabsList>
@@ -345,6 +393,52 @@ export default function OrganizationSettings() {
             </Card>
           </TabsContent>
 
+          {/* Pipeline Tab */}
+          <TabsContent value="pipeline" className="space-y-6 mt-6">
+            <Card className="bg-slate-900 border-slate-800">
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Target className="h-5 w-5 text-purple-400" />
+                  <div>
+                    <CardTitle className="text-white">Pipeline Stages</CardTitle>
+                    <CardDescription>Define your deal stages, when deals count as aging, and what a deal needs before it can enter each stage</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <PipelineStageConfig
+                  stages={currentOrganization.pipeline_stages}
+                  onSave={handleSavePipeline}
+                  saving={isSavingPipeline}
+                  disabled={!isAdmin}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Data Room Tab */}
+          <TabsContent value="dataroom" className="space-y-6 mt-6">
+            <Card className="bg-slate-900 border-slate-800">
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <FileCheck className="h-5 w-5 text-purple-400" />
+                  <div>
+                    <CardTitle className="text-white">Checklist Templates</CardTitle>
+                    <CardDescription>Diligence checklists by deal type, assigned per company in its data room</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ChecklistTemplateConfig
+                  templates={currentOrganization.checklist_templates}
+                  onSave={handleSaveChecklists}
+                  saving={isSavingChecklists}
+                  disabled={!isAdmin}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Members Tab */}
           <TabsContent value="members" className="space-y-6 mt-6">
             <Card className="bg-slate-900 border-slate-800">
@@ -19,6 +19,8 @@ import {
   Trash2,
   CheckSquare,
   Building2,
+  BarChart3,
+  Flag,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -56,42 +58,23 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { KanbanColumn } from '@/components/pipeline/KanbanColumn';
+import { BlockedStageMove, StageGateDialog } from '@/components/pipeline/StageGateDialog';
+import { CloseDealDialog } from '@/components/pipeline/CloseDealDialog';
+import { PipelineAnalytics } from '@/components/pipeline/PipelineAnalytics';
 import { CreateCompanyDialog } from '@/components/companies/CreateCompanyDialog';
 import { CompanyAvatar } from '@/components/companies/CompanyAvatar';
 import { usePipelineData, useUnifiedData, type CompanyWithRelations } from '@/contexts/UnifiedDataContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { STAGE_COLORS, stageIndex } from '@/services/pipelineStageService';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
-type ViewMode = 'kanban' | 'table' | 'timeline';
+type ViewMode = 'kanban' | 'table' | 'timeline' | 'analytics';
 type SortField = 'name' | 'pipeline_stage' | 'ebitda_ltm' | 'industry' | 'openTaskCount' | 'updated_at';
 type SortOrder = 'asc' | 'desc';
 
-const STAGES = [
-  { id: 'sourcing', title: 'Sourcing', color: 'bg-slate-500' },
-  { id: 'screening', title: 'Screening', color: 'bg-blue-500' },
-  { id: 'due-diligence', title: 'Due Diligence', color: 'bg-amber-500' },
-  { id: 'ic-review', title: 'IC Review', color: 'bg-purple-500' },
-  { id: 'closing', title: 'Closing', color: 'bg-emerald-500' },
-];
-
-const stageColors: Record<string, string> = {
-  sourcing: 'bg-slate-500/20 text-slate-300 border-slate-500/30',
-  screening: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
-  'due-diligence': 'bg-amber-500/20 text-amber-300 border-amber-500/30',
-  'ic-review': 'bg-purple-500/20 text-purple-300 border-purple-500/30',
-  closing: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
-};
-
-const stageDotColors: Record<string, string> = {
-  sourcing: 'bg-slate-500',
-  screening: 'bg-blue-500',
-  'due-diligence': 'bg-amber-500',
-  'ic-review': 'bg-purple-500',
-  closing: 'bg-emerald-500',
-};
-
 const listItemVariants = {
   hidden: { opacity: 0, y: 20 },
   visible: (i: number) => ({
@@ -114,6 +97,7 @@ export default function Pipeline() {
   const navigate = useNavigate();
   const { stats: pipelineStats, companies: pipelineCompanies, isLoading } = usePipelineData();
   const { refetchAll } = useUnifiedData();
+  const { stages, moveToStage } = usePipelineStages();
 
   const [viewMode, setViewMode] = useState<ViewMode>('kanban');
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
@@ -125,6 +109,11 @@ export default function Pipeline() {
     open: false,
     company: null,
   });
+  const [blockedMove, setBlockedMove] = useState<BlockedStageMove | null>(null);
+  const [closingDeal, setClosingDeal] = useState<{ id: string; name: string } | null>(null);
+
+  // Deals on a stage the organization has since removed are shown in the first stage
+  const stageOf = (stageId: string | null) => stages[stageIndex(stages, stageId)];
 
   // Filter and sort companies
   const filteredCompanies = useMemo(() => {
@@ -142,7 +131,7 @@ export default function Pipeline() {
 
     // Stage filter
     if (stageFilter !== 'all') {
-      result = result.filter(c => c.pipeline_stage === stageFilter);
+      result = result.filter(c => stages[stageIndex(stages, c.pipeline_stage)].id === stageFilter);
     }
 
     // Sort
@@ -155,8 +144,8 @@ export default function Pipeline() {
           bVal = b.name.toLowerCase();
           break;
         case 'pipeline_stage':
-          aVal = a.pipeline_stage || '';
-          bVal = b.pipeline_stage || '';
+          aVal = stageIndex(stages, a.pipeline_stage);
+          bVal = stageIndex(stages, b.pipeline_stage);
           break;
         case 'ebitda_ltm':
           aVal = a.ebitda_ltm || 0;
@@ -184,7 +173,7 @@ export default function Pipeline() {
     });
 
     return result;
-  }, [pipelineCompanies, searchQuery, stageFilter, sortField, sortOrder]);
+  }, [pipelineCompanies, stages, searchQuery, stageFilter, sortField, sortOrder]);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -205,12 +194,22 @@ export default function Pipeline() {
   };
 
   const handleDrop = async (companyId: string, newStage: string) => {
-    const { error } = await supabase
-      .from('companies')
-      .update({ pipeline_stage: newStage })
-      .eq('id', companyId);
-
-    if (error) {
+    const company = pipelineCompanies.find(c => c.id === companyId);
+    if (!company || stageOf(company.pipeline_stage).id === newStage) return;
+
+    try {
+      const check = await moveToStage(companyId, company.pipeline_stage, newStage);
+      if (!check.allowed) {
+        setBlockedMove({
+          companyId,
+          companyName: company.name,
+          targetStage: stages.find(s => s.id === newStage)!,
+          check,
+        });
+        return;
+      }
+    } catch (error) {
+      console.error('Error updating stage:', error);
       toast.error('Failed to update stage');
       return;
     }
@@ -237,7 +236,7 @@ export default function Pipeline() {
   };
 
   const getCompaniesByStage = (stageId: string) =>
-    pipelineCompanies.filter(c => c.pipeline_stage === stageId);
+    pipelineCompanies.filter(c => stageOf(c.pipeline_stage).id === stageId);
 
   const getTotalValue = (stageCompanies: CompanyWithRelations[]) => {
     const total = stageCompanies.reduce((sum, c) => {
@@ -253,6 +252,7 @@ export default function Pipeline() {
     website?: string;
     company_type: 'pipeline' | 'portfolio' | 'prospect';
     pipeline_stage?: string;
+    deal_source?: string;
     ebitda_ltm?: number;
     valuation?: number;
   }) => {
@@ -267,7 +267,8 @@ export default function Pipeline() {
       industry: values.industry || null,
       website: values.website || null,
       company_type: 'pipeline',
-      pipeline_stage: values.pipeline_stage || 'sourcing',
+      pipeline_stage: values.pipeline_stage || stages[0].id,
+      deal_source: values.deal_source || null,
       ebitda_ltm: values.ebitda_ltm || null,
     });
 
@@ -335,6 +336,15 @@ export default function Pipeline() {
             <Calendar className="h-4 w-4" />
             Timeline
           </Button>
+          <Button
+            variant={viewMode === 'analytics' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setViewMode('analytics')}
+            className="gap-2"
+          >
+            <BarChart3 className="h-4 w-4" />
+            Analytics
+          </Button>
         </div>
 
         {(viewMode === 'table' || viewMode === 'timeline') && (
@@ -355,7 +365,7 @@ export default function Pipeline() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Stages</SelectItem>
-                {STAGES.map(stage => (
+                {stages.map(stage => (
                   <SelectItem key={stage.id} value={stage.id}>
                     {stage.title}
                   </SelectItem>
@@ -374,7 +384,7 @@ export default function Pipeline() {
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
             </div>
           ) : (
-            STAGES.map(stage => {
+            stages.map(stage => {
               const stageCompanies = getCompaniesByStage(stage.id);
               return (
                 <KanbanColumn
@@ -383,9 +393,11 @@ export default function Pipeline() {
                   stage={stage.id}
                   companies={stageCompanies}
                   totalValue={getTotalValue(stageCompanies)}
-                  color={stage.color}
+                  color={STAGE_COLORS[stage.color].dot}
+                  stages={stages}
                   onDrop={handleDrop}
                   onMoveStage={handleDrop}
+                  onCloseDeal={setClosingDeal}
                 />
               );
             })
@@ -497,12 +509,9 @@ export default function Pipeline() {
                       <TableCell>
                         <Badge
                           variant="outline"
-                          className={cn(
-                            'capitalize',
-                            stageColors[company.pipeline_stage || 'sourcing']
-                          )}
+                          className={STAGE_COLORS[stageOf(company.pipeline_stage).color].badge}
                         >
-                          {company.pipeline_stage?.replace('-', ' ') || 'Sourcing'}
+                          {stageOf(company.pipeline_stage).title}
                         </Badge>
                       </TableCell>
                       <TableCell className="font-medium text-emerald-400">
@@ -542,6 +551,13 @@ export default function Pipeline() {
                               <Pencil className="h-4 w-4 mr-2" />
                               Edit
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={e => {
+                              e.stopPropagation();
+                              setClosingDeal(company);
+                            }}>
+                              <Flag className="h-4 w-4 mr-2" />
+                              Close Deal…
+                            </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
                               className="text-destructive focus:text-destructive"
@@ -607,7 +623,7 @@ export default function Pipeline() {
                       <div
                         className={cn(
                           'absolute -left-5 top-3 w-4 h-4 rounded-full border-2 border-background',
-                          stageDotColors[company.pipeline_stage || 'sourcing']
+                          STAGE_COLORS[stageOf(company.pipeline_stage).color].dot
                         )}
                       />
 
@@ -624,11 +640,11 @@ export default function Pipeline() {
                                 <Badge
                                   variant="outline"
                                   className={cn(
-                                    'capitalize text-xs',
-                                    stageColors[company.pipeline_stage || 'sourcing']
+                                    'text-xs',
+                                    STAGE_COLORS[stageOf(company.pipeline_stage).color].badge
                                   )}
                                 >
-                                  {company.pipeline_stage?.replace('-', ' ') || 'Sourcing'}
+                                  {stageOf(company.pipeline_stage).title}
                                 </Badge>
                                 {company.industry && (
                                   <span className="text-xs text-muted-foreground">
@@ -669,6 +685,9 @@ export default function Pipeline() {
         </motion.div>
       )}
 
+      {/* Analytics View */}
+      {viewMode === 'analytics' && <PipelineAnalytics />}
+
       {/* Create Dialog */}
       <CreateCompanyDialog
         open={createDialogOpen}
@@ -676,6 +695,20 @@ export default function Pipeline() {
         onSubmit={handleCreateCompany}
       />
 
+      {/* Stage Gate Dialog */}
+      <StageGateDialog
+        blockedMove={blockedMove}
+        onOpenChange={open => !open && setBlockedMove(null)}
+        onOpenDataRoom={companyId => navigate(`/documents?company=${companyId}`)}
+      />
+
+      {/* Close Deal Dialog */}
+      <CloseDealDialog
+        deal={closingDeal}
+        onOpenChange={open => !open && setClosingDeal(null)}
+        onClosed={refetchAll}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialog.open} onOpenChange={open => setDeleteDialog({ open, company: null })}>
         <AlertDialogContent>
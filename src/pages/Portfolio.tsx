@@ -44,6 +44,11 @@ import { CreatePortfolioDialog } from '@/components/portfolio/CreatePortfolioDia
 import { PortfolioMetricsPanel } from '@/components/portfolio/PortfolioMetricsPanel';
 import { RealPerformanceChart } from '@/components/portfolio/RealPerformanceChart';
 import { PortfolioAnalysisTabs } from '@/components/portfolio/PortfolioAnalysisTabs';
+import { TaxLotPanel } from '@/components/portfolio/TaxLotPanel';
+import { RebalancePanel } from '@/components/portfolio/RebalancePanel';
+import { CurrencyAttributionPanel } from '@/components/portfolio/CurrencyAttributionPanel';
+import { useBaseCurrency } from '@/hooks/useCurrency';
+import { DEFAULT_CURRENCY, inferListingCurrency } from '@/services/fxService';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { HelpCircle, Info, BookOpen, Lightbulb, Calculator, ExternalLink } from 'lucide-react';
 import { financialTerms } from '@/data/financialTerms';
@@ -566,6 +571,11 @@ export default function Portfolio() {
     refetch: refetchPositions
   } = usePositions(activePortfolioId || undefined);
 
+  // Reporting currency - the portfolio's own setting, else the profile default
+  const {
+    baseCurrency
+  } = useBaseCurrency(activePortfolio?.base_currency);
+
   // Real portfolio performance from synced positions
   const {
     totalValue: perfTotalValue,
@@ -579,7 +589,8 @@ export default function Portfolio() {
     isLoading: perfLoading,
     refresh: refreshPerformance
   } = usePortfolioPerformance({
-    portfolioId: activePortfolioId
+    portfolioId: activePortfolioId,
+    baseCurrency
   });
   const [showCreatePortfolioDialog, setShowCreatePortfolioDialog] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>(() => {
@@ -1213,6 +1224,7 @@ export default function Portfolio() {
           cost_basis: data.cost_basis,
           cost_per_share: data.cost_per_share,
           asset_type: data.asset_type || 'stock',
+          currency: (data.currency || inferListingCurrency(data.symbol)).toUpperCase(),
           portfolio_id: activePortfolioId,
           user_id: user?.id,
           source: 'manual'
@@ -1235,6 +1247,7 @@ export default function Portfolio() {
           cost_basis: p.cost_basis,
           cost_per_share: p.cost_per_share,
           asset_type: p.asset_type || 'stock',
+          currency: (p.currency || inferListingCurrency(p.symbol)).toUpperCase(),
           portfolio_id: activePortfolioId,
           user_id: user?.id,
           source: 'csv'
@@ -1248,7 +1261,7 @@ export default function Portfolio() {
         return inserted as any[];
       }} onBrokerageSync={async () => {
         await Promise.all([refetchPositions(), refetchAll(), refreshPerformance()]);
-      }} totalValue={perfTotalValue || portfolioStats.totalValue} />
+      }} totalValue={perfTotalValue || (baseCurrency === DEFAULT_CURRENCY ? portfolioStats.totalValue : 0)} baseCurrency={baseCurrency} />
         </motion.div>}
 
 
@@ -1257,6 +1270,23 @@ export default function Portfolio() {
           <PortfolioAnalysisTabs allocations={portfolioAllocations} investableCapital={investableCapital || 100000} investmentHorizon={allocInvestmentHorizon || 5} portfolioName={activePortfolio?.name} backtestMetrics={backtestMetrics} />
         </motion.div>}
 
+      {/* Rebalance - Trades from synced positions back to the saved target allocation */}
+      {portfolioAllocations && portfolioAllocations.length > 0 && <motion.div variants={itemVariants}>
+          <RebalancePanel key={activePortfolioId ?? 'default'} portfolioId={activePortfolioId} portfolioName={activePortfolio?.name} allocations={portfolioAllocations} positions={syncedPositions} investorProfile={activePortfolio?.investor_profile} />
+        </motion.div>}
+
+      {/* Currency - Local-asset return vs currency effect in the base currency, with hedged views */}
+      {syncedPositions.length > 0 && <motion.div variants={itemVariants}>
+          <CurrencyAttributionPanel positions={syncedPositions} baseCurrency={baseCurrency} onBaseCurrencyChange={activePortfolioId ? currency => updatePortfolio(activePortfolioId, {
+          base_currency: currency
+        }) : undefined} />
+        </motion.div>}
+
+      {/* Tax Lots - Realized/unrealized gains, wash sales and harvesting from recorded transactions */}
+      <motion.div variants={itemVariants}>
+        <TaxLotPanel />
+      </motion.div>
+
       {/* Market Indices Row */}
       <motion.div variants={itemVariants} className="grid grid-cols-2 sm:grid-cols-4 gap-3">
         {indicesLoading ? Array.from({
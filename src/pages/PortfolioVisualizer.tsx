@@ -1,7 +1,7 @@
 // Portfolio Visualizer - Institutional Multi-Asset Management Suite
 // "Choose Your Path" experience: Manual vs AI Co-Pilot vs IPS Questionnaire modes
 
-import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 // WelcomeOnboarding removed - users go directly to ChooseYourPath
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -72,6 +72,7 @@ import {
   PortfolioMode, 
   PortfolioAllocation,
   EfficientFrontierPoint,
+  MarketView,
 } from '@/types/portfolio';
 import { InvestorPolicyStatement } from '@/types/investorPolicy';
 
@@ -80,6 +81,8 @@ import { ChooseYourPath } from '@/components/backtester/ChooseYourPath';
 import { AICoPilotWizard } from '@/components/backtester/AICoPilotWizard';
 import { ManualPortfolioForm } from '@/components/backtester/ManualPortfolioForm';
 import { EfficientFrontierSlider } from '@/components/backtester/EfficientFrontierSlider';
+import { CovarianceEstimatorPanel } from '@/components/backtester/CovarianceEstimatorPanel';
+import { BlackLittermanViewsPanel } from '@/components/backtester/BlackLittermanViewsPanel';
 import { AdvancedMetricsDashboard } from '@/components/backtester/AdvancedMetricsDashboard';
 import { AIPortfolioInsights, AIPortfolioAdvice } from '@/components/backtester/AIPortfolioInsights';
 import { EducationalDashboard } from '@/components/backtester/EducationalDashboard';
@@ -116,7 +119,15 @@ import { CorrelationMatrix } from '@/services/backtesterService';
 import { AssetData } from '@/services/portfolioOptimizer';
 import { blackLittermanOptimizer } from '@/services/blackLittermanOptimizer';
 import { calculateAllAdvancedMetrics, AdvancedRiskMetrics } from '@/services/advancedMetricsService';
-import { generateEfficientFrontier, findOptimalPortfolio } from '@/services/efficientFrontierService';
+import { FrontierConstraints, findOptimalPortfolio, frontierConstraintErrors } from '@/services/efficientFrontierService';
+import { runComputeJob, isCancelledError } from '@/services/computePoolService';
+import {
+  CovarianceEstimate,
+  CovarianceOptions,
+  DEFAULT_COVARIANCE_OPTIONS,
+  covarianceFromCorrelation,
+  estimateCovariance,
+} from '@/services/covarianceEstimationService';
 import { runAllStressTests, checkLiquidityRisks, StressTestResult, LiquidityRiskResult } from '@/services/stressTestService';
 import { fetchMultipleTickerDetails, TickerDetails } from '@/services/tickerDetailsService';
 
@@ -400,6 +411,7 @@ export default function PortfolioVisualizer() {
   
   // Analysis state
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const [progress, setProgress] = useState({ message: '', percent: 0 });
   const [error, setError] = useState<string | null>(null);
   const [analysisSteps, setAnalysisSteps] = useState<AnalysisStep[]>([]);
@@ -413,6 +425,11 @@ export default function PortfolioVisualizer() {
   // Results state
   const [efficientFrontier, setEfficientFrontier] = useState<EfficientFrontierPoint[]>([]);
   const [selectedPoint, setSelectedPoint] = useState<EfficientFrontierPoint | null>(null);
+  const [covarianceOptions, setCovarianceOptions] = useState<CovarianceOptions>(DEFAULT_COVARIANCE_OPTIONS);
+  const [covarianceEstimate, setCovarianceEstimate] = useState<CovarianceEstimate | null>(null);
+  const [covarianceError, setCovarianceError] = useState<string | null>(null);
+  const [analysisCovariance, setAnalysisCovariance] = useState<{ symbols: string[]; matrix: number[][] } | null>(null);
+  const [marketViews, setMarketViews] = useState<MarketView[]>([]);
   const [riskTolerance, setRiskTolerance] = useState(50);
   const [advancedMetrics, setAdvancedMetrics] = useState<AdvancedRiskMetrics | null>(null);
   const [correlationMatrix, setCorrelationMatrix] = useState<PolygonCorrelationMatrix | null>(null);
@@ -470,8 +487,10 @@ export default function PortfolioVisualizer() {
         name: portfolioName.trim(),
         description: portfolioDescription.trim() || undefined,
         allocations: JSON.parse(JSON.stringify(allocations)),
-        investor_profile: JSON.parse(JSON.stringify(investorProfile)),
+        // The policy's rebalancing rules travel with the profile so the saved portfolio can be rebalanced against them
+        investor_profile: JSON.parse(JSON.stringify(investorPolicy ? { ...investorProfile, rebalancingRules: investorPolicy.rebalancingRules } : investorProfile)),
         portfolio_mode: portfolioMode || 'manual',
+        views: JSON.parse(JSON.stringify(marketViews)),
       });
       setSaveDialogOpen(false);
       setPortfolioName('');
@@ -486,17 +505,33 @@ export default function PortfolioVisualizer() {
     allocations: unknown; 
     investor_profile: unknown; 
     portfolio_mode: string | null;
+    views?: unknown;
   }) => {
     const loadedAllocations = saved.allocations as PortfolioAllocation[];
     const loadedProfile = saved.investor_profile as InvestorProfile;
     setAllocations(loadedAllocations);
     setInvestorProfile(loadedProfile || DEFAULT_PROFILE);
     setPortfolioMode((saved.portfolio_mode as PortfolioMode) || 'manual');
+    setMarketViews(Array.isArray(saved.views) ? (saved.views as MarketView[]) : []);
     setLoadDialogOpen(false);
     setCurrentFlow('results');
     toast.success('Portfolio loaded');
   };
 
+  // Black-Litterman posterior for the authored views, priced off the current weights
+  const viewPosterior = useMemo(() => {
+    if (!analysisCovariance) return { posterior: null, error: null };
+    try {
+      const priorWeights = new Map(allocations.map(a => [a.symbol, a.weight / 100]));
+      return {
+        posterior: blackLittermanOptimizer.applyViews(analysisCovariance.symbols, analysisCovariance.matrix, marketViews, priorWeights),
+        error: null,
+      };
+    } catch (error) {
+      return { posterior: null, error: error instanceof Error ? error.message : 'Could not apply views' };
+    }
+  }, [analysisCovariance, allocations, marketViews]);
+
   // NEW: Use the portfolio calculations hook when we have allocations and are showing results
   const calcAllocations: CalcAllocation[] = useMemo(() => {
     return allocations.map(a => ({
@@ -836,8 +871,14 @@ export default function PortfolioVisualizer() {
     };
   };
 
+  // Cancel any in-flight worker computation when leaving the page
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
   // Run full analysis
   const runAnalysis = async (profile: InvestorProfile, allocs: PortfolioAllocation[], mode: PortfolioMode) => {
+    analysisAbortRef.current?.abort();
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
     setCurrentFlow('analyzing');
     setIsAnalyzing(true);
     setError(null);
@@ -1008,8 +1049,53 @@ export default function PortfolioVisualizer() {
         });
       });
       
-      // Generate efficient frontier
-      const frontier = generateEfficientFrontier(backtesterCorr, backtesterAssetData, 3000);
+      // Covariance from the selected estimator; short histories fall back to correlation × volatility
+      let covariance: CovarianceEstimate | null = null;
+      try {
+        const returnsByTicker = new Map(Array.from(fetchResult.assetData, ([ticker, data]) => [ticker, data.returns]));
+        covariance = estimateCovariance(corrMatrix.tickers, returnsByTicker, covarianceOptions);
+        setCovarianceError(null);
+      } catch (estimationError) {
+        const message = estimationError instanceof Error ? estimationError.message : 'Covariance estimation failed';
+        setCovarianceError(`${message}. Using sample correlation × volatility instead.`);
+        setValidationWarnings(prev => [...prev, message]);
+      }
+      setCovarianceEstimate(covariance);
+      const frontierCovariance = covariance?.covariance ?? covarianceFromCorrelation(backtesterCorr, backtesterAssetData);
+      setAnalysisCovariance({ symbols: backtesterCorr.symbols, matrix: frontierCovariance });
+      
+      // Long-only frontier, capped by the investor policy's concentration limits when they are satisfiable
+      let frontierConstraints: FrontierConstraints = {};
+      const concentrationLimits = investorPolicy?.constraints.concentrationLimits;
+      if (concentrationLimits) {
+        const policyConstraints: FrontierConstraints = {
+          concentrationLimits,
+          assetClasses: Object.fromEntries(finalAllocations.map(a => [a.symbol, a.assetClass])),
+        };
+        const constraintErrors = frontierConstraintErrors(corrMatrix.tickers, policyConstraints);
+        if (constraintErrors.length > 0) {
+          setValidationWarnings(prev => [...prev, ...constraintErrors.map(e => `Policy limits ignored: ${e}`)]);
+        } else {
+          frontierConstraints = policyConstraints;
+        }
+      }
+      
+      // Solve the efficient frontier on the worker pool
+      const frontier = await runComputeJob(
+        {
+          type: 'frontier',
+          params: {
+            correlationMatrix: backtesterCorr,
+            assetData: backtesterAssetData,
+            constraints: frontierConstraints,
+            covariance: frontierCovariance,
+          },
+        },
+        {
+          signal: abortController.signal,
+          onProgress: (msg, pct) => setProgress({ message: msg, percent: 60 + pct * 0.15 }),
+        }
+      );
       setEfficientFrontier(frontier);
       
       // Find optimal point based on risk tolerance
@@ -1100,7 +1186,8 @@ export default function PortfolioVisualizer() {
         const blResult = blackLittermanOptimizer.analyzeUserWeights(
           userWeights,
           backtesterCorrForBL,
-          backtesterAssetData
+          backtesterAssetData,
+          frontierCovariance
         );
         
         setBlAnalysis({
@@ -1155,6 +1242,8 @@ export default function PortfolioVisualizer() {
       }, 500);
       
     } catch (err) {
+      // Superseded by a newer run or the page was left
+      if (isCancelledError(err)) return;
       console.error('Analysis error:', err);
       const errorMessage = err instanceof Error ? err.message : 'Analysis failed';
       setError(errorMessage);
@@ -1178,7 +1267,7 @@ export default function PortfolioVisualizer() {
   };
 
   // Handle manual form completion
-  const handleManualComplete = (data: { capital: number; horizon: number; allocations: PortfolioAllocation[] }) => {
+  const handleManualComplete = (data: { capital: number; horizon: number; allocations: PortfolioAllocation[]; views: MarketView[] }) => {
     const profile: InvestorProfile = {
       ...DEFAULT_PROFILE,
       investableCapital: data.capital,
@@ -1186,6 +1275,7 @@ export default function PortfolioVisualizer() {
     };
     setInvestorProfile(profile);
     setAllocations(data.allocations);
+    setMarketViews(data.views);
     setPortfolioMode('manual');
     runAnalysis(profile, data.allocations, 'manual');
   };
@@ -1213,6 +1303,10 @@ export default function PortfolioVisualizer() {
     setAllocations([]);
     setEfficientFrontier([]);
     setSelectedPoint(null);
+    setCovarianceEstimate(null);
+    setCovarianceError(null);
+    setAnalysisCovariance(null);
+    setMarketViews([]);
     setAdvancedMetrics(null);
     setBlAnalysis(null);
     setAiAdvice(null);
@@ -2189,7 +2283,24 @@ export default function PortfolioVisualizer() {
           )}
 
           {visibleTabs['allocation'] && (
-            <TabsContent value="allocation">
+            <TabsContent value="allocation" className="space-y-4">
+              <CovarianceEstimatorPanel
+                options={covarianceOptions}
+                onChange={setCovarianceOptions}
+                estimate={covarianceEstimate}
+                error={covarianceError}
+                onApply={handleRefreshData}
+                isRunning={isCalcLoading}
+              />
+              {analysisCovariance && (
+                <BlackLittermanViewsPanel
+                  symbols={analysisCovariance.symbols}
+                  views={marketViews}
+                  onChange={setMarketViews}
+                  posterior={viewPosterior.posterior}
+                  error={viewPosterior.error}
+                />
+              )}
               <Card>
                 <CardHeader>
                   <CardTitle className="text-sm">Final Allocation</CardTitle>
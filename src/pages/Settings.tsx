@@ -9,12 +9,15 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { useDevMode } from "@/contexts/DevModeContext";
 import { supabase } from "@/integrations/supabase/client";
 import { clearAllCache } from "@/services/marketDataService";
 import { clearMarketDataCache } from "@/services/MarketDataManager";
+import { CURRENCIES } from "@/services/fxService";
+import { useBaseCurrency } from "@/hooks/useCurrency";
 
 const profileSchema = z.object({
   fullName: z.string().trim().min(2, "Name must be at least 2 characters").max(100, "Name is too long"),
@@ -306,12 +309,58 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Currency Settings */}
+      <CurrencySettings />
+
       {/* Market Data Settings */}
       <MarketDataSettings />
     </div>
   );
 }
 
+function CurrencySettings() {
+  const { defaultCurrency, setDefaultCurrency, isLoading, isSaving } = useBaseCurrency();
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle>Currency</CardTitle>
+        <CardDescription>
+          Portfolio values and returns are converted into this currency
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="base-currency" className="text-foreground">
+              Default base currency
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Used by every portfolio that doesn't set its own
+            </p>
+          </div>
+          <Select
+            value={defaultCurrency}
+            onValueChange={(value) => setDefaultCurrency(value)}
+            disabled={isLoading || isSaving}
+          >
+            <SelectTrigger id="base-currency" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((c) => (
+                <SelectItem key={c.code} value={c.code}>
+                  {c.code} · {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function MarketDataSettings() {
   const { toast } = useToast();
   const { marketDataEnabled, setMarketDataEnabled, apiCallCount } = useDevMode();
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Star, Plus, RefreshCw, Trash2, TrendingUp, TrendingDown, Search } from 'lucide-react';
+import { Star, Plus, Trash2, TrendingUp, TrendingDown, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
@@ -20,7 +20,9 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CacheStatusBar } from '@/components/ui/CacheStatusBar';
 import { useWatchlistWithQuotes, WatchlistItemWithQuote } from '@/hooks/useWatchlistWithQuotes';
+import { useVisibleTicker } from '@/hooks/useQuoteStream';
 import { cn } from '@/lib/utils';
 
 function StatCard({ label, value, icon }: { label: string; value: string | number; icon?: React.ReactNode }) {
@@ -102,9 +104,10 @@ function WatchlistRow({
   isDeleting: boolean;
 }) {
   const isPositive = (item.change ?? 0) >= 0;
+  const rowRef = useVisibleTicker<HTMLTableRowElement>(item.item_id);
 
   return (
-    <TableRow className="group">
+    <TableRow ref={rowRef} className="group">
       <TableCell>
         <div className="flex items-center gap-2">
           <Star className="h-4 w-4 text-amber-500 fill-amber-500" />
@@ -168,7 +171,7 @@ function WatchlistRow({
 
 export default function Watchlist() {
   const [searchQuery, setSearchQuery] = useState('');
-  const { items, isLoading, addToWatchlist, removeFromWatchlist, isAdding, isRemoving, refreshQuotes, stats } =
+  const { items, isLoading, addToWatchlist, removeFromWatchlist, isAdding, isRemoving, refreshQuotes, lastUpdated, providers, stats } =
     useWatchlistWithQuotes();
 
   const filteredItems = items.filter(
@@ -205,7 +208,7 @@ export default function Watchlist() {
       </div>
 
       {/* Search + Refresh */}
-      <div className="flex items-center gap-3">
+      <div className="flex flex-wrap items-center gap-3">
         <div className="relative flex-1 max-w-sm">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
@@ -215,9 +218,18 @@ export default function Watchlist() {
             className="pl-9"
           />
         </div>
-        <Button variant="outline" size="icon" onClick={refreshQuotes} disabled={isLoading}>
-          <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
-        </Button>
+        <CacheStatusBar
+          lastFetched={lastUpdated}
+          expiresAt={null}
+          isStale={false}
+          isLoading={isLoading}
+          onRefresh={refreshQuotes}
+          source="quotes"
+          providers={providers}
+          showProviderHealth
+          showStreamStatus
+          className="flex-1"
+        />
       </div>
 
       {/* Table */}
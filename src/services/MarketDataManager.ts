@@ -1,11 +1,7 @@
-import { 
-  getQuote as finnhubGetQuote, 
-  getBatchQuotes as finnhubGetBatchQuotes,
-  getFullQuote as finnhubGetFullQuote,
-  type StockQuote as FinnhubQuote 
-} from './finnhubService';
+import { marketDataRouter } from './marketDataProviders';
+import { QuoteStream, resolveStreamEndpoint, type QuoteTick } from './quoteStreamService';
 import type { QuoteData, MarketIndex } from './marketDataService';
-import { isMarketDataEnabled, setDevModeState } from './marketDataService';
+import { INDEX_PROXIES, isMarketDataEnabled, routedToQuoteData, setDevModeState } from './marketDataService';
 
 // Re-export for convenience
 export { setDevModeState };
@@ -180,14 +176,12 @@ export async function getBatchQuotes(tickers: string[]): Promise<Map<string, Quo
 
     const batchKey = `batch:${tickersToFetch.sort().join(',')}`;
     
-    console.log(`[Finnhub] Batch quotes`, { tickers: tickersToFetch });
+    console.log(`[MarketData] Batch quotes`, { tickers: tickersToFetch });
 
-    const quotes = await deduplicatedRequest(batchKey, async () => {
-      return finnhubGetBatchQuotes(tickersToFetch);
-    });
+    const { quotes } = await deduplicatedRequest(batchKey, () => marketDataRouter.quotes(tickersToFetch));
     
     for (const [ticker, quote] of quotes.entries()) {
-      const quoteData = mapFinnhubToQuoteData(quote);
+      const quoteData = routedToQuoteData(quote);
       results.set(ticker.toUpperCase(), quoteData);
       setCachedQuote(ticker, quoteData);
     }
@@ -205,25 +199,6 @@ export async function getBatchQuotes(tickers: string[]): Promise<Map<string, Quo
   return results;
 }
 
-// Helper to map Finnhub quote to QuoteData format
-function mapFinnhubToQuoteData(fq: FinnhubQuote): QuoteData {
-  return {
-    price: fq.price,
-    change: fq.change,
-    changePercent: fq.changePercent,
-    high: fq.high,
-    low: fq.low,
-    open: fq.open,
-    previousClose: fq.previousClose,
-    volume: fq.volume || '—',
-    marketCap: fq.marketCap || '—',
-    high52: fq.high,  // Use daily high as fallback
-    low52: fq.low,    // Use daily low as fallback
-    source: 'live' as const,
-    isMock: false,
-  };
-}
-
 // ============= Single Quote with Deduplication =============
 
 export async function getQuoteOptimized(ticker: string): Promise<QuoteData> {
@@ -243,18 +218,18 @@ export async function getQuoteOptimized(ticker: string): Promise<QuoteData> {
   
   const requestKey = `quote:${upperTicker}`;
   
-  console.log(`[Finnhub] Quote`, { ticker: upperTicker });
+  console.log(`[MarketData] Quote`, { ticker: upperTicker });
   
   return deduplicatedRequest(requestKey, async () => {
-    const quote = await finnhubGetQuote(upperTicker);
+    const { data: quote } = await marketDataRouter.quote(upperTicker);
     
     if (!quote) {
       // Return stale cache on error
       if (cached) return cached;
-      throw new Error('Failed to fetch quote from Finnhub');
+      throw new Error('Failed to fetch quote from any market data provider');
     }
     
-    const quoteData = mapFinnhubToQuoteData(quote);
+    const quoteData = routedToQuoteData(quote);
     setCachedQuote(upperTicker, quoteData);
     return quoteData;
   });
@@ -262,15 +237,6 @@ export async function getQuoteOptimized(ticker: string): Promise<QuoteData> {
 
 // ============= Market Indices with Deduplication =============
 
-// Major index ETFs as proxies
-const INDEX_SYMBOLS = ['SPY', 'QQQ', 'DIA', 'IWM'];
-const INDEX_NAMES: Record<string, string> = {
-  'SPY': 'S&P 500',
-  'QQQ': 'NASDAQ',
-  'DIA': 'DOW',
-  'IWM': 'Russell 2000',
-};
-
 export async function getIndicesOptimized(): Promise<MarketIndex[]> {
   const cached = getCachedIndices();
   if (cached) return cached;
@@ -281,16 +247,16 @@ export async function getIndicesOptimized(): Promise<MarketIndex[]> {
     return [];
   }
   
-  console.log(`[Finnhub] Indices via ETFs`);
+  console.log(`[MarketData] Indices via ETFs`);
   
   return deduplicatedRequest('indices', async () => {
-    const quotes = await finnhubGetBatchQuotes(INDEX_SYMBOLS);
+    const { quotes } = await marketDataRouter.quotes(INDEX_PROXIES.map(i => i.symbol));
     
-    const indices: MarketIndex[] = INDEX_SYMBOLS.map(symbol => {
+    const indices: MarketIndex[] = INDEX_PROXIES.map(({ symbol, name }) => {
       const quote = quotes.get(symbol);
       return {
         symbol,
-        name: INDEX_NAMES[symbol] || symbol,
+        name,
         value: quote?.price || 0,
         change: quote?.change || 0,
         changePercent: quote?.changePercent || 0,
@@ -302,6 +268,30 @@ export async function getIndicesOptimized(): Promise<MarketIndex[]> {
   });
 }
 
+// ============= Streaming Quotes =============
+
+// Stream from pre-market through after-hours, and only while the tab is on screen
+function isStreamActive(): boolean {
+  if (!isMarketDataEnabled() || getMarketStatus() === 'closed') return false;
+  return typeof document === 'undefined' || document.visibilityState !== 'hidden';
+}
+
+export const quoteStream = new QuoteStream({
+  endpoint: resolveStreamEndpoint(),
+  isActive: isStreamActive,
+  poll: async symbols => {
+    const { quotes } = await marketDataRouter.quotes(symbols);
+    return [...quotes].map(([symbol, quote]) => {
+      setCachedQuote(symbol, routedToQuoteData(quote));
+      return { symbol, price: quote.price, size: null, timestamp: quote.timestamp };
+    });
+  },
+});
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => quoteStream.refreshActivity());
+}
+
 // ============= Subscription Manager Singleton =============
 
 type SubscriptionCallback = (quotes: Map<string, CachedQuote>) => void;
@@ -313,7 +303,8 @@ class MarketDataSubscriptionManager {
   private callbacks = new Map<string, Set<SubscriptionCallback>>();
   
   private constructor() {
-    // No automatic polling - manual refresh only
+    // Visible tickers stream; everything else refreshes manually
+    quoteStream.onTicks(ticks => this.applyTicks(ticks));
   }
   
   static getInstance(): MarketDataSubscriptionManager {
@@ -324,8 +315,8 @@ class MarketDataSubscriptionManager {
   }
   
   /**
-   * Subscribe to updates for a ticker - NO automatic polling.
-   * Updates only happen when prefetchHoldings or manual refresh is called.
+   * Subscribe to updates for a ticker.
+   * Updates stream in while the ticker is marked visible, otherwise only on manual refresh.
    */
   subscribe(ticker: string, callback: SubscriptionCallback): () => void {
     const upperTicker = ticker.toUpperCase();
@@ -349,14 +340,45 @@ class MarketDataSubscriptionManager {
     };
   }
   
-  // Mark ticker as visible in viewport (for future optimization)
+  /**
+   * Stream a ticker while it is on screen; each call needs a matching markHidden
+   */
   markVisible(ticker: string): void {
-    // No-op - no automatic polling
+    quoteStream.retain(ticker);
   }
   
-  // Mark ticker as not visible
   markHidden(ticker: string): void {
-    // No-op - no automatic polling
+    quoteStream.release(ticker);
+  }
+  
+  // Move cached quotes to the streamed price and tell that ticker's subscribers
+  private applyTicks(ticks: Map<string, QuoteTick>): void {
+    // Prices from the mock feed are random walks, so flag the quotes they touch as sample data
+    const mock = quoteStream.getState().provider === 'mock';
+    for (const [ticker, tick] of ticks.entries()) {
+      const entry = quoteCache.get(ticker);
+      if (!entry) continue;
+      
+      const { data } = entry;
+      const change = tick.price - data.previousClose;
+      setCachedQuote(ticker, {
+        ...data,
+        price: tick.price,
+        change,
+        changePercent: data.previousClose ? (change / data.previousClose) * 100 : 0,
+        high: Math.max(data.high, tick.price),
+        low: Math.min(data.low, tick.price),
+        ...(mock && { source: 'mock' as const, isMock: true, provider: 'mock' as const }),
+      });
+      
+      const cached = getCachedQuote(ticker);
+      const callbackSet = this.callbacks.get(ticker);
+      if (cached && callbackSet) {
+        for (const cb of callbackSet) {
+          cb(new Map([[ticker, cached]]));
+        }
+      }
+    }
   }
   
   /**
@@ -401,6 +423,7 @@ class MarketDataSubscriptionManager {
   cleanup(): void {
     this.subscribedTickers.clear();
     this.callbacks.clear();
+    quoteStream.stop();
   }
 }
 
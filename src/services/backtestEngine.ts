@@ -1,4 +1,16 @@
-import { fetchHistoricalPrices, HistoricalDataPoint, CorrelationMatrix } from './backtesterService';
+import type { HistoricalDataPoint, CorrelationMatrix } from './backtesterService';
+import { CorporateAction, corporateActionsBetween } from './corporateActionService';
+import { runComputeJob, ComputeJobOptions } from './computePoolService';
+import {
+  CostModel,
+  CostSummary,
+  NO_COSTS,
+  addTradeCost,
+  affordableShares,
+  calculateCostDrag,
+  emptyCostSummary,
+  estimateTradeCost
+} from './transactionCostService';
 import { 
   NeuroSymbolicOptimizer, 
   PortfolioWeights, 
@@ -26,6 +38,9 @@ export interface BacktestConfig {
   rebalanceFrequency: 'daily' | 'weekly' | 'monthly';
   regimeLookback: number;
   taxRate: { shortTerm: number; longTerm: number };
+  costModel?: CostModel; // Defaults to frictionless trading
+  includeCorporateActions?: boolean; // Credit dividends to cash and apply splits (default true)
+  pricesSplitAdjusted?: boolean; // Whether the price history is already restated for splits (default true)
 }
 
 export interface BacktestSnapshot {
@@ -37,6 +52,8 @@ export interface BacktestSnapshot {
   weights: Map<string, number>;
   turnover: number;
   taxPaid: number;
+  transactionCost: number;
+  dividends: number;
 }
 
 export interface BacktestResult {
@@ -56,6 +73,15 @@ export interface PerformanceMetrics {
   totalTurnover: number;
   totalTaxPaid: number;
   afterTaxReturn: number;
+  transactionCosts: CostSummary;
+  costDrag: number; // Annualized return lost to commissions, spread and impact
+  dividendIncome: number;
+}
+
+// Prices and corporate actions fetched up front so the simulation itself can run off the main thread
+export interface BacktestMarketData {
+  prices: Map<string, HistoricalDataPoint[]>;
+  corporateActions: CorporateAction[];
 }
 
 export interface RegimeMetrics {
@@ -80,21 +106,40 @@ export class BacktestEngine {
   private currentPrices: Map<string, number> = new Map();
   private shares: Map<string, number> = new Map();
   private cash: number;
+  private currentVolumes: Map<string, number> = new Map();
+  private corporateActions: CorporateAction[] = [];
+  private costModel: CostModel;
+  private costs: CostSummary = emptyCostSummary();
 
   constructor(config: BacktestConfig) {
     this.config = config;
     this.optimizer = new NeuroSymbolicOptimizer();
     this.portfolioValue = config.initialCapital;
     this.cash = config.initialCapital;
+    this.costModel = config.costModel || NO_COSTS;
   }
 
   /**
-   * Run the full backtest
+   * Run the full backtest on the calling thread
    */
   async runBacktest(
     onProgress?: (message: string, percent: number) => void
   ): Promise<BacktestResult> {
-    const { tickers, startDate, endDate, initialCapital } = this.config;
+    const data = await this.loadMarketData(onProgress);
+    return this.simulate(data, onProgress);
+  }
+
+  /**
+   * Fetch price history and corporate actions for every ticker
+   */
+  async loadMarketData(
+    onProgress?: (message: string, percent: number) => void
+  ): Promise<BacktestMarketData> {
+    const { tickers, startDate, endDate } = this.config;
+    // Loaded lazily so worker bundles that only simulate never pull in the API clients
+    const { fetchHistoricalPrices, fetchCorporateActions } = await import('./backtesterService');
+    const prices = new Map<string, HistoricalDataPoint[]>();
+    const corporateActions: CorporateAction[] = [];
     
     console.log('[Backtest] Starting...', tickers.length, 'assets');
     onProgress?.('Fetching historical data...', 5);
@@ -104,7 +149,7 @@ export class BacktestEngine {
       const ticker = tickers[i];
       try {
         const data = await fetchHistoricalPrices(ticker, startDate, endDate);
-        this.assetData.set(ticker, data);
+        prices.set(ticker, data);
         onProgress?.(`Loaded ${ticker}`, 5 + (i / tickers.length) * 30);
       } catch (error) {
         console.warn(`[Backtest] Failed to fetch ${ticker}:`, error);
@@ -115,6 +160,31 @@ export class BacktestEngine {
       }
     }
 
+    if (this.config.includeCorporateActions !== false) {
+      onProgress?.('Fetching dividends and splits...', 36);
+      for (const ticker of tickers.filter(t => prices.get(t)?.length)) {
+        const actions = await fetchCorporateActions(ticker, startDate, endDate, this.config.pricesSplitAdjusted !== false);
+        corporateActions.push(...actions);
+        await new Promise(r => setTimeout(r, 300));
+      }
+      corporateActions.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    return { prices, corporateActions };
+  }
+
+  /**
+   * Simulate the strategy over already-loaded market data. Synchronous and free of
+   * network access, so it can run inside the compute worker.
+   */
+  simulate(
+    data: BacktestMarketData,
+    onProgress?: (message: string, percent: number) => void
+  ): BacktestResult {
+    const { tickers, initialCapital } = this.config;
+    this.assetData = new Map(data.prices);
+    this.corporateActions = data.corporateActions;
+
     // Filter to only tickers with data
     const activeTickers = tickers.filter(t => this.assetData.has(t) && this.assetData.get(t)!.length > 0);
     if (activeTickers.length === 0) {
@@ -122,6 +192,7 @@ export class BacktestEngine {
     }
 
     console.log('[Backtest] Active tickers:', activeTickers);
+
     onProgress?.('Processing trading days...', 40);
 
     // Get unique trading dates
@@ -138,14 +209,17 @@ export class BacktestEngine {
     // Update initial prices
     this.updatePrices(allDates[0], activeTickers);
 
-    // Initial purchase - equal weight
+    // Initial purchase - equal weight, each allocation paying its own trading costs
     activeTickers.forEach(ticker => {
       const price = this.currentPrices.get(ticker) || 0;
       if (price > 0) {
         const allocation = initialCapital * initialWeight;
-        const numShares = Math.floor(allocation / price);
+        const volume = this.currentVolumes.get(ticker);
+        const numShares = affordableShares(this.costModel, allocation, price, volume);
+        const cost = estimateTradeCost(this.costModel, numShares, price, volume);
         this.shares.set(ticker, numShares);
-        this.cash -= numShares * price;
+        this.cash -= numShares * price + cost.total;
+        if (numShares > 0) this.costs = addTradeCost(this.costs, cost);
         
         // Record tax lot
         this.taxLots.push({
@@ -177,9 +251,15 @@ export class BacktestEngine {
       // Update prices
       this.updatePrices(date, activeTickers);
 
+      // Dividends and splits that went ex since the previous trading day
+      const dividends = this.applyCorporateActions(allDates[i - 1], date);
+
       // Calculate current portfolio value
       this.portfolioValue = this.calculatePortfolioValue(activeTickers);
-      const dailyReturn = previousValue > 0 ? (this.portfolioValue - previousValue) / previousValue : 0;
+      let dailyReturn = previousValue > 0 ? (this.portfolioValue - previousValue) / previousValue : 0;
+      let turnover = 0;
+      let taxPaid = 0;
+      let transactionCost = 0;
 
       // Check if rebalance needed
       if (this.shouldRebalance(date, lastRebalanceDate)) {
@@ -204,10 +284,16 @@ export class BacktestEngine {
         );
 
         // Execute rebalance
-        const { turnover, taxPaid } = this.executeRebalance(optimalWeights.weights, new Date(date), activeTickers);
-        totalTurnover += turnover;
-        totalTaxPaid += taxPaid;
+        const rebalance = this.executeRebalance(optimalWeights.weights, new Date(date), activeTickers);
+        totalTurnover += rebalance.turnover;
+        totalTaxPaid += rebalance.taxPaid;
+        turnover = rebalance.turnover;
+        taxPaid = rebalance.taxPaid;
+        transactionCost = rebalance.transactionCost;
         
+        // Trading costs leave the portfolio on the rebalance day
+        this.portfolioValue = this.calculatePortfolioValue(activeTickers);
+        dailyReturn = previousValue > 0 ? (this.portfolioValue - previousValue) / previousValue : 0;
         lastRebalanceDate = date;
       }
 
@@ -219,8 +305,10 @@ export class BacktestEngine {
         regime: currentRegime.regime,
         turbulenceIndex: currentRegime.turbulenceIndex,
         weights: new Map(this.currentWeights),
-        turnover: 0,
-        taxPaid: 0
+        turnover,
+        taxPaid,
+        transactionCost,
+        dividends
       });
 
       previousValue = this.portfolioValue;
@@ -270,6 +358,7 @@ export class BacktestEngine {
       const point = data?.find(d => d.date === date);
       if (point) {
         this.currentPrices.set(ticker, point.price);
+        this.currentVolumes.set(ticker, point.volume || 0);
       }
     });
   }
@@ -308,16 +397,45 @@ export class BacktestEngine {
   }
 
   /**
-   * Execute rebalance to target weights
+   * Credit dividends to cash and apply splits to share counts and tax lots
+   */
+  private applyCorporateActions(previousDate: string, date: string): number {
+    let dividends = 0;
+
+    corporateActionsBetween(this.corporateActions, previousDate, date).forEach(action => {
+      const held = this.shares.get(action.symbol) || 0;
+      if (held <= 0) return;
+
+      if (action.type === 'split') {
+        this.shares.set(action.symbol, held * action.value);
+        this.taxLots
+          .filter(lot => lot.ticker === action.symbol)
+          .forEach(lot => {
+            lot.shares *= action.value;
+            lot.costBasis /= action.value;
+          });
+      } else {
+        dividends += held * action.value;
+      }
+    });
+
+    this.cash += dividends;
+    return dividends;
+  }
+
+  /**
+   * Execute rebalance to target weights. Sells settle first so their proceeds, net of costs,
+   * fund the buys; buys are sized so that no trade overdraws cash.
    */
   private executeRebalance(
     targetWeights: Map<string, number>,
     date: Date,
     tickers: string[]
-  ): { turnover: number; taxPaid: number } {
+  ): { turnover: number; taxPaid: number; transactionCost: number } {
     const totalValue = this.calculatePortfolioValue(tickers);
     let turnover = 0;
     let taxPaid = 0;
+    let transactionCost = 0;
 
     // Calculate target positions
     const targetPositions = new Map<string, number>();
@@ -329,46 +447,64 @@ export class BacktestEngine {
       targetPositions.set(ticker, targetShares);
     });
 
-    // Execute trades
+    const trade = (ticker: string, shareDiff: number, price: number) => {
+      const cost = estimateTradeCost(this.costModel, shareDiff, price, this.currentVolumes.get(ticker));
+      turnover += (Math.abs(shareDiff) * price) / totalValue;
+      transactionCost += cost.total;
+      this.costs = addTradeCost(this.costs, cost);
+      this.shares.set(ticker, (this.shares.get(ticker) || 0) + shareDiff);
+      return cost.total;
+    };
+
+    // Sells
     tickers.forEach(ticker => {
       const currentShares = this.shares.get(ticker) || 0;
       const targetShares = targetPositions.get(ticker) || 0;
       const price = this.currentPrices.get(ticker) || 0;
-      const shareDiff = targetShares - currentShares;
 
-      if (shareDiff !== 0 && price > 0) {
-        const tradeValue = Math.abs(shareDiff) * price;
-        turnover += tradeValue / totalValue;
+      if (targetShares < currentShares && price > 0) {
+        const sellShares = currentShares - targetShares;
+        taxPaid += this.calculateTaxOnSale(ticker, sellShares, price, date);
+        const cost = trade(ticker, -sellShares, price);
+        this.cash += sellShares * price - cost;
+      }
+    });
 
-        if (shareDiff < 0) {
-          // Selling - calculate tax
-          const sellShares = Math.abs(shareDiff);
-          taxPaid += this.calculateTaxOnSale(ticker, sellShares, price, date);
-          this.cash += sellShares * price;
-        } else {
-          // Buying
-          this.cash -= shareDiff * price;
-          this.taxLots.push({
-            ticker,
-            shares: shareDiff,
-            costBasis: price,
-            purchaseDate: date
-          });
-        }
+    // Buys
+    tickers.forEach(ticker => {
+      const currentShares = this.shares.get(ticker) || 0;
+      const targetShares = targetPositions.get(ticker) || 0;
+      const price = this.currentPrices.get(ticker) || 0;
 
-        this.shares.set(ticker, targetShares);
+      if (targetShares > currentShares && price > 0) {
+        const volume = this.currentVolumes.get(ticker);
+        const buyShares = Math.min(
+          targetShares - currentShares,
+          affordableShares(this.costModel, this.cash, price, volume)
+        );
+        if (buyShares <= 0) return;
+
+        const cost = trade(ticker, buyShares, price);
+        this.cash -= buyShares * price + cost;
+        this.taxLots.push({
+          ticker,
+          shares: buyShares,
+          costBasis: price + cost / buyShares,
+          purchaseDate: date
+        });
       }
     });
 
     // Update weights
+    const valueAfterCosts = this.calculatePortfolioValue(tickers);
     tickers.forEach(ticker => {
       const shares = this.shares.get(ticker) || 0;
       const price = this.currentPrices.get(ticker) || 0;
-      const weight = totalValue > 0 ? (shares * price) / totalValue : 0;
+      const weight = valueAfterCosts > 0 ? (shares * price) / valueAfterCosts : 0;
       this.currentWeights.set(ticker, weight);
     });
 
-    return { turnover, taxPaid };
+    return { turnover, taxPaid, transactionCost };
   }
 
   /**
@@ -588,7 +724,8 @@ export class BacktestEngine {
     if (snapshots.length < 2) {
       return {
         totalReturn: 0, cagr: 0, volatility: 0, sharpeRatio: 0, sortinoRatio: 0,
-        maxDrawdown: 0, calmarRatio: 0, totalTurnover: 0, totalTaxPaid: 0, afterTaxReturn: 0
+        maxDrawdown: 0, calmarRatio: 0, totalTurnover: 0, totalTaxPaid: 0, afterTaxReturn: 0,
+        transactionCosts: this.costs, costDrag: 0, dividendIncome: 0
       };
     }
 
@@ -625,6 +762,10 @@ export class BacktestEngine {
     // After-tax return
     const afterTaxReturn = (finalValue - initialValue - totalTaxPaid) / initialValue;
 
+    // Cost drag and dividend income
+    const costDrag = calculateCostDrag(initialValue, finalValue, this.costs.total, years);
+    const dividendIncome = snapshots.reduce((sum, s) => sum + s.dividends, 0);
+
     return {
       totalReturn,
       cagr,
@@ -635,7 +776,10 @@ export class BacktestEngine {
       calmarRatio,
       totalTurnover,
       totalTaxPaid,
-      afterTaxReturn
+      afterTaxReturn,
+      transactionCosts: this.costs,
+      costDrag,
+      dividendIncome
     };
   }
 
@@ -676,7 +820,9 @@ export async function runBacktest(
   startDate: string,
   endDate: string,
   initialCapital: number = 100000,
-  onProgress?: (msg: string, pct: number) => void
+  onProgress?: (msg: string, pct: number) => void,
+  costModel?: CostModel,
+  signal?: AbortSignal
 ): Promise<BacktestResult> {
   const config: BacktestConfig = {
     tickers,
@@ -685,9 +831,12 @@ export async function runBacktest(
     initialCapital,
     rebalanceFrequency: 'monthly',
     regimeLookback: 60,
-    taxRate: { shortTerm: 0.35, longTerm: 0.15 }
+    taxRate: { shortTerm: 0.35, longTerm: 0.15 },
+    costModel
   };
 
-  const engine = new BacktestEngine(config);
-  return engine.runBacktest(onProgress);
+  // Fetch on the main thread, then hand the simulation to the worker pool
+  const data = await new BacktestEngine(config).loadMarketData(onProgress);
+  const options: ComputeJobOptions = { onProgress, signal };
+  return runComputeJob({ type: 'backtest', params: { config, data } }, options);
 }
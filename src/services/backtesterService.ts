@@ -1,8 +1,18 @@
-// Backtester Service - Real historical data from Finnhub
+// Backtester Service - Real historical data from the shared bar store
 // Aligned with Portfolio Visualizer methodology
 // Reference: https://www.portfoliovisualizer.com/faq
 
-import { getCandles, CandleData } from './finnhubService';
+import { getCorporateActions } from './finnhubService';
+import { barStore } from './barStoreService';
+import {
+  CostModel,
+  CostSummary,
+  NO_COSTS,
+  addTradeCost,
+  calculateCostDrag,
+  emptyCostSummary,
+  estimateTradeCost,
+} from './transactionCostService';
 import {
   arithmeticMean,
   standardDeviation,
@@ -14,6 +24,13 @@ import {
   annualizedVolatility,
   yearsBetween
 } from './portfolioMetricsService';
+import { CorporateAction, corporateActionsBetween } from './corporateActionService';
+import { MonteCarloResult } from './monteCarloService';
+import { runComputeJob, ComputeJobOptions } from './computePoolService';
+
+export type { CorporateAction } from './corporateActionService';
+export { corporateActionsBetween } from './corporateActionService';
+export type { MonteCarloResult } from './monteCarloService';
 
 export interface HistoricalDataPoint {
   date: string;
@@ -32,6 +49,7 @@ export interface Trade {
   price: number;
   value: number;
   reason: string;
+  cost?: number; // Commission, spread and impact paid on the trade
 }
 
 export interface PortfolioSnapshot {
@@ -65,6 +83,9 @@ export interface BacktestResult {
   alpha?: number;
   beta?: number;
   assetPerformance?: { symbol: string; return: number; contribution: number }[];
+  transactionCosts?: CostSummary;
+  dividendIncome?: number;
+  costDrag?: number; // Annualized return lost to trading costs (%)
 }
 
 export interface StrategyParams {
@@ -98,17 +119,10 @@ export interface BacktestConfig {
   strategy: StrategyType;
   strategyParams?: StrategyParams;
   benchmarkSymbol?: string;
-}
-
-export interface MonteCarloResult {
-  percentile5: number[];
-  percentile25: number[];
-  percentile50: number[];
-  percentile75: number[];
-  percentile95: number[];
-  finalValues: number[];
-  medianFinalValue: number;
-  probabilityOfLoss: number;
+  costModel?: CostModel; // Defaults to frictionless trading
+  includeCorporateActions?: boolean; // Credit dividends and apply splits (default true)
+  reinvestDividends?: boolean; // Buy more of the paying asset with dividends (default true)
+  pricesSplitAdjusted?: boolean; // Whether the price history is already restated for splits (default true)
 }
 
 export interface StressTestResult {
@@ -132,21 +146,19 @@ const RISK_FREE_RATE = 0.05;
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 /**
- * Fetch historical prices from Finnhub
+ * Fetch historical prices through the shared bar store
  */
 export async function fetchHistoricalPrices(
   symbol: string,
   startDate: string,
   endDate: string
 ): Promise<HistoricalDataPoint[]> {
-  console.log(`[Backtester] Fetching ${symbol} from ${startDate} to ${endDate} via Finnhub...`);
-  
-  const fromTs = Math.floor(new Date(startDate).getTime() / 1000);
-  const toTs = Math.floor(new Date(endDate).getTime() / 1000);
+  console.log(`[Backtester] Fetching ${symbol} from ${startDate} to ${endDate}...`);
   
-  const candles = await getCandles(symbol, 'D', fromTs, toTs);
+  const stored = (await barStore.getBars([symbol], startDate, endDate)).get(symbol.toUpperCase());
+  const candles = stored?.bars ?? [];
   
-  if (!candles || candles.length === 0) {
+  if (candles.length === 0) {
     throw new Error(`No data for ${symbol} in date range ${startDate} to ${endDate}`);
   }
   
@@ -162,6 +174,40 @@ export async function fetchHistoricalPrices(
   }));
 }
 
+/**
+ * Fetch dividends and splits for a symbol, restated to match the price history: when prices
+ * are already split-adjusted, splits are dropped and dividends use split-adjusted amounts.
+ */
+export async function fetchCorporateActions(
+  symbol: string,
+  startDate: string,
+  endDate: string,
+  pricesSplitAdjusted: boolean = true
+): Promise<CorporateAction[]> {
+  try {
+    const { dividends, splits } = await getCorporateActions(symbol, startDate, endDate);
+    const actions: CorporateAction[] = dividends
+      .map(d => ({
+        symbol,
+        date: d.date,
+        type: 'dividend' as const,
+        value: pricesSplitAdjusted ? d.adjustedAmount : d.amount,
+      }))
+      .filter(a => a.value > 0);
+
+    if (!pricesSplitAdjusted) {
+      splits
+        .filter(sp => sp.fromFactor > 0 && sp.toFactor > 0)
+        .forEach(sp => actions.push({ symbol, date: sp.date, type: 'split', value: sp.toFactor / sp.fromFactor }));
+    }
+
+    return actions.sort((a, b) => a.date.localeCompare(b.date));
+  } catch (e) {
+    console.warn(`[Backtester] Could not fetch corporate actions for ${symbol}:`, e);
+    return [];
+  }
+}
+
 /**
  * Calculate daily returns from portfolio values
  * Using simple returns: (P1 - P0) / P0
@@ -190,7 +236,18 @@ function calculateBetaAlphaWrapper(
  * FIXED: Properly calculates portfolio value based on actual shares held
  */
 export async function runBacktest(config: BacktestConfig): Promise<BacktestResult> {
-  const { assets, startDate, endDate, initialCapital, strategy, benchmarkSymbol = 'SPY' } = config;
+  const {
+    assets,
+    startDate,
+    endDate,
+    initialCapital,
+    strategy,
+    benchmarkSymbol = 'SPY',
+    costModel = NO_COSTS,
+    includeCorporateActions = true,
+    reinvestDividends = true,
+    pricesSplitAdjusted = true,
+  } = config;
   
   console.log(`[Backtester] ========================================`);
   console.log(`[Backtester] Running backtest from ${startDate} to ${endDate}`);
@@ -221,6 +278,17 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
     }
   }
   
+  // Dividends and splits for total-return accounting
+  const corporateActions: CorporateAction[] = [];
+  if (includeCorporateActions) {
+    for (const asset of assets) {
+      await delay(350); // Finnhub rate limit
+      corporateActions.push(...(await fetchCorporateActions(asset.symbol, startDate, endDate, pricesSplitAdjusted)));
+    }
+    corporateActions.sort((a, b) => a.date.localeCompare(b.date));
+    console.log(`[Backtester] ${corporateActions.length} corporate actions in range`);
+  }
+  
   // Fetch benchmark data
   console.log(`[Backtester] Fetching benchmark ${benchmarkSymbol}...`);
   let benchmarkData: HistoricalDataPoint[] = [];
@@ -239,6 +307,13 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
     priceMaps.set(symbol, priceMap);
   });
   
+  const volumeMaps: Map<string, Map<string, number>> = new Map();
+  assetData.forEach((prices, symbol) => {
+    const volumeMap = new Map<string, number>();
+    prices.forEach(p => p.volume && volumeMap.set(p.date, p.volume));
+    volumeMaps.set(symbol, volumeMap);
+  });
+  
   const benchmarkPriceMap = new Map<string, number>();
   benchmarkData.forEach(p => benchmarkPriceMap.set(p.date, p.price));
   
@@ -259,10 +334,13 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
     throw new Error(`Not enough trading days (${commonDates.length}). Need at least 5 days with data for all assets.`);
   }
   
-  // Calculate initial shares for each asset based on allocation and FIRST DAY price
+  // Calculate initial shares for each asset based on allocation and FIRST DAY price.
+  // Each allocation pays for its own trading costs; any remainder is held as cash.
   const firstDate = commonDates[0];
   const sharesPerAsset: Map<string, number> = new Map();
   const trades: Trade[] = [];
+  let costs = emptyCostSummary();
+  let cash = 0;
   
   for (const asset of assets) {
     const firstPrice = priceMaps.get(asset.symbol)?.get(firstDate);
@@ -271,10 +349,15 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
     }
     
     const allocationAmount = (asset.allocation / 100) * initialCapital;
-    const shares = allocationAmount / firstPrice;
+    const volume = volumeMaps.get(asset.symbol)?.get(firstDate);
+    const estimate = estimateTradeCost(costModel, allocationAmount / firstPrice, firstPrice, volume);
+    const shares = Math.max(0, allocationAmount - estimate.total) / firstPrice;
+    const cost = estimateTradeCost(costModel, shares, firstPrice, volume);
     sharesPerAsset.set(asset.symbol, shares);
+    costs = addTradeCost(costs, cost);
+    cash += allocationAmount - shares * firstPrice - cost.total;
     
-    console.log(`[Backtester] ${asset.symbol}: $${allocationAmount.toFixed(0)} / $${firstPrice.toFixed(2)} = ${shares.toFixed(4)} shares`);
+    console.log(`[Backtester] ${asset.symbol}: $${allocationAmount.toFixed(0)} / $${firstPrice.toFixed(2)} = ${shares.toFixed(4)} shares (costs $${cost.total.toFixed(2)})`);
     
     trades.push({
       date: firstDate,
@@ -282,29 +365,74 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
       symbol: asset.symbol,
       shares,
       price: firstPrice,
-      value: allocationAmount,
+      value: shares * firstPrice,
       reason: `Initial allocation: ${asset.allocation}%`,
+      cost: cost.total,
     });
   }
   
   // Build portfolio history - calculate total value each day
   const portfolioHistory: PortfolioSnapshot[] = [];
   const portfolioValues: number[] = [];
+  let dividendIncome = 0;
+  let previousDate = firstDate;
   
   for (const date of commonDates) {
-    let dayValue = 0;
+    // Apply dividends and splits that went ex since the previous trading day
+    for (const action of corporateActionsBetween(corporateActions, previousDate, date)) {
+      const held = sharesPerAsset.get(action.symbol) || 0;
+      if (held <= 0) continue;
+      
+      if (action.type === 'split') {
+        sharesPerAsset.set(action.symbol, held * action.value);
+        continue;
+      }
+      
+      const income = held * action.value;
+      dividendIncome += income;
+      cash += income;
+      
+      if (reinvestDividends) {
+        const price = priceMaps.get(action.symbol)?.get(date) || 0;
+        const volume = volumeMaps.get(action.symbol)?.get(date);
+        if (price > 0) {
+          const estimate = estimateTradeCost(costModel, income / price, price, volume);
+          const bought = Math.max(0, income - estimate.total) / price;
+          if (bought > 0) {
+            const cost = estimateTradeCost(costModel, bought, price, volume);
+            sharesPerAsset.set(action.symbol, held + bought);
+            costs = addTradeCost(costs, cost);
+            cash -= bought * price + cost.total;
+            trades.push({
+              date,
+              type: 'buy',
+              symbol: action.symbol,
+              shares: bought,
+              price,
+              value: bought * price,
+              reason: `Dividend reinvestment ($${action.value.toFixed(4)}/share)`,
+              cost: cost.total,
+            });
+          }
+        }
+      }
+    }
+    previousDate = date;
+    
+    let holdings = 0;
     
     for (const asset of assets) {
       const shares = sharesPerAsset.get(asset.symbol) || 0;
       const price = priceMaps.get(asset.symbol)?.get(date) || 0;
-      dayValue += shares * price;
+      holdings += shares * price;
     }
     
+    const dayValue = holdings + cash;
     portfolioValues.push(dayValue);
     portfolioHistory.push({
       date,
-      cash: 0, // Buy-and-hold: all invested
-      holdings: dayValue,
+      cash,
+      holdings,
       totalValue: dayValue,
       shares: 0, // Not applicable for multi-asset
     });
@@ -333,6 +461,7 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
   const sharpeRatio = calcSharpe(dailyReturns, RISK_FREE_RATE);
   const sortinoRatio = calcSortino(dailyReturns, RISK_FREE_RATE);
   const { maxDrawdown, maxDrawdownPercent } = calcMaxDD(portfolioValues);
+  const costDrag = calculateCostDrag(initialCapital, finalValue, costs.total, years) * 100;
   
   // Benchmark comparison
   let benchmarkReturn: number | undefined;
@@ -380,6 +509,7 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
   console.log(`[Backtester] Volatility: ${volatility.toFixed(2)}%`);
   console.log(`[Backtester] Alpha: ${alpha.toFixed(2)}%`);
   console.log(`[Backtester] Beta: ${beta.toFixed(2)}`);
+  console.log(`[Backtester] Trading Costs: $${costs.total.toFixed(2)} (${costDrag.toFixed(2)}%/yr drag), Dividends: $${dividendIncome.toFixed(2)}`);
   if (benchmarkReturn !== undefined) {
     console.log(`[Backtester] Benchmark (${benchmarkSymbol}): ${benchmarkReturn.toFixed(2)}%`);
   }
@@ -409,16 +539,21 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
     alpha,
     beta,
     assetPerformance,
+    transactionCosts: costs,
+    dividendIncome,
+    costDrag,
   };
 }
 
 /**
- * Monte Carlo simulation using REAL historical volatility
+ * Monte Carlo simulation using REAL historical volatility. Parameters are estimated here;
+ * the seeded path simulation runs on the compute worker pool.
  */
 export async function runMonteCarloSimulation(
   config: BacktestConfig,
   numSimulations: number = 1000,
-  projectionYears: number = 5
+  projectionYears: number = 5,
+  options: ComputeJobOptions & { seed?: number } = {}
 ): Promise<MonteCarloResult> {
   console.log('[Monte Carlo] Starting simulation...');
   
@@ -445,68 +580,25 @@ export async function runMonteCarloSimulation(
     console.warn('[Monte Carlo] Could not get historical data, using defaults:', e);
   }
   
-  const tradingDaysPerYear = 252;
-  const dailyReturn = annualReturn / tradingDaysPerYear;
-  const dailyVol = annualVolatility / Math.sqrt(tradingDaysPerYear);
-  
-  const allPaths: number[][] = [];
-  const finalValues: number[] = [];
-  
-  for (let sim = 0; sim < numSimulations; sim++) {
-    const path: number[] = [config.initialCapital];
-    let value = config.initialCapital;
-    
-    for (let year = 0; year < projectionYears; year++) {
-      for (let day = 0; day < tradingDaysPerYear; day++) {
-        // Box-Muller transform for normal distribution
-        const u1 = Math.random();
-        const u2 = Math.random();
-        const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-        
-        const dailyChange = dailyReturn + z * dailyVol;
-        value *= (1 + dailyChange);
-        value = Math.max(0, value);
-      }
-      path.push(Math.round(value));
-    }
-    
-    allPaths.push(path);
-    finalValues.push(value);
-  }
-  
-  // Calculate percentiles for each year
-  const percentile5: number[] = [];
-  const percentile25: number[] = [];
-  const percentile50: number[] = [];
-  const percentile75: number[] = [];
-  const percentile95: number[] = [];
-  
-  for (let year = 0; year <= projectionYears; year++) {
-    const valuesAtYear = allPaths.map(path => path[year]).sort((a, b) => a - b);
-    percentile5.push(valuesAtYear[Math.floor(numSimulations * 0.05)]);
-    percentile25.push(valuesAtYear[Math.floor(numSimulations * 0.25)]);
-    percentile50.push(valuesAtYear[Math.floor(numSimulations * 0.50)]);
-    percentile75.push(valuesAtYear[Math.floor(numSimulations * 0.75)]);
-    percentile95.push(valuesAtYear[Math.floor(numSimulations * 0.95)]);
-  }
-  
-  const sortedFinals = [...finalValues].sort((a, b) => a - b);
-  const medianFinalValue = sortedFinals[Math.floor(numSimulations / 2)];
-  const lossCount = finalValues.filter(v => v < config.initialCapital).length;
-  
-  console.log(`[Monte Carlo] Median final value: $${medianFinalValue.toLocaleString()}`);
-  console.log(`[Monte Carlo] Probability of loss: ${((lossCount / numSimulations) * 100).toFixed(1)}%`);
-  
-  return {
-    percentile5,
-    percentile25,
-    percentile50,
-    percentile75,
-    percentile95,
-    finalValues: sortedFinals,
-    medianFinalValue,
-    probabilityOfLoss: (lossCount / numSimulations) * 100,
-  };
+  const result = await runComputeJob(
+    {
+      type: 'monteCarlo',
+      params: {
+        initialCapital: config.initialCapital,
+        annualReturn,
+        annualVolatility,
+        numSimulations,
+        projectionYears,
+        seed: options.seed,
+      },
+    },
+    options
+  );
+  
+  console.log(`[Monte Carlo] Median final value: $${result.medianFinalValue.toLocaleString()}`);
+  console.log(`[Monte Carlo] Probability of loss: ${result.probabilityOfLoss.toFixed(1)}%`);
+  
+  return result;
 }
 
 /**
@@ -0,0 +1,541 @@
+// Bar Store Service - Persistent browser-side OHLCV history shared by backtests, portfolio analytics and charts
+// Records which date ranges are held per ticker/resolution, fetches only the gaps and evicts least-recently-used series
+
+import { addDays, format, isWeekend, parseISO, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { marketDataRouter } from './marketDataProviders';
+import type { ProviderBar, ProviderId } from './marketDataRouter';
+
+export type BarResolution = 'day' | 'week' | 'month';
+
+export interface DateRange {
+  start: string; // yyyy-MM-dd, inclusive
+  end: string; // yyyy-MM-dd, inclusive
+}
+
+export interface SeriesRecord {
+  key: string;
+  ticker: string;
+  resolution: BarResolution;
+  bars: ProviderBar[]; // Sorted by date
+  ranges: DateRange[]; // Merged ranges whose bars are all held
+  tailCheckedAt: number | null; // Last fetch of dates that may still change (today)
+}
+
+export interface SeriesMeta {
+  key: string;
+  ticker: string;
+  resolution: BarResolution;
+  barCount: number;
+  sizeBytes: number;
+  lastAccess: number;
+}
+
+/**
+ * Where the store keeps series. update() must apply its function atomically so concurrent merges
+ * never lose each other's bars.
+ */
+export interface BarStoreBackend {
+  read(key: string): Promise<SeriesRecord | null>;
+  update(key: string, fn: (existing: SeriesRecord | null) => SeriesRecord, now: number): Promise<SeriesRecord>;
+  touch(keys: string[], now: number): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  listMeta(): Promise<SeriesMeta[]>;
+  clear(): Promise<void>;
+}
+
+export interface BarSources {
+  // Bulk read for several tickers; throws when the read fails
+  database(tickers: string[], range: DateRange, resolution: BarResolution): Promise<Map<string, ProviderBar[]>>;
+  // One ticker from the API providers; null when none of them could answer
+  api(ticker: string, range: DateRange, resolution: BarResolution): Promise<{ bars: ProviderBar[]; provider: ProviderId } | null>;
+}
+
+export interface BarStoreOptions {
+  backend: BarStoreBackend;
+  sources: BarSources;
+  budgetBytes?: number;
+  now?: () => number;
+}
+
+export interface GetBarsOptions {
+  resolution?: BarResolution;
+  forceRefresh?: boolean; // Refetch the whole range; refetched bars replace held ones
+  onProgress?: (done: number, total: number, ticker?: string) => void;
+}
+
+export interface BarSeriesResult {
+  ticker: string;
+  bars: ProviderBar[];
+  source: 'store' | 'database' | 'api'; // Where the newest bars came from; 'store' when nothing was fetched
+  provider: ProviderId | null; // API provider, when one was used
+  complete: boolean; // False when some gap could not be fetched
+}
+
+export interface BarStoreStats {
+  series: number;
+  bars: number;
+  sizeBytes: number;
+  budgetBytes: number;
+}
+
+export const DEFAULT_BAR_STORE_BUDGET = 50 * 1024 * 1024;
+
+const BYTES_PER_BAR = 80; // Rough structured-clone size of one bar
+const TAIL_TTL_MS = 15 * 60 * 1000;
+const EDGE_SLACK_DAYS = 5; // Weekends and holidays at either end of a gap
+const DATABASE_BATCH_SIZE = 10;
+
+// ============= Range helpers =============
+
+const shift = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+/**
+ * Sort and merge ranges that overlap or touch
+ */
+export function mergeRanges(ranges: DateRange[]): DateRange[] {
+  const sorted = ranges.filter(r => r.start <= r.end).sort((a, b) => a.start.localeCompare(b.start));
+  const merged: DateRange[] = [];
+  for (const r of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= shift(last.end, 1)) {
+      if (r.end > last.end) last.end = r.end;
+    } else {
+      merged.push({ ...r });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parts of the requested range not covered by the held ranges
+ */
+export function missingRanges(held: DateRange[], requested: DateRange): DateRange[] {
+  const gaps: DateRange[] = [];
+  let cursor = requested.start;
+  for (const r of mergeRanges(held)) {
+    if (r.end < cursor) continue;
+    if (r.start > requested.end) break;
+    if (r.start > cursor) gaps.push({ start: cursor, end: shift(r.start, -1) });
+    cursor = shift(r.end, 1);
+    if (cursor > requested.end) return gaps;
+  }
+  if (cursor <= requested.end) gaps.push({ start: cursor, end: requested.end });
+  return gaps;
+}
+
+/**
+ * Combine bar lists by date; incoming bars replace held ones
+ */
+export function mergeBars(existing: ProviderBar[], incoming: ProviderBar[]): ProviderBar[] {
+  const byDate = new Map(existing.map(b => [b.date, b]));
+  incoming.forEach(b => byDate.set(b.date, b));
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function hasWeekday(range: DateRange): boolean {
+  for (let d = range.start, i = 0; d <= range.end && i < 7; d = shift(d, 1), i++) {
+    if (!isWeekend(parseISO(d))) return true;
+  }
+  return false;
+}
+
+const barsWithin = (bars: ProviderBar[], range: DateRange) => bars.filter(b => b.date >= range.start && b.date <= range.end);
+
+// ============= Backends =============
+
+const seriesMeta = (record: SeriesRecord, lastAccess: number): SeriesMeta => ({
+  key: record.key,
+  ticker: record.ticker,
+  resolution: record.resolution,
+  barCount: record.bars.length,
+  sizeBytes: record.bars.length * BYTES_PER_BAR,
+  lastAccess,
+});
+
+export class MemoryBarBackend implements BarStoreBackend {
+  private records = new Map<string, SeriesRecord>();
+  private meta = new Map<string, SeriesMeta>();
+
+  async read(key: string) {
+    return this.records.get(key) ?? null;
+  }
+
+  async update(key: string, fn: (existing: SeriesRecord | null) => SeriesRecord, now: number) {
+    const next = fn(this.records.get(key) ?? null);
+    this.records.set(key, next);
+    this.meta.set(key, seriesMeta(next, now));
+    return next;
+  }
+
+  async touch(keys: string[], now: number) {
+    keys.forEach(key => {
+      const meta = this.meta.get(key);
+      if (meta) meta.lastAccess = now;
+    });
+  }
+
+  async remove(keys: string[]) {
+    keys.forEach(key => {
+      this.records.delete(key);
+      this.meta.delete(key);
+    });
+  }
+
+  async listMeta() {
+    return [...this.meta.values()].map(m => ({ ...m }));
+  }
+
+  async clear() {
+    this.records.clear();
+    this.meta.clear();
+  }
+}
+
+const DB_NAME = 'market-bar-store';
+const SERIES_STORE = 'series';
+const META_STORE = 'meta';
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Series and their size/access metadata in separate object stores, so eviction never loads bars.
+ * Falls back to memory when the database cannot be opened (private browsing, blocked storage).
+ */
+export class IndexedDbBarBackend implements BarStoreBackend {
+  private db: Promise<IDBDatabase | null>;
+  private fallback = new MemoryBarBackend();
+
+  constructor() {
+    this.db = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SERIES_STORE, { keyPath: 'key' });
+        request.result.createObjectStore(META_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(e => {
+      console.warn('[BarStore] IndexedDB unavailable, keeping bars in memory:', e);
+      return null;
+    });
+  }
+
+  async read(key: string) {
+    const db = await this.db;
+    if (!db) return this.fallback.read(key);
+    const record = await requestResult(db.transaction(SERIES_STORE).objectStore(SERIES_STORE).get(key));
+    return (record as SeriesRecord | undefined) ?? null;
+  }
+
+  async update(key: string, fn: (existing: SeriesRecord | null) => SeriesRecord, now: number) {
+    const db = await this.db;
+    if (!db) return this.fallback.update(key, fn, now);
+    const tx = db.transaction([SERIES_STORE, META_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    const series = tx.objectStore(SERIES_STORE);
+    let next: SeriesRecord | null = null;
+    const get = series.get(key);
+    get.onsuccess = () => {
+      next = fn((get.result as SeriesRecord | undefined) ?? null);
+      series.put(next);
+      tx.objectStore(META_STORE).put(seriesMeta(next, now));
+    };
+    await done;
+    return next!;
+  }
+
+  async touch(keys: string[], now: number) {
+    const db = await this.db;
+    if (!db) return this.fallback.touch(keys, now);
+    const tx = db.transaction(META_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(META_STORE);
+    keys.forEach(key => {
+      const get = store.get(key);
+      get.onsuccess = () => {
+        if (get.result) store.put({ ...get.result, lastAccess: now });
+      };
+    });
+    await done;
+  }
+
+  async remove(keys: string[]) {
+    const db = await this.db;
+    if (!db) return this.fallback.remove(keys);
+    const tx = db.transaction([SERIES_STORE, META_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    keys.forEach(key => {
+      tx.objectStore(SERIES_STORE).delete(key);
+      tx.objectStore(META_STORE).delete(key);
+    });
+    await done;
+  }
+
+  async listMeta() {
+    const db = await this.db;
+    if (!db) return this.fallback.listMeta();
+    return (await requestResult(db.transaction(META_STORE).objectStore(META_STORE).getAll())) as SeriesMeta[];
+  }
+
+  async clear() {
+    const db = await this.db;
+    if (!db) return this.fallback.clear();
+    const tx = db.transaction([SERIES_STORE, META_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(SERIES_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await done;
+  }
+}
+
+// ============= Store =============
+
+export class BarStore {
+  private backend: BarStoreBackend;
+  private sources: BarSources;
+  private budgetBytes: number;
+  private now: () => number;
+
+  constructor(options: BarStoreOptions) {
+    this.backend = options.backend;
+    this.sources = options.sources;
+    this.budgetBytes = options.budgetBytes ?? DEFAULT_BAR_STORE_BUDGET;
+    this.now = options.now ?? Date.now;
+  }
+
+  static key(ticker: string, resolution: BarResolution) {
+    return `${ticker.toUpperCase()}:${resolution}`;
+  }
+
+  /**
+   * Bars for each ticker between two dates, fetching only what the store does not already hold
+   */
+  async getBars(tickers: string[], startDate: string, endDate: string, options: GetBarsOptions = {}): Promise<Map<string, BarSeriesResult>> {
+    const { resolution = 'day', forceRefresh = false, onProgress } = options;
+    const today = format(this.now(), 'yyyy-MM-dd');
+    const settled = format(subDays(this.now(), 1), 'yyyy-MM-dd'); // Dates before today will not change
+    const requested: DateRange = { start: startDate, end: endDate < today ? endDate : today };
+    const symbols = [...new Set(tickers.map(t => t.toUpperCase()))];
+    const results = new Map<string, BarSeriesResult>();
+
+    // Work out each ticker's gaps
+    const pending = new Map<string, { record: SeriesRecord | null; gaps: DateRange[] }>();
+    for (const ticker of symbols) {
+      const record = await this.backend.read(BarStore.key(ticker, resolution));
+      const held = forceRefresh ? [] : record?.ranges ?? [];
+      const tailFresh = !forceRefresh && record?.tailCheckedAt != null && this.now() - record.tailCheckedAt < TAIL_TTL_MS;
+      const gaps = missingRanges(held, requested).filter(
+        g => (resolution !== 'day' || hasWeekday(g)) && !(g.start > settled && tailFresh)
+      );
+      if (gaps.length === 0) {
+        results.set(ticker, { ticker, bars: barsWithin(record?.bars ?? [], requested), source: 'store', provider: null, complete: true });
+      } else {
+        pending.set(ticker, { record, gaps });
+      }
+    }
+    onProgress?.(results.size, symbols.length);
+
+    // Tickers missing the same ranges share database reads
+    const groups = new Map<string, string[]>();
+    pending.forEach(({ gaps }, ticker) => {
+      const signature = gaps.map(g => `${g.start}..${g.end}`).join(',');
+      groups.set(signature, [...(groups.get(signature) ?? []), ticker]);
+    });
+
+    for (const group of groups.values()) {
+      const { gaps } = pending.get(group[0])!;
+      const fetched = new Map<string, { bars: ProviderBar[]; ranges: DateRange[]; source: BarSeriesResult['source']; provider: ProviderId | null; complete: boolean }>();
+      group.forEach(t => fetched.set(t, { bars: [], ranges: [], source: 'database', provider: null, complete: true }));
+
+      for (const gap of gaps) {
+        const fromDatabase = await this.readDatabase(group, gap, resolution);
+        for (const ticker of group) {
+          const entry = fetched.get(ticker)!;
+          const dbBars = fromDatabase.get(ticker) ?? [];
+          if (this.covers(dbBars, gap, settled)) {
+            entry.bars = mergeBars(entry.bars, dbBars);
+            entry.ranges.push(this.heldThrough(dbBars, gap, settled));
+            continue;
+          }
+
+          const api = await this.sources.api(ticker, gap, resolution).catch(() => null);
+          if (api) {
+            entry.bars = mergeBars(entry.bars, mergeBars(dbBars, api.bars));
+            entry.ranges.push(gap);
+            entry.source = 'api';
+            entry.provider = api.provider;
+          } else {
+            entry.bars = mergeBars(entry.bars, dbBars);
+            entry.complete = false;
+          }
+        }
+      }
+
+      for (const ticker of group) {
+        const entry = fetched.get(ticker)!;
+        const touchesTail = gaps.some(g => g.end > settled);
+        // Only settled dates count as held; the tail is re-checked once its TTL passes
+        const ranges = entry.ranges.filter(r => r.start <= settled).map(r => ({ start: r.start, end: r.end < settled ? r.end : settled }));
+        const record = await this.backend.update(
+          BarStore.key(ticker, resolution),
+          existing => ({
+            key: BarStore.key(ticker, resolution),
+            ticker,
+            resolution,
+            bars: mergeBars(existing?.bars ?? [], entry.bars),
+            ranges: mergeRanges([...(existing?.ranges ?? []), ...ranges]),
+            tailCheckedAt: touchesTail ? this.now() : existing?.tailCheckedAt ?? null,
+          }),
+          this.now()
+        );
+        results.set(ticker, {
+          ticker,
+          bars: barsWithin(record.bars, requested),
+          source: entry.source,
+          provider: entry.provider,
+          complete: entry.complete,
+        });
+        onProgress?.(results.size, symbols.length, ticker);
+      }
+    }
+
+    await this.backend.touch(symbols.map(t => BarStore.key(t, resolution)), this.now());
+    if (pending.size > 0) await this.enforceBudget(new Set(symbols.map(t => BarStore.key(t, resolution))));
+    return results;
+  }
+
+  /**
+   * Drop held history for a ticker, or everything
+   */
+  async invalidate(ticker?: string) {
+    if (!ticker) return this.backend.clear();
+    const keys = (await this.backend.listMeta()).filter(m => m.ticker === ticker.toUpperCase()).map(m => m.key);
+    await this.backend.remove(keys);
+  }
+
+  async getStats(): Promise<BarStoreStats> {
+    const meta = await this.backend.listMeta();
+    return {
+      series: meta.length,
+      bars: meta.reduce((s, m) => s + m.barCount, 0),
+      sizeBytes: meta.reduce((s, m) => s + m.sizeBytes, 0),
+      budgetBytes: this.budgetBytes,
+    };
+  }
+
+  private async readDatabase(tickers: string[], gap: DateRange, resolution: BarResolution) {
+    try {
+      return await this.sources.database(tickers, gap, resolution);
+    } catch (e) {
+      console.warn('[BarStore] Database read failed:', e);
+      return new Map<string, ProviderBar[]>();
+    }
+  }
+
+  // Database bars reach both ends of the gap, allowing for non-trading days
+  private covers(bars: ProviderBar[], gap: DateRange, settled: string) {
+    if (gap.start > settled) return true; // Today's bar only ever comes from the sync job, never a per-ticker API call
+    if (bars.length === 0) return false;
+    const end = gap.end < settled ? gap.end : settled;
+    return bars[0].date <= shift(gap.start, EDGE_SLACK_DAYS) && bars[bars.length - 1].date >= shift(end, -EDGE_SLACK_DAYS);
+  }
+
+  // Recent days the sync job may not have written yet stay unheld, so the next request asks for them again
+  private heldThrough(bars: ProviderBar[], gap: DateRange, settled: string): DateRange {
+    const last = bars[bars.length - 1]?.date;
+    if (gap.end < shift(settled, -EDGE_SLACK_DAYS) || !last || last >= gap.end) return gap;
+    return { start: gap.start, end: last };
+  }
+
+  // Evict least-recently-used series, never the ones just requested, until under budget
+  private async enforceBudget(keep: Set<string>) {
+    const meta = await this.backend.listMeta();
+    let total = meta.reduce((s, m) => s + m.sizeBytes, 0);
+    if (total <= this.budgetBytes) return;
+
+    const evict: string[] = [];
+    for (const m of meta.filter(m => !keep.has(m.key)).sort((a, b) => a.lastAccess - b.lastAccess)) {
+      if (total <= this.budgetBytes) break;
+      evict.push(m.key);
+      total -= m.sizeBytes;
+    }
+    if (evict.length > 0) {
+      console.log(`[BarStore] Evicting ${evict.length} series to stay within budget`);
+      await this.backend.remove(evict);
+    }
+  }
+}
+
+// ============= Default sources =============
+
+const POLYGON_TIMESPANS: Record<BarResolution, string> = { day: 'day', week: 'week', month: 'month' };
+
+export const defaultBarSources: BarSources = {
+  async database(tickers, range, resolution) {
+    const results = new Map<string, ProviderBar[]>();
+    if (resolution !== 'day') return results; // Only daily bars are synced
+
+    for (let i = 0; i < tickers.length; i += DATABASE_BATCH_SIZE) {
+      const batch = tickers.slice(i, i + DATABASE_BATCH_SIZE);
+      const { data, error } = await supabase
+        .from('market_daily_bars')
+        .select('ticker, bar_date, open, high, low, close, volume, vwap')
+        .in('ticker', batch)
+        .gte('bar_date', range.start)
+        .lte('bar_date', range.end)
+        .order('bar_date', { ascending: true })
+        .limit(50000);
+      if (error) throw new Error(error.message);
+
+      for (const b of data ?? []) {
+        const bars = results.get(b.ticker) ?? [];
+        bars.push({ date: b.bar_date, open: b.open, high: b.high, low: b.low, close: b.close, volume: b.volume, vwap: b.vwap ?? undefined });
+        results.set(b.ticker, bars);
+      }
+    }
+    return results;
+  },
+
+  async api(ticker, range, resolution) {
+    if (resolution === 'day') {
+      // The database was already read; fall through the remaining providers
+      const order = marketDataRouter.getOrder('bars').filter(id => id !== 'supabase');
+      const { data, provider, attempts } = await marketDataRouter.bars(ticker, range.start, range.end, { order });
+      if (data && provider) return { bars: data, provider };
+      // Every provider answered but had nothing: the range is simply empty (before listing, plan limits)
+      return attempts.length > 0 && attempts.every(a => a.outcome === 'empty') ? { bars: [], provider: attempts[0].provider } : null;
+    }
+
+    const { data, error } = await supabase.functions.invoke('polygon-aggs', {
+      body: { ticker, startDate: range.start, endDate: range.end, timespan: POLYGON_TIMESPANS[resolution] },
+    });
+    if (error || !data?.ok) return null;
+    const bars = ((data.results ?? []) as { t: number; o: number; h: number; l: number; c: number; v: number; vw?: number }[]).map(r => ({
+      date: new Date(r.t).toISOString().split('T')[0],
+      open: r.o,
+      high: r.h,
+      low: r.l,
+      close: r.c,
+      volume: r.v,
+      vwap: r.vw,
+    }));
+    return { bars, provider: 'polygon' };
+  },
+};
+
+export const barStore = new BarStore({
+  backend: typeof indexedDB !== 'undefined' ? new IndexedDbBarBackend() : new MemoryBarBackend(),
+  sources: defaultBarSources,
+});
@@ -3,6 +3,9 @@
 
 import { CorrelationMatrix } from './backtesterService';
 import { AssetData } from './portfolioOptimizer';
+import { covarianceFromCorrelation } from './covarianceEstimationService';
+import { solveLinearSystem } from './quadraticProgramService';
+import type { MarketView } from '@/types/portfolio';
 
 export interface BlackLittermanResult {
   posteriorReturns: Map<string, number>;
@@ -19,6 +22,34 @@ export interface InvestorView {
   confidence: number; // 0-1, how confident in the view
 }
 
+export interface ViewDiagnostics {
+  view: MarketView;
+  omega: number; // Calibrated variance of the view
+  priorImplied: number; // What the prior already implies for the view's return
+  posteriorImplied: number;
+  zScore: number; // Surprise of the view against the prior, in standard deviations
+  returnImpact: Map<string, number>; // This view's share of each posterior-minus-prior return
+  weightImpact: Map<string, number>; // This view's share of each weight tilt
+}
+
+export interface ViewConsistency {
+  statistic: number; // (Q - Pπ)'(PτΣP' + Ω)⁻¹(Q - Pπ), chi-squared under the prior
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+export interface BlackLittermanPosterior {
+  symbols: string[];
+  priorReturns: Map<string, number>;
+  posteriorReturns: Map<string, number>;
+  priorWeights: Map<string, number>;
+  posteriorWeights: Map<string, number>; // Unconstrained; absolute views can move the total away from 100%
+  weightDeltas: Map<string, number>;
+  views: ViewDiagnostics[];
+  ignoredViews: { view: MarketView; reason: string }[];
+  consistency: ViewConsistency | null;
+}
+
 // Risk aversion coefficient (typical institutional range: 2-4)
 const RISK_AVERSION = 2.5;
 
@@ -28,6 +59,58 @@ const MARKET_RISK_PREMIUM = 0.05; // 5%
 // Tau - scalar for uncertainty in prior
 const TAU = 0.05;
 
+/**
+ * ln Γ(x) by the Lanczos approximation
+ */
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of c) series += coefficient / ++y;
+  return -tmp + Math.log((2.5066282746310007 * series) / x);
+}
+
+/**
+ * Upper tail of the chi-squared distribution, via the regularized incomplete gamma function
+ */
+function chiSquaredSurvival(statistic: number, degreesOfFreedom: number): number {
+  if (statistic <= 0) return 1;
+  const a = degreesOfFreedom / 2;
+  const x = statistic / 2;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    // Series for the lower tail
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // Continued fraction for the upper tail (modified Lentz)
+  let b = x + 1 - a;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+}
+
 /**
  * Black-Litterman Optimizer
  * Blends market equilibrium weights with user views
@@ -59,27 +142,14 @@ export class BlackLittermanOptimizer {
   }
 
   /**
-   * Convert correlation matrix to covariance matrix using volatilities
+   * Convert correlation matrix to covariance matrix using volatilities.
+   * Throws when an asset has no volatility estimate.
    */
   correlationToCovariance(
     correlationMatrix: CorrelationMatrix,
     assetData: Map<string, AssetData>
   ): number[][] {
-    const { symbols, matrix } = correlationMatrix;
-    const n = symbols.length;
-    const covariance: number[][] = [];
-    
-    for (let i = 0; i < n; i++) {
-      covariance[i] = [];
-      const volI = assetData.get(symbols[i])?.volatility || 0.2;
-      
-      for (let j = 0; j < n; j++) {
-        const volJ = assetData.get(symbols[j])?.volatility || 0.2;
-        covariance[i][j] = correlationMatrix.matrix[i][j] * volI * volJ;
-      }
-    }
-    
-    return covariance;
+    return covarianceFromCorrelation(correlationMatrix, assetData);
   }
 
   /**
@@ -90,7 +160,8 @@ export class BlackLittermanOptimizer {
     correlationMatrix: CorrelationMatrix,
     assetData: Map<string, AssetData>,
     investorViews: InvestorView[],
-    marketWeights?: Map<string, number>
+    marketWeights?: Map<string, number>,
+    covarianceEstimate?: number[][]
   ): BlackLittermanResult {
     const { symbols } = correlationMatrix;
     const n = symbols.length;
@@ -104,8 +175,8 @@ export class BlackLittermanOptimizer {
       symbols.forEach(s => marketWeights!.set(s, 1 / n));
     }
     
-    // Step 1: Convert correlation to covariance
-    const covariance = this.correlationToCovariance(correlationMatrix, assetData);
+    // Step 1: Use the supplied covariance estimate, or convert correlation to covariance
+    const covariance = covarianceEstimate ?? this.correlationToCovariance(correlationMatrix, assetData);
     
     // Step 2: Compute implied equilibrium returns
     const impliedReturns = this.computeImpliedReturns(marketWeights, covariance, symbols);
@@ -197,6 +268,117 @@ export class BlackLittermanOptimizer {
     };
   }
 
+  /**
+   * Full Black-Litterman posterior for absolute and relative views.
+   * The prior is the equilibrium implied by priorWeights; each view's confidence is turned into
+   * Ω with Idzorek's method (ω = (1 - c)/c · pτΣp'), so 100% confidence imposes the view exactly
+   * and 0% ignores it. Posterior weights are the unconstrained optimum w + (τ/δ)P'x, which lets
+   * each view's tilt be reported separately.
+   */
+  applyViews(
+    symbols: string[],
+    covariance: number[][],
+    views: MarketView[],
+    priorWeights: Map<string, number>,
+    options: { riskAversion?: number; tau?: number } = {}
+  ): BlackLittermanPosterior {
+    const n = symbols.length;
+    const riskAversion = options.riskAversion ?? RISK_AVERSION;
+    const tau = options.tau ?? TAU;
+    const index = new Map(symbols.map((s, i) => [s, i]));
+    const toMap = (values: number[]) => new Map(symbols.map((s, i) => [s, values[i]]));
+
+    const w = symbols.map(s => priorWeights.get(s) ?? 0);
+    const pi = covariance.map(row => riskAversion * row.reduce((sum, c, j) => sum + c * w[j], 0));
+
+    const ignoredViews: BlackLittermanPosterior['ignoredViews'] = [];
+    const active: { view: MarketView; p: number[] }[] = [];
+    for (const view of views) {
+      const asset = index.get(view.asset);
+      const versus = view.versus ? index.get(view.versus) : undefined;
+      if (asset === undefined || (view.versus && versus === undefined)) {
+        ignoredViews.push({ view, reason: `${view.versus && versus === undefined ? view.versus : view.asset} is not in the portfolio` });
+      } else if (versus === asset) {
+        ignoredViews.push({ view, reason: 'A relative view needs two different assets' });
+      } else if (!(view.confidence > 0)) {
+        ignoredViews.push({ view, reason: 'Zero confidence' });
+      } else {
+        const p = new Array(n).fill(0);
+        p[asset] = 1;
+        if (versus !== undefined) p[versus] = -1;
+        active.push({ view, p });
+      }
+    }
+
+    const priorReturns = toMap(pi);
+    const priorWeightMap = toMap(w);
+    if (active.length === 0) {
+      return {
+        symbols,
+        priorReturns,
+        posteriorReturns: priorReturns,
+        priorWeights: priorWeightMap,
+        posteriorWeights: priorWeightMap,
+        weightDeltas: toMap(new Array(n).fill(0)),
+        views: [],
+        ignoredViews,
+        consistency: null,
+      };
+    }
+
+    // τΣP' (n × k) and PτΣP' (k × k)
+    const tauSigmaP = active.map(({ p }) => covariance.map(row => tau * row.reduce((sum, c, j) => sum + c * p[j], 0)));
+    const viewCovariance = active.map(({ p }) => tauSigmaP.map(column => p.reduce((sum, pj, j) => sum + pj * column[j], 0)));
+    const omegas = active.map(({ view }, k) => {
+      const confidence = Math.min(1, view.confidence);
+      return ((1 - confidence) / confidence) * viewCovariance[k][k];
+    });
+    // A whisker of regularization keeps fully confident, overlapping views solvable
+    const scale = viewCovariance.reduce((sum, row, k) => sum + row[k], 0) / active.length;
+    const M = viewCovariance.map((row, k) => row.map((v, l) => v + (k === l ? omegas[k] + scale * 1e-12 : 0)));
+
+    const surprise = active.map(({ view, p }) => view.expectedReturn - p.reduce((sum, pj, j) => sum + pj * pi[j], 0));
+    const x = solveLinearSystem(M, surprise);
+
+    const posterior = [...pi];
+    const posteriorWeights = [...w];
+    const diagnostics: ViewDiagnostics[] = active.map(({ view, p }, k) => {
+      const returnImpact = tauSigmaP[k].map(v => v * x[k]);
+      const weightImpact = p.map(pj => (tau / riskAversion) * pj * x[k]);
+      returnImpact.forEach((v, i) => { posterior[i] += v; });
+      weightImpact.forEach((v, i) => { posteriorWeights[i] += v; });
+      return {
+        view,
+        omega: omegas[k],
+        priorImplied: view.expectedReturn - surprise[k],
+        posteriorImplied: 0,
+        zScore: surprise[k] / Math.sqrt(M[k][k]),
+        returnImpact: toMap(returnImpact),
+        weightImpact: toMap(weightImpact),
+      };
+    });
+    active.forEach(({ p }, k) => {
+      diagnostics[k].posteriorImplied = p.reduce((sum, pj, j) => sum + pj * posterior[j], 0);
+    });
+
+    const statistic = surprise.reduce((sum, d, k) => sum + d * x[k], 0);
+    return {
+      symbols,
+      priorReturns,
+      posteriorReturns: toMap(posterior),
+      priorWeights: priorWeightMap,
+      posteriorWeights: toMap(posteriorWeights),
+      weightDeltas: toMap(posteriorWeights.map((v, i) => v - w[i])),
+      views: diagnostics,
+      ignoredViews,
+      consistency: {
+        statistic,
+        degreesOfFreedom: active.length,
+        pValue: chiSquaredSurvival(statistic, active.length),
+      },
+    };
+  }
+
   /**
    * Calculate portfolio risk (standard deviation)
    */
@@ -242,7 +424,8 @@ export class BlackLittermanOptimizer {
   analyzeUserWeights(
     userWeights: Map<string, number>,
     correlationMatrix: CorrelationMatrix,
-    assetData: Map<string, AssetData>
+    assetData: Map<string, AssetData>,
+    covarianceEstimate?: number[][]
   ): {
     userRisk: number;
     userExpectedReturn: number;
@@ -250,7 +433,7 @@ export class BlackLittermanOptimizer {
     riskContribution: Map<string, number>;
   } {
     const { symbols } = correlationMatrix;
-    const covariance = this.correlationToCovariance(correlationMatrix, assetData);
+    const covariance = covarianceEstimate ?? this.correlationToCovariance(correlationMatrix, assetData);
     
     // Equilibrium weights (equal weight as proxy for market)
     const eqWeights = new Map<string, number>();
@@ -1,12 +1,13 @@
 /**
  * Finnhub Candle Data Service
- * Fetches OHLCV data for candlestick charts via edge function
+ * Fetches OHLCV data for candlestick charts: daily and longer from the shared bar store, intraday via edge function
  * Free tier: 60 calls/minute
  */
 
 import { API_CONFIG } from '@/config/apiConfig';
 import { supabase } from '@/integrations/supabase/client';
-import { getQuote } from '@/services/finnhubService';
+import { marketDataRouter } from '@/services/marketDataProviders';
+import { barStore, type BarResolution } from '@/services/barStoreService';
 import { getMockStock, getMockIndex } from '@/data/mockMarketData';
 
 export interface CandleData {
@@ -28,6 +29,8 @@ export interface CandleResponse {
 
 export type Resolution = '1' | '5' | '15' | '30' | '60' | 'D' | 'W' | 'M';
 
+const STORE_RESOLUTIONS: Partial<Record<Resolution, BarResolution>> = { D: 'day', W: 'week', M: 'month' };
+
 // Cache for candle data
 const candleCache = new Map<string, { data: CandleData[]; fetchedAt: number }>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -66,6 +69,31 @@ export async function getCandles(
     return cached.data;
   }
 
+  // Daily and longer candles come from the shared bar store when it can supply them
+  const storeResolution = STORE_RESOLUTIONS[resolution];
+  if (storeResolution) {
+    const stored = (
+      await barStore.getBars(
+        [upperSymbol],
+        new Date(fromTime * 1000).toISOString().split('T')[0],
+        new Date(toTime * 1000).toISOString().split('T')[0],
+        { resolution: storeResolution }
+      )
+    ).get(upperSymbol);
+    if (stored?.complete && stored.bars.length > 0) {
+      const candles: CandleData[] = stored.bars.map(b => ({
+        time: Math.floor(Date.parse(`${b.date}T00:00:00Z`) / 1000),
+        open: b.open,
+        high: b.high,
+        low: b.low,
+        close: b.close,
+        volume: b.volume,
+      }));
+      candleCache.set(cacheKey, { data: candles, fetchedAt: Date.now() });
+      return candles;
+    }
+  }
+
   try {
     console.log(`[Candles] Fetching via finnhub-proxy: ${upperSymbol} ${resolution}`);
 
@@ -112,7 +140,7 @@ export async function getCandles(
     console.warn('[Candles] Falling back to quote-anchored candles:', err);
 
     try {
-      const quote = await getQuote(upperSymbol);
+      const { data: quote } = await marketDataRouter.quote(upperSymbol);
       if (quote?.price) {
         const fallback = generateMockCandles(symbol, resolution, fromTime, toTime, quote.price);
         candleCache.set(cacheKey, { data: fallback, fetchedAt: Date.now() });
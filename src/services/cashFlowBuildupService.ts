@@ -0,0 +1,196 @@
+// Cash Flow Buildup Service - Maps the three-statement projection onto the cash flow buildup layout
+import {
+  HistoricalFinancials,
+  ProjectionAssumptions,
+  runThreeStatementProjection,
+  YearSeries,
+} from './threeStatementEngine';
+
+export interface CashFlowBuildupResponse {
+  success: boolean;
+  company_name: string;
+  model_type: string;
+  historical_years: string[];
+  projection_years: string[];
+  all_years: string[];
+  income_statement: Record<string, Record<string, number>>;
+  cash_flow_buildup: Record<string, Record<string, number>>;
+  cash_bridge: Record<string, Record<string, number>>;
+  key_metrics: Record<string, Record<string, number>>;
+  balance_sheet?: Record<string, Record<string, number>>;
+  summary: {
+    total_ufcf_5yr: number;
+    total_lfcf_5yr: number;
+    avg_ufcf_margin: number;
+    avg_cash_conversion: number;
+  };
+  display_metrics: {
+    total_ufcf: string;
+    total_lfcf: string;
+    avg_ufcf_margin: string;
+    avg_cash_conversion: string;
+  };
+  analysis_notes?: string;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function roundSeries(values: YearSeries): YearSeries {
+  const out: YearSeries = {};
+  Object.entries(values).forEach(([year, v]) => {
+    out[year] = round1(v);
+  });
+  return out;
+}
+
+const formatM = (n: number) => `$${n.toFixed(1)}M`;
+const formatPct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+/**
+ * Build the cash flow buildup model from historical data and assumptions (whole percent).
+ * Throws with a descriptive message when inputs are missing; see runThreeStatementProjection.
+ */
+export function calculateLocalCashFlow(
+  companyName: string,
+  historicalData: HistoricalFinancials,
+  assumptions: ProjectionAssumptions
+): CashFlowBuildupResponse {
+  const projection = runThreeStatementProjection(historicalData, assumptions);
+  const { historical_years: histYears, projection_years: projectionYears } = projection;
+  const is = projection.income_statement;
+  const cfs = projection.cash_flow_statement;
+  const bs = projection.balance_sheet;
+
+  const cash_flow_buildup: Record<string, YearSeries> = {
+    net_income: {}, add_back_da: {}, add_back_sbc: {},
+    cash_from_ops_before_wc: {}, change_nwc: {},
+    cash_from_operations: {}, total_capex: {},
+    cash_from_investing: {}, unlevered_fcf: {},
+    levered_fcf: {}, cumulative_lfcf: {}
+  };
+  const cash_bridge: Record<string, YearSeries> = {
+    opening_cash: {}, cfo: {}, cfi: {}, cff: {}, closing_cash: {}
+  };
+  const key_metrics: Record<string, YearSeries> = {
+    revenue_growth_pct: {}, ebitda_margin_pct: {},
+    ufcf_margin_pct: {}, lfcf_margin_pct: {},
+    cash_conversion_pct: {}, capex_intensity_pct: {}
+  };
+
+  histYears.forEach((year, i) => {
+    if (cfs.net_income[year] !== undefined) cash_flow_buildup.net_income[year] = round1(cfs.net_income[year]);
+    if (cfs.add_back_da[year] !== undefined) cash_flow_buildup.add_back_da[year] = round1(cfs.add_back_da[year]);
+    if (cfs.capex[year] !== undefined) cash_flow_buildup.total_capex[year] = round1(cfs.capex[year]);
+
+    const revenue = is.revenue[year];
+    if (revenue) {
+      if (is.ebitda[year] !== undefined) key_metrics.ebitda_margin_pct[year] = is.ebitda[year] / revenue;
+      if (cfs.capex[year] !== undefined) key_metrics.capex_intensity_pct[year] = Math.abs(cfs.capex[year]) / revenue;
+      const prevRevenue = i > 0 ? is.revenue[histYears[i - 1]] : undefined;
+      if (prevRevenue) key_metrics.revenue_growth_pct[year] = (revenue - prevRevenue) / prevRevenue;
+    }
+  });
+
+  let totalUFCF = 0;
+  let totalLFCF = 0;
+  let totalRevenue = 0;
+  let totalEBITDA = 0;
+  let cumulativeLFCF = 0;
+  let prevRevenue = is.revenue[histYears[histYears.length - 1]];
+  let openingCash = bs.cash[histYears[histYears.length - 1]];
+
+  projectionYears.forEach(year => {
+    const revenue = is.revenue[year];
+    const ebitda = is.ebitda[year];
+    const ufcf = cfs.unlevered_fcf[year];
+    const lfcf = cfs.levered_fcf[year];
+    cumulativeLFCF += lfcf;
+
+    cash_flow_buildup.net_income[year] = round1(cfs.net_income[year]);
+    cash_flow_buildup.add_back_da[year] = round1(cfs.add_back_da[year]);
+    cash_flow_buildup.add_back_sbc[year] = round1(cfs.add_back_sbc[year]);
+    cash_flow_buildup.cash_from_ops_before_wc[year] = round1(cfs.net_income[year] + cfs.add_back_da[year] + cfs.add_back_sbc[year]);
+    cash_flow_buildup.change_nwc[year] = round1(cfs.change_nwc[year]);
+    cash_flow_buildup.cash_from_operations[year] = round1(cfs.cash_from_operations[year]);
+    cash_flow_buildup.total_capex[year] = round1(cfs.capex[year]);
+    cash_flow_buildup.cash_from_investing[year] = round1(cfs.cash_from_investing[year]);
+    cash_flow_buildup.unlevered_fcf[year] = round1(ufcf);
+    cash_flow_buildup.levered_fcf[year] = round1(lfcf);
+    cash_flow_buildup.cumulative_lfcf[year] = round1(cumulativeLFCF);
+
+    cash_bridge.opening_cash[year] = round1(openingCash);
+    cash_bridge.cfo[year] = round1(cfs.cash_from_operations[year]);
+    cash_bridge.cfi[year] = round1(cfs.cash_from_investing[year]);
+    cash_bridge.cff[year] = round1(cfs.cash_from_financing[year]);
+    cash_bridge.closing_cash[year] = round1(bs.cash[year]);
+    openingCash = bs.cash[year];
+
+    key_metrics.revenue_growth_pct[year] = (revenue - prevRevenue) / prevRevenue;
+    key_metrics.ebitda_margin_pct[year] = ebitda / revenue;
+    key_metrics.ufcf_margin_pct[year] = ufcf / revenue;
+    key_metrics.lfcf_margin_pct[year] = lfcf / revenue;
+    key_metrics.cash_conversion_pct[year] = ebitda !== 0 ? ufcf / ebitda : 0;
+    key_metrics.capex_intensity_pct[year] = Math.abs(cfs.capex[year]) / revenue;
+
+    totalUFCF += ufcf;
+    totalLFCF += lfcf;
+    totalRevenue += revenue;
+    totalEBITDA += ebitda;
+    prevRevenue = revenue;
+  });
+
+  const avgUfcfMargin = totalRevenue !== 0 ? totalUFCF / totalRevenue : 0;
+  const avgCashConversion = totalEBITDA !== 0 ? totalUFCF / totalEBITDA : 0;
+  const n = projectionYears.length;
+
+  const income_statement: Record<string, YearSeries> = {
+    revenue: roundSeries(is.revenue),
+    ebitda: roundSeries(is.ebitda),
+    depreciation: roundSeries(is.depreciation),
+    ebit: roundSeries(is.ebit),
+    interest_expense: roundSeries(is.interest_expense),
+    interest_income: roundSeries(is.interest_income),
+    ebt: roundSeries(is.ebt),
+    taxes: roundSeries(is.taxes),
+    net_income: roundSeries(is.net_income),
+  };
+
+  const balance_sheet: Record<string, YearSeries> = {
+    cash: roundSeries(bs.cash),
+    net_working_capital: roundSeries(bs.net_working_capital),
+    net_ppe: roundSeries(bs.net_ppe),
+    total_assets: roundSeries(bs.total_assets),
+    debt: roundSeries(bs.debt),
+    equity: roundSeries(bs.equity),
+    total_liabilities_and_equity: roundSeries(bs.total_liabilities_and_equity),
+  };
+
+  const notes = projection.notes.length > 0 ? `\n\nModel notes:\n- ${projection.notes.join('\n- ')}` : '';
+
+  return {
+    success: true,
+    company_name: companyName,
+    model_type: 'cash_flow_buildup',
+    historical_years: histYears,
+    projection_years: projectionYears,
+    all_years: projection.all_years,
+    income_statement,
+    cash_flow_buildup,
+    cash_bridge,
+    key_metrics,
+    balance_sheet,
+    summary: {
+      total_ufcf_5yr: round1(totalUFCF),
+      total_lfcf_5yr: round1(totalLFCF),
+      avg_ufcf_margin: avgUfcfMargin,
+      avg_cash_conversion: avgCashConversion
+    },
+    display_metrics: {
+      total_ufcf: formatM(totalUFCF),
+      total_lfcf: formatM(totalLFCF),
+      avg_ufcf_margin: formatPct(avgUfcfMargin),
+      avg_cash_conversion: formatPct(avgCashConversion)
+    },
+    analysis_notes: `This ${companyName} cash flow model shows ${histYears.length} years of historical data and projects ${assumptions.revenue_growth.toFixed(0)}% annual revenue growth with ${assumptions.ebitda_margin.toFixed(0)}% EBITDA margins. Total unlevered free cash flow of ${formatM(totalUFCF)} over ${n} years.${notes}`
+  };
+}
@@ -0,0 +1,183 @@
+// Compute Pool Service - Runs Monte Carlo, efficient frontier and backtest jobs on a pool of web workers
+// Falls back to the main thread where workers are unavailable (tests, older browsers)
+
+import type { ComputeJob, ComputeJobResult, WorkerRequest, WorkerResponse } from '@/workers/computeJobs';
+
+export interface ComputeJobOptions {
+  onProgress?: (message: string, percent: number) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingJob {
+  id: number;
+  job: ComputeJob;
+  options: ComputeJobOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  detach: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: PendingJob | null;
+}
+
+export const MAX_POOL_SIZE = 4;
+
+const workers: PoolWorker[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+let workersUnavailable = false;
+
+/**
+ * Leave one core for the UI thread
+ */
+export function poolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
+
+/**
+ * Error used to reject cancelled jobs, matching fetch's AbortError
+ */
+export function cancelledError(): Error {
+  const error = new Error('Computation cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function spawnWorker(): PoolWorker | null {
+  try {
+    const worker = new Worker(new URL('../workers/compute.worker.ts', import.meta.url), { type: 'module' });
+    const slot: PoolWorker = { worker, current: null };
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => handleMessage(slot, event.data);
+    worker.onerror = event => {
+      event.preventDefault();
+      const pending = slot.current;
+      retireWorker(slot);
+      pending?.reject(new Error(event.message || 'Compute worker crashed'));
+      dispatch();
+    };
+    return slot;
+  } catch (error) {
+    console.warn('[ComputePool] Web workers unavailable, computing on the main thread:', error);
+    workersUnavailable = true;
+    return null;
+  }
+}
+
+function retireWorker(slot: PoolWorker) {
+  slot.current?.detach();
+  slot.current = null;
+  slot.worker.terminate();
+  const index = workers.indexOf(slot);
+  if (index >= 0) workers.splice(index, 1);
+}
+
+function handleMessage(slot: PoolWorker, message: WorkerResponse) {
+  const pending = slot.current;
+  if (!pending || pending.id !== message.id) return;
+
+  if (message.kind === 'progress') {
+    pending.options.onProgress?.(message.message, message.percent);
+    return;
+  }
+
+  pending.detach();
+  slot.current = null;
+  if (message.kind === 'result') pending.resolve(message.result);
+  else pending.reject(new Error(message.message));
+  dispatch();
+}
+
+function idleWorker(): PoolWorker | null {
+  const idle = workers.find(w => !w.current);
+  if (idle) return idle;
+  if (workers.length >= poolSize()) return null;
+  const spawned = spawnWorker();
+  if (spawned) workers.push(spawned);
+  return spawned;
+}
+
+function dispatch() {
+  while (queue.length > 0) {
+    const slot = idleWorker();
+    if (!slot) {
+      // Nothing could be spawned at all: drain the queue on the main thread
+      if (workersUnavailable && workers.length === 0) queue.splice(0).forEach(runOnMainThread);
+      return;
+    }
+    const pending = queue.shift()!;
+    slot.current = pending;
+    const request: WorkerRequest = { id: pending.id, kind: 'run', job: pending.job };
+    slot.worker.postMessage(request);
+  }
+}
+
+/**
+ * Main-thread fallback. Progress callbacks double as cancellation points.
+ */
+async function runOnMainThread(pending: PendingJob) {
+  const { signal, onProgress } = pending.options;
+  try {
+    const { executeComputeJob } = await import('@/workers/computeJobs');
+    const result = executeComputeJob(pending.job, (message, percent) => {
+      if (signal?.aborted) throw cancelledError();
+      onProgress?.(message, percent);
+    });
+    pending.resolve(result);
+  } catch (error) {
+    pending.reject(signal?.aborted ? cancelledError() : error instanceof Error ? error : new Error(String(error)));
+  } finally {
+    pending.detach();
+  }
+}
+
+/**
+ * Queue a job on the worker pool. Aborting the signal drops a queued job or terminates
+ * the worker running it; either way the promise rejects with an AbortError.
+ */
+export function runComputeJob<T extends ComputeJob>(
+  job: T,
+  options: ComputeJobOptions = {}
+): Promise<ComputeJobResult<T>> {
+  const { signal } = options;
+  if (signal?.aborted) return Promise.reject(cancelledError());
+
+  return new Promise<ComputeJobResult<T>>((resolve, reject) => {
+    const pending: PendingJob = {
+      id: nextJobId++,
+      job,
+      options,
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      detach: () => signal?.removeEventListener('abort', onAbort),
+    };
+
+    function onAbort() {
+      const queued = queue.indexOf(pending);
+      if (queued >= 0) {
+        queue.splice(queued, 1);
+      } else {
+        const slot = workers.find(w => w.current === pending);
+        if (!slot) return; // Main-thread fallback notices at its next progress report
+        retireWorker(slot);
+        dispatch();
+      }
+      pending.detach();
+      reject(cancelledError());
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    if (workersUnavailable || typeof Worker === 'undefined') {
+      runOnMainThread(pending);
+      return;
+    }
+    queue.push(pending);
+    dispatch();
+  });
+}
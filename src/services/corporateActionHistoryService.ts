@@ -0,0 +1,125 @@
+// Corporate Action History Service - Split and dividend events per ticker for price history
+// Reads the events stored by the Finnhub proxy and asks the proxy only for tickers it has not covered yet
+
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getCorporateActions } from './finnhubService';
+import { splitAdjustDividends, type CorporateAction } from './corporateActionService';
+
+interface HistoryEntry {
+  from: string;
+  through: string; // Events are always loaded up to the day they were asked for
+  actions: CorporateAction[];
+}
+
+// Session memo; events only ever get added, so a covered range stays valid for the day
+const history = new Map<string, HistoryEntry>();
+
+function today(): string {
+  return format(new Date(), 'yyyy-MM-dd');
+}
+
+/**
+ * Splits and split-adjusted dividends per ticker. Dividends are limited to the range; splits run
+ * through today because later splits decide how earlier prices and dividends are restated.
+ * Tickers whose events cannot be loaded get an empty list, so callers fall back to price-only returns.
+ */
+export async function getCorporateActionHistory(
+  tickers: string[],
+  from: string,
+  to: string
+): Promise<Map<string, CorporateAction[]>> {
+  const symbols = [...new Set(tickers.map(t => t.toUpperCase()))];
+  const through = today();
+  const missing = symbols.filter(s => {
+    const entry = history.get(s);
+    return !entry || entry.from > from || entry.through < through;
+  });
+
+  if (missing.length > 0) {
+    const stored = await loadStored(missing, from, through);
+    await Promise.all(
+      missing.map(async symbol => {
+        const actions = stored.get(symbol) ?? (await loadFromProxy(symbol, from, through));
+        if (actions) history.set(symbol, { from, through, actions });
+      })
+    );
+  }
+
+  const result = new Map<string, CorporateAction[]>();
+  for (const symbol of symbols) {
+    const actions = history.get(symbol)?.actions ?? [];
+    result.set(
+      symbol,
+      actions.filter(a => a.date >= from && (a.type === 'split' || a.date <= to))
+    );
+  }
+  return result;
+}
+
+export function clearCorporateActionHistory() {
+  history.clear();
+}
+
+/**
+ * Events for the tickers whose stored coverage spans the range
+ */
+async function loadStored(symbols: string[], from: string, through: string): Promise<Map<string, CorporateAction[]>> {
+  const result = new Map<string, CorporateAction[]>();
+  try {
+    const { data: coverage, error: coverageError } = await supabase
+      .from('market_corporate_action_coverage')
+      .select('ticker, covered_from, covered_to')
+      .in('ticker', symbols);
+    if (coverageError) throw coverageError;
+
+    const covered = (coverage || [])
+      .filter(c => c.covered_from <= from && c.covered_to >= through)
+      .map(c => c.ticker);
+    if (covered.length === 0) return result;
+
+    const { data, error } = await supabase
+      .from('market_corporate_actions')
+      .select('ticker, action_date, action_type, cash_amount, split_from, split_to')
+      .in('ticker', covered)
+      .gte('action_date', from)
+      .order('action_date');
+    if (error) throw error;
+
+    covered.forEach(symbol => result.set(symbol, []));
+    for (const row of data || []) {
+      if (row.action_type === 'dividend' && row.cash_amount) {
+        result.get(row.ticker)!.push({ symbol: row.ticker, date: row.action_date, type: 'dividend', value: Number(row.cash_amount) });
+      } else if (row.action_type === 'split' && row.split_from && row.split_to) {
+        result
+          .get(row.ticker)!
+          .push({ symbol: row.ticker, date: row.action_date, type: 'split', value: Number(row.split_to) / Number(row.split_from) });
+      }
+    }
+    result.forEach((actions, symbol) => result.set(symbol, splitAdjustDividends(actions)));
+  } catch (e) {
+    console.warn('[CorporateActions] Stored events unavailable:', e);
+  }
+  return result;
+}
+
+/**
+ * Ask the Finnhub proxy, which also stores what it finds for next time
+ */
+async function loadFromProxy(symbol: string, from: string, through: string): Promise<CorporateAction[] | null> {
+  try {
+    const { dividends, splits } = await getCorporateActions(symbol, from, through);
+    const actions: CorporateAction[] = [
+      ...dividends
+        .filter(d => d.adjustedAmount > 0)
+        .map(d => ({ symbol, date: d.date, type: 'dividend' as const, value: d.adjustedAmount })),
+      ...splits
+        .filter(sp => sp.fromFactor > 0 && sp.toFactor > 0)
+        .map(sp => ({ symbol, date: sp.date, type: 'split' as const, value: sp.toFactor / sp.fromFactor })),
+    ];
+    return actions.sort((a, b) => a.date.localeCompare(b.date));
+  } catch (e) {
+    console.warn(`[CorporateActions] Could not load events for ${symbol}:`, e);
+    return null;
+  }
+}
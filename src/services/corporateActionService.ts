@@ -0,0 +1,209 @@
+// Corporate Action Service - Dividend and split events applied to price history and backtests
+// Bars from the market data providers are split-adjusted; everything here restates from that basis
+
+export interface CorporateAction {
+  symbol: string;
+  date: string; // Ex-date for dividends, effective date for splits
+  type: 'dividend' | 'split';
+  value: number; // Dividend: cash per share; split: new shares per old share
+}
+
+export interface PriceBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+// unadjusted: prices as traded; split: as stored; total: also back-adjusted for dividends
+export type PriceBasis = 'unadjusted' | 'split' | 'total';
+
+export interface PriceJump {
+  date: string;
+  change: number; // Close-to-close move as a fraction
+  action: CorporateAction | null; // The event the move matches, if any
+}
+
+export const PRICE_JUMP_THRESHOLD = 0.25; // One-day moves beyond this need explaining
+const MATCH_TOLERANCE = 0.1; // Move left over once a matching event is accounted for
+
+/**
+ * Corporate actions taking effect after one trading day and up to the next. Ex-dates that
+ * fall on days missing from the common calendar are applied on the next trading day.
+ */
+export function corporateActionsBetween(
+  actions: CorporateAction[],
+  afterDate: string,
+  throughDate: string
+): CorporateAction[] {
+  return actions.filter(a => a.date > afterDate && a.date <= throughDate);
+}
+
+/**
+ * How many of today's shares one share held on the date became through later splits
+ */
+export function splitFactorAfter(actions: CorporateAction[], date: string): number {
+  return actions
+    .filter(a => a.type === 'split' && a.date > date && a.value > 0)
+    .reduce((factor, a) => factor * a.value, 1);
+}
+
+/**
+ * Dividend events restated per share of split-adjusted history: cash paid divided by the
+ * splits that came after the ex-date. Split events pass through unchanged.
+ */
+export function splitAdjustDividends(actions: CorporateAction[]): CorporateAction[] {
+  return actions.map(a => (a.type === 'dividend' ? { ...a, value: a.value / splitFactorAfter(actions, a.date) } : a));
+}
+
+/**
+ * Split-adjusted dividend cash going ex on each bar (dividend values already split-adjusted)
+ */
+export function dividendsByBar(bars: { date: string }[], actions: CorporateAction[]): number[] {
+  const dividends = actions.filter(a => a.type === 'dividend');
+  return bars.map((bar, i) =>
+    (i === 0 ? dividends.filter(a => a.date === bar.date) : corporateActionsBetween(dividends, bars[i - 1].date, bar.date))
+      .reduce((sum, a) => sum + a.value, 0)
+  );
+}
+
+/**
+ * Daily total returns, price change plus dividends going ex, from split-adjusted closes.
+ * The first bar has no prior close and gets no return.
+ */
+export function totalReturns(bars: { date: string; close: number }[], actions: CorporateAction[]): (number | undefined)[] {
+  const dividends = dividendsByBar(bars, actions);
+  return bars.map((bar, i) => {
+    const prevClose = i > 0 ? bars[i - 1].close : 0;
+    return prevClose > 0 ? (bar.close + dividends[i] - prevClose) / prevClose : undefined;
+  });
+}
+
+/**
+ * Growth of `base` invested at the first close with dividends reinvested on their ex-dates
+ */
+export function totalReturnIndex(
+  bars: { date: string; close: number }[],
+  actions: CorporateAction[],
+  base: number = 100
+): { date: string; value: number }[] {
+  let value = base;
+  return totalReturns(bars, actions).map((r, i) => {
+    if (r !== undefined) value *= 1 + r;
+    return { date: bars[i].date, value };
+  });
+}
+
+/**
+ * Restate split-adjusted bars onto another price basis. Unadjusted multiplies each bar by the
+ * splits that came after it (and divides its volume); total back-adjusts every bar before an
+ * ex-date by (1 - dividend / prior close), so the latest prices match the stored ones.
+ */
+export function adjustBars<T extends PriceBar>(bars: T[], actions: CorporateAction[], basis: PriceBasis): T[] {
+  if (basis === 'split') return bars;
+
+  const factors: number[] = new Array(bars.length).fill(1);
+  if (basis === 'unadjusted') {
+    bars.forEach((bar, i) => {
+      factors[i] = splitFactorAfter(actions, bar.date);
+    });
+  } else {
+    const dividends = dividendsByBar(bars, actions);
+    for (let i = bars.length - 2; i >= 0; i--) {
+      const next = dividends[i + 1];
+      factors[i] = factors[i + 1] * (next > 0 && bars[i].close > 0 ? 1 - next / bars[i].close : 1);
+    }
+  }
+
+  return bars.map((bar, i) => {
+    const f = factors[i];
+    if (f === 1) return bar;
+    return {
+      ...bar,
+      open: bar.open * f,
+      high: bar.high * f,
+      low: bar.low * f,
+      close: bar.close * f,
+      ...(basis === 'unadjusted' && bar.volume !== undefined ? { volume: bar.volume / f } : {}),
+    };
+  });
+}
+
+/**
+ * The corporate action taking effect on a bar that accounts for its close-to-close move:
+ * a split whose ratio undoes it (the prices were not split-adjusted) or a dividend whose
+ * cash makes up the drop. Null when nothing on the bar explains it.
+ */
+export function explainPriceMove(
+  prevClose: number,
+  close: number,
+  actionsOnBar: CorporateAction[]
+): CorporateAction | null {
+  if (prevClose <= 0) return null;
+  const move = Math.abs(close / prevClose - 1);
+
+  for (const action of actionsOnBar) {
+    const residual =
+      action.type === 'split'
+        ? Math.abs((close * action.value) / prevClose - 1)
+        : Math.abs((close + action.value) / prevClose - 1);
+    if (residual < MATCH_TOLERANCE && residual < move) return action;
+  }
+  return null;
+}
+
+/**
+ * One-day moves beyond the threshold, each paired with the event that explains it if one does
+ */
+export function findPriceJumps(
+  bars: { date: string; close: number }[],
+  actions: CorporateAction[],
+  threshold: number = PRICE_JUMP_THRESHOLD
+): PriceJump[] {
+  const jumps: PriceJump[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const prevClose = bars[i - 1].close;
+    if (prevClose <= 0) continue;
+    const change = bars[i].close / prevClose - 1;
+    if (Math.abs(change) <= threshold) continue;
+    const onBar = corporateActionsBetween(actions, bars[i - 1].date, bars[i].date);
+    jumps.push({ date: bars[i].date, change, action: explainPriceMove(prevClose, bars[i].close, onBar) });
+  }
+  return jumps;
+}
+
+/**
+ * Split-adjust history that was stored before a split happened. Where the move onto a split's
+ * effective bar matches the split ratio, every earlier bar is divided by the ratio; a move that
+ * is already adjusted is left alone.
+ */
+export function restateStaleSplits<T extends PriceBar>(
+  bars: T[],
+  actions: CorporateAction[]
+): { bars: T[]; restated: CorporateAction[] } {
+  let result = bars;
+  const restated: CorporateAction[] = [];
+
+  for (const split of actions.filter(a => a.type === 'split' && a.value > 0)) {
+    const i = result.findIndex((bar, j) => j > 0 && bar.date >= split.date && result[j - 1].date < split.date);
+    if (i < 1 || !explainPriceMove(result[i - 1].close, result[i].close, [split])) continue;
+
+    result = result.map((bar, j) =>
+      j >= i
+        ? bar
+        : {
+            ...bar,
+            open: bar.open / split.value,
+            high: bar.high / split.value,
+            low: bar.low / split.value,
+            close: bar.close / split.value,
+            ...(bar.volume !== undefined ? { volume: bar.volume * split.value } : {}),
+          }
+    );
+    restated.push(split);
+  }
+
+  return { bars: result, restated };
+}
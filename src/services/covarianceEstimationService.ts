@@ -0,0 +1,338 @@
+// Covariance Estimation Service - Sample, Ledoit-Wolf shrinkage, EWMA and PCA factor covariance
+// Estimates annualized covariance from aligned periodic (daily) returns, with conditioning diagnostics
+
+import type { CorrelationMatrix } from './backtesterService';
+import type { AssetData } from './portfolioOptimizer';
+
+export type CovarianceMethod = 'sample' | 'ledoitWolf' | 'ewma' | 'pca';
+
+export interface CovarianceOptions {
+  method: CovarianceMethod;
+  halfLife?: number; // EWMA half-life in periods
+  numFactors?: number; // PCA factors; defaults to enough to explain 90% of variance
+  periodsPerYear?: number;
+}
+
+export interface CovarianceDiagnostics {
+  observations: number; // Aligned return observations used
+  effectiveObservations: number; // Less than observations for EWMA, which down-weights old data
+  conditionNumber: number; // Largest / smallest eigenvalue; Infinity when singular
+  effectiveRank: number; // exp(entropy) of the eigenvalue spectrum, between 1 and the number of assets
+  shrinkage?: number; // Ledoit-Wolf intensity towards the scaled identity (0-1)
+  numFactors?: number;
+  explainedVariance?: number; // Share of total variance captured by the PCA factors (0-1)
+}
+
+export interface CovarianceEstimate {
+  method: CovarianceMethod;
+  symbols: string[];
+  covariance: number[][]; // Annualized
+  volatilities: number[]; // Annualized
+  correlation: number[][];
+  diagnostics: CovarianceDiagnostics;
+}
+
+export const DEFAULT_COVARIANCE_OPTIONS: CovarianceOptions = { method: 'ledoitWolf', halfLife: 63 };
+
+export const MIN_OBSERVATIONS = 60; // About three months of daily returns
+const TRADING_DAYS_PER_YEAR = 252;
+const PCA_EXPLAINED_VARIANCE = 0.9;
+const JACOBI_MAX_SWEEPS = 100;
+
+const METHOD_LABELS: Record<CovarianceMethod, string> = {
+  sample: 'Sample covariance',
+  ledoitWolf: 'Ledoit-Wolf shrinkage',
+  ewma: 'EWMA covariance',
+  pca: 'PCA factor model',
+};
+
+/**
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations.
+ * Eigenvalues come back in descending order; vectors[k] is the eigenvector for values[k].
+ */
+export function symmetricEigen(M: number[][]): { values: number[]; vectors: number[][] } {
+  const n = M.length;
+  const a = M.map(row => [...row]);
+  const v = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < JACOBI_MAX_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    let scale = 0;
+    for (let i = 0; i < n; i++) {
+      scale += a[i][i] * a[i][i];
+      for (let j = i + 1; j < n; j++) offDiagonal += a[i][j] * a[i][j];
+    }
+    if (offDiagonal <= 1e-30 * Math.max(scale, 1e-300)) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => v.map(row => row[i])),
+  };
+}
+
+/**
+ * Condition number and effective rank of a covariance matrix
+ */
+export function covarianceDiagnostics(covariance: number[][]): Pick<CovarianceDiagnostics, 'conditionNumber' | 'effectiveRank'> {
+  const { values } = symmetricEigen(covariance);
+  if (values.length === 0) return { conditionNumber: 1, effectiveRank: 0 };
+
+  const largest = values[0];
+  const smallest = values[values.length - 1];
+  const conditionNumber = smallest > largest * 1e-15 ? largest / smallest : Infinity;
+
+  const positive = values.filter(v => v > 0);
+  const total = positive.reduce((s, v) => s + v, 0);
+  const entropy = positive.reduce((s, v) => s - (v / total) * Math.log(v / total), 0);
+  return { conditionNumber, effectiveRank: total > 0 ? Math.exp(entropy) : 0 };
+}
+
+/**
+ * Covariance from a correlation matrix and per-asset volatilities. Throws when an asset has no
+ * usable volatility rather than assuming one.
+ */
+export function covarianceFromCorrelation(
+  correlationMatrix: CorrelationMatrix,
+  assetData: Map<string, AssetData>
+): number[][] {
+  const { symbols, matrix } = correlationMatrix;
+  const volatilities = symbols.map(symbol => {
+    const volatility = assetData.get(symbol)?.volatility;
+    if (volatility === undefined || !Number.isFinite(volatility) || volatility <= 0) {
+      throw new Error(`No volatility estimate for ${symbol}; cannot build its covariance`);
+    }
+    return volatility;
+  });
+  return matrix.map((row, i) => row.map((rho, j) => rho * volatilities[i] * volatilities[j]));
+}
+
+/**
+ * Minimum aligned observations each method needs for the given number of assets
+ */
+export function minimumObservations(numAssets: number, options: CovarianceOptions): number {
+  switch (options.method) {
+    case 'sample':
+      // Fewer observations than assets leaves the sample covariance singular
+      return Math.max(MIN_OBSERVATIONS, numAssets + 1);
+    case 'ewma':
+      return Math.max(MIN_OBSERVATIONS, Math.ceil(2 * (options.halfLife ?? DEFAULT_COVARIANCE_OPTIONS.halfLife!)));
+    default:
+      return MIN_OBSERVATIONS;
+  }
+}
+
+/**
+ * Align return series on their most recent observations (all series end on the same date)
+ */
+function alignReturns(symbols: string[], returns: Map<string, number[]>): number[][] {
+  const series = symbols.map(symbol => {
+    const r = returns.get(symbol);
+    if (!r || r.length === 0) throw new Error(`No return history for ${symbol}`);
+    return r;
+  });
+  const length = Math.min(...series.map(r => r.length));
+  // Rows are observations, columns assets
+  return Array.from({ length }, (_, t) => series.map(r => r[r.length - length + t]));
+}
+
+function weightedCovariance(X: number[][], weights: number[], unbiased: boolean): number[][] {
+  const n = X[0].length;
+  const totalWeight = weights.reduce((s, w) => s + w, 0);
+  const means = new Array(n).fill(0);
+  X.forEach((row, t) => row.forEach((x, i) => { means[i] += (weights[t] * x) / totalWeight; }));
+
+  const covariance = Array.from({ length: n }, () => new Array(n).fill(0));
+  X.forEach((row, t) => {
+    for (let i = 0; i < n; i++) {
+      const di = weights[t] * (row[i] - means[i]);
+      for (let j = i; j < n; j++) covariance[i][j] += di * (row[j] - means[j]);
+    }
+  });
+
+  const sumSquares = weights.reduce((s, w) => s + w * w, 0);
+  // Reliability-weighted unbiased normalisation; reduces to 1/(T-1) for equal weights
+  const denominator = unbiased ? totalWeight - sumSquares / totalWeight : totalWeight;
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      covariance[i][j] /= denominator;
+      covariance[j][i] = covariance[i][j];
+    }
+  }
+  return covariance;
+}
+
+/**
+ * Ledoit-Wolf (2004) shrinkage of the sample covariance towards a scaled identity
+ */
+function ledoitWolf(X: number[][]): { covariance: number[][]; shrinkage: number } {
+  const T = X.length;
+  const n = X[0].length;
+  const means = Array.from({ length: n }, (_, i) => X.reduce((s, row) => s + row[i], 0) / T);
+  const centered = X.map(row => row.map((x, i) => x - means[i]));
+  const S = weightedCovariance(X, new Array(T).fill(1), false);
+
+  const mu = S.reduce((s, row, i) => s + row[i], 0) / n;
+  let delta = 0; // ||S - mu I||² / n
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) delta += (S[i][j] - (i === j ? mu : 0)) ** 2;
+  }
+  delta /= n;
+
+  let beta = 0; // Average squared distance of each x x' from S, divided by T
+  for (const row of centered) {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) beta += (row[i] * row[j] - S[i][j]) ** 2;
+    }
+  }
+  beta /= n * T * T;
+
+  const shrinkage = delta > 0 ? Math.min(beta, delta) / delta : 1;
+  const covariance = S.map((row, i) => row.map((s, j) => (1 - shrinkage) * s + (i === j ? shrinkage * mu : 0)));
+  return { covariance, shrinkage };
+}
+
+/**
+ * Statistical factor model: the top principal components plus diagonal specific risk
+ */
+function pcaCovariance(S: number[][], numFactors?: number): { covariance: number[][]; numFactors: number; explainedVariance: number } {
+  const n = S.length;
+  const { values, vectors } = symmetricEigen(S);
+  const total = values.reduce((s, v) => s + Math.max(v, 0), 0);
+
+  let k = numFactors;
+  if (k === undefined) {
+    let explained = 0;
+    k = 0;
+    while (k < n - 1 && explained < PCA_EXPLAINED_VARIANCE * total) explained += Math.max(values[k++], 0);
+  }
+
+  const covariance = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let f = 0; f < k; f++) {
+    const lambda = Math.max(values[f], 0);
+    const loading = vectors[f];
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) covariance[i][j] += lambda * loading[i] * loading[j];
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    // Specific variance keeps the diagonal equal to the sample variance
+    const specific = Math.max(S[i][i] - covariance[i][i], S[i][i] * 1e-6);
+    covariance[i][i] += specific;
+  }
+
+  const explainedVariance = total > 0 ? values.slice(0, k).reduce((s, v) => s + Math.max(v, 0), 0) / total : 0;
+  return { covariance, numFactors: k, explainedVariance };
+}
+
+/**
+ * Estimate an annualized covariance matrix from periodic returns.
+ * Throws with the reason when the aligned history is too short for the chosen method.
+ */
+export function estimateCovariance(
+  symbols: string[],
+  returns: Map<string, number[]>,
+  options: CovarianceOptions = DEFAULT_COVARIANCE_OPTIONS
+): CovarianceEstimate {
+  const n = symbols.length;
+  if (n === 0) throw new Error('No assets to estimate covariance for');
+
+  const label = METHOD_LABELS[options.method];
+  const X = alignReturns(symbols, returns);
+  const T = X.length;
+  const required = minimumObservations(n, options);
+  if (T < required) {
+    throw new Error(`Insufficient history for ${label}: ${T} aligned observations, need at least ${required}`);
+  }
+
+  const periodsPerYear = options.periodsPerYear ?? TRADING_DAYS_PER_YEAR;
+  const diagnostics: Partial<CovarianceDiagnostics> = { observations: T, effectiveObservations: T };
+  let periodic: number[][];
+
+  switch (options.method) {
+    case 'sample':
+      periodic = weightedCovariance(X, new Array(T).fill(1), true);
+      break;
+    case 'ledoitWolf': {
+      const { covariance, shrinkage } = ledoitWolf(X);
+      periodic = covariance;
+      diagnostics.shrinkage = shrinkage;
+      break;
+    }
+    case 'ewma': {
+      const halfLife = options.halfLife ?? DEFAULT_COVARIANCE_OPTIONS.halfLife!;
+      if (!(halfLife > 0)) throw new Error('EWMA half-life must be positive');
+      const decay = Math.pow(0.5, 1 / halfLife);
+      const weights = Array.from({ length: T }, (_, t) => Math.pow(decay, T - 1 - t));
+      const effective = weights.reduce((s, w) => s + w, 0) ** 2 / weights.reduce((s, w) => s + w * w, 0);
+      if (effective <= n) {
+        throw new Error(
+          `Insufficient history for ${label}: a ${halfLife}-period half-life leaves ${effective.toFixed(0)} effective observations for ${n} assets; lengthen the half-life`
+        );
+      }
+      periodic = weightedCovariance(X, weights, true);
+      diagnostics.effectiveObservations = effective;
+      break;
+    }
+    case 'pca': {
+      if (n < 2) throw new Error('PCA factor model needs at least two assets');
+      if (options.numFactors !== undefined && (options.numFactors < 1 || options.numFactors >= n)) {
+        throw new Error(`PCA factor model needs between 1 and ${n - 1} factors for ${n} assets`);
+      }
+      const { covariance, numFactors, explainedVariance } = pcaCovariance(
+        weightedCovariance(X, new Array(T).fill(1), true),
+        options.numFactors
+      );
+      periodic = covariance;
+      diagnostics.numFactors = numFactors;
+      diagnostics.explainedVariance = explainedVariance;
+      break;
+    }
+    default:
+      throw new Error(`Unknown covariance method: ${options.method}`);
+  }
+
+  const covariance = periodic.map(row => row.map(c => c * periodsPerYear));
+  const volatilities = covariance.map((row, i) => Math.sqrt(row[i]));
+  const flat = volatilities.findIndex(v => !(v > 0));
+  if (flat >= 0) throw new Error(`${symbols[flat]} has no return variation; cannot estimate its covariance`);
+
+  return {
+    method: options.method,
+    symbols,
+    covariance,
+    volatilities,
+    correlation: covariance.map((row, i) => row.map((c, j) => c / (volatilities[i] * volatilities[j]))),
+    diagnostics: { ...diagnostics, ...covarianceDiagnostics(covariance) } as CovarianceDiagnostics,
+  };
+}
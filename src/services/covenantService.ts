@@ -0,0 +1,319 @@
+// Covenant Service - Covenant definitions, compliance testing with headroom, and breach projection from LBO models
+import { LBOAssumptions, LBOCashFlowYear, LBOResult } from './lboModelService';
+
+export type CovenantType = 'max_leverage' | 'min_interest_coverage' | 'min_liquidity' | 'max_capex';
+export type CovenantStatus = 'compliant' | 'warning' | 'breach' | 'missing_data';
+export type TestFrequency = 'quarterly' | 'annual';
+
+export interface CovenantDefinition {
+  label: string;
+  direction: 'max' | 'min'; // max: the metric must stay at or below the limit
+  unit: 'x' | '$M';
+  description: string;
+  fields: string[]; // company_data_fields the metric is computed from
+}
+
+// A row of portfolio_covenants as the engine uses it
+export interface Covenant {
+  id: string;
+  company_id: string | null;
+  covenant_type: string;
+  limit_value: number;
+  current_value: number;
+  test_frequency: TestFrequency;
+  warning_headroom_pct: number;
+  headroom_pct: number | null;
+  status: CovenantStatus | 'untested';
+  is_warning: boolean | null;
+  last_period: string | null;
+  last_tested_at: string | null;
+  model_id: string | null;
+  projected_breach_period: string | null;
+}
+
+export interface CovenantTestResult {
+  period: string;
+  period_end: string | null;
+  is_projected: boolean;
+  actual_value: number | null;
+  limit_value: number;
+  headroom_pct: number | null;
+  status: CovenantStatus;
+  missingFields: string[];
+}
+
+export interface CovenantAlert {
+  severity: 'critical' | 'warning';
+  title: string;
+  description: string;
+}
+
+export const COVENANT_DEFINITIONS: Record<CovenantType, CovenantDefinition> = {
+  max_leverage: {
+    label: 'Maximum Leverage',
+    direction: 'max',
+    unit: 'x',
+    description: 'Total debt / LTM EBITDA',
+    fields: ['total_debt', 'ebitda_ltm'],
+  },
+  min_interest_coverage: {
+    label: 'Minimum Interest Coverage',
+    direction: 'min',
+    unit: 'x',
+    description: 'LTM EBITDA / LTM cash interest',
+    fields: ['ebitda_ltm', 'interest_expense_ltm'],
+  },
+  min_liquidity: {
+    label: 'Minimum Liquidity',
+    direction: 'min',
+    unit: '$M',
+    description: 'Cash plus undrawn revolver',
+    fields: ['cash'],
+  },
+  max_capex: {
+    label: 'Maximum Capex',
+    direction: 'max',
+    unit: '$M',
+    description: 'LTM capital expenditure',
+    fields: ['capex_ltm'],
+  },
+};
+
+export const COVENANT_STATUS_LABELS: Record<CovenantStatus | 'untested', string> = {
+  compliant: 'Compliant',
+  warning: 'Low Headroom',
+  breach: 'Breach',
+  missing_data: 'Missing Data',
+  untested: 'Not Tested',
+};
+
+export const DEFAULT_WARNING_HEADROOM_PCT = 15;
+
+export function isCovenantType(value: string): value is CovenantType {
+  return value in COVENANT_DEFINITIONS;
+}
+
+export function formatCovenantValue(type: string, value: number | null): string {
+  if (value === null || !Number.isFinite(value)) return '—';
+  return isCovenantType(type) && COVENANT_DEFINITIONS[type].unit === '$M'
+    ? `$${value.toFixed(1)}M`
+    : `${value.toFixed(2)}x`;
+}
+
+/**
+ * Numeric metric values from company_data_fields rows. Values are stored as JSON and may be
+ * numbers, numeric strings ("12.5", "$12.5M") or { value } objects.
+ */
+export function metricsFromDataFields(rows: { field_name: string; value: unknown }[]): Record<string, number> {
+  const metrics: Record<string, number> = {};
+  for (const row of rows) {
+    let raw = row.value;
+    if (raw && typeof raw === 'object' && 'value' in raw) raw = (raw as { value: unknown }).value;
+    const num = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw.replace(/[$,%\sMm]/g, '')) : NaN;
+    if (Number.isFinite(num)) metrics[row.field_name] = num;
+  }
+  return metrics;
+}
+
+/**
+ * Covenant metric from the company's current metrics, or null when an input is missing
+ * or the ratio is undefined (non-positive EBITDA or interest)
+ */
+export function computeCovenantMetric(type: CovenantType, metrics: Record<string, number>): number | null {
+  const { total_debt, ebitda_ltm, interest_expense_ltm, cash, revolver_availability, capex_ltm } = metrics;
+  switch (type) {
+    case 'max_leverage':
+      return total_debt !== undefined && ebitda_ltm > 0 ? total_debt / ebitda_ltm : null;
+    case 'min_interest_coverage':
+      return ebitda_ltm !== undefined && interest_expense_ltm > 0 ? ebitda_ltm / interest_expense_ltm : null;
+    case 'min_liquidity':
+      return cash !== undefined ? cash + (revolver_availability ?? 0) : null;
+    case 'max_capex':
+      return capex_ltm !== undefined ? Math.abs(capex_ltm) : null;
+  }
+}
+
+/**
+ * Headroom as a percentage of the limit: how far the metric can move against the company
+ * before the covenant is breached. Negative when in breach.
+ */
+export function covenantHeadroom(type: CovenantType, actual: number, limit: number): number | null {
+  if (limit === 0) return null;
+  const headroom = COVENANT_DEFINITIONS[type].direction === 'max' ? (limit - actual) / limit : (actual - limit) / limit;
+  return headroom * 100;
+}
+
+export function classifyHeadroom(headroomPct: number | null, warningHeadroomPct: number): CovenantStatus {
+  if (headroomPct === null) return 'missing_data';
+  if (headroomPct < 0) return 'breach';
+  if (headroomPct < warningHeadroomPct) return 'warning';
+  return 'compliant';
+}
+
+/**
+ * Reporting period a date falls in: "2025-Q3" for quarterly tests, "FY2025" for annual,
+ * with the period end date (calendar quarters and years)
+ */
+export function reportingPeriod(date: Date, frequency: TestFrequency): { period: string; periodEnd: string } {
+  const year = date.getFullYear();
+  if (frequency === 'annual') {
+    return { period: `FY${year}`, periodEnd: `${year}-12-31` };
+  }
+  const quarter = Math.floor(date.getMonth() / 3) + 1;
+  const end = new Date(Date.UTC(year, quarter * 3, 0));
+  return { period: `${year}-Q${quarter}`, periodEnd: end.toISOString().split('T')[0] };
+}
+
+/**
+ * Test a covenant for a reporting period against the company's current metrics
+ */
+export function testCovenant(
+  covenant: Pick<Covenant, 'covenant_type' | 'limit_value' | 'warning_headroom_pct'>,
+  metrics: Record<string, number>,
+  period: { period: string; periodEnd: string | null }
+): CovenantTestResult {
+  const base = {
+    period: period.period,
+    period_end: period.periodEnd,
+    is_projected: false,
+    limit_value: covenant.limit_value,
+  };
+
+  if (!isCovenantType(covenant.covenant_type)) {
+    return { ...base, actual_value: null, headroom_pct: null, status: 'missing_data', missingFields: [] };
+  }
+
+  const type = covenant.covenant_type;
+  const actual = computeCovenantMetric(type, metrics);
+  if (actual === null) {
+    return {
+      ...base,
+      actual_value: null,
+      headroom_pct: null,
+      status: 'missing_data',
+      missingFields: COVENANT_DEFINITIONS[type].fields.filter(f => metrics[f] === undefined),
+    };
+  }
+
+  const headroom = covenantHeadroom(type, actual, covenant.limit_value);
+  return {
+    ...base,
+    actual_value: actual,
+    headroom_pct: headroom,
+    status: classifyHeadroom(headroom, covenant.warning_headroom_pct),
+    missingFields: [],
+  };
+}
+
+// Projected metric for a model year. null means the covenant cannot bind that year (no cash
+// interest to cover); leverage on non-positive EBITDA with debt outstanding is unbounded.
+function projectedMetric(type: CovenantType, year: LBOCashFlowYear, undrawnRevolver: number): number | null {
+  switch (type) {
+    case 'max_leverage':
+      if (year.ebitda > 0) return year.leverage;
+      return year.totalDebt > 0 ? Infinity : 0;
+    case 'min_interest_coverage':
+      return year.cashInterest > 0 ? year.interestCoverage : null;
+    case 'min_liquidity':
+      return year.closingCash + undrawnRevolver;
+    case 'max_capex':
+      return year.capex;
+  }
+}
+
+/**
+ * Project a covenant over the years of a saved LBO model. Liquidity counts undrawn revolver
+ * commitments from the model's debt schedule.
+ */
+export function projectCovenant(
+  covenant: Pick<Covenant, 'covenant_type' | 'limit_value' | 'warning_headroom_pct'>,
+  lbo: LBOResult,
+  assumptions: Pick<LBOAssumptions, 'tranches'> | null
+): CovenantTestResult[] {
+  if (!isCovenantType(covenant.covenant_type)) return [];
+  const type = covenant.covenant_type;
+  const revolvers = (assumptions?.tranches || []).filter(t => t.type === 'revolver' && t.commitment);
+
+  return lbo.cashFlows.map((year, i) => {
+    const undrawn = revolvers.reduce((sum, t) => {
+      const drawn = lbo.debtSchedule[t.id]?.[i]?.closing ?? 0;
+      return sum + Math.max(0, (t.commitment || 0) - drawn);
+    }, 0);
+
+    const actual = projectedMetric(type, year, undrawn);
+    const result: CovenantTestResult = {
+      period: year.year,
+      period_end: null,
+      is_projected: true,
+      actual_value: null,
+      limit_value: covenant.limit_value,
+      headroom_pct: null,
+      status: 'compliant',
+      missingFields: [],
+    };
+
+    if (actual === Infinity) return { ...result, status: 'breach' };
+    if (actual === null) return result;
+
+    const headroom = covenantHeadroom(type, actual, covenant.limit_value);
+    return {
+      ...result,
+      actual_value: actual,
+      headroom_pct: headroom,
+      status: classifyHeadroom(headroom, covenant.warning_headroom_pct),
+    };
+  });
+}
+
+export function firstProjectedBreach(results: CovenantTestResult[]): CovenantTestResult | null {
+  return results.find(r => r.is_projected && r.status === 'breach') || null;
+}
+
+/**
+ * Alert to raise after a test, or null when nothing changed for the worse: a new breach,
+ * headroom newly under the warning threshold, or a breach newly projected by the model
+ */
+export function covenantAlert(
+  companyName: string,
+  covenant: Pick<Covenant, 'covenant_type' | 'limit_value' | 'status' | 'projected_breach_period'>,
+  result: CovenantTestResult,
+  projectedBreach: CovenantTestResult | null
+): CovenantAlert | null {
+  const label = isCovenantType(covenant.covenant_type)
+    ? COVENANT_DEFINITIONS[covenant.covenant_type].label
+    : covenant.covenant_type;
+  const limit = formatCovenantValue(covenant.covenant_type, covenant.limit_value);
+
+  if (result.status === 'breach' && covenant.status !== 'breach') {
+    return {
+      severity: 'critical',
+      title: `${companyName}: ${label} covenant breached`,
+      description: `${result.period}: ${formatCovenantValue(covenant.covenant_type, result.actual_value)} against a limit of ${limit}.`,
+    };
+  }
+
+  if (result.status === 'warning' && covenant.status !== 'warning' && covenant.status !== 'breach') {
+    return {
+      severity: 'warning',
+      title: `${companyName}: ${label} headroom below threshold`,
+      description: `${result.period}: ${formatCovenantValue(covenant.covenant_type, result.actual_value)} against a limit of ${limit} (${result.headroom_pct?.toFixed(1)}% headroom).`,
+    };
+  }
+
+  if (projectedBreach && projectedBreach.period !== covenant.projected_breach_period && result.status !== 'breach') {
+    return {
+      severity: 'warning',
+      title: `${companyName}: ${label} breach projected in ${projectedBreach.period}`,
+      description: `The model projects ${formatCovenantValue(covenant.covenant_type, projectedBreach.actual_value)} against a limit of ${limit}.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a covenant is due for its periodic test
+ */
+export function isTestDue(covenant: Pick<Covenant, 'last_period' | 'test_frequency'>, today: Date = new Date()): boolean {
+  return covenant.last_period !== reportingPeriod(today, covenant.test_frequency).period;
+}
@@ -0,0 +1,183 @@
+// Currency Attribution Service - Splits base-currency returns into local-asset return and currency effect
+// Hedged views remove part or all of the currency effect from foreign holdings at a carry cost
+
+import { FxRates } from './fxService';
+
+export interface AttributionHolding {
+  symbol: string;
+  currency: string;
+  weight: number; // Share of base-currency value; normalized across the holdings that can be converted
+  bars: { date: string; dailyReturn?: number }[]; // Daily local-currency total returns
+}
+
+export interface HedgeSettings {
+  ratio: number; // 0 unhedged through 1 fully hedged
+  annualCost?: number; // Carry paid on the hedged notional per year (roughly base minus foreign short rate)
+}
+
+export interface ReturnBreakdown {
+  localReturn: number;
+  currencyEffect: number;
+  baseReturn: number;
+  hedgedReturn: number;
+}
+
+export interface AttributionPoint extends ReturnBreakdown {
+  date: string;
+}
+
+export interface HoldingAttribution extends ReturnBreakdown {
+  symbol: string;
+  currency: string;
+  weight: number;
+  fxReturn: number; // Move of the holding's currency against the base over the period
+}
+
+export interface CurrencyAttribution {
+  baseCurrency: string;
+  daily: AttributionPoint[];
+  cumulative: AttributionPoint[]; // Compounded from the first date; currency effect is base minus local
+  totals: ReturnBreakdown;
+  holdings: HoldingAttribution[];
+  exposures: { currency: string; weight: number }[];
+  missingCurrencies: string[]; // Held currencies with no FX history; their holdings are left out
+  missingSymbols: string[]; // Holdings with no return history in the range, also left out
+}
+
+const TRADING_DAYS = 252;
+
+/**
+ * One period's base-currency return from the local return and the currency's move against
+ * the base: (1 + local)(1 + fx) - 1. The cross term is counted as currency effect.
+ */
+export function decomposeReturn(localReturn: number, fxReturn: number): { localReturn: number; currencyEffect: number; baseReturn: number } {
+  const baseReturn = (1 + localReturn) * (1 + fxReturn) - 1;
+  return { localReturn, currencyEffect: baseReturn - localReturn, baseReturn };
+}
+
+/**
+ * A foreign holding's return with `ratio` of its currency effect hedged away, less the carry on that share
+ */
+export function hedgedReturn(
+  localReturn: number,
+  currencyEffect: number,
+  hedge: HedgeSettings,
+  periodsPerYear: number = TRADING_DAYS
+): number {
+  const ratio = Math.min(1, Math.max(0, hedge.ratio));
+  return localReturn + (1 - ratio) * currencyEffect - (ratio * (hedge.annualCost ?? 0)) / periodsPerYear;
+}
+
+function compound(returns: number[]): number {
+  return returns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+}
+
+/**
+ * Daily and cumulative attribution for a portfolio held at fixed base-currency weights (rebalanced daily,
+ * as the portfolio return series are). Only dates on which every priced, convertible holding has a return count.
+ */
+export function attributeCurrencyReturns(
+  holdings: AttributionHolding[],
+  rates: FxRates,
+  baseCurrency: string,
+  hedge: HedgeSettings = { ratio: 0 }
+): CurrencyAttribution {
+  const missingCurrencies = [...new Set(holdings.map(h => h.currency.toUpperCase()))].filter(
+    c => rates.rate(c, baseCurrency) === null
+  );
+  const included = holdings.filter(h => !missingCurrencies.includes(h.currency.toUpperCase()) && h.weight > 0);
+
+  // Each holding's daily breakdown by date, with the FX move measured from its previous bar
+  const breakdowns = included.map(h => {
+    const foreign = h.currency.toUpperCase() !== baseCurrency.toUpperCase();
+    const byDate = new Map<string, ReturnBreakdown & { fxReturn: number }>();
+    for (let i = 1; i < h.bars.length; i++) {
+      const { date, dailyReturn } = h.bars[i];
+      if (dailyReturn === undefined) continue;
+      const prevRate = rates.rate(h.currency, baseCurrency, h.bars[i - 1].date);
+      const rate = rates.rate(h.currency, baseCurrency, date);
+      if (prevRate === null || rate === null) continue;
+
+      const fxReturn = rate / prevRate - 1;
+      const split = decomposeReturn(dailyReturn, fxReturn);
+      byDate.set(date, {
+        ...split,
+        fxReturn,
+        hedgedReturn: foreign ? hedgedReturn(split.localReturn, split.currencyEffect, hedge) : split.baseReturn,
+      });
+    }
+    return { holding: h, byDate };
+  });
+
+  const priced = breakdowns.filter(b => b.byDate.size > 0);
+  const missingSymbols = breakdowns.filter(b => b.byDate.size === 0).map(b => b.holding.symbol);
+  const weightSum = priced.reduce((s, b) => s + b.holding.weight, 0);
+  const series = priced.map(b => ({ ...b, weight: b.holding.weight / weightSum }));
+
+  const dates =
+    series.length === 0
+      ? []
+      : [...series[0].byDate.keys()].filter(d => series.every(s => s.byDate.has(d))).sort();
+
+  const daily: AttributionPoint[] = dates.map(date => {
+    const point: AttributionPoint = { date, localReturn: 0, currencyEffect: 0, baseReturn: 0, hedgedReturn: 0 };
+    for (const s of series) {
+      const r = s.byDate.get(date)!;
+      point.localReturn += s.weight * r.localReturn;
+      point.currencyEffect += s.weight * r.currencyEffect;
+      point.baseReturn += s.weight * r.baseReturn;
+      point.hedgedReturn += s.weight * r.hedgedReturn;
+    }
+    return point;
+  });
+
+  let local = 1;
+  let base = 1;
+  let hedged = 1;
+  const cumulative = daily.map(p => {
+    local *= 1 + p.localReturn;
+    base *= 1 + p.baseReturn;
+    hedged *= 1 + p.hedgedReturn;
+    return { date: p.date, localReturn: local - 1, currencyEffect: base - local, baseReturn: base - 1, hedgedReturn: hedged - 1 };
+  });
+
+  const last = cumulative[cumulative.length - 1];
+  const totals: ReturnBreakdown = last
+    ? { localReturn: last.localReturn, currencyEffect: last.currencyEffect, baseReturn: last.baseReturn, hedgedReturn: last.hedgedReturn }
+    : { localReturn: 0, currencyEffect: 0, baseReturn: 0, hedgedReturn: 0 };
+
+  const holdingAttribution: HoldingAttribution[] = series.map(({ holding, weight, byDate }) => {
+    const points = dates.map(d => byDate.get(d)!);
+    const localReturn = compound(points.map(p => p.localReturn));
+    const baseReturn = compound(points.map(p => p.baseReturn));
+    return {
+      symbol: holding.symbol,
+      currency: holding.currency.toUpperCase(),
+      weight,
+      localReturn,
+      currencyEffect: baseReturn - localReturn,
+      baseReturn,
+      hedgedReturn: compound(points.map(p => p.hedgedReturn)),
+      fxReturn: compound(points.map(p => p.fxReturn)),
+    };
+  });
+
+  const exposureByCurrency = new Map<string, number>();
+  series.forEach(({ holding, weight }) => {
+    const c = holding.currency.toUpperCase();
+    exposureByCurrency.set(c, (exposureByCurrency.get(c) ?? 0) + weight);
+  });
+
+  return {
+    baseCurrency: baseCurrency.toUpperCase(),
+    daily,
+    cumulative,
+    totals,
+    holdings: holdingAttribution,
+    exposures: [...exposureByCurrency]
+      .map(([currency, weight]) => ({ currency, weight }))
+      .sort((a, b) => b.weight - a.weight),
+    missingCurrencies,
+    missingSymbols,
+  };
+}
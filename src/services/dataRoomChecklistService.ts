@@ -0,0 +1,535 @@
+// Data Room Checklist Service - Deal-type checklist templates, document matching and request-list export
+import * as XLSX from 'xlsx';
+
+export type DealType = 'buyout' | 'growth_equity' | 'credit' | 'real_estate';
+
+// Items are matched, in order of precedence, by documents explicitly tagged to them and by the document
+// classification written by process-documents / the upload wizard (documents.document_type) or the
+// folder chosen by suggest-folder. Filename keywords only suggest documents to tag.
+// Kept as type aliases so templates can be stored directly in a JSONB column.
+export type ChecklistItem = {
+  id: string;
+  name: string;
+  category: string;
+  description?: string | null; // Shown to the target's management on the request list
+  keywords: string[];
+  documentTypes?: string[];
+  folders?: string[]; // "Folder" or "Folder/subfolder", case-insensitive
+};
+
+export type ChecklistTemplate = {
+  id: string;
+  name: string;
+  dealType: DealType;
+  items: ChecklistItem[];
+};
+
+export interface ChecklistDocument {
+  id?: string;
+  name: string;
+  document_type?: string | null;
+  folder?: string | null;
+  subfolder?: string | null;
+}
+
+// Per-company state for a template item (data_room_checklist_items)
+export interface ChecklistItemState {
+  item_id: string;
+  owner_id: string | null;
+  due_date: string | null;
+  document_ids: string[];
+  notes: string | null;
+}
+
+export type ChecklistMatchSource = 'tagged' | 'classified';
+
+export interface ChecklistMatch {
+  source: ChecklistMatchSource;
+  documents: ChecklistDocument[];
+}
+
+export interface ChecklistCategoryCount {
+  completed: number;
+  total: number;
+}
+
+export interface ChecklistStatus {
+  completedItems: Set<string>;
+  matches: Record<string, ChecklistMatch>;
+  suggestions: Record<string, ChecklistDocument[]>; // Filename matches for outstanding items, pending confirmation
+  progress: number;
+  categoryCounts: Record<string, ChecklistCategoryCount>;
+}
+
+export interface RequestListRow {
+  number: number;
+  category: string;
+  request: string;
+  description: string;
+  status: 'Received' | 'Outstanding';
+  owner: string;
+  dueDate: string;
+}
+
+export const DEAL_TYPE_LABELS: Record<DealType, string> = {
+  buyout: 'Buyout',
+  growth_equity: 'Growth Equity',
+  credit: 'Credit',
+  real_estate: 'Real Estate',
+};
+
+export const MATCH_SOURCE_LABELS: Record<ChecklistMatchSource, string> = {
+  tagged: 'Tagged',
+  classified: 'Classified',
+};
+
+// Classifications written to documents.document_type
+export const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  cim: 'CIM',
+  teaser: 'Teaser',
+  financial_statements: 'Financial Statements',
+  management_presentation: 'Management Presentation',
+  cap_table: 'Cap Table',
+  qoe: 'Quality of Earnings',
+  customer_list: 'Customer List',
+  legal: 'Legal',
+};
+
+// Mirrors the folder structure suggest-folder classifies into
+export const DATA_ROOM_FOLDERS: Record<string, string[]> = {
+  Financial: ['historical', 'projections', 'audit', 'tax'],
+  Legal: ['corporate', 'contracts', 'litigation', 'ip'],
+  Commercial: ['customer', 'sales', 'market'],
+  Operations: ['hr', 'it', 'facilities'],
+  'Deal Documents': ['cim', 'loi', 'ic-memos'],
+  'Diligence Reports': ['qoe', 'legal-dd', 'commercial-dd'],
+};
+
+const item = (
+  id: string,
+  name: string,
+  category: string,
+  keywords: string[],
+  match: { documentTypes?: string[]; folders?: string[]; description?: string } = {}
+): ChecklistItem => ({
+  id,
+  name,
+  category,
+  description: match.description ?? null,
+  keywords,
+  documentTypes: match.documentTypes ?? [],
+  folders: match.folders ?? [],
+});
+
+const BUYOUT_ITEMS: ChecklistItem[] = [
+  // Financial
+  item('historical-3yr', '3 Years Historical Financials', 'Financial', ['historical', 'financials', 'income statement', 'p&l', 'balance sheet'], {
+    documentTypes: ['financial_statements'],
+    folders: ['Financial/historical'],
+    description: 'Annual income statement, balance sheet and cash flow for the last three fiscal years',
+  }),
+  item('monthly-financials', 'Monthly Financial Statements', 'Financial', ['monthly', 'statement', 'financials'], {
+    description: 'Monthly P&L and balance sheet for the trailing 24 months',
+  }),
+  item('budget-forecast', 'Budget & Forecast', 'Financial', ['budget', 'forecast', 'projection'], {
+    folders: ['Financial/projections'],
+    description: 'Current year budget and management projections with key assumptions',
+  }),
+  item('audit-reports', 'Audit Reports', 'Financial', ['audit', 'audited'], {
+    folders: ['Financial/audit'],
+    description: 'Audited or reviewed financial statements and management letters',
+  }),
+  item('tax-returns', 'Tax Returns (3 Years)', 'Financial', ['tax', 'return', '1120'], {
+    folders: ['Financial/tax'],
+    description: 'Federal and state tax returns for the last three years',
+  }),
+
+  // Legal
+  item('cap-table', 'Cap Table', 'Legal', ['cap table', 'capitalization', 'equity', 'ownership'], {
+    documentTypes: ['cap_table'],
+    description: 'Fully diluted capitalization table including options and warrants',
+  }),
+  item('corporate-docs', 'Corporate Formation Documents', 'Legal', ['articles', 'incorporation', 'bylaws', 'certificate'], {
+    folders: ['Legal/corporate'],
+    description: 'Certificate of incorporation, bylaws and board minutes',
+  }),
+  item('contracts', 'Material Contracts', 'Legal', ['contract', 'agreement', 'material'], {
+    documentTypes: ['legal'],
+    folders: ['Legal/contracts'],
+    description: 'Customer, supplier and other agreements above the materiality threshold',
+  }),
+
+  // Commercial
+  item('customer-list', 'Customer List & Analysis', 'Commercial', ['customer', 'client', 'analysis', 'revenue'], {
+    documentTypes: ['customer_list'],
+    folders: ['Commercial/customer'],
+    description: 'Revenue by customer for the last three years with churn and concentration',
+  }),
+  item('sales-pipeline', 'Sales Pipeline', 'Commercial', ['pipeline', 'sales', 'opportunity'], {
+    folders: ['Commercial/sales'],
+    description: 'Current sales pipeline by stage with expected close dates',
+  }),
+
+  // Operations
+  item('org-chart', 'Org Chart', 'Operations', ['org', 'organization', 'chart', 'structure'], {
+    description: 'Organization chart with reporting lines for management and key staff',
+  }),
+  item('employee-list', 'Employee Census', 'Operations', ['employee', 'census', 'headcount', 'staff'], {
+    folders: ['Operations/hr'],
+    description: 'Employee census with role, tenure, location and compensation',
+  }),
+
+  // Deal Documents
+  item('cim', 'CIM / Teaser', 'Deal Documents', ['cim', 'teaser', 'memorandum', 'confidential information'], {
+    documentTypes: ['cim', 'teaser'],
+    folders: ['Deal Documents/cim'],
+  }),
+  item('management-presentation', 'Management Presentation', 'Deal Documents', ['management', 'presentation', 'deck'], {
+    documentTypes: ['management_presentation'],
+  }),
+];
+
+const GROWTH_EQUITY_ITEMS: ChecklistItem[] = [
+  BUYOUT_ITEMS[0],
+  BUYOUT_ITEMS[1],
+  BUYOUT_ITEMS[2],
+  item('kpi-pack', 'Monthly KPI Pack', 'Financial', ['kpi', 'metrics', 'dashboard'], {
+    description: 'Monthly ARR/MRR, bookings, burn and other operating KPIs',
+  }),
+  BUYOUT_ITEMS[5],
+  item('financing-docs', 'Prior Financing Documents', 'Legal', ['safe', 'convertible', 'series', 'investor rights', 'stock purchase'], {
+    description: 'Stock purchase, investor rights and voting agreements and outstanding SAFEs or notes',
+  }),
+  BUYOUT_ITEMS[6],
+  item('cohort-analysis', 'Customer Cohorts & Retention', 'Commercial', ['cohort', 'retention', 'churn', 'nrr'], {
+    documentTypes: ['customer_list'],
+    folders: ['Commercial/customer'],
+    description: 'Revenue cohorts with gross and net retention',
+  }),
+  BUYOUT_ITEMS[9],
+  item('product-roadmap', 'Product Roadmap', 'Operations', ['roadmap', 'product'], {
+    folders: ['Operations/it'],
+    description: 'Product roadmap for the next 12–24 months',
+  }),
+  BUYOUT_ITEMS[10],
+  BUYOUT_ITEMS[13],
+];
+
+const CREDIT_ITEMS: ChecklistItem[] = [
+  BUYOUT_ITEMS[0],
+  BUYOUT_ITEMS[1],
+  BUYOUT_ITEMS[2],
+  item('qoe', 'Quality of Earnings', 'Financial', ['qoe', 'quality of earnings'], {
+    documentTypes: ['qoe'],
+    folders: ['Diligence Reports/qoe'],
+  }),
+  item('ar-ap-aging', 'AR / AP Aging', 'Financial', ['aging', 'receivable', 'payable'], {
+    description: 'Accounts receivable and payable aging as of the latest month end',
+  }),
+  item('existing-debt', 'Existing Debt Agreements', 'Legal', ['credit agreement', 'loan', 'indenture', 'debt'], {
+    description: 'Credit agreements, indentures and amendments for all outstanding debt',
+  }),
+  item('compliance-certificates', 'Covenant Compliance Certificates', 'Legal', ['compliance certificate', 'covenant'], {
+    description: 'Compliance certificates delivered to lenders for the last eight quarters',
+  }),
+  BUYOUT_ITEMS[6],
+  item('collateral', 'Collateral & Borrowing Base', 'Collateral', ['collateral', 'borrowing base', 'inventory', 'appraisal'], {
+    description: 'Latest borrowing base certificate and collateral appraisals',
+  }),
+  item('insurance', 'Insurance Certificates', 'Collateral', ['insurance', 'certificate of insurance', 'policy'], {
+    description: 'Certificates of insurance and summary of coverage',
+  }),
+  BUYOUT_ITEMS[13],
+];
+
+const REAL_ESTATE_ITEMS: ChecklistItem[] = [
+  item('rent-roll', 'Rent Roll', 'Property Financials', ['rent roll', 'tenant'], {
+    description: 'Current rent roll with lease terms, rents and expirations',
+  }),
+  item('t12', 'Trailing 12-Month Operating Statement', 'Property Financials', ['t12', 't-12', 'operating statement', 'noi'], {
+    documentTypes: ['financial_statements'],
+    folders: ['Financial/historical'],
+  }),
+  item('property-budget', 'Operating Budget', 'Property Financials', ['budget', 'capex', 'forecast'], {
+    folders: ['Financial/projections'],
+  }),
+  item('property-tax', 'Property Tax Bills', 'Property Financials', ['property tax', 'assessment'], {
+    folders: ['Financial/tax'],
+  }),
+  item('leases', 'Leases & Amendments', 'Legal', ['lease', 'amendment', 'estoppel'], {
+    documentTypes: ['legal'],
+    folders: ['Legal/contracts'],
+  }),
+  item('title-survey', 'Title & Survey', 'Legal', ['title', 'survey', 'alta'], {}),
+  item('zoning', 'Zoning Report', 'Legal', ['zoning', 'permit', 'certificate of occupancy'], {}),
+  item('property-condition', 'Property Condition Report', 'Physical', ['property condition', 'pca', 'inspection'], {
+    folders: ['Operations/facilities'],
+  }),
+  item('environmental', 'Phase I Environmental', 'Physical', ['phase i', 'environmental', 'esa'], {}),
+  item('appraisal', 'Appraisal', 'Physical', ['appraisal', 'valuation'], {}),
+  item('offering-memo', 'Offering Memorandum', 'Deal Documents', ['offering memorandum', 'memorandum'], {
+    documentTypes: ['cim'],
+    folders: ['Deal Documents/cim'],
+  }),
+];
+
+export const DEFAULT_CHECKLIST_TEMPLATES: ChecklistTemplate[] = [
+  { id: 'buyout', name: 'Buyout', dealType: 'buyout', items: BUYOUT_ITEMS },
+  { id: 'growth-equity', name: 'Growth Equity', dealType: 'growth_equity', items: GROWTH_EQUITY_ITEMS },
+  { id: 'credit', name: 'Credit', dealType: 'credit', items: CREDIT_ITEMS },
+  { id: 'real-estate', name: 'Real Estate', dealType: 'real_estate', items: REAL_ESTATE_ITEMS },
+];
+
+// Used when a company has no template assigned and the organization has not customized templates
+export const REQUIRED_DOCUMENTS = BUYOUT_ITEMS;
+
+export const checklistCategories = (items: ChecklistItem[]) => [...new Set(items.map((i) => i.category))];
+
+export const templateCategories = (templates: ChecklistTemplate[]) =>
+  [...new Set(templates.flatMap((t) => checklistCategories(t.items)))];
+
+export const CHECKLIST_CATEGORIES = templateCategories(DEFAULT_CHECKLIST_TEMPLATES);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+
+function parseChecklistItem(value: unknown): ChecklistItem | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id || typeof value.name !== 'string') return null;
+  return {
+    id: value.id,
+    name: value.name,
+    category: typeof value.category === 'string' && value.category.trim() ? value.category : 'General',
+    description: typeof value.description === 'string' && value.description.trim() ? value.description : null,
+    keywords: stringList(value.keywords),
+    documentTypes: stringList(value.documentTypes),
+    folders: stringList(value.folders),
+  };
+}
+
+/**
+ * Parse an organization's stored templates, falling back to the built-in deal-type templates
+ */
+export function parseChecklistTemplates(value: unknown): ChecklistTemplate[] {
+  if (!Array.isArray(value)) return DEFAULT_CHECKLIST_TEMPLATES;
+
+  const seen = new Set<string>();
+  const templates = value.flatMap((raw): ChecklistTemplate[] => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') return [];
+    if (!raw.id || seen.has(raw.id)) return [];
+    seen.add(raw.id);
+
+    const itemIds = new Set<string>();
+    const items = (Array.isArray(raw.items) ? raw.items : []).flatMap((rawItem): ChecklistItem[] => {
+      const parsed = parseChecklistItem(rawItem);
+      if (!parsed || itemIds.has(parsed.id)) return [];
+      itemIds.add(parsed.id);
+      return [parsed];
+    });
+
+    return [{
+      id: raw.id,
+      name: raw.name,
+      dealType: typeof raw.dealType === 'string' && raw.dealType in DEAL_TYPE_LABELS ? (raw.dealType as DealType) : 'buyout',
+      items,
+    }];
+  });
+
+  return templates.length > 0 ? templates : DEFAULT_CHECKLIST_TEMPLATES;
+}
+
+/**
+ * Build a stable id from a name; item ids key per-company state in data_room_checklist_items
+ */
+export function createChecklistId(name: string, existingIds: string[]): string {
+  const base = name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
+
+/**
+ * Validate templates before saving; returns an error message or null
+ */
+export function validateChecklistTemplates(templates: ChecklistTemplate[]): string | null {
+  if (templates.length === 0) return 'Add at least one template';
+  if (templates.some((t) => !t.name.trim())) return 'Every template needs a name';
+
+  const names = templates.map((t) => t.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return 'Template names must be unique';
+
+  for (const template of templates) {
+    if (template.items.length === 0) return `${template.name}: add at least one item`;
+    if (template.items.some((i) => !i.name.trim() || !i.category.trim())) {
+      return `${template.name}: every item needs a name and category`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Template used for a company; unknown or unset ids fall back to the first template
+ */
+export function resolveChecklistTemplate(
+  templates: ChecklistTemplate[],
+  templateId: string | null | undefined
+): ChecklistTemplate {
+  return templates.find((t) => t.id === templateId) || templates[0] || DEFAULT_CHECKLIST_TEMPLATES[0];
+}
+
+const normalize = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_');
+
+function matchesFolder(doc: ChecklistDocument, folder: string): boolean {
+  const [wantFolder, wantSubfolder] = folder.split('/').map(normalize);
+  if (!doc.folder || normalize(doc.folder) !== wantFolder) return false;
+  return !wantSubfolder || (!!doc.subfolder && normalize(doc.subfolder) === wantSubfolder);
+}
+
+/**
+ * Find the documents that satisfy a checklist item, using the strongest available signal
+ */
+export function matchChecklistItem(
+  checklistItem: ChecklistItem,
+  documents: ChecklistDocument[],
+  state?: ChecklistItemState
+): ChecklistMatch | null {
+  if (state && state.document_ids.length > 0) {
+    const tagged = documents.filter((doc) => doc.id && state.document_ids.includes(doc.id));
+    if (tagged.length > 0) return { source: 'tagged', documents: tagged };
+  }
+
+  const types = (checklistItem.documentTypes || []).map(normalize);
+  const folders = checklistItem.folders || [];
+  const classified = documents.filter(
+    (doc) =>
+      (!!doc.document_type && types.includes(normalize(doc.document_type))) ||
+      folders.some((folder) => matchesFolder(doc, folder))
+  );
+  return classified.length > 0 ? { source: 'classified', documents: classified } : null;
+}
+
+/**
+ * Documents whose filename contains one of the item's keywords. A filename alone does not complete
+ * an item; these are offered for tagging.
+ */
+export function suggestChecklistDocuments(checklistItem: ChecklistItem, documents: ChecklistDocument[]): ChecklistDocument[] {
+  return documents.filter((doc) => {
+    const docName = doc.name.toLowerCase();
+    return checklistItem.keywords.some((keyword) => docName.includes(keyword.toLowerCase()));
+  });
+}
+
+/**
+ * Match uploaded documents to checklist items and summarize completion by category
+ */
+export function evaluateChecklist(
+  documents: ChecklistDocument[],
+  items: ChecklistItem[] = REQUIRED_DOCUMENTS,
+  states: ChecklistItemState[] = []
+): ChecklistStatus {
+  const completed = new Set<string>();
+  const matches: Record<string, ChecklistMatch> = {};
+  const suggestions: Record<string, ChecklistDocument[]> = {};
+
+  items.forEach((checklistItem) => {
+    const match = matchChecklistItem(checklistItem, documents, states.find((s) => s.item_id === checklistItem.id));
+    if (match) {
+      completed.add(checklistItem.id);
+      matches[checklistItem.id] = match;
+      return;
+    }
+    const suggested = suggestChecklistDocuments(checklistItem, documents);
+    if (suggested.length > 0) suggestions[checklistItem.id] = suggested;
+  });
+
+  const counts: Record<string, ChecklistCategoryCount> = {};
+  checklistCategories(items).forEach((cat) => {
+    const catItems = items.filter((i) => i.category === cat);
+    counts[cat] = {
+      completed: catItems.filter((i) => completed.has(i.id)).length,
+      total: catItems.length,
+    };
+  });
+
+  return {
+    completedItems: completed,
+    matches,
+    suggestions,
+    progress: items.length > 0 ? Math.round((completed.size / items.length) * 100) : 0,
+    categoryCounts: counts,
+  };
+}
+
+/**
+ * Outstanding items past their due date
+ */
+export function isChecklistItemOverdue(
+  state: ChecklistItemState | undefined,
+  completed: boolean,
+  today: Date = new Date()
+): boolean {
+  if (completed || !state?.due_date) return false;
+  return state.due_date < today.toISOString().slice(0, 10);
+}
+
+/**
+ * Rows for the request list sent to the target's management, outstanding items first
+ */
+export function buildRequestList(
+  items: ChecklistItem[],
+  status: ChecklistStatus,
+  states: ChecklistItemState[],
+  ownerNames: Record<string, string>,
+  outstandingOnly = false
+): RequestListRow[] {
+  const rows = items
+    .map((checklistItem) => {
+      const state = states.find((s) => s.item_id === checklistItem.id);
+      const received = status.completedItems.has(checklistItem.id);
+      return {
+        checklistItem,
+        received,
+        owner: state?.owner_id ? ownerNames[state.owner_id] || '' : '',
+        dueDate: state?.due_date || '',
+      };
+    })
+    .filter((row) => !outstandingOnly || !row.received);
+
+  // Stable sort keeps template order within the outstanding / received groups
+  rows.sort((a, b) => Number(a.received) - Number(b.received));
+
+  return rows.map((row, index) => ({
+    number: index + 1,
+    category: row.checklistItem.category,
+    request: row.checklistItem.name,
+    description: row.checklistItem.description || '',
+    status: row.received ? 'Received' : 'Outstanding',
+    owner: row.owner,
+    dueDate: row.dueDate,
+  }));
+}
+
+/**
+ * Download the request list as an .xlsx workbook
+ */
+export function exportRequestList(companyName: string, templateName: string, rows: RequestListRow[]): void {
+  const header = ['#', 'Category', 'Request', 'Description', 'Status', 'Owner', 'Due Date'];
+  const ws = XLSX.utils.aoa_to_sheet([
+    [`${companyName} - Due Diligence Request List (${templateName})`],
+    [],
+    header,
+    ...rows.map((r) => [r.number, r.category, r.request, r.description, r.status, r.owner, r.dueDate]),
+  ]);
+  ws['!cols'] = [{ wch: 5 }, { wch: 18 }, { wch: 36 }, { wch: 60 }, { wch: 12 }, { wch: 20 }, { wch: 12 }];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Request List');
+
+  const baseName = `${companyName} Request List`.replace(/[\\/:*?"<>|]+/g, '').trim();
+  XLSX.writeFile(wb, `${baseName || 'Request List'}.xlsx`);
+}
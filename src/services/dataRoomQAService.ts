@@ -0,0 +1,363 @@
+// Data Room Q&A Service - Diligence question tracking and bank-style Q&A log CSV import/export
+
+export type QuestionStatus = 'open' | 'answered' | 'closed';
+export type QuestionPriority = 'high' | 'medium' | 'low';
+
+// A row of data_room_questions
+export interface DataRoomQuestion {
+  id: string;
+  company_id: string;
+  number: number;
+  document_id: string | null;
+  checklist_item_id: string | null;
+  category: string | null;
+  question: string;
+  answer: string | null;
+  status: QuestionStatus;
+  priority: QuestionPriority;
+  assignee_id: string | null;
+  attachment_ids: string[];
+  raised_by: string | null;
+  answered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A question read from an imported Q&A log, before names are resolved to ids
+export interface QALogRow {
+  reference: string | null;
+  category: string | null;
+  question: string;
+  answer: string | null;
+  status: QuestionStatus | undefined; // Left unset when the log has no status for the row
+  priority: QuestionPriority;
+  assignee: string | null;
+  document: string | null;
+  checklistItem: string | null;
+}
+
+export interface QALogParseResult {
+  rows: QALogRow[];
+  skipped: number; // Rows without a question
+  error: string | null;
+}
+
+export interface QAImportPlan {
+  inserts: QALogRow[];
+  updates: { id: string; row: QALogRow }[];
+}
+
+export interface QASummary {
+  total: number;
+  open: number;
+  answered: number;
+  closed: number;
+  highPriorityOpen: number;
+}
+
+// Names used to resolve ids when exporting
+export interface QALogLookups {
+  assignees: Record<string, string>;
+  documents: Record<string, string>;
+  checklistItems: Record<string, string>;
+}
+
+export const QUESTION_STATUS_LABELS: Record<QuestionStatus, string> = {
+  open: 'Open',
+  answered: 'Answered',
+  closed: 'Closed',
+};
+
+export const QUESTION_PRIORITY_LABELS: Record<QuestionPriority, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+// Column order of the exported log, following the request trackers banks circulate with a data room
+export const QA_LOG_COLUMNS = [
+  'Ref',
+  'Workstream',
+  'Question',
+  'Document Reference',
+  'Checklist Item',
+  'Priority',
+  'Status',
+  'Assigned To',
+  'Date Raised',
+  'Response',
+  'Date Responded',
+] as const;
+
+// Accepted header spellings per field when importing, compared lowercased without punctuation
+const HEADER_ALIASES: Record<keyof QALogRow, string[]> = {
+  reference: ['ref', 'reference', 'ref no', 'no', 'number', 'q', 'q no', 'question no', 'item', 'item no', 'id'],
+  category: ['workstream', 'category', 'section', 'topic', 'area', 'work stream'],
+  question: ['question', 'request', 'query', 'question request', 'information requested'],
+  answer: ['response', 'answer', 'seller response', 'company response', 'management response', 'reply'],
+  status: ['status', 'response status'],
+  priority: ['priority', 'importance'],
+  assignee: ['assigned to', 'assignee', 'owner', 'responsible', 'responsible party', 'advisor'],
+  document: ['document reference', 'document', 'document ref', 'doc ref', 'data room reference', 'vdr reference', 'file'],
+  checklistItem: ['checklist item', 'checklist', 'checklist reference', 'diligence item'],
+};
+
+const STATUS_ALIASES: Record<string, QuestionStatus> = {
+  open: 'open',
+  outstanding: 'open',
+  pending: 'open',
+  new: 'open',
+  'in progress': 'open',
+  answered: 'answered',
+  responded: 'answered',
+  'response provided': 'answered',
+  provided: 'answered',
+  'partially answered': 'answered',
+  closed: 'closed',
+  resolved: 'closed',
+  complete: 'closed',
+  completed: 'closed',
+  'n a': 'closed',
+  withdrawn: 'closed',
+};
+
+const PRIORITY_ALIASES: Record<string, QuestionPriority> = {
+  high: 'high',
+  h: 'high',
+  urgent: 'high',
+  critical: 'high',
+  '1': 'high',
+  medium: 'medium',
+  med: 'medium',
+  m: 'medium',
+  normal: 'medium',
+  '2': 'medium',
+  low: 'low',
+  l: 'low',
+  '3': 'low',
+};
+
+const normalize = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Format a question number as its log reference, e.g. 7 -> "Q-007"
+ */
+export function formatQuestionRef(number: number): string {
+  return `Q-${String(number).padStart(3, '0')}`;
+}
+
+/**
+ * Next free sequential number for a company's questions
+ */
+export function nextQuestionNumber(questions: Pick<DataRoomQuestion, 'number'>[]): number {
+  return questions.reduce((max, q) => Math.max(max, q.number), 0) + 1;
+}
+
+/**
+ * Parse CSV text into rows, handling quoted fields with embedded commas, quotes and line breaks
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  // Strip a byte order mark (Excel exports) and drop blank lines
+  if (rows[0]?.[0]) rows[0][0] = rows[0][0].replace(/^\uFEFF/, '');
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+function toCSVField(value: string | number | null | undefined): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Read a Q&A log CSV. Columns are located by header name, so logs exported from other trackers
+ * import as long as they have a question column.
+ */
+export function parseQALog(text: string): QALogParseResult {
+  const [headers, ...dataRows] = parseCSV(text);
+  if (!headers) {
+    return { rows: [], skipped: 0, error: 'The file is empty' };
+  }
+
+  const columns: Partial<Record<keyof QALogRow, number>> = {};
+  headers.forEach((header, index) => {
+    const key = normalize(header);
+    for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [keyof QALogRow, string[]][]) {
+      if (columns[field] === undefined && aliases.includes(key)) {
+        columns[field] = index;
+        break;
+      }
+    }
+  });
+
+  if (columns.question === undefined) {
+    return { rows: [], skipped: 0, error: 'No "Question" column found' };
+  }
+
+  const cell = (row: string[], field: keyof QALogRow): string | null => {
+    const index = columns[field];
+    const value = index === undefined ? '' : (row[index] || '').trim();
+    return value || null;
+  };
+
+  const rows: QALogRow[] = [];
+  let skipped = 0;
+
+  for (const row of dataRows) {
+    const question = cell(row, 'question');
+    if (!question) {
+      skipped++;
+      continue;
+    }
+
+    const answer = cell(row, 'answer');
+    const statusText = cell(row, 'status');
+    const priorityText = cell(row, 'priority');
+
+    rows.push({
+      reference: cell(row, 'reference'),
+      category: cell(row, 'category'),
+      question,
+      answer,
+      status: (statusText && STATUS_ALIASES[normalize(statusText)]) || undefined,
+      priority: (priorityText && PRIORITY_ALIASES[normalize(priorityText)]) || 'medium',
+      assignee: cell(row, 'assignee'),
+      document: cell(row, 'document'),
+      checklistItem: cell(row, 'checklistItem'),
+    });
+  }
+
+  return { rows, skipped, error: null };
+}
+
+/**
+ * Status for a question created from an imported row. Logs without a status are treated as
+ * answered wherever a response was filled in.
+ */
+export function importedStatus(row: QALogRow): QuestionStatus {
+  return row.status ?? (row.answer ? 'answered' : 'open');
+}
+
+/**
+ * Match imported rows to existing questions by question text, so re-importing a log returned by
+ * the seller fills in responses instead of duplicating questions. Rows that match but carry
+ * nothing new are dropped; a row without a status never changes an existing question's status.
+ */
+export function planQAImport(existing: DataRoomQuestion[], rows: QALogRow[]): QAImportPlan {
+  const byQuestion = new Map(existing.map(q => [normalize(q.question), q]));
+  const plan: QAImportPlan = { inserts: [], updates: [] };
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const key = normalize(row.question);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const match = byQuestion.get(key);
+    if (!match) {
+      plan.inserts.push(row);
+    } else if ((row.answer && row.answer !== match.answer) || (row.status && row.status !== match.status)) {
+      plan.updates.push({ id: match.id, row });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Build the Q&A log CSV for a set of questions, ordered by reference
+ */
+export function buildQALogCSV(questions: DataRoomQuestion[], lookups: QALogLookups): string {
+  const date = (value: string | null) => (value ? value.slice(0, 10) : '');
+  const lines = [...questions]
+    .sort((a, b) => a.number - b.number)
+    .map(q =>
+      [
+        formatQuestionRef(q.number),
+        q.category,
+        q.question,
+        q.document_id ? lookups.documents[q.document_id] : '',
+        q.checklist_item_id ? lookups.checklistItems[q.checklist_item_id] : '',
+        QUESTION_PRIORITY_LABELS[q.priority],
+        QUESTION_STATUS_LABELS[q.status],
+        q.assignee_id ? lookups.assignees[q.assignee_id] : '',
+        date(q.created_at),
+        q.answer,
+        date(q.answered_at),
+      ]
+        .map(toCSVField)
+        .join(',')
+    );
+
+  return [QA_LOG_COLUMNS.join(','), ...lines].join('\r\n');
+}
+
+/**
+ * Download a company's Q&A log as CSV
+ */
+export function exportQALog(companyName: string, questions: DataRoomQuestion[], lookups: QALogLookups): void {
+  const blob = new Blob(['\uFEFF' + buildQALogCSV(questions, lookups)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${companyName.replace(/[^a-zA-Z0-9]+/g, '_')}_QA_Log_${new Date().toISOString().split('T')[0]}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Look up a team member or document by the name written in an imported log (case-insensitive)
+ */
+export function findByName<T extends { id: string; name: string }>(items: T[], name: string | null): string | null {
+  if (!name) return null;
+  const key = normalize(name);
+  return items.find(item => normalize(item.name) === key)?.id ?? null;
+}
+
+export function summarizeQuestions(questions: DataRoomQuestion[]): QASummary {
+  return {
+    total: questions.length,
+    open: questions.filter(q => q.status === 'open').length,
+    answered: questions.filter(q => q.status === 'answered').length,
+    closed: questions.filter(q => q.status === 'closed').length,
+    highPriorityOpen: questions.filter(q => q.status === 'open' && q.priority === 'high').length,
+  };
+}
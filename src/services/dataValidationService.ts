@@ -3,11 +3,14 @@
  * Validates all portfolio data comes from real Polygon API sources
  */
 
+import { findPriceJumps, PRICE_JUMP_THRESHOLD, type CorporateAction, type PriceJump } from './corporateActionService';
+
 // Types
 export interface DataValidationResult {
   isValid: boolean;
   issues: string[];
   dataQuality: 'high' | 'medium' | 'low';
+  priceJumps?: PriceJump[]; // Large one-day moves, with the corporate action explaining each if known
 }
 
 export interface MetricsValidationResult {
@@ -63,12 +66,14 @@ export interface OHLCVBar {
 // Validation Functions
 
 /**
- * Validates ticker data has valid OHLCV bars with realistic values
+ * Validates ticker data has valid OHLCV bars with realistic values.
+ * Known splits and dividends tell a corporate action apart from a crash or a bad print.
  */
 export function validateTickerData(
   ticker: string,
   data: OHLCVBar[],
-  expectedDateRange?: { start: Date; end: Date }
+  expectedDateRange?: { start: Date; end: Date },
+  corporateActions: CorporateAction[] = []
 ): DataValidationResult {
   const issues: string[] = [];
   let qualityScore = 100;
@@ -137,6 +142,30 @@ export function validateTickerData(
     qualityScore -= 15;
   }
 
+  // Check large one-day moves against known corporate actions
+  const priceJumps = findPriceJumps(
+    data.map(b => ({ date: new Date(b.t).toISOString().split('T')[0], close: b.c })),
+    corporateActions
+  );
+  const unadjustedSplits = priceJumps.filter(j => j.action?.type === 'split');
+  const unexplained = priceJumps.filter(j => !j.action);
+
+  // A move matching a split ratio means the history was not split-adjusted, so its returns are wrong
+  if (unadjustedSplits.length > 0) {
+    const splits = unadjustedSplits.map(j => `${+j.action!.value.toFixed(4)}-for-1 split on ${j.date}`);
+    issues.push(`Prices not split-adjusted around ${splits.join(', ')}`);
+    qualityScore -= 15;
+  }
+
+  if (unexplained.length > 0) {
+    const largest = unexplained.reduce((a, b) => (Math.abs(b.change) > Math.abs(a.change) ? b : a));
+    issues.push(
+      `${unexplained.length} one-day ${unexplained.length === 1 ? 'move' : 'moves'} over ${PRICE_JUMP_THRESHOLD * 100}% with no known split or dividend ` +
+        `(largest ${(largest.change * 100).toFixed(1)}% on ${largest.date})`
+    );
+    qualityScore -= 10;
+  }
+
   // Check date range if provided
   if (expectedDateRange && data.length > 0) {
     const firstDate = new Date(data[0].t);
@@ -185,7 +214,8 @@ export function validateTickerData(
   return {
     isValid,
     issues,
-    dataQuality
+    dataQuality,
+    priceJumps
   };
 }
 
@@ -2,18 +2,23 @@
 // Generates risk-return tradeoff curve for portfolio optimization
 // Aligned with Portfolio Visualizer methodology
 
-import { CorrelationMatrix } from './backtesterService';
-import { AssetData } from './portfolioOptimizer';
+import type { CorrelationMatrix } from './backtesterService';
+import type { AssetData } from './portfolioOptimizer';
 import { EfficientFrontierPoint } from '@/types/portfolio';
+import type { ConcentrationLimits } from '@/types/investorPolicy';
+import { Rng, createRng, hashSeed } from './seededRandom';
+import { QPResult, solveQuadraticProgram } from './quadraticProgramService';
+import { covarianceFromCorrelation } from './covarianceEstimationService';
 
 const NUM_FRONTIER_POINTS = 50;
+const MAX_SOLVER_ITERATIONS = 2000;
 const RISK_FREE_RATE = 0.05; // 5% annual
 
 /**
  * Generate random portfolio weights
  */
-function generateRandomWeights(n: number): number[] {
-  const weights = Array(n).fill(0).map(() => Math.random());
+function generateRandomWeights(n: number, rng: Rng): number[] {
+  const weights = Array(n).fill(0).map(() => rng());
   const sum = weights.reduce((a, b) => a + b, 0);
   return weights.map(w => w / sum);
 }
@@ -42,39 +47,35 @@ function portfolioRisk(weights: number[], covariance: number[][]): number {
   return Math.sqrt(Math.max(0, variance));
 }
 
-/**
- * Convert correlation matrix to covariance using volatilities
- * Cov(i,j) = Corr(i,j) * σi * σj
- */
-function correlationToCovariance(
+function resolveCovariance(
   correlationMatrix: CorrelationMatrix,
-  assetData: Map<string, AssetData>
+  assetData: Map<string, AssetData>,
+  covariance?: number[][]
 ): number[][] {
-  const { symbols, matrix } = correlationMatrix;
-  const n = symbols.length;
-  const covariance: number[][] = [];
-  
-  for (let i = 0; i < n; i++) {
-    covariance[i] = [];
-    const volI = assetData.get(symbols[i])?.volatility || 0.2;
-    
-    for (let j = 0; j < n; j++) {
-      const volJ = assetData.get(symbols[j])?.volatility || 0.2;
-      covariance[i][j] = matrix[i][j] * volI * volJ;
-    }
+  if (!covariance) return covarianceFromCorrelation(correlationMatrix, assetData);
+  const n = correlationMatrix.symbols.length;
+  if (covariance.length !== n || covariance.some(row => row.length !== n)) {
+    throw new Error(`Covariance matrix must be ${n}×${n} to match the correlation matrix`);
   }
-  
   return covariance;
 }
 
+export interface FrontierOptions {
+  seed?: number; // Defaults to a hash of the inputs, so the same universe gives the same frontier
+  onProgress?: (message: string, percent: number) => void;
+  covariance?: number[][]; // Annualized estimate in symbol order; defaults to correlation × volatilities
+}
+
 /**
- * Generate efficient frontier using Monte Carlo simulation
+ * Approximate the efficient frontier by sampling random long-only portfolios.
+ * Superseded by computeEfficientFrontier, which solves for the exact frontier under constraints.
  * Returns are expressed as annualized percentages
  */
 export function generateEfficientFrontier(
   correlationMatrix: CorrelationMatrix,
   assetData: Map<string, AssetData>,
-  numSimulations: number = 5000
+  numSimulations: number = 5000,
+  options: FrontierOptions = {}
 ): EfficientFrontierPoint[] {
   const { symbols } = correlationMatrix;
   const n = symbols.length;
@@ -97,14 +98,15 @@ export function generateEfficientFrontier(
   
   console.log('[EfficientFrontier] Expected returns:', expectedReturns.map(r => r.toFixed(2) + '%'));
   
-  // Convert to covariance matrix
-  const covariance = correlationToCovariance(correlationMatrix, assetData);
+  const covariance = resolveCovariance(correlationMatrix, assetData, options.covariance);
   
   // Monte Carlo simulation
+  const rng = createRng(options.seed ?? hashSeed([symbols, covariance, expectedReturns, numSimulations]));
+  const progressEvery = Math.max(1, Math.floor(numSimulations / 20));
   const portfolios: { risk: number; return: number; sharpe: number; weights: number[] }[] = [];
   
   for (let i = 0; i < numSimulations; i++) {
-    const weights = generateRandomWeights(n);
+    const weights = generateRandomWeights(n, rng);
     const ret = portfolioReturn(weights, expectedReturns);
     const risk = portfolioRisk(weights, covariance) * 100; // Convert to %
     
@@ -112,6 +114,10 @@ export function generateEfficientFrontier(
     const sharpe = risk > 0 ? (ret - 5) / risk : 0;
     
     portfolios.push({ risk, return: ret, sharpe, weights });
+    
+    if ((i + 1) % progressEvery === 0) {
+      options.onProgress?.(`Evaluated ${i + 1} of ${numSimulations} portfolios`, ((i + 1) / numSimulations) * 90);
+    }
   }
   
   // Find the efficient frontier (Pareto optimal portfolios)
@@ -170,6 +176,220 @@ export function generateEfficientFrontier(
   return frontierPoints;
 }
 
+export interface FrontierConstraints {
+  longOnly?: boolean; // Default true; when false weights may go down to -100% unless minWeights says otherwise
+  minWeights?: Record<string, number>; // Per-asset floors as fractions
+  maxWeights?: Record<string, number>; // Per-asset caps as fractions
+  concentrationLimits?: ConcentrationLimits; // maxSinglePosition caps every asset, maxSectorExposure every asset class
+  assetClasses?: Record<string, string>; // Ticker -> asset class, required for class caps
+  classCaps?: Record<string, number>; // Per-class caps as fractions, overriding maxSectorExposure
+  currentWeights?: Record<string, number>; // Holdings the turnover limit is measured against
+  maxTurnover?: number; // One-way turnover cap as a fraction: ½ Σ|w - current| ≤ maxTurnover
+}
+
+interface ResolvedConstraints {
+  lower: number[];
+  upper: number[];
+  classes: { name: string; members: number[]; cap: number }[];
+  current: number[] | null;
+  maxTurnover: number;
+}
+
+function resolveConstraints(symbols: string[], constraints: FrontierConstraints): ResolvedConstraints {
+  const longOnly = constraints.longOnly !== false;
+  const singleCap = constraints.concentrationLimits?.maxSinglePosition !== undefined
+    ? constraints.concentrationLimits.maxSinglePosition / 100
+    : 1;
+  const lower = symbols.map(s => constraints.minWeights?.[s] ?? (longOnly ? 0 : -1));
+  const upper = symbols.map(s => Math.min(constraints.maxWeights?.[s] ?? 1, singleCap));
+
+  const classes: ResolvedConstraints['classes'] = [];
+  if (constraints.assetClasses) {
+    const members = new Map<string, number[]>();
+    symbols.forEach((s, i) => {
+      const assetClass = constraints.assetClasses![s];
+      if (!assetClass) return;
+      if (!members.has(assetClass)) members.set(assetClass, []);
+      members.get(assetClass)!.push(i);
+    });
+    members.forEach((indices, name) => {
+      const cap = constraints.classCaps?.[name] ?? (constraints.concentrationLimits ? constraints.concentrationLimits.maxSectorExposure / 100 : undefined);
+      if (cap !== undefined) classes.push({ name, members: indices, cap });
+    });
+  }
+
+  const hasTurnover = constraints.maxTurnover !== undefined && constraints.currentWeights !== undefined;
+  return {
+    lower,
+    upper,
+    classes,
+    current: hasTurnover ? symbols.map(s => constraints.currentWeights![s] ?? 0) : null,
+    maxTurnover: constraints.maxTurnover ?? Infinity,
+  };
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+/**
+ * Readable reasons why no fully-invested portfolio can satisfy the constraints.
+ * Turnover feasibility depends on the holdings and is left to the solver.
+ */
+export function frontierConstraintErrors(symbols: string[], constraints: FrontierConstraints): string[] {
+  const { lower, upper, classes } = resolveConstraints(symbols, constraints);
+  const errors: string[] = [];
+
+  symbols.forEach((s, i) => {
+    if (lower[i] > upper[i] + 1e-12) errors.push(`${s}: minimum weight ${pct(lower[i])} exceeds maximum ${pct(upper[i])}`);
+  });
+  const totalLower = lower.reduce((a, b) => a + b, 0);
+  const totalUpper = upper.reduce((a, b) => a + b, 0);
+  if (totalLower > 1 + 1e-9) errors.push(`Minimum weights add up to ${pct(totalLower)}, more than 100%`);
+  if (totalUpper < 1 - 1e-9) errors.push(`Maximum weights add up to only ${pct(totalUpper)} across ${symbols.length} assets`);
+
+  let investable = 0;
+  const classed = new Set<number>();
+  classes.forEach(({ name, members, cap }) => {
+    const classLower = members.reduce((sum, i) => sum + lower[i], 0);
+    if (classLower > cap + 1e-9) errors.push(`${name}: minimum weights of ${pct(classLower)} exceed the ${pct(cap)} class cap`);
+    investable += Math.min(cap, members.reduce((sum, i) => sum + upper[i], 0));
+    members.forEach(i => classed.add(i));
+  });
+  if (classes.length > 0) {
+    symbols.forEach((_, i) => { if (!classed.has(i)) investable += upper[i]; });
+    if (investable < 1 - 1e-9 && totalUpper >= 1 - 1e-9) {
+      errors.push(`Asset-class caps leave only ${pct(investable)} of the portfolio investable`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build the QP for weights w (plus buy/sell legs b, s when turnover is limited):
+ *   Σw = 1, lower ≤ w ≤ upper, Σ_class w ≤ cap, w - b + s = current, b, s ≥ 0, Σ(b + s) ≤ 2·maxTurnover,
+ * with an optional minimum-return row μ'w ≥ target as the last constraint
+ */
+function buildFrontierProgram(
+  covariance: number[][],
+  expectedReturns: number[],
+  resolved: ResolvedConstraints
+) {
+  const n = expectedReturns.length;
+  const size = resolved.current ? 3 * n : n;
+  const row = (entries: [number, number][]) => {
+    const r = new Array(size).fill(0);
+    entries.forEach(([j, v]) => { r[j] = v; });
+    return r;
+  };
+
+  const A: number[][] = [];
+  const l: number[] = [];
+  const u: number[] = [];
+  const addRow = (r: number[], lo: number, hi: number) => { A.push(r); l.push(lo); u.push(hi); };
+  const assets = Array.from({ length: n }, (_, i) => i);
+
+  addRow(row(assets.map(i => [i, 1])), 1, 1);
+  assets.forEach(i => addRow(row([[i, 1]]), resolved.lower[i], resolved.upper[i]));
+  resolved.classes.forEach(c => addRow(row(c.members.map(i => [i, 1])), -Infinity, c.cap));
+
+  if (resolved.current) {
+    assets.forEach(i => addRow(row([[i, 1], [n + i, -1], [2 * n + i, 1]]), resolved.current![i], resolved.current![i]));
+    assets.forEach(i => addRow(row([[n + i, 1]]), 0, Infinity));
+    assets.forEach(i => addRow(row([[2 * n + i, 1]]), 0, Infinity));
+    addRow(row(Array.from({ length: 2 * n }, (_, k) => [n + k, 1])), -Infinity, 2 * resolved.maxTurnover);
+  }
+
+  addRow(row(assets.map(i => [i, expectedReturns[i]])), -Infinity, Infinity);
+
+  const P = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => (i < n && j < n ? covariance[i][j] : 0))
+  );
+  return { P, A, l, u };
+}
+
+/**
+ * Compute the exact mean-variance efficient frontier: the minimum-variance portfolio for
+ * evenly spaced target returns between the global minimum-variance and maximum-return
+ * portfolios, subject to the given constraints. Returns are annualized percentages.
+ */
+export function computeEfficientFrontier(
+  correlationMatrix: CorrelationMatrix,
+  assetData: Map<string, AssetData>,
+  constraints: FrontierConstraints = {},
+  options: Omit<FrontierOptions, 'seed'> & { numPoints?: number } = {}
+): EfficientFrontierPoint[] {
+  const { symbols } = correlationMatrix;
+  const n = symbols.length;
+  if (n === 0) return [];
+
+  const errors = frontierConstraintErrors(symbols, constraints);
+  if (errors.length > 0) throw new Error(`Constraints are infeasible: ${errors.join('; ')}`);
+
+  const numPoints = options.numPoints ?? NUM_FRONTIER_POINTS;
+  const expectedReturns = symbols.map(s => assetData.get(s)?.avgReturn ?? 0.08);
+  const covariance = resolveCovariance(correlationMatrix, assetData, options.covariance);
+  const { P, A, l, u } = buildFrontierProgram(covariance, expectedReturns, resolveConstraints(symbols, constraints));
+  const returnRow = A.length - 1;
+  const zero = new Array(P.length).fill(0);
+
+  const solve = (q: number[], objective: number[][], targetReturn: number, warm?: QPResult) => {
+    const lower = [...l];
+    lower[returnRow] = targetReturn;
+    const result = solveQuadraticProgram(
+      { P: objective, q, A, l: lower, u },
+      { maxIterations: MAX_SOLVER_ITERATIONS, warmStart: warm ? { x: warm.x, y: warm.y } : undefined }
+    );
+    if (result.status === 'infeasible') {
+      throw new Error('Constraints are infeasible: no portfolio satisfies the turnover limit together with the weight limits');
+    }
+    return result;
+  };
+
+  // Anchor the frontier at the minimum-variance and maximum-return portfolios. Maximum return
+  // is a linear program, reached by shrinking a variance penalty so each step stays well
+  // conditioned; the final sliver of variance picks the least risky of any tied portfolios.
+  const minVariance = solve(zero, P, -Infinity);
+  const negativeReturns = expectedReturns.map(r => -r).concat(zero.slice(n));
+  let maxReturn = minVariance;
+  for (const riskAversion of [1, 1e-1, 1e-2, 1e-3, 1e-4, 1e-6]) {
+    maxReturn = solve(negativeReturns, P.map(r => r.map(v => v * riskAversion)), -Infinity, maxReturn);
+  }
+  const lowReturn = expectedReturns.reduce((sum, r, i) => sum + r * minVariance.x[i], 0);
+  const highReturn = expectedReturns.reduce((sum, r, i) => sum + r * maxReturn.x[i], 0);
+  options.onProgress?.('Solved minimum-variance and maximum-return portfolios', 10);
+
+  const points: EfficientFrontierPoint[] = [];
+  const steps = highReturn - lowReturn > 1e-9 ? numPoints : 1;
+  let previous = minVariance;
+
+  for (let k = 0; k < steps; k++) {
+    const target = lowReturn + ((highReturn - lowReturn) * k) / Math.max(steps - 1, 1);
+    let result = k === 0 ? minVariance : k === steps - 1 ? maxReturn : solve(zero, P, target, previous);
+    // Close to the maximum-return corner its active set is the better starting guess
+    if (result.status !== 'solved') result = solve(zero, P, target, maxReturn);
+    options.onProgress?.(`Solved ${k + 1} of ${steps} frontier portfolios`, 10 + ((k + 1) / steps) * 90);
+    // Near-degenerate targets that did not converge are left out rather than shown inexactly
+    if (result.status !== 'solved') continue;
+    previous = result;
+
+    const weights = result.x.slice(0, n).map(w => (Math.abs(w) < 1e-9 ? 0 : w));
+    const ret = portfolioReturn(weights, expectedReturns) * 100;
+    const risk = portfolioRisk(weights, covariance) * 100;
+    const weightsMap = new Map<string, number>();
+    weights.forEach((w, i) => weightsMap.set(symbols[i], w));
+
+    points.push({
+      risk,
+      return: ret,
+      sharpe: risk > 0 ? (ret - RISK_FREE_RATE * 100) / risk : 0,
+      weights: weightsMap,
+    });
+  }
+
+  console.log('[EfficientFrontier] Solved', points.length, 'constrained frontier points');
+  return points;
+}
+
 /**
  * Find optimal portfolio on the efficient frontier for a given risk tolerance
  */
@@ -60,129 +60,212 @@ export interface SymbolSearchResult {
   description: string;
 }
 
-async function proxyInvoke<T>(action: string, body: Record<string, unknown>): Promise<T | null> {
-  try {
-    const { data, error } = await supabase.functions.invoke('finnhub-proxy', {
-      body: { action, ...body },
-    });
+/**
+ * Call the backend proxy; throws when the call fails or the proxy reports an error
+ */
+async function proxyRequest<T>(action: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('finnhub-proxy', {
+    body: { action, ...body },
+  });
 
-    if (error) {
-      console.error('[Finnhub Proxy] invoke error:', error);
-      return null;
-    }
+  if (error) throw new Error(error.message || `Finnhub proxy ${action} failed`);
 
-    // shape: { ok: boolean, ... }
-    if (data?.ok) {
-      markProxyOk();
-      return data as T;
-    }
+  // shape: { ok: boolean, ... }
+  if (!data?.ok) throw new Error(data?.error || `Finnhub proxy ${action} failed`);
+
+  markProxyOk();
+  return data as T;
+}
 
-    return data as T;
+async function proxyInvoke<T>(action: string, body: Record<string, unknown>): Promise<T | null> {
+  try {
+    return await proxyRequest<T>(action, body);
   } catch (e) {
-    console.error('[Finnhub Proxy] invoke exception:', e);
+    console.error('[Finnhub Proxy] invoke error:', e);
     return null;
   }
 }
 
 /**
- * Get a single stock quote from Finnhub
+ * Call the Finnhub REST API directly with the client key, waiting out the per-minute limit
  */
-export async function getQuote(symbol: string): Promise<StockQuote | null> {
-  if (!API_CONFIG.ENABLE_MARKET_DATA) {
-    console.log('[Finnhub] Market data disabled via kill switch');
-    return null;
+async function directRequest<T>(path: string): Promise<T> {
+  if (!rateLimiter.canCall()) {
+    console.log('[RATE LIMITED] Finnhub - waiting...');
+    await new Promise(r => setTimeout(r, 1000));
   }
+  rateLimiter.recordCall();
 
+  const separator = path.includes('?') ? '&' : '?';
+  const response = await fetch(`${BASE_URL}${path}${separator}token=${FINNHUB_API_KEY}`);
+  if (!response.ok) throw new Error(`Finnhub request failed: ${response.status}`);
+  return response.json();
+}
+
+function assertEnabled() {
+  if (!API_CONFIG.ENABLE_MARKET_DATA) throw new Error('Market data is disabled');
+}
+
+interface FinnhubProfile {
+  name: string;
+  ticker: string;
+  marketCap: number;
+  exchange: string;
+  industry: string;
+}
+
+/**
+ * Quote from Finnhub, or null when it has none for the symbol. Throws when the request fails.
+ */
+export async function fetchQuote(symbol: string): Promise<StockQuote | null> {
+  assertEnabled();
   const upper = symbol.toUpperCase();
 
   // Prefer direct client-side calls if a client key exists (dev/local).
   if (FINNHUB_API_KEY) {
-    if (!rateLimiter.canCall()) {
-      console.log('[RATE LIMITED] Finnhub - waiting...');
-      await new Promise(r => setTimeout(r, 1000));
-    }
+    const data = await directRequest<{ c: number; d: number; dp: number; h: number; l: number; o: number; pc: number; t: number }>(
+      `/quote?symbol=${upper}`
+    );
+    if (!data || data.c === 0) return null;
+
+    return {
+      symbol: upper,
+      price: data.c,
+      change: data.d || 0,
+      changePercent: data.dp || 0,
+      high: data.h,
+      low: data.l,
+      open: data.o,
+      previousClose: data.pc,
+      timestamp: data.t * 1000,
+      companyName: upper,
+    };
+  }
 
-    rateLimiter.recordCall();
+  // Otherwise, use the backend proxy (keeps the key off the client).
+  const res = await proxyRequest<{ ok: boolean; quote: StockQuote | null }>('quote', { symbol: upper });
+  return res.quote ?? null;
+}
 
-    try {
-      const response = await fetch(`${BASE_URL}/quote?symbol=${upper}&token=${FINNHUB_API_KEY}`);
+/**
+ * Company profile from Finnhub, or null when it has none. Throws when the request fails.
+ */
+export async function fetchCompanyProfile(symbol: string): Promise<FinnhubProfile | null> {
+  assertEnabled();
+  const upper = symbol.toUpperCase();
 
-      if (!response.ok) {
-        console.error('[Finnhub] Quote request failed:', response.status);
-        return null;
-      }
+  if (FINNHUB_API_KEY) {
+    const data = await directRequest<{ name?: string; ticker: string; marketCapitalization: number; exchange: string; finnhubIndustry: string }>(
+      `/stock/profile2?symbol=${upper}`
+    );
+    if (!data || !data.name) return null;
+
+    return {
+      name: data.name,
+      ticker: data.ticker,
+      marketCap: data.marketCapitalization * 1000000,
+      exchange: data.exchange,
+      industry: data.finnhubIndustry,
+    };
+  }
 
-      const data = await response.json();
-      if (!data || data.c === 0) {
-        console.warn('[Finnhub] No data for symbol:', symbol);
-        return null;
-      }
+  const res = await proxyRequest<{ ok: boolean; profile: FinnhubProfile | null }>('profile', { symbol: upper });
+  return res.profile ?? null;
+}
 
-      return {
-        symbol: upper,
-        price: data.c,
-        change: data.d || 0,
-        changePercent: data.dp || 0,
-        high: data.h,
-        low: data.l,
-        open: data.o,
-        previousClose: data.pc,
-        timestamp: data.t * 1000,
-        companyName: upper,
-      };
-    } catch (error) {
-      console.error('[Finnhub] Quote error:', error);
-      return null;
+/**
+ * Quotes for several symbols; symbols Finnhub has no data for are left out. Throws when nothing could be fetched.
+ */
+export async function fetchBatchQuotes(symbols: string[]): Promise<Map<string, StockQuote>> {
+  assertEnabled();
+  const results = new Map<string, StockQuote>();
+  const upperSymbols = symbols.map(s => s.toUpperCase());
+
+  // If we have a client key, fetch in chunks of 10.
+  if (FINNHUB_API_KEY) {
+    let firstError: unknown = null;
+    for (let i = 0; i < upperSymbols.length; i += 10) {
+      const chunk = upperSymbols.slice(i, i + 10);
+      const quotes = await Promise.all(
+        chunk.map(s =>
+          fetchQuote(s).catch(e => {
+            firstError ??= e;
+            return null;
+          })
+        )
+      );
+      quotes.forEach((q, j) => {
+        if (q) results.set(chunk[j], q);
+      });
+
+      if (i + 10 < upperSymbols.length) {
+        await new Promise(r => setTimeout(r, 200));
+      }
     }
+    if (results.size === 0 && firstError) throw firstError;
+    return results;
   }
 
-  // Otherwise, use the backend proxy (keeps the key off the client).
-  const res = await proxyInvoke<{ ok: boolean; quote: StockQuote | null }>('quote', { symbol: upper });
-  return res?.quote ?? null;
+  // Otherwise, use backend proxy batch.
+  const res = await proxyRequest<{ ok: boolean; quotes: Record<string, StockQuote> }>('batch', { symbols: upperSymbols });
+  for (const [sym, q] of Object.entries(res.quotes || {})) {
+    if (q) results.set(sym.toUpperCase(), q);
+  }
+  return results;
 }
 
 /**
- * Get company profile for extended info
+ * Symbol search. Throws when the request fails.
  */
-export async function getCompanyProfile(symbol: string): Promise<{
-  name: string;
-  ticker: string;
-  marketCap: number;
-  exchange: string;
-  industry: string;
-} | null> {
-  if (!API_CONFIG.ENABLE_MARKET_DATA) return null;
-
-  const upper = symbol.toUpperCase();
+export async function fetchSymbolSearch(query: string): Promise<SymbolSearchResult[]> {
+  assertEnabled();
+  if (!query) return [];
 
   if (FINNHUB_API_KEY) {
-    if (!rateLimiter.canCall()) {
-      await new Promise(r => setTimeout(r, 1000));
-    }
-    rateLimiter.recordCall();
-
-    try {
-      const response = await fetch(`${BASE_URL}/stock/profile2?symbol=${upper}&token=${FINNHUB_API_KEY}`);
-      if (!response.ok) return null;
-
-      const data = await response.json();
-      if (!data || !data.name) return null;
-
-      return {
-        name: data.name,
-        ticker: data.ticker,
-        marketCap: data.marketCapitalization * 1000000,
-        exchange: data.exchange,
-        industry: data.finnhubIndustry,
-      };
-    } catch (error) {
-      console.error('[Finnhub] Profile error:', error);
-      return null;
-    }
+    const data = await directRequest<{ result?: { symbol: string; description: string }[] }>(
+      `/search?q=${encodeURIComponent(query)}`
+    );
+    return (data.result || []).slice(0, 10).map(r => ({
+      symbol: r.symbol,
+      description: r.description,
+    }));
+  }
+
+  const res = await proxyRequest<{ ok: boolean; results: SymbolSearchResult[] }>('search', { query });
+  return res.results || [];
+}
+
+/**
+ * Get a single stock quote from Finnhub
+ */
+export async function getQuote(symbol: string): Promise<StockQuote | null> {
+  if (!API_CONFIG.ENABLE_MARKET_DATA) {
+    console.log('[Finnhub] Market data disabled via kill switch');
+    return null;
+  }
+
+  try {
+    const quote = await fetchQuote(symbol);
+    if (!quote) console.warn('[Finnhub] No data for symbol:', symbol);
+    return quote;
+  } catch (error) {
+    console.error('[Finnhub] Quote error:', error);
+    return null;
   }
+}
 
-  const res = await proxyInvoke<{ ok: boolean; profile: any | null }>('profile', { symbol: upper });
-  return res?.profile ?? null;
+/**
+ * Get company profile for extended info
+ */
+export async function getCompanyProfile(symbol: string): Promise<FinnhubProfile | null> {
+  if (!API_CONFIG.ENABLE_MARKET_DATA) return null;
+
+  try {
+    return await fetchCompanyProfile(symbol);
+  } catch (error) {
+    console.error('[Finnhub] Profile error:', error);
+    return null;
+  }
 }
 
 /**
@@ -203,35 +286,12 @@ export async function getFullQuote(symbol: string): Promise<StockQuote | null> {
  * Get quotes for multiple symbols
  */
 export async function getBatchQuotes(symbols: string[]): Promise<Map<string, StockQuote>> {
-  const results = new Map<string, StockQuote>();
-  const upperSymbols = symbols.map(s => s.toUpperCase());
-
-  // If we have a client key, reuse the existing chunked approach.
-  if (FINNHUB_API_KEY) {
-    const chunks: string[][] = [];
-    for (let i = 0; i < upperSymbols.length; i += 10) chunks.push(upperSymbols.slice(i, i + 10));
-
-    for (const chunk of chunks) {
-      const quotes = await Promise.all(chunk.map(s => getQuote(s)));
-      quotes.forEach((q, i) => {
-        if (q) results.set(chunk[i].toUpperCase(), q);
-      });
-
-      if (chunks.indexOf(chunk) < chunks.length - 1) {
-        await new Promise(r => setTimeout(r, 200));
-      }
-    }
-
-    return results;
-  }
-
-  // Otherwise, use backend proxy batch.
-  const res = await proxyInvoke<{ ok: boolean; quotes: Record<string, StockQuote> }>('batch', { symbols: upperSymbols });
-  const quotesObj = res?.quotes || {};
-  for (const [sym, q] of Object.entries(quotesObj)) {
-    if (q) results.set(sym.toUpperCase(), q);
+  try {
+    return await fetchBatchQuotes(symbols);
+  } catch (error) {
+    console.error('[Finnhub] Batch quote error:', error);
+    return new Map();
   }
-  return results;
 }
 
 /**
@@ -240,27 +300,12 @@ export async function getBatchQuotes(symbols: string[]): Promise<Map<string, Sto
 export async function searchSymbol(query: string): Promise<SymbolSearchResult[]> {
   if (!API_CONFIG.ENABLE_MARKET_DATA || !query) return [];
 
-  if (FINNHUB_API_KEY) {
-    if (!rateLimiter.canCall()) return [];
-    rateLimiter.recordCall();
-
-    try {
-      const response = await fetch(`${BASE_URL}/search?q=${encodeURIComponent(query)}&token=${FINNHUB_API_KEY}`);
-      if (!response.ok) return [];
-
-      const data = await response.json();
-      return (data.result || []).slice(0, 10).map((r: any) => ({
-        symbol: r.symbol,
-        description: r.description,
-      }));
-    } catch (error) {
-      console.error('[Finnhub] Search error:', error);
-      return [];
-    }
+  try {
+    return await fetchSymbolSearch(query);
+  } catch (error) {
+    console.error('[Finnhub] Search error:', error);
+    return [];
   }
-
-  const res = await proxyInvoke<{ ok: boolean; results: SymbolSearchResult[] }>('search', { query });
-  return res?.results || [];
 }
 
 /**
@@ -287,58 +332,70 @@ export interface CandleData {
 }
 
 /**
- * Get historical candle data for a symbol
+ * Historical candles, or an empty list when Finnhub has none for the range. Throws when the request fails.
  * @param symbol - Stock symbol
  * @param resolution - D (daily), W (weekly), M (monthly)
  * @param from - Start timestamp (Unix seconds)
  * @param to - End timestamp (Unix seconds)
  */
-export async function getCandles(
+export async function fetchCandles(
   symbol: string,
   resolution: string,
   from: number,
   to: number
 ): Promise<CandleData[]> {
-  if (!API_CONFIG.ENABLE_MARKET_DATA) {
-    console.log('[Finnhub] Market data disabled via kill switch');
-    throw new Error('Market data is disabled');
-  }
+  assertEnabled();
 
   const upper = symbol.toUpperCase();
   console.log(`[Finnhub] Fetching candles for ${upper} from ${new Date(from * 1000).toISOString().split('T')[0]} to ${new Date(to * 1000).toISOString().split('T')[0]}`);
 
   // Use the edge function for candles
-  try {
-    const { data, error } = await supabase.functions.invoke('finnhub-candles', {
-      body: { symbol: upper, resolution, from, to },
+  const { data, error } = await supabase.functions.invoke('finnhub-candles', {
+    body: { symbol: upper, resolution, from, to },
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch candles: ${error.message}`);
+  }
+
+  // Finnhub returns { s: 'ok', c: [], o: [], h: [], l: [], v: [], t: [] }
+  if (!data || data.s !== 'ok' || !data.c || data.c.length === 0) {
+    return [];
+  }
+
+  const candles: CandleData[] = [];
+  for (let i = 0; i < data.c.length; i++) {
+    const date = new Date(data.t[i] * 1000);
+    candles.push({
+      date: date.toISOString().split('T')[0],
+      open: data.o[i],
+      high: data.h[i],
+      low: data.l[i],
+      close: data.c[i],
+      volume: data.v[i],
+      timestamp: data.t[i],
     });
+  }
 
-    if (error) {
-      console.error('[Finnhub] Candles error:', error);
-      throw new Error(`Failed to fetch candles: ${error.message}`);
-    }
+  console.log(`[Finnhub] Retrieved ${candles.length} candles for ${upper}`);
+  return candles;
+}
 
-    // Finnhub returns { s: 'ok', c: [], o: [], h: [], l: [], v: [], t: [] }
-    if (!data || data.s !== 'ok' || !data.c || data.c.length === 0) {
+/**
+ * Get historical candle data for a symbol; throws when there is none
+ */
+export async function getCandles(
+  symbol: string,
+  resolution: string,
+  from: number,
+  to: number
+): Promise<CandleData[]> {
+  try {
+    const candles = await fetchCandles(symbol, resolution, from, to);
+    if (candles.length === 0) {
       console.warn('[Finnhub] No candle data for symbol:', symbol);
       throw new Error(`No historical data available for ${symbol}`);
     }
-
-    const candles: CandleData[] = [];
-    for (let i = 0; i < data.c.length; i++) {
-      const date = new Date(data.t[i] * 1000);
-      candles.push({
-        date: date.toISOString().split('T')[0],
-        open: data.o[i],
-        high: data.h[i],
-        low: data.l[i],
-        close: data.c[i],
-        volume: data.v[i],
-        timestamp: data.t[i],
-      });
-    }
-
-    console.log(`[Finnhub] Retrieved ${candles.length} candles for ${upper}`);
     return candles;
   } catch (error) {
     console.error('[Finnhub] Candles error:', error);
@@ -346,6 +403,45 @@ export async function getCandles(
   }
 }
 
+/**
+ * Dividend and split history for backtests
+ */
+export interface FinnhubDividend {
+  date: string; // Ex-dividend date
+  amount: number; // Cash per share as paid
+  adjustedAmount: number; // Cash per share restated for later splits
+}
+
+export interface FinnhubSplit {
+  date: string;
+  fromFactor: number;
+  toFactor: number; // 2-for-1: fromFactor 1, toFactor 2
+}
+
+/**
+ * Get dividends and splits for a symbol between two dates (YYYY-MM-DD).
+ * Returns empty lists when the data is unavailable so backtests can run price-only.
+ */
+export async function getCorporateActions(
+  symbol: string,
+  from: string,
+  to: string
+): Promise<{ dividends: FinnhubDividend[]; splits: FinnhubSplit[] }> {
+  if (!API_CONFIG.ENABLE_MARKET_DATA) {
+    return { dividends: [], splits: [] };
+  }
+
+  const res = await proxyInvoke<{ ok: boolean; dividends?: FinnhubDividend[]; splits?: FinnhubSplit[] }>(
+    'corporate_actions',
+    { symbol: symbol.toUpperCase(), from, to }
+  );
+
+  return {
+    dividends: res?.ok ? res.dividends || [] : [],
+    splits: res?.ok ? res.splits || [] : [],
+  };
+}
+
 /**
  * Check if Finnhub API is configured
  * - true if a client key exists (local/dev)
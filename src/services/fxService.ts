@@ -0,0 +1,168 @@
+// FX Service - Currency conversion for holdings priced outside the base currency
+// Spot rates come from the forex quote feed; daily history from the bar store's Polygon C:XXXUSD pairs
+
+import { format, subDays } from 'date-fns';
+import { barStore } from './barStoreService';
+
+// The currencies the forex feed quotes against USD
+export const CURRENCIES = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'NZD', name: 'New Zealand Dollar' },
+] as const;
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Exchange suffixes on foreign listings and the currency they trade in
+const LISTING_CURRENCIES: Record<string, string> = {
+  L: 'GBP',
+  TO: 'CAD',
+  V: 'CAD',
+  NE: 'CAD',
+  PA: 'EUR',
+  DE: 'EUR',
+  F: 'EUR',
+  AS: 'EUR',
+  MI: 'EUR',
+  MC: 'EUR',
+  BR: 'EUR',
+  T: 'JPY',
+  SW: 'CHF',
+  AX: 'AUD',
+  NZ: 'NZD',
+};
+
+export interface FxQuote {
+  base?: string;
+  quote?: string;
+  price: number;
+}
+
+interface RatePoint {
+  date: string; // yyyy-MM-dd
+  usd: number; // USD per unit of the currency
+}
+
+/**
+ * Trading currency implied by a symbol's exchange suffix (SHEL.L → GBP). US listings, ADRs
+ * and crypto quoted against the dollar have no suffix and trade in USD.
+ */
+export function inferListingCurrency(symbol: string): string {
+  const dot = symbol.lastIndexOf('.');
+  if (dot <= 0) return DEFAULT_CURRENCY;
+  return LISTING_CURRENCIES[symbol.slice(dot + 1).toUpperCase()] ?? DEFAULT_CURRENCY;
+}
+
+export function formatMoney(value: number, currency: string, compact = false): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    notation: compact ? 'compact' : 'standard',
+    maximumFractionDigits: compact ? 1 : 0,
+  }).format(value);
+}
+
+/**
+ * Polygon ticker for a currency's daily USD rate
+ */
+export function fxPairTicker(currency: string): string {
+  return `C:${currency.toUpperCase()}USD`;
+}
+
+/**
+ * Exchange rates held as USD per unit of each currency, with daily history. Any pair is
+ * crossed through USD; a rate on a date is the latest one on or before it.
+ */
+export class FxRates {
+  private history = new Map<string, RatePoint[]>();
+
+  constructor() {
+    this.history.set(DEFAULT_CURRENCY, [{ date: '0000-01-01', usd: 1 }]);
+  }
+
+  /**
+   * Spot rates from forex quotes; pairs against USD in either direction are used, crosses are not
+   */
+  static fromQuotes(quotes: FxQuote[], date: string = format(new Date(), 'yyyy-MM-dd')): FxRates {
+    const rates = new FxRates();
+    for (const q of quotes) {
+      if (!(q.price > 0)) continue;
+      if (q.quote === DEFAULT_CURRENCY && q.base) rates.set(q.base, [{ date, usd: q.price }]);
+      else if (q.base === DEFAULT_CURRENCY && q.quote) rates.set(q.quote, [{ date, usd: 1 / q.price }]);
+    }
+    return rates;
+  }
+
+  set(currency: string, points: RatePoint[]): this {
+    const code = currency.toUpperCase();
+    if (code === DEFAULT_CURRENCY) return this;
+    const merged = new Map((this.history.get(code) ?? []).map(p => [p.date, p]));
+    points.filter(p => p.usd > 0).forEach(p => merged.set(p.date, p));
+    this.history.set(code, [...merged.values()].sort((a, b) => a.date.localeCompare(b.date)));
+    return this;
+  }
+
+  has(currency: string): boolean {
+    return (this.history.get(currency.toUpperCase())?.length ?? 0) > 0;
+  }
+
+  /**
+   * Units of `to` per unit of `from`, on the date or the latest known; null without rates for both
+   */
+  rate(from: string, to: string, date?: string): number | null {
+    if (from.toUpperCase() === to.toUpperCase()) return 1;
+    const fromUsd = this.usdPer(from, date);
+    const toUsd = this.usdPer(to, date);
+    return fromUsd !== null && toUsd !== null ? fromUsd / toUsd : null;
+  }
+
+  convert(amount: number, from: string, to: string, date?: string): number | null {
+    const rate = this.rate(from, to, date);
+    return rate === null ? null : amount * rate;
+  }
+
+  private usdPer(currency: string, date?: string): number | null {
+    const points = this.history.get(currency.toUpperCase());
+    if (!points || points.length === 0) return null;
+    if (!date) return points[points.length - 1].usd;
+
+    // Last point on or before the date
+    let lo = 0;
+    let hi = points.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (points[mid].date <= date) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found >= 0 ? points[found].usd : null;
+  }
+}
+
+/**
+ * Daily FX history for the currencies over a date range, a week earlier so the first day has a rate.
+ * Currencies the providers have no bars for are left out; callers check `has()`.
+ */
+export async function loadFxHistory(currencies: string[], startDate: string, endDate: string): Promise<FxRates> {
+  const rates = new FxRates();
+  const foreign = [...new Set(currencies.map(c => c.toUpperCase()))].filter(c => c !== DEFAULT_CURRENCY);
+  if (foreign.length === 0) return rates;
+
+  const from = format(subDays(new Date(`${startDate}T00:00:00`), 7), 'yyyy-MM-dd');
+  const series = await barStore.getBars(foreign.map(fxPairTicker), from, endDate);
+  for (const currency of foreign) {
+    const bars = series.get(fxPairTicker(currency))?.bars ?? [];
+    if (bars.length > 0) rates.set(currency, bars.map(b => ({ date: b.date, usd: b.close })));
+    else console.warn(`[FX] No rate history for ${currency}`);
+  }
+  return rates;
+}
@@ -3,8 +3,8 @@
  * 
  * Data flow:
  * 1. React Query cache (instant, ~5 min TTL)
- * 2. Supabase flat files (fast, primary source)
- * 3. Polygon API (fallback, triggers background sync)
+ * 2. Persistent bar store (IndexedDB; fetches only missing date ranges)
+ * 3. Supabase flat files, then the market data router for gaps (API fetches trigger background sync)
  * 
  * Features:
  * - Automatic refresh on portfolio changes
@@ -16,6 +16,17 @@
 import { supabase } from '@/integrations/supabase/client';
 import { QueryClient } from '@tanstack/react-query';
 import { POLYGON_CONFIG } from '@/config/apiConfig';
+import { barStore } from './barStoreService';
+import { getCorporateActionHistory } from './corporateActionHistoryService';
+import {
+  adjustBars,
+  dividendsByBar,
+  restateStaleSplits,
+  totalReturns,
+  type CorporateAction,
+  type PriceBasis,
+} from './corporateActionService';
+import type { ProviderId } from './marketDataRouter';
 
 // Types
 export interface BarData {
@@ -26,14 +37,17 @@ export interface BarData {
   close: number;
   volume: number;
   vwap?: number;
-  dailyReturn?: number;
+  dividend?: number; // Split-adjusted cash per share going ex on this bar
+  dailyReturn?: number; // Total return: price change plus dividends
 }
 
 export interface TickerData {
   ticker: string;
   bars: BarData[];
   source: 'cache' | 'supabase' | 'api';
+  provider?: ProviderId; // Which provider supplied API-sourced bars
   dataRange: { start: string; end: string };
+  corporateActions: CorporateAction[]; // Dividends in range, splits through today
   lastUpdated: string;
 }
 
@@ -101,64 +115,54 @@ class HybridMarketDataService {
       return results;
     }
 
-    // Step 2: Batch fetch from database
-    onProgress?.({ status: 'fetching', current: results.size, total: tickers.length, message: 'Loading from database...' });
+    // Step 2: Persistent bar store - fetches only the date ranges it does not hold yet
+    onProgress?.({ status: 'fetching', current: results.size, total: tickers.length, message: 'Loading price history...' });
 
-    const supabaseData = await this.fetchFromSupabase(tickersToFetch, startDate, endDate);
+    const cachedCount = results.size;
+    const series = await barStore.getBars(tickersToFetch, startDate, endDate, {
+      forceRefresh,
+      onProgress: (done, _total, currentTicker) =>
+        onProgress?.({ status: 'fetching', current: cachedCount + done, total: tickers.length, currentTicker }),
+    });
 
-    const stillMissing: string[] = [];
+    const actionsByTicker = await getCorporateActionHistory(tickersToFetch, startDate, endDate);
 
     for (const ticker of tickersToFetch) {
-      const data = supabaseData.get(ticker);
-
-      const hasEnoughBars = !!data && data.bars.length >= 20;
-      const coversRequestedRange = hasEnoughBars
-        ? this.coversDateRange(data!.bars[0].date, data!.bars[data!.bars.length - 1].date, startDate, endDate)
-        : false;
-
-      if (hasEnoughBars && coversRequestedRange) {
-        results.set(ticker, data!);
-        this.saveToMemoryCache(ticker, data!, startDate, endDate);
-      } else {
-        stillMissing.push(ticker);
+      const stored = series.get(ticker.toUpperCase());
+      if (!stored || stored.bars.length === 0) {
+        console.warn(`[HybridData] No data for ${ticker}`);
+        continue;
       }
-    }
-
-    // Step 3: Fetch missing from API (if any)
-    if (stillMissing.length > 0) {
-      onProgress?.({
-        status: 'fetching',
-        current: results.size,
-        total: tickers.length,
-        message: `Fetching ${stillMissing.length} tickers from API...`
-      });
 
-      for (let i = 0; i < stillMissing.length; i++) {
-        const ticker = stillMissing[i];
-        onProgress?.({
-          status: 'fetching',
-          current: results.size + i,
-          total: tickers.length,
-          currentTicker: ticker
-        });
-
-        try {
-          const apiData = await this.fetchFromAPI(ticker, startDate, endDate);
-          if (apiData) {
-            results.set(ticker, apiData);
-            this.saveToMemoryCache(ticker, apiData, startDate, endDate);
-
-            // Trigger background sync to store in database
-            this.triggerBackgroundSync(ticker, startDate, endDate);
-          }
-        } catch (error) {
-          console.error(`[HybridData] Failed to fetch ${ticker}:`, error);
-        }
+      // Bars stored before a later split are put back on the split-adjusted basis before returns are taken
+      const corporateActions = actionsByTicker.get(ticker.toUpperCase()) ?? [];
+      const { bars: adjusted, restated } = restateStaleSplits(stored.bars, corporateActions);
+      if (restated.length > 0) {
+        console.log(`[HybridData] ${ticker}: restated history for ${restated.length} split(s) missing from stored bars`);
+      }
+      const returns = totalReturns(adjusted, corporateActions);
+      const dividends = dividendsByBar(adjusted, corporateActions);
+      const bars: BarData[] = adjusted.map((bar, i) => ({
+        ...bar,
+        ...(dividends[i] > 0 ? { dividend: dividends[i] } : {}),
+        dailyReturn: returns[i],
+      }));
+
+      const data: TickerData = {
+        ticker,
+        bars,
+        source: stored.source === 'store' ? 'cache' : stored.source === 'database' ? 'supabase' : 'api',
+        provider: stored.provider ?? undefined,
+        dataRange: { start: startDate, end: endDate },
+        corporateActions,
+        lastUpdated: new Date().toISOString()
+      };
+      results.set(ticker, data);
+      this.saveToMemoryCache(ticker, data, startDate, endDate);
 
-        // Rate limit
-        if (i < stillMissing.length - 1) {
-          await this.sleep(200);
-        }
+      // Trigger background sync to store API-sourced bars in the database
+      if (stored.source === 'api') {
+        this.triggerBackgroundSync(ticker, startDate, endDate);
       }
     }
 
@@ -167,6 +171,18 @@ class HybridMarketDataService {
     return results;
   }
   
+  /**
+   * Price history on the requested basis: as traded, split-adjusted, or total-return adjusted
+   */
+  async getPriceSeries(
+    ticker: string,
+    basis: PriceBasis,
+    options: { startDate?: string; endDate?: string } = {}
+  ): Promise<BarData[]> {
+    const data = (await this.getTickersData([ticker], options)).get(ticker);
+    return data ? adjustBars(data.bars, data.corporateActions, basis) : [];
+  }
+
   /**
    * Get portfolio returns (weighted combination)
    */
@@ -417,6 +433,7 @@ class HybridMarketDataService {
    */
   clearAllCaches() {
     memoryCache.clear();
+    barStore.invalidate();
     if (this.queryClient) {
       this.queryClient.invalidateQueries({ queryKey: ['market-data'] });
       this.queryClient.invalidateQueries({ queryKey: ['portfolio'] });
@@ -481,113 +498,6 @@ class HybridMarketDataService {
     return startsOk && endsOk;
   }
 
-  private async fetchFromSupabase(
-    tickers: string[],
-    startDate: string,
-    endDate: string
-  ): Promise<Map<string, TickerData>> {
-    const results = new Map<string, TickerData>();
-    
-    // Supabase has 1000 row limit, so we may need to batch
-    const BATCH_SIZE = 10;
-    
-    for (let i = 0; i < tickers.length; i += BATCH_SIZE) {
-      const batch = tickers.slice(i, i + BATCH_SIZE);
-      
-      const { data, error } = await supabase
-        .from('market_daily_bars')
-        .select('ticker, bar_date, open, high, low, close, volume, vwap, daily_return')
-        .in('ticker', batch)
-        .gte('bar_date', startDate)
-        .lte('bar_date', endDate)
-        .order('bar_date', { ascending: true })
-        .limit(50000);
-      
-      if (error || !data) {
-        console.error('[HybridData] Supabase fetch error:', error);
-        continue;
-      }
-      
-      // Group by ticker
-      const grouped = new Map<string, typeof data>();
-      for (const bar of data) {
-        if (!grouped.has(bar.ticker)) {
-          grouped.set(bar.ticker, []);
-        }
-        grouped.get(bar.ticker)!.push(bar);
-      }
-      
-      for (const [ticker, bars] of grouped) {
-        results.set(ticker, {
-          ticker,
-          bars: bars.map(b => ({
-            date: b.bar_date,
-            open: b.open,
-            high: b.high,
-            low: b.low,
-            close: b.close,
-            volume: b.volume,
-            vwap: b.vwap ?? undefined,
-            dailyReturn: b.daily_return ?? undefined
-          })),
-          source: 'supabase',
-          dataRange: { start: startDate, end: endDate },
-          lastUpdated: new Date().toISOString()
-        });
-      }
-    }
-    
-    return results;
-  }
-  
-  private async fetchFromAPI(
-    ticker: string,
-    startDate: string,
-    endDate: string
-  ): Promise<TickerData | null> {
-    try {
-      const { data, error } = await supabase.functions.invoke('polygon-aggs', {
-        body: { ticker, startDate, endDate, timespan: 'day' }
-      });
-      
-      if (error || !data?.results) {
-        console.warn(`[HybridData] API returned no data for ${ticker}`);
-        return null;
-      }
-      
-      const bars: BarData[] = [];
-      let prevClose: number | null = null;
-      
-      for (const bar of data.results) {
-        const dailyReturn = prevClose ? (bar.c - prevClose) / prevClose : undefined;
-        
-        bars.push({
-          date: new Date(bar.t).toISOString().split('T')[0],
-          open: bar.o,
-          high: bar.h,
-          low: bar.l,
-          close: bar.c,
-          volume: bar.v,
-          vwap: bar.vw,
-          dailyReturn
-        });
-        
-        prevClose = bar.c;
-      }
-      
-      return {
-        ticker,
-        bars,
-        source: 'api',
-        dataRange: { start: startDate, end: endDate },
-        lastUpdated: new Date().toISOString()
-      };
-    } catch (e) {
-      console.error(`[HybridData] API fetch failed for ${ticker}:`, e);
-      return null;
-    }
-  }
-  
   private triggerBackgroundSync(ticker: string, startDate: string, endDate: string) {
     // Fire and forget - sync data to Supabase in background
     supabase.functions.invoke('sync-market-data', {
@@ -631,10 +541,6 @@ class HybridMarketDataService {
   private getToday(): string {
     return new Date().toISOString().split('T')[0];
   }
-  
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,548 @@
+// LBO Model Service - Sources & uses, multi-tranche debt schedule with cash sweep, and sponsor returns
+import { CashFlowBuildupResponse } from './cashFlowBuildupService';
+
+export type DebtTrancheType = 'revolver' | 'term_loan_b' | 'senior_notes' | 'mezzanine';
+
+export interface DebtTranche {
+  id: string;
+  name: string;
+  type: DebtTrancheType;
+  multiple: number; // Amount raised at close, as x entry EBITDA (revolver: drawn at close)
+  commitment?: number; // Revolver only: total facility size ($M)
+  interestRate: number; // Cash interest rate (%)
+  amortizationPct: number; // Mandatory amortization, % of original principal per year
+  cashSweep: boolean; // Eligible for excess cash sweep
+  pikToggle: boolean; // Pay interest in kind instead of cash
+  pikRate: number; // PIK rate (%) when toggled on
+  financingFeePct: number; // Upfront fee, % of principal
+}
+
+export interface LBOOperatingAssumptions {
+  revenueGrowth: number; // %
+  ebitdaMargin: number; // %
+  capexPercent: number; // % of revenue
+  nwcPercent: number; // % of revenue
+  daPercent: number; // % of revenue
+}
+
+export interface LBOAssumptions {
+  entryEbitda: number; // $M, LTM EBITDA at close
+  entryMultiple: number; // x EBITDA
+  transactionFeePct: number; // % of enterprise value
+  minimumCash: number; // $M kept on balance sheet
+  cashSweepPct: number; // % of excess cash swept to eligible tranches
+  exitMultiple: number; // x EBITDA
+  exitYear: number; // 1-based projection year
+  taxRate: number; // %
+  tranches: DebtTranche[];
+  operating: LBOOperatingAssumptions;
+}
+
+// Annual operating projection the LBO runs on. All values in $M, capex positive.
+export interface LBOOperatingCase {
+  years: string[];
+  revenue: number[];
+  ebitda: number[];
+  depreciation: number[];
+  capex: number[];
+  changeNwc: number[]; // Cash impact: negative = investment in working capital
+}
+
+export interface SourcesAndUses {
+  sources: { label: string; amount: number }[];
+  uses: { label: string; amount: number }[];
+  totalSources: number;
+  totalUses: number;
+  sponsorEquity: number;
+  enterpriseValue: number;
+}
+
+export interface TrancheScheduleYear {
+  year: string;
+  opening: number;
+  drawdown: number;
+  mandatoryRepayment: number;
+  sweepRepayment: number;
+  pikAccrued: number;
+  closing: number;
+  cashInterest: number;
+}
+
+export interface LBOCashFlowYear {
+  year: string;
+  revenue: number;
+  ebitda: number;
+  depreciation: number;
+  ebit: number;
+  cashInterest: number;
+  pikInterest: number;
+  ebt: number;
+  taxes: number;
+  netIncome: number;
+  capex: number;
+  changeNwc: number;
+  freeCashFlow: number; // After cash interest and taxes, before debt repayment
+  mandatoryRepayment: number;
+  revolverDraw: number;
+  sweepRepayment: number;
+  openingCash: number;
+  closingCash: number;
+  totalDebt: number;
+  netDebt: number;
+  leverage: number; // Total debt / EBITDA
+  interestCoverage: number; // EBITDA / cash interest
+}
+
+export interface LBOReturns {
+  exitYear: string;
+  exitEbitda: number;
+  exitEnterpriseValue: number;
+  exitNetDebt: number;
+  exitEquityValue: number;
+  sponsorEquity: number;
+  moic: number;
+  irr: number; // %
+}
+
+export interface LBOResult {
+  sourcesAndUses: SourcesAndUses;
+  cashFlows: LBOCashFlowYear[];
+  debtSchedule: Record<string, TrancheScheduleYear[]>;
+  returns: LBOReturns;
+  warnings: string[];
+}
+
+// Shape persisted to models.model_data for model_type 'lbo'
+export interface LBOModelData {
+  operating_case: LBOOperatingCase;
+  lbo?: LBOResult | null;
+  source_model_id?: string; // Cash flow buildup the operating case was promoted from
+}
+
+export const TRANCHE_TYPE_LABELS: Record<DebtTrancheType, string> = {
+  revolver: 'Revolver',
+  term_loan_b: 'Term Loan B',
+  senior_notes: 'Senior Notes',
+  mezzanine: 'Mezzanine',
+};
+
+// Repayment priority: revolver first, then senior secured, then junior
+const TRANCHE_PRIORITY: Record<DebtTrancheType, number> = {
+  revolver: 0,
+  term_loan_b: 1,
+  senior_notes: 2,
+  mezzanine: 3,
+};
+
+export const DEFAULT_DEBT_TRANCHES: DebtTranche[] = [
+  {
+    id: 'revolver',
+    name: 'Revolver',
+    type: 'revolver',
+    multiple: 0,
+    commitment: 25,
+    interestRate: 7.5,
+    amortizationPct: 0,
+    cashSweep: true,
+    pikToggle: false,
+    pikRate: 0,
+    financingFeePct: 1,
+  },
+  {
+    id: 'tlb',
+    name: 'Term Loan B',
+    type: 'term_loan_b',
+    multiple: 3,
+    interestRate: 8.5,
+    amortizationPct: 1,
+    cashSweep: true,
+    pikToggle: false,
+    pikRate: 0,
+    financingFeePct: 2,
+  },
+  {
+    id: 'senior_notes',
+    name: 'Senior Notes',
+    type: 'senior_notes',
+    multiple: 1.5,
+    interestRate: 9.5,
+    amortizationPct: 0,
+    cashSweep: false,
+    pikToggle: false,
+    pikRate: 0,
+    financingFeePct: 2.5,
+  },
+  {
+    id: 'mezz',
+    name: 'Mezzanine',
+    type: 'mezzanine',
+    multiple: 0.5,
+    interestRate: 6,
+    amortizationPct: 0,
+    cashSweep: false,
+    pikToggle: true,
+    pikRate: 12,
+    financingFeePct: 3,
+  },
+];
+
+export const DEFAULT_LBO_ASSUMPTIONS: LBOAssumptions = {
+  entryEbitda: 25,
+  entryMultiple: 8,
+  transactionFeePct: 2,
+  minimumCash: 5,
+  cashSweepPct: 100,
+  exitMultiple: 8,
+  exitYear: 5,
+  taxRate: 25,
+  tranches: DEFAULT_DEBT_TRANCHES,
+  operating: {
+    revenueGrowth: 8,
+    ebitdaMargin: 25,
+    capexPercent: 3,
+    nwcPercent: 10,
+    daPercent: 4,
+  },
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Build an operating case from a saved cash flow buildup result.
+ * Only projection years are used; the LBO closes at the end of the last historical year.
+ */
+export function operatingCaseFromCashFlowBuildup(result: CashFlowBuildupResponse): LBOOperatingCase {
+  const years = result.projection_years || [];
+  if (years.length === 0) {
+    throw new Error('Cash flow buildup has no projection years to promote');
+  }
+
+  const is = result.income_statement || {};
+  const cfb = result.cash_flow_buildup || {};
+
+  return {
+    years,
+    revenue: years.map(y => is.revenue?.[y] ?? 0),
+    ebitda: years.map(y => is.ebitda?.[y] ?? 0),
+    depreciation: years.map(y => is.depreciation?.[y] ?? cfb.add_back_da?.[y] ?? 0),
+    capex: years.map(y => Math.abs(cfb.total_capex?.[y] ?? 0)),
+    changeNwc: years.map(y => cfb.change_nwc?.[y] ?? 0),
+  };
+}
+
+/**
+ * Build a standalone operating case from simple driver assumptions,
+ * starting from entry revenue implied by entry EBITDA and margin.
+ */
+export function operatingCaseFromAssumptions(
+  entryRevenue: number,
+  operating: LBOOperatingAssumptions,
+  years: string[]
+): LBOOperatingCase {
+  const growth = operating.revenueGrowth / 100;
+  const margin = operating.ebitdaMargin / 100;
+  const nwcPct = operating.nwcPercent / 100;
+
+  const revenue: number[] = [];
+  let prevRevenue = entryRevenue;
+  years.forEach(() => {
+    prevRevenue = prevRevenue * (1 + growth);
+    revenue.push(prevRevenue);
+  });
+
+  return {
+    years,
+    revenue,
+    ebitda: revenue.map(r => r * margin),
+    depreciation: revenue.map(r => r * (operating.daPercent / 100)),
+    capex: revenue.map(r => r * (operating.capexPercent / 100)),
+    changeNwc: revenue.map((r, i) => -((r - (i === 0 ? entryRevenue : revenue[i - 1])) * nwcPct)),
+  };
+}
+
+/**
+ * Internal rate of return via bisection on annual cash flows.
+ * Returns NaN when the cash flows never change sign.
+ */
+export function calculateIRR(cashFlows: number[]): number {
+  const npv = (rate: number) =>
+    cashFlows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0);
+
+  let low = -0.99;
+  let high = 10;
+  let npvLow = npv(low);
+  if (npvLow * npv(high) > 0) return NaN;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 1e-9) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+export function buildSourcesAndUses(assumptions: LBOAssumptions): SourcesAndUses {
+  const enterpriseValue = assumptions.entryEbitda * assumptions.entryMultiple;
+  const transactionFees = enterpriseValue * (assumptions.transactionFeePct / 100);
+
+  const debtSources = assumptions.tranches
+    .map(t => ({ tranche: t, amount: t.multiple * assumptions.entryEbitda }))
+    .filter(d => d.amount > 0);
+
+  const financingFees = debtSources.reduce(
+    (sum, d) => sum + d.amount * (d.tranche.financingFeePct / 100),
+    0
+  );
+
+  const uses = [
+    { label: 'Purchase Enterprise Value', amount: enterpriseValue },
+    { label: 'Transaction Fees', amount: transactionFees },
+    { label: 'Financing Fees', amount: financingFees },
+    { label: 'Cash to Balance Sheet', amount: assumptions.minimumCash },
+  ];
+  const totalUses = uses.reduce((sum, u) => sum + u.amount, 0);
+  const totalDebt = debtSources.reduce((sum, d) => sum + d.amount, 0);
+  const sponsorEquity = totalUses - totalDebt;
+
+  const sources = [
+    ...debtSources.map(d => ({ label: d.tranche.name, amount: d.amount })),
+    { label: 'Sponsor Equity', amount: sponsorEquity },
+  ];
+
+  return {
+    sources,
+    uses,
+    totalSources: totalDebt + sponsorEquity,
+    totalUses,
+    sponsorEquity,
+    enterpriseValue,
+  };
+}
+
+/**
+ * Run the LBO: debt schedule with mandatory amortization, revolver draws
+ * for shortfalls, excess cash sweep in priority order, PIK accrual and exit returns.
+ *
+ * Interest is charged on opening balances so the schedule has no circular reference.
+ */
+export function runLBOModel(operatingCase: LBOOperatingCase, assumptions: LBOAssumptions): LBOResult {
+  const warnings: string[] = [];
+  const nYears = operatingCase.years.length;
+
+  if (nYears === 0) {
+    throw new Error('Operating case has no projection years');
+  }
+  if (assumptions.entryEbitda <= 0) {
+    throw new Error('Entry EBITDA must be positive');
+  }
+
+  const exitIndex = Math.min(Math.max(1, Math.round(assumptions.exitYear)), nYears) - 1;
+  if (assumptions.exitYear > nYears) {
+    warnings.push(`Exit year ${assumptions.exitYear} exceeds projection period; exiting in ${operatingCase.years[exitIndex]}`);
+  }
+
+  const sourcesAndUses = buildSourcesAndUses(assumptions);
+  if (sourcesAndUses.sponsorEquity <= 0) {
+    throw new Error('Debt financing exceeds total uses; sponsor equity must be positive');
+  }
+
+  const tranches = [...assumptions.tranches].sort(
+    (a, b) => TRANCHE_PRIORITY[a.type] - TRANCHE_PRIORITY[b.type]
+  );
+  const taxRate = assumptions.taxRate / 100;
+  const sweepPct = assumptions.cashSweepPct / 100;
+
+  const originalPrincipal = new Map<string, number>();
+  const balances = new Map<string, number>();
+  const debtSchedule: Record<string, TrancheScheduleYear[]> = {};
+  tranches.forEach(t => {
+    const principal = t.multiple * assumptions.entryEbitda;
+    originalPrincipal.set(t.id, principal);
+    balances.set(t.id, principal);
+    debtSchedule[t.id] = [];
+  });
+
+  const cashFlows: LBOCashFlowYear[] = [];
+  let cash = assumptions.minimumCash;
+
+  for (let i = 0; i <= exitIndex; i++) {
+    const year = operatingCase.years[i];
+    const revenue = operatingCase.revenue[i];
+    const ebitda = operatingCase.ebitda[i];
+    const depreciation = operatingCase.depreciation[i];
+    const capex = operatingCase.capex[i];
+    const changeNwc = operatingCase.changeNwc[i];
+
+    const rows = new Map<string, TrancheScheduleYear>();
+    let cashInterest = 0;
+    let pikInterest = 0;
+
+    tranches.forEach(t => {
+      const opening = balances.get(t.id) || 0;
+      const pik = t.pikToggle ? opening * (t.pikRate / 100) : 0;
+      const interest = t.pikToggle ? 0 : opening * (t.interestRate / 100);
+      cashInterest += interest;
+      pikInterest += pik;
+      rows.set(t.id, {
+        year,
+        opening,
+        drawdown: 0,
+        mandatoryRepayment: 0,
+        sweepRepayment: 0,
+        pikAccrued: pik,
+        closing: opening + pik,
+        cashInterest: interest,
+      });
+    });
+
+    const ebit = ebitda - depreciation;
+    const ebt = ebit - cashInterest - pikInterest;
+    const taxes = Math.max(0, ebt * taxRate);
+    const netIncome = ebt - taxes;
+    const freeCashFlow = ebitda - cashInterest - taxes - capex + changeNwc;
+
+    const openingCash = cash;
+    let available = cash + freeCashFlow - assumptions.minimumCash;
+
+    // Mandatory amortization
+    let mandatoryTotal = 0;
+    tranches.forEach(t => {
+      const row = rows.get(t.id)!;
+      const scheduled = (originalPrincipal.get(t.id) || 0) * (t.amortizationPct / 100);
+      const payment = Math.min(scheduled, row.closing);
+      row.mandatoryRepayment = payment;
+      row.closing -= payment;
+      mandatoryTotal += payment;
+    });
+    available -= mandatoryTotal;
+
+    // Revolver covers any shortfall
+    let revolverDraw = 0;
+    if (available < 0) {
+      const revolver = tranches.find(t => t.type === 'revolver');
+      if (revolver) {
+        const row = rows.get(revolver.id)!;
+        const capacity = Math.max(0, (revolver.commitment ?? 0) - row.closing);
+        revolverDraw = Math.min(capacity, -available);
+        row.drawdown = revolverDraw;
+        row.closing += revolverDraw;
+        available += revolverDraw;
+      }
+      if (available < -1e-6) {
+        warnings.push(`${year}: cash falls below minimum by $${round1(-available)}M after revolver`);
+      }
+    }
+
+    // Excess cash sweep, revolver first then by priority
+    let sweepTotal = 0;
+    if (available > 0 && sweepPct > 0) {
+      let sweepable = available * sweepPct;
+      for (const t of tranches) {
+        if (!t.cashSweep || sweepable <= 0) continue;
+        const row = rows.get(t.id)!;
+        const payment = Math.min(sweepable, row.closing);
+        row.sweepRepayment = payment;
+        row.closing -= payment;
+        sweepable -= payment;
+        sweepTotal += payment;
+      }
+      available -= sweepTotal;
+    }
+
+    cash = assumptions.minimumCash + available;
+
+    let totalDebt = 0;
+    tranches.forEach(t => {
+      const row = rows.get(t.id)!;
+      balances.set(t.id, row.closing);
+      totalDebt += row.closing;
+      debtSchedule[t.id].push(row);
+    });
+
+    cashFlows.push({
+      year,
+      revenue,
+      ebitda,
+      depreciation,
+      ebit,
+      cashInterest,
+      pikInterest,
+      ebt,
+      taxes,
+      netIncome,
+      capex,
+      changeNwc,
+      freeCashFlow,
+      mandatoryRepayment: mandatoryTotal,
+      revolverDraw,
+      sweepRepayment: sweepTotal,
+      openingCash,
+      closingCash: cash,
+      totalDebt,
+      netDebt: totalDebt - cash,
+      leverage: ebitda > 0 ? totalDebt / ebitda : 0,
+      interestCoverage: cashInterest > 0 ? ebitda / cashInterest : 0,
+    });
+  }
+
+  const exit = cashFlows[exitIndex];
+  const exitEnterpriseValue = exit.ebitda * assumptions.exitMultiple;
+  const exitEquityValue = exitEnterpriseValue - exit.netDebt;
+  const sponsorEquity = sourcesAndUses.sponsorEquity;
+  const moic = exitEquityValue / sponsorEquity;
+
+  const equityFlows = [-sponsorEquity, ...new Array(exitIndex).fill(0), exitEquityValue];
+  const irr = exitEquityValue > 0 ? calculateIRR(equityFlows) : -1;
+  if (exitEquityValue <= 0) {
+    warnings.push('Exit equity value is negative; sponsor equity is wiped out');
+  }
+
+  return {
+    sourcesAndUses,
+    cashFlows,
+    debtSchedule,
+    returns: {
+      exitYear: exit.year,
+      exitEbitda: exit.ebitda,
+      exitEnterpriseValue,
+      exitNetDebt: exit.netDebt,
+      exitEquityValue,
+      sponsorEquity,
+      moic,
+      irr: irr * 100,
+    },
+    warnings,
+  };
+}
+
+/**
+ * Seed LBO assumptions from a cash flow buildup so a promoted model
+ * enters at the last historical EBITDA and inherits its tax rate.
+ */
+export function lboAssumptionsFromCashFlowBuildup(
+  result: CashFlowBuildupResponse,
+  cashFlowAssumptions?: { tax_rate?: number }
+): LBOAssumptions {
+  const histYears = result.historical_years || [];
+  const lastHistYear = histYears[histYears.length - 1];
+  const entryEbitda = lastHistYear ? result.income_statement?.ebitda?.[lastHistYear] : undefined;
+
+  if (!entryEbitda || entryEbitda <= 0) {
+    throw new Error('Cash flow buildup has no positive historical EBITDA to price the entry');
+  }
+
+  const projectionYears = result.projection_years?.length || DEFAULT_LBO_ASSUMPTIONS.exitYear;
+
+  return {
+    ...DEFAULT_LBO_ASSUMPTIONS,
+    entryEbitda: round1(entryEbitda),
+    taxRate: cashFlowAssumptions?.tax_rate ?? DEFAULT_LBO_ASSUMPTIONS.taxRate,
+    exitYear: Math.min(DEFAULT_LBO_ASSUMPTIONS.exitYear, projectionYears),
+  };
+}
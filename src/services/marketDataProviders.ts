@@ -0,0 +1,341 @@
+// Market Data Providers - Polygon, Finnhub, Supabase cache and mock adapters behind the market data router
+// The app-wide router instance lives here, with its fallback order persisted per browser
+
+import { format, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { API_CONFIG } from '@/config/apiConfig';
+import { getMockStock, searchMockStocks, MOCK_DATA_DATE } from '@/data/mockMarketData';
+import { fetchBatchQuotes, fetchCandles, fetchCompanyProfile, fetchQuote, fetchSymbolSearch, type StockQuote } from './finnhubService';
+import {
+  MarketDataCapability,
+  MarketDataProvider,
+  MarketDataRouter,
+  MARKET_DATA_CAPABILITIES,
+  ProviderId,
+  ProviderQuote,
+  RateBudget,
+  RoutedQuote,
+} from './marketDataRouter';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  polygon: 'Polygon',
+  finnhub: 'Finnhub',
+  supabase: 'Supabase cache',
+  mock: 'Sample data',
+};
+
+export const DEFAULT_PROVIDER_ORDER: Record<MarketDataCapability, ProviderId[]> = {
+  quote: ['finnhub', 'supabase'],
+  bars: ['supabase', 'polygon', 'finnhub'],
+  search: ['polygon', 'finnhub', 'supabase', 'mock'],
+  profile: ['polygon', 'finnhub', 'supabase', 'mock'],
+};
+
+// Finnhub's free tier allows 60 calls a minute; the others guard against runaway loops
+export const PROVIDER_BUDGETS: Partial<Record<ProviderId, RateBudget>> = {
+  finnhub: { limit: 60, windowMs: 60 * 1000 },
+  polygon: { limit: 100, windowMs: 60 * 1000 },
+  supabase: { limit: 300, windowMs: 60 * 1000 },
+};
+
+const ORDER_STORAGE_KEY = 'market-data-provider-order';
+
+function assertEnabled() {
+  if (!API_CONFIG.ENABLE_MARKET_DATA) throw new Error('Market data is disabled');
+}
+
+function errorStatus(error: unknown): number | null {
+  const status = (error as { context?: { status?: unknown } })?.context?.status;
+  return typeof status === 'number' ? status : null;
+}
+
+/**
+ * Call an edge function that answers { ok, ... }; null when it reports the item was not found
+ */
+async function invokeEdge<T>(name: string, body: Record<string, unknown>): Promise<T | null> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    if (errorStatus(error) === 404) return null;
+    throw new Error(error.message || `${name} failed`);
+  }
+  if (!data?.ok) throw new Error(data?.error || `${name} failed`);
+  return data as T;
+}
+
+const toProviderQuote = (q: StockQuote): ProviderQuote => ({
+  symbol: q.symbol.toUpperCase(),
+  price: q.price,
+  change: q.change,
+  changePercent: q.changePercent,
+  high: q.high,
+  low: q.low,
+  open: q.open,
+  previousClose: q.previousClose,
+  timestamp: q.timestamp,
+});
+
+const unixSeconds = (date: string) => Math.floor(new Date(`${date}T00:00:00Z`).getTime() / 1000);
+
+// ============= Adapters =============
+
+export const polygonProvider: MarketDataProvider = {
+  id: 'polygon',
+  label: PROVIDER_LABELS.polygon,
+
+  async bars(symbol, startDate, endDate) {
+    assertEnabled();
+    const res = await invokeEdge<{ results?: { t: number; o: number; h: number; l: number; c: number; v: number; vw?: number }[] }>(
+      'polygon-aggs',
+      { ticker: symbol, startDate, endDate, timespan: 'day' }
+    );
+    return (res?.results ?? []).map(r => ({
+      date: new Date(r.t).toISOString().split('T')[0],
+      open: r.o,
+      high: r.h,
+      low: r.l,
+      close: r.c,
+      volume: r.v,
+      vwap: r.vw,
+    }));
+  },
+
+  async search(query) {
+    assertEnabled();
+    const res = await invokeEdge<{ results?: { ticker: string; name: string; primaryExchange?: string }[] }>('polygon-ticker-search', {
+      query,
+      limit: 20,
+      market: 'stocks',
+    });
+    return (res?.results ?? []).map(r => ({ symbol: r.ticker, name: r.name, exchange: r.primaryExchange ?? null }));
+  },
+
+  async profile(symbol) {
+    assertEnabled();
+    const res = await invokeEdge<{ details?: { name: string; industry?: string; marketCap: number | null; primaryExchange?: string } }>(
+      'polygon-ticker-details',
+      { ticker: symbol }
+    );
+    if (!res?.details) return null;
+    return {
+      symbol,
+      name: res.details.name,
+      exchange: res.details.primaryExchange || null,
+      industry: res.details.industry || null,
+      marketCap: res.details.marketCap ?? null,
+    };
+  },
+};
+
+export const finnhubProvider: MarketDataProvider = {
+  id: 'finnhub',
+  label: PROVIDER_LABELS.finnhub,
+
+  async quote(symbol) {
+    const quote = await fetchQuote(symbol);
+    return quote ? toProviderQuote(quote) : null;
+  },
+
+  async quotes(symbols) {
+    const quotes = await fetchBatchQuotes(symbols);
+    return new Map([...quotes].map(([symbol, q]) => [symbol.toUpperCase(), toProviderQuote(q)]));
+  },
+
+  async bars(symbol, startDate, endDate) {
+    // Finnhub's range ends at the start of `to`, so ask through the end of the last day
+    const candles = await fetchCandles(symbol, 'D', unixSeconds(startDate), unixSeconds(endDate) + 24 * 60 * 60 - 1);
+    return candles.map(c => ({ date: c.date, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume }));
+  },
+
+  async search(query) {
+    const results = await fetchSymbolSearch(query);
+    return results.map(r => ({ symbol: r.symbol, name: r.description, exchange: null }));
+  },
+
+  async profile(symbol) {
+    const profile = await fetchCompanyProfile(symbol);
+    if (!profile) return null;
+    return {
+      symbol,
+      name: profile.name,
+      exchange: profile.exchange || null,
+      industry: profile.industry || null,
+      marketCap: profile.marketCap || null,
+    };
+  },
+};
+
+export const supabaseProvider: MarketDataProvider = {
+  id: 'supabase',
+  label: PROVIDER_LABELS.supabase,
+
+  // Close of the latest stored bar against the one before it
+  async quote(symbol) {
+    const { data, error } = await supabase
+      .from('market_daily_bars')
+      .select('bar_date, open, high, low, close, volume')
+      .eq('ticker', symbol)
+      .gte('bar_date', format(subDays(new Date(), 14), 'yyyy-MM-dd'))
+      .order('bar_date', { ascending: false })
+      .limit(2);
+    if (error) throw new Error(error.message);
+    const [latest, prior] = data ?? [];
+    if (!latest) return null;
+
+    const previousClose = prior?.close ?? latest.open;
+    const change = latest.close - previousClose;
+    return {
+      symbol,
+      price: latest.close,
+      change,
+      changePercent: previousClose ? (change / previousClose) * 100 : 0,
+      high: latest.high,
+      low: latest.low,
+      open: latest.open,
+      previousClose,
+      timestamp: new Date(`${latest.bar_date}T21:00:00Z`).getTime(), // US close
+      volume: latest.volume,
+    };
+  },
+
+  async bars(symbol, startDate, endDate) {
+    const { data, error } = await supabase
+      .from('market_daily_bars')
+      .select('bar_date, open, high, low, close, volume, vwap')
+      .eq('ticker', symbol)
+      .gte('bar_date', startDate)
+      .lte('bar_date', endDate)
+      .order('bar_date', { ascending: true })
+      .limit(10000);
+    if (error) throw new Error(error.message);
+    return (data ?? []).map(b => ({
+      date: b.bar_date,
+      open: b.open,
+      high: b.high,
+      low: b.low,
+      close: b.close,
+      volume: b.volume,
+      vwap: b.vwap ?? undefined,
+    }));
+  },
+
+  async search(query) {
+    const { data, error } = await supabase
+      .from('ticker_directory')
+      .select('symbol, name, exchange')
+      .or(`symbol.ilike.${query.toUpperCase()}%,name.ilike.%${query}%`)
+      .eq('is_active', true)
+      .order('market_cap_tier', { ascending: true })
+      .limit(20);
+    if (error) throw new Error(error.message);
+    return (data ?? []).map(r => ({ symbol: r.symbol, name: r.name, exchange: r.exchange }));
+  },
+
+  async profile(symbol) {
+    const { data, error } = await supabase
+      .from('ticker_directory')
+      .select('symbol, name, exchange, industry')
+      .eq('symbol', symbol)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) return null;
+    return { symbol, name: data.name, exchange: data.exchange, industry: data.industry, marketCap: null };
+  },
+};
+
+// Static January 2024 sample prices; never chosen for quotes unless added to the order
+export const mockProvider: MarketDataProvider = {
+  id: 'mock',
+  label: PROVIDER_LABELS.mock,
+
+  async quote(symbol) {
+    const mock = getMockStock(symbol);
+    if (!mock) return null;
+    const previousClose = mock.price - mock.change;
+    return {
+      symbol,
+      price: mock.price,
+      change: mock.change,
+      changePercent: mock.changePercent,
+      high: mock.price,
+      low: mock.price,
+      open: previousClose,
+      previousClose,
+      timestamp: new Date(`${MOCK_DATA_DATE}T21:00:00Z`).getTime(),
+      volume: mock.volume,
+    };
+  },
+
+  async search(query) {
+    return searchMockStocks(query)
+      .slice(0, 20)
+      .map(s => ({ symbol: s.symbol, name: s.name, exchange: null }));
+  },
+
+  async profile(symbol) {
+    const mock = getMockStock(symbol);
+    if (!mock) return null;
+    return { symbol, name: mock.name, exchange: null, industry: null, marketCap: mock.marketCap ?? null };
+  },
+};
+
+// ============= Router instance =============
+
+function loadOrder(): Record<MarketDataCapability, ProviderId[]> {
+  const order = { ...DEFAULT_PROVIDER_ORDER };
+  try {
+    const saved = JSON.parse(localStorage.getItem(ORDER_STORAGE_KEY) || '{}') as Partial<Record<MarketDataCapability, ProviderId[]>>;
+    MARKET_DATA_CAPABILITIES.forEach(c => {
+      if (Array.isArray(saved[c])) order[c] = saved[c]!;
+    });
+  } catch {
+    // ignore
+  }
+  return order;
+}
+
+export const marketDataRouter = new MarketDataRouter([polygonProvider, finnhubProvider, supabaseProvider, mockProvider], {
+  order: loadOrder(),
+  budgets: PROVIDER_BUDGETS,
+});
+
+/**
+ * Change and remember the fallback order for a capability
+ */
+export function setProviderOrder(capability: MarketDataCapability, order: ProviderId[]) {
+  marketDataRouter.setOrder(capability, order);
+  try {
+    const saved = JSON.parse(localStorage.getItem(ORDER_STORAGE_KEY) || '{}');
+    localStorage.setItem(ORDER_STORAGE_KEY, JSON.stringify({ ...saved, [capability]: marketDataRouter.getOrder(capability) }));
+  } catch {
+    // ignore
+  }
+}
+
+export function resetProviderOrder() {
+  MARKET_DATA_CAPABILITIES.forEach(c => marketDataRouter.setOrder(c, DEFAULT_PROVIDER_ORDER[c]));
+  try {
+    localStorage.removeItem(ORDER_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * A routed quote in the StockQuote shape the rest of the app uses
+ */
+export function toStockQuote(q: RoutedQuote): StockQuote & { provider: ProviderId } {
+  return {
+    symbol: q.symbol,
+    price: q.price,
+    change: q.change,
+    changePercent: q.changePercent,
+    high: q.high,
+    low: q.low,
+    open: q.open,
+    previousClose: q.previousClose,
+    timestamp: q.timestamp,
+    volume: q.volume !== undefined ? q.volume.toLocaleString() : undefined,
+    companyName: q.symbol,
+    provider: q.provider,
+  };
+}
@@ -0,0 +1,449 @@
+// Market Data Router - One quote/bars/search/profile interface over several providers, tried in a configurable order
+// Each provider has a rate-limit budget and a circuit breaker; every result records which provider supplied it
+
+export type ProviderId = 'polygon' | 'finnhub' | 'supabase' | 'mock';
+
+export type MarketDataCapability = 'quote' | 'bars' | 'search' | 'profile';
+
+export interface ProviderQuote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  high: number;
+  low: number;
+  open: number;
+  previousClose: number;
+  timestamp: number; // ms
+  volume?: number;
+}
+
+export interface RoutedQuote extends ProviderQuote {
+  provider: ProviderId;
+}
+
+export interface ProviderBar {
+  date: string; // yyyy-MM-dd
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap?: number;
+}
+
+export interface ProviderSearchResult {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+}
+
+export interface ProviderProfile {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  industry: string | null;
+  marketCap: number | null; // $
+}
+
+/**
+ * A market data source. Methods throw when the provider fails and return null or an empty list when it
+ * simply has no data for the request; only failures count against its circuit breaker.
+ */
+export interface MarketDataProvider {
+  id: ProviderId;
+  label: string;
+  quote?(symbol: string): Promise<ProviderQuote | null>;
+  quotes?(symbols: string[]): Promise<Map<string, ProviderQuote>>; // Batch form; otherwise quote() is called per symbol
+  bars?(symbol: string, startDate: string, endDate: string): Promise<ProviderBar[]>;
+  search?(query: string): Promise<ProviderSearchResult[]>;
+  profile?(symbol: string): Promise<ProviderProfile | null>;
+}
+
+export interface RateBudget {
+  limit: number; // Calls allowed per window
+  windowMs: number;
+}
+
+export interface CircuitBreakerSettings {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // How long it stays open before one trial call is let through
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type AttemptOutcome = 'ok' | 'empty' | 'error' | 'circuit_open' | 'rate_limited';
+
+export interface ProviderAttempt {
+  provider: ProviderId;
+  outcome: AttemptOutcome;
+  error?: string;
+  latencyMs?: number;
+}
+
+export interface ProvidedResult<T> {
+  data: T | null;
+  provider: ProviderId | null; // Who supplied data; null when nobody could
+  attempts: ProviderAttempt[]; // Every provider consulted, in order
+}
+
+export interface BatchQuoteResult {
+  quotes: Map<string, RoutedQuote>;
+  missing: string[];
+  attempts: ProviderAttempt[];
+}
+
+export interface ProviderHealth {
+  id: ProviderId;
+  label: string;
+  state: CircuitState;
+  calls: number; // Requests that reached the provider
+  successes: number;
+  empties: number;
+  failures: number;
+  rateLimited: number; // Requests skipped because the budget was spent
+  circuitSkips: number; // Requests skipped because the circuit was open
+  consecutiveFailures: number;
+  averageLatencyMs: number | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  reopensAt: number | null; // When an open circuit lets a trial call through
+  budget: (RateBudget & { remaining: number }) | null;
+}
+
+export interface MarketDataRouterConfig {
+  order: Record<MarketDataCapability, ProviderId[]>;
+  budgets?: Partial<Record<ProviderId, RateBudget>>;
+  breaker?: CircuitBreakerSettings;
+  now?: () => number;
+}
+
+export interface RouteOptions {
+  order?: ProviderId[]; // Overrides the configured fallback order for this call
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerSettings = { failureThreshold: 3, cooldownMs: 60 * 1000 };
+
+export const MARKET_DATA_CAPABILITIES: MarketDataCapability[] = ['quote', 'bars', 'search', 'profile'];
+
+/**
+ * Opens after a run of consecutive failures, then lets a single trial call through once the cooldown passes.
+ * A successful trial closes it again; a failed one restarts the cooldown.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private settings: CircuitBreakerSettings = DEFAULT_CIRCUIT_BREAKER) {}
+
+  state(now: number): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return now - this.openedAt >= this.settings.cooldownMs ? 'half_open' : 'open';
+  }
+
+  allow(now: number): boolean {
+    const state = this.state(now);
+    if (state === 'closed') return true;
+    if (state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  // A trial call that never reached the provider; the next call may take the slot
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.openedAt !== null || this.failures >= this.settings.failureThreshold) this.openedAt = now;
+  }
+
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  reopensAt(): number | null {
+    return this.openedAt === null ? null : this.openedAt + this.settings.cooldownMs;
+  }
+}
+
+/**
+ * Sliding-window call budget
+ */
+export class RateLimitBudget {
+  private calls: number[] = [];
+
+  constructor(readonly budget: RateBudget) {}
+
+  private prune(now: number) {
+    this.calls = this.calls.filter(t => now - t < this.budget.windowMs);
+  }
+
+  tryAcquire(now: number): boolean {
+    this.prune(now);
+    if (this.calls.length >= this.budget.limit) return false;
+    this.calls.push(now);
+    return true;
+  }
+
+  remaining(now: number): number {
+    this.prune(now);
+    return Math.max(this.budget.limit - this.calls.length, 0);
+  }
+}
+
+interface ProviderStats {
+  calls: number;
+  successes: number;
+  empties: number;
+  failures: number;
+  rateLimited: number;
+  circuitSkips: number;
+  totalLatencyMs: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+}
+
+const emptyStats = (): ProviderStats => ({
+  calls: 0,
+  successes: 0,
+  empties: 0,
+  failures: 0,
+  rateLimited: 0,
+  circuitSkips: 0,
+  totalLatencyMs: 0,
+  lastSuccessAt: null,
+  lastFailureAt: null,
+  lastError: null,
+});
+
+const isEmpty = (value: unknown) =>
+  value == null || (Array.isArray(value) && value.length === 0) || (value instanceof Map && value.size === 0);
+
+export class MarketDataRouter {
+  private providers = new Map<ProviderId, MarketDataProvider>();
+  private breakers = new Map<ProviderId, CircuitBreaker>();
+  private budgets = new Map<ProviderId, RateLimitBudget>();
+  private stats = new Map<ProviderId, ProviderStats>();
+  private order: Record<MarketDataCapability, ProviderId[]>;
+  private listeners = new Set<() => void>();
+  private snapshot: ProviderHealth[] | null = null;
+  private now: () => number;
+
+  constructor(providers: MarketDataProvider[], config: MarketDataRouterConfig) {
+    this.now = config.now ?? Date.now;
+    providers.forEach(p => {
+      this.providers.set(p.id, p);
+      this.breakers.set(p.id, new CircuitBreaker(config.breaker));
+      this.stats.set(p.id, emptyStats());
+      const budget = config.budgets?.[p.id];
+      if (budget) this.budgets.set(p.id, new RateLimitBudget(budget));
+    });
+    this.order = { quote: [], bars: [], search: [], profile: [] };
+    MARKET_DATA_CAPABILITIES.forEach(c => this.setOrder(c, config.order[c]));
+  }
+
+  /**
+   * Fallback order for a capability; providers that are unknown or lack the capability are dropped
+   */
+  setOrder(capability: MarketDataCapability, order: ProviderId[]): void {
+    this.order[capability] = [...new Set(order)].filter(id => this.supports(id, capability));
+    this.changed();
+  }
+
+  getOrder(capability: MarketDataCapability): ProviderId[] {
+    return [...this.order[capability]];
+  }
+
+  supports(id: ProviderId, capability: MarketDataCapability): boolean {
+    const provider = this.providers.get(id);
+    if (!provider) return false;
+    return capability === 'quote' ? !!(provider.quote || provider.quotes) : !!provider[capability];
+  }
+
+  async quote(symbol: string, options: RouteOptions = {}): Promise<ProvidedResult<RoutedQuote>> {
+    const upper = symbol.toUpperCase();
+    const result = await this.route('quote', options, async p => {
+      if (p.quote) return p.quote(upper);
+      return (await p.quotes!([upper])).get(upper) ?? null;
+    });
+    return { ...result, data: result.data && result.provider ? { ...result.data, symbol: upper, provider: result.provider } : null };
+  }
+
+  /**
+   * Quotes for many symbols: each provider in turn is asked for whatever earlier ones could not supply
+   */
+  async quotes(symbols: string[], options: RouteOptions = {}): Promise<BatchQuoteResult> {
+    const quotes = new Map<string, RoutedQuote>();
+    const attempts: ProviderAttempt[] = [];
+    let remaining = [...new Set(symbols.map(s => s.toUpperCase()))];
+
+    for (const id of this.resolveOrder('quote', options)) {
+      if (remaining.length === 0) break;
+      const provider = this.providers.get(id)!;
+      const fetched = new Map<string, ProviderQuote>();
+
+      if (provider.quotes) {
+        const attempt = await this.attempt(provider, () => provider.quotes!(remaining));
+        attempts.push(attempt.record);
+        attempt.data?.forEach((q, s) => fetched.set(s.toUpperCase(), q));
+      } else {
+        for (const symbol of remaining) {
+          const attempt = await this.attempt(provider, () => provider.quote!(symbol));
+          attempts.push(attempt.record);
+          if (attempt.data) fetched.set(symbol, attempt.data);
+          if (attempt.record.outcome === 'rate_limited' || attempt.record.outcome === 'circuit_open') break;
+        }
+      }
+
+      fetched.forEach((q, symbol) => {
+        if (remaining.includes(symbol)) quotes.set(symbol, { ...q, symbol, provider: id });
+      });
+      remaining = remaining.filter(s => !quotes.has(s));
+    }
+
+    return { quotes, missing: remaining, attempts };
+  }
+
+  bars(symbol: string, startDate: string, endDate: string, options: RouteOptions = {}): Promise<ProvidedResult<ProviderBar[]>> {
+    const upper = symbol.toUpperCase();
+    return this.route('bars', options, p => p.bars!(upper, startDate, endDate));
+  }
+
+  search(query: string, options: RouteOptions = {}): Promise<ProvidedResult<ProviderSearchResult[]>> {
+    return this.route('search', options, p => p.search!(query));
+  }
+
+  profile(symbol: string, options: RouteOptions = {}): Promise<ProvidedResult<ProviderProfile>> {
+    const upper = symbol.toUpperCase();
+    return this.route('profile', options, p => p.profile!(upper));
+  }
+
+  /**
+   * Per-provider health, stable between changes so React can subscribe to it
+   */
+  getHealth(): ProviderHealth[] {
+    if (this.snapshot) return this.snapshot;
+    const now = this.now();
+    this.snapshot = [...this.providers.values()].map(p => {
+      const stats = this.stats.get(p.id)!;
+      const breaker = this.breakers.get(p.id)!;
+      const budget = this.budgets.get(p.id);
+      const state = breaker.state(now);
+      return {
+        id: p.id,
+        label: p.label,
+        state,
+        calls: stats.calls,
+        successes: stats.successes,
+        empties: stats.empties,
+        failures: stats.failures,
+        rateLimited: stats.rateLimited,
+        circuitSkips: stats.circuitSkips,
+        consecutiveFailures: breaker.consecutiveFailures,
+        averageLatencyMs: stats.calls > 0 ? stats.totalLatencyMs / stats.calls : null,
+        lastSuccessAt: stats.lastSuccessAt,
+        lastFailureAt: stats.lastFailureAt,
+        lastError: stats.lastError,
+        reopensAt: state === 'closed' ? null : breaker.reopensAt(),
+        budget: budget ? { ...budget.budget, remaining: budget.remaining(now) } : null,
+      };
+    });
+    return this.snapshot;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  resetHealth(): void {
+    this.providers.forEach((_, id) => {
+      this.stats.set(id, emptyStats());
+      this.breakers.get(id)!.recordSuccess();
+    });
+    this.changed();
+  }
+
+  private changed() {
+    this.snapshot = null;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private resolveOrder(capability: MarketDataCapability, options: RouteOptions): ProviderId[] {
+    return options.order ? options.order.filter(id => this.supports(id, capability)) : this.order[capability];
+  }
+
+  private async route<T>(
+    capability: MarketDataCapability,
+    options: RouteOptions,
+    call: (provider: MarketDataProvider) => Promise<T | null>
+  ): Promise<ProvidedResult<T>> {
+    const attempts: ProviderAttempt[] = [];
+    for (const id of this.resolveOrder(capability, options)) {
+      const provider = this.providers.get(id)!;
+      const attempt = await this.attempt(provider, () => call(provider));
+      attempts.push(attempt.record);
+      if (attempt.record.outcome === 'ok') return { data: attempt.data, provider: id, attempts };
+    }
+    return { data: null, provider: null, attempts };
+  }
+
+  private async attempt<T>(provider: MarketDataProvider, call: () => Promise<T | null>): Promise<{ data: T | null; record: ProviderAttempt }> {
+    const stats = this.stats.get(provider.id)!;
+    const breaker = this.breakers.get(provider.id)!;
+    const budget = this.budgets.get(provider.id);
+
+    if (!breaker.allow(this.now())) {
+      stats.circuitSkips++;
+      this.changed();
+      return { data: null, record: { provider: provider.id, outcome: 'circuit_open' } };
+    }
+    if (budget && !budget.tryAcquire(this.now())) {
+      breaker.releaseTrial();
+      stats.rateLimited++;
+      this.changed();
+      return { data: null, record: { provider: provider.id, outcome: 'rate_limited' } };
+    }
+
+    const started = this.now();
+    stats.calls++;
+    try {
+      const data = await call();
+      const latencyMs = this.now() - started;
+      stats.totalLatencyMs += latencyMs;
+      breaker.recordSuccess();
+      stats.lastSuccessAt = this.now();
+      const empty = isEmpty(data);
+      if (empty) stats.empties++;
+      else stats.successes++;
+      this.changed();
+      return { data: empty ? null : data, record: { provider: provider.id, outcome: empty ? 'empty' : 'ok', latencyMs } };
+    } catch (e) {
+      const latencyMs = this.now() - started;
+      const error = e instanceof Error ? e.message : String(e);
+      stats.totalLatencyMs += latencyMs;
+      stats.failures++;
+      stats.lastFailureAt = this.now();
+      stats.lastError = error;
+      breaker.recordFailure(this.now());
+      this.changed();
+      return { data: null, record: { provider: provider.id, outcome: 'error', error, latencyMs } };
+    }
+  }
+}
@@ -1,4 +1,3 @@
-import { supabase } from '@/integrations/supabase/client';
 import { 
   getMockStock, 
   getMockIndex, 
@@ -6,6 +5,8 @@ import {
   MOCK_DATA_DATE,
   type MockQuote 
 } from '@/data/mockMarketData';
+import { marketDataRouter } from './marketDataProviders';
+import type { ProviderId, RoutedQuote } from './marketDataRouter';
 
 // Types
 export interface QuoteData {
@@ -22,6 +23,7 @@ export interface QuoteData {
   previousClose?: number;
   source?: 'live' | 'cache' | 'mock';
   isMock?: boolean;
+  provider?: ProviderId; // Which provider supplied a live quote
 }
 
 export interface TickerSearchResult {
@@ -123,6 +125,34 @@ function mockToQuoteData(mock: MockQuote): QuoteData {
   };
 }
 
+// Map a routed quote to QuoteData; the router supplies no 52-week range or market cap
+export function routedToQuoteData(rq: RoutedQuote): QuoteData {
+  return {
+    price: rq.price,
+    change: rq.change,
+    changePercent: rq.changePercent,
+    high: rq.high,
+    low: rq.low,
+    open: rq.open,
+    previousClose: rq.previousClose,
+    volume: rq.volume !== undefined ? rq.volume.toLocaleString() : '—',
+    marketCap: '—',
+    high52: rq.high,  // Use daily high as fallback
+    low52: rq.low,    // Use daily low as fallback
+    source: rq.provider === 'mock' ? 'mock' : 'live',
+    isMock: rq.provider === 'mock',
+    provider: rq.provider,
+  };
+}
+
+// Major index ETFs as proxies
+export const INDEX_PROXIES: { symbol: string; name: string }[] = [
+  { symbol: 'SPY', name: 'S&P 500' },
+  { symbol: 'QQQ', name: 'NASDAQ' },
+  { symbol: 'DIA', name: 'DOW' },
+  { symbol: 'IWM', name: 'Russell 2000' },
+];
+
 // API Functions
 export async function getQuote(ticker: string): Promise<QuoteData> {
   const cacheKey = `quote:${ticker.toUpperCase()}`;
@@ -144,22 +174,20 @@ export async function getQuote(ticker: string): Promise<QuoteData> {
     throw new Error('Market data is paused. No cached or mock data available.');
   }
 
-  logApiCall('market-data/quote', { ticker: ticker.toUpperCase() });
+  logApiCall('router/quote', { ticker: ticker.toUpperCase() });
 
-  const { data, error } = await supabase.functions.invoke('market-data', {
-    body: { type: 'quote', ticker: ticker.toUpperCase() }
-  });
+  const { data: quote, attempts } = await marketDataRouter.quote(ticker);
 
-  if (error || !data?.success) {
-    // Try mock as fallback on error
+  if (!quote) {
+    // Try mock as fallback when no provider has the quote
     const mockData = getMockStock(ticker);
     if (mockData) {
       return mockToQuoteData(mockData);
     }
-    throw new Error(error?.message || data?.error || 'Failed to fetch quote');
+    throw new Error(attempts.find(a => a.error)?.error || 'Failed to fetch quote from any market data provider');
   }
 
-  const result = { ...data.data, source: 'live', isMock: false };
+  const result = routedToQuoteData(quote);
   setCache(cacheKey, result);
   return result;
 }
@@ -187,26 +215,18 @@ export async function searchTicker(query: string): Promise<TickerSearchResult[]>
     }));
   }
 
-  logApiCall('market-data/tickerSearch', { query });
-
-  const { data, error } = await supabase.functions.invoke('market-data', {
-    body: { type: 'tickerSearch', query }
-  });
+  logApiCall('router/search', { query });
 
-  if (error || !data?.success) {
-    // Fallback to mock search on error
-    const { searchMockStocks } = await import('@/data/mockMarketData');
-    const mockResults = searchMockStocks(query);
-    return mockResults.map(m => ({
-      symbol: m.symbol,
-      name: m.name,
-      exchange: 'MOCK',
-      source: 'mock' as const,
-    }));
-  }
+  // The search order ends with the sample data provider, so a routed search covers the mock fallback
+  const { data, provider } = await marketDataRouter.search(query);
 
-  const results = data.data.map((r: TickerSearchResult) => ({ ...r, source: 'live' as const }));
-  setCache(cacheKey, results);
+  const results = (data ?? []).map(r => ({
+    symbol: r.symbol,
+    name: r.name,
+    exchange: provider === 'mock' ? 'MOCK' : r.exchange ?? '',
+    source: provider === 'mock' ? ('mock' as const) : ('live' as const),
+  }));
+  if (provider !== 'mock' && results.length > 0) setCache(cacheKey, results);
   return results;
 }
 
@@ -232,14 +252,12 @@ export async function getMarketIndices(): Promise<MarketIndex[]> {
     }));
   }
 
-  logApiCall('market-data/indices', {});
+  logApiCall('router/quotes', { symbols: INDEX_PROXIES.map(i => i.symbol) });
 
-  const { data, error } = await supabase.functions.invoke('market-data', {
-    body: { type: 'indices' }
-  });
+  const { quotes } = await marketDataRouter.quotes(INDEX_PROXIES.map(i => i.symbol));
 
-  if (error || !data?.success) {
-    // Fallback to mock indices on error
+  if (quotes.size === 0) {
+    // Fallback to mock indices when no provider answers
     return Object.values(MOCK_INDICES).map(idx => ({
       name: idx.name,
       symbol: idx.symbol,
@@ -251,7 +269,18 @@ export async function getMarketIndices(): Promise<MarketIndex[]> {
     }));
   }
 
-  const results = data.data.map((i: MarketIndex) => ({ ...i, source: 'live' as const, isMock: false }));
+  const results = INDEX_PROXIES.map(({ symbol, name }) => {
+    const quote = quotes.get(symbol);
+    return {
+      name,
+      symbol,
+      value: quote?.price || 0,
+      change: quote?.change || 0,
+      changePercent: quote?.changePercent || 0,
+      source: 'live' as const,
+      isMock: false,
+    };
+  });
   setCache(cacheKey, results);
   return results;
 }
@@ -287,35 +316,28 @@ export async function getCompanyInfo(ticker: string): Promise<CompanyInfo> {
     throw new Error('Market data is paused. No cached or mock data available.');
   }
 
-  logApiCall('market-data/companyInfo', { ticker: ticker.toUpperCase() });
+  logApiCall('router/profile', { ticker: ticker.toUpperCase() });
 
-  const { data, error } = await supabase.functions.invoke('market-data', {
-    body: { type: 'companyInfo', ticker: ticker.toUpperCase() }
-  });
+  const { data: profile, provider, attempts } = await marketDataRouter.profile(ticker);
 
-  if (error || !data?.success) {
-    // Try mock as fallback
-    const mockStock = getMockStock(ticker);
-    if (mockStock) {
-      return {
-        name: mockStock.name,
-        ticker: mockStock.symbol,
-        exchange: 'MOCK',
-        sector: 'Technology',
-        industry: 'Software',
-        peRatio: null,
-        eps: null,
-        dividendYield: null,
-        description: `${mockStock.name} - Sample data for development.`,
-        source: 'mock',
-        isMock: true,
-      };
-    }
-    throw new Error(error?.message || data?.error || 'Failed to fetch company info');
+  if (!profile) {
+    throw new Error(attempts.find(a => a.error)?.error || 'Failed to fetch company info');
   }
 
-  const result = { ...data.data, source: 'live', isMock: false };
-  setCache(cacheKey, result);
+  const result: CompanyInfo = {
+    name: profile.name,
+    ticker: profile.symbol,
+    exchange: profile.exchange || (provider === 'mock' ? 'MOCK' : ''),
+    sector: profile.industry || '',
+    industry: profile.industry || '',
+    peRatio: null,
+    eps: null,
+    dividendYield: null,
+    description: provider === 'mock' ? `${profile.name} - Sample data for development.` : '',
+    source: provider === 'mock' ? 'mock' : 'live',
+    isMock: provider === 'mock',
+  };
+  if (provider !== 'mock') setCache(cacheKey, result);
   return result;
 }
 
@@ -0,0 +1,127 @@
+// Mock Quote Feed - Synthetic trade ticks spoken over the Polygon or Finnhub WebSocket protocol
+// Backs the dev server's mock quote socket and the streaming tests
+
+import { createNormalSampler, createRng, hashSeed } from './seededRandom';
+
+export const MOCK_QUOTE_STREAM_PATH = '/mock-quotes';
+
+export interface MockQuoteFeedOptions {
+  seed?: number;
+  intervalMs?: number; // How often every subscribed symbol trades
+  volatility?: number; // Standard deviation of each tick's log return
+  now?: () => number;
+}
+
+interface ClientMessage {
+  action?: string; // Polygon: auth, subscribe, unsubscribe
+  params?: string;
+  type?: string; // Finnhub: subscribe, unsubscribe
+  symbol?: string;
+}
+
+/**
+ * One client's session: answers auth and subscriptions, then trades a random walk for each subscribed symbol.
+ * The dialect is taken from the first subscription message, so either client protocol can connect.
+ */
+export class MockQuoteFeed {
+  private send: (data: string) => void;
+  private intervalMs: number;
+  private volatility: number;
+  private now: () => number;
+  private normal: () => number;
+  private uniform: () => number;
+  private dialect: 'polygon' | 'finnhub' = 'polygon';
+  private authenticated = false;
+  private prices = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(send: (data: string) => void, options: MockQuoteFeedOptions = {}) {
+    this.send = send;
+    this.intervalMs = options.intervalMs ?? 500;
+    this.volatility = options.volatility ?? 0.0008;
+    this.now = options.now ?? Date.now;
+    this.uniform = createRng(options.seed ?? hashSeed(this.now()));
+    this.normal = createNormalSampler(this.uniform);
+    this.status('connected', 'Connected Successfully');
+  }
+
+  get symbols(): string[] {
+    return [...this.prices.keys()];
+  }
+
+  receive(data: string) {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'subscribe' || message.type === 'unsubscribe') {
+      this.dialect = 'finnhub';
+      this.authenticated = true; // Finnhub authenticates with the URL token
+      const symbol = message.symbol?.toUpperCase();
+      if (symbol) this.update([symbol], message.type === 'subscribe');
+      return;
+    }
+
+    if (message.action === 'auth') {
+      this.authenticated = !!message.params;
+      if (this.authenticated) this.status('auth_success', 'authenticated');
+      else this.status('auth_failed', 'authentication failed');
+      return;
+    }
+
+    if (message.action === 'subscribe' || message.action === 'unsubscribe') {
+      if (!this.authenticated) {
+        this.status('error', 'not authorized');
+        return;
+      }
+      const symbols = (message.params ?? '')
+        .split(',')
+        .map(p => p.trim().replace(/^T\./, '').toUpperCase())
+        .filter(Boolean);
+      this.update(symbols, message.action === 'subscribe');
+      this.status('success', `${message.action}d to: ${symbols.map(s => `T.${s}`).join(',')}`);
+    }
+  }
+
+  /**
+   * Trade every subscribed symbol once
+   */
+  tick() {
+    if (this.prices.size === 0) return;
+    const timestamp = this.now();
+    const trades = [...this.prices].map(([symbol, price]) => {
+      const next = Math.round(price * Math.exp(this.volatility * this.normal()) * 100) / 100;
+      this.prices.set(symbol, next);
+      return { symbol, price: next, size: 1 + Math.floor(this.uniform() * 500) };
+    });
+
+    if (this.dialect === 'finnhub') {
+      this.send(JSON.stringify({ type: 'trade', data: trades.map(t => ({ s: t.symbol, p: t.price, v: t.size, t: timestamp })) }));
+    } else {
+      this.send(JSON.stringify(trades.map(t => ({ ev: 'T', sym: t.symbol, p: t.price, s: t.size, t: timestamp }))));
+    }
+  }
+
+  start() {
+    if (!this.timer) this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private update(symbols: string[], subscribe: boolean) {
+    symbols.forEach(symbol => {
+      if (!subscribe) this.prices.delete(symbol);
+      else if (!this.prices.has(symbol)) this.prices.set(symbol, 20 + (hashSeed(symbol) % 48000) / 100); // Stable starting price per symbol
+    });
+  }
+
+  private status(status: string, message: string) {
+    if (this.dialect === 'polygon') this.send(JSON.stringify([{ ev: 'status', status, message }]));
+  }
+}
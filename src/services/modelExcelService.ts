@@ -0,0 +1,419 @@
+// Model Excel Service - Formula-driven .xlsx export of cash flow buildup models and assumptions import
+import * as XLSX from 'xlsx';
+import {
+  HistoricalFinancials,
+  ProjectionAssumptions,
+  ThreeStatementProjection,
+  YearSeries,
+  runThreeStatementProjection,
+} from './threeStatementEngine';
+
+export const ASSUMPTIONS_SHEET = 'Assumptions';
+
+type CellFormat = 'currency' | 'percent';
+
+interface AssumptionRow {
+  key: keyof ProjectionAssumptions;
+  label: string;
+  name: string; // Workbook defined name used in formulas
+  format: CellFormat;
+}
+
+// Percent assumptions are stored as decimals in the workbook so formulas read naturally
+const ASSUMPTION_ROWS: AssumptionRow[] = [
+  { key: 'revenue_growth', label: 'Revenue Growth', name: 'Revenue_Growth', format: 'percent' },
+  { key: 'ebitda_margin', label: 'EBITDA Margin', name: 'EBITDA_Margin', format: 'percent' },
+  { key: 'sbc_pct', label: 'Stock-Based Comp % Revenue', name: 'SBC_Pct', format: 'percent' },
+  { key: 'da_pct', label: 'D&A % Revenue', name: 'DA_Pct', format: 'percent' },
+  { key: 'capex_pct', label: 'CapEx % Revenue', name: 'CapEx_Pct', format: 'percent' },
+  { key: 'nwc_pct', label: 'NWC % Revenue', name: 'NWC_Pct', format: 'percent' },
+  { key: 'tax_rate', label: 'Tax Rate', name: 'Tax_Rate', format: 'percent' },
+  { key: 'interest_rate', label: 'Interest Rate on Debt', name: 'Interest_Rate', format: 'percent' },
+  { key: 'cash_interest_rate', label: 'Interest Rate on Cash', name: 'Cash_Interest_Rate', format: 'percent' },
+  { key: 'debt_repayment_pct', label: 'Debt Repayment % Opening Debt', name: 'Debt_Repayment_Pct', format: 'percent' },
+];
+
+const NUMBER_FORMATS: Record<CellFormat, string> = {
+  currency: '#,##0.0;(#,##0.0);"–"',
+  percent: '0.0%',
+};
+
+const SHEETS = {
+  income: 'Income Statement',
+  buildup: 'Cash Flow Buildup',
+  bridge: 'Cash Bridge',
+  balance: 'Balance Sheet',
+  metrics: 'Key Metrics',
+} as const;
+
+type SheetKey = keyof typeof SHEETS;
+
+const HEADER_ROWS = 4; // Title, blank, year header, actual/projected marker
+const FIRST_YEAR_COL = 1; // Column B
+
+interface ColumnContext {
+  year: string;
+  col: string;
+  prevCol: string | null;
+  projected: boolean;
+}
+
+interface RowSpec {
+  key: string;
+  label: string;
+  format?: CellFormat;
+  values?: YearSeries; // Cached values; formulas are recalculated by Excel on open
+  formula?: (ctx: ColumnContext, ref: (sheet: SheetKey, row: string, col: string) => string) => string | null;
+}
+
+const colLetter = (index: number) => XLSX.utils.encode_col(index);
+
+const quoteSheet = (name: string) => (/[^A-Za-z0-9_]/.test(name) ? `'${name}'` : name);
+
+function buildRowIndex(layouts: Record<SheetKey, RowSpec[]>): Record<SheetKey, Record<string, number>> {
+  const index = {} as Record<SheetKey, Record<string, number>>;
+  (Object.keys(layouts) as SheetKey[]).forEach(sheet => {
+    index[sheet] = {};
+    layouts[sheet].forEach((row, i) => {
+      index[sheet][row.key] = HEADER_ROWS + i + 1; // 1-based Excel row
+    });
+  });
+  return index;
+}
+
+function layoutSheets(p: ThreeStatementProjection): Record<SheetKey, RowSpec[]> {
+  const is = p.income_statement;
+  const bs = p.balance_sheet;
+  const cf = p.cash_flow_statement;
+  const lastHistorical = p.historical_years[p.historical_years.length - 1];
+
+  const ifProjected = (build: (ctx: ColumnContext, ref: (s: SheetKey, r: string, c: string) => string) => string) =>
+    (ctx: ColumnContext, ref: (s: SheetKey, r: string, c: string) => string) => (ctx.projected ? build(ctx, ref) : null);
+
+  // Projected columns always have a prior column; the last historical year anchors the roll-forward.
+  // Its cash and debt come from the projection, so opening_cash / opening_debt overrides land there too.
+  const prev = (ctx: ColumnContext) => ctx.prevCol as string;
+
+  const income: RowSpec[] = [
+    { key: 'revenue', label: 'Revenue', values: is.revenue,
+      formula: ifProjected((c, ref) => `${ref('income', 'revenue', prev(c))}*(1+Revenue_Growth)`) },
+    { key: 'ebitda', label: 'EBITDA', values: is.ebitda,
+      formula: ifProjected((c, ref) => `${ref('income', 'revenue', c.col)}*EBITDA_Margin`) },
+    { key: 'sbc', label: 'Stock-Based Compensation', values: is.sbc,
+      formula: ifProjected((c, ref) => `${ref('income', 'revenue', c.col)}*SBC_Pct`) },
+    { key: 'depreciation', label: 'Depreciation & Amortization', values: is.depreciation,
+      formula: ifProjected((c, ref) => `${ref('income', 'revenue', c.col)}*DA_Pct`) },
+    { key: 'ebit', label: 'EBIT', values: is.ebit,
+      formula: (c, ref) =>
+        c.projected || (is.ebitda[c.year] !== undefined && is.depreciation[c.year] !== undefined)
+          ? `${ref('income', 'ebitda', c.col)}-${ref('income', 'depreciation', c.col)}`
+          : null },
+    { key: 'interest_expense', label: 'Interest Expense', values: is.interest_expense,
+      formula: ifProjected((c, ref) => `Interest_Rate*(${ref('balance', 'debt', prev(c))}+${ref('balance', 'debt', c.col)})/2`) },
+    // Interest income on average cash is circular; this is its closed-form solution so the
+    // workbook needs no iterative calculation. Tax applies when pre-interest-income EBT is positive.
+    { key: 'interest_income', label: 'Interest Income', values: is.interest_income,
+      formula: ifProjected((c, ref) => {
+        const x = `(${ref('income', 'ebit', c.col)}-${ref('income', 'interest_expense', c.col)})`;
+        const keep = `(1-IF(${x}>0,Tax_Rate,0))`;
+        const rest = [
+          ref('income', 'depreciation', c.col),
+          ref('income', 'sbc', c.col),
+          ref('buildup', 'change_nwc', c.col),
+          ref('buildup', 'capex', c.col),
+          ref('buildup', 'debt_repayment', c.col),
+        ].join('+');
+        return `Cash_Interest_Rate*(2*${ref('balance', 'cash', prev(c))}+${x}*${keep}+${rest})/(2-Cash_Interest_Rate*${keep})`;
+      }) },
+    { key: 'ebt', label: 'Pre-Tax Income', values: is.ebt,
+      formula: ifProjected((c, ref) =>
+        `${ref('income', 'ebit', c.col)}-${ref('income', 'interest_expense', c.col)}+${ref('income', 'interest_income', c.col)}`) },
+    { key: 'taxes', label: 'Taxes', values: is.taxes,
+      formula: ifProjected((c, ref) => `MAX(0,${ref('income', 'ebt', c.col)}*Tax_Rate)`) },
+    { key: 'net_income', label: 'Net Income', values: is.net_income,
+      formula: ifProjected((c, ref) => `${ref('income', 'ebt', c.col)}-${ref('income', 'taxes', c.col)}`) },
+  ];
+
+  const buildup: RowSpec[] = [
+    { key: 'net_income', label: 'Net Income', values: cf.net_income,
+      formula: ifProjected((c, ref) => ref('income', 'net_income', c.col)) },
+    { key: 'add_back_da', label: '+ D&A', values: cf.add_back_da,
+      formula: ifProjected((c, ref) => ref('income', 'depreciation', c.col)) },
+    { key: 'add_back_sbc', label: '+ Stock-Based Compensation', values: cf.add_back_sbc,
+      formula: ifProjected((c, ref) => ref('income', 'sbc', c.col)) },
+    { key: 'change_nwc', label: '(Increase) / Decrease in NWC', values: cf.change_nwc,
+      formula: ifProjected((c, ref) => `-(${ref('balance', 'net_working_capital', c.col)}-${ref('balance', 'net_working_capital', prev(c))})`) },
+    { key: 'cash_from_operations', label: 'Cash from Operations', values: cf.cash_from_operations,
+      formula: ifProjected((c, ref) =>
+        ['net_income', 'add_back_da', 'add_back_sbc', 'change_nwc'].map(r => ref('buildup', r, c.col)).join('+')) },
+    { key: 'capex', label: 'Capital Expenditures', values: cf.capex,
+      formula: ifProjected((c, ref) => `-${ref('income', 'revenue', c.col)}*CapEx_Pct`) },
+    { key: 'cash_from_investing', label: 'Cash from Investing', values: cf.cash_from_investing,
+      formula: ifProjected((c, ref) => ref('buildup', 'capex', c.col)) },
+    { key: 'debt_repayment', label: 'Debt Repayment', values: cf.debt_repayment,
+      formula: ifProjected((c, ref) => {
+        const opening = ref('balance', 'debt', prev(c));
+        return `-MIN(${opening},${opening}*Debt_Repayment_Pct)`;
+      }) },
+    { key: 'cash_from_financing', label: 'Cash from Financing', values: cf.cash_from_financing,
+      formula: ifProjected((c, ref) => ref('buildup', 'debt_repayment', c.col)) },
+    { key: 'net_change_in_cash', label: 'Net Change in Cash', values: cf.net_change_in_cash,
+      formula: ifProjected((c, ref) =>
+        ['cash_from_operations', 'cash_from_investing', 'cash_from_financing'].map(r => ref('buildup', r, c.col)).join('+')) },
+    { key: 'unlevered_fcf', label: 'Unlevered Free Cash Flow', values: cf.unlevered_fcf,
+      formula: ifProjected((c, ref) =>
+        `${ref('income', 'ebit', c.col)}*(1-Tax_Rate)+${ref('income', 'depreciation', c.col)}+${ref('income', 'sbc', c.col)}+${ref('buildup', 'change_nwc', c.col)}+${ref('buildup', 'capex', c.col)}`) },
+    { key: 'levered_fcf', label: 'Levered Free Cash Flow', values: cf.levered_fcf,
+      formula: ifProjected((c, ref) => `${ref('buildup', 'cash_from_operations', c.col)}+${ref('buildup', 'capex', c.col)}`) },
+  ];
+
+  const bridgeValues = (pick: (year: string, i: number) => number | undefined): YearSeries => {
+    const out: YearSeries = {};
+    p.projection_years.forEach((year, i) => {
+      const v = pick(year, i);
+      if (v !== undefined) out[year] = v;
+    });
+    return out;
+  };
+
+  const bridge: RowSpec[] = [
+    { key: 'opening_cash', label: 'Opening Cash',
+      values: bridgeValues((_, i) => bs.cash[i === 0 ? lastHistorical : p.projection_years[i - 1]]),
+      formula: ifProjected((c, ref) => ref('balance', 'cash', prev(c))) },
+    { key: 'cfo', label: '+ Cash from Operations', values: bridgeValues(y => cf.cash_from_operations[y]),
+      formula: ifProjected((c, ref) => ref('buildup', 'cash_from_operations', c.col)) },
+    { key: 'cfi', label: '+ Cash from Investing', values: bridgeValues(y => cf.cash_from_investing[y]),
+      formula: ifProjected((c, ref) => ref('buildup', 'cash_from_investing', c.col)) },
+    { key: 'cff', label: '+ Cash from Financing', values: bridgeValues(y => cf.cash_from_financing[y]),
+      formula: ifProjected((c, ref) => ref('buildup', 'cash_from_financing', c.col)) },
+    { key: 'closing_cash', label: 'Closing Cash', values: bridgeValues(y => bs.cash[y]),
+      formula: ifProjected((c, ref) => ['opening_cash', 'cfo', 'cfi', 'cff'].map(r => ref('bridge', r, c.col)).join('+')) },
+  ];
+
+  const balance: RowSpec[] = [
+    { key: 'cash', label: 'Cash', values: bs.cash,
+      formula: ifProjected((c, ref) => `${ref('balance', 'cash', prev(c))}+${ref('buildup', 'net_change_in_cash', c.col)}`) },
+    { key: 'net_working_capital', label: 'Net Working Capital', values: bs.net_working_capital,
+      formula: ifProjected((c, ref) => `${ref('income', 'revenue', c.col)}*NWC_Pct`) },
+    { key: 'net_ppe', label: 'Net PP&E', values: bs.net_ppe,
+      formula: ifProjected((c, ref) =>
+        `${ref('balance', 'net_ppe', prev(c))}-${ref('buildup', 'capex', c.col)}-${ref('income', 'depreciation', c.col)}`) },
+    { key: 'total_assets', label: 'Total Assets', values: bs.total_assets,
+      formula: (c, ref) =>
+        c.projected || c.year === lastHistorical
+          ? ['cash', 'net_working_capital', 'net_ppe'].map(r => ref('balance', r, c.col)).join('+')
+          : null },
+    { key: 'debt', label: 'Total Debt', values: bs.debt,
+      formula: ifProjected((c, ref) => `${ref('balance', 'debt', prev(c))}+${ref('buildup', 'debt_repayment', c.col)}`) },
+    { key: 'equity', label: 'Shareholders\' Equity', values: bs.equity,
+      formula: (c, ref) => {
+        if (c.year === lastHistorical) return `${ref('balance', 'total_assets', c.col)}-${ref('balance', 'debt', c.col)}`;
+        if (!c.projected) return null;
+        return `${ref('balance', 'equity', prev(c))}+${ref('income', 'net_income', c.col)}+${ref('income', 'sbc', c.col)}`;
+      } },
+    { key: 'total_liabilities_and_equity', label: 'Total Liabilities & Equity', values: bs.total_liabilities_and_equity,
+      formula: (c, ref) =>
+        c.projected || c.year === lastHistorical
+          ? `${ref('balance', 'debt', c.col)}+${ref('balance', 'equity', c.col)}`
+          : null },
+    { key: 'balance_check', label: 'Balance Check (should be 0)', values: p.balance_check,
+      formula: (c, ref) =>
+        c.projected || c.year === lastHistorical
+          ? `${ref('balance', 'total_assets', c.col)}-${ref('balance', 'total_liabilities_and_equity', c.col)}`
+          : null },
+  ];
+
+  const ratio = (numSheet: SheetKey, numRow: string, denSheet: SheetKey, denRow: string, abs = false) =>
+    (c: ColumnContext, ref: (s: SheetKey, r: string, col: string) => string) => {
+      const num = ref(numSheet, numRow, c.col);
+      const den = ref(denSheet, denRow, c.col);
+      return `IF(${den}=0,0,${abs ? `ABS(${num})` : num}/${den})`;
+    };
+  const metricValues = (compute: (year: string, i: number) => number | undefined): YearSeries => {
+    const out: YearSeries = {};
+    p.all_years.forEach((year, i) => {
+      const v = compute(year, i);
+      if (v !== undefined && Number.isFinite(v)) out[year] = v;
+    });
+    return out;
+  };
+  const hasAll = (...series: YearSeries[]) => (year: string) => series.every(s => s[year] !== undefined);
+  const onlyWith = (check: (year: string) => boolean, build: RowSpec['formula']) =>
+    (c: ColumnContext, ref: (s: SheetKey, r: string, col: string) => string) => (check(c.year) ? build!(c, ref) : null);
+
+  const metrics: RowSpec[] = [
+    { key: 'revenue_growth_pct', label: 'Revenue Growth', format: 'percent',
+      values: metricValues((y, i) => (i > 0 && is.revenue[p.all_years[i - 1]] ? is.revenue[y] / is.revenue[p.all_years[i - 1]] - 1 : undefined)),
+      formula: (c, ref) => {
+        const i = p.all_years.indexOf(c.year);
+        if (i === 0 || is.revenue[c.year] === undefined || !is.revenue[p.all_years[i - 1]]) return null;
+        return `${ref('income', 'revenue', c.col)}/${ref('income', 'revenue', prev(c))}-1`;
+      } },
+    { key: 'ebitda_margin_pct', label: 'EBITDA Margin', format: 'percent',
+      values: metricValues(y => (is.revenue[y] ? is.ebitda[y] / is.revenue[y] : undefined)),
+      formula: onlyWith(hasAll(is.revenue, is.ebitda), ratio('income', 'ebitda', 'income', 'revenue')) },
+    { key: 'ufcf_margin_pct', label: 'UFCF Margin', format: 'percent',
+      values: metricValues(y => (cf.unlevered_fcf[y] !== undefined ? cf.unlevered_fcf[y] / is.revenue[y] : undefined)),
+      formula: ifProjected(ratio('buildup', 'unlevered_fcf', 'income', 'revenue')) },
+    { key: 'lfcf_margin_pct', label: 'LFCF Margin', format: 'percent',
+      values: metricValues(y => (cf.levered_fcf[y] !== undefined ? cf.levered_fcf[y] / is.revenue[y] : undefined)),
+      formula: ifProjected(ratio('buildup', 'levered_fcf', 'income', 'revenue')) },
+    { key: 'cash_conversion_pct', label: 'Cash Conversion (UFCF / EBITDA)', format: 'percent',
+      values: metricValues(y => (cf.unlevered_fcf[y] !== undefined && is.ebitda[y] ? cf.unlevered_fcf[y] / is.ebitda[y] : undefined)),
+      formula: ifProjected(ratio('buildup', 'unlevered_fcf', 'income', 'ebitda')) },
+    { key: 'capex_intensity_pct', label: 'CapEx Intensity', format: 'percent',
+      values: metricValues(y => (cf.capex[y] !== undefined && is.revenue[y] ? Math.abs(cf.capex[y]) / is.revenue[y] : undefined)),
+      formula: onlyWith(hasAll(is.revenue, cf.capex), ratio('buildup', 'capex', 'income', 'revenue', true)) },
+  ];
+
+  return { income, buildup, bridge, balance, metrics };
+}
+
+function setCell(ws: XLSX.WorkSheet, r: number, c: number, cell: XLSX.CellObject) {
+  ws[XLSX.utils.encode_cell({ r, c })] = cell;
+}
+
+function writeAssumptionsSheet(companyName: string, assumptions: ProjectionAssumptions): { ws: XLSX.WorkSheet; names: { Name: string; Ref: string }[] } {
+  const ws: XLSX.WorkSheet = {};
+  const names: { Name: string; Ref: string }[] = [];
+
+  setCell(ws, 0, 0, { t: 's', v: `${companyName} – Model Assumptions` });
+  setCell(ws, 1, 0, { t: 's', v: 'Edit values in column B. Formulas across the workbook reference these cells; re-import this sheet to update the saved model.' });
+  setCell(ws, 3, 0, { t: 's', v: 'Assumption' });
+  setCell(ws, 3, 1, { t: 's', v: 'Value' });
+  setCell(ws, 3, 2, { t: 's', v: 'Key' });
+
+  ASSUMPTION_ROWS.forEach((row, i) => {
+    const r = HEADER_ROWS + i;
+    const raw = assumptions[row.key];
+    const value = typeof raw === 'number' ? raw / 100 : 0;
+    setCell(ws, r, 0, { t: 's', v: row.label });
+    setCell(ws, r, 1, { t: 'n', v: value, z: NUMBER_FORMATS[row.format] });
+    setCell(ws, r, 2, { t: 's', v: row.key });
+    names.push({ Name: row.name, Ref: `${quoteSheet(ASSUMPTIONS_SHEET)}!$B$${r + 1}` });
+  });
+
+  ws['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: HEADER_ROWS + ASSUMPTION_ROWS.length, c: 2 } });
+  ws['!cols'] = [{ wch: 34 }, { wch: 12 }, { wch: 22 }];
+  return { ws, names };
+}
+
+/**
+ * Build a workbook whose projected cells are live formulas over named assumption cells.
+ * Cached values come from the engine so the file reads correctly before Excel recalculates.
+ */
+export function buildCashFlowWorkbook(
+  companyName: string,
+  historicalData: HistoricalFinancials,
+  assumptions: ProjectionAssumptions
+): XLSX.WorkBook {
+  const projection = runThreeStatementProjection(historicalData, assumptions);
+  const layouts = layoutSheets(projection);
+  const rowIndex = buildRowIndex(layouts);
+
+  const yearCol: Record<string, string> = {};
+  projection.all_years.forEach((year, i) => {
+    yearCol[year] = colLetter(FIRST_YEAR_COL + i);
+  });
+
+  const ref = (sheet: SheetKey, row: string, col: string) => {
+    const r = rowIndex[sheet][row];
+    if (!r) throw new Error(`Unknown workbook row ${sheet}.${row}`);
+    return `${quoteSheet(SHEETS[sheet])}!${col}${r}`;
+  };
+
+  const wb = XLSX.utils.book_new();
+  const { ws: assumptionsWs, names } = writeAssumptionsSheet(companyName, assumptions);
+  XLSX.utils.book_append_sheet(wb, assumptionsWs, ASSUMPTIONS_SHEET);
+
+  (Object.keys(layouts) as SheetKey[]).forEach(sheet => {
+    const ws: XLSX.WorkSheet = {};
+    setCell(ws, 0, 0, { t: 's', v: `${companyName} – ${SHEETS[sheet]}${sheet === 'metrics' ? '' : ' ($M)'}` });
+    setCell(ws, 2, 0, { t: 's', v: 'Line Item' });
+    projection.all_years.forEach((year, i) => {
+      const projected = projection.projection_years.includes(year);
+      setCell(ws, 2, FIRST_YEAR_COL + i, { t: 's', v: year });
+      setCell(ws, 3, FIRST_YEAR_COL + i, { t: 's', v: projected ? 'Projected' : 'Actual' });
+    });
+
+    layouts[sheet].forEach((row, rowI) => {
+      const r = HEADER_ROWS + rowI;
+      const format = NUMBER_FORMATS[row.format || 'currency'];
+      setCell(ws, r, 0, { t: 's', v: row.label });
+
+      projection.all_years.forEach((year, i) => {
+        const ctx: ColumnContext = {
+          year,
+          col: yearCol[year],
+          prevCol: i > 0 ? yearCol[projection.all_years[i - 1]] : null,
+          projected: projection.projection_years.includes(year),
+        };
+        const f = row.formula?.(ctx, (s, rk, c) => ref(s, rk, c)) ?? null;
+        const v = row.values?.[year];
+        if (f) {
+          setCell(ws, r, FIRST_YEAR_COL + i, { t: 'n', v: v ?? 0, f, z: format });
+        } else if (typeof v === 'number') {
+          setCell(ws, r, FIRST_YEAR_COL + i, { t: 'n', v, z: format });
+        }
+      });
+    });
+
+    ws['!ref'] = XLSX.utils.encode_range({
+      s: { r: 0, c: 0 },
+      e: { r: HEADER_ROWS + layouts[sheet].length - 1, c: FIRST_YEAR_COL + projection.all_years.length - 1 },
+    });
+    ws['!cols'] = [{ wch: 34 }, ...projection.all_years.map(() => ({ wch: 12 }))];
+    XLSX.utils.book_append_sheet(wb, ws, SHEETS[sheet]);
+  });
+
+  wb.Workbook = { ...(wb.Workbook || {}), Names: names };
+  return wb;
+}
+
+export function exportCashFlowModelToExcel(
+  companyName: string,
+  historicalData: HistoricalFinancials,
+  assumptions: ProjectionAssumptions,
+  title?: string
+): void {
+  const wb = buildCashFlowWorkbook(companyName, historicalData, assumptions);
+  const baseName = (title || `${companyName} - Cash Flow Buildup`).replace(/[^A-Za-z0-9 ._-]/g, '-').trim();
+  XLSX.writeFile(wb, `${baseName || 'Model'}.xlsx`);
+}
+
+/**
+ * Read edited assumptions back from an exported workbook's Assumptions sheet.
+ * Rows are matched on the Key column; percent values are converted back to whole percent.
+ */
+export function readAssumptionsFromWorkbook(data: ArrayBuffer): Partial<ProjectionAssumptions> {
+  const wb = XLSX.read(data, { type: 'array' });
+  const ws = wb.Sheets[ASSUMPTIONS_SHEET];
+  if (!ws) {
+    throw new Error(`Workbook has no "${ASSUMPTIONS_SHEET}" sheet`);
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, raw: true });
+  const byKey = new Map(ASSUMPTION_ROWS.map(row => [row.key as string, row]));
+  const imported: Partial<ProjectionAssumptions> = {};
+  const invalid: string[] = [];
+
+  rows.forEach(cells => {
+    const key = typeof cells?.[2] === 'string' ? cells[2].trim() : '';
+    const spec = byKey.get(key);
+    if (!spec) return;
+    const value = cells[1];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      invalid.push(spec.label);
+      return;
+    }
+    (imported as Record<string, number>)[spec.key] = Math.round(value * 100 * 1e6) / 1e6;
+  });
+
+  if (invalid.length > 0) {
+    throw new Error(`Non-numeric assumption values: ${invalid.join(', ')}`);
+  }
+  if (Object.keys(imported).length === 0) {
+    throw new Error(`No recognised assumptions found on the "${ASSUMPTIONS_SHEET}" sheet`);
+  }
+  return imported;
+}
@@ -0,0 +1,201 @@
+// Model Version Service - Immutable model snapshots and diffing for the version history view
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface ModelVersion {
+  id: string;
+  model_id: string;
+  version_number: number;
+  assumptions: Json | null;
+  model_data: Json | null;
+  scenarios: Json;
+  created_by: string;
+  author_name: string | null;
+  note: string | null;
+  restored_from_version: number | null;
+  created_at: string;
+}
+
+interface VersionedModel {
+  id: string;
+  assumptions: Json | null;
+  model_data: Json | null;
+  scenarios: Json | null;
+}
+
+interface RecordVersionOptions {
+  note?: string;
+  restoredFromVersion?: number;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+export type DiffValue = number | string | boolean | null;
+
+export type DiffChange = 'added' | 'removed' | 'changed';
+
+export interface VersionDiffEntry {
+  path: string;
+  label: string;
+  before: DiffValue | undefined;
+  after: DiffValue | undefined;
+  change: DiffChange;
+  delta: number | null; // after - before, numeric values only
+  pctChange: number | null; // delta / |before|, null when before is zero or non-numeric
+}
+
+export interface VersionSnapshot {
+  assumptions: unknown;
+  model_data: unknown;
+  scenarios?: unknown;
+}
+
+export interface ModelVersionDiff {
+  assumptions: VersionDiffEntry[];
+  outputs: VersionDiffEntry[];
+  scenarios: VersionDiffEntry[];
+}
+
+// Array elements keyed by a stable identity so reordering rows does not register as a change
+function arrayKey(item: unknown, index: number): string {
+  if (item && typeof item === 'object') {
+    const record = item as Record<string, unknown>;
+    if (typeof record.id === 'string' || typeof record.id === 'number') return String(record.id);
+    if (typeof record.year === 'string' || typeof record.year === 'number') return String(record.year);
+  }
+  return String(index);
+}
+
+export function flattenValues(value: unknown, prefix = '', out: Record<string, DiffValue> = {}): Record<string, DiffValue> {
+  if (value === undefined) return out;
+  if (value === null || typeof value !== 'object') {
+    if (prefix) {
+      out[prefix] = typeof value === 'number' && !Number.isFinite(value) ? null : (value as DiffValue);
+    }
+    return out;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flattenValues(item, `${prefix}[${arrayKey(item, i)}]`, out));
+    return out;
+  }
+  Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+    flattenValues(child, prefix ? `${prefix}.${key}` : key, out);
+  });
+  return out;
+}
+
+const humanize = (segment: string) =>
+  segment
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, c => c.toUpperCase());
+
+export function formatDiffPath(path: string): string {
+  return path
+    .split('.')
+    .map(segment => segment.replace(/^([^[]+)((?:\[[^\]]+\])*)$/, (_, name: string, idx: string) => humanize(name) + idx))
+    .join(' › ');
+}
+
+export function diffValues(before: unknown, after: unknown, tolerance: number = 1e-9): VersionDiffEntry[] {
+  const a = flattenValues(before);
+  const b = flattenValues(after);
+  const paths = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+
+  const entries: VersionDiffEntry[] = [];
+  paths.forEach(path => {
+    const inA = path in a;
+    const inB = path in b;
+    const prev = a[path];
+    const next = b[path];
+
+    if (inA && inB) {
+      if (typeof prev === 'number' && typeof next === 'number') {
+        if (Math.abs(next - prev) <= tolerance) return;
+      } else if (prev === next) {
+        return;
+      }
+    }
+
+    const numeric = typeof prev === 'number' && typeof next === 'number';
+    const delta = numeric ? (next as number) - (prev as number) : null;
+    entries.push({
+      path,
+      label: formatDiffPath(path),
+      before: inA ? prev : undefined,
+      after: inB ? next : undefined,
+      change: !inA ? 'added' : !inB ? 'removed' : 'changed',
+      delta,
+      pctChange: delta !== null && prev !== 0 ? delta / Math.abs(prev as number) : null,
+    });
+  });
+  return entries;
+}
+
+export function diffModelVersions(before: VersionSnapshot, after: VersionSnapshot): ModelVersionDiff {
+  return {
+    assumptions: diffValues(before.assumptions, after.assumptions),
+    outputs: diffValues(before.model_data, after.model_data),
+    scenarios: diffValues(before.scenarios ?? [], after.scenarios ?? []),
+  };
+}
+
+export function authorNameFor(user: User): string {
+  return user.user_metadata?.full_name || user.email || 'Unknown';
+}
+
+async function latestVersionNumber(modelId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('model_versions')
+    .select('version_number')
+    .eq('model_id', modelId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.version_number ?? 0;
+}
+
+/**
+ * Append an immutable snapshot of the model's current assumptions, outputs and scenarios.
+ * Retries on version number collisions from concurrent saves.
+ */
+export async function recordModelVersion(
+  model: VersionedModel,
+  user: User,
+  options: RecordVersionOptions = {}
+): Promise<ModelVersion> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const versionNumber = (await latestVersionNumber(model.id)) + 1;
+    const { data, error } = await supabase
+      .from('model_versions')
+      .insert({
+        model_id: model.id,
+        version_number: versionNumber,
+        assumptions: model.assumptions,
+        model_data: model.model_data,
+        scenarios: model.scenarios ?? [],
+        created_by: user.id,
+        author_name: authorNameFor(user),
+        note: options.note ?? null,
+        restored_from_version: options.restoredFromVersion ?? null,
+      })
+      .select()
+      .single();
+
+    if (!error) return data;
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+  }
+  throw new Error('Could not allocate a version number for this model');
+}
+
+/**
+ * Models saved before version history existed have no snapshots; capture their
+ * current state as the first version before it is overwritten.
+ */
+export async function ensureBaselineVersion(model: VersionedModel, user: User): Promise<void> {
+  if ((await latestVersionNumber(model.id)) > 0) return;
+  await recordModelVersion(model, user, { note: 'Initial version' });
+}
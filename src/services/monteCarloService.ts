@@ -0,0 +1,97 @@
+// Monte Carlo Service - Seeded geometric return paths for portfolio projections
+
+import { createNormalSampler, createRng, hashSeed } from './seededRandom';
+
+export interface MonteCarloParams {
+  initialCapital: number;
+  annualReturn: number; // Decimal, e.g. 0.08
+  annualVolatility: number; // Decimal, e.g. 0.16
+  numSimulations: number;
+  projectionYears: number;
+  seed?: number; // Defaults to a hash of the other parameters
+}
+
+export interface MonteCarloResult {
+  percentile5: number[];
+  percentile25: number[];
+  percentile50: number[];
+  percentile75: number[];
+  percentile95: number[];
+  finalValues: number[];
+  medianFinalValue: number;
+  probabilityOfLoss: number;
+  seed: number; // Pass back in to replay the same paths
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * Simulate daily compounded return paths and summarise them by year-end percentile
+ */
+export function simulateMonteCarlo(
+  params: MonteCarloParams,
+  onProgress?: (message: string, percent: number) => void
+): MonteCarloResult {
+  const { initialCapital, annualReturn, annualVolatility, numSimulations, projectionYears } = params;
+  const seed = params.seed ?? hashSeed([initialCapital, annualReturn, annualVolatility, numSimulations, projectionYears]);
+  const normal = createNormalSampler(createRng(seed));
+
+  const dailyReturn = annualReturn / TRADING_DAYS_PER_YEAR;
+  const dailyVol = annualVolatility / Math.sqrt(TRADING_DAYS_PER_YEAR);
+  const progressEvery = Math.max(1, Math.floor(numSimulations / 20));
+
+  const allPaths: number[][] = [];
+  const finalValues: number[] = [];
+
+  for (let sim = 0; sim < numSimulations; sim++) {
+    const path: number[] = [initialCapital];
+    let value = initialCapital;
+
+    for (let year = 0; year < projectionYears; year++) {
+      for (let day = 0; day < TRADING_DAYS_PER_YEAR; day++) {
+        value *= 1 + dailyReturn + normal() * dailyVol;
+        value = Math.max(0, value);
+      }
+      path.push(Math.round(value));
+    }
+
+    allPaths.push(path);
+    finalValues.push(value);
+
+    if ((sim + 1) % progressEvery === 0) {
+      onProgress?.(`Simulated ${sim + 1} of ${numSimulations} paths`, ((sim + 1) / numSimulations) * 95);
+    }
+  }
+
+  // Calculate percentiles for each year
+  const percentile5: number[] = [];
+  const percentile25: number[] = [];
+  const percentile50: number[] = [];
+  const percentile75: number[] = [];
+  const percentile95: number[] = [];
+
+  for (let year = 0; year <= projectionYears; year++) {
+    const valuesAtYear = allPaths.map(path => path[year]).sort((a, b) => a - b);
+    percentile5.push(valuesAtYear[Math.floor(numSimulations * 0.05)]);
+    percentile25.push(valuesAtYear[Math.floor(numSimulations * 0.25)]);
+    percentile50.push(valuesAtYear[Math.floor(numSimulations * 0.50)]);
+    percentile75.push(valuesAtYear[Math.floor(numSimulations * 0.75)]);
+    percentile95.push(valuesAtYear[Math.floor(numSimulations * 0.95)]);
+  }
+
+  const sortedFinals = [...finalValues].sort((a, b) => a - b);
+  const lossCount = finalValues.filter(v => v < initialCapital).length;
+  onProgress?.('Complete!', 100);
+
+  return {
+    percentile5,
+    percentile25,
+    percentile50,
+    percentile75,
+    percentile95,
+    finalValues: sortedFinals,
+    medianFinalValue: sortedFinals[Math.floor(numSimulations / 2)],
+    probabilityOfLoss: (lossCount / numSimulations) * 100,
+    seed,
+  };
+}
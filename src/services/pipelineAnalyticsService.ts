@@ -0,0 +1,250 @@
+// Pipeline Analytics Service - Stage velocity, conversion funnel, deal aging and win/loss analysis
+import { DEFAULT_AGING_DAYS, PipelineStage, stageIndex } from './pipelineStageService';
+
+export type DealOutcome = 'won' | 'passed' | 'killed';
+
+export interface StageTransition {
+  company_id: string;
+  from_stage: string | null;
+  to_stage: string | null;
+  from_type: string | null;
+  to_type: string | null;
+  reason: string | null;
+  notes: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export interface AnalyticsCompany {
+  id: string;
+  name: string;
+  industry: string | null;
+  deal_source: string | null;
+  company_type: string | null;
+  pipeline_stage: string | null;
+}
+
+export interface StageInterval {
+  companyId: string;
+  stageId: string;
+  enteredAt: Date;
+  exitedAt: Date | null; // null while the deal is still in the stage
+  days: number;
+}
+
+export interface FunnelStage {
+  stage: PipelineStage;
+  reached: number;
+  advanced: number; // Reached the next stage (or won, for the last stage)
+  conversionRate: number | null;
+}
+
+export interface StageVelocity {
+  stage: PipelineStage;
+  medianDays: number | null; // Completed stays only
+  completed: number;
+  current: number;
+  currentMedianDays: number | null;
+}
+
+export interface AgingAlert {
+  companyId: string;
+  companyName: string;
+  stage: PipelineStage;
+  days: number;
+  thresholdDays: number;
+}
+
+export interface WinLossRow {
+  key: string;
+  won: number;
+  passed: number;
+  killed: number;
+  total: number;
+  winRate: number;
+  reasons: { reason: string; count: number }[];
+}
+
+export type WinLossDimension = 'industry' | 'deal_source';
+
+export const DEAL_SOURCES = ['Banker/Broker', 'Direct Outreach', 'Referral', 'Conference', 'Other'];
+
+// "Passed" is our decision not to proceed; "killed" is the deal dying for reasons outside our control
+export const CLOSE_REASONS: { value: string; outcome: DealOutcome }[] = [
+  { value: 'Proprietary relationship', outcome: 'won' },
+  { value: 'Best price', outcome: 'won' },
+  { value: 'Speed / certainty to close', outcome: 'won' },
+  { value: 'Sector expertise', outcome: 'won' },
+  { value: 'Valuation too high', outcome: 'passed' },
+  { value: 'Business quality', outcome: 'passed' },
+  { value: 'Market / industry outlook', outcome: 'passed' },
+  { value: 'Management team', outcome: 'passed' },
+  { value: 'Diligence findings', outcome: 'passed' },
+  { value: 'Not a strategic fit', outcome: 'passed' },
+  { value: 'Lost to another buyer', outcome: 'killed' },
+  { value: 'Seller withdrew', outcome: 'killed' },
+  { value: 'Financing fell through', outcome: 'killed' },
+  { value: 'Regulatory', outcome: 'killed' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isPipeline = (t: StageTransition) => t.to_type === 'pipeline' || (t.to_type === null && t.to_stage !== null);
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function groupByCompany(transitions: StageTransition[]): Map<string, StageTransition[]> {
+  const grouped = new Map<string, StageTransition[]>();
+  transitions.forEach((t) => {
+    const list = grouped.get(t.company_id) || [];
+    list.push(t);
+    grouped.set(t.company_id, list);
+  });
+  grouped.forEach((list) => list.sort((a, b) => a.changed_at.localeCompare(b.changed_at)));
+  return grouped;
+}
+
+/**
+ * Turn the transition log into time spent per stage. Stage ids are resolved against the
+ * current configuration, so removed stages count towards the first stage like on the board.
+ */
+export function buildStageIntervals(
+  stages: PipelineStage[],
+  transitions: StageTransition[],
+  now: Date = new Date()
+): StageInterval[] {
+  const intervals: StageInterval[] = [];
+
+  groupByCompany(transitions).forEach((list, companyId) => {
+    let open: StageInterval | null = null;
+
+    for (const t of list) {
+      const at = new Date(t.changed_at);
+      if (open) {
+        intervals.push({ ...open, exitedAt: at, days: (at.getTime() - open.enteredAt.getTime()) / DAY_MS });
+        open = null;
+      }
+      if (isPipeline(t)) {
+        open = { companyId, stageId: stages[stageIndex(stages, t.to_stage)].id, enteredAt: at, exitedAt: null, days: 0 };
+      }
+    }
+
+    if (open) {
+      intervals.push({ ...open, days: (now.getTime() - open.enteredAt.getTime()) / DAY_MS });
+    }
+  });
+
+  return intervals;
+}
+
+/**
+ * Outcome of a transition that took a deal out of the pipeline, or null for stage moves
+ */
+export function outcomeOf(transition: StageTransition): DealOutcome | null {
+  if (transition.from_type !== 'pipeline') return null;
+  if (transition.to_type === 'portfolio') return 'won';
+  if (transition.to_type === 'passed') {
+    return CLOSE_REASONS.find((r) => r.value === transition.reason)?.outcome === 'killed' ? 'killed' : 'passed';
+  }
+  return null;
+}
+
+export function computeConversionFunnel(
+  stages: PipelineStage[],
+  intervals: StageInterval[],
+  transitions: StageTransition[]
+): FunnelStage[] {
+  const furthest = new Map<string, number>();
+  intervals.forEach((interval) => {
+    const index = stageIndex(stages, interval.stageId);
+    furthest.set(interval.companyId, Math.max(furthest.get(interval.companyId) ?? 0, index));
+  });
+
+  const won = new Set(transitions.filter((t) => outcomeOf(t) === 'won').map((t) => t.company_id));
+  const reachedCount = (index: number) => [...furthest.values()].filter((f) => f >= index).length;
+
+  return stages.map((stage, index) => {
+    const reached = reachedCount(index);
+    const advanced =
+      index < stages.length - 1
+        ? reachedCount(index + 1)
+        : [...furthest.entries()].filter(([companyId, f]) => f === index && won.has(companyId)).length;
+    return { stage, reached, advanced, conversionRate: reached > 0 ? advanced / reached : null };
+  });
+}
+
+export function computeStageVelocity(stages: PipelineStage[], intervals: StageInterval[]): StageVelocity[] {
+  return stages.map((stage) => {
+    const stays = intervals.filter((i) => i.stageId === stage.id);
+    const completed = stays.filter((i) => i.exitedAt !== null);
+    const current = stays.filter((i) => i.exitedAt === null);
+    return {
+      stage,
+      medianDays: median(completed.map((i) => i.days)),
+      completed: completed.length,
+      current: current.length,
+      currentMedianDays: median(current.map((i) => i.days)),
+    };
+  });
+}
+
+/**
+ * Active deals that have sat in their stage longer than the stage's aging threshold
+ */
+export function findAgingDeals(
+  stages: PipelineStage[],
+  intervals: StageInterval[],
+  companies: AnalyticsCompany[]
+): AgingAlert[] {
+  const byId = new Map(companies.map((c) => [c.id, c]));
+
+  return intervals
+    .filter((i) => i.exitedAt === null && byId.get(i.companyId)?.company_type === 'pipeline')
+    .flatMap((i): AgingAlert[] => {
+      const stage = stages.find((s) => s.id === i.stageId)!;
+      const thresholdDays = stage.agingDays ?? DEFAULT_AGING_DAYS;
+      if (i.days <= thresholdDays) return [];
+      return [{ companyId: i.companyId, companyName: byId.get(i.companyId)!.name, stage, days: i.days, thresholdDays }];
+    })
+    .sort((a, b) => b.days / b.thresholdDays - a.days / a.thresholdDays);
+}
+
+/**
+ * Win/loss counts and reasons grouped by a company attribute, using each deal's latest outcome
+ */
+export function computeWinLoss(
+  dimension: WinLossDimension,
+  companies: AnalyticsCompany[],
+  transitions: StageTransition[]
+): WinLossRow[] {
+  const byId = new Map(companies.map((c) => [c.id, c]));
+  const rows = new Map<string, WinLossRow & { reasonCounts: Map<string, number> }>();
+
+  groupByCompany(transitions).forEach((list, companyId) => {
+    const company = byId.get(companyId);
+    const last = [...list].reverse().find((t) => outcomeOf(t) !== null);
+    if (!company || !last) return;
+
+    const key = company[dimension] || 'Unspecified';
+    const row = rows.get(key) || { key, won: 0, passed: 0, killed: 0, total: 0, winRate: 0, reasons: [], reasonCounts: new Map() };
+    row[outcomeOf(last)!]++;
+    row.total++;
+    if (last.reason) row.reasonCounts.set(last.reason, (row.reasonCounts.get(last.reason) || 0) + 1);
+    rows.set(key, row);
+  });
+
+  return [...rows.values()]
+    .map(({ reasonCounts, ...row }) => ({
+      ...row,
+      winRate: row.won / row.total,
+      reasons: [...reasonCounts.entries()]
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count),
+    }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
@@ -0,0 +1,322 @@
+// Pipeline Stage Service - Organization-defined deal stages and stage-gate requirements
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CHECKLIST_CATEGORIES,
+  ChecklistDocument,
+  ChecklistItem,
+  ChecklistItemState,
+  ChecklistTemplate,
+  REQUIRED_DOCUMENTS,
+  evaluateChecklist,
+  resolveChecklistTemplate,
+} from './dataRoomChecklistService';
+
+export type StageColor = 'slate' | 'blue' | 'cyan' | 'amber' | 'orange' | 'purple' | 'rose' | 'emerald';
+
+// Gate rules are checked when a deal enters the stage they belong to.
+// Kept as type aliases so stage lists can be stored directly in a JSONB column.
+export type StageGateRule =
+  | { type: 'checklist_category'; category: string }
+  | { type: 'model_exists'; modelType?: string | null }
+  | { type: 'tasks_complete'; tag?: string | null };
+
+export type StageGateType = StageGateRule['type'];
+
+export type PipelineStage = {
+  id: string;
+  title: string;
+  color: StageColor;
+  gates: StageGateRule[];
+  agingDays?: number | null; // Flag deals that sit in the stage longer than this
+};
+
+export interface DealGateContext {
+  documents: ChecklistDocument[];
+  checklistItems?: ChecklistItem[]; // The deal's checklist template items; defaults to the buyout checklist
+  checklistStates?: ChecklistItemState[];
+  models: { name: string; model_type: string }[];
+  tasks: { title: string; status: string; tags: string[] | null }[];
+}
+
+export interface GateResult {
+  rule: StageGateRule;
+  passed: boolean;
+  label: string;
+  detail: string | null; // What is missing when the gate fails
+}
+
+export interface StageTransitionCheck {
+  allowed: boolean;
+  blocked: { stage: PipelineStage; failures: GateResult[] }[];
+}
+
+export const STAGE_COLORS: Record<StageColor, { dot: string; badge: string }> = {
+  slate: { dot: 'bg-slate-500', badge: 'bg-slate-500/20 text-slate-300 border-slate-500/30' },
+  blue: { dot: 'bg-blue-500', badge: 'bg-blue-500/20 text-blue-300 border-blue-500/30' },
+  cyan: { dot: 'bg-cyan-500', badge: 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30' },
+  amber: { dot: 'bg-amber-500', badge: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  orange: { dot: 'bg-orange-500', badge: 'bg-orange-500/20 text-orange-300 border-orange-500/30' },
+  purple: { dot: 'bg-purple-500', badge: 'bg-purple-500/20 text-purple-300 border-purple-500/30' },
+  rose: { dot: 'bg-rose-500', badge: 'bg-rose-500/20 text-rose-300 border-rose-500/30' },
+  emerald: { dot: 'bg-emerald-500', badge: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' },
+};
+
+export const GATE_TYPE_LABELS: Record<StageGateType, string> = {
+  checklist_category: 'Data room category complete',
+  model_exists: 'Saved model exists',
+  tasks_complete: 'Tasks completed',
+};
+
+export const MODEL_TYPE_LABELS: Record<string, string> = {
+  cash_flow_buildup: 'Cash Flow',
+  lbo: 'LBO',
+  dcf: 'DCF',
+  pro_forma: 'Pro Forma',
+  merger: 'Merger',
+  cam: 'CAM',
+};
+
+export const DEFAULT_AGING_DAYS = 45;
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'sourcing', title: 'Sourcing', color: 'slate', gates: [] },
+  { id: 'screening', title: 'Screening', color: 'blue', gates: [] },
+  { id: 'due-diligence', title: 'Due Diligence', color: 'amber', gates: [] },
+  { id: 'ic-review', title: 'IC Review', color: 'purple', gates: [] },
+  { id: 'closing', title: 'Closing', color: 'emerald', gates: [] },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseGateRule(value: unknown): StageGateRule | null {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'checklist_category':
+      return typeof value.category === 'string' ? { type: 'checklist_category', category: value.category } : null;
+    case 'model_exists':
+      return { type: 'model_exists', modelType: typeof value.modelType === 'string' ? value.modelType : null };
+    case 'tasks_complete':
+      return { type: 'tasks_complete', tag: typeof value.tag === 'string' && value.tag.trim() ? value.tag.trim() : null };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse an organization's stored stage list, falling back to the default pipeline
+ */
+export function parsePipelineStages(value: unknown): PipelineStage[] {
+  if (!Array.isArray(value)) return DEFAULT_PIPELINE_STAGES;
+
+  const seen = new Set<string>();
+  const stages = value.flatMap((raw): PipelineStage[] => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.title !== 'string') return [];
+    if (!raw.id || seen.has(raw.id)) return [];
+    seen.add(raw.id);
+    return [{
+      id: raw.id,
+      title: raw.title,
+      color: typeof raw.color === 'string' && raw.color in STAGE_COLORS ? (raw.color as StageColor) : 'slate',
+      gates: Array.isArray(raw.gates) ? raw.gates.map(parseGateRule).filter((g): g is StageGateRule => g !== null) : [],
+      agingDays: typeof raw.agingDays === 'number' && raw.agingDays > 0 ? raw.agingDays : null,
+    }];
+  });
+
+  return stages.length > 0 ? stages : DEFAULT_PIPELINE_STAGES;
+}
+
+/**
+ * Build a stable stage id from its title; ids are stored on companies.pipeline_stage
+ */
+export function createStageId(title: string, existingIds: string[]): string {
+  const base = title.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'stage';
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
+
+/**
+ * Validate a stage list before saving; returns an error message or null
+ */
+export function validatePipelineStages(
+  stages: PipelineStage[],
+  checklistCategories: string[] = CHECKLIST_CATEGORIES
+): string | null {
+  if (stages.length === 0) return 'Add at least one stage';
+  if (stages.some((s) => !s.title.trim())) return 'Every stage needs a name';
+
+  const titles = stages.map((s) => s.title.trim().toLowerCase());
+  if (new Set(titles).size !== titles.length) return 'Stage names must be unique';
+
+  for (const stage of stages) {
+    const unknownCategory = stage.gates.find(
+      (g) => g.type === 'checklist_category' && !checklistCategories.includes(g.category)
+    );
+    if (unknownCategory) return `${stage.title}: choose a data room category for each checklist requirement`;
+  }
+  return null;
+}
+
+/**
+ * Index of a deal's stage; deals on stages that no longer exist sit in the first column
+ */
+export function stageIndex(stages: PipelineStage[], stageId: string | null): number {
+  const index = stages.findIndex((s) => s.id === stageId);
+  return index === -1 ? 0 : index;
+}
+
+export function describeGateRule(rule: StageGateRule): string {
+  switch (rule.type) {
+    case 'checklist_category':
+      return `${rule.category} data room documents complete`;
+    case 'model_exists':
+      return rule.modelType
+        ? `Saved ${MODEL_TYPE_LABELS[rule.modelType] || rule.modelType} model`
+        : 'At least one saved model';
+    case 'tasks_complete':
+      return rule.tag ? `All tasks tagged "${rule.tag}" done` : 'All deal tasks done';
+  }
+}
+
+const listNames = (names: string[], limit = 3) =>
+  names.length > limit ? `${names.slice(0, limit).join(', ')} and ${names.length - limit} more` : names.join(', ');
+
+export function evaluateGateRule(rule: StageGateRule, context: DealGateContext): GateResult {
+  const label = describeGateRule(rule);
+
+  switch (rule.type) {
+    case 'checklist_category': {
+      // Deals whose template has no items in the category have nothing to collect for it
+      const items = (context.checklistItems || REQUIRED_DOCUMENTS).filter((i) => i.category === rule.category);
+      const { completedItems } = evaluateChecklist(context.documents, items, context.checklistStates);
+      const missing = items.filter((i) => !completedItems.has(i.id)).map((i) => i.name);
+      return {
+        rule,
+        label,
+        passed: missing.length === 0,
+        detail: missing.length > 0 ? `Missing ${listNames(missing)}` : null,
+      };
+    }
+    case 'model_exists': {
+      const passed = context.models.some((m) => !rule.modelType || m.model_type === rule.modelType);
+      return { rule, label, passed, detail: passed ? null : 'No matching model has been saved for this deal' };
+    }
+    case 'tasks_complete': {
+      const tag = rule.tag?.toLowerCase();
+      const required = context.tasks.filter((t) => !tag || (t.tags || []).some((tt) => tt.toLowerCase() === tag));
+      // A tagged gate names a specific workstream, so it is not satisfied until those tasks exist
+      if (tag && required.length === 0) {
+        return { rule, label, passed: false, detail: `No tasks tagged "${rule.tag}" yet` };
+      }
+      const open = required.filter((t) => t.status !== 'done');
+      return {
+        rule,
+        label,
+        passed: open.length === 0,
+        detail: open.length > 0 ? `${open.length} open: ${listNames(open.map((t) => t.title))}` : null,
+      };
+    }
+  }
+}
+
+/**
+ * Gates that a move must satisfy. Advancing checks every stage entered along the way
+ * (skipping ahead cannot bypass a gate); moving backwards is never gated.
+ */
+export function gatesForTransition(stages: PipelineStage[], fromStageId: string | null, toStageId: string): PipelineStage[] {
+  const from = stageIndex(stages, fromStageId);
+  const to = stages.findIndex((s) => s.id === toStageId);
+  if (to <= from) return [];
+  return stages.slice(from + 1, to + 1).filter((s) => s.gates.length > 0);
+}
+
+/**
+ * Stages a new deal can be created in without bypassing a gate
+ */
+export function entryStages(stages: PipelineStage[]): PipelineStage[] {
+  const firstGated = stages.findIndex((s, i) => i > 0 && s.gates.length > 0);
+  return firstGated === -1 ? stages : stages.slice(0, firstGated);
+}
+
+export function checkStageTransition(
+  stages: PipelineStage[],
+  fromStageId: string | null,
+  toStageId: string,
+  context: DealGateContext
+): StageTransitionCheck {
+  const blocked = gatesForTransition(stages, fromStageId, toStageId)
+    .map((stage) => ({
+      stage,
+      failures: stage.gates.map((rule) => evaluateGateRule(rule, context)).filter((r) => !r.passed),
+    }))
+    .filter((b) => b.failures.length > 0);
+
+  return { allowed: blocked.length === 0, blocked };
+}
+
+/**
+ * Load the documents, checklist, models and tasks a deal's gates are evaluated against
+ */
+export async function fetchDealGateContext(
+  companyId: string,
+  checklistTemplates: ChecklistTemplate[]
+): Promise<DealGateContext> {
+  const [company, documents, checklistStates, models, tasks] = await Promise.all([
+    supabase.from('companies').select('checklist_template_id').eq('id', companyId).single(),
+    supabase.from('documents').select('id, name, document_type, folder, subfolder').eq('company_id', companyId),
+    supabase.from('data_room_checklist_items').select('item_id, owner_id, due_date, document_ids, notes').eq('company_id', companyId),
+    supabase.from('models').select('name, model_type').eq('company_id', companyId),
+    supabase.from('tasks').select('title, status, tags').eq('company_id', companyId).eq('is_template', false),
+  ]);
+
+  const error = company.error || documents.error || checklistStates.error || models.error || tasks.error;
+  if (error) throw error;
+
+  return {
+    documents: documents.data || [],
+    checklistItems: resolveChecklistTemplate(checklistTemplates, company.data.checklist_template_id).items,
+    checklistStates: checklistStates.data || [],
+    models: models.data || [],
+    tasks: tasks.data || [],
+  };
+}
+
+/**
+ * Check the gates a deal crosses moving between stages, without writing anything. Callers that save
+ * the stage together with other fields check here first and write the stage in the same update.
+ */
+export async function checkDealTransition(
+  stages: PipelineStage[],
+  checklistTemplates: ChecklistTemplate[],
+  companyId: string,
+  fromStageId: string | null,
+  toStageId: string
+): Promise<StageTransitionCheck> {
+  // Only loads the deal's documents, models and tasks when the move crosses a gated stage
+  if (gatesForTransition(stages, fromStageId, toStageId).length === 0) return { allowed: true, blocked: [] };
+  const context = await fetchDealGateContext(companyId, checklistTemplates);
+  return checkStageTransition(stages, fromStageId, toStageId, context);
+}
+
+/**
+ * Move a deal to a stage, checking the gates crossed on the way first. Nothing is written when the
+ * move is blocked.
+ */
+export async function moveDealToStage(
+  stages: PipelineStage[],
+  checklistTemplates: ChecklistTemplate[],
+  companyId: string,
+  fromStageId: string | null,
+  toStageId: string
+): Promise<StageTransitionCheck> {
+  const check = await checkDealTransition(stages, checklistTemplates, companyId, fromStageId, toStageId);
+  if (!check.allowed) return check;
+
+  const { error } = await supabase.from('companies').update({ pipeline_stage: toStageId }).eq('id', companyId);
+  if (error) throw error;
+  return { allowed: true, blocked: [] };
+}
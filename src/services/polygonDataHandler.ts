@@ -1,6 +1,5 @@
 // Polygon.io Data Handler with Caching, Validation, and Regime Detection
 
-import { supabase } from "@/integrations/supabase/client";
 import {
   validateTickerData,
   validateCorrelationMatrix,
@@ -9,6 +8,10 @@ import {
   type DataAuditReport,
   type OHLCVBar as ValidationOHLCVBar,
 } from "./dataValidationService";
+import { barStore } from "./barStoreService";
+import { marketDataRouter } from "./marketDataProviders";
+import { getCorporateActionHistory } from "./corporateActionHistoryService";
+import { dividendsByBar, restateStaleSplits, type CorporateAction } from "./corporateActionService";
 
 const POLYGON_API_KEY = import.meta.env.VITE_POLYGON_API_KEY;
 const BASE_URL = 'https://api.polygon.io';
@@ -22,13 +25,15 @@ export interface OHLCVBar {
   close: number;
   volume: number;
   vwap: number;
+  dividend?: number; // Split-adjusted cash per share going ex on this bar
 }
 
 export interface AssetData {
   ticker: string;
   bars: OHLCVBar[];
-  returns: number[];
+  returns: number[]; // Daily log total returns, dividends included
   volatility: number;
+  corporateActions: CorporateAction[];
   validation?: DataValidationResult;
 }
 
@@ -119,11 +124,11 @@ class DataCache {
 }
 
 // Helper functions
-function calculateReturns(prices: number[]): number[] {
+function calculateReturns(prices: number[], dividends: number[] = []): number[] {
   const returns: number[] = [];
   for (let i = 1; i < prices.length; i++) {
     if (prices[i - 1] > 0 && prices[i] > 0) {
-      returns.push(Math.log(prices[i] / prices[i - 1]));
+      returns.push(Math.log((prices[i] + (dividends[i] ?? 0)) / prices[i - 1]));
     } else {
       returns.push(0);
     }
@@ -240,6 +245,36 @@ function calculateFractalDimension(returns: number[]): number {
   return Math.max(1, Math.min(2, 2 - hurst));
 }
 
+/**
+ * Put bars stored before a later split back on the split-adjusted basis and mark dividends on their ex-dates
+ */
+function applyCorporateActions(bars: OHLCVBar[], actions: CorporateAction[]): OHLCVBar[] {
+  if (actions.length === 0) return bars;
+
+  const dated = bars.map((b) => ({ ...b, date: new Date(b.timestamp).toISOString().split('T')[0] }));
+  const { bars: adjusted, restated } = restateStaleSplits(dated, actions);
+  if (restated.length > 0) {
+    console.log(`[Polygon] Restated history for ${restated.map((a) => `${a.symbol} ${a.date}`).join(', ')} split(s)`);
+  }
+
+  const dividends = dividendsByBar(adjusted, actions);
+  return adjusted.map(({ date: _date, ...bar }, i) => (dividends[i] > 0 ? { ...bar, dividend: dividends[i] } : bar));
+}
+
+/**
+ * Closes back-adjusted for the dividends marked on the bars, so drawdowns and price-path returns include them
+ */
+export function totalReturnCloses(bars: OHLCVBar[]): number[] {
+  const closes = bars.map((b) => b.close);
+  let factor = 1;
+  for (let i = bars.length - 2; i >= 0; i--) {
+    const next = bars[i + 1].dividend ?? 0;
+    if (next > 0 && bars[i].close > 0) factor *= 1 - next / bars[i].close;
+    closes[i] = bars[i].close * factor;
+  }
+  return closes;
+}
+
 // Convert internal bars to validation format
 function toValidationBars(bars: OHLCVBar[]): ValidationOHLCVBar[] {
   return bars.map(b => ({
@@ -252,145 +287,87 @@ function toValidationBars(bars: OHLCVBar[]): ValidationOHLCVBar[] {
   }));
 }
 
-type PolygonAggResult = {
-  t: number;
-  o: number;
-  h: number;
-  l: number;
-  c: number;
-  v: number;
-  vw?: number;
-};
-
 // Main handler class
 class PolygonDataHandler {
   private cache = new DataCache();
   private readonly CACHE_TTL = 60 * 60 * 1000; // 1 hour
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAYS = [300, 600, 1200]; // Exponential backoff
-
-  /**
-   * Fetch with retry - attempts up to 3 times with exponential backoff
-   */
-  private async fetchWithRetry<T>(
-    fetchFn: () => Promise<T>,
-    context: string
-  ): Promise<T> {
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
-      try {
-        if (attempt > 0) {
-          const delay = this.RETRY_DELAYS[attempt - 1];
-          console.log(`[Polygon] Retry attempt ${attempt + 1}/${this.MAX_RETRIES} for ${context} after ${delay}ms`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-
-        return await fetchFn();
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        console.warn(`[Polygon] Attempt ${attempt + 1}/${this.MAX_RETRIES} failed for ${context}:`, lastError.message);
-
-        // Don't retry on certain errors
-        if (lastError.message.includes('403') || lastError.message.includes('401')) {
-          console.error(`[Polygon] Non-retryable error for ${context}, aborting retries`);
-          throw lastError;
-        }
-      }
-    }
-
-    console.error(`[Polygon] All ${this.MAX_RETRIES} retry attempts failed for ${context}`);
-    throw lastError || new Error(`Failed to fetch ${context} after ${this.MAX_RETRIES} attempts`);
-  }
-
-  private async fetchAggsViaBackend(params: {
-    ticker: string;
-    startDate: string;
-    endDate: string;
-    timespan: string;
-  }): Promise<PolygonAggResult[]> {
-    const { ticker, startDate, endDate, timespan } = params;
-
-    // Uses backend function so API keys never touch the browser and avoids CORS issues.
-    const { data, error } = await supabase.functions.invoke("polygon-aggs", {
-      body: { ticker, startDate, endDate, timespan },
-    });
-
-    if (error) {
-      console.error("[Polygon] Backend function error:", error);
-      throw new Error(error.message || "Polygon backend function failed");
-    }
-
-    if (!data?.ok) {
-      console.error("[Polygon] Backend returned error:", data);
-
-      let message = data?.error || "Polygon backend error";
-
-      // If backend provided a Polygon JSON payload in `details`, surface the real message.
-      if (typeof data?.details === "string" && data.details.trim().startsWith("{") ) {
-        try {
-          const parsed = JSON.parse(data.details);
-          if (parsed?.message) message = String(parsed.message);
-        } catch {
-          // ignore parse errors
-        }
-      }
-
-      // Make the common subscription limitation actionable.
-      if (data?.status === 403 && /plan doesn't include this data timeframe/i.test(message)) {
-        message = `${message} Try a more recent date range (e.g. last 6–12 months) or upgrade your Polygon plan.`;
-      }
-
-      throw new Error(message);
-    }
-
-    return Array.isArray(data.results) ? (data.results as PolygonAggResult[]) : [];
-  }
 
   async fetchHistory(
     ticker: string,
     startDate: string,
-    endDate: string,
-    timespan: string = 'day'
-  ): Promise<{ bars: OHLCVBar[]; source: 'cache' | 'api'; validation?: DataValidationResult }> {
-    const cacheKey = `history:${ticker}:${startDate}:${endDate}:${timespan}`;
+    endDate: string
+  ): Promise<{
+    bars: OHLCVBar[];
+    source: 'cache' | 'api';
+    corporateActions: CorporateAction[];
+    validation?: DataValidationResult;
+  }> {
+    const cacheKey = `history:${ticker}:${startDate}:${endDate}`;
 
     // Check cache first
-    const cached = this.cache.get<OHLCVBar[]>(cacheKey);
+    const cached = this.cache.get<{ bars: OHLCVBar[]; corporateActions: CorporateAction[] }>(cacheKey);
     if (cached) {
       console.log(`[Polygon] Cache hit for ${ticker} (fetched ${new Date(cached.fetchedAt).toLocaleTimeString()})`);
-      return { bars: cached.data, source: 'cache', validation: cached.validation };
+      return { ...cached.data, source: 'cache', validation: cached.validation };
     }
 
-    console.log(`[Polygon] API fetch for ${ticker} from ${startDate} to ${endDate}`);
+    let allBars: OHLCVBar[] | null = null;
+    let source: 'cache' | 'api' = 'api';
+
+    // The shared bar store fetches only the dates it does not hold yet
+    const stored = (await barStore.getBars([ticker], startDate, endDate)).get(ticker.toUpperCase());
+    if (stored?.complete) {
+      allBars = stored.bars.map((b) => ({
+        timestamp: Date.parse(`${b.date}T00:00:00Z`),
+        open: b.open,
+        high: b.high,
+        low: b.low,
+        close: b.close,
+        volume: b.volume,
+        vwap: b.vwap || b.close,
+      }));
+      source = stored.source === 'store' ? 'cache' : 'api';
+      console.log(`[Polygon] Got ${allBars.length} bars for ${ticker} from the bar store (${stored.source})`);
+    }
 
-    // Fetch with retry
-    const results = await this.fetchWithRetry(
-      () => this.fetchAggsViaBackend({ ticker, startDate, endDate, timespan }),
-      ticker
-    );
+    if (!allBars) {
+      // The router falls back across providers; rate budgets and circuit breakers stand in for retries
+      const { data, provider, attempts } = await marketDataRouter.bars(ticker, startDate, endDate);
+      const failure = attempts.find((a) => a.outcome !== 'ok' && a.outcome !== 'empty');
+      if (!data && failure) {
+        throw new Error(failure.error || `No market data provider could supply bars for ${ticker} (${failure.outcome})`);
+      }
 
-    const allBars: OHLCVBar[] = results.map((r) => ({
-      timestamp: r.t,
-      open: r.o,
-      high: r.h,
-      low: r.l,
-      close: r.c,
-      volume: r.v,
-      vwap: r.vw || r.c,
-    }));
+      allBars = (data ?? []).map((b) => ({
+        timestamp: Date.parse(`${b.date}T00:00:00Z`),
+        open: b.open,
+        high: b.high,
+        low: b.low,
+        close: b.close,
+        volume: b.volume,
+        vwap: b.vwap || b.close,
+      }));
+
+      console.log(`[Polygon] Got ${allBars.length} bars for ${ticker} from ${provider ?? 'no provider'}`);
+    }
 
-    console.log(`[Polygon] Got ${allBars.length} bars for ${ticker} from API`);
+    // Splits and dividends, so jumps they explain are neither returns nor data errors
+    const corporateActions = (await getCorporateActionHistory([ticker], startDate, endDate)).get(ticker.toUpperCase()) ?? [];
 
     // Forward-fill gaps
-    const filledBars = forwardFillGaps(allBars);
+    const filledBars = forwardFillGaps(applyCorporateActions(allBars, corporateActions));
 
     // Validate the data
     const validationBars = toValidationBars(filledBars);
-    const validation = validateTickerData(ticker, validationBars, {
-      start: new Date(startDate),
-      end: new Date(endDate),
-    });
+    const validation = validateTickerData(
+      ticker,
+      validationBars,
+      {
+        start: new Date(startDate),
+        end: new Date(endDate),
+      },
+      corporateActions
+    );
 
     // Log validation status
     if (validation.isValid) {
@@ -400,9 +377,9 @@ class PolygonDataHandler {
     }
 
     // Cache results with validation metadata
-    this.cache.set(cacheKey, filledBars, this.CACHE_TTL, validation);
+    this.cache.set(cacheKey, { bars: filledBars, corporateActions }, this.CACHE_TTL, validation);
 
-    return { bars: filledBars, source: 'api', validation };
+    return { bars: filledBars, source, corporateActions, validation };
   }
 
   async fetchAndCleanHistory(
@@ -417,6 +394,9 @@ class PolygonDataHandler {
 
     console.log(`[Polygon] Starting fetch for ${tickers.length} tickers (${startDate} to ${endDate})`);
 
+    // One lookup for every ticker's events; fetchHistory then reads them from the session memo
+    await getCorporateActionHistory(tickers, startDate, endDate);
+
     for (let i = 0; i < tickers.length; i++) {
       const ticker = tickers[i];
       const pct = (i / tickers.length) * 100;
@@ -425,7 +405,7 @@ class PolygonDataHandler {
       console.log(`[Polygon] Processing ${ticker} (${i + 1}/${tickers.length})`);
 
       try {
-        const { bars, source, validation } = await this.fetchHistory(ticker, startDate, endDate);
+        const { bars, source, corporateActions, validation } = await this.fetchHistory(ticker, startDate, endDate);
 
         if (bars.length === 0) {
           console.warn(`[Polygon] No data for ${ticker}`);
@@ -438,9 +418,9 @@ class PolygonDataHandler {
           continue;
         }
 
-        // Calculate returns from close prices
+        // Calculate total returns from close prices and dividends
         const prices = bars.map((b) => b.close);
-        const returns = calculateReturns(prices);
+        const returns = calculateReturns(prices, bars.map((b) => b.dividend ?? 0));
 
         // Calculate annualized volatility
         const volatility = calculateVolatility(returns);
@@ -450,6 +430,7 @@ class PolygonDataHandler {
           bars,
           returns,
           volatility,
+          corporateActions,
           validation,
         });
 
@@ -522,7 +503,7 @@ class PolygonDataHandler {
     // Validate each ticker's data
     for (const [ticker, data] of assetData.entries()) {
       const validationBars = toValidationBars(data.bars);
-      const validation = validateTickerData(ticker, validationBars);
+      const validation = validateTickerData(ticker, validationBars, undefined, data.corporateActions);
       tickerStatuses.set(ticker, validation);
 
       if (!validation.isValid) {
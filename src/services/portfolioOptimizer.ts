@@ -1,4 +1,6 @@
-import { CorrelationMatrix } from './backtesterService';
+import type { CorrelationMatrix } from './backtesterService';
+import { covarianceFromCorrelation } from './covarianceEstimationService';
+import { DEFAULT_TAX_RATES, estimateTax, holdingTerm, LotReliefMethod, reliefOrder, TaxRates } from './taxLotService';
 
 // Types
 export interface AssetEmbedding {
@@ -335,13 +337,76 @@ export class HierarchicalRiskParity {
   }
 }
 
+/**
+ * Equal Risk Contribution (risk parity) implementation
+ */
+export class EqualRiskContribution {
+  /**
+   * Compute ERC weights from correlation matrix, optionally with unequal risk budgets
+   */
+  computeWeights(
+    correlationMatrix: CorrelationMatrix,
+    assetData: Map<string, AssetData>,
+    budgets?: Map<string, number>
+  ): Map<string, number> {
+    const covariance = covarianceFromCorrelation(correlationMatrix, assetData);
+    return this.computeWeightsFromCovariance(correlationMatrix.symbols, covariance, budgets);
+  }
+
+  /**
+   * Long-only weights whose risk contributions w_i(Σw)_i are proportional to the budgets.
+   * Cyclical coordinate descent on ½y'Σy − Σ b_i ln y_i (Griveau-Billion et al.), then normalized.
+   */
+  computeWeightsFromCovariance(
+    symbols: string[],
+    covariance: number[][],
+    budgets?: Map<string, number>,
+    tolerance: number = 1e-10,
+    maxSweeps: number = 10000
+  ): Map<string, number> {
+    const n = symbols.length;
+    if (n === 0) return new Map();
+
+    const rawBudgets = symbols.map(s => (budgets ? budgets.get(s) ?? 0 : 1));
+    rawBudgets.forEach((b, i) => {
+      if (!(b > 0)) throw new Error(`Risk budget for ${symbols[i]} must be positive`);
+    });
+    covariance.forEach((row, i) => {
+      if (!(row[i] > 0)) throw new Error(`${symbols[i]} has no variance; cannot budget its risk`);
+    });
+    const totalBudget = rawBudgets.reduce((a, b) => a + b, 0);
+    const b = rawBudgets.map(x => x / totalBudget);
+
+    // Start from inverse volatility, which is exact when assets are uncorrelated with equal budgets
+    const y = covariance.map((row, i) => 1 / Math.sqrt(row[i]));
+    for (let sweep = 0; sweep < maxSweeps; sweep++) {
+      let maxChange = 0;
+      for (let i = 0; i < n; i++) {
+        let c = 0;
+        for (let j = 0; j < n; j++) if (j !== i) c += covariance[i][j] * y[j];
+        const a = covariance[i][i];
+        const next = (-c + Math.sqrt(c * c + 4 * a * b[i])) / (2 * a);
+        maxChange = Math.max(maxChange, Math.abs(next - y[i]) / Math.max(next, 1e-12));
+        y[i] = next;
+      }
+      if (maxChange < tolerance) break;
+    }
+
+    const total = y.reduce((a, v) => a + v, 0);
+    return new Map(symbols.map((s, i) => [s, y[i] / total]));
+  }
+}
+
 /**
  * Tax-aware portfolio optimizer
  */
 export class TaxAwareOptimizer {
   private taxLots: TaxLot[] = [];
-  private shortTermRate: number = 0.35;
-  private longTermRate: number = 0.15;
+
+  constructor(
+    private rates: TaxRates = DEFAULT_TAX_RATES,
+    private method: Exclude<LotReliefMethod, 'specific_id'> = 'fifo'
+  ) {}
 
   /**
    * Set current holdings
@@ -351,43 +416,40 @@ export class TaxAwareOptimizer {
   }
 
   /**
-   * Calculate tax impact of selling shares
+   * Calculate tax impact of selling shares, relieving lots in the configured order
    */
   calculateTaxImpact(
     ticker: string,
     sharesToSell: number,
-    currentPrice: number
+    currentPrice: number,
+    saleDate: Date = new Date()
   ): number {
-    // Get lots for ticker sorted by date (FIFO)
-    const tickerLots = this.taxLots
-      .filter(lot => lot.ticker === ticker)
-      .sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime());
+    const tickerLots = reliefOrder(
+      this.taxLots
+        .filter(lot => lot.ticker === ticker)
+        .map(lot => ({ lot, holdingPeriodStart: lot.purchaseDate.toISOString().split('T')[0], costPerShare: lot.costBasis })),
+      this.method
+    );
 
     if (tickerLots.length === 0) return 0;
 
-    const now = new Date();
-    const oneYearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
-    
+    const sale = saleDate.toISOString().split('T')[0];
     let remainingToSell = sharesToSell;
-    let totalTax = 0;
+    let shortTermGain = 0;
+    let longTermGain = 0;
 
-    for (const lot of tickerLots) {
+    for (const { lot, holdingPeriodStart } of tickerLots) {
       if (remainingToSell <= 0) break;
 
       const sharesFromLot = Math.min(remainingToSell, lot.shares);
       const gain = (currentPrice - lot.costBasis) * sharesFromLot;
-
-      if (gain > 0) {
-        // Determine tax rate based on holding period
-        const isLongTerm = lot.purchaseDate < oneYearAgo;
-        const rate = isLongTerm ? this.longTermRate : this.shortTermRate;
-        totalTax += gain * rate;
-      }
+      if (holdingTerm(holdingPeriodStart, sale) === 'long') longTermGain += gain;
+      else shortTermGain += gain;
 
       remainingToSell -= sharesFromLot;
     }
 
-    return totalTax;
+    return estimateTax(shortTermGain, longTermGain, this.rates);
   }
 }
 
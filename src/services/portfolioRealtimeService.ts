@@ -19,6 +19,7 @@ export interface RealtimePosition {
   unrealized_gain: number | null;
   unrealized_gain_percent: number | null;
   asset_type: string | null;
+  currency: string | null;
   source: string;
   purchase_date: string | null;
   last_price_update: string | null;
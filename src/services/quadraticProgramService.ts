@@ -0,0 +1,499 @@
+// Quadratic Program Service - Dense convex QP solver for portfolio optimization
+// Solves  min ½x'Px + q'x  subject to  l ≤ Ax ≤ u  with the OSQP splitting (ADMM) followed
+// by an active-set polish, so small problems come back accurate to machine tolerance
+
+export interface QuadraticProgram {
+  P: number[][]; // n x n, symmetric positive semidefinite
+  q: number[]; // n
+  A: number[][]; // m x n
+  l: number[]; // m, -Infinity for no lower bound
+  u: number[]; // m, Infinity for no upper bound
+}
+
+export type QPStatus = 'solved' | 'infeasible' | 'max_iterations';
+
+export interface QPResult {
+  status: QPStatus;
+  x: number[];
+  y: number[]; // Constraint multipliers: negative at an active lower bound, positive at an active upper bound
+  objective: number;
+  iterations: number;
+  polished: boolean;
+  primalResidual: number;
+  dualResidual: number;
+}
+
+export interface QPOptions {
+  maxIterations?: number;
+  epsAbs?: number;
+  epsRel?: number;
+  warmStart?: { x: number[]; y: number[] };
+}
+
+const SIGMA = 1e-6;
+const ALPHA = 1.6; // Over-relaxation
+const RHO_INITIAL = 0.1;
+const RHO_MIN = 1e-6;
+const RHO_MAX = 1e6;
+const RHO_EQUALITY_SCALE = 1e3;
+const ADAPT_INTERVAL = 25;
+const INFEASIBILITY_TOLERANCE = 1e-7;
+const POLISH_DELTA = 1e-9;
+const POLISH_REFINEMENTS = 3;
+const POLISH_INTERVAL = 50;
+
+const norm = (v: number[]) => v.reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+
+function matVec(M: number[][], v: number[]): number[] {
+  const out = new Array(M.length);
+  for (let i = 0; i < M.length; i++) {
+    const row = M[i];
+    let sum = 0;
+    for (let j = 0; j < row.length; j++) sum += row[j] * v[j];
+    out[i] = sum;
+  }
+  return out;
+}
+
+/**
+ * Cholesky factor L of a symmetric positive definite matrix (M = LL')
+ */
+export function choleskyFactor(M: number[][]): number[][] {
+  const n = M.length;
+  const L = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = M[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 0) throw new Error('Matrix is not positive definite');
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+export function choleskySolve(L: number[][], b: number[]): number[] {
+  const n = L.length;
+  const y = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * y[k];
+    y[i] = sum / L[i][i];
+  }
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+interface LUFactorization {
+  lu: number[][];
+  pivots: number[];
+}
+
+/**
+ * LU factorization with partial pivoting, reusable across right-hand sides
+ */
+function luFactor(M: number[][]): LUFactorization {
+  const n = M.length;
+  const lu = M.map(row => [...row]);
+  const pivots = Array.from({ length: n }, (_, i) => i);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(lu[r][col]) > Math.abs(lu[pivot][col])) pivot = r;
+    }
+    if (Math.abs(lu[pivot][col]) < 1e-14) throw new Error('Matrix is singular');
+    [lu[col], lu[pivot]] = [lu[pivot], lu[col]];
+    [pivots[col], pivots[pivot]] = [pivots[pivot], pivots[col]];
+    for (let r = col + 1; r < n; r++) {
+      const factor = (lu[r][col] /= lu[col][col]);
+      if (factor === 0) continue;
+      for (let c = col + 1; c < n; c++) lu[r][c] -= factor * lu[col][c];
+    }
+  }
+  return { lu, pivots };
+}
+
+function luSolve({ lu, pivots }: LUFactorization, b: number[]): number[] {
+  const n = lu.length;
+  const y = pivots.map(p => b[p]);
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < i; k++) y[i] -= lu[i][k] * y[k];
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let k = i + 1; k < n; k++) y[i] -= lu[i][k] * y[k];
+    y[i] /= lu[i][i];
+  }
+  return y;
+}
+
+/**
+ * Solve a general square system by Gaussian elimination with partial pivoting
+ */
+export function solveLinearSystem(M: number[][], b: number[]): number[] {
+  return luSolve(luFactor(M), b);
+}
+
+function objectiveValue(P: number[][], q: number[], x: number[]): number {
+  const Px = matVec(P, x);
+  return x.reduce((sum, xi, i) => sum + 0.5 * xi * Px[i] + q[i] * xi, 0);
+}
+
+function constraintViolation(A: number[][], l: number[], u: number[], x: number[]): number {
+  return matVec(A, x).reduce((max, ax, i) => Math.max(max, l[i] - ax, ax - u[i]), 0);
+}
+
+function rhoVector(l: number[], u: number[], rho: number): number[] {
+  return l.map((li, i) => {
+    if (li === -Infinity && u[i] === Infinity) return RHO_MIN;
+    if (Math.abs(u[i] - li) < 1e-12) return Math.min(RHO_MAX, RHO_EQUALITY_SCALE * rho);
+    return rho;
+  });
+}
+
+function factorKkt(P: number[][], A: number[][], rho: number[]): number[][] {
+  const n = P.length;
+  const K = P.map((row, i) => row.map((pij, j) => pij + (i === j ? SIGMA : 0)));
+  A.forEach((row, r) => {
+    for (let i = 0; i < n; i++) {
+      if (row[i] === 0) continue;
+      for (let j = 0; j < n; j++) K[i][j] += rho[r] * row[i] * row[j];
+    }
+  });
+  return choleskyFactor(K);
+}
+
+/**
+ * Polish an approximate solution: guess the active constraints from the multipliers and
+ * solve the resulting equality-constrained QP exactly. Returns null if the guess is wrong.
+ */
+function polish(problem: QuadraticProgram, z: number[], y: number[], tolerance: number): { x: number[]; y: number[] } | null {
+  const { P, q, A, l, u } = problem;
+  const n = q.length;
+  const active: { row: number; bound: number }[] = [];
+  A.forEach((_, i) => {
+    if (l[i] === u[i] || z[i] - l[i] < -y[i]) active.push({ row: i, bound: l[i] });
+    else if (u[i] - z[i] < y[i]) active.push({ row: i, bound: u[i] });
+  });
+
+  const size = n + active.length;
+  const K = Array.from({ length: size }, () => new Array(size).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) K[i][j] = P[i][j];
+    K[i][i] += POLISH_DELTA;
+  }
+  active.forEach(({ row }, k) => {
+    for (let j = 0; j < n; j++) {
+      K[n + k][j] = A[row][j];
+      K[j][n + k] = A[row][j];
+    }
+    K[n + k][n + k] = -POLISH_DELTA;
+  });
+  const rhs = [...q.map(v => -v), ...active.map(a => a.bound)];
+
+  let solution: number[];
+  try {
+    const factors = luFactor(K);
+    solution = luSolve(factors, rhs);
+    // Iterative refinement against the unregularized system
+    const exact = K.map((row, i) => row.map((v, j) => (i === j ? v + (i < n ? -POLISH_DELTA : POLISH_DELTA) : v)));
+    for (let pass = 0; pass < POLISH_REFINEMENTS; pass++) {
+      const residual = matVec(exact, solution).map((v, i) => rhs[i] - v);
+      const correction = luSolve(factors, residual);
+      solution = solution.map((v, i) => v + correction[i]);
+    }
+  } catch {
+    return null;
+  }
+
+  const x = solution.slice(0, n);
+  if (constraintViolation(A, l, u, x) > tolerance) return null;
+
+  const polishedY = new Array(A.length).fill(0);
+  active.forEach(({ row }, k) => { polishedY[row] = solution[n + k]; });
+  // Multipliers must have the sign of the bound they hold
+  const signsOk = active.every(({ row, bound }, k) => l[row] === u[row] || (bound === l[row] ? solution[n + k] <= tolerance : solution[n + k] >= -tolerance));
+  if (signsOk) return { x, y: polishedY };
+
+  // At a degenerate point more constraints are active than needed and the multipliers are
+  // not unique; look for a sign-correct set with non-negative least squares instead
+  const gradient = matVec(P, x).map((v, i) => v + q[i]);
+  const columns: { row: number; sign: number }[] = [];
+  active.forEach(({ row, bound }) => {
+    if (l[row] === u[row]) columns.push({ row, sign: 1 }, { row, sign: -1 });
+    else columns.push({ row, sign: bound === l[row] ? -1 : 1 });
+  });
+  const M = gradient.map((_, j) => columns.map(({ row, sign }) => sign * A[row][j]));
+  const weights = nonNegativeLeastSquares(M, gradient.map(g => -g));
+  if (!weights) return null;
+
+  const residual = norm(gradient.map((g, j) => g + columns.reduce((sum, { row, sign }, c) => sum + sign * A[row][j] * weights[c], 0)));
+  if (residual > tolerance * Math.max(1, norm(gradient))) return null;
+  polishedY.fill(0);
+  columns.forEach(({ row, sign }, c) => { polishedY[row] += sign * weights[c]; });
+  return { x, y: polishedY };
+}
+
+/**
+ * Lawson-Hanson non-negative least squares: min ||Mv - b|| subject to v ≥ 0
+ */
+export function nonNegativeLeastSquares(M: number[][], b: number[], maxIterations: number = 500): number[] | null {
+  const cols = M.length > 0 ? M[0].length : 0;
+  const v = new Array(cols).fill(0);
+  const passive = new Array(cols).fill(false);
+  const tolerance = 1e-12 * Math.max(1, norm(b));
+
+  // Everything below only needs the normal equations M'M v = M'b
+  const gram = Array.from({ length: cols }, (_, a) =>
+    Array.from({ length: cols }, (_, c) => M.reduce((sum, row) => sum + row[a] * row[c], 0))
+  );
+  const projected = Array.from({ length: cols }, (_, a) => M.reduce((sum, row, i) => sum + row[a] * b[i], 0));
+
+  const gradient = () => projected.map((pa, a) => pa - gram[a].reduce((sum, g, c) => sum + g * v[c], 0));
+  const leastSquares = (set: number[]) => {
+    const solution = new Array(cols).fill(0);
+    const subset = solveLinearSystem(set.map(a => set.map(c => gram[a][c])), set.map(a => projected[a]));
+    subset.forEach((value, k) => { solution[set[k]] = value; });
+    return solution;
+  };
+
+  try {
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const w = gradient();
+      let entering = -1;
+      for (let j = 0; j < cols; j++) {
+        if (!passive[j] && w[j] > tolerance && (entering < 0 || w[j] > w[entering])) entering = j;
+      }
+      if (entering < 0) return v;
+      passive[entering] = true;
+
+      for (;;) {
+        const set = passive.flatMap((p, j) => (p ? [j] : []));
+        const candidate = leastSquares(set);
+        if (set.every(j => candidate[j] > 0)) {
+          set.forEach(j => { v[j] = candidate[j]; });
+          break;
+        }
+        // Step back to the boundary and drop the variables that hit zero
+        let step = 1;
+        set.forEach(j => {
+          if (candidate[j] <= 0) step = Math.min(step, v[j] / (v[j] - candidate[j]));
+        });
+        set.forEach(j => {
+          v[j] += step * (candidate[j] - v[j]);
+          if (v[j] <= tolerance) {
+            v[j] = 0;
+            passive[j] = false;
+          }
+        });
+      }
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+interface SparseRows {
+  cols: number[][];
+  vals: number[][];
+}
+
+function toSparseRows(A: number[][]): SparseRows {
+  const cols: number[][] = [];
+  const vals: number[][] = [];
+  A.forEach(row => {
+    const c: number[] = [];
+    const v: number[] = [];
+    row.forEach((aij, j) => {
+      if (aij !== 0) {
+        c.push(j);
+        v.push(aij);
+      }
+    });
+    cols.push(c);
+    vals.push(v);
+  });
+  return { cols, vals };
+}
+
+function sparseMatVec({ cols, vals }: SparseRows, v: number[]): number[] {
+  const out = new Array(cols.length);
+  for (let i = 0; i < cols.length; i++) {
+    let sum = 0;
+    for (let k = 0; k < cols[i].length; k++) sum += vals[i][k] * v[cols[i][k]];
+    out[i] = sum;
+  }
+  return out;
+}
+
+function sparseMatTVec({ cols, vals }: SparseRows, v: number[], n: number): number[] {
+  const out = new Array(n).fill(0);
+  for (let i = 0; i < cols.length; i++) {
+    if (v[i] === 0) continue;
+    for (let k = 0; k < cols[i].length; k++) out[cols[i][k]] += vals[i][k] * v[i];
+  }
+  return out;
+}
+
+/**
+ * Solve a convex quadratic program
+ */
+export function solveQuadraticProgram(problem: QuadraticProgram, options: QPOptions = {}): QPResult {
+  const n = problem.q.length;
+  const m = problem.A.length;
+  const maxIterations = options.maxIterations ?? 10000;
+  const epsAbs = options.epsAbs ?? 1e-7;
+  const epsRel = options.epsRel ?? 1e-7;
+  const polishTolerance = Math.max(epsAbs, 1e-9) * 10;
+
+  // Equilibrate: scale the objective towards unit size and every constraint row to unit
+  // infinity norm. The scaled problem has the same x; multipliers are mapped back at the end.
+  const meanDiagonal = problem.P.reduce((sum, row, i) => sum + Math.abs(row[i]), 0) / Math.max(n, 1);
+  const costScale = 1 / Math.max(meanDiagonal, norm(problem.q), 1e-8);
+  const rowScale = problem.A.map(row => 1 / Math.max(norm(row), 1e-12));
+  const P = problem.P.map(row => row.map(v => v * costScale));
+  const q = problem.q.map(v => v * costScale);
+  const A = problem.A.map((row, i) => row.map(v => v * rowScale[i]));
+  const l = problem.l.map((v, i) => v * rowScale[i]);
+  const u = problem.u.map((v, i) => v * rowScale[i]);
+  const scaled: QuadraticProgram = { P, q, A, l, u };
+  const sparseA = toSparseRows(A);
+
+  let x = options.warmStart ? [...options.warmStart.x] : new Array(n).fill(0);
+  let y = options.warmStart ? options.warmStart.y.map((v, i) => (v * costScale) / rowScale[i]) : new Array(m).fill(0);
+  const z = sparseMatVec(sparseA, x).map((v, i) => Math.min(u[i], Math.max(l[i], v)));
+
+  let rhoScalar = RHO_INITIAL;
+  let rho = rhoVector(l, u, rhoScalar);
+  let L = factorKkt(P, A, rho);
+
+  let status: QPStatus = 'max_iterations';
+  let polished = false;
+  let nextPolishAttempt = 0;
+  let polishInterval = POLISH_INTERVAL;
+  let iterations = 0;
+  let primalResidual = Infinity;
+  let dualResidual = Infinity;
+
+  // Neighbouring problems (e.g. successive frontier targets) usually share an active set
+  if (options.warmStart) {
+    const result = polish(scaled, z, y, polishTolerance);
+    if (result) {
+      x = result.x;
+      y = result.y;
+      polished = true;
+      status = 'solved';
+    }
+  }
+
+  while (!polished && iterations < maxIterations) {
+    iterations++;
+    const rhs = sparseMatTVec(sparseA, rho.map((r, i) => r * z[i] - y[i]), n);
+    for (let i = 0; i < n; i++) rhs[i] += SIGMA * x[i] - q[i];
+    const xTilde = choleskySolve(L, rhs);
+    const zTilde = sparseMatVec(sparseA, xTilde);
+
+    const deltaY = new Array(m);
+    for (let i = 0; i < n; i++) x[i] = ALPHA * xTilde[i] + (1 - ALPHA) * x[i];
+    for (let i = 0; i < m; i++) {
+      const relaxed = ALPHA * zTilde[i] + (1 - ALPHA) * z[i];
+      const next = Math.min(u[i], Math.max(l[i], relaxed + y[i] / rho[i]));
+      deltaY[i] = rho[i] * (relaxed - next);
+      y[i] += deltaY[i];
+      z[i] = next;
+    }
+
+    const Ax = sparseMatVec(sparseA, x);
+    const Px = matVec(P, x);
+    const ATy = sparseMatTVec(sparseA, y, n);
+    primalResidual = norm(Ax.map((v, i) => v - z[i]));
+    dualResidual = norm(Px.map((v, i) => v + q[i] + ATy[i]));
+    const primalScale = Math.max(norm(Ax), norm(z));
+    const dualScale = Math.max(norm(Px), norm(ATy), norm(q));
+
+    if (primalResidual <= epsAbs + epsRel * primalScale && dualResidual <= epsAbs + epsRel * dualScale) {
+      status = 'solved';
+      break;
+    }
+
+    // Once roughly converged the active set is usually settled: try to finish exactly
+    const coarse = primalResidual <= 1e-4 * (1 + primalScale) && dualResidual <= 1e-4 * (1 + dualScale);
+    if (coarse && iterations >= nextPolishAttempt) {
+      // Back off after each failed guess; polishing costs far more than an iteration
+      nextPolishAttempt = iterations + polishInterval;
+      polishInterval *= 2;
+      const result = polish(scaled, z, y, polishTolerance);
+      if (result) {
+        x = result.x;
+        y = result.y;
+        polished = true;
+        status = 'solved';
+        break;
+      }
+    }
+
+    // Primal infeasibility certificate: A'δy ≈ 0 while u'max(δy,0) + l'min(δy,0) < 0
+    const deltaNorm = norm(deltaY);
+    if (deltaNorm > 0 && norm(sparseMatTVec(sparseA, deltaY, n)) <= INFEASIBILITY_TOLERANCE * deltaNorm) {
+      const support = deltaY.reduce((sum, d, i) => {
+        if (d > 0) return sum + (u[i] === Infinity ? Infinity : u[i] * d);
+        if (d < 0) return sum + (l[i] === -Infinity ? Infinity : l[i] * d);
+        return sum;
+      }, 0);
+      if (support < -INFEASIBILITY_TOLERANCE * deltaNorm) {
+        status = 'infeasible';
+        break;
+      }
+    }
+
+    // Rebalance the step size when one residual dominates the other
+    if (iterations % ADAPT_INTERVAL === 0) {
+      const ratio = Math.sqrt((primalResidual / Math.max(primalScale, 1e-12)) / Math.max(dualResidual / Math.max(dualScale, 1e-12), 1e-12));
+      const next = Math.min(RHO_MAX, Math.max(RHO_MIN, rhoScalar * ratio));
+      if (next > 5 * rhoScalar || next < rhoScalar / 5) {
+        rhoScalar = next;
+        rho = rhoVector(l, u, rhoScalar);
+        L = factorKkt(P, A, rho);
+      }
+    }
+  }
+
+  if (!polished && status !== 'infeasible') {
+    // A polished point satisfies every KKT condition, so it is the exact optimum
+    const result = polish(scaled, z, y, polishTolerance);
+    if (result) {
+      x = result.x;
+      y = result.y;
+      polished = true;
+      status = 'solved';
+    }
+  }
+  const Px = matVec(problem.P, x);
+  const yUnscaled = y.map((v, i) => (v * rowScale[i]) / costScale);
+  const ATy = new Array(n).fill(0);
+  problem.A.forEach((row, i) => row.forEach((aij, j) => { ATy[j] += aij * yUnscaled[i]; }));
+  primalResidual = polished
+    ? constraintViolation(problem.A, problem.l, problem.u, x)
+    : norm(matVec(problem.A, x).map((v, i) => v - z[i] / rowScale[i]));
+  dualResidual = norm(Px.map((v, i) => v + problem.q[i] + ATy[i]));
+
+  return {
+    status,
+    x,
+    y: yUnscaled,
+    objective: objectiveValue(problem.P, problem.q, x),
+    iterations,
+    polished,
+    primalResidual,
+    dualResidual,
+  };
+}
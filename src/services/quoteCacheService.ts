@@ -2,16 +2,18 @@
  * Multi-layer Quote Cache Service
  * Layer 1: In-memory cache (instant, survives within session)
  * Layer 2: LocalStorage cache (survives page refresh)
- * Layer 3: Mock data fallback when API unavailable
+ * Layer 3: Market data router (providers in the configured fallback order)
  */
 
-import { getQuote, getBatchQuotes, getCompanyProfile, type StockQuote } from './finnhubService';
-
+import type { StockQuote } from './finnhubService';
+import type { ProviderId } from './marketDataRouter';
+import { marketDataRouter, toStockQuote } from './marketDataProviders';
 
 interface CachedQuote {
   quote: StockQuote;
   fetchedAt: number;
   isMock?: boolean;
+  provider?: ProviderId; // Which provider supplied the quote
 }
 
 interface CachedProfile {
@@ -128,12 +130,12 @@ export async function getCachedQuote(symbol: string): Promise<StockQuote | null>
     return localCached.quote;
   }
 
-  // Try Finnhub first (service will transparently use backend proxy if needed)
-  console.log(`[CACHE MISS] Fetching from Finnhub: ${upperSymbol}`);
-  const quote = await getQuote(upperSymbol);
+  console.log(`[CACHE MISS] Fetching: ${upperSymbol}`);
+  const { data } = await marketDataRouter.quote(upperSymbol);
 
-  if (quote) {
-    const cached = { quote, fetchedAt: Date.now(), isMock: false };
+  if (data) {
+    const { provider, ...quote } = toStockQuote(data);
+    const cached = { quote, fetchedAt: Date.now(), isMock: provider === 'mock', provider };
     memoryCache.set(upperSymbol, cached);
     localCache[upperSymbol] = cached;
     setLocalCache(localCache);
@@ -169,10 +171,10 @@ async function getCachedProfile(symbol: string): Promise<{ name: string; marketC
 
   // Fetch from API
   console.log(`[PROFILE CACHE MISS] Fetching: ${upperSymbol}`);
-  const profile = await getCompanyProfile(upperSymbol);
+  const { data: profile } = await marketDataRouter.profile(upperSymbol);
 
   const cached = {
-    profile: profile ? { name: profile.name, marketCap: profile.marketCap } : null,
+    profile: profile ? { name: profile.name, marketCap: profile.marketCap ?? 0 } : null,
     fetchedAt: Date.now(),
   };
   profileMemoryCache.set(upperSymbol, cached);
@@ -236,21 +238,18 @@ export async function getCachedQuotes(symbols: string[]): Promise<Map<string, St
 
     const updatedLocalCache = getLocalCache();
 
-    let fetched = new Map<string, StockQuote>();
-    try {
-      fetched = await getBatchQuotes(toFetch);
-    } catch (e) {
-      console.warn('[BATCH FETCH] Finnhub fetch failed, falling back to mock for missing', e);
-    }
+    const { quotes: fetched, missing } = await marketDataRouter.quotes(toFetch);
 
-    fetched.forEach((quote, symbol) => {
+    fetched.forEach((routed, symbol) => {
+      const { provider, ...quote } = toStockQuote(routed);
       results.set(symbol, quote);
-      const cached = { quote, fetchedAt: Date.now(), isMock: false };
-      memoryCache.set(symbol.toUpperCase(), cached);
-      updatedLocalCache[symbol.toUpperCase()] = cached;
+      const cached = { quote, fetchedAt: Date.now(), isMock: provider === 'mock', provider };
+      memoryCache.set(symbol, cached);
+      updatedLocalCache[symbol] = cached;
     });
 
-    // No mock fallback for batch - symbols without data just won't be in results
+    // Symbols no provider could supply just won't be in results
+    if (missing.length > 0) console.log(`[BATCH FETCH] No quote from any provider: ${missing.join(', ')}`);
 
     setLocalCache(updatedLocalCache);
   } else {
@@ -268,6 +267,15 @@ export function isQuoteMock(symbol: string): boolean {
   return cached?.isMock ?? false;
 }
 
+/**
+ * Which provider supplied the cached quote for a symbol
+ */
+export function getQuoteProvider(symbol: string): ProviderId | null {
+  const upperSymbol = symbol.toUpperCase();
+  const cached = memoryCache.get(upperSymbol) ?? getLocalCache()[upperSymbol];
+  return cached?.provider ?? null;
+}
+
 /**
  * Check if any quotes are using mock data
  */
@@ -0,0 +1,429 @@
+// Quote Stream Service - Live trades over a single provider WebSocket, shared by every visible ticker
+// Polls while the socket is down, throttles updates to the UI and pauses outside trading hours
+
+import { API_CONFIG } from '@/config/apiConfig';
+import { MOCK_QUOTE_STREAM_PATH } from './mockQuoteFeed';
+
+// ============= Types =============
+
+export type StreamProvider = 'polygon' | 'finnhub' | 'mock';
+export type StreamStatus = 'idle' | 'connecting' | 'streaming' | 'polling' | 'paused';
+
+export interface QuoteTick {
+  symbol: string;
+  price: number;
+  size: number | null;
+  timestamp: number;
+  source: 'stream' | 'poll';
+}
+
+export type StreamEvent =
+  | { type: 'ready' }
+  | { type: 'rejected'; message: string }
+  | { type: 'trade'; symbol: string; price: number; size: number | null; timestamp: number };
+
+export interface StreamProtocol {
+  readyOnOpen: boolean; // Otherwise subscriptions wait for a ready event
+  hello(): string[]; // Sent as soon as the socket opens
+  subscribe(symbols: string[]): string[];
+  unsubscribe(symbols: string[]): string[];
+  parse(data: string): StreamEvent[];
+}
+
+export interface StreamEndpoint {
+  provider: StreamProvider;
+  url: string;
+  protocol: StreamProtocol;
+}
+
+// The part of the browser WebSocket the stream uses
+export interface StreamSocket {
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+}
+
+export interface QuoteStreamOptions {
+  endpoint: StreamEndpoint | null; // null polls only
+  poll: (symbols: string[]) => Promise<Omit<QuoteTick, 'source'>[]>;
+  createSocket?: (url: string) => StreamSocket;
+  isActive?: () => boolean; // False pauses both streaming and polling
+  throttleMs?: number;
+  pollIntervalMs?: number;
+  activityCheckMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+export interface QuoteStreamState {
+  status: StreamStatus;
+  provider: StreamProvider | null;
+  symbols: number;
+  lastTickAt: number | null;
+  reconnectAttempts: number;
+  lastError: string | null;
+}
+
+type TickListener = (ticks: Map<string, QuoteTick>) => void;
+
+const POLYGON_STREAM_URL = 'wss://socket.polygon.io/stocks';
+const FINNHUB_STREAM_URL = 'wss://ws.finnhub.io';
+
+// ============= Protocols =============
+
+function parseJson(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+interface PolygonMessage {
+  ev?: string;
+  sym?: string;
+  p?: number;
+  s?: number;
+  t?: number;
+  status?: string;
+  message?: string;
+}
+
+/**
+ * Polygon stocks cluster: authenticate, then subscribe to T.<symbol> trade channels
+ */
+export function polygonProtocol(apiKey: string): StreamProtocol {
+  const channels = (symbols: string[]) => symbols.map(s => `T.${s}`).join(',');
+  return {
+    readyOnOpen: false,
+    hello: () => [JSON.stringify({ action: 'auth', params: apiKey })],
+    subscribe: symbols => [JSON.stringify({ action: 'subscribe', params: channels(symbols) })],
+    unsubscribe: symbols => [JSON.stringify({ action: 'unsubscribe', params: channels(symbols) })],
+    parse(data) {
+      const parsed = parseJson(data);
+      const messages = (Array.isArray(parsed) ? parsed : [parsed]) as PolygonMessage[];
+      return messages.flatMap((m): StreamEvent[] => {
+        if (m?.ev === 'T' && m.sym && typeof m.p === 'number') {
+          return [{ type: 'trade', symbol: m.sym, price: m.p, size: m.s ?? null, timestamp: m.t ?? Date.now() }];
+        }
+        if (m?.ev === 'status' && m.status === 'auth_success') return [{ type: 'ready' }];
+        if (m?.ev === 'status' && m.status === 'auth_failed') return [{ type: 'rejected', message: m.message || 'Authentication failed' }];
+        return [];
+      });
+    },
+  };
+}
+
+/**
+ * Finnhub trades socket: the token rides on the URL and each symbol is subscribed on its own
+ */
+export const finnhubProtocol: StreamProtocol = {
+  readyOnOpen: true,
+  hello: () => [],
+  subscribe: symbols => symbols.map(symbol => JSON.stringify({ type: 'subscribe', symbol })),
+  unsubscribe: symbols => symbols.map(symbol => JSON.stringify({ type: 'unsubscribe', symbol })),
+  parse(data) {
+    const message = parseJson(data) as { type?: string; data?: { s: string; p: number; v?: number; t: number }[] } | null;
+    if (message?.type !== 'trade' || !Array.isArray(message.data)) return [];
+    return message.data.map(t => ({ type: 'trade' as const, symbol: t.s, price: t.p, size: t.v ?? null, timestamp: t.t }));
+  },
+};
+
+/**
+ * Pick the stream from the environment: VITE_QUOTE_STREAM (polygon, finnhub, mock or off) when set,
+ * otherwise whichever provider has a key, otherwise none. The dev server's mock feed is opt-in only,
+ * and nothing streams while market data is disabled.
+ */
+export function resolveStreamEndpoint(env: Record<string, string | boolean | undefined> = import.meta.env): StreamEndpoint | null {
+  const polygonKey = env.VITE_POLYGON_API_KEY as string | undefined;
+  const finnhubKey = env.VITE_FINNHUB_API_KEY as string | undefined;
+  const choice = env.VITE_QUOTE_STREAM || (polygonKey ? 'polygon' : finnhubKey ? 'finnhub' : 'off');
+  const url = env.VITE_QUOTE_STREAM_URL as string | undefined;
+
+  if (!API_CONFIG.ENABLE_MARKET_DATA) return null;
+  if (choice === 'mock') {
+    const scheme = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return { provider: 'mock', url: url || `${scheme}//${window.location.host}${MOCK_QUOTE_STREAM_PATH}`, protocol: polygonProtocol('mock') };
+  }
+  if (choice === 'polygon' && polygonKey) {
+    return { provider: 'polygon', url: url || POLYGON_STREAM_URL, protocol: polygonProtocol(polygonKey) };
+  }
+  if (choice === 'finnhub' && finnhubKey) {
+    return { provider: 'finnhub', url: `${url || FINNHUB_STREAM_URL}?token=${finnhubKey}`, protocol: finnhubProtocol };
+  }
+  return null;
+}
+
+// ============= Stream =============
+
+export class QuoteStream {
+  private endpoint: StreamEndpoint | null;
+  private poll: QuoteStreamOptions['poll'];
+  private createSocket: (url: string) => StreamSocket;
+  private isActive: () => boolean;
+  private throttleMs: number;
+  private pollIntervalMs: number;
+  private activityCheckMs: number;
+  private maxReconnectDelayMs: number;
+
+  private refs = new Map<string, number>();
+  private socket: StreamSocket | null = null;
+  private ready = false;
+  private rejected = false;
+  private subscribed = new Set<string>(); // Symbols subscribed on the open socket
+  private pending = new Map<string, QuoteTick>();
+  private lastFlushAt = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private activityTimer: ReturnType<typeof setInterval> | null = null;
+  private tickListeners = new Set<TickListener>();
+  private stateListeners = new Set<() => void>();
+  private state: QuoteStreamState;
+
+  constructor(options: QuoteStreamOptions) {
+    this.endpoint = options.endpoint;
+    this.poll = options.poll;
+    this.createSocket = options.createSocket ?? (url => new WebSocket(url));
+    this.isActive = options.isActive ?? (() => true);
+    this.throttleMs = options.throttleMs ?? 1000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 30 * 1000;
+    this.activityCheckMs = options.activityCheckMs ?? 60 * 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30 * 1000;
+    this.state = {
+      status: 'idle',
+      provider: this.endpoint?.provider ?? null,
+      symbols: 0,
+      lastTickAt: null,
+      reconnectAttempts: 0,
+      lastError: null,
+    };
+  }
+
+  /**
+   * Start receiving a symbol; every retain needs a matching release
+   */
+  retain(symbol: string) {
+    const key = symbol.toUpperCase();
+    this.refs.set(key, (this.refs.get(key) ?? 0) + 1);
+    if (this.refs.get(key) === 1) this.sync();
+  }
+
+  release(symbol: string) {
+    const key = symbol.toUpperCase();
+    const count = this.refs.get(key);
+    if (!count) return;
+    if (count > 1) {
+      this.refs.set(key, count - 1);
+      return;
+    }
+    this.refs.delete(key);
+    this.pending.delete(key);
+    this.sync();
+  }
+
+  getSymbols(): string[] {
+    return [...this.refs.keys()];
+  }
+
+  /**
+   * Latest tick per symbol, delivered at most once per throttle window
+   */
+  onTicks(listener: TickListener): () => void {
+    this.tickListeners.add(listener);
+    return () => {
+      this.tickListeners.delete(listener);
+    };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  getState(): QuoteStreamState {
+    return this.state;
+  }
+
+  /**
+   * Re-check isActive now rather than at the next periodic check
+   */
+  refreshActivity() {
+    this.sync();
+  }
+
+  stop() {
+    this.refs.clear();
+    this.pending.clear();
+    this.sync();
+  }
+
+  // ============= Connection =============
+
+  private sync() {
+    const watching = this.refs.size > 0;
+    if (watching && !this.activityTimer) {
+      this.activityTimer = setInterval(() => this.sync(), this.activityCheckMs);
+    } else if (!watching && this.activityTimer) {
+      clearInterval(this.activityTimer);
+      this.activityTimer = null;
+    }
+
+    if (!watching || !this.isActive()) {
+      this.disconnect();
+      this.stopPolling();
+      if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.setState({ status: watching ? 'paused' : 'idle', reconnectAttempts: 0 });
+      return;
+    }
+
+    if (!this.endpoint || this.rejected) {
+      this.startPolling();
+      this.setState({ status: 'polling' });
+      return;
+    }
+
+    if (!this.socket && !this.reconnectTimer) this.connect();
+    else if (this.ready) this.syncSubscriptions();
+    else this.setState({});
+  }
+
+  private connect() {
+    const endpoint = this.endpoint!;
+    this.setState({ status: this.state.reconnectAttempts === 0 ? 'connecting' : 'polling' });
+
+    let socket: StreamSocket;
+    try {
+      socket = this.createSocket(endpoint.url);
+    } catch (error) {
+      this.setState({ lastError: error instanceof Error ? error.message : 'Could not open socket' });
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      endpoint.protocol.hello().forEach(m => socket.send(m));
+      if (endpoint.protocol.readyOnOpen) this.handleReady();
+    };
+    socket.onmessage = event => {
+      if (this.socket !== socket) return;
+      endpoint.protocol.parse(String(event.data)).forEach(e => this.handleEvent(e));
+    };
+    socket.onerror = () => {
+      if (this.socket === socket) this.setState({ lastError: 'Connection error' });
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.ready = false;
+      this.subscribed.clear();
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.refs.size === 0 || !this.isActive()) {
+      this.sync();
+      return;
+    }
+    const attempts = this.state.reconnectAttempts + 1;
+    const delay = Math.min(this.maxReconnectDelayMs, 1000 * 2 ** (attempts - 1));
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.sync();
+    }, delay);
+    this.startPolling();
+    this.setState({ status: 'polling', reconnectAttempts: attempts });
+  }
+
+  private disconnect() {
+    const socket = this.socket;
+    this.socket = null;
+    this.ready = false;
+    this.subscribed.clear();
+    socket?.close();
+  }
+
+  private handleEvent(event: StreamEvent) {
+    if (event.type === 'ready') {
+      this.handleReady();
+    } else if (event.type === 'rejected') {
+      // Bad credentials will not fix themselves; poll for the rest of the session
+      this.rejected = true;
+      this.setState({ lastError: event.message });
+      this.disconnect();
+      this.sync();
+    } else if (this.refs.has(event.symbol.toUpperCase())) {
+      this.queue({ ...event, symbol: event.symbol.toUpperCase(), source: 'stream' });
+    }
+  }
+
+  private handleReady() {
+    this.ready = true;
+    this.stopPolling();
+    this.setState({ status: 'streaming', reconnectAttempts: 0, lastError: null });
+    this.syncSubscriptions();
+  }
+
+  private syncSubscriptions() {
+    const protocol = this.endpoint!.protocol;
+    const added = this.getSymbols().filter(s => !this.subscribed.has(s));
+    const removed = [...this.subscribed].filter(s => !this.refs.has(s));
+    if (removed.length > 0) protocol.unsubscribe(removed).forEach(m => this.socket!.send(m));
+    if (added.length > 0) protocol.subscribe(added).forEach(m => this.socket!.send(m));
+    removed.forEach(s => this.subscribed.delete(s));
+    added.forEach(s => this.subscribed.add(s));
+    this.setState({});
+  }
+
+  // ============= Polling =============
+
+  private startPolling() {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      const symbols = this.getSymbols();
+      if (symbols.length === 0) return;
+      this.poll(symbols)
+        .then(ticks => ticks.filter(t => this.refs.has(t.symbol.toUpperCase())).forEach(t => this.queue({ ...t, symbol: t.symbol.toUpperCase(), source: 'poll' })))
+        .catch(error => this.setState({ lastError: error instanceof Error ? error.message : 'Polling failed' }));
+    }, this.pollIntervalMs);
+  }
+
+  private stopPolling() {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  // ============= Throttled delivery =============
+
+  private queue(tick: QuoteTick) {
+    this.pending.set(tick.symbol, tick);
+    if (this.flushTimer) return;
+    const wait = Math.max(0, this.lastFlushAt + this.throttleMs - Date.now());
+    this.flushTimer = setTimeout(() => this.flush(), wait);
+  }
+
+  private flush() {
+    this.flushTimer = null;
+    this.lastFlushAt = Date.now();
+    if (this.pending.size === 0) return;
+    const ticks = this.pending;
+    this.pending = new Map();
+    this.tickListeners.forEach(listener => listener(ticks));
+    this.setState({ lastTickAt: this.lastFlushAt });
+  }
+
+  private setState(patch: Partial<QuoteStreamState>) {
+    const next = { ...this.state, ...patch, symbols: this.refs.size };
+    if ((Object.keys(next) as (keyof QuoteStreamState)[]).every(k => next[k] === this.state[k])) return;
+    this.state = next;
+    this.stateListeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,549 @@
+// Rebalancing Service - Turns a target allocation and current positions into a reviewable trade list
+// Calendar and threshold-band triggers, cash-flow-first funding, minimum trade sizes, whole shares and tax-aware lot relief
+
+import type { RebalancingRules } from '@/types/investorPolicy';
+import type { RebalanceRecommendation } from '@/types/portfolio';
+import type { SyncedPosition } from '@/types/positions';
+import { DEFAULT_TAX_RATES, estimateTax, HoldingTerm, holdingTerm, LotReliefMethod, OpenLot, reliefOrder, TaxRates } from './taxLotService';
+
+// 'tax_min' sells the lots with the lowest tax cost per share first: short-term losses, long-term losses, then the smallest gains
+export type RebalanceLotMethod = Exclude<LotReliefMethod, 'specific_id'> | 'tax_min';
+
+export type RebalanceReason = 'calendar' | 'threshold' | 'cash_flow' | 'manual';
+
+export interface RebalanceTarget {
+  symbol: string;
+  weight: number; // 0-100
+}
+
+export interface RebalanceHolding {
+  symbol: string;
+  shares: number;
+  lots: OpenLot[]; // Tax lots behind the position; shares they do not cover are treated as untracked basis
+}
+
+export interface RebalanceOptions {
+  rules: RebalancingRules;
+  asOf: string; // yyyy-MM-dd
+  lastRebalanced?: string | null;
+  cashBalance?: number; // Uninvested cash already in the account
+  cashFlow?: number; // Deposit (+) or withdrawal (−) processed with this rebalance
+  minTradeValue?: number; // $; smaller trades are skipped
+  wholeShares?: boolean;
+  lotMethod?: RebalanceLotMethod;
+  taxRates?: TaxRates;
+  force?: boolean; // Trade back to target even when no trigger fires
+}
+
+export interface RebalanceTrigger {
+  reason: RebalanceReason | null; // Why the plan trades; null when nothing is due
+  calendarDue: boolean;
+  nextCalendarDate: string | null; // Null for threshold-only rules
+  maxDrift: number; // Largest |weight − target| before trading, percentage points
+  maxDriftAfterCashFlow: number;
+  outsideBand: string[]; // Symbols still outside the threshold band once cash flows are applied
+}
+
+export interface TradeLot {
+  lotId: string;
+  acquiredDate: string;
+  shares: number;
+  costPerShare: number;
+  gain: number;
+  term: HoldingTerm;
+}
+
+export interface RebalanceTrade extends RebalanceRecommendation {
+  action: 'buy' | 'sell';
+  price: number;
+  realizedGain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  lots: TradeLot[]; // Lots relieved, for sells
+}
+
+export interface SkippedTrade {
+  symbol: string;
+  action: 'buy' | 'sell';
+  value: number;
+}
+
+export interface ProjectedAllocation {
+  symbol: string;
+  price: number;
+  targetWeight: number; // 0-100, normalized
+  currentShares: number;
+  projectedShares: number;
+  currentValue: number;
+  projectedValue: number;
+  currentWeight: number; // Of holdings plus cash before the cash flow
+  projectedWeight: number; // Of holdings plus cash after trading
+  currentDrift: number; // Percentage points
+  projectedDrift: number;
+}
+
+export interface RebalancePlan {
+  asOf: string;
+  trigger: RebalanceTrigger;
+  totalValue: number; // After the cash flow
+  trades: RebalanceTrade[];
+  skipped: SkippedTrade[];
+  allocation: ProjectedAllocation[];
+  cashBefore: number; // Cash balance plus the cash flow
+  cashAfter: number;
+  buyValue: number;
+  sellValue: number;
+  turnover: number; // Fraction of the portfolio traded: (buys + sells) / 2 / total value
+  shortTermGain: number;
+  longTermGain: number;
+  estimatedTax: number; // Short- and long-term gains netted across the whole plan
+  warnings: string[];
+}
+
+// What the investor policy questionnaire writes when the investor leaves the defaults
+export const DEFAULT_REBALANCING_RULES: RebalancingRules = { frequency: 'quarterly', threshold: 5 };
+
+export const REBALANCE_FREQUENCIES: { value: string; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'semi-annually', label: 'Semi-annually' },
+  { value: 'annually', label: 'Annually' },
+  { value: 'threshold-based', label: 'Threshold only' },
+];
+
+export const REBALANCE_LOT_METHODS: { value: RebalanceLotMethod; label: string }[] = [
+  { value: 'tax_min', label: 'Minimize tax' },
+  { value: 'fifo', label: 'FIFO' },
+  { value: 'lifo', label: 'LIFO' },
+  { value: 'hifo', label: 'HIFO' },
+];
+
+export const REBALANCE_REASON_LABELS: Record<RebalanceReason, string> = {
+  calendar: 'Scheduled rebalance',
+  threshold: 'Drift outside band',
+  cash_flow: 'Cash flow only',
+  manual: 'Manual rebalance',
+};
+
+const CALENDAR_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semiannually: 6,
+  semiannual: 6,
+  biannually: 6,
+  annually: 12,
+  annual: 12,
+  yearly: 12,
+};
+
+const EPSILON = 1e-9;
+
+const toDate = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+const toIso = (date: Date) => date.toISOString().split('T')[0];
+
+function addMonths(date: string, months: number): string {
+  const d = toDate(date);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return toIso(d);
+}
+
+/**
+ * Months between scheduled rebalances for a policy frequency, or null when the rules are threshold-only
+ */
+export function calendarMonths(frequency: string): number | null {
+  return CALENDAR_MONTHS[frequency.toLowerCase().replace(/[^a-z]/g, '')] ?? null;
+}
+
+/**
+ * Rebalancing rules saved with a portfolio's investor profile, falling back to the policy defaults
+ */
+export function rebalancingRulesFromProfile(investorProfile: unknown): RebalancingRules {
+  const rules = (investorProfile as { rebalancingRules?: Partial<RebalancingRules> } | null)?.rebalancingRules;
+  return {
+    frequency: typeof rules?.frequency === 'string' ? rules.frequency : DEFAULT_REBALANCING_RULES.frequency,
+    threshold: typeof rules?.threshold === 'number' && rules.threshold >= 0 ? rules.threshold : DEFAULT_REBALANCING_RULES.threshold,
+  };
+}
+
+/**
+ * Holdings from synced positions. A symbol keeps its recorded tax lots when they account for exactly the shares
+ * held; otherwise each position with a cost and purchase date stands in as one lot.
+ */
+export function holdingsFromPositions(
+  positions: Pick<SyncedPosition, 'id' | 'symbol' | 'quantity' | 'cost_basis' | 'cost_per_share' | 'purchase_date'>[],
+  openLots: OpenLot[]
+): RebalanceHolding[] {
+  const bySymbol = new Map<string, typeof positions>();
+  positions.forEach(p => {
+    if (p.quantity <= 0) return;
+    const symbol = p.symbol.toUpperCase();
+    bySymbol.set(symbol, [...(bySymbol.get(symbol) ?? []), p]);
+  });
+
+  return [...bySymbol.entries()].map(([symbol, group]) => {
+    const shares = group.reduce((s, p) => s + p.quantity, 0);
+    const recorded = openLots.filter(l => l.symbol === symbol);
+    if (recorded.length > 0 && Math.abs(recorded.reduce((s, l) => s + l.shares, 0) - shares) < 1e-6) {
+      return { symbol, shares, lots: recorded };
+    }
+    const lots = group.flatMap(p => {
+      const costPerShare = p.cost_per_share ?? (p.cost_basis != null ? p.cost_basis / p.quantity : null);
+      if (costPerShare == null || !p.purchase_date) return [];
+      const date = p.purchase_date.slice(0, 10);
+      return [{ id: p.id, symbol, source: 'buy' as const, purchaseDate: date, holdingPeriodStart: date, shares: p.quantity, costPerShare, washSaleAdjustment: 0 }];
+    });
+    return { symbol, shares, lots };
+  });
+}
+
+/**
+ * Order a position's lots for selling. 'tax_min' ranks by tax owed per share at the given price.
+ */
+export function sellOrder(lots: OpenLot[], method: RebalanceLotMethod, price: number, asOf: string, rates: TaxRates = DEFAULT_TAX_RATES): OpenLot[] {
+  if (method !== 'tax_min') return reliefOrder(lots, method);
+  const taxPerShare = (lot: OpenLot) =>
+    (price - lot.costPerShare) * (holdingTerm(lot.holdingPeriodStart, asOf) === 'long' ? rates.longTerm : rates.shortTerm);
+  return reliefOrder(lots, 'fifo')
+    .map((lot, index) => ({ lot, index, tax: taxPerShare(lot) }))
+    .sort((a, b) => a.tax - b.tax || a.index - b.index)
+    .map(entry => entry.lot);
+}
+
+/**
+ * Plan the trades that bring holdings back to a target allocation under the investor's rebalancing rules.
+ *
+ * Deposits and withdrawals are applied first, buying what is underweight and selling what is overweight.
+ * A full trade back to target follows only if the calendar says a rebalance is due, a position is still
+ * outside the threshold band, or the caller forces it. Sells settle before buys so their proceeds fund them.
+ */
+export function planRebalance(
+  targets: RebalanceTarget[],
+  holdings: RebalanceHolding[],
+  prices: Map<string, number>,
+  options: RebalanceOptions
+): RebalancePlan {
+  const {
+    rules,
+    asOf,
+    lastRebalanced = null,
+    cashBalance = 0,
+    cashFlow = 0,
+    minTradeValue = 0,
+    wholeShares = true,
+    lotMethod = 'tax_min',
+    taxRates = DEFAULT_TAX_RATES,
+    force = false,
+  } = options;
+  const warnings: string[] = [];
+
+  if (cashBalance < 0) throw new Error('Cash balance cannot be negative');
+
+  // Target weights as fractions summing to one
+  const targetWeights = new Map<string, number>();
+  targets.forEach(t => {
+    if (t.weight > 0) targetWeights.set(t.symbol, (targetWeights.get(t.symbol) ?? 0) + t.weight);
+  });
+  const weightTotal = [...targetWeights.values()].reduce((s, w) => s + w, 0);
+  if (weightTotal <= 0) throw new Error('Target allocation has no positive weights');
+  if (Math.abs(weightTotal - 100) > 0.01) {
+    warnings.push(`Target weights sum to ${weightTotal.toFixed(2)}%; they were scaled to 100%`);
+  }
+  targetWeights.forEach((w, symbol) => targetWeights.set(symbol, w / weightTotal));
+
+  const held = new Map<string, RebalanceHolding>();
+  holdings.forEach(h => {
+    if (h.shares <= EPSILON) return;
+    const existing = held.get(h.symbol);
+    held.set(h.symbol, existing ? { ...existing, shares: existing.shares + h.shares, lots: [...existing.lots, ...h.lots] } : h);
+  });
+
+  const symbols = [...new Set([...targetWeights.keys(), ...held.keys()])].sort();
+  symbols.forEach(symbol => {
+    const price = prices.get(symbol);
+    if (!price || price <= 0) throw new Error(`No price for ${symbol}`);
+  });
+  const priceOf = (symbol: string) => prices.get(symbol)!;
+  const sharesOf = (symbol: string) => held.get(symbol)?.shares ?? 0;
+
+  const current = new Map(symbols.map(s => [s, sharesOf(s) * priceOf(s)]));
+  const invested = [...current.values()].reduce((s, v) => s + v, 0);
+  const cash = cashBalance + cashFlow;
+  if (cash < -invested - EPSILON) {
+    throw new Error(`Withdrawal of $${(-cashFlow).toFixed(2)} exceeds the portfolio's value`);
+  }
+  const totalBefore = invested + cashBalance;
+  const totalValue = invested + cash;
+  if (totalValue <= EPSILON) throw new Error('Nothing to rebalance: the portfolio has no value');
+
+  const target = new Map(symbols.map(s => [s, (targetWeights.get(s) ?? 0) * totalValue]));
+  const weightBefore = (s: string) => (totalBefore > 0 ? current.get(s)! / totalBefore : 0);
+  const driftBefore = new Map(symbols.map(s => [s, (weightBefore(s) - (targetWeights.get(s) ?? 0)) * 100]));
+
+  // Cash flows first: Σ(target − current) equals the cash to place, so deficits always cover a deposit and surpluses a withdrawal
+  const flow = new Map(symbols.map(s => [s, 0]));
+  if (cash > EPSILON) {
+    const deficits = symbols.map(s => Math.max(target.get(s)! - current.get(s)!, 0));
+    const total = deficits.reduce((s, d) => s + d, 0);
+    symbols.forEach((s, i) => flow.set(s, total > 0 ? (cash * deficits[i]) / total : 0));
+  } else if (cash < -EPSILON) {
+    const surpluses = symbols.map(s => Math.max(current.get(s)! - target.get(s)!, 0));
+    const total = surpluses.reduce((s, x) => s + x, 0);
+    symbols.forEach((s, i) => flow.set(s, total > 0 ? (cash * surpluses[i]) / total : 0));
+  }
+  const driftAfterFlow = new Map(
+    symbols.map(s => [s, ((current.get(s)! + flow.get(s)!) / totalValue - (targetWeights.get(s) ?? 0)) * 100])
+  );
+
+  const months = calendarMonths(rules.frequency);
+  const nextCalendarDate = months === null ? null : lastRebalanced ? addMonths(lastRebalanced, months) : asOf;
+  const calendarDue = nextCalendarDate !== null && nextCalendarDate <= asOf;
+  const outsideBand = rules.threshold > 0 ? symbols.filter(s => Math.abs(driftAfterFlow.get(s)!) > rules.threshold + EPSILON) : [];
+
+  let reason: RebalanceReason | null = null;
+  if (force) reason = 'manual';
+  else if (calendarDue) reason = 'calendar';
+  else if (outsideBand.length > 0) reason = 'threshold';
+  else if (Math.abs(cash) > EPSILON) reason = 'cash_flow';
+
+  const desired = new Map(
+    symbols.map(s => [s, reason === null ? 0 : reason === 'cash_flow' ? flow.get(s)! : target.get(s)! - current.get(s)!])
+  );
+
+  const trades: RebalanceTrade[] = [];
+  const skipped: SkippedTrade[] = [];
+  const projectedShares = new Map(symbols.map(s => [s, sharesOf(s)]));
+  let available = cash;
+  let shortTermGain = 0;
+  let longTermGain = 0;
+
+  // Sells: whole shares round up so the proceeds cover what was asked of them
+  symbols.forEach(symbol => {
+    const want = desired.get(symbol)!;
+    if (want >= -EPSILON) return;
+    const price = priceOf(symbol);
+    const holding = held.get(symbol)!;
+    const exiting = (targetWeights.get(symbol) ?? 0) === 0 && reason !== 'cash_flow';
+    let shares = exiting ? holding.shares : -want / price;
+    if (wholeShares && !exiting) shares = Math.ceil(shares - EPSILON);
+    shares = Math.min(shares, holding.shares);
+    if (shares <= EPSILON) return;
+    const value = shares * price;
+    if (value < minTradeValue) {
+      skipped.push({ symbol, action: 'sell', value });
+      return;
+    }
+
+    const lots = relieveLots(holding, shares, price, asOf, lotMethod, taxRates, warnings);
+    const st = lots.filter(l => l.term === 'short').reduce((s, l) => s + l.gain, 0);
+    const lt = lots.filter(l => l.term === 'long').reduce((s, l) => s + l.gain, 0);
+    shortTermGain += st;
+    longTermGain += lt;
+    available += value;
+    projectedShares.set(symbol, holding.shares - shares);
+    trades.push({
+      symbol,
+      action: 'sell',
+      shares,
+      price,
+      value,
+      realizedGain: st + lt,
+      shortTermGain: st,
+      longTermGain: lt,
+      estimatedTax: estimateTax(st, lt, taxRates),
+      isLongTermGain: st + lt > 0 && lots.every(l => l.term === 'long'),
+      lots,
+    });
+  });
+
+  if (available < -EPSILON) {
+    warnings.push(`The withdrawal is short by $${(-available).toFixed(2)} because sells below the minimum trade size were skipped`);
+  }
+
+  // Buys, largest first, limited to the cash on hand; whole shares round down
+  const buys = symbols.filter(s => desired.get(s)! > EPSILON).sort((a, b) => desired.get(b)! - desired.get(a)!);
+  const bought = new Map<string, number>();
+  buys.forEach(symbol => {
+    const price = priceOf(symbol);
+    const value = Math.min(desired.get(symbol)!, Math.max(available, 0));
+    let shares = value / price;
+    if (wholeShares) shares = Math.floor(shares + EPSILON);
+    if (shares <= EPSILON || shares * price < minTradeValue) {
+      skipped.push({ symbol, action: 'buy', value: desired.get(symbol)! });
+      return;
+    }
+    bought.set(symbol, shares);
+    available -= shares * price;
+  });
+
+  // Rounding down leaves cash; spend it a share at a time on the buys furthest below target
+  if (wholeShares) {
+    for (;;) {
+      const gap = (s: string) => target.get(s)! - (projectedShares.get(s)! + (bought.get(s) ?? 0)) * priceOf(s);
+      const next = [...bought.keys()]
+        .filter(s => priceOf(s) <= available + EPSILON && gap(s) >= priceOf(s) / 2)
+        .sort((a, b) => gap(b) - gap(a))[0];
+      if (!next) break;
+      bought.set(next, bought.get(next)! + 1);
+      available -= priceOf(next);
+    }
+  }
+
+  bought.forEach((shares, symbol) => {
+    const price = priceOf(symbol);
+    projectedShares.set(symbol, projectedShares.get(symbol)! + shares);
+    trades.push({
+      symbol,
+      action: 'buy',
+      shares,
+      price,
+      value: shares * price,
+      realizedGain: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      estimatedTax: 0,
+      isLongTermGain: false,
+      lots: [],
+    });
+  });
+
+  const allocation: ProjectedAllocation[] = symbols.map(symbol => {
+    const price = priceOf(symbol);
+    const targetWeight = (targetWeights.get(symbol) ?? 0) * 100;
+    const projectedValue = projectedShares.get(symbol)! * price;
+    const projectedWeight = (projectedValue / totalValue) * 100;
+    return {
+      symbol,
+      price,
+      targetWeight,
+      currentShares: sharesOf(symbol),
+      projectedShares: projectedShares.get(symbol)!,
+      currentValue: current.get(symbol)!,
+      projectedValue,
+      currentWeight: weightBefore(symbol) * 100,
+      projectedWeight,
+      currentDrift: driftBefore.get(symbol)!,
+      projectedDrift: projectedWeight - targetWeight,
+    };
+  });
+
+  const buyValue = trades.filter(t => t.action === 'buy').reduce((s, t) => s + t.value, 0);
+  const sellValue = trades.filter(t => t.action === 'sell').reduce((s, t) => s + t.value, 0);
+  const maxAbs = (values: Iterable<number>) => Math.max(0, ...[...values].map(Math.abs));
+
+  return {
+    asOf,
+    trigger: {
+      reason,
+      calendarDue,
+      nextCalendarDate,
+      maxDrift: maxAbs(driftBefore.values()),
+      maxDriftAfterCashFlow: maxAbs(driftAfterFlow.values()),
+      outsideBand,
+    },
+    totalValue,
+    trades: [...trades.filter(t => t.action === 'sell'), ...trades.filter(t => t.action === 'buy')],
+    skipped,
+    allocation,
+    cashBefore: cash,
+    cashAfter: available,
+    buyValue,
+    sellValue,
+    turnover: (buyValue + sellValue) / 2 / totalValue,
+    shortTermGain,
+    longTermGain,
+    estimatedTax: estimateTax(shortTermGain, longTermGain, taxRates),
+    warnings,
+  };
+}
+
+/**
+ * Relieve shares from a position's lots in sell order. Shares the lots do not cover are sold at zero gain.
+ */
+function relieveLots(
+  holding: RebalanceHolding,
+  shares: number,
+  price: number,
+  asOf: string,
+  method: RebalanceLotMethod,
+  rates: TaxRates,
+  warnings: string[]
+): TradeLot[] {
+  const relieved: TradeLot[] = [];
+  let remaining = shares;
+  for (const lot of sellOrder(holding.lots, method, price, asOf, rates)) {
+    if (remaining <= EPSILON) break;
+    const take = Math.min(lot.shares, remaining);
+    if (take <= EPSILON) continue;
+    relieved.push({
+      lotId: lot.id,
+      acquiredDate: lot.holdingPeriodStart,
+      shares: take,
+      costPerShare: lot.costPerShare,
+      gain: take * (price - lot.costPerShare),
+      term: holdingTerm(lot.holdingPeriodStart, asOf),
+    });
+    remaining -= take;
+  }
+  if (remaining > EPSILON) {
+    warnings.push(`${holding.symbol}: ${+remaining.toFixed(4)} shares sold have no recorded cost basis; their tax is not estimated`);
+    relieved.push({ lotId: 'untracked', acquiredDate: asOf, shares: remaining, costPerShare: price, gain: 0, term: 'short' });
+  }
+  return relieved;
+}
+
+const TRADE_LIST_COLUMNS = [
+  'Action',
+  'Symbol',
+  'Shares',
+  'Price',
+  'Value',
+  'Lots',
+  'Short-Term Gain',
+  'Long-Term Gain',
+  'Estimated Tax',
+];
+
+function toCSVField(value: string | number | null | undefined): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build the trade list CSV: sells first, then buys, each sell listing the lots it relieves
+ */
+export function buildTradeListCSV(plan: RebalancePlan): string {
+  const money = (value: number) => value.toFixed(2);
+  const lines = plan.trades.map(t =>
+    [
+      t.action.toUpperCase(),
+      t.symbol,
+      +t.shares.toFixed(6),
+      money(t.price),
+      money(t.value),
+      t.lots.map(l => `${l.lotId} (${+l.shares.toFixed(6)} @ ${money(l.costPerShare)}, ${l.term}-term)`).join('; '),
+      money(t.shortTermGain),
+      money(t.longTermGain),
+      money(t.estimatedTax),
+    ]
+      .map(toCSVField)
+      .join(',')
+  );
+  return [TRADE_LIST_COLUMNS.join(','), ...lines].join('\r\n');
+}
+
+/**
+ * Download a rebalance plan's trade list as CSV
+ */
+export function exportTradeList(portfolioName: string, plan: RebalancePlan): void {
+  const blob = new Blob(['\uFEFF' + buildTradeListCSV(plan)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${portfolioName.replace(/[^a-zA-Z0-9]+/g, '_')}_Rebalance_${plan.asOf}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
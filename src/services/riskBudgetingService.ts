@@ -0,0 +1,446 @@
+// Risk Budgeting Service - Marginal and component risk contributions, factor risk decomposition and tracking error
+// Works on aligned daily returns (fractions); every volatility and variance it reports is annualized
+
+import { ASSET_CLASS_ETFS } from '@/types/portfolio';
+import { estimateCovariance } from './covarianceEstimationService';
+import { EqualRiskContribution } from './portfolioOptimizer';
+import { solveLinearSystem } from './quadraticProgramService';
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+export interface RiskContribution {
+  symbol: string;
+  weight: number;
+  marginal: number; // ∂σ/∂w_i: volatility added per unit of extra weight
+  component: number; // w_i · marginal; components sum to portfolio volatility
+  percent: number; // component / σ; sums to 1
+}
+
+export interface RiskContributions {
+  volatility: number;
+  positions: RiskContribution[];
+}
+
+export type RiskFactor = 'market' | 'size' | 'value' | 'momentum' | 'rates' | 'credit';
+
+export interface FactorProxy {
+  factor: RiskFactor;
+  label: string;
+  description: string;
+  long: string[]; // Equal-weighted long leg
+  short: string[]; // Equal-weighted short leg, empty for a long-only proxy
+  ranked?: boolean; // Legs are re-picked each month from long ∪ short by trailing 12-1 month return
+}
+
+export interface FactorExposure {
+  factor: RiskFactor;
+  beta: number;
+  tStat: number;
+  variance: number; // β_k · (Σ_f β)_k
+  percent: number; // Share of total portfolio variance
+}
+
+export interface FactorDecomposition {
+  observations: number;
+  alpha: number; // Annualized intercept
+  rSquared: number;
+  totalVariance: number;
+  systematicVariance: number;
+  idiosyncraticVariance: number;
+  exposures: FactorExposure[];
+  omitted: { factor: RiskFactor; reason: string }[];
+}
+
+export interface TrackingErrorResult {
+  benchmark: string;
+  observations: number;
+  trackingError: number;
+  activeReturn: number;
+  informationRatio: number;
+  beta: number;
+  correlation: number;
+  // Components sum to the tracking error; percents of tracking variance sum to 1
+  contributions: { symbol: string; component: number; percent: number }[];
+  benchmarkContribution: { component: number; percent: number };
+}
+
+export interface AlignedReturns {
+  dates: string[];
+  returns: Map<string, number[]>;
+}
+
+export interface PortfolioRiskReport {
+  observations: number;
+  startDate: string;
+  endDate: string;
+  contributions: RiskContributions;
+  riskParity: RiskContributions;
+  factors: FactorDecomposition | null;
+  factorError: string | null;
+  trackingError: TrackingErrorResult | null;
+  trackingErrorMessage: string | null;
+}
+
+const pick = (assetClass: keyof typeof ASSET_CLASS_ETFS, ticker: string): string => {
+  if (!ASSET_CLASS_ETFS[assetClass].includes(ticker)) {
+    throw new Error(`${ticker} is not a configured ${assetClass} ETF`);
+  }
+  return ticker;
+};
+
+export const FACTOR_PROXIES: FactorProxy[] = [
+  {
+    factor: 'market',
+    label: 'Market',
+    description: 'US equity market (SPY)',
+    long: [pick('stocks', 'SPY')],
+    short: [],
+  },
+  {
+    factor: 'size',
+    label: 'Size',
+    description: 'Small caps minus large caps (IWM − SPY)',
+    long: [pick('stocks', 'IWM')],
+    short: [pick('stocks', 'SPY')],
+  },
+  {
+    factor: 'value',
+    label: 'Value',
+    description: 'Dividend value minus growth (SCHD − QQQ)',
+    long: [pick('stocks', 'SCHD')],
+    short: [pick('stocks', 'QQQ')],
+  },
+  {
+    factor: 'momentum',
+    label: 'Momentum',
+    description: 'Equity ETF 12-1 month winners minus losers, re-ranked monthly',
+    long: [...new Set([...ASSET_CLASS_ETFS.stocks, ...ASSET_CLASS_ETFS.etfs])],
+    short: [],
+    ranked: true,
+  },
+  {
+    factor: 'rates',
+    label: 'Rates',
+    description: 'Long-duration Treasuries (TLT)',
+    long: [pick('bonds', 'TLT')],
+    short: [],
+  },
+  {
+    factor: 'credit',
+    label: 'Credit',
+    description: 'High yield minus intermediate Treasuries (HYG − IEF)',
+    long: [pick('bonds', 'HYG')],
+    short: [pick('bonds', 'IEF')],
+  },
+];
+
+export const BENCHMARK_OPTIONS = ['SPY', 'QQQ', 'VTI', 'IWM', 'DIA', 'AGG', 'BND'];
+
+// Every ETF the factor proxies need
+export const FACTOR_TICKERS = [...new Set(FACTOR_PROXIES.flatMap(p => [...p.long, ...p.short]))];
+
+// Momentum: rank on the 12-month return skipping the latest month, re-rank monthly
+const MOMENTUM_LOOKBACK = 252;
+const MOMENTUM_SKIP = 21;
+const MOMENTUM_REBALANCE = 21;
+// Fewest daily observations a regression or tracking-error estimate is reported on
+const MIN_REGRESSION_OBSERVATIONS = 60;
+
+const mean = (x: number[]) => x.reduce((s, v) => s + v, 0) / x.length;
+
+const sampleCovariance = (x: number[], y: number[]) => {
+  const mx = mean(x);
+  const my = mean(y);
+  return x.reduce((s, xi, t) => s + (xi - mx) * (y[t] - my), 0) / (x.length - 1);
+};
+
+/**
+ * Keep only dates on which every series has a return, in chronological order
+ */
+export function alignReturnsByDate(series: Map<string, Map<string, number>>): AlignedReturns {
+  const maps = Array.from(series.values());
+  if (maps.length === 0) return { dates: [], returns: new Map() };
+  const dates = Array.from(maps[0].keys())
+    .filter(date => maps.every(m => Number.isFinite(m.get(date))))
+    .sort();
+  const returns = new Map<string, number[]>();
+  series.forEach((byDate, symbol) => returns.set(symbol, dates.map(d => byDate.get(d)!)));
+  return { dates, returns };
+}
+
+/**
+ * Decompose portfolio volatility σ = √(w'Σw) into per-position contributions (Euler allocation)
+ */
+export function riskContributions(symbols: string[], weights: number[], covariance: number[][]): RiskContributions {
+  const sigmaW = covariance.map(row => row.reduce((s, c, j) => s + c * weights[j], 0));
+  const variance = weights.reduce((s, w, i) => s + w * sigmaW[i], 0);
+  const volatility = Math.sqrt(Math.max(variance, 0));
+  if (!(volatility > 0)) throw new Error('Portfolio has no volatility to decompose');
+
+  return {
+    volatility,
+    positions: symbols.map((symbol, i) => {
+      const marginal = sigmaW[i] / volatility;
+      const component = weights[i] * marginal;
+      return { symbol, weight: weights[i], marginal, component, percent: component / volatility };
+    }),
+  };
+}
+
+/**
+ * Daily factor returns from ETF returns. Momentum needs a year of warm-up, so when it is
+ * included every factor series starts where momentum does.
+ */
+export function buildFactorReturns(
+  aligned: AlignedReturns,
+  proxies: FactorProxy[] = FACTOR_PROXIES
+): { dates: string[]; factors: Map<RiskFactor, number[]>; omitted: { factor: RiskFactor; reason: string }[] } {
+  const T = aligned.dates.length;
+  const omitted: { factor: RiskFactor; reason: string }[] = [];
+  const full = new Map<RiskFactor, number[]>();
+  let start = 0;
+
+  const legReturn = (tickers: string[], t: number) =>
+    tickers.reduce((s, ticker) => s + aligned.returns.get(ticker)![t], 0) / tickers.length;
+
+  for (const proxy of proxies) {
+    const missing = [...proxy.long, ...proxy.short].filter(t => !aligned.returns.has(t));
+    if (missing.length > 0 && !proxy.ranked) {
+      omitted.push({ factor: proxy.factor, reason: `No price history for ${missing.join(', ')}` });
+      continue;
+    }
+
+    if (!proxy.ranked) {
+      full.set(
+        proxy.factor,
+        Array.from({ length: T }, (_, t) => legReturn(proxy.long, t) - (proxy.short.length ? legReturn(proxy.short, t) : 0))
+      );
+      continue;
+    }
+
+    // A ranked proxy trades whichever of its universe has history
+    const universe = [...proxy.long, ...proxy.short].filter(t => aligned.returns.has(t));
+    const warmUp = MOMENTUM_LOOKBACK;
+    if (universe.length < 3) {
+      omitted.push({ factor: proxy.factor, reason: `Needs at least 3 ETFs with history, have ${universe.length}` });
+      continue;
+    }
+    if (T - warmUp < MIN_REGRESSION_OBSERVATIONS) {
+      omitted.push({
+        factor: proxy.factor,
+        reason: `Needs ${warmUp + MIN_REGRESSION_OBSERVATIONS} aligned days of history, have ${T}`,
+      });
+      continue;
+    }
+
+    const legSize = Math.max(1, Math.floor(universe.length / 3));
+    const series = new Array<number>(T).fill(NaN);
+    let winners: string[] = [];
+    let losers: string[] = [];
+    for (let t = warmUp; t < T; t++) {
+      if ((t - warmUp) % MOMENTUM_REBALANCE === 0) {
+        // Growth over [t - 252, t - 21), known at the close of day t - 1
+        const ranked = universe
+          .map(ticker => {
+            const r = aligned.returns.get(ticker)!;
+            let growth = 1;
+            for (let s = t - MOMENTUM_LOOKBACK; s < t - MOMENTUM_SKIP; s++) growth *= 1 + r[s];
+            return { ticker, growth };
+          })
+          .sort((a, b) => b.growth - a.growth);
+        winners = ranked.slice(0, legSize).map(r => r.ticker);
+        losers = ranked.slice(-legSize).map(r => r.ticker);
+      }
+      series[t] = legReturn(winners, t) - legReturn(losers, t);
+    }
+    full.set(proxy.factor, series);
+    start = warmUp;
+  }
+
+  const factors = new Map<RiskFactor, number[]>();
+  full.forEach((series, factor) => factors.set(factor, series.slice(start)));
+  return { dates: aligned.dates.slice(start), factors, omitted };
+}
+
+/**
+ * Regress portfolio returns on factor returns (OLS with intercept) and split the
+ * portfolio's variance into β_k(Σ_f β)_k per factor plus residual variance
+ */
+export function factorDecomposition(
+  portfolioReturns: number[],
+  factors: Map<RiskFactor, number[]>,
+  omitted: { factor: RiskFactor; reason: string }[] = []
+): FactorDecomposition {
+  const names = Array.from(factors.keys());
+  const K = names.length;
+  const T = portfolioReturns.length;
+  if (K === 0) throw new Error('No factor returns to regress on');
+  if (T < Math.max(MIN_REGRESSION_OBSERVATIONS, K + 2)) {
+    throw new Error(`Insufficient history for factor regression: ${T} observations, need at least ${Math.max(MIN_REGRESSION_OBSERVATIONS, K + 2)}`);
+  }
+  names.forEach(name => {
+    if (factors.get(name)!.length !== T) throw new Error(`${name} factor returns do not match the portfolio's ${T} observations`);
+  });
+
+  // Design matrix columns: intercept, then factors
+  const columns = [new Array<number>(T).fill(1), ...names.map(name => factors.get(name)!)];
+  const XtX = columns.map(a => columns.map(b => a.reduce((s, v, t) => s + v * b[t], 0)));
+  const Xty = columns.map(a => a.reduce((s, v, t) => s + v * portfolioReturns[t], 0));
+  let coefficients: number[];
+  try {
+    coefficients = solveLinearSystem(XtX, Xty);
+  } catch {
+    throw new Error('Factor returns are collinear over this window; cannot separate their exposures');
+  }
+  const [intercept, ...betas] = coefficients;
+
+  const residuals = portfolioReturns.map((y, t) => y - columns.reduce((s, col, k) => s + coefficients[k] * col[t], 0));
+  const rss = residuals.reduce((s, e) => s + e * e, 0);
+  const residualVariance = rss / (T - K - 1);
+
+  // Standard errors from diag((X'X)⁻¹)·s²
+  const standardErrors = names.map((_, k) => {
+    const unit = new Array<number>(K + 1).fill(0);
+    unit[k + 1] = 1;
+    return Math.sqrt(Math.max(solveLinearSystem(XtX, unit)[k + 1] * residualVariance, 0));
+  });
+
+  // Sample (T - 1) moments so the systematic and idiosyncratic parts add up to the total exactly
+  const factorCov = names.map(a => names.map(b => sampleCovariance(factors.get(a)!, factors.get(b)!) * TRADING_DAYS_PER_YEAR));
+  const totalVariance = sampleCovariance(portfolioReturns, portfolioReturns) * TRADING_DAYS_PER_YEAR;
+  const idiosyncraticVariance = (rss / (T - 1)) * TRADING_DAYS_PER_YEAR;
+  const covBeta = factorCov.map(row => row.reduce((s, c, j) => s + c * betas[j], 0));
+  const systematicVariance = betas.reduce((s, b, k) => s + b * covBeta[k], 0);
+
+  return {
+    observations: T,
+    alpha: intercept * TRADING_DAYS_PER_YEAR,
+    rSquared: totalVariance > 0 ? 1 - idiosyncraticVariance / totalVariance : 0,
+    totalVariance,
+    systematicVariance,
+    idiosyncraticVariance,
+    exposures: names.map((factor, k) => ({
+      factor,
+      beta: betas[k],
+      tStat: standardErrors[k] > 0 ? betas[k] / standardErrors[k] : 0,
+      variance: betas[k] * covBeta[k],
+      percent: totalVariance > 0 ? (betas[k] * covBeta[k]) / totalVariance : 0,
+    })),
+    omitted,
+  };
+}
+
+/**
+ * Annualized tracking error of a fixed-weight portfolio against a benchmark, with each
+ * position's contribution to tracking variance: w_i·cov(r_i, a)/TE, benchmark −cov(r_b, a)/TE
+ */
+export function trackingError(
+  symbols: string[],
+  weights: number[],
+  returns: Map<string, number[]>,
+  benchmark: string
+): TrackingErrorResult {
+  const benchmarkReturns = returns.get(benchmark);
+  if (!benchmarkReturns) throw new Error(`No price history for benchmark ${benchmark}`);
+  const T = benchmarkReturns.length;
+  if (T < MIN_REGRESSION_OBSERVATIONS) {
+    throw new Error(`Insufficient history for tracking error: ${T} observations, need at least ${MIN_REGRESSION_OBSERVATIONS}`);
+  }
+
+  const series = symbols.map(s => {
+    const r = returns.get(s);
+    if (!r || r.length !== T) throw new Error(`Returns for ${s} are not aligned with the benchmark`);
+    return r;
+  });
+  const portfolio = Array.from({ length: T }, (_, t) => series.reduce((s, r, i) => s + weights[i] * r[t], 0));
+  const active = portfolio.map((r, t) => r - benchmarkReturns[t]);
+
+  const activeVariance = sampleCovariance(active, active);
+  const te = Math.sqrt(activeVariance * TRADING_DAYS_PER_YEAR);
+  const activeReturn = mean(active) * TRADING_DAYS_PER_YEAR;
+  const benchmarkVariance = sampleCovariance(benchmarkReturns, benchmarkReturns);
+  const crossCovariance = sampleCovariance(portfolio, benchmarkReturns);
+  const portfolioVariance = sampleCovariance(portfolio, portfolio);
+
+  const contribution = (component: number) => ({
+    component: te > 0 ? (component * TRADING_DAYS_PER_YEAR) / te : 0,
+    percent: activeVariance > 0 ? component / activeVariance : 0,
+  });
+
+  return {
+    benchmark,
+    observations: T,
+    trackingError: te,
+    activeReturn,
+    informationRatio: te > 0 ? activeReturn / te : 0,
+    beta: benchmarkVariance > 0 ? crossCovariance / benchmarkVariance : 0,
+    correlation: portfolioVariance > 0 && benchmarkVariance > 0 ? crossCovariance / Math.sqrt(portfolioVariance * benchmarkVariance) : 0,
+    contributions: symbols.map((symbol, i) => ({ symbol, ...contribution(weights[i] * sampleCovariance(series[i], active)) })),
+    benchmarkContribution: contribution(-sampleCovariance(benchmarkReturns, active)),
+  };
+}
+
+/**
+ * Full risk report for a fixed-weight portfolio: position risk contributions, the
+ * equal-risk-contribution alternative, factor decomposition and tracking error.
+ * `returnsByDate` must hold the positions, the factor ETFs and the benchmark.
+ */
+export function analyzePortfolioRisk(
+  weightsBySymbol: Map<string, number>,
+  returnsByDate: Map<string, Map<string, number>>,
+  benchmark: string
+): PortfolioRiskReport {
+  const symbols = Array.from(weightsBySymbol.keys());
+  const weights = symbols.map(s => weightsBySymbol.get(s)!);
+  const missing = symbols.filter(s => !returnsByDate.has(s));
+  if (missing.length > 0) throw new Error(`No price history for ${missing.join(', ')}`);
+
+  const positions = alignReturnsByDate(new Map(symbols.map(s => [s, returnsByDate.get(s)!])));
+  if (positions.dates.length === 0) throw new Error('Positions share no trading days');
+
+  // Sample covariance so the decomposed volatility matches the realized volatility
+  const estimate = estimateCovariance(symbols, positions.returns, { method: 'sample' });
+  const contributions = riskContributions(symbols, weights, estimate.covariance);
+  const ercWeights = new EqualRiskContribution().computeWeightsFromCovariance(symbols, estimate.covariance);
+  const riskParity = riskContributions(symbols, symbols.map(s => ercWeights.get(s)!), estimate.covariance);
+
+  // Factor ETFs are aligned on the dates they share with the positions; missing ones are omitted
+  let factors: FactorDecomposition | null = null;
+  let factorError: string | null = null;
+  try {
+    const available = [...new Set([...symbols, ...FACTOR_TICKERS])].filter(t => returnsByDate.has(t));
+    const aligned = alignReturnsByDate(new Map(available.map(t => [t, returnsByDate.get(t)!])));
+    const built = buildFactorReturns(aligned);
+    const offset = aligned.dates.length - built.dates.length;
+    const portfolio = built.dates.map((_, t) =>
+      symbols.reduce((s, symbol, i) => s + weights[i] * aligned.returns.get(symbol)![t + offset], 0)
+    );
+    factors = factorDecomposition(portfolio, built.factors, built.omitted);
+  } catch (error) {
+    factorError = error instanceof Error ? error.message : 'Factor decomposition failed';
+  }
+
+  let tracking: TrackingErrorResult | null = null;
+  let trackingErrorMessage: string | null = null;
+  try {
+    if (!returnsByDate.has(benchmark)) throw new Error(`No price history for benchmark ${benchmark}`);
+    const aligned = alignReturnsByDate(
+      new Map([...symbols.map(s => [s, returnsByDate.get(s)!] as const), [benchmark, returnsByDate.get(benchmark)!] as const])
+    );
+    tracking = trackingError(symbols, weights, aligned.returns, benchmark);
+  } catch (error) {
+    trackingErrorMessage = error instanceof Error ? error.message : 'Tracking error failed';
+  }
+
+  return {
+    observations: positions.dates.length,
+    startDate: positions.dates[0],
+    endDate: positions.dates[positions.dates.length - 1],
+    contributions,
+    riskParity,
+    factors,
+    factorError,
+    trackingError: tracking,
+    trackingErrorMessage,
+  };
+}
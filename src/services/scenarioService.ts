@@ -0,0 +1,303 @@
+// Scenario Service - Named assumption scenarios and two-way sensitivity grids for saved models
+import { calculateLocalCashFlow } from './cashFlowBuildupService';
+import { HistoricalFinancials, ProjectionAssumptions } from './threeStatementEngine';
+import { LBOAssumptions, LBOOperatingCase, runLBOModel } from './lboModelService';
+
+export type ScenarioKind = 'base' | 'upside' | 'downside' | 'custom';
+
+// Type alias (not interface) so scenarios stay assignable to the models.scenarios JSON column
+export type ModelScenario = {
+  id: string;
+  name: string;
+  kind: ScenarioKind;
+  overrides: Record<string, number>; // Assumption path -> value, e.g. 'operating.revenueGrowth'
+};
+
+export interface SensitivityVariable {
+  key: string; // Assumption path
+  label: string;
+  unit: '%' | 'x' | 'M' | 'yr';
+  step: number; // Default grid increment
+  min?: number; // Valid range; grid axes stay inside it instead of repeating a clamped value
+  max?: number;
+}
+
+export interface ScenarioOutput {
+  key: string;
+  label: string;
+  format: 'currency' | 'percent' | 'multiple'; // Percent outputs are fractions (0.2 = 20%)
+}
+
+// Binds a model type to the scenario/sensitivity machinery
+export interface ScenarioModelAdapter<A extends object> {
+  modelType: string;
+  variables: SensitivityVariable[];
+  outputs: ScenarioOutput[];
+  upsideDeltas: Record<string, number>;
+  downsideDeltas: Record<string, number>;
+  evaluate: (assumptions: A) => Record<string, number>;
+}
+
+export interface ScenarioResult {
+  scenario: ModelScenario;
+  outputs: Record<string, number> | null;
+  error: string | null;
+}
+
+export interface SensitivityGrid {
+  rowVariable: SensitivityVariable;
+  colVariable: SensitivityVariable;
+  output: ScenarioOutput;
+  rowValues: number[];
+  colValues: number[];
+  values: (number | null)[][]; // values[row][col]; null when the model fails at that point
+  baseRowIndex: number;
+  baseColIndex: number;
+}
+
+const SCENARIO_KINDS: ScenarioKind[] = ['base', 'upside', 'downside', 'custom'];
+
+// Validate scenarios loaded from the models table, dropping malformed entries and overrides
+export function parseScenarios(value: unknown): ModelScenario[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): ModelScenario[] => {
+    if (!item || typeof item !== 'object') return [];
+    const { id, name, kind, overrides } = item as Record<string, unknown>;
+    if (typeof id !== 'string' || typeof name !== 'string' || !SCENARIO_KINDS.includes(kind as ScenarioKind)) {
+      return [];
+    }
+    const cleanOverrides: Record<string, number> = {};
+    if (overrides && typeof overrides === 'object') {
+      Object.entries(overrides as Record<string, unknown>).forEach(([path, v]) => {
+        if (typeof v === 'number' && Number.isFinite(v)) cleanOverrides[path] = v;
+      });
+    }
+    return [{ id, name, kind: kind as ScenarioKind, overrides: cleanOverrides }];
+  });
+}
+
+export function getAssumptionValue<A extends object>(assumptions: A, path: string): number {
+  const value = path.split('.').reduce<unknown>(
+    (obj, key) => (obj && typeof obj === 'object' ? (obj as Record<string, unknown>)[key] : undefined),
+    assumptions
+  );
+  if (typeof value !== 'number') {
+    throw new Error(`Assumption "${path}" is not a number`);
+  }
+  return value;
+}
+
+export function setAssumptionValue<A extends object>(assumptions: A, path: string, value: number): A {
+  const [head, ...rest] = path.split('.');
+  const current = assumptions as Record<string, unknown>;
+  if (rest.length === 0) {
+    return { ...current, [head]: value } as A;
+  }
+  const child = (current[head] ?? {}) as object;
+  return { ...current, [head]: setAssumptionValue(child, rest.join('.'), value) } as A;
+}
+
+export function applyScenario<A extends object>(base: A, scenario: ModelScenario): A {
+  return Object.entries(scenario.overrides || {}).reduce(
+    (acc, [path, value]) => setAssumptionValue(acc, path, value),
+    base
+  );
+}
+
+function deltasToOverrides<A extends object>(
+  base: A,
+  deltas: Record<string, number>,
+  variables: SensitivityVariable[]
+): Record<string, number> {
+  const overrides: Record<string, number> = {};
+  Object.entries(deltas).forEach(([path, delta]) => {
+    const variable = variables.find(v => v.key === path);
+    const value = Math.min(
+      Math.max(getAssumptionValue(base, path) + delta, variable?.min ?? -Infinity),
+      variable?.max ?? Infinity
+    );
+    overrides[path] = Math.round(value * 100) / 100;
+  });
+  return overrides;
+}
+
+export function createDefaultScenarios<A extends object>(
+  adapter: ScenarioModelAdapter<A>,
+  base: A
+): ModelScenario[] {
+  return [
+    { id: 'base', name: 'Base Case', kind: 'base', overrides: {} },
+    { id: 'upside', name: 'Upside Case', kind: 'upside', overrides: deltasToOverrides(base, adapter.upsideDeltas, adapter.variables) },
+    { id: 'downside', name: 'Downside Case', kind: 'downside', overrides: deltasToOverrides(base, adapter.downsideDeltas, adapter.variables) },
+  ];
+}
+
+export function runScenarios<A extends object>(
+  adapter: ScenarioModelAdapter<A>,
+  base: A,
+  scenarios: ModelScenario[]
+): ScenarioResult[] {
+  return scenarios.map(scenario => {
+    try {
+      return { scenario, outputs: adapter.evaluate(applyScenario(base, scenario)), error: null };
+    } catch (e) {
+      return { scenario, outputs: null, error: e instanceof Error ? e.message : 'Scenario failed' };
+    }
+  });
+}
+
+// Evenly spaced values centred on the base value, shifted or cut short to stay within the variable's range
+export function buildSensitivityAxis(
+  center: number,
+  step: number,
+  count: number = 5,
+  range: { min?: number; max?: number } = {}
+): number[] {
+  const min = range.min ?? -Infinity;
+  const max = range.max ?? Infinity;
+  const mid = Math.min(Math.max(center, min), max);
+  const values = [mid];
+  for (let k = 1; values.length < count && k < count; k++) {
+    const below = mid - k * step;
+    const above = mid + k * step;
+    if (below >= min) values.push(below);
+    if (values.length < count && above <= max) values.push(above);
+  }
+  return values.map(v => Math.round(v * 1000) / 1000).sort((a, b) => a - b);
+}
+
+export function formatScenarioOutput(value: number | null | undefined, format: ScenarioOutput['format']): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '—';
+  if (format === 'percent') return `${(value * 100).toFixed(1)}%`;
+  if (format === 'multiple') return `${value.toFixed(2)}x`;
+  const isNegative = value < 0;
+  const abs = Math.abs(value);
+  const text = abs >= 1000 ? `$${(abs / 1000).toFixed(1)}B` : `$${abs.toFixed(1)}M`;
+  return isNegative ? `(${text})` : text;
+}
+
+export function runSensitivityGrid<A extends object>(
+  adapter: ScenarioModelAdapter<A>,
+  base: A,
+  rowKey: string,
+  colKey: string,
+  outputKey: string,
+  options: { rowValues?: number[]; colValues?: number[]; count?: number } = {}
+): SensitivityGrid {
+  const rowVariable = adapter.variables.find(v => v.key === rowKey);
+  const colVariable = adapter.variables.find(v => v.key === colKey);
+  const output = adapter.outputs.find(o => o.key === outputKey);
+  if (!rowVariable || !colVariable) {
+    throw new Error(`Unknown sensitivity variable for ${adapter.modelType}: ${!rowVariable ? rowKey : colKey}`);
+  }
+  if (rowKey === colKey) {
+    throw new Error('Sensitivity rows and columns must use different variables');
+  }
+  if (!output) {
+    throw new Error(`Unknown sensitivity output for ${adapter.modelType}: ${outputKey}`);
+  }
+
+  const baseRow = getAssumptionValue(base, rowKey);
+  const baseCol = getAssumptionValue(base, colKey);
+  const rowValues = options.rowValues || buildSensitivityAxis(baseRow, rowVariable.step, options.count, rowVariable);
+  const colValues = options.colValues || buildSensitivityAxis(baseCol, colVariable.step, options.count, colVariable);
+
+  const values = rowValues.map(rv =>
+    colValues.map(cv => {
+      try {
+        const flexed = setAssumptionValue(setAssumptionValue(base, rowKey, rv), colKey, cv);
+        const result = adapter.evaluate(flexed)[outputKey];
+        return Number.isFinite(result) ? result : null;
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  return {
+    rowVariable,
+    colVariable,
+    output,
+    rowValues,
+    colValues,
+    values,
+    baseRowIndex: rowValues.findIndex(v => Math.abs(v - baseRow) < 1e-9),
+    baseColIndex: colValues.findIndex(v => Math.abs(v - baseCol) < 1e-9),
+  };
+}
+
+export function cashFlowScenarioAdapter(
+  companyName: string,
+  historicalData: HistoricalFinancials
+): ScenarioModelAdapter<ProjectionAssumptions> {
+  return {
+    modelType: 'cash_flow_buildup',
+    variables: [
+      { key: 'revenue_growth', label: 'Revenue Growth', unit: '%', step: 2 },
+      { key: 'ebitda_margin', label: 'EBITDA Margin', unit: '%', step: 2, min: 0, max: 100 },
+      { key: 'capex_pct', label: 'CapEx % Revenue', unit: '%', step: 1, min: 0, max: 100 },
+      { key: 'nwc_pct', label: 'NWC % Revenue', unit: '%', step: 2, min: 0, max: 100 },
+      { key: 'tax_rate', label: 'Tax Rate', unit: '%', step: 2.5, min: 0, max: 100 },
+      { key: 'da_pct', label: 'D&A % Revenue', unit: '%', step: 1, min: 0, max: 100 },
+      { key: 'interest_rate', label: 'Interest Rate', unit: '%', step: 1, min: 0, max: 100 },
+    ],
+    outputs: [
+      { key: 'total_ufcf', label: 'Total UFCF', format: 'currency' },
+      { key: 'total_lfcf', label: 'Total LFCF', format: 'currency' },
+      { key: 'avg_ufcf_margin', label: 'Avg UFCF Margin', format: 'percent' },
+      { key: 'ending_cash', label: 'Ending Cash', format: 'currency' },
+    ],
+    upsideDeltas: { revenue_growth: 3, ebitda_margin: 2 },
+    downsideDeltas: { revenue_growth: -4, ebitda_margin: -3, capex_pct: 1 },
+    evaluate: (assumptions) => {
+      const result = calculateLocalCashFlow(companyName, historicalData, assumptions);
+      const lastYear = result.projection_years[result.projection_years.length - 1];
+      return {
+        total_ufcf: result.summary.total_ufcf_5yr,
+        total_lfcf: result.summary.total_lfcf_5yr,
+        avg_ufcf_margin: result.summary.avg_ufcf_margin,
+        ending_cash: result.cash_bridge.closing_cash[lastYear],
+      };
+    },
+  };
+}
+
+export function lboScenarioAdapter(
+  buildOperatingCase: (assumptions: LBOAssumptions) => LBOOperatingCase,
+  operatingLinked: boolean,
+  maxExitYear: number = 10
+): ScenarioModelAdapter<LBOAssumptions> {
+  // Operating drivers only flex when the LBO is not linked to a fixed cash flow buildup projection
+  const operatingVariables: SensitivityVariable[] = operatingLinked
+    ? []
+    : [
+        { key: 'operating.revenueGrowth', label: 'Revenue Growth', unit: '%', step: 2 },
+        { key: 'operating.ebitdaMargin', label: 'EBITDA Margin', unit: '%', step: 2, min: 0, max: 100 },
+      ];
+
+  return {
+    modelType: 'lbo',
+    variables: [
+      { key: 'entryMultiple', label: 'Entry Multiple', unit: 'x', step: 0.5 },
+      { key: 'exitMultiple', label: 'Exit Multiple', unit: 'x', step: 0.5 },
+      { key: 'exitYear', label: 'Exit Year', unit: 'yr', step: 1, min: 1, max: maxExitYear },
+      { key: 'cashSweepPct', label: 'Cash Sweep', unit: '%', step: 25, min: 0, max: 100 },
+      ...operatingVariables,
+    ],
+    outputs: [
+      { key: 'irr', label: 'Sponsor IRR', format: 'percent' },
+      { key: 'moic', label: 'MOIC', format: 'multiple' },
+      { key: 'exit_equity', label: 'Exit Equity', format: 'currency' },
+    ],
+    upsideDeltas: operatingLinked ? { exitMultiple: 1 } : { exitMultiple: 1, 'operating.revenueGrowth': 3 },
+    downsideDeltas: operatingLinked ? { exitMultiple: -1.5 } : { exitMultiple: -1.5, 'operating.revenueGrowth': -4 },
+    evaluate: (assumptions) => {
+      const { returns } = runLBOModel(buildOperatingCase(assumptions), assumptions);
+      return {
+        irr: returns.irr / 100,
+        moic: returns.moic,
+        exit_equity: returns.exitEquityValue,
+      };
+    },
+  };
+}
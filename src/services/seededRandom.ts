@@ -0,0 +1,50 @@
+// Seeded Random - Deterministic random number generation for reproducible simulations
+
+export type Rng = () => number;
+
+/**
+ * Mulberry32 generator: fast 32-bit PRNG returning uniforms in [0, 1)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sampler using the Box-Muller transform, caching the second variate
+ */
+export function createNormalSampler(rng: Rng): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const z = spare;
+      spare = null;
+      return z;
+    }
+    const u1 = 1 - rng(); // (0, 1] so the log is finite
+    const u2 = rng();
+    const radius = Math.sqrt(-2 * Math.log(u1));
+    spare = radius * Math.sin(2 * Math.PI * u2);
+    return radius * Math.cos(2 * Math.PI * u2);
+  };
+}
+
+/**
+ * Derive a 32-bit seed from simulation inputs (FNV-1a over their JSON form),
+ * so identical inputs replay identical paths when no explicit seed is given
+ */
+export function hashSeed(value: unknown): number {
+  const text = JSON.stringify(value) ?? '';
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,290 @@
+// Strategy DSL Service - Rule-based strategies evaluated locally on cached daily bars
+// The definition language and simulator live in supabase/functions/_shared so the
+// ai-strategy-backtest edge function runs exactly the same rules.
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ConditionOperator,
+  Operand,
+  PositionSizing,
+  StrategyBar,
+  StrategyDefinition,
+  StrategyTrade,
+  STRATEGY_DSL_VERSION,
+  simulateStrategy,
+} from '../../supabase/functions/_shared/strategyDsl';
+import { CostModel, NO_COSTS, estimateTradeCost } from './transactionCostService';
+import {
+  annualizedVolatility,
+  calculateCAGR,
+  calculateMaxDrawdown,
+  calculateSharpeRatio,
+  calculateSortinoRatio,
+  yearsBetween,
+} from './portfolioMetricsService';
+
+export * from '../../supabase/functions/_shared/strategyDsl';
+
+export type OperandKind = Operand['kind'];
+
+export const OPERAND_KIND_LABELS: Record<OperandKind, string> = {
+  price: 'Price',
+  volume: 'Volume',
+  sma: 'SMA',
+  ema: 'EMA',
+  rsi: 'RSI',
+  atr: 'ATR',
+  momentum: 'Momentum (%)',
+  bollinger: 'Bollinger Band',
+  metric: 'Custom Metric',
+  constant: 'Value',
+};
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  '>': 'is above',
+  '<': 'is below',
+  '>=': 'is at or above',
+  '<=': 'is at or below',
+  '==': 'equals',
+  crosses_above: 'crosses above',
+  crosses_below: 'crosses below',
+};
+
+export const SIZING_LABELS: Record<PositionSizing['type'], string> = {
+  percent_equity: '% of equity',
+  fixed_amount: 'Fixed amount',
+  risk_atr: 'ATR risk',
+};
+
+export const DEFAULT_OPERANDS: Record<OperandKind, Operand> = {
+  price: { kind: 'price', field: 'close' },
+  volume: { kind: 'volume' },
+  sma: { kind: 'sma', period: 50 },
+  ema: { kind: 'ema', period: 20 },
+  rsi: { kind: 'rsi', period: 14 },
+  atr: { kind: 'atr', period: 14 },
+  momentum: { kind: 'momentum', period: 20 },
+  bollinger: { kind: 'bollinger', band: 'upper', period: 20, stdDev: 2 },
+  metric: { kind: 'metric', name: '' },
+  constant: { kind: 'constant', value: 0 },
+};
+
+export const STRATEGY_TEMPLATES: StrategyDefinition[] = [
+  {
+    version: STRATEGY_DSL_VERSION,
+    name: 'Golden Cross',
+    entry: {
+      logic: 'AND',
+      conditions: [{ left: { kind: 'sma', period: 50 }, operator: 'crosses_above', right: { kind: 'sma', period: 200 } }],
+    },
+    exit: {
+      logic: 'OR',
+      conditions: [{ left: { kind: 'sma', period: 50 }, operator: 'crosses_below', right: { kind: 'sma', period: 200 } }],
+    },
+    sizing: { type: 'percent_equity', percent: 100 },
+    stopLoss: null,
+    takeProfit: null,
+  },
+  {
+    version: STRATEGY_DSL_VERSION,
+    name: 'RSI Mean Reversion',
+    entry: {
+      logic: 'AND',
+      conditions: [
+        { left: { kind: 'rsi', period: 14 }, operator: '<', right: { kind: 'constant', value: 30 } },
+        { left: { kind: 'price', field: 'close' }, operator: '>', right: { kind: 'sma', period: 200 } },
+      ],
+    },
+    exit: {
+      logic: 'OR',
+      conditions: [{ left: { kind: 'rsi', period: 14 }, operator: '>', right: { kind: 'constant', value: 70 } }],
+    },
+    sizing: { type: 'percent_equity', percent: 100 },
+    stopLoss: { type: 'percent', value: 8 },
+    takeProfit: null,
+  },
+  {
+    version: STRATEGY_DSL_VERSION,
+    name: 'Bollinger Breakout',
+    entry: {
+      logic: 'AND',
+      conditions: [
+        {
+          left: { kind: 'price', field: 'close' },
+          operator: 'crosses_above',
+          right: { kind: 'bollinger', band: 'upper', period: 20, stdDev: 2 },
+        },
+      ],
+    },
+    exit: {
+      logic: 'OR',
+      conditions: [
+        {
+          left: { kind: 'price', field: 'close' },
+          operator: 'crosses_below',
+          right: { kind: 'bollinger', band: 'middle', period: 20, stdDev: 2 },
+        },
+      ],
+    },
+    sizing: { type: 'risk_atr', riskPercent: 2, atrPeriod: 14, atrMultiple: 2 },
+    stopLoss: { type: 'atr', multiple: 2, period: 14 },
+    takeProfit: null,
+  },
+];
+
+export interface SymbolTrade extends StrategyTrade {
+  symbol: string;
+}
+
+export interface StrategyBacktestMetrics {
+  totalReturn: number; // %
+  cagr: number; // %
+  volatility: number; // %
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdownPercent: number;
+  winRate: number; // % of closed trades with positive P&L
+  profitFactor: number; // Gross profit / gross loss
+  exposure: number; // % of symbol-days with a position open
+  totalCosts: number;
+  tradeCount: number;
+}
+
+export interface StrategyBacktestResult {
+  initialCapital: number;
+  finalValue: number;
+  equity: { date: string; value: number }[];
+  trades: SymbolTrade[];
+  // Positions still open on the last bar (their trades are closed there at the close)
+  finalHoldings: Record<string, number>;
+  metrics: StrategyBacktestMetrics;
+  missingSymbols: string[];
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Daily bars from the price cache, back-adjusted with adjusted_close so indicators are not
+ * distorted by splits and dividends
+ */
+export async function loadCachedBars(
+  tickers: string[],
+  startDate: string,
+  endDate: string
+): Promise<Record<string, StrategyBar[]>> {
+  const bars: Record<string, StrategyBar[]> = Object.fromEntries(tickers.map(t => [t, []]));
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('stock_price_cache')
+      .select('ticker, trade_date, open_price, high_price, low_price, close_price, adjusted_close, volume')
+      .in('ticker', tickers)
+      .gte('trade_date', startDate)
+      .lte('trade_date', endDate)
+      .order('ticker')
+      .order('trade_date')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const close = row.close_price;
+      if (!close || close <= 0) continue;
+      const factor = row.adjusted_close && row.adjusted_close > 0 ? row.adjusted_close / close : 1;
+      bars[row.ticker]?.push({
+        date: row.trade_date,
+        open: (row.open_price || close) * factor,
+        high: (row.high_price || close) * factor,
+        low: (row.low_price || close) * factor,
+        close: close * factor,
+        volume: row.volume ?? undefined,
+      });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return bars;
+}
+
+/**
+ * Run a strategy over several symbols, each trading an equal sleeve of capital, and combine
+ * the sleeves into one equity curve
+ */
+export function backtestStrategy(
+  definition: StrategyDefinition,
+  barsBySymbol: Record<string, StrategyBar[]>,
+  options: { initialCapital: number; costModel?: CostModel }
+): StrategyBacktestResult {
+  const { initialCapital, costModel = NO_COSTS } = options;
+  const symbols = Object.keys(barsBySymbol).filter(s => barsBySymbol[s].length > 1);
+  const missingSymbols = Object.keys(barsBySymbol).filter(s => !symbols.includes(s));
+  const sleeve = symbols.length > 0 ? initialCapital / symbols.length : 0;
+
+  const trades: SymbolTrade[] = [];
+  const finalHoldings: Record<string, number> = {};
+  const sleeveValues = new Map<string, Map<string, number>>();
+  let totalCosts = 0;
+  let barsInMarket = 0;
+  let totalBars = 0;
+
+  for (const symbol of symbols) {
+    const simulation = simulateStrategy(definition, barsBySymbol[symbol], {
+      capital: sleeve,
+      wholeShares: true,
+      tradeCost: (shares, price, bar) => estimateTradeCost(costModel, shares, price, bar.volume).total,
+    });
+    sleeveValues.set(symbol, new Map(simulation.equity.map(e => [e.date, e.value])));
+    simulation.trades.forEach(t => {
+      trades.push({ ...t, symbol });
+      if (t.exitReason === 'end_of_data') finalHoldings[symbol] = t.shares;
+    });
+    totalCosts += simulation.totalCosts;
+    barsInMarket += simulation.barsInMarket;
+    totalBars += barsBySymbol[symbol].length;
+  }
+
+  // Carry each sleeve's last value across days it has no bar
+  const dates = [...new Set(symbols.flatMap(s => barsBySymbol[s].map(b => b.date)))].sort();
+  const lastValue = new Map(symbols.map(s => [s, sleeve]));
+  const equity = dates.map(date => {
+    let value = 0;
+    for (const symbol of symbols) {
+      const v = sleeveValues.get(symbol)!.get(date);
+      if (v !== undefined) lastValue.set(symbol, v);
+      value += lastValue.get(symbol)!;
+    }
+    return { date, value };
+  });
+
+  const values = equity.map(e => e.value);
+  const finalValue = values.length > 0 ? values[values.length - 1] : initialCapital;
+  const dailyReturns = values.slice(1).map((v, i) => (values[i] > 0 ? v / values[i] - 1 : 0));
+  const years = dates.length > 1 ? yearsBetween(dates[0], dates[dates.length - 1]) : 0;
+
+  const wins = trades.filter(t => t.pnl > 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(trades.filter(t => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0));
+
+  trades.sort((a, b) => a.entryDate.localeCompare(b.entryDate) || a.symbol.localeCompare(b.symbol));
+
+  return {
+    initialCapital,
+    finalValue,
+    equity,
+    trades,
+    finalHoldings,
+    missingSymbols,
+    metrics: {
+      totalReturn: initialCapital > 0 ? (finalValue / initialCapital - 1) * 100 : 0,
+      cagr: calculateCAGR(initialCapital, finalValue, years) * 100,
+      volatility: annualizedVolatility(dailyReturns) * 100,
+      sharpeRatio: calculateSharpeRatio(dailyReturns),
+      sortinoRatio: calculateSortinoRatio(dailyReturns),
+      maxDrawdownPercent: calculateMaxDrawdown(values).maxDrawdownPercent,
+      winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+      exposure: totalBars > 0 ? (barsInMarket / totalBars) * 100 : 0,
+      totalCosts,
+      tradeCount: trades.length,
+    },
+  };
+}
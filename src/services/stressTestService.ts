@@ -1,5 +1,5 @@
 // Stress Test Service - Calculate portfolio performance during historical crisis periods
-import { polygonData, OHLCVBar } from './polygonDataHandler';
+import { polygonData, OHLCVBar, totalReturnCloses } from './polygonDataHandler';
 
 export interface StressTestPeriod {
   id: string;
@@ -107,7 +107,7 @@ export async function runStressTest(
         continue;
       }
       
-      const prices = bars.map(b => b.close);
+      const prices = totalReturnCloses(bars);
       const weight = allocations.get(ticker) || 0;
       
       // Calculate asset-level metrics
@@ -193,7 +193,7 @@ export async function checkLiquidityRisks(
         continue;
       }
       
-      const prices = bars.map(b => b.close);
+      const prices = totalReturnCloses(bars);
       const maxDrawdown = Math.abs(calculateMaxDrawdown(prices));
       
       const isRisk = isShortHorizon && maxDrawdown > drawdownThreshold;
@@ -0,0 +1,525 @@
+// Tax Lot Service - Lot tracking from transactions with FIFO/LIFO/HIFO/specific-ID relief and wash-sale detection
+// Replays buys, sells, splits and transfers into open lots and realized gains; reports per tax year and harvesting ideas
+
+export type LotReliefMethod = 'fifo' | 'lifo' | 'hifo' | 'specific_id';
+
+export type LotTransactionType = 'buy' | 'sell' | 'split' | 'transfer_in' | 'transfer_out';
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface LotSelection {
+  lotId: string;
+  shares: number;
+}
+
+export interface LotTransaction {
+  id: string;
+  symbol: string;
+  type: string; // Anything other than a LotTransactionType (dividends, capital calls) is ignored
+  date: string; // yyyy-MM-dd
+  shares: number;
+  pricePerShare: number;
+  splitRatio?: number | null; // New shares per old share, for splits
+  acquiredDate?: string | null; // Original acquisition date, for transfers in
+  lotMethod?: LotReliefMethod | null;
+  lotSelection?: LotSelection[] | null; // Lots to relieve, for specific-ID sells and transfers out
+}
+
+export interface OpenLot {
+  id: string; // Acquiring transaction id; a wash-sale replacement split off a lot gets a derived id
+  symbol: string;
+  source: 'buy' | 'transfer';
+  purchaseDate: string; // When these shares were acquired here; drives the wash-sale window
+  holdingPeriodStart: string; // Drives short/long term; earlier than purchaseDate after a transfer or wash sale
+  shares: number;
+  costPerShare: number; // Includes any disallowed wash-sale loss
+  washSaleAdjustment: number; // Total disallowed loss added to this lot's basis
+}
+
+export interface RealizedLot {
+  saleId: string;
+  symbol: string;
+  lotId: string;
+  acquiredDate: string;
+  saleDate: string;
+  shares: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number; // proceeds − costBasis; negative for a loss
+  disallowedLoss: number; // Portion of a loss deferred into replacement shares by the wash-sale rule
+  term: HoldingTerm;
+  taxYear: number;
+}
+
+export interface WashSale {
+  saleId: string;
+  symbol: string;
+  saleDate: string;
+  soldLotId: string;
+  replacementLotId: string;
+  replacementDate: string;
+  shares: number;
+  disallowedLoss: number;
+}
+
+export interface LotLedger {
+  openLots: OpenLot[];
+  realized: RealizedLot[];
+  washSales: WashSale[];
+  issues: string[]; // Transactions that could not be applied in full, with the reason
+}
+
+export interface TaxRates {
+  shortTerm: number;
+  longTerm: number;
+}
+
+export interface GainSummary {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  disallowedLoss: number;
+  reportableGain: number; // gain + disallowedLoss
+}
+
+export interface TaxYearReport {
+  taxYear: number;
+  shortTerm: GainSummary;
+  longTerm: GainSummary;
+  lots: RealizedLot[];
+  estimatedTax: number;
+}
+
+export interface UnrealizedLot extends OpenLot {
+  price: number;
+  marketValue: number;
+  costBasis: number;
+  gain: number;
+  term: HoldingTerm;
+}
+
+export interface UnrealizedReport {
+  lots: UnrealizedLot[];
+  shortTerm: { costBasis: number; marketValue: number; gain: number };
+  longTerm: { costBasis: number; marketValue: number; gain: number };
+  missingPrices: string[];
+}
+
+export interface HarvestCandidate {
+  symbol: string;
+  lotIds: string[];
+  shares: number;
+  costBasis: number;
+  marketValue: number;
+  shortTermLoss: number; // Negative numbers
+  longTermLoss: number;
+  taxSavings: number;
+  substitutes: string[];
+  blockedUntil: string | null; // A recent purchase would wash the loss if sold before this date
+  repurchaseAfter: string; // Earliest date to buy the symbol back without a wash sale
+}
+
+// Illustrative short/long-term federal rates; callers should pass the investor's own
+export const DEFAULT_TAX_RATES: TaxRates = { shortTerm: 0.35, longTerm: 0.15 };
+
+export const WASH_SALE_WINDOW_DAYS = 30;
+
+export const LOT_RELIEF_METHODS: { value: LotReliefMethod; label: string }[] = [
+  { value: 'fifo', label: 'FIFO' },
+  { value: 'lifo', label: 'LIFO' },
+  { value: 'hifo', label: 'HIFO' },
+  { value: 'specific_id', label: 'Specific ID' },
+];
+
+// Similar exposure on a different index, so a swap is not "substantially identical"
+export const SUBSTITUTE_ETFS: Record<string, string[]> = {
+  SPY: ['VV', 'SCHX'],
+  VOO: ['VV', 'SCHX'],
+  IVV: ['VV', 'SCHX'],
+  VTI: ['ITOT', 'SCHB'],
+  DIA: ['VV', 'SCHX'],
+  QQQ: ['VGT', 'XLK'],
+  IWM: ['VB', 'SCHA'],
+  SCHD: ['VYM', 'DVY'],
+  BND: ['SCHZ', 'AGG'],
+  AGG: ['SCHZ', 'BND'],
+  TLT: ['VGLT', 'SPTL'],
+  IEF: ['VGIT', 'SCHR'],
+  LQD: ['VCIT', 'IGIB'],
+  HYG: ['JNK', 'USHY'],
+  GLD: ['IAU', 'GLDM'],
+  SLV: ['SIVR'],
+  DBC: ['PDBC', 'GSG'],
+  VNQ: ['SCHH', 'USRT'],
+  XLRE: ['VNQ', 'USRT'],
+  IYR: ['VNQ', 'SCHH'],
+  SCHH: ['VNQ', 'USRT'],
+};
+
+const EPSILON = 1e-9;
+const DAY_MS = 86400000;
+
+const toDate = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+const toIso = (date: Date) => date.toISOString().split('T')[0];
+const daysBetween = (from: string, to: string) => Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS);
+const addDays = (date: string, days: number) => toIso(new Date(toDate(date).getTime() + days * DAY_MS));
+
+/**
+ * Long-term once held for more than one year: sold after the anniversary of the holding period start
+ */
+export function holdingTerm(holdingPeriodStart: string, saleDate: string): HoldingTerm {
+  const anniversary = toDate(holdingPeriodStart);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return toDate(saleDate).getTime() > anniversary.getTime() ? 'long' : 'short';
+}
+
+/**
+ * Order in which lots are relieved; specific-ID sells fall back to FIFO for anything not selected
+ */
+export function reliefOrder<T extends Pick<OpenLot, 'holdingPeriodStart' | 'costPerShare'>>(lots: T[], method: LotReliefMethod): T[] {
+  const indexed = lots.map((lot, index) => ({ lot, index }));
+  const byStart = (a: { lot: T; index: number }, b: { lot: T; index: number }) =>
+    a.lot.holdingPeriodStart.localeCompare(b.lot.holdingPeriodStart) || a.index - b.index;
+  switch (method) {
+    case 'lifo':
+      indexed.sort((a, b) => -byStart(a, b));
+      break;
+    case 'hifo':
+      indexed.sort((a, b) => b.lot.costPerShare - a.lot.costPerShare || byStart(a, b));
+      break;
+    default:
+      indexed.sort(byStart);
+  }
+  return indexed.map(i => i.lot);
+}
+
+interface LedgerLot extends OpenLot {
+  unreplacedShares: number; // Shares not yet matched as a wash-sale replacement
+}
+
+interface PendingLoss {
+  realized: RealizedLot;
+  baseLotId: string;
+  holdingDays: number;
+  lossPerShare: number;
+  unmatchedShares: number;
+}
+
+const baseLotId = (id: string) => id.split(':wash:')[0];
+
+/**
+ * Replay transactions (any order, any symbols) into open lots, realized gains and wash sales.
+ * Losses are disallowed when the same symbol is bought within 30 days before or after the sale;
+ * the disallowed loss and the sold lot's holding period carry over to the replacement shares.
+ */
+export function buildLotLedger(transactions: LotTransaction[], defaultMethod: LotReliefMethod = 'fifo'): LotLedger {
+  const ordered = transactions
+    .map((tx, index) => ({ tx, index }))
+    .sort((a, b) => a.tx.date.localeCompare(b.tx.date) || a.index - b.index)
+    .map(({ tx }) => tx);
+
+  let lots: LedgerLot[] = [];
+  const realized: RealizedLot[] = [];
+  const washSales: WashSale[] = [];
+  const issues: string[] = [];
+  let pending: PendingLoss[] = [];
+
+  // Carve `shares` off a lot as a wash-sale replacement carrying the deferred loss and holding period
+  const applyWash = (lot: LedgerLot, shares: number, loss: PendingLoss, saleId: string) => {
+    let target = lot;
+    if (lot.shares - shares > EPSILON) {
+      target = { ...lot, id: `${lot.id}:wash:${saleId}`, shares, unreplacedShares: shares };
+      lot.shares -= shares;
+      lot.unreplacedShares -= shares;
+      lots.splice(lots.indexOf(lot) + 1, 0, target);
+    }
+    const disallowed = shares * loss.lossPerShare;
+    target.costPerShare += loss.lossPerShare;
+    target.washSaleAdjustment += disallowed;
+    target.unreplacedShares -= shares;
+    const start = addDays(target.purchaseDate, -loss.holdingDays);
+    if (start < target.holdingPeriodStart) target.holdingPeriodStart = start;
+    loss.realized.disallowedLoss += disallowed;
+    loss.unmatchedShares -= shares;
+    washSales.push({
+      saleId,
+      symbol: lot.symbol,
+      saleDate: loss.realized.saleDate,
+      soldLotId: loss.realized.lotId,
+      replacementLotId: target.id,
+      replacementDate: target.purchaseDate,
+      shares,
+      disallowedLoss: disallowed,
+    });
+  };
+
+  const relieve = (tx: LotTransaction, shares: number): { lot: LedgerLot; shares: number }[] => {
+    const held = lots.filter(l => l.symbol === tx.symbol);
+    const available = held.reduce((s, l) => s + l.shares, 0);
+    if (shares > available + EPSILON) {
+      issues.push(`${tx.type} of ${shares} ${tx.symbol} on ${tx.date} exceeds the ${+available.toFixed(6)} shares held; relieved what was held`);
+      shares = available;
+    }
+
+    const method = tx.lotMethod ?? defaultMethod;
+    const taken: { lot: LedgerLot; shares: number }[] = [];
+    let remaining = shares;
+    const take = (lot: LedgerLot, requested: number) => {
+      const already = taken.find(t => t.lot === lot);
+      const free = lot.shares - (already?.shares ?? 0);
+      const n = Math.min(requested, free, remaining);
+      if (n <= EPSILON) return 0;
+      if (already) already.shares += n;
+      else taken.push({ lot, shares: n });
+      remaining -= n;
+      return n;
+    };
+
+    if (method === 'specific_id') {
+      for (const selection of tx.lotSelection ?? []) {
+        const lot = held.find(l => l.id === selection.lotId);
+        if (!lot) {
+          issues.push(`Sale ${tx.id} selects lot ${selection.lotId}, which is not an open ${tx.symbol} lot on ${tx.date}`);
+          continue;
+        }
+        const n = take(lot, selection.shares);
+        if (n < selection.shares - EPSILON && remaining > EPSILON) {
+          issues.push(`Sale ${tx.id} selects ${selection.shares} shares of lot ${lot.id}, which holds ${+lot.shares.toFixed(6)}`);
+        }
+      }
+      if (remaining > EPSILON) {
+        issues.push(`Sale ${tx.id} on ${tx.date} did not identify ${+remaining.toFixed(6)} shares; relieved them first-in, first-out`);
+      }
+    }
+    for (const lot of reliefOrder(held, method === 'specific_id' ? 'fifo' : method)) {
+      if (remaining <= EPSILON) break;
+      take(lot, remaining);
+    }
+
+    taken.forEach(({ lot, shares: n }) => {
+      lot.shares -= n;
+      lot.unreplacedShares = Math.min(lot.unreplacedShares, lot.shares);
+    });
+    lots = lots.filter(l => l.shares > EPSILON);
+    return taken;
+  };
+
+  const addLot = (tx: LotTransaction, source: OpenLot['source']) => {
+    const start = source === 'transfer' && tx.acquiredDate ? tx.acquiredDate : tx.date;
+    const lot: LedgerLot = {
+      id: tx.id,
+      symbol: tx.symbol,
+      source,
+      purchaseDate: tx.date,
+      holdingPeriodStart: start,
+      shares: tx.shares,
+      costPerShare: tx.pricePerShare,
+      washSaleAdjustment: 0,
+      unreplacedShares: source === 'buy' ? tx.shares : 0,
+    };
+    lots.push(lot);
+
+    // A purchase within 30 days after a loss sale is its replacement
+    if (source !== 'buy') return;
+    pending = pending.filter(p => daysBetween(p.realized.saleDate, tx.date) <= WASH_SALE_WINDOW_DAYS && p.unmatchedShares > EPSILON);
+    for (const loss of pending) {
+      if (loss.realized.symbol !== tx.symbol || lot.unreplacedShares <= EPSILON) continue;
+      applyWash(lot, Math.min(loss.unmatchedShares, lot.unreplacedShares), loss, loss.realized.saleId);
+    }
+  };
+
+  for (const tx of ordered) {
+    if (tx.type === 'buy' || tx.type === 'transfer_in') {
+      if (!(tx.shares > 0)) {
+        issues.push(`${tx.type} ${tx.id} on ${tx.date} has no shares`);
+        continue;
+      }
+      addLot(tx, tx.type === 'buy' ? 'buy' : 'transfer');
+    } else if (tx.type === 'split') {
+      const ratio = tx.splitRatio ?? 0;
+      if (!(ratio > 0)) {
+        issues.push(`Split ${tx.id} on ${tx.date} has no ratio`);
+        continue;
+      }
+      lots.filter(l => l.symbol === tx.symbol).forEach(l => {
+        l.shares *= ratio;
+        l.unreplacedShares *= ratio;
+        l.costPerShare /= ratio;
+      });
+      pending.filter(p => p.realized.symbol === tx.symbol).forEach(p => {
+        p.unmatchedShares *= ratio;
+        p.lossPerShare /= ratio;
+      });
+    } else if (tx.type === 'transfer_out') {
+      relieve(tx, tx.shares);
+    } else if (tx.type === 'sell') {
+      const pieces = relieve(tx, tx.shares);
+      for (const { lot, shares } of pieces) {
+        const proceeds = shares * tx.pricePerShare;
+        const costBasis = shares * lot.costPerShare;
+        const row: RealizedLot = {
+          saleId: tx.id,
+          symbol: tx.symbol,
+          lotId: lot.id,
+          acquiredDate: lot.holdingPeriodStart,
+          saleDate: tx.date,
+          shares,
+          proceeds,
+          costBasis,
+          gain: proceeds - costBasis,
+          disallowedLoss: 0,
+          term: holdingTerm(lot.holdingPeriodStart, tx.date),
+          taxYear: toDate(tx.date).getUTCFullYear(),
+        };
+        realized.push(row);
+        if (row.gain >= -EPSILON) continue;
+
+        const loss: PendingLoss = {
+          realized: row,
+          baseLotId: baseLotId(lot.id),
+          holdingDays: daysBetween(lot.holdingPeriodStart, tx.date),
+          lossPerShare: -row.gain / shares,
+          unmatchedShares: shares,
+        };
+        // Purchases in the 30 days before the sale that are still held (other than the sold purchase itself)
+        const candidates = lots.filter(
+          l =>
+            l.symbol === tx.symbol &&
+            l.source === 'buy' &&
+            l.unreplacedShares > EPSILON &&
+            baseLotId(l.id) !== loss.baseLotId &&
+            daysBetween(l.purchaseDate, tx.date) <= WASH_SALE_WINDOW_DAYS
+        );
+        for (const candidate of candidates) {
+          if (loss.unmatchedShares <= EPSILON) break;
+          applyWash(candidate, Math.min(loss.unmatchedShares, candidate.unreplacedShares), loss, tx.id);
+        }
+        if (loss.unmatchedShares > EPSILON) pending.push(loss);
+      }
+    }
+  }
+
+  return {
+    openLots: lots.map(({ unreplacedShares: _unreplaced, ...lot }) => lot),
+    realized,
+    washSales,
+    issues,
+  };
+}
+
+const emptySummary = (): GainSummary => ({ proceeds: 0, costBasis: 0, gain: 0, disallowedLoss: 0, reportableGain: 0 });
+
+/**
+ * Tax on net short- and long-term gains after netting one against the other,
+ * before the $3,000 ordinary-income loss offset and carryovers
+ */
+export function estimateTax(shortTermGain: number, longTermGain: number, rates: TaxRates = DEFAULT_TAX_RATES): number {
+  if (shortTermGain >= 0 && longTermGain >= 0) return shortTermGain * rates.shortTerm + longTermGain * rates.longTerm;
+  if (shortTermGain < 0 && longTermGain >= 0) return Math.max(longTermGain + shortTermGain, 0) * rates.longTerm;
+  if (longTermGain < 0 && shortTermGain >= 0) return Math.max(shortTermGain + longTermGain, 0) * rates.shortTerm;
+  return 0;
+}
+
+/**
+ * Realized short/long-term gains for one tax year, with wash-sale disallowed losses added back
+ */
+export function realizedGainsReport(ledger: LotLedger, taxYear: number, rates: TaxRates = DEFAULT_TAX_RATES): TaxYearReport {
+  const lots = ledger.realized.filter(r => r.taxYear === taxYear);
+  const shortTerm = emptySummary();
+  const longTerm = emptySummary();
+  lots.forEach(r => {
+    const summary = r.term === 'long' ? longTerm : shortTerm;
+    summary.proceeds += r.proceeds;
+    summary.costBasis += r.costBasis;
+    summary.gain += r.gain;
+    summary.disallowedLoss += r.disallowedLoss;
+    summary.reportableGain += r.gain + r.disallowedLoss;
+  });
+  return {
+    taxYear,
+    shortTerm,
+    longTerm,
+    lots,
+    estimatedTax: estimateTax(shortTerm.reportableGain, longTerm.reportableGain, rates),
+  };
+}
+
+/**
+ * Tax years with at least one sale, most recent first
+ */
+export function taxYears(ledger: LotLedger): number[] {
+  return [...new Set(ledger.realized.map(r => r.taxYear))].sort((a, b) => b - a);
+}
+
+/**
+ * Mark open lots to market, splitting gains by the term they would have if sold on `asOf`
+ */
+export function unrealizedGains(openLots: OpenLot[], prices: Map<string, number>, asOf: string): UnrealizedReport {
+  const report: UnrealizedReport = {
+    lots: [],
+    shortTerm: { costBasis: 0, marketValue: 0, gain: 0 },
+    longTerm: { costBasis: 0, marketValue: 0, gain: 0 },
+    missingPrices: [],
+  };
+  openLots.forEach(lot => {
+    const price = prices.get(lot.symbol);
+    if (price === undefined || !(price > 0)) {
+      if (!report.missingPrices.includes(lot.symbol)) report.missingPrices.push(lot.symbol);
+      return;
+    }
+    const costBasis = lot.shares * lot.costPerShare;
+    const marketValue = lot.shares * price;
+    const term = holdingTerm(lot.holdingPeriodStart, asOf);
+    report.lots.push({ ...lot, price, marketValue, costBasis, gain: marketValue - costBasis, term });
+    const bucket = term === 'long' ? report.longTerm : report.shortTerm;
+    bucket.costBasis += costBasis;
+    bucket.marketValue += marketValue;
+    bucket.gain += marketValue - costBasis;
+  });
+  return report;
+}
+
+/**
+ * Symbols whose losing lots could be sold now to realize at least `minLoss`, largest tax saving first.
+ * A recent purchase that is not itself being harvested would wash the loss, so those are flagged.
+ */
+export function harvestingCandidates(
+  ledger: LotLedger,
+  prices: Map<string, number>,
+  asOf: string,
+  { rates = DEFAULT_TAX_RATES, minLoss = 100 }: { rates?: TaxRates; minLoss?: number } = {}
+): HarvestCandidate[] {
+  const { lots } = unrealizedGains(ledger.openLots, prices, asOf);
+  const bySymbol = new Map<string, UnrealizedLot[]>();
+  lots.forEach(lot => bySymbol.set(lot.symbol, [...(bySymbol.get(lot.symbol) ?? []), lot]));
+
+  const candidates: HarvestCandidate[] = [];
+  bySymbol.forEach((symbolLots, symbol) => {
+    const losers = symbolLots.filter(l => l.gain < 0);
+    const shortTermLoss = losers.filter(l => l.term === 'short').reduce((s, l) => s + l.gain, 0);
+    const longTermLoss = losers.filter(l => l.term === 'long').reduce((s, l) => s + l.gain, 0);
+    if (-(shortTermLoss + longTermLoss) < minLoss) return;
+
+    const recentKeepers = symbolLots.filter(
+      l => l.gain >= 0 && l.source === 'buy' && daysBetween(l.purchaseDate, asOf) <= WASH_SALE_WINDOW_DAYS
+    );
+    const blockedUntil = recentKeepers.length
+      ? addDays(recentKeepers.map(l => l.purchaseDate).sort().pop()!, WASH_SALE_WINDOW_DAYS + 1)
+      : null;
+
+    candidates.push({
+      symbol,
+      lotIds: losers.map(l => l.id),
+      shares: losers.reduce((s, l) => s + l.shares, 0),
+      costBasis: losers.reduce((s, l) => s + l.costBasis, 0),
+      marketValue: losers.reduce((s, l) => s + l.marketValue, 0),
+      shortTermLoss,
+      longTermLoss,
+      taxSavings: -shortTermLoss * rates.shortTerm - longTermLoss * rates.longTerm,
+      substitutes: SUBSTITUTE_ETFS[symbol] ?? [],
+      blockedUntil,
+      repurchaseAfter: addDays(asOf, WASH_SALE_WINDOW_DAYS + 1),
+    });
+  });
+  return candidates.sort((a, b) => b.taxSavings - a.taxSavings);
+}
@@ -0,0 +1,4 @@
+// Three-Statement Projection Engine - Client entry point
+// The engine lives in supabase/functions/_shared so edge functions deploy with it; see that file.
+
+export * from '../../supabase/functions/_shared/threeStatementEngine';
@@ -0,0 +1,122 @@
+// Transaction Cost Service - Commission, bid/ask spread and market-impact cost models for backtests
+
+export type CommissionType = 'none' | 'fixed' | 'per_share' | 'bps';
+
+export interface CostModel {
+  commissionType: CommissionType;
+  commission: number; // $ per trade (fixed), $ per share (per_share) or basis points of notional (bps)
+  minimumCommission: number; // $ floor per trade for per_share and bps commissions
+  spreadBps: number; // Quoted bid/ask spread; each trade crosses half of it
+  impactCoefficient: number; // Square-root impact: cost fraction = coefficient * sqrt(shares / bar volume)
+}
+
+export interface TradeCost {
+  commission: number;
+  spread: number;
+  impact: number;
+  total: number;
+}
+
+export interface CostSummary extends TradeCost {
+  trades: number;
+}
+
+export const COMMISSION_TYPE_LABELS: Record<CommissionType, string> = {
+  none: 'No commission',
+  fixed: 'Fixed per trade',
+  per_share: 'Per share',
+  bps: 'Basis points',
+};
+
+export const NO_COSTS: CostModel = {
+  commissionType: 'none',
+  commission: 0,
+  minimumCommission: 0,
+  spreadBps: 0,
+  impactCoefficient: 0,
+};
+
+// Liquid US equities through a retail/institutional broker: $0.005/share, 2bp spread, modest impact
+export const DEFAULT_COST_MODEL: CostModel = {
+  commissionType: 'per_share',
+  commission: 0.005,
+  minimumCommission: 1,
+  spreadBps: 2,
+  impactCoefficient: 0.1,
+};
+
+export function emptyCostSummary(): CostSummary {
+  return { commission: 0, spread: 0, impact: 0, total: 0, trades: 0 };
+}
+
+/**
+ * Cost of trading `shares` at `price`. Impact scales with the square root of the trade's
+ * participation in the bar's volume; without volume only commission and spread apply.
+ */
+export function estimateTradeCost(model: CostModel, shares: number, price: number, barVolume?: number): TradeCost {
+  const quantity = Math.abs(shares);
+  const notional = quantity * price;
+  if (notional <= 0) return { commission: 0, spread: 0, impact: 0, total: 0 };
+
+  let commission = 0;
+  switch (model.commissionType) {
+    case 'fixed':
+      commission = model.commission;
+      break;
+    case 'per_share':
+      commission = Math.max(quantity * model.commission, model.minimumCommission);
+      break;
+    case 'bps':
+      commission = Math.max((notional * model.commission) / 10000, model.minimumCommission);
+      break;
+  }
+
+  const spread = (notional * model.spreadBps) / 2 / 10000;
+  const participation = barVolume && barVolume > 0 ? Math.min(1, quantity / barVolume) : 0;
+  const impact = notional * model.impactCoefficient * Math.sqrt(participation);
+
+  return { commission, spread, impact, total: commission + spread + impact };
+}
+
+/**
+ * Whole or fractional shares a cash budget buys once the trade's own costs are paid
+ */
+export function affordableShares(
+  model: CostModel,
+  budget: number,
+  price: number,
+  barVolume?: number,
+  wholeShares: boolean = true
+): number {
+  if (budget <= 0 || price <= 0) return 0;
+  const round = (n: number) => Math.max(0, wholeShares ? Math.floor(n) : n);
+
+  // Costs grow with size, so shrink the order until it and its costs fit the budget
+  let shares = round(budget / price);
+  for (let i = 0; i < 20 && shares > 0; i++) {
+    const cost = estimateTradeCost(model, shares, price, barVolume).total;
+    if (shares * price + cost <= budget + 1e-9) break;
+    shares = round((budget - cost) / price);
+  }
+  return shares;
+}
+
+export function addTradeCost(summary: CostSummary, cost: TradeCost): CostSummary {
+  return {
+    commission: summary.commission + cost.commission,
+    spread: summary.spread + cost.spread,
+    impact: summary.impact + cost.impact,
+    total: summary.total + cost.total,
+    trades: summary.trades + 1,
+  };
+}
+
+/**
+ * Annualized return given up to trading costs: CAGR gross of costs minus net CAGR
+ */
+export function calculateCostDrag(initialValue: number, finalValue: number, totalCosts: number, years: number): number {
+  if (initialValue <= 0 || years <= 0 || finalValue <= 0) return 0;
+  const net = Math.pow(finalValue / initialValue, 1 / years) - 1;
+  const gross = Math.pow((finalValue + totalCosts) / initialValue, 1 / years) - 1;
+  return gross - net;
+}
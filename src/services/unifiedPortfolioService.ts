@@ -2,6 +2,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import type { AssetClass, PortfolioAllocation } from '@/types/portfolio';
 import type { SyncedPosition, PositionFormData } from '@/types/positions';
+import { DEFAULT_CURRENCY, FxRates, inferListingCurrency } from './fxService';
 
 // Central unified position type
 export interface UnifiedPosition {
@@ -28,6 +29,7 @@ export interface UnifiedPosition {
   assetType: string;
   assetClass: AssetClass | null;
   sector: string | null;
+  currency: string; // Prices, values and cost basis above are in this currency
   
   // Tracking
   source: 'manual' | 'brokerage' | 'csv' | 'visualizer';
@@ -46,8 +48,18 @@ export interface PortfolioSummary {
   totalGainPercent: number;
   positionCount: number;
   byAssetClass: Record<string, { value: number; weight: number; count: number }>;
+  baseCurrency: string; // Currency of every total above
+  byCurrency: Record<string, { value: number; weight: number; count: number }>; // Exposure by holding currency, valued in base
+  unconvertedCurrencies: string[]; // No rate to the base; those positions are counted at face value
 }
 
+export interface BaseCurrencyContext {
+  baseCurrency: string;
+  rates: FxRates;
+}
+
+const USD_ONLY: BaseCurrencyContext = { baseCurrency: DEFAULT_CURRENCY, rates: new FxRates() };
+
 // Map asset type to asset class
 const assetTypeToClass: Record<string, AssetClass> = {
   stock: 'stocks',
@@ -86,6 +98,7 @@ export function syncedToUnified(position: SyncedPosition, totalValue?: number):
     assetType: position.asset_type,
     assetClass: assetTypeToClass[position.asset_type] || 'stocks',
     sector: null, // Would come from external data
+    currency: position.currency ?? DEFAULT_CURRENCY,
     source: position.source,
     connectionId: position.connection_id,
     purchaseDate: position.purchase_date,
@@ -119,6 +132,7 @@ export function allocationToUnified(
     assetType: alloc.assetClass,
     assetClass: alloc.assetClass,
     sector: null,
+    currency: DEFAULT_CURRENCY,
     source: 'visualizer',
     connectionId: null,
     purchaseDate: null,
@@ -146,33 +160,72 @@ export function unifiedToPositionData(position: UnifiedPosition): Omit<PositionF
     cost_per_share: position.costPerShare || undefined,
     cost_basis: position.costBasis || undefined,
     asset_type: position.assetType,
+    currency: position.currency,
     purchase_date: position.purchaseDate || undefined,
   };
 }
 
-// Calculate portfolio summary from positions
-export function calculateSummary(positions: UnifiedPosition[]): PortfolioSummary {
-  const totalValue = positions.reduce((sum, p) => sum + (p.currentValue ?? 0), 0);
-  const totalCostBasis = positions.reduce((sum, p) => sum + (p.costBasis ?? 0), 0);
+// Convert an amount in a position's currency to the base; null when there is no rate
+export function toBaseCurrency(amount: number, currency: string, fx: BaseCurrencyContext): number | null {
+  return fx.rates.convert(amount, currency, fx.baseCurrency);
+}
+
+// Recompute weights from base-currency values so holdings in different currencies compare
+export function applyBaseCurrency(positions: UnifiedPosition[], fx: BaseCurrencyContext): UnifiedPosition[] {
+  const baseValues = positions.map(p => {
+    const value = p.currentValue ?? 0;
+    return toBaseCurrency(value, p.currency, fx) ?? value;
+  });
+  const totalValue = baseValues.reduce((sum, v) => sum + v, 0);
+  
+  return positions.map((p, i) => ({
+    ...p,
+    weight: totalValue > 0 ? (baseValues[i] / totalValue) * 100 : null,
+  }));
+}
+
+// Calculate portfolio summary from positions, in the base currency at current rates.
+// Cost basis converts at today's rate too, so gains are local gains in base terms; the
+// currency effect over time is reported by the currency attribution service.
+export function calculateSummary(positions: UnifiedPosition[], fx: BaseCurrencyContext = USD_ONLY): PortfolioSummary {
+  const unconverted = new Set<string>();
+  const inBase = (amount: number, currency: string) => {
+    const converted = toBaseCurrency(amount, currency, fx);
+    if (converted === null) unconverted.add(currency);
+    return converted ?? amount;
+  };
+  
+  const values = positions.map(p => inBase(p.currentValue ?? 0, p.currency));
+  const totalValue = values.reduce((sum, v) => sum + v, 0);
+  const totalCostBasis = positions.reduce((sum, p) => sum + inBase(p.costBasis ?? 0, p.currency), 0);
   const totalGain = totalValue - totalCostBasis;
   const totalGainPercent = totalCostBasis > 0 ? (totalGain / totalCostBasis) * 100 : 0;
   
   const byAssetClass: Record<string, { value: number; weight: number; count: number }> = {};
+  const byCurrency: Record<string, { value: number; weight: number; count: number }> = {};
   
-  for (const position of positions) {
+  positions.forEach((position, i) => {
     const assetClass = position.assetClass || 'other';
     if (!byAssetClass[assetClass]) {
       byAssetClass[assetClass] = { value: 0, weight: 0, count: 0 };
     }
-    byAssetClass[assetClass].value += position.currentValue ?? 0;
+    byAssetClass[assetClass].value += values[i];
     byAssetClass[assetClass].count += 1;
-  }
+    
+    if (!byCurrency[position.currency]) {
+      byCurrency[position.currency] = { value: 0, weight: 0, count: 0 };
+    }
+    byCurrency[position.currency].value += values[i];
+    byCurrency[position.currency].count += 1;
+  });
   
   // Calculate weights after totaling
-  for (const key of Object.keys(byAssetClass)) {
-    byAssetClass[key].weight = totalValue > 0 
-      ? (byAssetClass[key].value / totalValue) * 100 
-      : 0;
+  for (const group of [byAssetClass, byCurrency]) {
+    for (const key of Object.keys(group)) {
+      group[key].weight = totalValue > 0 
+        ? (group[key].value / totalValue) * 100 
+        : 0;
+    }
   }
   
   return {
@@ -182,6 +235,9 @@ export function calculateSummary(positions: UnifiedPosition[]): PortfolioSummary
     totalGainPercent,
     positionCount: positions.length,
     byAssetClass,
+    baseCurrency: fx.baseCurrency,
+    byCurrency,
+    unconvertedCurrencies: [...unconverted],
   };
 }
 
@@ -254,6 +310,7 @@ export class UnifiedPortfolioService {
       cost_basis: costBasis,
       cost_per_share: data.cost_per_share || null,
       asset_type: data.asset_type || 'stock',
+      currency: (data.currency || inferListingCurrency(data.symbol)).toUpperCase(),
       purchase_date: data.purchase_date || new Date().toISOString().split('T')[0],
       source,
     };
@@ -280,6 +337,7 @@ export class UnifiedPortfolioService {
       cost_basis: data.cost_basis ?? (data.cost_per_share && data.quantity ? data.cost_per_share * data.quantity : null),
       cost_per_share: data.cost_per_share || null,
       asset_type: data.asset_type || 'stock',
+      currency: (data.currency || inferListingCurrency(data.symbol)).toUpperCase(),
       purchase_date: data.purchase_date || new Date().toISOString().split('T')[0],
       source,
     }));
@@ -306,6 +364,7 @@ export class UnifiedPortfolioService {
     if (data.cost_per_share !== undefined) updateData.cost_per_share = data.cost_per_share;
     if (data.cost_basis !== undefined) updateData.cost_basis = data.cost_basis;
     if (data.asset_type !== undefined) updateData.asset_type = data.asset_type;
+    if (data.currency !== undefined) updateData.currency = data.currency.toUpperCase();
     if (data.purchase_date !== undefined) updateData.purchase_date = data.purchase_date;
     
     const { data: updated, error } = await supabase
@@ -0,0 +1,477 @@
+// Walk-Forward Service - Out-of-sample validation and overfitting diagnostics for rule-based backtests
+// Grid-searches strategy parameters on rolling training windows, scores the chosen parameters on the
+// following test window, and reports the deflated Sharpe ratio and probability of backtest overfitting.
+// References: Bailey & López de Prado, "The Deflated Sharpe Ratio" (2014) and
+// "The Probability of Backtest Overfitting" (2015)
+
+import { CostModel, NO_COSTS } from './transactionCostService';
+import {
+  ConditionOperator,
+  Operand,
+  StrategyBar,
+  StrategyCondition,
+  StrategyDefinition,
+  STRATEGY_DSL_VERSION,
+  backtestStrategy,
+} from './strategyDslService';
+import {
+  annualizedVolatility,
+  arithmeticMean,
+  calculateKurtosis,
+  calculateMaxDrawdown,
+  calculateSharpeRatio,
+  calculateSkewness,
+  calculateSortinoRatio,
+  standardDeviation,
+} from './portfolioMetricsService';
+
+export type StrategyParameters = Record<string, number>;
+export type ParameterGrid = Record<string, number[]>;
+export type WalkForwardObjective = 'sharpe' | 'sortino' | 'cagr';
+
+export interface ParameterSpace {
+  id: string;
+  name: string;
+  description: string;
+  grid: ParameterGrid;
+  build: (params: StrategyParameters) => StrategyDefinition;
+}
+
+export interface WalkForwardOptions {
+  trainBars: number; // Trading days in each training window
+  testBars: number; // Trading days in each test window; windows roll forward by this much
+  anchored?: boolean; // Expanding training window from the first bar instead of a rolling one
+  holdoutFraction?: number; // Share of the most recent bars never used for selection (default 0.2)
+  objective?: WalkForwardObjective;
+  initialCapital?: number;
+  costModel?: CostModel;
+  pboPartitions?: number; // Even number of CSCV blocks (default 8)
+}
+
+export interface SegmentMetrics {
+  totalReturn: number; // %
+  cagr: number; // %
+  sharpeRatio: number;
+  volatility: number; // %
+  maxDrawdownPercent: number;
+  days: number;
+}
+
+export interface WalkForwardWindow {
+  trainStart: string;
+  trainEnd: string;
+  testStart: string;
+  testEnd: string;
+  params: StrategyParameters;
+  inSample: SegmentMetrics;
+  outOfSample: SegmentMetrics;
+}
+
+export interface OverfittingDiagnostics {
+  trials: number;
+  bestSharpe: number; // Annualized in-sample Sharpe of the selected parameters
+  expectedMaxSharpe: number; // Annualized Sharpe the best of `trials` unskilled strategies would reach
+  deflatedSharpe: number; // Probability the selected Sharpe reflects skill (0-1)
+  pbo: number | null; // Probability of backtest overfitting (0-1); null when there is too little data
+  logits: number[]; // CSCV rank logits; mass below zero indicates overfitting
+}
+
+export interface WalkForwardResult {
+  windows: WalkForwardWindow[];
+  inSample: SegmentMetrics; // Training windows stitched together, with the parameters chosen in each
+  outOfSample: SegmentMetrics; // Test windows stitched together
+  outOfSampleEquity: { date: string; value: number }[];
+  efficiency: number; // Annualized out-of-sample return / annualized in-sample return
+  selectionCounts: Record<string, number>; // How often each parameter set was chosen
+  holdout: {
+    startDate: string;
+    endDate: string;
+    params: StrategyParameters;
+    inSample: SegmentMetrics;
+    outOfSample: SegmentMetrics;
+  } | null;
+  overfitting: OverfittingDiagnostics;
+}
+
+const TRADING_DAYS = 252;
+const EULER_MASCHERONI = 0.5772156649;
+
+const rule = (left: Operand, operator: ConditionOperator, right: Operand): StrategyCondition => ({ left, operator, right });
+
+export const PARAMETER_SPACES: ParameterSpace[] = [
+  {
+    id: 'momentum',
+    name: 'Momentum',
+    description: 'Hold while the trailing return exceeds a threshold; exit when it turns negative',
+    grid: { lookback: [20, 60, 120, 252], threshold: [0, 5, 10] },
+    build: p => ({
+      version: STRATEGY_DSL_VERSION,
+      name: `Momentum ${p.lookback}d > ${p.threshold}%`,
+      entry: { logic: 'AND', conditions: [rule({ kind: 'momentum', period: p.lookback }, '>', { kind: 'constant', value: p.threshold })] },
+      exit: { logic: 'OR', conditions: [rule({ kind: 'momentum', period: p.lookback }, '<', { kind: 'constant', value: 0 })] },
+      sizing: { type: 'percent_equity', percent: 100 },
+    }),
+  },
+  {
+    id: 'rsi',
+    name: 'RSI Mean Reversion',
+    description: 'Buy when RSI is oversold and sell when it is overbought',
+    grid: { period: [7, 14, 21], oversold: [20, 25, 30], overbought: [65, 70, 80] },
+    build: p => ({
+      version: STRATEGY_DSL_VERSION,
+      name: `RSI(${p.period}) ${p.oversold}/${p.overbought}`,
+      entry: { logic: 'AND', conditions: [rule({ kind: 'rsi', period: p.period }, '<', { kind: 'constant', value: p.oversold })] },
+      exit: { logic: 'OR', conditions: [rule({ kind: 'rsi', period: p.period }, '>', { kind: 'constant', value: p.overbought })] },
+      sizing: { type: 'percent_equity', percent: 100 },
+    }),
+  },
+  {
+    id: 'ma_crossover',
+    name: 'Moving Average Crossover',
+    description: 'Hold while the fast moving average is above the slow one',
+    grid: { fast: [10, 20, 50], slow: [100, 150, 200] },
+    build: p => ({
+      version: STRATEGY_DSL_VERSION,
+      name: `SMA ${p.fast}/${p.slow}`,
+      entry: { logic: 'AND', conditions: [rule({ kind: 'sma', period: p.fast }, 'crosses_above', { kind: 'sma', period: p.slow })] },
+      exit: { logic: 'OR', conditions: [rule({ kind: 'sma', period: p.fast }, 'crosses_below', { kind: 'sma', period: p.slow })] },
+      sizing: { type: 'percent_equity', percent: 100 },
+    }),
+  },
+];
+
+// ============================================================================
+// Statistics helpers
+// ============================================================================
+
+// Abramowitz & Stegun 7.1.26, accurate to ~1e-7
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+}
+
+export function normalCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+// Acklam's rational approximation of the standard normal quantile
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Per-period (non-annualized) Sharpe ratio
+function periodSharpe(returns: number[]): number {
+  const sd = standardDeviation(returns);
+  return sd > 0 ? arithmeticMean(returns) / sd : 0;
+}
+
+/**
+ * Expected maximum Sharpe ratio among `trials` independent strategies with zero true Sharpe,
+ * given the variance of the trials' Sharpe ratios
+ */
+export function expectedMaxSharpe(trials: number, sharpeVariance: number): number {
+  if (trials <= 1 || sharpeVariance <= 0) return 0;
+  return Math.sqrt(sharpeVariance) * (
+    (1 - EULER_MASCHERONI) * normalQuantile(1 - 1 / trials) +
+    EULER_MASCHERONI * normalQuantile(1 - 1 / (trials * Math.E))
+  );
+}
+
+/**
+ * Deflated Sharpe ratio: probability that the observed per-period Sharpe exceeds the best Sharpe
+ * expected from `trials` unskilled strategies, correcting for sample length and non-normal returns
+ */
+export function deflatedSharpeRatio(
+  returns: number[],
+  trials: number,
+  sharpeVariance: number
+): { deflatedSharpe: number; benchmarkSharpe: number } {
+  const n = returns.length;
+  const sharpe = periodSharpe(returns);
+  const benchmarkSharpe = expectedMaxSharpe(trials, sharpeVariance);
+  if (n < 3) return { deflatedSharpe: 0, benchmarkSharpe };
+
+  const skew = calculateSkewness(returns);
+  const kurtosis = calculateKurtosis(returns) + 3;
+  const denominator = Math.sqrt(Math.max(1e-12, 1 - skew * sharpe + ((kurtosis - 1) / 4) * sharpe * sharpe));
+  return {
+    deflatedSharpe: normalCdf(((sharpe - benchmarkSharpe) * Math.sqrt(n - 1)) / denominator),
+    benchmarkSharpe,
+  };
+}
+
+function combinations(n: number, k: number): number[][] {
+  const result: number[][] = [];
+  const pick = (start: number, chosen: number[]) => {
+    if (chosen.length === k) {
+      result.push([...chosen]);
+      return;
+    }
+    for (let i = start; i <= n - (k - chosen.length); i++) {
+      chosen.push(i);
+      pick(i + 1, chosen);
+      chosen.pop();
+    }
+  };
+  pick(0, []);
+  return result;
+}
+
+/**
+ * Probability of backtest overfitting by combinatorially symmetric cross-validation.
+ * `returns[t][j]` is trial j's return in period t. The periods are cut into `partitions` blocks;
+ * for every half of the blocks used as in-sample, the best in-sample trial's rank in the other
+ * half is recorded as a logit. PBO is the share of splits where that trial ranks below the median.
+ */
+export function probabilityOfBacktestOverfitting(
+  returns: number[][],
+  partitions: number = 8
+): { pbo: number; logits: number[] } | null {
+  const periods = returns.length;
+  const trials = returns[0]?.length || 0;
+  if (trials < 2 || partitions < 2 || partitions % 2 !== 0 || periods < partitions * 2) return null;
+
+  const blockSize = Math.floor(periods / partitions);
+  const blocks = Array.from({ length: partitions }, (_, b) => returns.slice(b * blockSize, (b + 1) * blockSize));
+  const column = (rows: number[][], j: number) => rows.map(r => r[j]);
+
+  const logits = combinations(partitions, partitions / 2).map(inSampleBlocks => {
+    const inSample = inSampleBlocks.flatMap(b => blocks[b]);
+    const outOfSample = blocks.filter((_, b) => !inSampleBlocks.includes(b)).flat();
+
+    const isScores = Array.from({ length: trials }, (_, j) => periodSharpe(column(inSample, j)));
+    const oosScores = Array.from({ length: trials }, (_, j) => periodSharpe(column(outOfSample, j)));
+    const best = isScores.indexOf(Math.max(...isScores));
+
+    // Rank 1 = worst out of sample; ties share the lower rank
+    const rank = oosScores.filter(s => s < oosScores[best]).length + 1;
+    const omega = rank / (trials + 1);
+    return Math.log(omega / (1 - omega));
+  });
+
+  return { pbo: logits.filter(l => l <= 0).length / logits.length, logits };
+}
+
+// ============================================================================
+// Walk-forward
+// ============================================================================
+
+export function expandGrid(grid: ParameterGrid): StrategyParameters[] {
+  return Object.entries(grid).reduce<StrategyParameters[]>(
+    (combos, [name, values]) => combos.flatMap(combo => values.map(value => ({ ...combo, [name]: value }))),
+    [{}]
+  );
+}
+
+export function formatParameters(params: StrategyParameters): string {
+  return Object.entries(params).map(([name, value]) => `${name} ${value}`).join(', ');
+}
+
+export function walkForwardWindows(
+  totalBars: number,
+  trainBars: number,
+  testBars: number,
+  anchored: boolean = false
+): { trainStart: number; trainEnd: number; testStart: number; testEnd: number }[] {
+  const windows: { trainStart: number; trainEnd: number; testStart: number; testEnd: number }[] = [];
+  for (let testStart = trainBars; testStart < totalBars; testStart += testBars) {
+    windows.push({
+      trainStart: anchored ? 0 : testStart - trainBars,
+      trainEnd: testStart - 1,
+      testStart,
+      testEnd: Math.min(testStart + testBars, totalBars) - 1,
+    });
+  }
+  return windows;
+}
+
+export function segmentMetrics(returns: number[]): SegmentMetrics {
+  const values = [1];
+  returns.forEach(r => values.push(values[values.length - 1] * (1 + r)));
+  const growth = values[values.length - 1];
+  const years = returns.length / TRADING_DAYS;
+  return {
+    totalReturn: (growth - 1) * 100,
+    cagr: years > 0 && growth > 0 ? (Math.pow(growth, 1 / years) - 1) * 100 : 0,
+    sharpeRatio: calculateSharpeRatio(returns),
+    volatility: annualizedVolatility(returns) * 100,
+    maxDrawdownPercent: calculateMaxDrawdown(values).maxDrawdownPercent,
+    days: returns.length,
+  };
+}
+
+function objectiveScore(returns: number[], objective: WalkForwardObjective): number {
+  if (returns.length < 2) return -Infinity;
+  if (objective === 'sortino') return calculateSortinoRatio(returns);
+  if (objective === 'cagr') return segmentMetrics(returns).cagr;
+  return calculateSharpeRatio(returns);
+}
+
+function sliceBars(barsBySymbol: Record<string, StrategyBar[]>, startDate: string, endDate: string) {
+  return Object.fromEntries(
+    Object.entries(barsBySymbol).map(([symbol, bars]) => [symbol, bars.filter(b => b.date >= startDate && b.date <= endDate)])
+  );
+}
+
+/**
+ * Run `definition` from `startDate` (indicator warm-up and positions carry over) and return the
+ * daily returns on each of `dates`
+ */
+function returnsOn(
+  definition: StrategyDefinition,
+  barsBySymbol: Record<string, StrategyBar[]>,
+  startDate: string,
+  dates: string[],
+  initialCapital: number,
+  costModel: CostModel
+): number[] {
+  const { equity } = backtestStrategy(definition, sliceBars(barsBySymbol, startDate, dates[dates.length - 1]), {
+    initialCapital,
+    costModel,
+  });
+  const valueByDate = new Map(equity.map(e => [e.date, e.value]));
+  const index = new Map(equity.map((e, i) => [e.date, i]));
+  return dates.map(date => {
+    const i = index.get(date);
+    if (i === undefined || i === 0) return 0;
+    const previous = equity[i - 1].value;
+    return previous > 0 ? (valueByDate.get(date)! / previous) - 1 : 0;
+  });
+}
+
+/**
+ * Walk-forward analysis with an untouched holdout and overfitting diagnostics for one parameter space
+ */
+export function runWalkForward(
+  space: ParameterSpace,
+  barsBySymbol: Record<string, StrategyBar[]>,
+  options: WalkForwardOptions
+): WalkForwardResult {
+  const {
+    trainBars,
+    testBars,
+    anchored = false,
+    holdoutFraction = 0.2,
+    objective = 'sharpe',
+    initialCapital = 100000,
+    costModel = NO_COSTS,
+    pboPartitions = 8,
+  } = options;
+
+  const dates = [...new Set(Object.values(barsBySymbol).flatMap(bars => bars.map(b => b.date)))].sort();
+  const holdoutBars = Math.floor(dates.length * Math.max(0, Math.min(0.5, holdoutFraction)));
+  const selectionDates = dates.slice(0, dates.length - holdoutBars);
+  if (selectionDates.length < trainBars + Math.min(testBars, 20)) {
+    throw new Error(`Need at least ${trainBars + Math.min(testBars, 20)} trading days before the holdout (have ${selectionDates.length})`);
+  }
+
+  const combos = expandGrid(space.grid);
+  const definitions = combos.map(space.build);
+  const run = (i: number, from: string, on: string[]) => returnsOn(definitions[i], barsBySymbol, from, on, initialCapital, costModel);
+  const best = (from: string, on: string[]) => {
+    const trialReturns = definitions.map((_, i) => run(i, from, on));
+    const scores = trialReturns.map(r => objectiveScore(r, objective));
+    const index = scores.indexOf(Math.max(...scores));
+    return { index, returns: trialReturns[index], trialReturns };
+  };
+
+  // Rolling selection and out-of-sample scoring
+  const windows: WalkForwardWindow[] = [];
+  const selectionCounts: Record<string, number> = {};
+  const isReturns: number[] = [];
+  const oosReturns: number[] = [];
+  const oosDates: string[] = [];
+
+  for (const w of walkForwardWindows(selectionDates.length, trainBars, testBars, anchored)) {
+    const trainDates = selectionDates.slice(w.trainStart, w.trainEnd + 1);
+    const testDates = selectionDates.slice(w.testStart, w.testEnd + 1);
+    const chosen = best(trainDates[0], trainDates.slice(1));
+    const testReturns = run(chosen.index, trainDates[0], testDates);
+
+    const key = formatParameters(combos[chosen.index]);
+    selectionCounts[key] = (selectionCounts[key] || 0) + 1;
+    isReturns.push(...chosen.returns);
+    oosReturns.push(...testReturns);
+    oosDates.push(...testDates);
+    windows.push({
+      trainStart: trainDates[0],
+      trainEnd: trainDates[trainDates.length - 1],
+      testStart: testDates[0],
+      testEnd: testDates[testDates.length - 1],
+      params: combos[chosen.index],
+      inSample: segmentMetrics(chosen.returns),
+      outOfSample: segmentMetrics(testReturns),
+    });
+  }
+
+  let value = initialCapital;
+  const outOfSampleEquity = oosDates.map((date, i) => {
+    value *= 1 + oosReturns[i];
+    return { date, value };
+  });
+
+  // Selection over the whole pre-holdout span: the trials feed the overfitting diagnostics
+  const fullSelection = best(selectionDates[0], selectionDates.slice(1));
+  const sharpes = fullSelection.trialReturns.map(periodSharpe);
+  const { deflatedSharpe, benchmarkSharpe } = deflatedSharpeRatio(
+    fullSelection.returns,
+    combos.length,
+    standardDeviation(sharpes) ** 2
+  );
+  const matrix = fullSelection.returns.map((_, t) => fullSelection.trialReturns.map(r => r[t]));
+  const cscv = probabilityOfBacktestOverfitting(matrix, pboPartitions);
+
+  // Holdout: parameters chosen on everything before it, scored once on data never used for selection
+  let holdout: WalkForwardResult['holdout'] = null;
+  if (holdoutBars > 1) {
+    const holdoutDates = dates.slice(dates.length - holdoutBars);
+    holdout = {
+      startDate: holdoutDates[0],
+      endDate: holdoutDates[holdoutDates.length - 1],
+      params: combos[fullSelection.index],
+      inSample: segmentMetrics(fullSelection.returns),
+      outOfSample: segmentMetrics(run(fullSelection.index, selectionDates[0], holdoutDates)),
+    };
+  }
+
+  const inSample = segmentMetrics(isReturns);
+  const outOfSample = segmentMetrics(oosReturns);
+
+  return {
+    windows,
+    inSample,
+    outOfSample,
+    outOfSampleEquity,
+    efficiency: inSample.cagr !== 0 ? outOfSample.cagr / inSample.cagr : 0,
+    selectionCounts,
+    holdout,
+    overfitting: {
+      trials: combos.length,
+      bestSharpe: calculateSharpeRatio(fullSelection.returns),
+      expectedMaxSharpe: benchmarkSharpe * Math.sqrt(TRADING_DAYS),
+      deflatedSharpe,
+      pbo: cscv?.pbo ?? null,
+      logits: cscv?.logits ?? [],
+    },
+  };
+}
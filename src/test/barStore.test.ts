@@ -0,0 +1,190 @@
+/**
+ * Unit Tests for the persistent bar store
+ * Held-range bookkeeping, gap-only fetching, database/API fallback, today's bar and LRU eviction
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { addDays, format, isWeekend, parseISO } from 'date-fns';
+import { BarSources, BarStore, MemoryBarBackend, mergeRanges, missingRanges } from '@/services/barStoreService';
+import type { ProviderBar } from '@/services/marketDataRouter';
+
+const NOW = new Date(2024, 5, 12, 15, 0).getTime(); // Wednesday 12 June 2024, market open
+
+const weekdays = (start: string, end: string) => {
+  const dates: string[] = [];
+  for (let d = parseISO(start); format(d, 'yyyy-MM-dd') <= end; d = addDays(d, 1)) {
+    if (!isWeekend(d)) dates.push(format(d, 'yyyy-MM-dd'));
+  }
+  return dates;
+};
+
+const bars = (start: string, end: string, close = 100): ProviderBar[] =>
+  weekdays(start, end).map(date => ({ date, open: close, high: close, low: close, close, volume: 1000 }));
+
+/**
+ * The database holds each listed ticker from its first date through yesterday; the API has anything asked of it
+ */
+function setup(listed: Record<string, string>, options: { budgetBytes?: number; apiFails?: boolean } = {}) {
+  let clock = NOW;
+  const sources: BarSources = {
+    database: vi.fn(async (tickers: string[], range) => {
+      const found = new Map<string, ProviderBar[]>();
+      tickers.forEach(t => {
+        if (!listed[t]) return;
+        const start = range.start > listed[t] ? range.start : listed[t];
+        const end = range.end < '2024-06-11' ? range.end : '2024-06-11';
+        const held = bars(start, end);
+        if (held.length > 0) found.set(t, held);
+      });
+      return found;
+    }),
+    api: vi.fn(async (ticker: string, range) => (options.apiFails ? null : { bars: bars(range.start, range.end, 200), provider: 'polygon' as const })),
+  };
+  const store = new BarStore({ backend: new MemoryBarBackend(), sources, budgetBytes: options.budgetBytes, now: () => clock });
+  return {
+    store,
+    sources,
+    advance: (ms: number) => {
+      clock += ms;
+    },
+  };
+}
+
+describe('Bar Store', () => {
+  describe('ranges', () => {
+    it('should merge overlapping and touching ranges', () => {
+      expect(
+        mergeRanges([
+          { start: '2024-03-01', end: '2024-03-10' },
+          { start: '2024-01-01', end: '2024-01-31' },
+          { start: '2024-02-01', end: '2024-02-15' },
+          { start: '2024-03-05', end: '2024-03-08' },
+        ])
+      ).toEqual([
+        { start: '2024-01-01', end: '2024-02-15' },
+        { start: '2024-03-01', end: '2024-03-10' },
+      ]);
+    });
+
+    it('should find the gaps a request leaves', () => {
+      const held = [
+        { start: '2024-02-01', end: '2024-02-29' },
+        { start: '2024-04-01', end: '2024-04-30' },
+      ];
+      expect(missingRanges(held, { start: '2024-01-15', end: '2024-05-10' })).toEqual([
+        { start: '2024-01-15', end: '2024-01-31' },
+        { start: '2024-03-01', end: '2024-03-31' },
+        { start: '2024-05-01', end: '2024-05-10' },
+      ]);
+      expect(missingRanges(held, { start: '2024-02-10', end: '2024-02-20' })).toEqual([]);
+    });
+  });
+
+  describe('getBars', () => {
+    it('should serve a repeated request from the store without fetching', async () => {
+      const { store, sources } = setup({ SPY: '2000-01-03', BND: '2000-01-03' });
+      const first = await store.getBars(['spy', 'BND'], '2024-01-02', '2024-03-29');
+      expect(first.get('SPY')).toMatchObject({ source: 'database', complete: true });
+      expect(first.get('SPY')!.bars).toHaveLength(64);
+      expect(sources.database).toHaveBeenCalledTimes(1);
+
+      const again = await store.getBars(['SPY', 'BND'], '2024-02-01', '2024-03-15');
+      expect(again.get('BND')).toMatchObject({ source: 'store', complete: true });
+      expect(again.get('BND')!.bars[0].date).toBe('2024-02-01');
+      expect(sources.database).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch only the dates it does not hold', async () => {
+      const { store, sources } = setup({ SPY: '2000-01-03' });
+      await store.getBars(['SPY'], '2024-02-01', '2024-02-29');
+      const result = await store.getBars(['SPY'], '2024-01-02', '2024-03-29');
+
+      expect(vi.mocked(sources.database).mock.calls.map(([, range]) => range)).toEqual([
+        { start: '2024-02-01', end: '2024-02-29' },
+        { start: '2024-01-02', end: '2024-01-31' },
+        { start: '2024-03-01', end: '2024-03-29' },
+      ]);
+      expect(result.get('SPY')!.bars).toHaveLength(64);
+    });
+
+    it('should go to the API only for tickers the database cannot cover', async () => {
+      const { store, sources } = setup({ SPY: '2000-01-03', NEW: '2024-03-01' });
+      const result = await store.getBars(['SPY', 'NEW', 'ZZZ'], '2024-01-02', '2024-03-29');
+
+      expect(sources.database).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(sources.api).mock.calls.map(([t]) => t)).toEqual(['NEW', 'ZZZ']);
+      expect(result.get('SPY')!.source).toBe('database');
+      expect(result.get('NEW')).toMatchObject({ source: 'api', provider: 'polygon' });
+      expect(result.get('NEW')!.bars[0].date).toBe('2024-01-02');
+    });
+
+    it('should not record ranges it failed to fetch', async () => {
+      const { store, sources } = setup({}, { apiFails: true });
+      const result = await store.getBars(['ZZZ'], '2024-01-02', '2024-01-31');
+      expect(result.get('ZZZ')).toMatchObject({ complete: false, bars: [] });
+
+      await store.getBars(['ZZZ'], '2024-01-02', '2024-01-31');
+      expect(sources.api).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip gaps that are only a weekend', async () => {
+      const { store, sources } = setup({ SPY: '2000-01-03' });
+      await store.getBars(['SPY'], '2024-01-08', '2024-01-12');
+      await store.getBars(['SPY'], '2024-01-06', '2024-01-12');
+      expect(sources.database).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-check today only once the tail has gone stale', async () => {
+      const { store, sources, advance } = setup({ SPY: '2000-01-03' });
+      const first = await store.getBars(['SPY'], '2024-06-03', '2024-06-30');
+      // Through yesterday from the database; today's bar does not exist yet
+      expect(first.get('SPY')!.bars.map(b => b.date).slice(-1)).toEqual(['2024-06-11']);
+      expect(sources.api).not.toHaveBeenCalled();
+
+      await store.getBars(['SPY'], '2024-06-03', '2024-06-12');
+      expect(sources.database).toHaveBeenCalledTimes(1);
+
+      advance(20 * 60 * 1000);
+      const later = await store.getBars(['SPY'], '2024-06-03', '2024-06-12');
+      expect(vi.mocked(sources.database).mock.calls[1][1]).toEqual({ start: '2024-06-12', end: '2024-06-12' });
+      expect(sources.api).not.toHaveBeenCalled();
+      expect(later.get('SPY')).toMatchObject({ complete: true });
+      expect(later.get('SPY')!.bars).toHaveLength(7);
+    });
+
+    it('should ask again for recent days the database has not synced yet', async () => {
+      const { store, sources } = setup({ SPY: '2000-01-03' });
+      vi.mocked(sources.database).mockImplementationOnce(async () => new Map([['SPY', bars('2024-05-01', '2024-06-07')]]));
+      await store.getBars(['SPY'], '2024-05-01', '2024-06-11');
+
+      const result = await store.getBars(['SPY'], '2024-05-01', '2024-06-11');
+      expect(vi.mocked(sources.database).mock.calls[1][1]).toEqual({ start: '2024-06-08', end: '2024-06-11' });
+      expect(result.get('SPY')!.bars.map(b => b.date).slice(-2)).toEqual(['2024-06-10', '2024-06-11']);
+    });
+
+    it('should refetch everything when forced', async () => {
+      const { store, sources } = setup({ SPY: '2000-01-03' });
+      await store.getBars(['SPY'], '2024-01-02', '2024-01-31');
+      await store.getBars(['SPY'], '2024-01-02', '2024-01-31', { forceRefresh: true });
+      expect(sources.database).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict the least recently used series once over budget', async () => {
+      const { store, advance } = setup({ AAA: '2000-01-03', BBB: '2000-01-03', CCC: '2000-01-03' }, { budgetBytes: 2 * 23 * 80 });
+      await store.getBars(['AAA'], '2024-01-01', '2024-01-31');
+      advance(1000);
+      await store.getBars(['BBB'], '2024-01-01', '2024-01-31');
+      advance(1000);
+      await store.getBars(['AAA'], '2024-01-01', '2024-01-31'); // AAA is now more recent than BBB
+      advance(1000);
+      await store.getBars(['CCC'], '2024-01-01', '2024-01-31');
+
+      expect(await store.getStats()).toMatchObject({ series: 2, bars: 46 });
+      const kept = await store.getBars(['AAA', 'CCC'], '2024-01-01', '2024-01-31');
+      expect([...kept.values()].map(r => r.source)).toEqual(['store', 'store']);
+      expect((await store.getBars(['BBB'], '2024-01-01', '2024-01-31')).get('BBB')!.source).toBe('database');
+    });
+  });
+});
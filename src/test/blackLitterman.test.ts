@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for Black-Litterman views
+ * Absolute and relative views, Idzorek confidence calibration and the view-consistency statistic
+ */
+
+import { describe, it, expect } from 'vitest';
+import { blackLittermanOptimizer } from '@/services/blackLittermanOptimizer';
+import { MarketView } from '@/types/portfolio';
+
+const symbols = ['QQQ', 'TLT', 'GLD'];
+const covariance = [
+  [0.04, -0.006, 0.002],
+  [-0.006, 0.0225, 0.003],
+  [0.002, 0.003, 0.0225],
+];
+const priorWeights = new Map([['QQQ', 0.5], ['TLT', 0.3], ['GLD', 0.2]]);
+
+const view = (overrides: Partial<MarketView>): MarketView => ({
+  id: 'v1',
+  asset: 'QQQ',
+  versus: 'TLT',
+  expectedReturn: 0.03,
+  confidence: 1,
+  ...overrides,
+});
+
+const apply = (views: MarketView[]) => blackLittermanOptimizer.applyViews(symbols, covariance, views, priorWeights);
+
+describe('Black-Litterman', () => {
+  describe('applyViews', () => {
+    it('should reproduce the equilibrium when there are no usable views', () => {
+      const result = apply([view({ asset: 'SPY' }), view({ id: 'v2', confidence: 0 })]);
+      // Reverse optimization: π = δΣw
+      expect(result.priorReturns.get('QQQ')).toBeCloseTo(2.5 * (0.04 * 0.5 - 0.006 * 0.3 + 0.002 * 0.2), 12);
+      expect(result.posteriorReturns).toEqual(result.priorReturns);
+      expect(result.consistency).toBeNull();
+      expect(result.ignoredViews.map(i => i.reason)).toEqual(['SPY is not in the portfolio', 'Zero confidence']);
+    });
+
+    it('should impose a fully confident relative view exactly', () => {
+      const result = apply([view({})]);
+      const spread = result.posteriorReturns.get('QQQ')! - result.posteriorReturns.get('TLT')!;
+      expect(spread).toBeCloseTo(0.03, 10);
+      expect(result.views[0].posteriorImplied).toBeCloseTo(0.03, 10);
+
+      // A relative view moves weight between its two legs only
+      const total = Array.from(result.posteriorWeights.values()).reduce((a, b) => a + b, 0);
+      expect(total).toBeCloseTo(1, 12);
+      expect(result.weightDeltas.get('GLD')).toBeCloseTo(0, 12);
+      expect(result.weightDeltas.get('QQQ')).toBeCloseTo(-result.weightDeltas.get('TLT')!, 12);
+    });
+
+    it('should scale the weight tilt with Idzorek confidence', () => {
+      const full = apply([view({ confidence: 1 })]).weightDeltas.get('QQQ')!;
+      const half = apply([view({ confidence: 0.5 })]).weightDeltas.get('QQQ')!;
+      const quarter = apply([view({ confidence: 0.25 })]).weightDeltas.get('QQQ')!;
+      expect(half / full).toBeCloseTo(0.5, 10);
+      expect(quarter / full).toBeCloseTo(0.25, 10);
+    });
+
+    it('should attribute posterior changes to each view', () => {
+      const result = apply([view({}), view({ id: 'v2', asset: 'GLD', versus: undefined, expectedReturn: 0.08, confidence: 0.6 })]);
+      symbols.forEach(s => {
+        const byView = result.views.reduce((sum, d) => sum + d.returnImpact.get(s)!, 0);
+        expect(result.priorReturns.get(s)! + byView).toBeCloseTo(result.posteriorReturns.get(s)!, 12);
+        const tilt = result.views.reduce((sum, d) => sum + d.weightImpact.get(s)!, 0);
+        expect(tilt).toBeCloseTo(result.weightDeltas.get(s)!, 12);
+      });
+    });
+
+    it('should flag views that contradict the prior', () => {
+      const prior = apply([]).priorReturns;
+      const agreeing = apply([view({ expectedReturn: prior.get('QQQ')! - prior.get('TLT')! })]).consistency!;
+      expect(agreeing.statistic).toBeCloseTo(0, 10);
+      expect(agreeing.pValue).toBeCloseTo(1, 10);
+
+      const extreme = apply([view({ expectedReturn: 0.4 })]).consistency!;
+      expect(extreme.degreesOfFreedom).toBe(1);
+      expect(extreme.pValue).toBeLessThan(0.01);
+
+      // One degree of freedom: χ² = z², and 3.841 is the 5% critical value
+      const result = apply([view({ expectedReturn: 0.15, confidence: 0.5 })]);
+      const [diagnostics] = result.views;
+      expect(result.consistency!.statistic).toBeCloseTo(diagnostics.zScore ** 2, 10);
+      const sd = (0.15 - diagnostics.priorImplied) / diagnostics.zScore;
+      const atCritical = apply([view({ expectedReturn: diagnostics.priorImplied + Math.sqrt(3.841458820694124) * sd, confidence: 0.5 })]);
+      expect(atCritical.consistency!.pValue).toBeCloseTo(0.05, 6);
+    });
+  });
+});
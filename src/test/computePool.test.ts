@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for off-main-thread computation
+ * Seeded random numbers, reproducible Monte Carlo and frontier runs, and the compute pool's
+ * main-thread fallback with progress and cancellation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+import { createNormalSampler, createRng, hashSeed } from '@/services/seededRandom';
+import { simulateMonteCarlo } from '@/services/monteCarloService';
+import { generateEfficientFrontier } from '@/services/efficientFrontierService';
+import { BacktestConfig, BacktestEngine } from '@/services/backtestEngine';
+import { HistoricalDataPoint } from '@/services/backtesterService';
+import { AssetData } from '@/services/portfolioOptimizer';
+import { isCancelledError, runComputeJob } from '@/services/computePoolService';
+
+const monteCarloParams = {
+  initialCapital: 100000,
+  annualReturn: 0.07,
+  annualVolatility: 0.15,
+  numSimulations: 200,
+  projectionYears: 3,
+};
+
+const asset = (ticker: string, avgReturn: number, volatility: number): AssetData => ({
+  ticker,
+  avgReturn,
+  volatility,
+  skewness: 0,
+  kurtosis: 3,
+  volume: 1000000,
+});
+
+const frontierInputs = () => ({
+  correlationMatrix: { symbols: ['AAA', 'BBB', 'CCC'], matrix: [[1, 0.3, 0.1], [0.3, 1, 0.2], [0.1, 0.2, 1]] },
+  assetData: new Map([
+    ['AAA', asset('AAA', 0.06, 0.1)],
+    ['BBB', asset('BBB', 0.09, 0.2)],
+    ['CCC', asset('CCC', 0.12, 0.3)],
+  ]),
+});
+
+const priceHistory = (days: number, drift: number): HistoricalDataPoint[] =>
+  Array.from({ length: days }, (_, i) => ({
+    date: new Date(Date.UTC(2023, 0, 2) + i * 86400000).toISOString().split('T')[0],
+    price: 100 * Math.pow(1 + drift, i) * (1 + 0.01 * Math.sin(i / 3)),
+    volume: 1000000,
+  }));
+
+describe('Compute Pool', () => {
+  describe('seededRandom', () => {
+    it('should replay the same stream for the same seed', () => {
+      const a = createRng(42);
+      const b = createRng(42);
+      const c = createRng(43);
+      const first = Array.from({ length: 5 }, a);
+      expect(Array.from({ length: 5 }, b)).toEqual(first);
+      expect(Array.from({ length: 5 }, c)).not.toEqual(first);
+      first.forEach(u => {
+        expect(u).toBeGreaterThanOrEqual(0);
+        expect(u).toBeLessThan(1);
+      });
+    });
+
+    it('should draw roughly standard normal variates', () => {
+      const normal = createNormalSampler(createRng(7));
+      const draws = Array.from({ length: 20000 }, normal);
+      const mean = draws.reduce((s, z) => s + z, 0) / draws.length;
+      const variance = draws.reduce((s, z) => s + (z - mean) ** 2, 0) / draws.length;
+      expect(mean).toBeCloseTo(0, 1);
+      expect(variance).toBeCloseTo(1, 1);
+    });
+
+    it('should hash equal inputs to equal seeds', () => {
+      expect(hashSeed([1, 'a'])).toBe(hashSeed([1, 'a']));
+      expect(hashSeed([1, 'a'])).not.toBe(hashSeed([1, 'b']));
+    });
+  });
+
+  describe('simulateMonteCarlo', () => {
+    it('should reproduce identical paths for identical inputs', () => {
+      const first = simulateMonteCarlo(monteCarloParams);
+      const second = simulateMonteCarlo(monteCarloParams);
+      expect(second).toEqual(first);
+      expect(simulateMonteCarlo({ ...monteCarloParams, seed: first.seed })).toEqual(first);
+      expect(simulateMonteCarlo({ ...monteCarloParams, seed: first.seed + 1 }).finalValues).not.toEqual(first.finalValues);
+    });
+
+    it('should order percentiles and report progress', () => {
+      const onProgress = vi.fn();
+      const result = simulateMonteCarlo(monteCarloParams, onProgress);
+      expect(result.percentile5).toHaveLength(4);
+      expect(result.percentile5[0]).toBe(100000);
+      expect(result.percentile5[3]).toBeLessThan(result.percentile50[3]);
+      expect(result.percentile50[3]).toBeLessThan(result.percentile95[3]);
+      expect(onProgress).toHaveBeenLastCalledWith('Complete!', 100);
+    });
+  });
+
+  describe('generateEfficientFrontier', () => {
+    it('should return the same frontier for the same universe', () => {
+      const { correlationMatrix, assetData } = frontierInputs();
+      const first = generateEfficientFrontier(correlationMatrix, assetData, 500);
+      const second = generateEfficientFrontier(correlationMatrix, assetData, 500);
+      expect(second).toEqual(first);
+      expect(first.length).toBeGreaterThan(1);
+    });
+  });
+
+  describe('runComputeJob', () => {
+    it('should run jobs on the main thread when workers are unavailable', async () => {
+      const onProgress = vi.fn();
+      const result = await runComputeJob({ type: 'monteCarlo', params: monteCarloParams }, { onProgress });
+      expect(result).toEqual(simulateMonteCarlo(monteCarloParams));
+      expect(onProgress).toHaveBeenCalled();
+    });
+
+    it('should simulate a backtest over preloaded market data', async () => {
+      const config: BacktestConfig = {
+        tickers: ['AAA', 'BBB'],
+        startDate: '2023-01-02',
+        endDate: '2023-04-30',
+        initialCapital: 100000,
+        rebalanceFrequency: 'monthly',
+        regimeLookback: 60,
+        taxRate: { shortTerm: 0.35, longTerm: 0.15 },
+      };
+      const data = {
+        prices: new Map([['AAA', priceHistory(90, 0.001)], ['BBB', priceHistory(90, 0.002)]]),
+        corporateActions: [],
+      };
+
+      const pooled = await runComputeJob({ type: 'backtest', params: { config, data } });
+      const local = new BacktestEngine(config).simulate(data);
+      expect(pooled.snapshots).toHaveLength(89);
+      expect(pooled.metrics.totalReturn).toBeCloseTo(local.metrics.totalReturn);
+    });
+
+    it('should reject with an AbortError when cancelled', async () => {
+      const controller = new AbortController();
+      const job = runComputeJob(
+        { type: 'monteCarlo', params: { ...monteCarloParams, numSimulations: 2000 } },
+        { signal: controller.signal, onProgress: () => controller.abort() }
+      );
+      await expect(job).rejects.toSatisfy(isCancelledError);
+
+      const aborted = new AbortController();
+      aborted.abort();
+      await expect(runComputeJob({ type: 'monteCarlo', params: monteCarloParams }, { signal: aborted.signal })).rejects.toSatisfy(
+        isCancelledError
+      );
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for corporate-action-aware price history
+ * Price bases, total returns, restating stale split history and validation of large one-day moves
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  adjustBars,
+  CorporateAction,
+  dividendsByBar,
+  restateStaleSplits,
+  splitAdjustDividends,
+  totalReturnIndex,
+  totalReturns,
+} from '@/services/corporateActionService';
+import { validateTickerData } from '@/services/dataValidationService';
+
+const bar = (date: string, close: number, volume = 1000) => ({ date, open: close, high: close, low: close, close, volume });
+const split = (date: string, value: number): CorporateAction => ({ symbol: 'XYZ', date, type: 'split', value });
+const dividend = (date: string, value: number): CorporateAction => ({ symbol: 'XYZ', date, type: 'dividend', value });
+
+const validationBars = (closes: [string, number][]) =>
+  closes.map(([date, c]) => ({ t: Date.parse(`${date}T00:00:00Z`), o: c, h: c, l: c, c, v: 1000 }));
+
+describe('Corporate Actions', () => {
+  describe('price bases', () => {
+    it('should restate split-adjusted bars as traded', () => {
+      const bars = [bar('2024-06-03', 50), bar('2024-06-04', 50.5), bar('2024-06-05', 51), bar('2024-06-06', 52)];
+      const unadjusted = adjustBars(bars, [split('2024-06-05', 2)], 'unadjusted');
+
+      expect(unadjusted.map(b => b.close)).toEqual([100, 101, 51, 52]);
+      expect(unadjusted.map(b => b.volume)).toEqual([500, 500, 1000, 1000]);
+      expect(adjustBars(bars, [split('2024-06-05', 2)], 'split')).toBe(bars);
+    });
+
+    it('should back-adjust for dividends so the total-return basis compounds like the index', () => {
+      const bars = [bar('2024-06-03', 100), bar('2024-06-04', 102), bar('2024-06-05', 100), bar('2024-06-06', 101)];
+      const actions = [dividend('2024-06-05', 2)];
+
+      expect(totalReturns(bars, actions)).toEqual([undefined, 0.02, 0, 0.01]);
+      const index = totalReturnIndex(bars, actions).map(p => p.value);
+      expect(index[3]).toBeCloseTo(103.02, 10);
+
+      const adjusted = adjustBars(bars, actions, 'total').map(b => b.close);
+      expect(adjusted[1]).toBeCloseTo(100, 10);
+      expect(adjusted[3]).toBe(101);
+      expect(adjusted[3] / adjusted[0]).toBeCloseTo(index[3] / 100, 10);
+    });
+
+    it('should apply an ex-date missing from the calendar on the next trading day', () => {
+      const bars = [bar('2024-06-07', 100), bar('2024-06-10', 99)];
+      expect(dividendsByBar(bars, [dividend('2024-06-08', 1)])).toEqual([0, 1]);
+    });
+
+    it('should restate dividends onto the share basis of later splits', () => {
+      const actions = splitAdjustDividends([dividend('2024-01-10', 1), split('2024-06-10', 4), dividend('2024-08-12', 0.5)]);
+      expect(actions.map(a => a.value)).toEqual([0.25, 4, 0.5]);
+    });
+  });
+
+  describe('stale split history', () => {
+    it('should divide history stored before a split by its ratio', () => {
+      const stored = [bar('2024-06-03', 200), bar('2024-06-04', 202), bar('2024-06-05', 101), bar('2024-06-06', 102)];
+      const { bars, restated } = restateStaleSplits(stored, [split('2024-06-05', 2)]);
+
+      expect(restated).toHaveLength(1);
+      expect(bars.map(b => b.close)).toEqual([100, 101, 101, 102]);
+      expect(bars[0].volume).toBe(2000);
+    });
+
+    it('should leave history that is already split-adjusted alone', () => {
+      const stored = [bar('2024-06-03', 100), bar('2024-06-04', 101), bar('2024-06-05', 101), bar('2024-06-06', 102)];
+      const { bars, restated } = restateStaleSplits(stored, [split('2024-06-05', 2)]);
+
+      expect(restated).toEqual([]);
+      expect(bars).toBe(stored);
+    });
+  });
+
+  describe('validation', () => {
+    it('should flag a large move no corporate action explains', () => {
+      const data = validationBars([['2024-06-03', 100], ['2024-06-04', 101], ['2024-06-05', 50], ['2024-06-06', 51]]);
+      const result = validateTickerData('XYZ', data);
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues[0]).toMatch(/1 one-day move over 25% with no known split or dividend \(largest -50\.5% on 2024-06-05\)/);
+      expect(result.priceJumps).toEqual([{ date: '2024-06-05', change: expect.closeTo(-0.505, 3), action: null }]);
+    });
+
+    it('should explain a drop matching a special dividend', () => {
+      const data = validationBars([['2024-06-03', 100], ['2024-06-04', 100], ['2024-06-05', 69], ['2024-06-06', 70]]);
+      const result = validateTickerData('XYZ', data, undefined, [dividend('2024-06-05', 30)]);
+
+      expect(result.isValid).toBe(true);
+      expect(result.priceJumps![0].action).toMatchObject({ type: 'dividend', value: 30 });
+    });
+
+    it('should report history that was not adjusted for a known split', () => {
+      const data = validationBars([['2024-06-03', 200], ['2024-06-04', 202], ['2024-06-05', 101], ['2024-06-06', 102]]);
+      const result = validateTickerData('XYZ', data, undefined, [split('2024-06-05', 2)]);
+
+      expect(result.issues).toEqual(['Prices not split-adjusted around 2-for-1 split on 2024-06-05']);
+      expect(result.priceJumps![0].action).toMatchObject({ type: 'split', value: 2 });
+    });
+  });
+});
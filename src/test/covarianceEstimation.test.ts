@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for covariance estimation
+ * Sample, Ledoit-Wolf, EWMA and PCA estimators, diagnostics and insufficient-history errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  covarianceDiagnostics,
+  covarianceFromCorrelation,
+  estimateCovariance,
+  symmetricEigen,
+} from '@/services/covarianceEstimationService';
+import { computeEfficientFrontier } from '@/services/efficientFrontierService';
+import { createNormalSampler, createRng } from '@/services/seededRandom';
+import { AssetData } from '@/services/portfolioOptimizer';
+
+// Daily returns driven by one market factor plus idiosyncratic noise
+const factorReturns = (symbols: string[], days: number, seed = 1) => {
+  const normal = createNormalSampler(createRng(seed));
+  const series = new Map<string, number[]>(symbols.map(s => [s, []]));
+  for (let t = 0; t < days; t++) {
+    const market = 0.01 * normal();
+    symbols.forEach((s, i) => series.get(s)!.push((0.8 + 0.1 * i) * market + 0.002 * normal()));
+  }
+  return series;
+};
+
+describe('Covariance Estimation', () => {
+  describe('symmetricEigen', () => {
+    it('should decompose a symmetric matrix in descending order', () => {
+      const { values, vectors } = symmetricEigen([[2, 1], [1, 2]]);
+      expect(values[0]).toBeCloseTo(3, 10);
+      expect(values[1]).toBeCloseTo(1, 10);
+      expect(Math.abs(vectors[0][0])).toBeCloseTo(Math.SQRT1_2, 10);
+      expect(vectors[0][0] * vectors[0][1]).toBeGreaterThan(0);
+    });
+
+    it('should report condition number and effective rank', () => {
+      expect(covarianceDiagnostics([[4, 0], [0, 1]]).conditionNumber).toBeCloseTo(4, 10);
+      expect(covarianceDiagnostics([[1, 0, 0], [0, 1, 0], [0, 0, 1]]).effectiveRank).toBeCloseTo(3, 10);
+      expect(covarianceDiagnostics([[1, 1], [1, 1]]).conditionNumber).toBe(Infinity);
+    });
+  });
+
+  describe('estimateCovariance', () => {
+    it('should annualize the unbiased sample covariance', () => {
+      const returns = factorReturns(['A', 'B'], 100);
+      const a = returns.get('A')!;
+      const mean = a.reduce((s, r) => s + r, 0) / a.length;
+      const variance = a.reduce((s, r) => s + (r - mean) ** 2, 0) / (a.length - 1);
+
+      const estimate = estimateCovariance(['A', 'B'], returns, { method: 'sample' });
+      expect(estimate.covariance[0][0]).toBeCloseTo(variance * 252, 12);
+      expect(estimate.volatilities[0]).toBeCloseTo(Math.sqrt(variance * 252), 12);
+      expect(estimate.correlation[0][0]).toBeCloseTo(1, 12);
+      expect(estimate.correlation[0][1]).toBeGreaterThan(0.9);
+    });
+
+    it('should shrink a noisy sample covariance into a better-conditioned one', () => {
+      const symbols = Array.from({ length: 20 }, (_, i) => `S${i}`);
+      const returns = factorReturns(symbols, 70, 3);
+      const sample = estimateCovariance(symbols, returns, { method: 'sample' });
+      const shrunk = estimateCovariance(symbols, returns, { method: 'ledoitWolf' });
+
+      expect(shrunk.diagnostics.shrinkage).toBeGreaterThan(0);
+      expect(shrunk.diagnostics.shrinkage).toBeLessThan(1);
+      expect(shrunk.diagnostics.conditionNumber).toBeLessThan(sample.diagnostics.conditionNumber);
+      expect(shrunk.diagnostics.effectiveRank).toBeGreaterThan(sample.diagnostics.effectiveRank);
+    });
+
+    it('should weight recent volatility more heavily with EWMA', () => {
+      const normal = createNormalSampler(createRng(5));
+      // A calm year followed by a turbulent quarter
+      const a = Array.from({ length: 315 }, (_, t) => (t < 252 ? 0.005 : 0.03) * normal());
+      const b = Array.from({ length: 315 }, (_, t) => (t < 252 ? 0.005 : 0.03) * normal());
+      const returns = new Map([['A', a], ['B', b]]);
+
+      const sample = estimateCovariance(['A', 'B'], returns, { method: 'sample' });
+      const ewma = estimateCovariance(['A', 'B'], returns, { method: 'ewma', halfLife: 21 });
+      expect(ewma.volatilities[0]).toBeGreaterThan(sample.volatilities[0]);
+      // Mostly the turbulent regime's 0.03 daily volatility, up to sampling noise
+      expect(ewma.volatilities[0] / (0.03 * Math.sqrt(252))).toBeGreaterThan(0.7);
+      expect(sample.volatilities[0] / (0.03 * Math.sqrt(252))).toBeLessThan(0.6);
+      expect(ewma.diagnostics.effectiveObservations).toBeLessThan(ewma.diagnostics.observations);
+    });
+
+    it('should capture a one-factor market with a single principal component', () => {
+      const symbols = ['A', 'B', 'C', 'D', 'E'];
+      const returns = factorReturns(symbols, 250, 9);
+      const sample = estimateCovariance(symbols, returns, { method: 'sample' });
+      const pca = estimateCovariance(symbols, returns, { method: 'pca' });
+
+      expect(pca.diagnostics.numFactors).toBe(1);
+      expect(pca.diagnostics.explainedVariance).toBeGreaterThan(0.9);
+      symbols.forEach((_, i) => expect(pca.covariance[i][i]).toBeCloseTo(sample.covariance[i][i], 10));
+      expect(pca.correlation[0][1]).toBeCloseTo(sample.correlation[0][1], 1);
+    });
+
+    it('should explain why the history is insufficient', () => {
+      const symbols = Array.from({ length: 80 }, (_, i) => `S${i}`);
+      const returns = factorReturns(symbols, 70);
+      expect(() => estimateCovariance(symbols, returns, { method: 'sample' })).toThrow(
+        'Insufficient history for Sample covariance: 70 aligned observations, need at least 81'
+      );
+      expect(() => estimateCovariance(['S0'], returns, { method: 'ewma', halfLife: 63 })).toThrow(/need at least 126/);
+      expect(() => estimateCovariance(['S0', 'S1'], returns, { method: 'pca', numFactors: 2 })).toThrow(
+        'PCA factor model needs between 1 and 1 factors for 2 assets'
+      );
+
+      const flat = new Map([['A', returns.get('S0')!], ['B', new Array(70).fill(0)]]);
+      expect(() => estimateCovariance(['A', 'B'], flat, { method: 'sample' })).toThrow(/B has no return variation/);
+    });
+  });
+
+  describe('covarianceFromCorrelation', () => {
+    const asset = (ticker: string, volatility: number): AssetData => ({
+      ticker,
+      avgReturn: 0.08,
+      volatility,
+      skewness: 0,
+      kurtosis: 3,
+      volume: 1000000,
+    });
+
+    it('should refuse assets without a volatility instead of assuming one', () => {
+      const correlationMatrix = { symbols: ['A', 'B'], matrix: [[1, 0.5], [0.5, 1]] };
+      expect(covarianceFromCorrelation(correlationMatrix, new Map([['A', asset('A', 0.1)], ['B', asset('B', 0.2)]]))[0][1]).toBeCloseTo(0.01, 12);
+      expect(() => covarianceFromCorrelation(correlationMatrix, new Map([['A', asset('A', 0.1)]]))).toThrow(
+        'No volatility estimate for B'
+      );
+    });
+
+    it('should let the frontier use a supplied covariance estimate', () => {
+      const correlationMatrix = { symbols: ['A', 'B'], matrix: [[1, 0], [0, 1]] };
+      const assetData = new Map([['A', asset('A', 0.1)], ['B', asset('B', 0.1)]]);
+      // Estimated covariance says B is far riskier than the volatilities claim
+      const [minVariance] = computeEfficientFrontier(correlationMatrix, assetData, {}, { covariance: [[0.01, 0], [0, 0.04]] });
+      expect(minVariance.weights.get('A')).toBeCloseTo(0.8, 6);
+      expect(() => computeEfficientFrontier(correlationMatrix, assetData, {}, { covariance: [[0.01]] })).toThrow(/must be 2×2/);
+    });
+  });
+});
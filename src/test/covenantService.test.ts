@@ -0,0 +1,186 @@
+/**
+ * Unit Tests for the covenant compliance engine
+ * Metric extraction, headroom testing, breach projection and alert deduplication
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LBOCashFlowYear, LBOResult } from '@/services/lboModelService';
+import {
+  Covenant,
+  covenantAlert,
+  covenantHeadroom,
+  classifyHeadroom,
+  firstProjectedBreach,
+  isTestDue,
+  metricsFromDataFields,
+  projectCovenant,
+  reportingPeriod,
+  testCovenant,
+} from '@/services/covenantService';
+
+const covenant = (overrides: Partial<Covenant>): Covenant => ({
+  id: 'cov1',
+  company_id: 'c1',
+  covenant_type: 'max_leverage',
+  limit_value: 5,
+  current_value: 0,
+  test_frequency: 'quarterly',
+  warning_headroom_pct: 15,
+  headroom_pct: null,
+  status: 'untested',
+  is_warning: false,
+  last_period: null,
+  last_tested_at: null,
+  model_id: null,
+  projected_breach_period: null,
+  ...overrides,
+});
+
+const year = (overrides: Partial<LBOCashFlowYear>): LBOCashFlowYear =>
+  ({
+    year: '2026E',
+    ebitda: 100,
+    cashInterest: 40,
+    capex: 20,
+    closingCash: 10,
+    totalDebt: 400,
+    leverage: 4,
+    interestCoverage: 2.5,
+    ...overrides,
+  }) as LBOCashFlowYear;
+
+const lboResult = (cashFlows: LBOCashFlowYear[], revolverClosing: number[] = []): LBOResult =>
+  ({
+    cashFlows,
+    debtSchedule: { rcf: revolverClosing.map(closing => ({ closing })) },
+  }) as unknown as LBOResult;
+
+const period = { period: '2025-Q3', periodEnd: '2025-09-30' };
+
+describe('Covenant Service', () => {
+  describe('metricsFromDataFields', () => {
+    it('should parse numbers, numeric strings and value objects', () => {
+      const metrics = metricsFromDataFields([
+        { field_name: 'total_debt', value: 450 },
+        { field_name: 'ebitda_ltm', value: '$100.5M' },
+        { field_name: 'cash', value: { value: '1,200' } },
+        { field_name: 'business_model', value: 'Subscription' },
+      ]);
+      expect(metrics).toEqual({ total_debt: 450, ebitda_ltm: 100.5, cash: 1200 });
+    });
+  });
+
+  describe('headroom', () => {
+    it('should measure headroom in the direction of the limit', () => {
+      expect(covenantHeadroom('max_leverage', 4, 5)).toBeCloseTo(20);
+      expect(covenantHeadroom('min_interest_coverage', 2.5, 2)).toBeCloseTo(25);
+      expect(covenantHeadroom('min_liquidity', 8, 10)).toBeCloseTo(-20);
+    });
+
+    it('should classify headroom against the warning threshold', () => {
+      expect(classifyHeadroom(-0.1, 15)).toBe('breach');
+      expect(classifyHeadroom(10, 15)).toBe('warning');
+      expect(classifyHeadroom(15, 15)).toBe('compliant');
+      expect(classifyHeadroom(null, 15)).toBe('missing_data');
+    });
+  });
+
+  describe('reportingPeriod', () => {
+    it('should return calendar quarters and fiscal years', () => {
+      expect(reportingPeriod(new Date(2025, 7, 15), 'quarterly')).toEqual({ period: '2025-Q3', periodEnd: '2025-09-30' });
+      expect(reportingPeriod(new Date(2025, 1, 1), 'quarterly')).toEqual({ period: '2025-Q1', periodEnd: '2025-03-31' });
+      expect(reportingPeriod(new Date(2025, 7, 15), 'annual')).toEqual({ period: 'FY2025', periodEnd: '2025-12-31' });
+    });
+
+    it('should mark covenants due when the period has moved on', () => {
+      const today = new Date(2025, 10, 2);
+      expect(isTestDue(covenant({ last_period: '2025-Q3' }), today)).toBe(true);
+      expect(isTestDue(covenant({ last_period: '2025-Q4' }), today)).toBe(false);
+      expect(isTestDue(covenant({ last_period: 'FY2025', test_frequency: 'annual' }), today)).toBe(false);
+    });
+  });
+
+  describe('testCovenant', () => {
+    it('should test leverage with headroom', () => {
+      const result = testCovenant(covenant({}), { total_debt: 460, ebitda_ltm: 100 }, period);
+      expect(result.actual_value).toBeCloseTo(4.6);
+      expect(result.headroom_pct).toBeCloseTo(8);
+      expect(result.status).toBe('warning');
+      expect(result.is_projected).toBe(false);
+    });
+
+    it('should include undrawn revolver in liquidity', () => {
+      const result = testCovenant(
+        covenant({ covenant_type: 'min_liquidity', limit_value: 20 }),
+        { cash: 12, revolver_availability: 15 },
+        period
+      );
+      expect(result.actual_value).toBe(27);
+      expect(result.status).toBe('compliant');
+    });
+
+    it('should report the fields that are missing', () => {
+      const result = testCovenant(covenant({ covenant_type: 'min_interest_coverage' }), { ebitda_ltm: 80 }, period);
+      expect(result.status).toBe('missing_data');
+      expect(result.missingFields).toEqual(['interest_expense_ltm']);
+    });
+  });
+
+  describe('projectCovenant', () => {
+    it('should project leverage and find the first breach', () => {
+      const projections = projectCovenant(
+        covenant({}),
+        lboResult([
+          year({ year: '2026E', leverage: 4 }),
+          year({ year: '2027E', leverage: 5.4 }),
+          year({ year: '2028E', ebitda: -5, totalDebt: 300 }),
+        ]),
+        null
+      );
+      expect(projections.map(p => p.status)).toEqual(['compliant', 'breach', 'breach']);
+      expect(projections[2].actual_value).toBeNull();
+      expect(firstProjectedBreach(projections)?.period).toBe('2027E');
+    });
+
+    it('should add undrawn revolver commitments to projected liquidity', () => {
+      const projections = projectCovenant(
+        covenant({ covenant_type: 'min_liquidity', limit_value: 30 }),
+        lboResult([year({ closingCash: 10 }), year({ year: '2027E', closingCash: 5 })], [20, 40]),
+        { tranches: [{ id: 'rcf', type: 'revolver', commitment: 50 } as never] }
+      );
+      expect(projections.map(p => p.actual_value)).toEqual([40, 15]);
+      expect(projections.map(p => p.status)).toEqual(['compliant', 'breach']);
+    });
+
+    it('should not test coverage in years without cash interest', () => {
+      const [projection] = projectCovenant(
+        covenant({ covenant_type: 'min_interest_coverage', limit_value: 2 }),
+        lboResult([year({ cashInterest: 0, interestCoverage: 0 })]),
+        null
+      );
+      expect(projection.status).toBe('compliant');
+      expect(projection.actual_value).toBeNull();
+    });
+  });
+
+  describe('covenantAlert', () => {
+    const breach = testCovenant(covenant({}), { total_debt: 550, ebitda_ltm: 100 }, period);
+    const warning = testCovenant(covenant({}), { total_debt: 460, ebitda_ltm: 100 }, period);
+    const compliant = testCovenant(covenant({}), { total_debt: 300, ebitda_ltm: 100 }, period);
+    const projected = { ...breach, period: '2027E', is_projected: true };
+
+    it('should alert on a new breach or newly low headroom only', () => {
+      expect(covenantAlert('Acme', covenant({ status: 'compliant' }), breach, null)?.severity).toBe('critical');
+      expect(covenantAlert('Acme', covenant({ status: 'breach' }), breach, null)).toBeNull();
+      expect(covenantAlert('Acme', covenant({ status: 'compliant' }), warning, null)?.title).toMatch(/headroom/);
+      expect(covenantAlert('Acme', covenant({ status: 'warning' }), warning, null)).toBeNull();
+    });
+
+    it('should alert when a projected breach first appears or moves', () => {
+      expect(covenantAlert('Acme', covenant({ status: 'compliant' }), compliant, projected)?.title).toMatch(/2027E/);
+      expect(
+        covenantAlert('Acme', covenant({ status: 'compliant', projected_breach_period: '2027E' }), compliant, projected)
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for multi-currency portfolios
+ * FX rate lookup and crossing, listing currencies, base-currency summaries and
+ * the split of returns into local-asset return, currency effect and hedged views
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FxRates, inferListingCurrency } from '@/services/fxService';
+import { attributeCurrencyReturns, decomposeReturn, hedgedReturn } from '@/services/currencyAttributionService';
+import { calculateSummary, UnifiedPosition } from '@/services/unifiedPortfolioService';
+
+const position = (symbol: string, currency: string, value: number, costBasis: number): UnifiedPosition => ({
+  id: symbol,
+  portfolioId: null,
+  symbol,
+  name: null,
+  quantity: 1,
+  costBasis,
+  costPerShare: costBasis,
+  currentPrice: value,
+  currentValue: value,
+  unrealizedGain: value - costBasis,
+  unrealizedGainPercent: null,
+  weight: null,
+  assetType: 'stock',
+  assetClass: 'stocks',
+  sector: null,
+  currency,
+  source: 'manual',
+  connectionId: null,
+  purchaseDate: null,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+});
+
+const bars = (returns: [string, number | undefined][]) => returns.map(([date, dailyReturn]) => ({ date, dailyReturn }));
+
+describe('Currency', () => {
+  describe('FX rates', () => {
+    it('should cross pairs through USD and use the latest rate on or before a date', () => {
+      const rates = new FxRates()
+        .set('EUR', [{ date: '2024-06-03', usd: 1.1 }, { date: '2024-06-05', usd: 1.2 }])
+        .set('GBP', [{ date: '2024-06-03', usd: 1.32 }]);
+
+      expect(rates.rate('EUR', 'USD', '2024-06-04')).toBe(1.1);
+      expect(rates.rate('EUR', 'USD', '2024-06-05')).toBe(1.2);
+      expect(rates.rate('USD', 'EUR', '2024-06-03')).toBeCloseTo(1 / 1.1, 10);
+      expect(rates.rate('GBP', 'EUR', '2024-06-03')).toBeCloseTo(1.2, 10);
+      expect(rates.rate('EUR', 'USD', '2024-06-01')).toBeNull();
+      expect(rates.convert(100, 'EUR', 'USD')).toBeCloseTo(120, 10);
+      expect(rates.rate('JPY', 'USD')).toBeNull();
+    });
+
+    it('should read USD pairs from forex quotes in either direction and skip crosses', () => {
+      const rates = FxRates.fromQuotes([
+        { base: 'EUR', quote: 'USD', price: 1.08 },
+        { base: 'USD', quote: 'JPY', price: 150 },
+        { base: 'EUR', quote: 'GBP', price: 0.85 },
+      ]);
+
+      expect(rates.rate('EUR', 'USD')).toBe(1.08);
+      expect(rates.rate('JPY', 'USD')).toBeCloseTo(1 / 150, 10);
+      expect(rates.has('GBP')).toBe(false);
+    });
+
+    it('should infer the listing currency from the exchange suffix', () => {
+      expect(inferListingCurrency('SHEL.L')).toBe('GBP');
+      expect(inferListingCurrency('7203.T')).toBe('JPY');
+      expect(inferListingCurrency('BRK.B')).toBe('USD');
+      expect(inferListingCurrency('TSM')).toBe('USD');
+    });
+  });
+
+  describe('summary', () => {
+    it('should total positions in the base currency and report exposure by currency', () => {
+      const rates = new FxRates().set('EUR', [{ date: '2024-06-03', usd: 1.1 }]);
+      const summary = calculateSummary(
+        [position('AAPL', 'USD', 1100, 1000), position('SAP.DE', 'EUR', 1000, 800)],
+        { baseCurrency: 'EUR', rates }
+      );
+
+      expect(summary.baseCurrency).toBe('EUR');
+      expect(summary.totalValue).toBeCloseTo(2000, 10);
+      expect(summary.totalCostBasis).toBeCloseTo(1000 / 1.1 + 800, 10);
+      expect(summary.byCurrency.USD.weight).toBeCloseTo(50, 10);
+      expect(summary.unconvertedCurrencies).toEqual([]);
+    });
+
+    it('should count currencies without a rate at face value and flag them', () => {
+      const summary = calculateSummary([position('AAPL', 'USD', 100, 100), position('7203.T', 'JPY', 5000, 5000)]);
+
+      expect(summary.totalValue).toBe(5100);
+      expect(summary.unconvertedCurrencies).toEqual(['JPY']);
+    });
+  });
+
+  describe('attribution', () => {
+    it('should count the cross term as currency effect', () => {
+      expect(decomposeReturn(0.1, 0.05)).toEqual({ localReturn: 0.1, currencyEffect: expect.closeTo(0.055, 10), baseReturn: expect.closeTo(0.155, 10) });
+      expect(hedgedReturn(0.1, 0.055, { ratio: 1 })).toBe(0.1);
+      expect(hedgedReturn(0.1, 0.055, { ratio: 0.5, annualCost: 0.0252 })).toBeCloseTo(0.1 + 0.0275 - 0.00005, 10);
+    });
+
+    it('should split a foreign holding into local return and currency effect', () => {
+      const rates = new FxRates().set('EUR', [
+        { date: '2024-06-03', usd: 1.0 },
+        { date: '2024-06-04', usd: 1.1 },
+        { date: '2024-06-05', usd: 1.1 },
+      ]);
+      const result = attributeCurrencyReturns(
+        [
+          { symbol: 'SAP.DE', currency: 'EUR', weight: 1, bars: bars([['2024-06-03', undefined], ['2024-06-04', 0], ['2024-06-05', 0.1]]) },
+        ],
+        rates,
+        'USD',
+        { ratio: 1 }
+      );
+
+      expect(result.daily.map(d => d.date)).toEqual(['2024-06-04', '2024-06-05']);
+      expect(result.totals.localReturn).toBeCloseTo(0.1, 10);
+      expect(result.totals.baseReturn).toBeCloseTo(0.21, 10);
+      expect(result.totals.currencyEffect).toBeCloseTo(0.11, 10);
+      expect(result.totals.hedgedReturn).toBeCloseTo(0.1, 10);
+      expect(result.holdings[0].fxReturn).toBeCloseTo(0.1, 10);
+    });
+
+    it('should weight holdings, leave home-currency holdings unhedged and drop unconvertible ones', () => {
+      const rates = new FxRates().set('EUR', [{ date: '2024-06-03', usd: 1.0 }, { date: '2024-06-04', usd: 1.02 }]);
+      const result = attributeCurrencyReturns(
+        [
+          { symbol: 'AAPL', currency: 'USD', weight: 3, bars: bars([['2024-06-03', undefined], ['2024-06-04', 0.01]]) },
+          { symbol: 'SAP.DE', currency: 'EUR', weight: 1, bars: bars([['2024-06-03', undefined], ['2024-06-04', 0]]) },
+          { symbol: '7203.T', currency: 'JPY', weight: 2, bars: bars([['2024-06-03', undefined], ['2024-06-04', 0.05]]) },
+          { symbol: 'NEW', currency: 'USD', weight: 1, bars: [] },
+        ],
+        rates,
+        'USD',
+        { ratio: 1 }
+      );
+
+      expect(result.missingCurrencies).toEqual(['JPY']);
+      expect(result.missingSymbols).toEqual(['NEW']);
+      expect(result.exposures).toEqual([{ currency: 'USD', weight: 0.75 }, { currency: 'EUR', weight: 0.25 }]);
+      expect(result.totals.localReturn).toBeCloseTo(0.0075, 10);
+      expect(result.totals.baseReturn).toBeCloseTo(0.0125, 10);
+      expect(result.totals.hedgedReturn).toBeCloseTo(0.0075, 10);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for data room checklist templates
+ * Template parsing, document matching precedence and request-list building
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ChecklistItem,
+  ChecklistItemState,
+  DEFAULT_CHECKLIST_TEMPLATES,
+  buildRequestList,
+  createChecklistId,
+  evaluateChecklist,
+  isChecklistItemOverdue,
+  matchChecklistItem,
+  parseChecklistTemplates,
+  resolveChecklistTemplate,
+  suggestChecklistDocuments,
+  validateChecklistTemplates,
+} from '@/services/dataRoomChecklistService';
+
+const AUDIT: ChecklistItem = {
+  id: 'audit-reports',
+  name: 'Audit Reports',
+  category: 'Financial',
+  description: 'Audited financial statements',
+  keywords: ['audit'],
+  documentTypes: [],
+  folders: ['Financial/audit'],
+};
+
+const CAP_TABLE: ChecklistItem = {
+  id: 'cap-table',
+  name: 'Cap Table',
+  category: 'Legal',
+  keywords: ['cap table'],
+  documentTypes: ['cap_table'],
+  folders: [],
+};
+
+const state = (item_id: string, overrides: Partial<ChecklistItemState> = {}): ChecklistItemState => ({
+  item_id,
+  owner_id: null,
+  due_date: null,
+  document_ids: [],
+  notes: null,
+  ...overrides,
+});
+
+describe('Data Room Checklist Service', () => {
+  describe('parseChecklistTemplates', () => {
+    it('should fall back to the built-in deal-type templates', () => {
+      expect(parseChecklistTemplates(null)).toBe(DEFAULT_CHECKLIST_TEMPLATES);
+      expect(parseChecklistTemplates([])).toBe(DEFAULT_CHECKLIST_TEMPLATES);
+      expect(DEFAULT_CHECKLIST_TEMPLATES.map(t => t.dealType)).toEqual(['buyout', 'growth_equity', 'credit', 'real_estate']);
+    });
+
+    it('should drop malformed entries and duplicate ids', () => {
+      const templates = parseChecklistTemplates([
+        {
+          id: 'lbo',
+          name: 'LBO',
+          dealType: 'unknown',
+          items: [
+            { id: 'a', name: 'A', category: 'Financial', keywords: ['x', 3] },
+            { id: 'a', name: 'Duplicate' },
+            { name: 'No id' },
+          ],
+        },
+        { id: 'lbo', name: 'Duplicate template', items: [] },
+        'junk',
+      ]);
+
+      expect(templates).toHaveLength(1);
+      expect(templates[0].dealType).toBe('buyout');
+      expect(templates[0].items).toEqual([
+        { id: 'a', name: 'A', category: 'Financial', description: null, keywords: ['x'], documentTypes: [], folders: [] },
+      ]);
+    });
+  });
+
+  describe('resolveChecklistTemplate', () => {
+    it('should use the assigned template and fall back to the first', () => {
+      expect(resolveChecklistTemplate(DEFAULT_CHECKLIST_TEMPLATES, 'credit').dealType).toBe('credit');
+      expect(resolveChecklistTemplate(DEFAULT_CHECKLIST_TEMPLATES, 'removed').id).toBe('buyout');
+      expect(resolveChecklistTemplate(DEFAULT_CHECKLIST_TEMPLATES, null).id).toBe('buyout');
+    });
+  });
+
+  describe('matchChecklistItem', () => {
+    const docs = [
+      { id: 'd1', name: 'FY23 Audit.pdf', folder: 'General', subfolder: null },
+      { id: 'd2', name: 'Report.pdf', folder: 'financial', subfolder: 'Audit' },
+      { id: 'd3', name: 'Ownership.xlsx', document_type: 'cap_table' },
+    ];
+
+    it('should prefer explicitly tagged documents', () => {
+      const match = matchChecklistItem(AUDIT, docs, state('audit-reports', { document_ids: ['d1'] }));
+      expect(match?.source).toBe('tagged');
+      expect(match?.documents.map(d => d.id)).toEqual(['d1']);
+    });
+
+    it('should use folder and document type classification before filenames', () => {
+      expect(matchChecklistItem(AUDIT, docs)).toMatchObject({ source: 'classified', documents: [docs[1]] });
+      expect(matchChecklistItem(CAP_TABLE, docs)).toMatchObject({ source: 'classified', documents: [docs[2]] });
+    });
+
+    it('should only suggest filename keyword matches, not complete the item', () => {
+      expect(matchChecklistItem(AUDIT, [docs[0]])).toBeNull();
+      expect(suggestChecklistDocuments(AUDIT, [docs[0]])).toEqual([docs[0]]);
+      expect(suggestChecklistDocuments(CAP_TABLE, [docs[0]])).toEqual([]);
+    });
+
+    it('should ignore tags for documents that no longer exist', () => {
+      const match = matchChecklistItem(CAP_TABLE, [], state('cap-table', { document_ids: ['deleted'] }));
+      expect(match).toBeNull();
+    });
+  });
+
+  describe('evaluateChecklist', () => {
+    it('should report completion by category', () => {
+      const status = evaluateChecklist([{ id: 'd3', name: 'x.xlsx', document_type: 'cap_table' }], [AUDIT, CAP_TABLE]);
+
+      expect([...status.completedItems]).toEqual(['cap-table']);
+      expect(status.suggestions).toEqual({});
+      expect(status.progress).toBe(50);
+      expect(status.categoryCounts).toEqual({
+        Financial: { completed: 0, total: 1 },
+        Legal: { completed: 1, total: 1 },
+      });
+    });
+
+    it('should leave filename-only matches outstanding with suggestions', () => {
+      const status = evaluateChecklist([{ id: 'd1', name: 'FY23 Audit.pdf' }], [AUDIT, CAP_TABLE]);
+
+      expect(status.completedItems.size).toBe(0);
+      expect(status.suggestions).toEqual({ 'audit-reports': [{ id: 'd1', name: 'FY23 Audit.pdf' }] });
+    });
+  });
+
+  describe('validateChecklistTemplates', () => {
+    it('should require named, non-empty, uniquely named templates', () => {
+      expect(validateChecklistTemplates(DEFAULT_CHECKLIST_TEMPLATES)).toBeNull();
+      expect(validateChecklistTemplates([])).not.toBeNull();
+      expect(validateChecklistTemplates([{ id: 'a', name: 'A', dealType: 'credit', items: [] }])).toContain('add at least one item');
+      expect(
+        validateChecklistTemplates([
+          { id: 'a', name: 'Same', dealType: 'credit', items: [AUDIT] },
+          { id: 'b', name: 'same', dealType: 'buyout', items: [AUDIT] },
+        ])
+      ).toBe('Template names must be unique');
+    });
+  });
+
+  describe('createChecklistId', () => {
+    it('should slugify names and avoid collisions', () => {
+      expect(createChecklistId('Rent Roll', [])).toBe('rent-roll');
+      expect(createChecklistId('Rent Roll', ['rent-roll'])).toBe('rent-roll-2');
+    });
+  });
+
+  describe('isChecklistItemOverdue', () => {
+    it('should flag outstanding items past their due date only', () => {
+      const today = new Date('2025-03-10T12:00:00Z');
+      expect(isChecklistItemOverdue(state('a', { due_date: '2025-03-09' }), false, today)).toBe(true);
+      expect(isChecklistItemOverdue(state('a', { due_date: '2025-03-10' }), false, today)).toBe(false);
+      expect(isChecklistItemOverdue(state('a', { due_date: '2025-03-09' }), true, today)).toBe(false);
+      expect(isChecklistItemOverdue(undefined, false, today)).toBe(false);
+    });
+  });
+
+  describe('buildRequestList', () => {
+    it('should list outstanding items first with owner names and due dates', () => {
+      const items = [CAP_TABLE, AUDIT];
+      const status = evaluateChecklist([{ name: 'Cap Table.xlsx', document_type: 'cap_table' }], items);
+      const states = [state('audit-reports', { owner_id: 'm1', due_date: '2025-04-01' })];
+
+      const rows = buildRequestList(items, status, states, { m1: 'Jordan Lee' });
+      expect(rows.map(r => [r.number, r.request, r.status])).toEqual([
+        [1, 'Audit Reports', 'Outstanding'],
+        [2, 'Cap Table', 'Received'],
+      ]);
+      expect(rows[0]).toMatchObject({ owner: 'Jordan Lee', dueDate: '2025-04-01', description: 'Audited financial statements' });
+
+      expect(buildRequestList(items, status, states, {}, true).map(r => r.request)).toEqual(['Audit Reports']);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit Tests for the data room Q&A tracker
+ * CSV parsing, Q&A log import matching and export
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DataRoomQuestion,
+  QA_LOG_COLUMNS,
+  buildQALogCSV,
+  findByName,
+  formatQuestionRef,
+  importedStatus,
+  nextQuestionNumber,
+  parseCSV,
+  parseQALog,
+  planQAImport,
+  summarizeQuestions,
+} from '@/services/dataRoomQAService';
+
+const question = (overrides: Partial<DataRoomQuestion>): DataRoomQuestion => ({
+  id: 'q1',
+  company_id: 'c1',
+  number: 1,
+  document_id: null,
+  checklist_item_id: null,
+  category: null,
+  question: 'Please provide the FY24 management accounts',
+  answer: null,
+  status: 'open',
+  priority: 'medium',
+  assignee_id: null,
+  attachment_ids: [],
+  raised_by: null,
+  answered_at: null,
+  created_at: '2025-02-01T09:00:00Z',
+  updated_at: '2025-02-01T09:00:00Z',
+  ...overrides,
+});
+
+describe('Data Room Q&A Service', () => {
+  describe('parseCSV', () => {
+    it('should handle quoted commas, escaped quotes and line breaks', () => {
+      const rows = parseCSV('\uFEFFRef,Question\r\n1,"Explain the ""one-off"" costs, by year"\n2,"Line one\nline two"\n\n');
+      expect(rows).toEqual([
+        ['Ref', 'Question'],
+        ['1', 'Explain the "one-off" costs, by year'],
+        ['2', 'Line one\nline two'],
+      ]);
+    });
+  });
+
+  describe('parseQALog', () => {
+    it('should map bank log headers, statuses and priorities', () => {
+      const csv = [
+        'No.,Work Stream,Request,Priority,Status,Responsible Party,Seller Response',
+        '1,Financial,Provide monthly revenue by customer,H,Outstanding,Jordan Lee,',
+        '2,Legal,List material contracts,Low,Response provided,,See VDR 4.2',
+        '3,Legal,,Medium,Open,,',
+      ].join('\n');
+
+      const { rows, skipped, error } = parseQALog(csv);
+      expect(error).toBeNull();
+      expect(skipped).toBe(1);
+      expect(rows).toEqual([
+        {
+          reference: '1',
+          category: 'Financial',
+          question: 'Provide monthly revenue by customer',
+          answer: null,
+          status: 'open',
+          priority: 'high',
+          assignee: 'Jordan Lee',
+          document: null,
+          checklistItem: null,
+        },
+        {
+          reference: '2',
+          category: 'Legal',
+          question: 'List material contracts',
+          answer: 'See VDR 4.2',
+          status: 'answered',
+          priority: 'low',
+          assignee: null,
+          document: null,
+          checklistItem: null,
+        },
+      ]);
+    });
+
+    it('should leave status unset when the log has none and infer it only for new questions', () => {
+      const { rows } = parseQALog('Question,Answer,Status\nA?,Yes,\nB?,,');
+      expect(rows.map(r => r.status)).toEqual([undefined, undefined]);
+      expect(rows.map(importedStatus)).toEqual(['answered', 'open']);
+    });
+
+    it('should reject logs without a question column', () => {
+      expect(parseQALog('Ref,Status\n1,Open').error).toMatch(/Question/);
+      expect(parseQALog('').error).not.toBeNull();
+    });
+  });
+
+  describe('planQAImport', () => {
+    it('should fill in responses for existing questions and insert new ones', () => {
+      const existing = [question({ id: 'q1' }), question({ id: 'q2', number: 2, question: 'Org chart?', status: 'closed' })];
+      const { rows } = parseQALog(
+        [
+          'Question,Response,Status',
+          'please provide the FY24 management accounts.,Uploaded to 1.1,Answered',
+          'Org chart?,,Closed',
+          'Customer churn by cohort?,,Open',
+          'Customer churn by cohort?,,Open',
+        ].join('\n')
+      );
+
+      const plan = planQAImport(existing, rows);
+      expect(plan.updates).toEqual([{ id: 'q1', row: expect.objectContaining({ answer: 'Uploaded to 1.1', status: 'answered' }) }]);
+      expect(plan.inserts.map(r => r.question)).toEqual(['Customer churn by cohort?']);
+    });
+
+    it('should not change the status of existing questions from a log without statuses', () => {
+      const existing = [
+        question({ id: 'q1', status: 'closed', answer: 'Uploaded' }),
+        question({ id: 'q2', number: 2, question: 'Org chart?', status: 'answered', answer: 'See 2.1' }),
+      ];
+      const { rows } = parseQALog('Question,Response\nPlease provide the FY24 management accounts,\nOrg chart?,See 2.1');
+
+      expect(planQAImport(existing, rows)).toEqual({ inserts: [], updates: [] });
+    });
+  });
+
+  describe('buildQALogCSV', () => {
+    it('should export in reference order with names resolved', () => {
+      const csv = buildQALogCSV(
+        [
+          question({ id: 'q2', number: 2, question: 'Leases, all sites', priority: 'high', assignee_id: 'm1', document_id: 'd1' }),
+          question({ answer: 'Attached', status: 'answered', answered_at: '2025-02-03T10:00:00Z', checklist_item_id: 'audit' }),
+        ],
+        { assignees: { m1: 'Jordan Lee' }, documents: { d1: 'Lease schedule.xlsx' }, checklistItems: { audit: 'Audit Reports' } }
+      );
+
+      const [header, first, second] = parseCSV(csv);
+      expect(header).toEqual([...QA_LOG_COLUMNS]);
+      expect(first).toEqual([
+        'Q-001', '', 'Please provide the FY24 management accounts', '', 'Audit Reports',
+        'Medium', 'Answered', '', '2025-02-01', 'Attached', '2025-02-03',
+      ]);
+      expect(second.slice(0, 8)).toEqual(['Q-002', '', 'Leases, all sites', 'Lease schedule.xlsx', '', 'High', 'Open', 'Jordan Lee']);
+    });
+
+    it('should round-trip through the importer', () => {
+      const csv = buildQALogCSV([question({ category: 'Financial', answer: 'Done', status: 'closed' })], {
+        assignees: {},
+        documents: {},
+        checklistItems: {},
+      });
+      expect(parseQALog(csv).rows[0]).toMatchObject({ reference: 'Q-001', category: 'Financial', answer: 'Done', status: 'closed' });
+    });
+
+    it('should keep the checklist link through export and re-import', () => {
+      const csv = buildQALogCSV([question({ checklist_item_id: 'audit' })], {
+        assignees: {},
+        documents: {},
+        checklistItems: { audit: 'Audit Reports' },
+      });
+      const [row] = parseQALog(csv).rows;
+      expect(row.checklistItem).toBe('Audit Reports');
+      expect(findByName([{ id: 'audit', name: 'Audit Reports' }], row.checklistItem)).toBe('audit');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should number and summarize questions', () => {
+      const questions = [
+        question({ number: 4, priority: 'high' }),
+        question({ number: 2, status: 'answered' }),
+        question({ number: 7, status: 'closed', priority: 'high' }),
+      ];
+      expect(nextQuestionNumber(questions)).toBe(8);
+      expect(nextQuestionNumber([])).toBe(1);
+      expect(formatQuestionRef(12)).toBe('Q-012');
+      expect(summarizeQuestions(questions)).toEqual({ total: 3, open: 1, answered: 1, closed: 1, highPriorityOpen: 1 });
+    });
+
+    it('should match names case-insensitively', () => {
+      expect(findByName([{ id: 'm1', name: 'Jordan Lee' }], ' jordan lee ')).toBe('m1');
+      expect(findByName([{ id: 'm1', name: 'Jordan Lee' }], 'Sam')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for the constrained efficient frontier
+ * Quadratic program solver, constraint checks and the exact mean-variance frontier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solveQuadraticProgram } from '@/services/quadraticProgramService';
+import { computeEfficientFrontier, frontierConstraintErrors } from '@/services/efficientFrontierService';
+import { AssetData } from '@/services/portfolioOptimizer';
+
+const asset = (ticker: string, avgReturn: number, volatility: number): AssetData => ({
+  ticker,
+  avgReturn,
+  volatility,
+  skewness: 0,
+  kurtosis: 3,
+  volume: 1000000,
+});
+
+const universe = () => ({
+  correlationMatrix: {
+    symbols: ['BND', 'VTI', 'VEA', 'GLD'],
+    matrix: [
+      [1, 0.1, 0.1, 0.2],
+      [0.1, 1, 0.8, 0.05],
+      [0.1, 0.8, 1, 0.1],
+      [0.2, 0.05, 0.1, 1],
+    ],
+  },
+  assetData: new Map([
+    ['BND', asset('BND', 0.04, 0.05)],
+    ['VTI', asset('VTI', 0.1, 0.16)],
+    ['VEA', asset('VEA', 0.08, 0.18)],
+    ['GLD', asset('GLD', 0.06, 0.15)],
+  ]),
+});
+
+const sum = (weights: Map<string, number>) => Array.from(weights.values()).reduce((a, b) => a + b, 0);
+
+describe('Efficient Frontier', () => {
+  describe('solveQuadraticProgram', () => {
+    it('should solve a bounded least-squares problem exactly', () => {
+      // min (x1 - 1)² + (x2 - 2)²  s.t.  x1 + x2 = 1, 0 ≤ x ≤ 0.8
+      const result = solveQuadraticProgram({
+        P: [[2, 0], [0, 2]],
+        q: [-2, -4],
+        A: [[1, 1], [1, 0], [0, 1]],
+        l: [1, 0, 0],
+        u: [1, 0.8, 0.8],
+      });
+      expect(result.status).toBe('solved');
+      expect(result.x[0]).toBeCloseTo(0.2, 9);
+      expect(result.x[1]).toBeCloseTo(0.8, 9);
+      expect(result.y[2]).toBeGreaterThan(0); // Upper bound on x2 is holding
+    });
+
+    it('should detect infeasible constraints', () => {
+      const result = solveQuadraticProgram({
+        P: [[1, 0], [0, 1]],
+        q: [0, 0],
+        A: [[1, 1], [1, 0], [0, 1]],
+        l: [1, 0, 0],
+        u: [1, 0.3, 0.3],
+      });
+      expect(result.status).toBe('infeasible');
+    });
+  });
+
+  describe('frontierConstraintErrors', () => {
+    it('should explain caps that cannot hold a fully invested portfolio', () => {
+      const symbols = ['A', 'B', 'C'];
+      expect(frontierConstraintErrors(symbols, { concentrationLimits: { maxSinglePosition: 25, maxSectorExposure: 100 } })).toEqual([
+        'Maximum weights add up to only 75.0% across 3 assets',
+      ]);
+      expect(
+        frontierConstraintErrors(symbols, {
+          assetClasses: { A: 'stocks', B: 'stocks', C: 'stocks' },
+          concentrationLimits: { maxSinglePosition: 50, maxSectorExposure: 60 },
+        })
+      ).toEqual(['Asset-class caps leave only 60.0% of the portfolio investable']);
+      expect(frontierConstraintErrors(symbols, { minWeights: { A: 0.5 }, maxWeights: { A: 0.4 } })[0]).toBe(
+        'A: minimum weight 50.0% exceeds maximum 40.0%'
+      );
+    });
+  });
+
+  describe('computeEfficientFrontier', () => {
+    it('should match the closed-form two-asset minimum-variance portfolio', () => {
+      const correlationMatrix = { symbols: ['A', 'B'], matrix: [[1, 0.3], [0.3, 1]] };
+      const assetData = new Map([['A', asset('A', 0.05, 0.1)], ['B', asset('B', 0.1, 0.2)]]);
+      const [minVariance] = computeEfficientFrontier(correlationMatrix, assetData);
+
+      const covariance = 0.3 * 0.1 * 0.2;
+      const expected = (0.04 - covariance) / (0.01 + 0.04 - 2 * covariance);
+      expect(minVariance.weights.get('A')).toBeCloseTo(expected, 6);
+    });
+
+    it('should trace a long-only frontier from minimum variance to maximum return', () => {
+      const { correlationMatrix, assetData } = universe();
+      const frontier = computeEfficientFrontier(correlationMatrix, assetData, {}, { numPoints: 12 });
+
+      expect(frontier).toHaveLength(12);
+      frontier.forEach(point => {
+        expect(sum(point.weights)).toBeCloseTo(1, 8);
+        point.weights.forEach(w => expect(w).toBeGreaterThanOrEqual(-1e-9));
+      });
+      for (let i = 1; i < frontier.length; i++) {
+        expect(frontier[i].return).toBeGreaterThan(frontier[i - 1].return);
+        expect(frontier[i].risk).toBeGreaterThanOrEqual(frontier[i - 1].risk - 1e-9);
+      }
+      expect(frontier[frontier.length - 1].weights.get('VTI')).toBeCloseTo(1, 6);
+    });
+
+    it('should respect position, asset-class and turnover limits', () => {
+      const { correlationMatrix, assetData } = universe();
+      const capped = computeEfficientFrontier(
+        correlationMatrix,
+        assetData,
+        {
+          minWeights: { GLD: 0.05 },
+          assetClasses: { BND: 'bonds', VTI: 'stocks', VEA: 'stocks', GLD: 'commodities' },
+          concentrationLimits: { maxSinglePosition: 40, maxSectorExposure: 50 },
+        },
+        { numPoints: 8 }
+      );
+      capped.forEach(point => {
+        point.weights.forEach(w => expect(w).toBeLessThanOrEqual(0.4 + 1e-8));
+        expect(point.weights.get('GLD')!).toBeGreaterThanOrEqual(0.05 - 1e-8);
+        expect(point.weights.get('VTI')! + point.weights.get('VEA')!).toBeLessThanOrEqual(0.5 + 1e-8);
+      });
+
+      const currentWeights = { BND: 0.25, VTI: 0.25, VEA: 0.25, GLD: 0.25 };
+      const limited = computeEfficientFrontier(correlationMatrix, assetData, { currentWeights, maxTurnover: 0.1 }, { numPoints: 6 });
+      limited.forEach(point => {
+        const turnover = Array.from(point.weights.entries()).reduce(
+          (total, [ticker, w]) => total + Math.abs(w - currentWeights[ticker as keyof typeof currentWeights]),
+          0
+        ) / 2;
+        expect(turnover).toBeLessThanOrEqual(0.1 + 1e-8);
+      });
+      expect(limited[limited.length - 1].weights.get('VTI')).toBeCloseTo(0.35, 6);
+    });
+
+    it('should refuse infeasible constraints with the reason', () => {
+      const { correlationMatrix, assetData } = universe();
+      expect(() =>
+        computeEfficientFrontier(correlationMatrix, assetData, { concentrationLimits: { maxSinglePosition: 20, maxSectorExposure: 100 } })
+      ).toThrow(/Maximum weights add up to only 80.0%/);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for the LBO model engine
+ * Sources & uses, debt schedule mechanics and sponsor returns
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LBO_ASSUMPTIONS,
+  LBOAssumptions,
+  buildSourcesAndUses,
+  calculateIRR,
+  lboAssumptionsFromCashFlowBuildup,
+  operatingCaseFromAssumptions,
+  operatingCaseFromCashFlowBuildup,
+  runLBOModel,
+} from '@/services/lboModelService';
+import { calculateLocalCashFlow } from '@/services/cashFlowBuildupService';
+
+const YEARS = ['2025', '2026', '2027', '2028', '2029'];
+
+function baseCase(overrides: Partial<LBOAssumptions> = {}) {
+  const assumptions: LBOAssumptions = { ...DEFAULT_LBO_ASSUMPTIONS, ...overrides };
+  const entryRevenue = assumptions.entryEbitda / (assumptions.operating.ebitdaMargin / 100);
+  const operatingCase = operatingCaseFromAssumptions(entryRevenue, assumptions.operating, YEARS);
+  return { assumptions, operatingCase };
+}
+
+describe('LBO Model Service', () => {
+  describe('Sources & Uses', () => {
+    it('should balance sources and uses with sponsor equity as the plug', () => {
+      const su = buildSourcesAndUses(DEFAULT_LBO_ASSUMPTIONS);
+      expect(su.totalSources).toBeCloseTo(su.totalUses, 6);
+      expect(su.enterpriseValue).toBe(25 * 8);
+      expect(su.sponsorEquity).toBeGreaterThan(0);
+    });
+
+    it('should reject deals where debt exceeds total uses', () => {
+      const { assumptions, operatingCase } = baseCase({
+        tranches: DEFAULT_LBO_ASSUMPTIONS.tranches.map(t => ({ ...t, multiple: 5 })),
+      });
+      expect(() => runLBOModel(operatingCase, assumptions)).toThrow(/sponsor equity/);
+    });
+  });
+
+  describe('Debt Schedule', () => {
+    it('should roll every tranche forward consistently', () => {
+      const { assumptions, operatingCase } = baseCase();
+      const result = runLBOModel(operatingCase, assumptions);
+
+      Object.values(result.debtSchedule).forEach(schedule => {
+        schedule.forEach(row => {
+          const expected = row.opening + row.drawdown + row.pikAccrued - row.mandatoryRepayment - row.sweepRepayment;
+          expect(row.closing).toBeCloseTo(expected, 6);
+        });
+      });
+    });
+
+    it('should accrue PIK interest on toggled tranches instead of paying cash', () => {
+      const { assumptions, operatingCase } = baseCase();
+      const result = runLBOModel(operatingCase, assumptions);
+      const mezz = result.debtSchedule.mezz;
+
+      expect(mezz[0].cashInterest).toBe(0);
+      expect(mezz[0].pikAccrued).toBeCloseTo(12.5 * 0.12, 6);
+      expect(mezz[mezz.length - 1].closing).toBeGreaterThan(mezz[0].opening);
+    });
+
+    it('should sweep excess cash to the term loan and hold minimum cash', () => {
+      const { assumptions, operatingCase } = baseCase();
+      const result = runLBOModel(operatingCase, assumptions);
+
+      expect(result.debtSchedule.tlb[0].sweepRepayment).toBeGreaterThan(0);
+      result.cashFlows.forEach(cf => {
+        expect(cf.closingCash).toBeCloseTo(assumptions.minimumCash, 6);
+      });
+    });
+
+    it('should draw the revolver when cash flow falls short of mandatory debt service', () => {
+      const { assumptions, operatingCase } = baseCase({
+        operating: { ...DEFAULT_LBO_ASSUMPTIONS.operating, capexPercent: 20 },
+      });
+      const result = runLBOModel(operatingCase, assumptions);
+
+      expect(result.cashFlows[0].revolverDraw).toBeGreaterThan(0);
+      expect(result.debtSchedule.revolver[0].closing).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Returns', () => {
+    it('should compute an IRR consistent with MOIC over the hold period', () => {
+      const { assumptions, operatingCase } = baseCase();
+      const { returns } = runLBOModel(operatingCase, assumptions);
+
+      const impliedIrr = (Math.pow(returns.moic, 1 / assumptions.exitYear) - 1) * 100;
+      expect(returns.irr).toBeCloseTo(impliedIrr, 4);
+      expect(returns.exitEquityValue).toBeCloseTo(
+        returns.exitEnterpriseValue - returns.exitNetDebt,
+        6
+      );
+    });
+
+    it('should solve IRR for irregular cash flows', () => {
+      expect(calculateIRR([-100, 10, 10, 110])).toBeCloseTo(0.1, 6);
+      expect(calculateIRR([100, 10])).toBeNaN();
+    });
+  });
+
+  describe('Promotion from Cash Flow Buildup', () => {
+    const historicalData = {
+      historical_years: ['2023', '2024'],
+      income_statement: {
+        revenue: { '2023': 90, '2024': 100 },
+        ebitda: { '2023': 18, '2024': 20 },
+      },
+      balance_sheet: { cash: { '2024': 10 }, total_debt: { '2024': 0 } },
+    };
+    const cashFlow = calculateLocalCashFlow('Acme', historicalData, {
+      revenue_growth: 10,
+      ebitda_margin: 20,
+      capex_pct: 3,
+      nwc_pct: 10,
+      tax_rate: 25,
+      da_pct: 4,
+      interest_rate: 8,
+    });
+
+    it('should reuse the projected income statement as the operating case', () => {
+      const operatingCase = operatingCaseFromCashFlowBuildup(cashFlow);
+      expect(operatingCase.years).toEqual(cashFlow.projection_years);
+      expect(operatingCase.ebitda[0]).toBe(cashFlow.income_statement.ebitda[cashFlow.projection_years[0]]);
+      expect(operatingCase.capex.every(c => c >= 0)).toBe(true);
+    });
+
+    it('should enter at the last historical EBITDA', () => {
+      const assumptions = lboAssumptionsFromCashFlowBuildup(cashFlow, { tax_rate: 21 });
+      expect(assumptions.entryEbitda).toBe(20);
+      expect(assumptions.taxRate).toBe(21);
+    });
+  });
+});
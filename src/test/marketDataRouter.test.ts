@@ -0,0 +1,217 @@
+/**
+ * Unit Tests for the market data router
+ * Fallback order, empty versus failed responses, circuit breakers, rate budgets, batch quotes and health stats
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CircuitBreaker,
+  MarketDataProvider,
+  MarketDataRouter,
+  MarketDataRouterConfig,
+  ProviderQuote,
+  RateLimitBudget,
+} from '@/services/marketDataRouter';
+
+const quote = (symbol: string, price: number): ProviderQuote => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent: 0,
+  high: price,
+  low: price,
+  open: price,
+  previousClose: price,
+  timestamp: 0,
+});
+
+const order: MarketDataRouterConfig['order'] = {
+  quote: ['finnhub', 'supabase'],
+  bars: ['supabase', 'polygon'],
+  search: ['polygon', 'mock'],
+  profile: ['polygon', 'mock'],
+};
+
+function setup(providers: MarketDataProvider[], config: Partial<MarketDataRouterConfig> = {}) {
+  let clock = 0;
+  const router = new MarketDataRouter(providers, { order, now: () => clock, ...config });
+  return {
+    router,
+    advance: (ms: number) => {
+      clock += ms;
+    },
+    health: (id: string) => router.getHealth().find(h => h.id === id)!,
+  };
+}
+
+const failing = (id: 'finnhub' | 'polygon', message = 'boom'): MarketDataProvider => ({
+  id,
+  label: id,
+  quote: vi.fn(async () => {
+    throw new Error(message);
+  }),
+  bars: vi.fn(async () => {
+    throw new Error(message);
+  }),
+});
+
+describe('Market Data Router', () => {
+  describe('fallback order', () => {
+    it('should try providers in order and report which one answered', async () => {
+      const { router } = setup([failing('finnhub'), { id: 'supabase', label: 'Supabase', quote: async s => quote(s, 101) }]);
+      const result = await router.quote('aapl');
+
+      expect(result.provider).toBe('supabase');
+      expect(result.data).toMatchObject({ symbol: 'AAPL', price: 101, provider: 'supabase' });
+      expect(result.attempts.map(a => [a.provider, a.outcome])).toEqual([
+        ['finnhub', 'error'],
+        ['supabase', 'ok'],
+      ]);
+    });
+
+    it('should move past providers with no data without counting it as a failure', async () => {
+      const { router, health } = setup([
+        { id: 'supabase', label: 'Supabase', bars: async () => [] },
+        { id: 'polygon', label: 'Polygon', bars: async () => [{ date: '2024-01-02', open: 1, high: 1, low: 1, close: 1, volume: 1 }] },
+      ]);
+      const result = await router.bars('SPY', '2024-01-01', '2024-01-31');
+
+      expect(result.provider).toBe('polygon');
+      expect(health('supabase')).toMatchObject({ empties: 1, failures: 0, consecutiveFailures: 0 });
+    });
+
+    it('should drop providers that lack a capability and honour a per-call order', async () => {
+      const mock: MarketDataProvider = { id: 'mock', label: 'Mock', search: async () => [{ symbol: 'X', name: 'X', exchange: null }] };
+      const polygon: MarketDataProvider = { id: 'polygon', label: 'Polygon', search: vi.fn(async () => []) };
+      const { router } = setup([mock, polygon]);
+
+      router.setOrder('quote', ['mock', 'polygon']);
+      expect(router.getOrder('quote')).toEqual([]);
+
+      const result = await router.search('x', { order: ['mock'] });
+      expect(result.provider).toBe('mock');
+      expect(polygon.search).not.toHaveBeenCalled();
+    });
+
+    it('should return no data with every attempt recorded when all providers miss', async () => {
+      const { router } = setup([failing('finnhub'), { id: 'supabase', label: 'Supabase', quote: async () => null }]);
+      const result = await router.quote('ZZZ');
+      expect(result).toMatchObject({ data: null, provider: null });
+      expect(result.attempts.map(a => a.outcome)).toEqual(['error', 'empty']);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should open after repeated failures, then close on a successful trial after the cooldown', async () => {
+      let healthy = false;
+      const finnhub: MarketDataProvider = {
+        id: 'finnhub',
+        label: 'Finnhub',
+        quote: vi.fn(async s => {
+          if (!healthy) throw new Error('503');
+          return quote(s, 10);
+        }),
+      };
+      const { router, advance, health } = setup([finnhub], { breaker: { failureThreshold: 2, cooldownMs: 1000 } });
+
+      await router.quote('A');
+      await router.quote('A');
+      expect(health('finnhub')).toMatchObject({ state: 'open', failures: 2, lastError: '503', reopensAt: 1000 });
+
+      const skipped = await router.quote('A');
+      expect(skipped.attempts[0].outcome).toBe('circuit_open');
+      expect(finnhub.quote).toHaveBeenCalledTimes(2);
+
+      advance(1000);
+      healthy = true;
+      const recovered = await router.quote('A');
+      expect(recovered.provider).toBe('finnhub');
+      expect(health('finnhub')).toMatchObject({ state: 'closed', consecutiveFailures: 0, circuitSkips: 1 });
+    });
+
+    it('should let only one trial through while half-open and restart the cooldown if it fails', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 100 });
+      breaker.recordFailure(0);
+      expect(breaker.allow(50)).toBe(false);
+      expect(breaker.state(100)).toBe('half_open');
+      expect(breaker.allow(100)).toBe(true);
+      expect(breaker.allow(100)).toBe(false);
+
+      breaker.recordFailure(120);
+      expect(breaker.state(150)).toBe('open');
+      expect(breaker.reopensAt()).toBe(220);
+    });
+  });
+
+  describe('rate budgets', () => {
+    it('should skip a provider whose budget is spent and use it again once the window slides', async () => {
+      const finnhub: MarketDataProvider = { id: 'finnhub', label: 'Finnhub', quote: async s => quote(s, 1) };
+      const supabase: MarketDataProvider = { id: 'supabase', label: 'Supabase', quote: async s => quote(s, 2) };
+      const { router, advance, health } = setup([finnhub, supabase], { budgets: { finnhub: { limit: 2, windowMs: 1000 } } });
+
+      expect((await router.quote('A')).provider).toBe('finnhub');
+      expect((await router.quote('B')).provider).toBe('finnhub');
+      const third = await router.quote('C');
+      expect(third.provider).toBe('supabase');
+      expect(third.attempts[0].outcome).toBe('rate_limited');
+      expect(health('finnhub')).toMatchObject({ rateLimited: 1, budget: { limit: 2, windowMs: 1000, remaining: 0 } });
+
+      advance(1000);
+      expect((await router.quote('D')).provider).toBe('finnhub');
+    });
+
+    it('should count calls in a sliding window', () => {
+      const budget = new RateLimitBudget({ limit: 2, windowMs: 100 });
+      expect(budget.tryAcquire(0)).toBe(true);
+      expect(budget.tryAcquire(60)).toBe(true);
+      expect(budget.tryAcquire(90)).toBe(false);
+      expect(budget.remaining(100)).toBe(1);
+    });
+  });
+
+  describe('batch quotes', () => {
+    it('should ask each provider only for the symbols earlier ones could not supply', async () => {
+      const finnhub: MarketDataProvider = {
+        id: 'finnhub',
+        label: 'Finnhub',
+        quotes: vi.fn(async () => new Map([['AAPL', quote('AAPL', 190)]])),
+      };
+      const supabase: MarketDataProvider = {
+        id: 'supabase',
+        label: 'Supabase',
+        quote: vi.fn(async s => (s === 'VTI' ? quote(s, 250) : null)),
+      };
+      const { router } = setup([finnhub, supabase]);
+      const result = await router.quotes(['aapl', 'VTI', 'ZZZ', 'AAPL']);
+
+      expect(finnhub.quotes).toHaveBeenCalledWith(['AAPL', 'VTI', 'ZZZ']);
+      expect(supabase.quote).toHaveBeenCalledTimes(2);
+      expect([...result.quotes].map(([s, q]) => [s, q.provider])).toEqual([
+        ['AAPL', 'finnhub'],
+        ['VTI', 'supabase'],
+      ]);
+      expect(result.missing).toEqual(['ZZZ']);
+    });
+  });
+
+  describe('health', () => {
+    it('should keep the snapshot stable until something changes and notify subscribers', async () => {
+      const { router } = setup([{ id: 'supabase', label: 'Supabase', quote: async s => quote(s, 1) }]);
+      const listener = vi.fn();
+      const unsubscribe = router.subscribe(listener);
+
+      const before = router.getHealth();
+      expect(router.getHealth()).toBe(before);
+
+      await router.quote('A');
+      expect(listener).toHaveBeenCalled();
+      const after = router.getHealth();
+      expect(after).not.toBe(before);
+      expect(after[0]).toMatchObject({ calls: 1, successes: 1, state: 'closed' });
+
+      router.resetHealth();
+      expect(router.getHealth()[0].calls).toBe(0);
+      unsubscribe();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Unit Tests for the model Excel export
+ * Workbook structure, formula recalculation against the engine, and assumptions round-trip
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  ASSUMPTIONS_SHEET,
+  buildCashFlowWorkbook,
+  readAssumptionsFromWorkbook,
+} from '@/services/modelExcelService';
+import { HistoricalFinancials, ProjectionAssumptions, runThreeStatementProjection } from '@/services/threeStatementEngine';
+
+const HISTORICAL: HistoricalFinancials = {
+  historical_years: ['2023', '2024'],
+  income_statement: {
+    revenue: { '2023': 90, '2024': 100 },
+    ebitda: { '2023': 18, '2024': 21 },
+    depreciation_amortization: { '2023': 4, '2024': 5 },
+  },
+  balance_sheet: {
+    cash: { '2024': 12 },
+    total_debt: { '2024': 50 },
+    accounts_receivable: { '2024': 15 },
+    accounts_payable: { '2024': 6 },
+    net_ppe: { '2024': 30 },
+  },
+  cash_flow: { capex: { '2023': -3, '2024': -4 } },
+};
+
+const ASSUMPTIONS: ProjectionAssumptions = {
+  revenue_growth: 8,
+  ebitda_margin: 22,
+  capex_pct: 3,
+  nwc_pct: 10,
+  tax_rate: 25,
+  da_pct: 4,
+  interest_rate: 7,
+  sbc_pct: 1,
+  cash_interest_rate: 4,
+  debt_repayment_pct: 10,
+};
+
+/**
+ * Minimal evaluator for the formula subset the exporter emits:
+ * cell references, defined names, arithmetic, comparisons, IF/MAX/MIN/ABS.
+ */
+function recalculate(wb: XLSX.WorkBook) {
+  const names = new Map((wb.Workbook?.Names || []).map(n => [n.Name, n.Ref]));
+  const cache = new Map<string, number>();
+
+  const evaluateRef = (sheet: string, addr: string): number => {
+    const key = `${sheet}!${addr}`;
+    if (cache.has(key)) return cache.get(key)!;
+    const cell = wb.Sheets[sheet]?.[addr];
+    if (!cell) return 0;
+    const value = cell.f ? evaluate(cell.f) : (cell.v as number);
+    cache.set(key, value);
+    return value;
+  };
+
+  const resolveName = (name: string): number => {
+    const ref = names.get(name);
+    if (!ref) throw new Error(`Unknown name ${name}`);
+    const [sheet, addr] = ref.replace(/'/g, '').split('!');
+    return evaluateRef(sheet, addr.replace(/\$/g, ''));
+  };
+
+  const evaluate = (formula: string): number => {
+    const js = formula
+      .replace(/(?:'([^']+)'|([A-Za-z]+))!([A-Z]+\d+)/g, (_, quoted, plain, addr) => `ref(${JSON.stringify(quoted || plain)},"${addr}")`)
+      .replace(/\b(IF|MAX|MIN|ABS)\(/g, (_, fn) => `${fn}_(`)
+      .replace(/\b([A-Za-z][A-Za-z_]*_[A-Za-z_]*|[A-Z][A-Za-z]*_[A-Za-z]+)\b(?!\(|_\()/g, m => (names.has(m) ? `name("${m}")` : m))
+      .replace(/([^<>=!])=([^=])/g, '$1===$2');
+    const fn = new Function('ref', 'name', 'IF_', 'MAX_', 'MIN_', 'ABS_', `return (${js});`);
+    return fn(
+      evaluateRef,
+      resolveName,
+      (c: boolean, a: number, b: number) => (c ? a : b),
+      Math.max,
+      Math.min,
+      Math.abs
+    );
+  };
+
+  return { evaluateRef };
+}
+
+const cellValue = (ws: XLSX.WorkSheet, r: number, c: number) => ws[XLSX.utils.encode_cell({ r, c })];
+
+function findRow(ws: XLSX.WorkSheet, label: string): number {
+  const range = XLSX.utils.decode_range(ws['!ref']!);
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    if (cellValue(ws, r, 0)?.v === label) return r;
+  }
+  throw new Error(`Row ${label} not found`);
+}
+
+describe('Model Excel Service', () => {
+  const wb = buildCashFlowWorkbook('Acme', HISTORICAL, ASSUMPTIONS);
+  const projection = runThreeStatementProjection(HISTORICAL, ASSUMPTIONS);
+
+  it('should write one sheet per schedule plus assumptions', () => {
+    expect(wb.SheetNames).toEqual([
+      ASSUMPTIONS_SHEET,
+      'Income Statement',
+      'Cash Flow Buildup',
+      'Cash Bridge',
+      'Balance Sheet',
+      'Key Metrics',
+    ]);
+  });
+
+  it('should use formulas referencing named assumptions for projected years', () => {
+    const ws = wb.Sheets['Income Statement'];
+    const revenueRow = findRow(ws, 'Revenue');
+    const historical = cellValue(ws, revenueRow, 2);
+    const projected = cellValue(ws, revenueRow, 3);
+
+    expect(historical.f).toBeUndefined();
+    expect(historical.v).toBe(100);
+    expect(projected.f).toBe("'Income Statement'!C5*(1+Revenue_Growth)");
+    expect(wb.Workbook?.Names?.find(n => n.Name === 'Revenue_Growth')?.Ref).toBe('Assumptions!$B$5');
+  });
+
+  it('should recalculate every formula to the engine values', () => {
+    const { evaluateRef } = recalculate(wb);
+    let formulas = 0;
+
+    wb.SheetNames.forEach(sheet => {
+      const ws = wb.Sheets[sheet];
+      Object.keys(ws)
+        .filter(addr => !addr.startsWith('!') && ws[addr].f)
+        .forEach(addr => {
+          formulas++;
+          expect(evaluateRef(sheet, addr)).toBeCloseTo(ws[addr].v as number, 6);
+        });
+    });
+    expect(formulas).toBeGreaterThan(100);
+  });
+
+  it('should carry the solved interest circularity and a zero balance check', () => {
+    const ws = wb.Sheets['Balance Sheet'];
+    const checkRow = findRow(ws, 'Balance Check (should be 0)');
+    const { evaluateRef } = recalculate(wb);
+
+    projection.projection_years.forEach((_, i) => {
+      const addr = XLSX.utils.encode_cell({ r: checkRow, c: 3 + i });
+      expect(Math.abs(evaluateRef('Balance Sheet', addr))).toBeLessThan(1e-6);
+    });
+
+    const incomeWs = wb.Sheets['Income Statement'];
+    const interestRow = findRow(incomeWs, 'Interest Income');
+    expect(cellValue(incomeWs, interestRow, 3).v).toBeCloseTo(projection.income_statement.interest_income['2025'], 9);
+  });
+
+  it('should flow edited assumptions through formulas', () => {
+    const edited = XLSX.utils.book_new();
+    wb.SheetNames.forEach(name => XLSX.utils.book_append_sheet(edited, { ...wb.Sheets[name] }, name));
+    edited.Workbook = wb.Workbook;
+    const ws = edited.Sheets[ASSUMPTIONS_SHEET];
+    ws.B5 = { ...ws.B5, v: 0.15 };
+
+    const { evaluateRef } = recalculate(edited);
+    const expected = runThreeStatementProjection(HISTORICAL, { ...ASSUMPTIONS, revenue_growth: 15 });
+    expect(evaluateRef('Cash Flow Buildup', 'H15')).toBeCloseTo(expected.cash_flow_statement.unlevered_fcf['2029'], 6);
+  });
+
+  it('should anchor the roll-forward on opening overrides when the balance sheet lacks cash and debt', () => {
+    const historical: HistoricalFinancials = {
+      ...HISTORICAL,
+      balance_sheet: { ...HISTORICAL.balance_sheet, cash: undefined, total_debt: undefined },
+    };
+    const assumptions = { ...ASSUMPTIONS, opening_cash: 10, opening_debt: 40 };
+    const overridden = buildCashFlowWorkbook('Acme', historical, assumptions);
+    const expected = runThreeStatementProjection(historical, assumptions);
+    const ws = overridden.Sheets['Balance Sheet'];
+    const { evaluateRef } = recalculate(overridden);
+
+    expect(cellValue(ws, findRow(ws, 'Cash'), 2).v).toBe(10);
+    expect(cellValue(ws, findRow(ws, 'Total Debt'), 2).v).toBe(40);
+    expected.projection_years.forEach((year, i) => {
+      const col = 3 + i;
+      expect(evaluateRef('Balance Sheet', XLSX.utils.encode_cell({ r: findRow(ws, 'Cash'), c: col }))).toBeCloseTo(expected.balance_sheet.cash[year], 6);
+      expect(evaluateRef('Balance Sheet', XLSX.utils.encode_cell({ r: findRow(ws, 'Total Debt'), c: col }))).toBeCloseTo(expected.balance_sheet.debt[year], 6);
+    });
+  });
+
+  it('should round-trip assumptions through a written file', () => {
+    const ws = wb.Sheets[ASSUMPTIONS_SHEET];
+    const taxRow = findRow(ws, 'Tax Rate');
+    const edited = { ...wb, Sheets: { ...wb.Sheets, [ASSUMPTIONS_SHEET]: { ...ws } } };
+    edited.Sheets[ASSUMPTIONS_SHEET][XLSX.utils.encode_cell({ r: taxRow, c: 1 })] = { t: 'n', v: 0.21 };
+
+    const buffer = XLSX.write(edited, { type: 'array', bookType: 'xlsx' });
+    const imported = readAssumptionsFromWorkbook(buffer);
+
+    expect(imported.tax_rate).toBe(21);
+    expect(imported.revenue_growth).toBe(8);
+    expect(imported.debt_repayment_pct).toBe(10);
+  });
+
+  it('should reject workbooks without a usable assumptions sheet', () => {
+    const other = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(other, XLSX.utils.aoa_to_sheet([['x']]), 'Sheet1');
+    expect(() => readAssumptionsFromWorkbook(XLSX.write(other, { type: 'array', bookType: 'xlsx' }))).toThrow(/Assumptions/);
+
+    const bad = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(bad, XLSX.utils.aoa_to_sheet([[], [], [], [], ['Tax Rate', 'n/a', 'tax_rate']]), ASSUMPTIONS_SHEET);
+    expect(() => readAssumptionsFromWorkbook(XLSX.write(bad, { type: 'array', bookType: 'xlsx' }))).toThrow(/Tax Rate/);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit Tests for model version history
+ * Snapshot diffing and append-only version recording
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const insertResults: Array<{ data: unknown; error: { code: string } | null }> = [];
+let latestVersion: number | null = null;
+
+vi.mock('@/integrations/supabase/client', () => {
+  const selectChain = {
+    eq: () => selectChain,
+    order: () => selectChain,
+    limit: () => selectChain,
+    maybeSingle: async () => ({
+      data: latestVersion === null ? null : { version_number: latestVersion },
+      error: null,
+    }),
+  };
+  return {
+    supabase: {
+      from: () => ({
+        select: () => selectChain,
+        insert: (row: { version_number: number }) => ({
+          select: () => ({
+            single: async () => {
+              const result = insertResults.shift() ?? { data: row, error: null };
+              if (result.error) latestVersion = row.version_number;
+              return result;
+            },
+          }),
+        }),
+      }),
+    },
+  };
+});
+
+import {
+  diffModelVersions,
+  diffValues,
+  flattenValues,
+  formatDiffPath,
+  recordModelVersion,
+} from '@/services/modelVersionService';
+
+const USER = { id: 'user-1', email: 'analyst@fund.com', user_metadata: { full_name: 'Alex Analyst' } } as never;
+const MODEL = { id: 'model-1', assumptions: { revenueGrowth: 10 }, model_data: null, scenarios: [] };
+
+describe('Model Version Service', () => {
+  beforeEach(() => {
+    insertResults.length = 0;
+    latestVersion = null;
+  });
+
+  describe('Diffing', () => {
+    it('should flatten nested objects and key arrays by id or year', () => {
+      const flat = flattenValues({
+        operating: { revenueGrowth: 8 },
+        tranches: [{ id: 'tlb', rate: 7 }],
+        projections: [{ year: 'Year 1', revenue: 110 }],
+        flags: [true],
+      });
+      expect(flat).toEqual({
+        'operating.revenueGrowth': 8,
+        'tranches[tlb].id': 'tlb',
+        'tranches[tlb].rate': 7,
+        'projections[Year 1].year': 'Year 1',
+        'projections[Year 1].revenue': 110,
+        'flags[0]': true,
+      });
+    });
+
+    it('should report numeric changes with delta and percent change', () => {
+      const [entry] = diffValues({ exitMultiple: 8 }, { exitMultiple: 10 });
+      expect(entry).toMatchObject({ path: 'exitMultiple', change: 'changed', before: 8, after: 10, delta: 2, pctChange: 0.25 });
+    });
+
+    it('should classify added and removed fields and ignore unchanged ones', () => {
+      const entries = diffValues({ a: 1, b: 2, c: 'x' }, { a: 1, c: 'y', d: 4 });
+      expect(entries.map(e => [e.path, e.change])).toEqual([
+        ['b', 'removed'],
+        ['c', 'changed'],
+        ['d', 'added'],
+      ]);
+      expect(entries[1].delta).toBeNull();
+    });
+
+    it('should not treat reordered tranches as changes', () => {
+      const before = { tranches: [{ id: 'a', x: 1 }, { id: 'b', x: 2 }] };
+      const after = { tranches: [{ id: 'b', x: 2 }, { id: 'a', x: 1 }] };
+      expect(diffValues(before, after)).toEqual([]);
+    });
+
+    it('should split assumption, output and scenario changes', () => {
+      const diff = diffModelVersions(
+        { assumptions: { revenueGrowth: 10 }, model_data: { returns: { irr: 20 } }, scenarios: [] },
+        { assumptions: { revenueGrowth: 12 }, model_data: { returns: { irr: 22.5 } }, scenarios: [{ id: 'up', overrides: { revenueGrowth: 15 } }] }
+      );
+      expect(diff.assumptions).toHaveLength(1);
+      expect(diff.outputs[0].path).toBe('returns.irr');
+      expect(diff.scenarios.map(e => e.path)).toEqual(['[up].id', '[up].overrides.revenueGrowth']);
+      expect(diff.scenarios.every(e => e.change === 'added')).toBe(true);
+    });
+
+    it('should produce readable labels from paths', () => {
+      expect(formatDiffPath('operating.revenueGrowth')).toBe('Operating › Revenue Growth');
+      expect(formatDiffPath('tranches[tlb].interest_rate')).toBe('Tranches[tlb] › Interest Rate');
+    });
+  });
+
+  describe('Recording', () => {
+    it('should number the first snapshot 1 and record the author', async () => {
+      const version = await recordModelVersion(MODEL, USER, { note: 'Created' });
+      expect(version).toMatchObject({ version_number: 1, author_name: 'Alex Analyst', created_by: 'user-1', note: 'Created' });
+    });
+
+    it('should follow the latest existing version number', async () => {
+      latestVersion = 4;
+      const version = await recordModelVersion(MODEL, USER, { restoredFromVersion: 2 });
+      expect(version).toMatchObject({ version_number: 5, restored_from_version: 2 });
+    });
+
+    it('should retry when a concurrent save takes the version number', async () => {
+      latestVersion = 1;
+      insertResults.push({ data: null, error: { code: '23505' } });
+      const version = await recordModelVersion(MODEL, USER);
+      expect(version).toMatchObject({ version_number: 3 });
+    });
+
+    it('should surface other insert errors', async () => {
+      insertResults.push({ data: null, error: { code: '42501' } });
+      await expect(recordModelVersion(MODEL, USER)).rejects.toMatchObject({ code: '42501' });
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Unit Tests for pipeline analytics
+ * Stage intervals, conversion funnel, velocity, aging alerts and win/loss
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+import {
+  AnalyticsCompany,
+  StageTransition,
+  buildStageIntervals,
+  computeConversionFunnel,
+  computeStageVelocity,
+  computeWinLoss,
+  findAgingDeals,
+  median,
+  outcomeOf,
+} from '@/services/pipelineAnalyticsService';
+import { PipelineStage } from '@/services/pipelineStageService';
+
+const STAGES: PipelineStage[] = [
+  { id: 'sourcing', title: 'Sourcing', color: 'slate', gates: [], agingDays: 30 },
+  { id: 'diligence', title: 'Diligence', color: 'amber', gates: [], agingDays: null },
+  { id: 'closing', title: 'Closing', color: 'emerald', gates: [] },
+];
+
+const NOW = new Date('2025-06-30T00:00:00Z');
+
+const move = (
+  company_id: string,
+  changed_at: string,
+  to_stage: string | null,
+  overrides: Partial<StageTransition> = {}
+): StageTransition => ({
+  company_id,
+  from_stage: null,
+  to_stage,
+  from_type: 'pipeline',
+  to_type: 'pipeline',
+  reason: null,
+  notes: null,
+  changed_by: null,
+  changed_at: `${changed_at}T00:00:00Z`,
+  ...overrides,
+});
+
+const TRANSITIONS: StageTransition[] = [
+  // a: sourcing 10d -> diligence 20d -> closing 5d -> won
+  move('a', '2025-01-01', 'sourcing', { from_type: null }),
+  move('a', '2025-01-11', 'diligence'),
+  move('a', '2025-01-31', 'closing'),
+  move('a', '2025-02-05', 'closing', { to_type: 'portfolio', reason: 'Best price' }),
+  // b: sourcing 20d -> passed
+  move('b', '2025-03-01', 'sourcing', { from_type: null }),
+  move('b', '2025-03-21', 'sourcing', { to_type: 'passed', reason: 'Valuation too high' }),
+  // c: sourcing 5d -> diligence, still open since May 1
+  move('c', '2025-04-26', 'sourcing', { from_type: null }),
+  move('c', '2025-05-01', 'diligence'),
+  // d: killed while in diligence
+  move('d', '2025-02-01', 'sourcing', { from_type: null }),
+  move('d', '2025-02-15', 'diligence'),
+  move('d', '2025-03-01', 'diligence', { to_type: 'passed', reason: 'Lost to another buyer' }),
+];
+
+const COMPANIES: AnalyticsCompany[] = [
+  { id: 'a', name: 'Alpha', industry: 'Technology', deal_source: 'Referral', company_type: 'portfolio', pipeline_stage: 'closing' },
+  { id: 'b', name: 'Beta', industry: 'Technology', deal_source: null, company_type: 'passed', pipeline_stage: 'sourcing' },
+  { id: 'c', name: 'Gamma', industry: 'Healthcare', deal_source: 'Referral', company_type: 'pipeline', pipeline_stage: 'diligence' },
+  { id: 'd', name: 'Delta', industry: 'Healthcare', deal_source: 'Banker/Broker', company_type: 'passed', pipeline_stage: 'diligence' },
+];
+
+describe('Pipeline Analytics Service', () => {
+  describe('median', () => {
+    it('should return null for no values and average the middle pair for even counts', () => {
+      expect(median([])).toBeNull();
+      expect(median([3, 1, 2])).toBe(2);
+      expect(median([4, 1, 3, 2])).toBe(2.5);
+    });
+  });
+
+  describe('buildStageIntervals', () => {
+    it('should close each stay at the next transition and leave active stays open', () => {
+      const intervals = buildStageIntervals(STAGES, TRANSITIONS, NOW);
+      const alpha = intervals.filter(i => i.companyId === 'a');
+
+      expect(alpha.map(i => [i.stageId, i.days])).toEqual([
+        ['sourcing', 10],
+        ['diligence', 20],
+        ['closing', 5],
+      ]);
+      expect(alpha.every(i => i.exitedAt !== null)).toBe(true);
+
+      const open = intervals.filter(i => i.exitedAt === null);
+      expect(open).toHaveLength(1);
+      expect(open[0]).toMatchObject({ companyId: 'c', stageId: 'diligence', days: 60 });
+    });
+
+    it('should count stages removed from the configuration towards the first stage', () => {
+      const intervals = buildStageIntervals(STAGES, [move('x', '2025-06-01', 'legacy-stage')], NOW);
+      expect(intervals[0].stageId).toBe('sourcing');
+    });
+  });
+
+  describe('outcomeOf', () => {
+    it('should classify exits from the pipeline by target type and reason', () => {
+      expect(outcomeOf(TRANSITIONS[3])).toBe('won');
+      expect(outcomeOf(TRANSITIONS[5])).toBe('passed');
+      expect(outcomeOf(TRANSITIONS[10])).toBe('killed');
+      expect(outcomeOf(TRANSITIONS[1])).toBeNull();
+    });
+  });
+
+  describe('computeConversionFunnel', () => {
+    it('should count deals reaching each stage and the share that advanced', () => {
+      const intervals = buildStageIntervals(STAGES, TRANSITIONS, NOW);
+      const funnel = computeConversionFunnel(STAGES, intervals, TRANSITIONS);
+
+      expect(funnel.map(f => [f.reached, f.advanced])).toEqual([
+        [4, 3],
+        [3, 1],
+        [1, 1],
+      ]);
+      expect(funnel[0].conversionRate).toBe(0.75);
+    });
+  });
+
+  describe('computeStageVelocity', () => {
+    it('should report medians over completed stays separately from current ones', () => {
+      const intervals = buildStageIntervals(STAGES, TRANSITIONS, NOW);
+      const [sourcing, diligence] = computeStageVelocity(STAGES, intervals);
+
+      expect(sourcing.medianDays).toBe(12);
+      expect(sourcing.completed).toBe(4);
+      expect(diligence.completed).toBe(2);
+      expect(diligence.medianDays).toBe(17);
+      expect(diligence.current).toBe(1);
+      expect(diligence.currentMedianDays).toBe(60);
+    });
+  });
+
+  describe('findAgingDeals', () => {
+    it('should flag active deals past their stage threshold, falling back to the default', () => {
+      const intervals = buildStageIntervals(STAGES, TRANSITIONS, NOW);
+      const alerts = findAgingDeals(STAGES, intervals, COMPANIES);
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({ companyId: 'c', companyName: 'Gamma', thresholdDays: 45 });
+    });
+
+    it('should ignore deals that have left the pipeline', () => {
+      const intervals = buildStageIntervals(STAGES, TRANSITIONS, NOW);
+      const closed = COMPANIES.map(c => ({ ...c, company_type: 'passed' }));
+      expect(findAgingDeals(STAGES, intervals, closed)).toEqual([]);
+    });
+  });
+
+  describe('computeWinLoss', () => {
+    it('should group outcomes and reasons by industry', () => {
+      const rows = computeWinLoss('industry', COMPANIES, TRANSITIONS);
+      const tech = rows.find(r => r.key === 'Technology')!;
+      const health = rows.find(r => r.key === 'Healthcare')!;
+
+      expect(tech).toMatchObject({ won: 1, passed: 1, killed: 0, total: 2, winRate: 0.5 });
+      expect(health).toMatchObject({ won: 0, passed: 0, killed: 1, total: 1 });
+      expect(health.reasons).toEqual([{ reason: 'Lost to another buyer', count: 1 }]);
+    });
+
+    it('should bucket deals without a source as unspecified', () => {
+      const rows = computeWinLoss('deal_source', COMPANIES, TRANSITIONS);
+      expect(rows.map(r => r.key).sort()).toEqual(['Banker/Broker', 'Referral', 'Unspecified']);
+    });
+  });
+});
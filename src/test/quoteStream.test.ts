@@ -0,0 +1,235 @@
+/**
+ * Unit Tests for the streaming quote subsystem
+ * Subscription multiplexing, throttled delivery, polling fallback, reconnect backoff and trading-hours pauses,
+ * driven against the mock quote feed through an in-memory socket
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MockQuoteFeed } from '@/services/mockQuoteFeed';
+import {
+  finnhubProtocol,
+  polygonProtocol,
+  QuoteStream,
+  resolveStreamEndpoint,
+  StreamProtocol,
+  StreamSocket,
+} from '@/services/quoteStreamService';
+
+class FakeSocket implements StreamSocket {
+  onopen: StreamSocket['onopen'] = null;
+  onmessage: StreamSocket['onmessage'] = null;
+  onerror: StreamSocket['onerror'] = null;
+  onclose: StreamSocket['onclose'] = null;
+  sent: string[] = [];
+  received: string[] = [];
+  closed = false;
+  feed = new MockQuoteFeed(data => this.deliver(data), { seed: 7 });
+
+  open() {
+    this.onopen?.(null);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+    this.feed.receive(data);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  // The server went away
+  drop() {
+    this.onclose?.(null);
+  }
+
+  lastPrice(symbol: string) {
+    const trades = JSON.parse(this.received[this.received.length - 1]) as { sym: string; p: number }[];
+    return trades.find(t => t.sym === symbol)!.p;
+  }
+
+  private deliver(data: string) {
+    this.received.push(data);
+    this.onmessage?.({ data });
+  }
+}
+
+function setup(options: { protocol?: StreamProtocol; noEndpoint?: boolean } = {}) {
+  const sockets: FakeSocket[] = [];
+  let active = true;
+  const poll = vi.fn(async (symbols: string[]) => symbols.map(symbol => ({ symbol, price: 50, size: null, timestamp: Date.now() })));
+  const stream = new QuoteStream({
+    endpoint: options.noEndpoint ? null : { provider: 'mock', url: 'ws://localhost/mock-quotes', protocol: options.protocol ?? polygonProtocol('key') },
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    poll,
+    isActive: () => active,
+  });
+  const received = vi.fn();
+  stream.onTicks(received);
+  return {
+    stream,
+    sockets,
+    poll,
+    received,
+    setActive: (value: boolean) => {
+      active = value;
+    },
+  };
+}
+
+describe('Quote Stream', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('subscriptions', () => {
+    it('should subscribe each symbol once however many components watch it', () => {
+      const { stream, sockets } = setup();
+      stream.retain('aapl');
+      stream.retain('AAPL');
+      stream.retain('MSFT');
+      expect(sockets).toHaveLength(1);
+
+      sockets[0].open();
+      expect(stream.getState()).toMatchObject({ status: 'streaming', symbols: 2 });
+      expect(sockets[0].sent.slice(1)).toEqual([JSON.stringify({ action: 'subscribe', params: 'T.AAPL,T.MSFT' })]);
+
+      stream.release('AAPL');
+      expect(sockets[0].feed.symbols).toEqual(['AAPL', 'MSFT']);
+      stream.release('AAPL');
+      expect(sockets[0].feed.symbols).toEqual(['MSFT']);
+
+      stream.release('MSFT');
+      expect(sockets[0].closed).toBe(true);
+      expect(stream.getState().status).toBe('idle');
+    });
+
+    it('should speak the Finnhub protocol', () => {
+      const { stream, sockets, received } = setup({ protocol: finnhubProtocol });
+      stream.retain('AAPL');
+      sockets[0].open();
+      expect(sockets[0].sent).toEqual([JSON.stringify({ type: 'subscribe', symbol: 'AAPL' })]);
+
+      sockets[0].feed.tick();
+      vi.advanceTimersByTime(0);
+      const [ticks] = received.mock.calls[0];
+      expect(ticks.get('AAPL')).toMatchObject({ symbol: 'AAPL', source: 'stream' });
+    });
+  });
+
+  describe('throttling', () => {
+    it('should deliver at most one batch per throttle window, carrying the latest price', () => {
+      const { stream, sockets, received } = setup();
+      stream.retain('AAPL');
+      sockets[0].open();
+
+      for (let i = 0; i < 5; i++) sockets[0].feed.tick();
+      vi.advanceTimersByTime(0);
+      expect(received).toHaveBeenCalledTimes(1);
+      expect(received.mock.calls[0][0].get('AAPL').price).toBe(sockets[0].lastPrice('AAPL'));
+
+      for (let i = 0; i < 3; i++) sockets[0].feed.tick();
+      vi.advanceTimersByTime(500);
+      expect(received).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(500);
+      expect(received).toHaveBeenCalledTimes(2);
+      expect(received.mock.calls[1][0].get('AAPL').price).toBe(sockets[0].lastPrice('AAPL'));
+    });
+  });
+
+  describe('fallback', () => {
+    it('should poll while disconnected and stop once the stream reconnects', async () => {
+      const { stream, sockets, poll, received } = setup();
+      stream.retain('AAPL');
+      sockets[0].open();
+      sockets[0].drop();
+      expect(stream.getState()).toMatchObject({ status: 'polling', reconnectAttempts: 1 });
+
+      // Backoff doubles while reconnects keep failing
+      vi.advanceTimersByTime(1000);
+      expect(sockets).toHaveLength(2);
+      sockets[1].drop();
+      vi.advanceTimersByTime(1999);
+      expect(sockets).toHaveLength(2);
+      vi.advanceTimersByTime(1);
+      expect(sockets).toHaveLength(3);
+
+      await vi.advanceTimersByTimeAsync(30 * 1000);
+      expect(poll).toHaveBeenCalledWith(['AAPL']);
+      expect(received.mock.calls.at(-1)![0].get('AAPL')).toMatchObject({ price: 50, source: 'poll' });
+
+      sockets[2].open();
+      expect(stream.getState()).toMatchObject({ status: 'streaming', reconnectAttempts: 0 });
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(poll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to polling for the session when the provider rejects the credentials', async () => {
+      const { stream, sockets, poll } = setup({ protocol: polygonProtocol('') });
+      stream.retain('AAPL');
+      sockets[0].open();
+      expect(stream.getState()).toMatchObject({ status: 'polling', lastError: 'authentication failed' });
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(sockets).toHaveLength(1);
+      expect(poll).toHaveBeenCalledTimes(2);
+    });
+
+    it('should poll when no stream is configured', async () => {
+      const { stream, sockets, poll } = setup({ noEndpoint: true });
+      stream.retain('AAPL');
+      expect(stream.getState().status).toBe('polling');
+
+      await vi.advanceTimersByTimeAsync(30 * 1000);
+      expect(sockets).toHaveLength(0);
+      expect(poll).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('trading hours', () => {
+    it('should pause outside trading hours and resume at the next activity check', async () => {
+      const { stream, sockets, poll, setActive } = setup();
+      stream.retain('AAPL');
+      sockets[0].open();
+
+      setActive(false);
+      stream.refreshActivity();
+      expect(sockets[0].closed).toBe(true);
+      expect(stream.getState().status).toBe('paused');
+
+      await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+      expect(sockets).toHaveLength(1);
+      expect(poll).not.toHaveBeenCalled();
+
+      setActive(true);
+      vi.advanceTimersByTime(60 * 1000);
+      expect(sockets).toHaveLength(2);
+      sockets[1].open();
+      expect(sockets[1].feed.symbols).toEqual(['AAPL']);
+    });
+  });
+
+  describe('endpoint', () => {
+    it('should prefer a provider key and only use the mock feed when asked for', () => {
+      expect(resolveStreamEndpoint({ VITE_FINNHUB_API_KEY: 'abc' })).toMatchObject({
+        provider: 'finnhub',
+        url: 'wss://ws.finnhub.io?token=abc',
+      });
+      expect(resolveStreamEndpoint({ VITE_FINNHUB_API_KEY: 'abc', VITE_QUOTE_STREAM: 'mock', DEV: true })).toMatchObject({
+        provider: 'mock',
+        url: `ws://${window.location.host}/mock-quotes`,
+      });
+      expect(resolveStreamEndpoint({ VITE_QUOTE_STREAM: 'mock' })?.provider).toBe('mock');
+      expect(resolveStreamEndpoint({ DEV: true })).toBeNull();
+      expect(resolveStreamEndpoint({ DEV: false })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Unit Tests for the rebalancing engine
+ * Calendar and threshold triggers, cash-flow-first funding, trade sizing and tax-aware lot selection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTradeListCSV,
+  calendarMonths,
+  holdingsFromPositions,
+  planRebalance,
+  RebalanceHolding,
+  RebalanceOptions,
+  rebalancingRulesFromProfile,
+} from '@/services/rebalancingService';
+import { OpenLot } from '@/services/taxLotService';
+
+const lot = (id: string, symbol: string, shares: number, costPerShare: number, date: string): OpenLot => ({
+  id,
+  symbol,
+  source: 'buy',
+  purchaseDate: date,
+  holdingPeriodStart: date,
+  shares,
+  costPerShare,
+  washSaleAdjustment: 0,
+});
+
+const holding = (symbol: string, shares: number, costPerShare = 100): RebalanceHolding => ({
+  symbol,
+  shares,
+  lots: [lot(`${symbol}-1`, symbol, shares, costPerShare, '2020-01-02')],
+});
+
+const sixtyForty = [
+  { symbol: 'SPY', weight: 60 },
+  { symbol: 'BND', weight: 40 },
+];
+const prices = new Map([['SPY', 100], ['BND', 100]]);
+const thresholdOnly: RebalanceOptions = { rules: { frequency: 'threshold-based', threshold: 5 }, asOf: '2024-06-03' };
+
+const tradeSummary = (trades: { action: string; symbol: string; shares: number }[]) =>
+  trades.map(t => `${t.action} ${t.shares} ${t.symbol}`);
+
+describe('Rebalancing', () => {
+  describe('rules', () => {
+    it('should read calendar frequencies loosely and treat anything else as threshold-only', () => {
+      expect(calendarMonths('Quarterly')).toBe(3);
+      expect(calendarMonths('semi-annually')).toBe(6);
+      expect(calendarMonths('annually')).toBe(12);
+      expect(calendarMonths('threshold-based')).toBeNull();
+    });
+
+    it('should fall back to the policy defaults when a profile has no rules', () => {
+      expect(rebalancingRulesFromProfile({ investableCapital: 1000 })).toEqual({ frequency: 'quarterly', threshold: 5 });
+      expect(rebalancingRulesFromProfile({ rebalancingRules: { frequency: 'annually', threshold: 3 } })).toEqual({
+        frequency: 'annually',
+        threshold: 3,
+      });
+    });
+  });
+
+  describe('triggers', () => {
+    const drifted = [holding('SPY', 62), holding('BND', 38)];
+    const quarterly = { frequency: 'quarterly', threshold: 5 };
+
+    it('should hold inside the band until the calendar comes due', () => {
+      const early = planRebalance(sixtyForty, drifted, prices, { rules: quarterly, asOf: '2024-03-01', lastRebalanced: '2024-01-15' });
+      expect(early.trigger.reason).toBeNull();
+      expect(early.trigger.nextCalendarDate).toBe('2024-04-15');
+      expect(early.trigger.maxDrift).toBeCloseTo(2, 10);
+      expect(early.trades).toEqual([]);
+
+      const due = planRebalance(sixtyForty, drifted, prices, { rules: quarterly, asOf: '2024-04-15', lastRebalanced: '2024-01-15' });
+      expect(due.trigger.reason).toBe('calendar');
+      expect(tradeSummary(due.trades)).toEqual(['sell 2 SPY', 'buy 2 BND']);
+    });
+
+    it('should keep scheduled dates on the last day of short months', () => {
+      const plan = planRebalance(sixtyForty, drifted, prices, { rules: quarterly, asOf: '2024-01-02', lastRebalanced: '2023-11-30' });
+      expect(plan.trigger.nextCalendarDate).toBe('2024-02-29');
+    });
+
+    it('should rebalance to target when a position leaves its band', () => {
+      const plan = planRebalance(sixtyForty, [holding('SPY', 70), holding('BND', 30)], prices, thresholdOnly);
+      expect(plan.trigger.reason).toBe('threshold');
+      expect(plan.trigger.outsideBand).toEqual(['BND', 'SPY']);
+      expect(tradeSummary(plan.trades)).toEqual(['sell 10 SPY', 'buy 10 BND']);
+      expect(plan.allocation.map(a => a.projectedWeight)).toEqual([40, 60]);
+      expect(plan.turnover).toBeCloseTo(0.1, 10);
+    });
+  });
+
+  describe('cash flows', () => {
+    it('should invest a deposit in what is underweight and skip selling when that restores the band', () => {
+      const plan = planRebalance(sixtyForty, [holding('SPY', 75), holding('BND', 25)], prices, { ...thresholdOnly, cashFlow: 2000 });
+      expect(plan.trigger.reason).toBe('cash_flow');
+      expect(plan.trigger.maxDrift).toBeCloseTo(15, 10);
+      expect(plan.trigger.maxDriftAfterCashFlow).toBeCloseTo(2.5, 10);
+      expect(tradeSummary(plan.trades)).toEqual(['buy 20 BND']);
+      expect(plan.cashAfter).toBeCloseTo(0, 10);
+    });
+
+    it('should fund a withdrawal from what is overweight, then rebalance if drift remains', () => {
+      const plan = planRebalance(sixtyForty, [holding('SPY', 70), holding('BND', 30)], prices, {
+        ...thresholdOnly,
+        rules: { frequency: 'threshold-based', threshold: 10 },
+        cashFlow: -1000,
+      });
+      expect(plan.trigger.reason).toBe('cash_flow');
+      expect(tradeSummary(plan.trades)).toEqual(['sell 10 SPY']);
+      expect(plan.cashAfter).toBeCloseTo(0, 10);
+
+      const tight = planRebalance(sixtyForty, [holding('SPY', 70), holding('BND', 30)], prices, { ...thresholdOnly, cashFlow: -1000 });
+      expect(tight.trigger.reason).toBe('threshold');
+      expect(tradeSummary(tight.trades)).toEqual(['sell 16 SPY', 'buy 6 BND']);
+      expect(tight.totalValue).toBeCloseTo(9000, 10);
+    });
+
+    it('should refuse a withdrawal larger than the portfolio', () => {
+      expect(() => planRebalance(sixtyForty, [holding('SPY', 1)], prices, { ...thresholdOnly, cashFlow: -500 })).toThrow(
+        /exceeds the portfolio's value/
+      );
+    });
+  });
+
+  describe('trade sizing', () => {
+    const halves = [
+      { symbol: 'AAA', weight: 50 },
+      { symbol: 'BBB', weight: 50 },
+    ];
+
+    it('should round buys to whole shares and spend the remainder on the furthest-below-target buy', () => {
+      const plan = planRebalance(halves, [], new Map([['AAA', 30], ['BBB', 60]]), { ...thresholdOnly, cashBalance: 1000 });
+      expect(tradeSummary(plan.trades)).toEqual(['buy 17 AAA', 'buy 8 BBB']);
+      expect(plan.cashAfter).toBeCloseTo(10, 10);
+
+      const fractional = planRebalance(halves, [], new Map([['AAA', 30], ['BBB', 60]]), {
+        ...thresholdOnly,
+        cashBalance: 1000,
+        wholeShares: false,
+      });
+      expect(fractional.trades[0].value).toBeCloseTo(500, 8);
+      expect(fractional.trades[1].value).toBeCloseTo(500, 8);
+    });
+
+    it('should skip trades below the minimum size', () => {
+      const plan = planRebalance(sixtyForty, [holding('SPY', 60), holding('BND', 40)], prices, {
+        ...thresholdOnly,
+        cashFlow: 200,
+        minTradeValue: 500,
+      });
+      expect(plan.trades).toEqual([]);
+      expect(plan.skipped.map(s => s.symbol)).toEqual(['SPY', 'BND']);
+      expect(plan.cashAfter).toBeCloseTo(200, 10);
+    });
+
+    it('should sell the whole of a position that is no longer targeted', () => {
+      const plan = planRebalance(sixtyForty, [holding('SPY', 60), holding('BND', 36.5), holding('XYZ', 3.5)], new Map([...prices, ['XYZ', 100]]), {
+        ...thresholdOnly,
+        force: true,
+      });
+      expect(plan.trigger.reason).toBe('manual');
+      expect(tradeSummary(plan.trades)).toEqual(['sell 3.5 XYZ', 'buy 3 BND']);
+      expect(plan.allocation.find(a => a.symbol === 'XYZ')!.projectedShares).toBe(0);
+    });
+
+    it('should need a price for every symbol', () => {
+      expect(() => planRebalance(sixtyForty, [], new Map([['SPY', 100]]), { ...thresholdOnly, cashBalance: 100 })).toThrow(/No price for BND/);
+    });
+  });
+
+  describe('tax-aware lot selection', () => {
+    const spy: RebalanceHolding = {
+      symbol: 'SPY',
+      shares: 80,
+      lots: [lot('old', 'SPY', 40, 50, '2020-01-02'), lot('recent', 'SPY', 40, 120, '2024-01-02')],
+    };
+    const options: RebalanceOptions = { ...thresholdOnly, taxRates: { shortTerm: 0.35, longTerm: 0.15 } };
+
+    it('should sell loss lots before gains when minimizing tax', () => {
+      const plan = planRebalance(sixtyForty, [spy, holding('BND', 20)], prices, options);
+      const [sell] = plan.trades;
+      expect(sell).toMatchObject({ action: 'sell', shares: 20, shortTermGain: -400, longTermGain: 0, estimatedTax: 0 });
+      expect(sell.lots.map(l => l.lotId)).toEqual(['recent']);
+
+      const fifo = planRebalance(sixtyForty, [spy, holding('BND', 20)], prices, { ...options, lotMethod: 'fifo' });
+      expect(fifo.trades[0]).toMatchObject({ longTermGain: 1000, estimatedTax: 150, isLongTermGain: true });
+      expect(fifo.estimatedTax).toBeCloseTo(150, 10);
+    });
+
+    it('should warn about shares sold without a recorded basis', () => {
+      const plan = planRebalance(sixtyForty, [{ symbol: 'SPY', shares: 70, lots: [] }, holding('BND', 30)], prices, options);
+      expect(plan.trades[0].lots).toEqual([expect.objectContaining({ lotId: 'untracked', shares: 10, gain: 0 })]);
+      expect(plan.warnings[0]).toMatch(/SPY: 10 shares sold have no recorded cost basis/);
+    });
+  });
+
+  describe('holdingsFromPositions', () => {
+    it('should use recorded lots only when they match the shares held', () => {
+      const position = (id: string, symbol: string, quantity: number, purchase_date: string | null) => ({
+        id,
+        symbol,
+        quantity,
+        cost_basis: quantity * 90,
+        cost_per_share: null,
+        purchase_date,
+      });
+      const recorded = [lot('r1', 'SPY', 6, 80, '2021-03-01'), lot('r2', 'SPY', 4, 95, '2022-03-01'), lot('r3', 'BND', 5, 70, '2021-03-01')];
+      const [bnd, spy] = holdingsFromPositions(
+        [position('p1', 'bnd', 8, '2023-05-01T00:00:00Z'), position('p2', 'BND', 2, null), position('p3', 'SPY', 10, '2020-01-02')],
+        recorded
+      ).sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+      expect(spy.lots.map(l => l.id)).toEqual(['r1', 'r2']);
+      expect(bnd.shares).toBe(10);
+      expect(bnd.lots).toEqual([expect.objectContaining({ id: 'p1', shares: 8, costPerShare: 90, holdingPeriodStart: '2023-05-01' })]);
+    });
+  });
+
+  describe('trade list export', () => {
+    it('should write sells then buys with the lots relieved', () => {
+      const plan = planRebalance(sixtyForty, [holding('SPY', 70, 80), holding('BND', 30)], prices, thresholdOnly);
+      const [header, sell, buy] = buildTradeListCSV(plan).split('\r\n');
+      expect(header).toBe('Action,Symbol,Shares,Price,Value,Lots,Short-Term Gain,Long-Term Gain,Estimated Tax');
+      expect(sell).toBe('SELL,SPY,10,100.00,1000.00,"SPY-1 (10 @ 80.00, long-term)",0.00,200.00,30.00');
+      expect(buy).toBe('BUY,BND,10,100.00,1000.00,,0.00,0.00,0.00');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Unit Tests for risk budgeting
+ * Risk contributions, equal-risk-contribution weights, factor decomposition and tracking error
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  alignReturnsByDate,
+  analyzePortfolioRisk,
+  buildFactorReturns,
+  factorDecomposition,
+  FACTOR_TICKERS,
+  riskContributions,
+  trackingError,
+  RiskFactor,
+} from '@/services/riskBudgetingService';
+import { EqualRiskContribution } from '@/services/portfolioOptimizer';
+import { createNormalSampler, createRng } from '@/services/seededRandom';
+
+const covariance = [
+  [0.04, 0.006, 0.002],
+  [0.006, 0.0225, -0.003],
+  [0.002, -0.003, 0.01],
+];
+const symbols = ['QQQ', 'TLT', 'GLD'];
+
+const sum = (x: number[]) => x.reduce((a, b) => a + b, 0);
+
+// Consecutive ISO date labels, which sort chronologically
+const dateLabels = (days: number) =>
+  Array.from({ length: days }, (_, t) => new Date(Date.UTC(2020, 0, 1) + t * 86400000).toISOString().split('T')[0]);
+
+describe('Risk Budgeting', () => {
+  describe('riskContributions', () => {
+    it('should split volatility into contributions that sum to the total', () => {
+      const weights = [0.5, 0.3, 0.2];
+      const result = riskContributions(symbols, weights, covariance);
+      const variance = weights.reduce((s, wi, i) => s + wi * weights.reduce((t, wj, j) => t + covariance[i][j] * wj, 0), 0);
+
+      expect(result.volatility).toBeCloseTo(Math.sqrt(variance), 12);
+      expect(sum(result.positions.map(p => p.component))).toBeCloseTo(result.volatility, 12);
+      expect(sum(result.positions.map(p => p.percent))).toBeCloseTo(1, 12);
+
+      // Marginal contribution matches a finite-difference derivative of σ
+      const h = 1e-6;
+      const bumped = riskContributions(symbols, [0.5 + h, 0.3, 0.2], covariance).volatility;
+      expect(result.positions[0].marginal).toBeCloseTo((bumped - result.volatility) / h, 5);
+    });
+  });
+
+  describe('EqualRiskContribution', () => {
+    const erc = new EqualRiskContribution();
+
+    it('should equalize risk contributions', () => {
+      const weights = erc.computeWeightsFromCovariance(symbols, covariance);
+      const w = symbols.map(s => weights.get(s)!);
+      expect(sum(w)).toBeCloseTo(1, 12);
+      riskContributions(symbols, w, covariance).positions.forEach(p => expect(p.percent).toBeCloseTo(1 / 3, 8));
+    });
+
+    it('should reduce to inverse volatility for uncorrelated assets', () => {
+      const weights = erc.computeWeightsFromCovariance(['A', 'B'], [[0.04, 0], [0, 0.01]]);
+      expect(weights.get('A')).toBeCloseTo(1 / 3, 10);
+      expect(weights.get('B')).toBeCloseTo(2 / 3, 10);
+    });
+
+    it('should honour unequal risk budgets', () => {
+      const budgets = new Map([['QQQ', 2], ['TLT', 1], ['GLD', 1]]);
+      const weights = erc.computeWeightsFromCovariance(symbols, covariance, budgets);
+      const shares = riskContributions(symbols, symbols.map(s => weights.get(s)!), covariance).positions.map(p => p.percent);
+      expect(shares[0]).toBeCloseTo(0.5, 8);
+      expect(shares[1]).toBeCloseTo(0.25, 8);
+      expect(() => erc.computeWeightsFromCovariance(symbols, covariance, new Map([['QQQ', 1]]))).toThrow(
+        'Risk budget for TLT must be positive'
+      );
+    });
+
+    it('should build the covariance from correlations and volatilities', () => {
+      const asset = (ticker: string, volatility: number) => ({ ticker, volatility, avgReturn: 0.05, skewness: 0, kurtosis: 3, volume: 1e6 });
+      const weights = erc.computeWeights(
+        { symbols: ['A', 'B'], matrix: [[1, 0], [0, 1]] },
+        new Map([['A', asset('A', 0.2)], ['B', asset('B', 0.1)]])
+      );
+      expect(weights.get('B')).toBeCloseTo(2 / 3, 10);
+    });
+  });
+
+  describe('factorDecomposition', () => {
+    it('should recover known factor loadings and split variance exactly', () => {
+      const normal = createNormalSampler(createRng(11));
+      const T = 500;
+      const market = Array.from({ length: T }, () => 0.01 * normal());
+      const rates = Array.from({ length: T }, () => 0.006 * normal());
+      const portfolio = market.map((m, t) => 0.0002 + 0.9 * m - 0.4 * rates[t] + 0.002 * normal());
+      const factors = new Map<RiskFactor, number[]>([['market', market], ['rates', rates]]);
+
+      const result = factorDecomposition(portfolio, factors);
+      expect(result.exposures[0].beta).toBeCloseTo(0.9, 1);
+      expect(result.exposures[1].beta).toBeCloseTo(-0.4, 1);
+      expect(result.exposures[0].tStat).toBeGreaterThan(10);
+      expect(result.rSquared).toBeGreaterThan(0.9);
+      expect(result.systematicVariance + result.idiosyncraticVariance).toBeCloseTo(result.totalVariance, 12);
+      expect(sum(result.exposures.map(e => e.variance))).toBeCloseTo(result.systematicVariance, 12);
+    });
+
+    it('should explain why it cannot regress', () => {
+      const short = new Map<RiskFactor, number[]>([['market', [0.01, -0.01, 0.02]]]);
+      expect(() => factorDecomposition([0.01, 0, 0.01], short)).toThrow(/need at least 60/);
+
+      const x = Array.from({ length: 100 }, (_, t) => Math.sin(t));
+      const collinear = new Map<RiskFactor, number[]>([['market', x], ['size', x.map(v => 2 * v)]]);
+      expect(() => factorDecomposition(x, collinear)).toThrow(/collinear/);
+    });
+  });
+
+  describe('buildFactorReturns', () => {
+    it('should form long-short proxies and start after the momentum warm-up', () => {
+      const normal = createNormalSampler(createRng(4));
+      const T = 400;
+      const dates = dateLabels(T);
+      const returns = new Map(FACTOR_TICKERS.map(t => [t, Array.from({ length: T }, () => 0.01 * normal())]));
+      const built = buildFactorReturns({ dates, returns });
+
+      expect(built.omitted).toEqual([]);
+      expect(built.dates).toEqual(dates.slice(252));
+      const t = 10;
+      expect(built.factors.get('size')![t]).toBeCloseTo(returns.get('IWM')![252 + t] - returns.get('SPY')![252 + t], 15);
+      expect(built.factors.get('credit')![t]).toBeCloseTo(returns.get('HYG')![252 + t] - returns.get('IEF')![252 + t], 15);
+    });
+
+    it('should go long past winners and short past losers', () => {
+      const T = 400;
+      const universe = ['SPY', 'QQQ', 'IWM', 'VTI', 'VOO', 'SCHD', 'DIA'];
+      // QQQ trends up and DIA down before the first ranking; afterwards only those two move
+      const returns = new Map(
+        universe.map(ticker => [
+          ticker,
+          Array.from({ length: T }, (_, t) => {
+            if (t < 252) return ticker === 'QQQ' ? 0.002 : ticker === 'DIA' ? -0.002 : 0;
+            return ticker === 'QQQ' ? 0.01 : ticker === 'DIA' ? -0.01 : 0;
+          }),
+        ])
+      );
+      const built = buildFactorReturns({ dates: dateLabels(T), returns });
+      // Two-ETF legs: QQQ plus a flat ETF long, DIA plus a flat ETF short
+      expect(built.factors.get('momentum')![0]).toBeCloseTo(0.01, 12);
+      expect(built.omitted.map(o => o.factor)).toEqual(['rates', 'credit']);
+    });
+  });
+
+  describe('trackingError', () => {
+    it('should measure active risk and attribute it to positions and the benchmark', () => {
+      const normal = createNormalSampler(createRng(21));
+      const T = 300;
+      const spy = Array.from({ length: T }, () => 0.01 * normal());
+      const tlt = Array.from({ length: T }, () => 0.008 * normal());
+      const returns = new Map([['SPY', spy], ['TLT', tlt], ['VTI', spy.map(r => r + 0.0005 * normal())]]);
+
+      const result = trackingError(['SPY', 'TLT'], [0.6, 0.4], returns, 'VTI');
+      const active = spy.map((r, t) => 0.6 * r + 0.4 * tlt[t] - returns.get('VTI')![t]);
+      const m = sum(active) / T;
+      const te = Math.sqrt((active.reduce((s, a) => s + (a - m) ** 2, 0) / (T - 1)) * 252);
+
+      expect(result.trackingError).toBeCloseTo(te, 12);
+      expect(result.activeReturn).toBeCloseTo(m * 252, 12);
+      expect(result.informationRatio).toBeCloseTo((m * 252) / te, 12);
+      expect(sum(result.contributions.map(c => c.component)) + result.benchmarkContribution.component).toBeCloseTo(te, 12);
+      expect(sum(result.contributions.map(c => c.percent)) + result.benchmarkContribution.percent).toBeCloseTo(1, 12);
+      expect(result.beta).toBeCloseTo(0.6, 1);
+
+      // Holding the benchmark itself has no active risk
+      expect(trackingError(['VTI'], [1], returns, 'VTI').trackingError).toBeCloseTo(0, 15);
+    });
+  });
+
+  describe('analyzePortfolioRisk', () => {
+    it('should align dates and report what it could not compute', () => {
+      const normal = createNormalSampler(createRng(8));
+      const dates = dateLabels(120);
+      const byDate = (scale: number, skip?: number) =>
+        new Map(dates.filter((_, t) => t !== skip).map(d => [d, scale * normal()] as [string, number]));
+      const returnsByDate = new Map([['QQQ', byDate(0.015, 5)], ['TLT', byDate(0.008)], ['SPY', byDate(0.01)]]);
+
+      const report = analyzePortfolioRisk(new Map([['QQQ', 0.7], ['TLT', 0.3]]), returnsByDate, 'SPY');
+      expect(report.observations).toBe(119);
+      expect(alignReturnsByDate(returnsByDate).dates).not.toContain(dates[5]);
+      expect(sum(report.riskParity.positions.map(p => p.percent))).toBeCloseTo(1, 12);
+      expect(report.riskParity.positions[0].percent).toBeCloseTo(0.5, 8);
+      expect(report.trackingError?.benchmark).toBe('SPY');
+      // Only SPY and TLT among the factor ETFs have history
+      expect(report.factors?.exposures.map(e => e.factor)).toEqual(['market', 'rates']);
+      expect(report.factors?.omitted.map(o => o.factor)).toEqual(['size', 'value', 'momentum', 'credit']);
+
+      const noBenchmark = analyzePortfolioRisk(new Map([['QQQ', 1]]), returnsByDate, 'AGG');
+      expect(noBenchmark.trackingError).toBeNull();
+      expect(noBenchmark.trackingErrorMessage).toBe('No price history for benchmark AGG');
+      expect(() => analyzePortfolioRisk(new Map([['XYZ', 1]]), returnsByDate, 'SPY')).toThrow('No price history for XYZ');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit Tests for the scenario & sensitivity service
+ * Assumption overrides, named scenarios and two-way sensitivity grids
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyScenario,
+  buildSensitivityAxis,
+  cashFlowScenarioAdapter,
+  createDefaultScenarios,
+  getAssumptionValue,
+  lboScenarioAdapter,
+  parseScenarios,
+  runScenarios,
+  runSensitivityGrid,
+  setAssumptionValue,
+} from '@/services/scenarioService';
+import { ProjectionAssumptions } from '@/services/threeStatementEngine';
+import { DEFAULT_LBO_ASSUMPTIONS, LBOAssumptions, operatingCaseFromAssumptions } from '@/services/lboModelService';
+
+const HISTORICAL = {
+  historical_years: ['2023', '2024'],
+  income_statement: {
+    revenue: { '2023': 90, '2024': 100 },
+    ebitda: { '2023': 18, '2024': 20 },
+  },
+  balance_sheet: { cash: { '2024': 10 }, total_debt: { '2024': 40 } },
+};
+
+const ASSUMPTIONS: ProjectionAssumptions = {
+  revenue_growth: 10,
+  ebitda_margin: 20,
+  capex_pct: 3,
+  nwc_pct: 10,
+  tax_rate: 25,
+  da_pct: 4,
+  interest_rate: 8,
+};
+
+const buildOperatingCase = (a: LBOAssumptions) =>
+  operatingCaseFromAssumptions(a.entryEbitda / (a.operating.ebitdaMargin / 100), a.operating, ['2025', '2026', '2027', '2028', '2029']);
+
+describe('Scenario Service', () => {
+  describe('Assumption paths', () => {
+    it('should read and write nested assumptions without mutating the base', () => {
+      const updated = setAssumptionValue(DEFAULT_LBO_ASSUMPTIONS, 'operating.revenueGrowth', 12);
+      expect(getAssumptionValue(updated, 'operating.revenueGrowth')).toBe(12);
+      expect(DEFAULT_LBO_ASSUMPTIONS.operating.revenueGrowth).not.toBe(12);
+      expect(updated.tranches).toBe(DEFAULT_LBO_ASSUMPTIONS.tranches);
+    });
+
+    it('should reject paths that do not resolve to numbers', () => {
+      expect(() => getAssumptionValue(ASSUMPTIONS, 'missing')).toThrow(/missing/);
+    });
+
+    it('should apply scenario overrides on top of the base case', () => {
+      const flexed = applyScenario(ASSUMPTIONS, { id: 'x', name: 'X', kind: 'custom', overrides: { tax_rate: 30 } });
+      expect(flexed.tax_rate).toBe(30);
+      expect(flexed.revenue_growth).toBe(10);
+    });
+  });
+
+  describe('Scenarios', () => {
+    const adapter = cashFlowScenarioAdapter('Acme', HISTORICAL);
+
+    it('should drop malformed scenarios and overrides loaded from storage', () => {
+      const parsed = parseScenarios([
+        { id: 'a', name: 'A', kind: 'custom', overrides: { tax_rate: 30, bad: 'x' } },
+        { id: 'b', name: 'B', kind: 'unknown', overrides: {} },
+        null,
+      ]);
+      expect(parsed).toEqual([{ id: 'a', name: 'A', kind: 'custom', overrides: { tax_rate: 30 } }]);
+      expect(parseScenarios({})).toEqual([]);
+    });
+
+    it('should rank default upside above base above downside', () => {
+      const results = runScenarios(adapter, ASSUMPTIONS, createDefaultScenarios(adapter, ASSUMPTIONS));
+      const [base, upside, downside] = results.map(r => r.outputs!.total_ufcf);
+      expect(upside).toBeGreaterThan(base);
+      expect(base).toBeGreaterThan(downside);
+    });
+
+    it('should capture per-scenario errors without failing the others', () => {
+      const broken = cashFlowScenarioAdapter('Acme', { ...HISTORICAL, balance_sheet: {} });
+      const results = runScenarios(broken, ASSUMPTIONS, [
+        { id: 'base', name: 'Base', kind: 'base', overrides: {} },
+        { id: 'fixed', name: 'Fixed', kind: 'custom', overrides: { opening_cash: 5, opening_debt: 0 } },
+      ]);
+      expect(results[0].error).toMatch(/balance_sheet\.cash/);
+      expect(results[1].outputs).not.toBeNull();
+    });
+  });
+
+  describe('Sensitivity grids', () => {
+    it('should centre the axis on the base value', () => {
+      expect(buildSensitivityAxis(8, 0.5)).toEqual([7, 7.5, 8, 8.5, 9]);
+    });
+
+    it('should keep bounded axes inside their range instead of repeating clamped values', () => {
+      expect(buildSensitivityAxis(5, 1, 5, { min: 1, max: 5 })).toEqual([1, 2, 3, 4, 5]);
+      expect(buildSensitivityAxis(2, 1, 5, { min: 1, max: 3 })).toEqual([1, 2, 3]);
+
+      const adapter = lboScenarioAdapter(buildOperatingCase, false, 6);
+      const grid = runSensitivityGrid(adapter, DEFAULT_LBO_ASSUMPTIONS, 'exitYear', 'exitMultiple', 'irr');
+      expect(grid.rowValues).toEqual([2, 3, 4, 5, 6]);
+      expect(grid.rowValues[grid.baseRowIndex]).toBe(DEFAULT_LBO_ASSUMPTIONS.exitYear);
+    });
+
+    it('should keep percentage variables between 0 and 100', () => {
+      const lbo = lboScenarioAdapter(buildOperatingCase, false);
+      const grid = runSensitivityGrid(lbo, DEFAULT_LBO_ASSUMPTIONS, 'cashSweepPct', 'exitMultiple', 'irr');
+      expect(grid.rowValues).toEqual([0, 25, 50, 75, 100]);
+
+      const cashFlow = cashFlowScenarioAdapter('Acme', HISTORICAL);
+      const lowMargin = { ...ASSUMPTIONS, ebitda_margin: 2, tax_rate: 0 };
+      const marginGrid = runSensitivityGrid(cashFlow, lowMargin, 'ebitda_margin', 'tax_rate', 'total_ufcf');
+      expect(marginGrid.rowValues).toEqual([0, 2, 4, 6, 8]);
+      expect(marginGrid.colValues).toEqual([0, 2.5, 5, 7.5, 10]);
+
+      const [, , downside] = createDefaultScenarios(cashFlow, lowMargin);
+      expect(downside.overrides.ebitda_margin).toBe(0);
+    });
+
+    it('should reproduce the base case at the centre cell', () => {
+      const adapter = cashFlowScenarioAdapter('Acme', HISTORICAL);
+      const grid = runSensitivityGrid(adapter, ASSUMPTIONS, 'revenue_growth', 'ebitda_margin', 'total_ufcf');
+      const base = adapter.evaluate(ASSUMPTIONS).total_ufcf;
+
+      expect(grid.values[grid.baseRowIndex][grid.baseColIndex]).toBe(base);
+      expect(grid.values[4][4]).toBeGreaterThan(grid.values[0][0]!);
+    });
+
+    it('should lower IRR as the entry multiple rises', () => {
+      const adapter = lboScenarioAdapter(buildOperatingCase, false);
+      const grid = runSensitivityGrid(adapter, DEFAULT_LBO_ASSUMPTIONS, 'entryMultiple', 'exitMultiple', 'irr');
+      const column = grid.values.map(row => row[grid.baseColIndex]!);
+
+      column.slice(1).forEach((irr, i) => expect(irr).toBeLessThan(column[i]));
+    });
+
+    it('should leave failing cells empty', () => {
+      const adapter = lboScenarioAdapter(buildOperatingCase, false);
+      const grid = runSensitivityGrid(adapter, DEFAULT_LBO_ASSUMPTIONS, 'entryMultiple', 'exitMultiple', 'moic', {
+        rowValues: [8, 3],
+      });
+      expect(grid.values[0].every(v => v !== null)).toBe(true);
+      expect(grid.values[1].every(v => v === null)).toBe(true);
+    });
+
+    it('should reject unknown or duplicate variables', () => {
+      const adapter = lboScenarioAdapter(buildOperatingCase, true);
+      expect(() => runSensitivityGrid(adapter, DEFAULT_LBO_ASSUMPTIONS, 'operating.revenueGrowth', 'exitMultiple', 'irr')).toThrow(/Unknown/);
+      expect(() => runSensitivityGrid(adapter, DEFAULT_LBO_ASSUMPTIONS, 'exitMultiple', 'exitMultiple', 'irr')).toThrow(/different/);
+    });
+  });
+});
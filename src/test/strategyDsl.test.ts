@@ -0,0 +1,226 @@
+/**
+ * Unit Tests for the rule-based strategy DSL
+ * Indicators, rule evaluation, fills, stops and targets, validation and legacy condition conversion
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+import {
+  StrategyBar,
+  StrategyDefinition,
+  atr,
+  backtestStrategy,
+  bollinger,
+  compileStrategy,
+  ema,
+  fromLegacyConditions,
+  momentum,
+  rsi,
+  simulateStrategy,
+  sma,
+  validateStrategy,
+} from '@/services/strategyDslService';
+
+const barsFrom = (closes: number[], opens?: number[]): StrategyBar[] =>
+  closes.map((close, i) => {
+    const open = opens?.[i] ?? close;
+    return {
+      date: `2024-01-${String(i + 1).padStart(2, '0')}`,
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume: 1000,
+    };
+  });
+
+const strategy = (overrides: Partial<StrategyDefinition>): StrategyDefinition => ({
+  version: 1,
+  name: 'Test',
+  entry: { logic: 'AND', conditions: [] },
+  exit: { logic: 'OR', conditions: [] },
+  sizing: { type: 'percent_equity', percent: 100 },
+  ...overrides,
+});
+
+const priceAbove = (value: number) => ({
+  logic: 'AND' as const,
+  conditions: [{ left: { kind: 'price' as const, field: 'close' as const }, operator: '>' as const, right: { kind: 'constant' as const, value } }],
+});
+
+describe('Strategy DSL', () => {
+  describe('indicators', () => {
+    it('should compute SMA and an SMA-seeded EMA', () => {
+      expect(sma([1, 2, 3, 4], 2)).toEqual([null, 1.5, 2.5, 3.5]);
+      const e = ema([1, 2, 3, 4], 3);
+      expect(e.slice(0, 2)).toEqual([null, null]);
+      expect(e[2]).toBe(2);
+      expect(e[3]).toBeCloseTo(3); // 4 * 0.5 + 2 * 0.5
+    });
+
+    it('should bound RSI and saturate on one-way moves', () => {
+      expect(rsi([1, 2, 3, 4, 5], 3)[3]).toBe(100);
+      const mixed = rsi([10, 11, 10, 11, 10, 11, 10], 3);
+      mixed.filter((v): v is number => v !== null).forEach(v => expect(v).toBeGreaterThan(0));
+      mixed.filter((v): v is number => v !== null).forEach(v => expect(v).toBeLessThan(100));
+    });
+
+    it('should compute ATR from true ranges including gaps', () => {
+      const bars = barsFrom([10, 10, 10]);
+      bars[1] = { ...bars[1], open: 12, high: 12, low: 12, close: 12 };
+      expect(atr(bars, 2)[1]).toBeCloseTo(1); // (0 + |12 - 10|) / 2
+    });
+
+    it('should compute Bollinger bands and momentum', () => {
+      const upper = bollinger([1, 3, 1, 3], 2, 2, 'upper');
+      expect(upper[1]).toBeCloseTo(4); // mean 2 + 2 * sd 1
+      expect(bollinger([1, 3], 2, 2, 'lower')[1]).toBeCloseTo(0);
+      expect(momentum([100, 110, 121], 2)[2]).toBeCloseTo(21);
+    });
+  });
+
+  describe('compileStrategy', () => {
+    it('should detect crossovers only on the crossing bar', () => {
+      const bars = barsFrom([5, 4, 6, 7, 3]);
+      const compiled = compileStrategy(
+        {
+          entry: {
+            logic: 'AND',
+            conditions: [{ left: { kind: 'price', field: 'close' }, operator: 'crosses_above', right: { kind: 'constant', value: 5 } }],
+          },
+          exit: {
+            logic: 'OR',
+            conditions: [{ left: { kind: 'price', field: 'close' }, operator: 'crosses_below', right: { kind: 'constant', value: 5 } }],
+          },
+        },
+        bars
+      );
+      expect(bars.map((_, i) => compiled.entry(i))).toEqual([false, false, true, false, false]);
+      expect(bars.map((_, i) => compiled.exit(i))).toEqual([false, true, false, false, true]);
+    });
+
+    it('should treat missing indicator values and empty rule sets as false', () => {
+      const compiled = compileStrategy(
+        {
+          entry: { logic: 'OR', conditions: [{ left: { kind: 'sma', period: 3 }, operator: '>', right: { kind: 'constant', value: 0 } }] },
+          exit: { logic: 'AND', conditions: [] },
+        },
+        barsFrom([1, 2, 3])
+      );
+      expect([compiled.entry(0), compiled.entry(2)]).toEqual([false, true]);
+      expect(compiled.exit(2)).toBe(false);
+    });
+  });
+
+  describe('simulateStrategy', () => {
+    it('should fill signals at the next open and close open positions at the end', () => {
+      const bars = barsFrom([10, 11, 12, 13], [10, 10.5, 12, 13]);
+      const result = simulateStrategy(strategy({ entry: priceAbove(10.5) }), bars, { capital: 1000 });
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toMatchObject({ entryDate: '2024-01-03', entryPrice: 12, exitPrice: 13, exitReason: 'end_of_data' });
+      expect(result.equity[result.equity.length - 1].value).toBeCloseTo((1000 / 12) * 13);
+    });
+
+    it('should stop out at the stop price, or at the open on a gap', () => {
+      const bars = barsFrom([10, 10, 9.4, 9], [10, 10, 10, 9]);
+      const stopped = simulateStrategy(strategy({ entry: priceAbove(9.5), stopLoss: { type: 'percent', value: 5 } }), bars, {
+        capital: 1000,
+      });
+      expect(stopped.trades[0]).toMatchObject({ exitReason: 'stop_loss', exitPrice: 9.5 });
+
+      const gapped = barsFrom([10, 10, 8], [10, 10, 8]);
+      const gap = simulateStrategy(strategy({ entry: priceAbove(9.5), stopLoss: { type: 'percent', value: 5 } }), gapped, {
+        capital: 1000,
+      });
+      expect(gap.trades[0]).toMatchObject({ exitReason: 'stop_loss', exitPrice: 8 });
+    });
+
+    it('should take profit and honour time exits', () => {
+      const bars = barsFrom([10, 10, 11.5, 11], [10, 10, 10.5, 11]);
+      const target = simulateStrategy(strategy({ entry: priceAbove(9), takeProfit: { type: 'percent', value: 10 } }), bars, {
+        capital: 1000,
+      });
+      expect(target.trades[0].exitReason).toBe('take_profit');
+      expect(target.trades[0].exitPrice).toBeCloseTo(11);
+
+      const timed = simulateStrategy(strategy({ entry: priceAbove(100), maxHoldingBars: 1 }), barsFrom([10, 10]), { capital: 1000 });
+      expect(timed.trades).toHaveLength(0);
+      const held = simulateStrategy(strategy({ entry: priceAbove(9), maxHoldingBars: 2 }), barsFrom([10, 10, 10, 10, 10]), {
+        capital: 1000,
+      });
+      expect(held.trades[0]).toMatchObject({ entryDate: '2024-01-02', exitDate: '2024-01-03', exitReason: 'time_limit' });
+    });
+
+    it('should size positions and deduct trade costs', () => {
+      const bars = barsFrom([10, 10, 10]);
+      const result = simulateStrategy(
+        strategy({ entry: priceAbove(9), sizing: { type: 'percent_equity', percent: 50 } }),
+        bars,
+        { capital: 1000, wholeShares: true, tradeCost: () => 1 }
+      );
+      expect(result.trades[0].shares).toBe(50);
+      expect(result.totalCosts).toBe(2);
+      expect(result.equity[result.equity.length - 1].value).toBeCloseTo(998);
+    });
+  });
+
+  describe('backtestStrategy', () => {
+    it('should split capital into equal sleeves and report missing symbols', () => {
+      const result = backtestStrategy(
+        strategy({ entry: priceAbove(0) }),
+        { AAA: barsFrom([10, 10, 20]), BBB: barsFrom([10, 10, 10]), CCC: [] },
+        { initialCapital: 1500 }
+      );
+      expect(result.missingSymbols).toEqual(['CCC']);
+      expect(result.finalValue).toBeCloseTo(750 + 750 + 750);
+      expect(result.finalHoldings).toEqual({ AAA: 75, BBB: 75 });
+      expect(result.metrics.totalReturn).toBeCloseTo(50);
+    });
+  });
+
+  describe('validateStrategy', () => {
+    it('should reject malformed definitions with readable errors', () => {
+      const { definition, errors } = validateStrategy({
+        ...strategy({ entry: { logic: 'AND', conditions: [{ left: { kind: 'sma', period: 0 }, operator: '>', right: { kind: 'constant', value: 1 } }] } }),
+        sizing: { type: 'percent_equity', percent: 150 },
+      });
+      expect(definition).toBeNull();
+      expect(errors).toEqual([
+        'Entry #1 left: SMA period must be a positive whole number',
+        'Sizing: percent of equity must be between 0 and 100',
+      ]);
+      expect(validateStrategy(strategy({ entry: priceAbove(1) })).errors).toEqual([]);
+    });
+  });
+
+  describe('fromLegacyConditions', () => {
+    it('should map parser conditions onto operands and exit levels', () => {
+      const definition = fromLegacyConditions({
+        strategy_name: 'Sentiment',
+        entry_conditions: [
+          { type: 'sentiment', metric: 'kol_sentiment', operator: '>', value: 0.5 },
+          { type: 'price', metric: 'current_price', operator: '<', value: '0.6' },
+        ],
+        entry_logic: 'AND',
+        exit_conditions: [
+          { type: 'profit', metric: 'pnl', operator: '>=', value: 0.2 },
+          { type: 'loss', metric: 'pnl', operator: '<=', value: -10 },
+        ],
+        exit_logic: 'OR',
+        position_sizing: 'kelly_half',
+      });
+
+      expect(definition.entry.conditions).toEqual([
+        { left: { kind: 'metric', name: 'kol_sentiment' }, operator: '>', right: { kind: 'constant', value: 0.5 } },
+        { left: { kind: 'price', field: 'close' }, operator: '<', right: { kind: 'constant', value: 0.6 } },
+      ]);
+      expect(definition.exit.conditions).toEqual([]);
+      expect(definition.takeProfit).toEqual({ type: 'percent', value: 20 });
+      expect(definition.stopLoss).toEqual({ type: 'percent', value: 10 });
+      expect(validateStrategy(definition).errors).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Unit Tests for tax-lot accounting
+ * Lot relief methods, splits and transfers, wash sales, tax-year reports and harvesting suggestions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildLotLedger,
+  estimateTax,
+  harvestingCandidates,
+  holdingTerm,
+  LotTransaction,
+  realizedGainsReport,
+  unrealizedGains,
+} from '@/services/taxLotService';
+import { TaxAwareOptimizer } from '@/services/portfolioOptimizer';
+
+let nextId = 0;
+const tx = (type: string, date: string, shares: number, pricePerShare: number, extra: Partial<LotTransaction> = {}): LotTransaction => ({
+  id: extra.id ?? `t${++nextId}`,
+  symbol: 'VTI',
+  type,
+  date,
+  shares,
+  pricePerShare,
+  ...extra,
+});
+
+// Three lots bought at 100, 120 and 90
+const threeLots = () => [
+  tx('buy', '2022-01-03', 10, 100, { id: 'a' }),
+  tx('buy', '2022-06-01', 10, 120, { id: 'b' }),
+  tx('buy', '2023-09-01', 10, 90, { id: 'c' }),
+];
+
+describe('Tax Lots', () => {
+  describe('holdingTerm', () => {
+    it('should need more than one year for long-term treatment', () => {
+      expect(holdingTerm('2023-03-15', '2024-03-15')).toBe('short');
+      expect(holdingTerm('2023-03-15', '2024-03-16')).toBe('long');
+    });
+  });
+
+  describe('lot relief', () => {
+    const sell = (method: 'fifo' | 'lifo' | 'hifo') =>
+      buildLotLedger([...threeLots(), tx('sell', '2023-10-02', 15, 110, { lotMethod: method })]);
+
+    it('should relieve lots first-in, last-in or highest-cost first', () => {
+      expect(sell('fifo').realized.map(r => [r.lotId, r.shares])).toEqual([['a', 10], ['b', 5]]);
+      expect(sell('lifo').realized.map(r => [r.lotId, r.shares])).toEqual([['c', 10], ['b', 5]]);
+      expect(sell('hifo').realized.map(r => [r.lotId, r.shares])).toEqual([['b', 10], ['a', 5]]);
+
+      const fifo = sell('fifo');
+      expect(fifo.realized[0].gain).toBeCloseTo(100, 10);
+      expect(fifo.realized[0].term).toBe('long');
+      expect(fifo.realized[1].gain).toBeCloseTo(-50, 10);
+      expect(fifo.openLots.map(l => [l.id, l.shares])).toEqual([['b', 5], ['c', 10]]);
+    });
+
+    it('should use the default method when a sale records none', () => {
+      const ledger = buildLotLedger([...threeLots(), tx('sell', '2023-10-02', 10, 110)], 'hifo');
+      expect(ledger.realized.map(r => r.lotId)).toEqual(['b']);
+    });
+
+    it('should relieve specifically identified lots and report what it could not', () => {
+      const ledger = buildLotLedger([
+        ...threeLots(),
+        tx('sell', '2023-10-02', 6, 110, { lotMethod: 'specific_id', lotSelection: [{ lotId: 'c', shares: 4 }, { lotId: 'zzz', shares: 1 }] }),
+      ]);
+      expect(ledger.realized.map(r => [r.lotId, r.shares])).toEqual([['c', 4], ['a', 2]]);
+      expect(ledger.issues).toHaveLength(2);
+      expect(ledger.issues[1]).toMatch(/did not identify 2 shares/);
+    });
+
+    it('should refuse to sell more than is held', () => {
+      const ledger = buildLotLedger([tx('buy', '2024-01-02', 5, 10), tx('sell', '2024-02-01', 8, 12)]);
+      expect(ledger.realized.reduce((s, r) => s + r.shares, 0)).toBe(5);
+      expect(ledger.issues[0]).toMatch(/exceeds the 5 shares held/);
+    });
+  });
+
+  describe('splits and transfers', () => {
+    it('should scale shares and per-share basis on a split', () => {
+      const ledger = buildLotLedger([...threeLots(), tx('split', '2023-12-01', 0, 0, { splitRatio: 2 })]);
+      expect(ledger.openLots.map(l => l.shares)).toEqual([20, 20, 20]);
+      expect(ledger.openLots.map(l => l.costPerShare)).toEqual([50, 60, 45]);
+    });
+
+    it('should carry the original holding period on a transfer in and realize nothing on a transfer out', () => {
+      const ledger = buildLotLedger([
+        tx('transfer_in', '2024-05-01', 10, 30, { id: 'x', acquiredDate: '2020-02-01' }),
+        tx('buy', '2024-05-02', 10, 40, { id: 'y' }),
+        tx('transfer_out', '2024-05-03', 4, 0, { lotMethod: 'lifo' }),
+        tx('sell', '2024-06-03', 10, 35),
+      ]);
+      expect(ledger.openLots.map(l => [l.id, l.shares])).toEqual([['y', 6]]);
+      expect(ledger.realized).toHaveLength(1);
+      expect(ledger.realized[0]).toMatchObject({ lotId: 'x', acquiredDate: '2020-02-01', term: 'long', gain: 50 });
+    });
+  });
+
+  describe('wash sales', () => {
+    it('should defer a loss into shares bought within 30 days after the sale', () => {
+      const ledger = buildLotLedger([
+        tx('buy', '2024-01-01', 100, 50, { id: 'first' }),
+        tx('sell', '2024-03-01', 100, 40, { id: 'loss' }),
+        tx('buy', '2024-03-15', 100, 42, { id: 'again' }),
+      ]);
+      expect(ledger.realized[0].gain).toBeCloseTo(-1000, 10);
+      expect(ledger.realized[0].disallowedLoss).toBeCloseTo(1000, 10);
+      expect(ledger.washSales).toEqual([
+        expect.objectContaining({ saleId: 'loss', soldLotId: 'first', replacementLotId: 'again', shares: 100 }),
+      ]);
+      const [replacement] = ledger.openLots;
+      expect(replacement.costPerShare).toBeCloseTo(52, 10);
+      // 60 days held before the sale carry over to the replacement
+      expect(replacement.holdingPeriodStart).toBe('2024-01-15');
+      expect(realizedGainsReport(ledger, 2024).shortTerm.reportableGain).toBeCloseTo(0, 10);
+    });
+
+    it('should match purchases in the 30 days before the sale and split partial replacements', () => {
+      const ledger = buildLotLedger([
+        tx('buy', '2024-01-02', 100, 50, { id: 'old' }),
+        tx('buy', '2024-02-20', 50, 45, { id: 'recent' }),
+        tx('sell', '2024-03-01', 100, 40, { id: 'loss' }),
+        tx('buy', '2024-04-15', 100, 41, { id: 'late' }),
+      ]);
+      expect(ledger.realized[0].disallowedLoss).toBeCloseTo(500, 10);
+      const recent = ledger.openLots.find(l => l.id === 'recent')!;
+      expect(recent.costPerShare).toBeCloseTo(55, 10);
+      expect(recent.washSaleAdjustment).toBeCloseTo(500, 10);
+      // Bought 45 days after the sale: outside the window
+      expect(ledger.openLots.find(l => l.id === 'late')!.washSaleAdjustment).toBe(0);
+
+      const split = buildLotLedger([
+        tx('buy', '2024-01-02', 10, 50, { id: 'old' }),
+        tx('sell', '2024-03-01', 10, 40, { id: 'loss' }),
+        tx('buy', '2024-03-10', 25, 41, { id: 'new' }),
+      ]);
+      expect(split.openLots.map(l => [l.id, l.shares, l.costPerShare])).toEqual([
+        ['new', 15, 41],
+        ['new:wash:loss', 10, 51],
+      ]);
+    });
+
+    it('should not treat the rest of the sold purchase as its own replacement', () => {
+      const ledger = buildLotLedger([tx('buy', '2024-01-02', 100, 50), tx('sell', '2024-01-10', 50, 45)]);
+      expect(ledger.washSales).toEqual([]);
+      expect(ledger.realized[0].disallowedLoss).toBe(0);
+    });
+  });
+
+  describe('reports', () => {
+    it('should net short- and long-term gains before applying rates', () => {
+      const rates = { shortTerm: 0.4, longTerm: 0.2 };
+      expect(estimateTax(1000, 500, rates)).toBeCloseTo(500, 10);
+      expect(estimateTax(-300, 500, rates)).toBeCloseTo(40, 10);
+      expect(estimateTax(1000, -1500, rates)).toBe(0);
+    });
+
+    it('should summarize a tax year and mark open lots to market', () => {
+      const ledger = buildLotLedger([...threeLots(), tx('sell', '2023-10-02', 15, 110, { lotMethod: 'fifo' }), tx('sell', '2024-02-01', 1, 130)]);
+      const report = realizedGainsReport(ledger, 2023, { shortTerm: 0.3, longTerm: 0.1 });
+      expect(report.lots).toHaveLength(2);
+      // Both lots were held over a year: a $100 gain and a $50 loss
+      expect(report.longTerm.gain).toBeCloseTo(50, 10);
+      expect(report.shortTerm.proceeds).toBe(0);
+      expect(report.estimatedTax).toBeCloseTo(5, 10);
+
+      const unrealized = unrealizedGains(ledger.openLots, new Map([['VTI', 100]]), '2024-06-01');
+      expect(unrealized.longTerm.gain).toBeCloseTo(4 * -20, 10);
+      expect(unrealized.shortTerm.gain).toBeCloseTo(10 * 10, 10);
+      expect(unrealizedGains(ledger.openLots, new Map(), '2024-06-01').missingPrices).toEqual(['VTI']);
+    });
+
+    it('should suggest harvesting losses with substitutes and flag recent purchases', () => {
+      const ledger = buildLotLedger([
+        tx('buy', '2024-01-02', 100, 250, { symbol: 'SPY' }),
+        tx('buy', '2024-06-20', 10, 180, { symbol: 'SPY' }),
+        tx('buy', '2024-01-02', 100, 20, { symbol: 'XYZ' }),
+      ]);
+      const prices = new Map([['SPY', 200], ['XYZ', 19.5]]);
+      const [spy, ...rest] = harvestingCandidates(ledger, prices, '2024-07-01', { rates: { shortTerm: 0.35, longTerm: 0.15 } });
+
+      expect(rest).toEqual([]); // XYZ's $50 loss is below the minimum
+      expect(spy.shortTermLoss).toBeCloseTo(-5000, 10);
+      expect(spy.taxSavings).toBeCloseTo(1750, 10);
+      expect(spy.substitutes).toEqual(['VV', 'SCHX']);
+      expect(spy.blockedUntil).toBe('2024-07-21');
+      expect(spy.repurchaseAfter).toBe('2024-08-01');
+    });
+  });
+
+  describe('TaxAwareOptimizer', () => {
+    it('should use the configured rates and relief order', () => {
+      const lots = [
+        { ticker: 'VTI', shares: 10, costBasis: 100, purchaseDate: new Date('2020-01-02') },
+        { ticker: 'VTI', shares: 10, costBasis: 180, purchaseDate: new Date('2024-01-02') },
+      ];
+      const fifo = new TaxAwareOptimizer({ shortTerm: 0.4, longTerm: 0.2 }, 'fifo');
+      fifo.setHoldings(lots);
+      expect(fifo.calculateTaxImpact('VTI', 10, 200, new Date('2024-06-01'))).toBeCloseTo(200, 10);
+
+      const hifo = new TaxAwareOptimizer({ shortTerm: 0.4, longTerm: 0.2 }, 'hifo');
+      hifo.setHoldings(lots);
+      expect(hifo.calculateTaxImpact('VTI', 10, 200, new Date('2024-06-01'))).toBeCloseTo(80, 10);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit Tests for the three-statement projection engine
+ * Balancing, dynamic years, interest circularity and explicit input errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  HistoricalFinancials,
+  ProjectionAssumptions,
+  deriveProjectionYears,
+  runThreeStatementProjection,
+} from '@/services/threeStatementEngine';
+import { calculateLocalCashFlow } from '@/services/cashFlowBuildupService';
+
+const HISTORICAL: HistoricalFinancials = {
+  historical_years: ['2022', '2023', '2024'],
+  income_statement: {
+    revenue: { '2022': 100, '2023': 110, '2024': 121 },
+    ebitda: { '2022': 20, '2023': 23, '2024': 27 },
+    depreciation_amortization: { '2022': 5, '2023': 6, '2024': 7 },
+  },
+  balance_sheet: {
+    cash: { '2024': 15 },
+    total_debt: { '2024': 60 },
+    accounts_receivable: { '2024': 18 },
+    inventory: { '2024': 10 },
+    accounts_payable: { '2024': 12 },
+  },
+  cash_flow: { capex: { '2024': -4 } },
+};
+
+const ASSUMPTIONS: ProjectionAssumptions = {
+  revenue_growth: 10,
+  ebitda_margin: 22,
+  capex_pct: 3,
+  nwc_pct: 13,
+  tax_rate: 25,
+  da_pct: 4,
+  interest_rate: 8,
+};
+
+describe('Three-Statement Engine', () => {
+  describe('Projection Years', () => {
+    it('should start projections the year after the last historical year', () => {
+      const result = runThreeStatementProjection(HISTORICAL, ASSUMPTIONS);
+      expect(result.projection_years).toEqual(['2025', '2026', '2027', '2028', '2029']);
+      expect(result.all_years).toHaveLength(8);
+    });
+
+    it('should preserve fiscal year prefixes and honour projection length', () => {
+      expect(deriveProjectionYears('FY2023', 3)).toEqual(['FY2024', 'FY2025', 'FY2026']);
+      const result = runThreeStatementProjection(HISTORICAL, { ...ASSUMPTIONS, projection_years: 7 });
+      expect(result.projection_years[6]).toBe('2031');
+    });
+
+    it('should reject year labels without a four-digit year', () => {
+      expect(() => deriveProjectionYears('LTM', 5)).toThrow(/Cannot derive projection years/);
+    });
+  });
+
+  describe('Balancing', () => {
+    it('should balance assets against liabilities and equity every projected year', () => {
+      const result = runThreeStatementProjection(HISTORICAL, {
+        ...ASSUMPTIONS,
+        sbc_pct: 2,
+        cash_interest_rate: 4,
+        debt_repayment_pct: 10,
+      });
+
+      result.projection_years.forEach(year => {
+        expect(Math.abs(result.balance_check[year])).toBeLessThan(1e-6);
+        expect(result.balance_sheet.total_assets[year]).toBeCloseTo(
+          result.balance_sheet.total_liabilities_and_equity[year],
+          6
+        );
+      });
+    });
+
+    it('should tie the cash flow statement to the change in balance sheet cash', () => {
+      const result = runThreeStatementProjection(HISTORICAL, { ...ASSUMPTIONS, debt_repayment_pct: 5 });
+      const cfs = result.cash_flow_statement;
+
+      let prevCash = 15;
+      result.projection_years.forEach(year => {
+        const netChange = cfs.cash_from_operations[year] + cfs.cash_from_investing[year] + cfs.cash_from_financing[year];
+        expect(result.balance_sheet.cash[year]).toBeCloseTo(prevCash + netChange, 6);
+        prevCash = result.balance_sheet.cash[year];
+      });
+    });
+
+    it('should build opening working capital from AR + inventory - AP', () => {
+      const result = runThreeStatementProjection(HISTORICAL, ASSUMPTIONS);
+      expect(result.balance_sheet.net_working_capital['2024']).toBe(16);
+    });
+  });
+
+  describe('Interest', () => {
+    it('should charge interest on average debt', () => {
+      const result = runThreeStatementProjection(HISTORICAL, { ...ASSUMPTIONS, debt_repayment_pct: 10 });
+      expect(result.income_statement.interest_expense['2025']).toBeCloseTo(0.08 * (60 + 54) / 2, 9);
+    });
+
+    it('should converge interest income on average cash', () => {
+      const result = runThreeStatementProjection(HISTORICAL, { ...ASSUMPTIONS, cash_interest_rate: 5 });
+      const closing = result.balance_sheet.cash['2025'];
+      expect(result.income_statement.interest_income['2025']).toBeCloseTo(0.05 * (15 + closing) / 2, 8);
+    });
+
+    it('should not include stock-based compensation unless assumed', () => {
+      const result = runThreeStatementProjection(HISTORICAL, ASSUMPTIONS);
+      expect(result.cash_flow_statement.add_back_sbc['2025']).toBe(0);
+    });
+  });
+
+  describe('Determinism & Errors', () => {
+    it('should produce identical output for identical inputs', () => {
+      const a = runThreeStatementProjection(HISTORICAL, ASSUMPTIONS);
+      const b = runThreeStatementProjection(HISTORICAL, ASSUMPTIONS);
+      expect(a).toEqual(b);
+    });
+
+    it('should throw on missing latest revenue instead of defaulting', () => {
+      const historical = { ...HISTORICAL, income_statement: { revenue: { '2022': 100 } } };
+      expect(() => runThreeStatementProjection(historical, ASSUMPTIONS)).toThrow(/income_statement\.revenue\[2024\]/);
+    });
+
+    it('should require opening cash and debt, accepting explicit overrides', () => {
+      const historical = { ...HISTORICAL, balance_sheet: {} };
+      expect(() => runThreeStatementProjection(historical, ASSUMPTIONS)).toThrow(/balance_sheet\.cash.*balance_sheet\.total_debt/);
+
+      const result = runThreeStatementProjection(historical, { ...ASSUMPTIONS, opening_cash: 10, opening_debt: 0 });
+      expect(result.income_statement.interest_expense['2025']).toBe(0);
+      expect(result.balance_sheet.cash['2024']).toBe(10);
+      expect(result.balance_sheet.debt['2024']).toBe(0);
+
+      const model = calculateLocalCashFlow('Acme', historical, { ...ASSUMPTIONS, opening_cash: 10, opening_debt: 0 });
+      expect(model.cash_bridge.opening_cash['2025']).toBe(10);
+    });
+
+    it('should throw on missing assumptions', () => {
+      const { tax_rate, ...partial } = ASSUMPTIONS;
+      expect(() => runThreeStatementProjection(HISTORICAL, partial as ProjectionAssumptions)).toThrow(/tax_rate/);
+    });
+  });
+
+  describe('Cash Flow Buildup mapping', () => {
+    it('should report summary metrics computed from the projection', () => {
+      const model = calculateLocalCashFlow('Acme', HISTORICAL, ASSUMPTIONS);
+      const years = model.projection_years;
+      const totalUfcf = years.reduce((sum, y) => sum + model.cash_flow_buildup.unlevered_fcf[y], 0);
+
+      expect(model.summary.total_ufcf_5yr).toBeCloseTo(totalUfcf, 0);
+      expect(model.summary.avg_ufcf_margin).toBeGreaterThan(0);
+      expect(model.balance_sheet?.debt['2025']).toBe(60);
+      expect(model.cash_flow_buildup.total_capex['2024']).toBe(-4);
+    });
+  });
+});
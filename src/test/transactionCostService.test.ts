@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for backtest trading frictions
+ * Commission, spread and impact costs, cost drag, and dividend/split handling in runBacktest
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_COST_MODEL,
+  NO_COSTS,
+  CostModel,
+  addTradeCost,
+  affordableShares,
+  calculateCostDrag,
+  emptyCostSummary,
+  estimateTradeCost,
+} from '@/services/transactionCostService';
+
+const candles = vi.fn();
+const corporateActions = vi.fn();
+
+vi.mock('@/services/finnhubService', () => ({
+  getCorporateActions: (...args: unknown[]) => corporateActions(...args),
+}));
+
+vi.mock('@/services/barStoreService', () => ({
+  barStore: {
+    getBars: async (tickers: string[]) =>
+      new Map(await Promise.all(tickers.map(async t => [t, { ticker: t, bars: await candles(t), source: 'store', complete: true }] as const))),
+  },
+}));
+
+import { corporateActionsBetween, runBacktest } from '@/services/backtesterService';
+
+const dates = ['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05', '2024-01-08', '2024-01-09'];
+const flatCandles = (price: number, volume = 1_000_000) =>
+  dates.map((date, i) => ({ date, open: price, high: price, low: price, close: price, volume, timestamp: i }));
+
+const model = (overrides: Partial<CostModel>): CostModel => ({ ...NO_COSTS, ...overrides });
+
+describe('Transaction Cost Service', () => {
+  describe('estimateTradeCost', () => {
+    it('should charge each commission type', () => {
+      expect(estimateTradeCost(model({ commissionType: 'fixed', commission: 4.95 }), 100, 50).commission).toBe(4.95);
+      expect(estimateTradeCost(model({ commissionType: 'per_share', commission: 0.005, minimumCommission: 1 }), 100, 50).commission).toBe(1);
+      expect(estimateTradeCost(model({ commissionType: 'per_share', commission: 0.005 }), 1000, 50).commission).toBeCloseTo(5);
+      expect(estimateTradeCost(model({ commissionType: 'bps', commission: 10 }), 100, 50).commission).toBeCloseTo(5);
+    });
+
+    it('should cross half the spread and scale impact with volume participation', () => {
+      const cost = estimateTradeCost(model({ spreadBps: 10, impactCoefficient: 0.1 }), -1000, 100, 100_000);
+      expect(cost.spread).toBeCloseTo(50); // 100,000 notional * 5bp
+      expect(cost.impact).toBeCloseTo(100_000 * 0.1 * 0.1); // sqrt(1% participation) = 0.1
+      expect(cost.total).toBeCloseTo(cost.spread + cost.impact);
+    });
+
+    it('should skip impact when bar volume is unknown', () => {
+      expect(estimateTradeCost(model({ impactCoefficient: 0.1 }), 1000, 100).impact).toBe(0);
+      expect(estimateTradeCost(DEFAULT_COST_MODEL, 0, 100).total).toBe(0);
+    });
+  });
+
+  describe('affordableShares', () => {
+    it('should leave room for the trade costs', () => {
+      const costModel = model({ commissionType: 'fixed', commission: 10 });
+      expect(affordableShares(costModel, 1000, 10)).toBe(99);
+      expect(affordableShares(NO_COSTS, 1000, 10)).toBe(100);
+      expect(affordableShares(costModel, 5, 10)).toBe(0);
+    });
+  });
+
+  describe('cost summaries', () => {
+    it('should accumulate costs and compute annualized drag', () => {
+      const summary = addTradeCost(addTradeCost(emptyCostSummary(), { commission: 1, spread: 2, impact: 3, total: 6 }), {
+        commission: 1,
+        spread: 0,
+        impact: 0,
+        total: 1,
+      });
+      expect(summary).toEqual({ commission: 2, spread: 2, impact: 3, total: 7, trades: 2 });
+      expect(calculateCostDrag(100, 110, 0, 1)).toBe(0);
+      expect(calculateCostDrag(100, 110, 2, 1)).toBeCloseTo(0.02);
+    });
+  });
+
+  describe('corporateActionsBetween', () => {
+    it('should apply ex-dates that fall between trading days', () => {
+      const actions = [
+        { symbol: 'AAA', date: '2024-01-06', type: 'dividend' as const, value: 1 },
+        { symbol: 'AAA', date: '2024-01-08', type: 'split' as const, value: 2 },
+      ];
+      expect(corporateActionsBetween(actions, '2024-01-05', '2024-01-08')).toHaveLength(2);
+      expect(corporateActionsBetween(actions, '2024-01-08', '2024-01-09')).toHaveLength(0);
+    });
+  });
+});
+
+describe('runBacktest frictions', () => {
+  beforeEach(() => {
+    candles.mockReset();
+    corporateActions.mockReset();
+    candles.mockImplementation(async () => flatCandles(100));
+    corporateActions.mockResolvedValue({ dividends: [], splits: [] });
+  });
+
+  const config = {
+    assets: [{ symbol: 'AAA', allocation: 100 }],
+    startDate: '2024-01-01',
+    endDate: '2024-01-10',
+    initialCapital: 10_000,
+    strategy: 'buy-hold' as const,
+  };
+
+  it('should deduct trading costs and report them separately', async () => {
+    const frictionless = await runBacktest({ ...config, includeCorporateActions: false });
+    const withCosts = await runBacktest({
+      ...config,
+      includeCorporateActions: false,
+      costModel: model({ commissionType: 'fixed', commission: 10, spreadBps: 20 }),
+    });
+
+    expect(frictionless.finalValue).toBeCloseTo(10_000);
+    expect(frictionless.transactionCosts?.total).toBe(0);
+    expect(withCosts.transactionCosts?.total).toBeCloseTo(10 + 10_000 * 0.001, 0);
+    expect(withCosts.finalValue).toBeCloseTo(10_000 - withCosts.transactionCosts!.total);
+    expect(withCosts.trades[0].cost).toBeCloseTo(withCosts.transactionCosts!.total);
+  });
+
+  it('should credit and reinvest dividends for total return', async () => {
+    corporateActions.mockResolvedValue({
+      dividends: [{ date: '2024-01-05', amount: 2, adjustedAmount: 1 }],
+      splits: [],
+    });
+
+    const reinvested = await runBacktest(config);
+    expect(reinvested.dividendIncome).toBeCloseTo(100); // 100 shares * $1 split-adjusted
+    expect(reinvested.finalValue).toBeCloseTo(10_100);
+    expect(reinvested.trades.map(t => t.reason)).toContain('Dividend reinvestment ($1.0000/share)');
+
+    const asCash = await runBacktest({ ...config, reinvestDividends: false });
+    expect(asCash.portfolioHistory[asCash.portfolioHistory.length - 1].cash).toBeCloseTo(100);
+  });
+
+  it('should apply splits to unadjusted price histories', async () => {
+    candles.mockImplementation(async () =>
+      flatCandles(100).map((c, i) => (i >= 3 ? { ...c, close: 50 } : c))
+    );
+    corporateActions.mockResolvedValue({
+      dividends: [],
+      splits: [{ date: '2024-01-05', fromFactor: 1, toFactor: 2 }],
+    });
+
+    const result = await runBacktest({ ...config, pricesSplitAdjusted: false });
+    expect(result.finalValue).toBeCloseTo(10_000);
+    expect(result.maxDrawdownPercent).toBeCloseTo(0);
+  });
+});
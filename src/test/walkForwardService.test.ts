@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for walk-forward validation
+ * Window construction, grid expansion, deflated Sharpe ratio, PBO and the walk-forward runner
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+import { StrategyBar } from '@/services/strategyDslService';
+import {
+  PARAMETER_SPACES,
+  deflatedSharpeRatio,
+  expandGrid,
+  expectedMaxSharpe,
+  normalCdf,
+  normalQuantile,
+  probabilityOfBacktestOverfitting,
+  runWalkForward,
+  walkForwardWindows,
+} from '@/services/walkForwardService';
+
+// Deterministic pseudo-random numbers for reproducible noise
+const lcg = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296 - 0.5;
+};
+
+const trendingBars = (count: number): StrategyBar[] =>
+  Array.from({ length: count }, (_, i) => {
+    const close = 100 * Math.pow(1.001, i) * (1 + 0.02 * Math.sin(i / 7));
+    const date = new Date(Date.UTC(2020, 0, 1) + i * 86400000).toISOString().split('T')[0];
+    return { date, open: close, high: close * 1.005, low: close * 0.995, close, volume: 1_000_000 };
+  });
+
+describe('Walk-Forward Service', () => {
+  describe('normal distribution', () => {
+    it('should invert the normal CDF', () => {
+      expect(normalCdf(0)).toBeCloseTo(0.5);
+      expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+      expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2);
+      expect(normalQuantile(0.01)).toBeCloseTo(-2.326, 2);
+    });
+  });
+
+  describe('expandGrid and walkForwardWindows', () => {
+    it('should enumerate every parameter combination', () => {
+      const combos = expandGrid({ a: [1, 2], b: [10, 20, 30] });
+      expect(combos).toHaveLength(6);
+      expect(combos).toContainEqual({ a: 2, b: 30 });
+    });
+
+    it('should roll or anchor training windows ahead of each test window', () => {
+      expect(walkForwardWindows(10, 4, 3)).toEqual([
+        { trainStart: 0, trainEnd: 3, testStart: 4, testEnd: 6 },
+        { trainStart: 3, trainEnd: 6, testStart: 7, testEnd: 9 },
+      ]);
+      expect(walkForwardWindows(10, 4, 3, true).map(w => w.trainStart)).toEqual([0, 0]);
+    });
+  });
+
+  describe('deflatedSharpeRatio', () => {
+    it('should raise the bar as more trials are run', () => {
+      expect(expectedMaxSharpe(1, 0.01)).toBe(0);
+      expect(expectedMaxSharpe(100, 0.01)).toBeGreaterThan(expectedMaxSharpe(10, 0.01));
+    });
+
+    it('should trust a strong single trial and discount a lucky one', () => {
+      const noise = lcg(7);
+      const skilled = Array.from({ length: 500 }, () => 0.002 + 0.01 * noise());
+      expect(deflatedSharpeRatio(skilled, 1, 0).deflatedSharpe).toBeGreaterThan(0.99);
+
+      const lucky = Array.from({ length: 250 }, () => 0.0003 + 0.01 * noise());
+      expect(deflatedSharpeRatio(lucky, 200, 0.004).deflatedSharpe).toBeLessThan(0.5);
+    });
+  });
+
+  describe('probabilityOfBacktestOverfitting', () => {
+    it('should be zero when one trial dominates in every period', () => {
+      const noise = lcg(3);
+      const returns = Array.from({ length: 160 }, () => [0.01 + 0.001 * noise(), 0.001 * noise(), 0.001 * noise()]);
+      expect(probabilityOfBacktestOverfitting(returns, 8)?.pbo).toBe(0);
+    });
+
+    it('should be high when trials are pure noise', () => {
+      const noise = lcg(11);
+      const returns = Array.from({ length: 400 }, () => Array.from({ length: 20 }, () => 0.01 * noise()));
+      const result = probabilityOfBacktestOverfitting(returns, 8)!;
+      expect(result.logits).toHaveLength(70);
+      expect(result.pbo).toBeGreaterThan(0.2);
+    });
+
+    it('should need enough periods for every block', () => {
+      expect(probabilityOfBacktestOverfitting([[0.01, 0.02]], 8)).toBeNull();
+    });
+  });
+
+  describe('runWalkForward', () => {
+    const momentum = PARAMETER_SPACES.find(s => s.id === 'momentum')!;
+
+    it('should stitch test windows and hold out the most recent bars', () => {
+      const result = runWalkForward(momentum, { AAA: trendingBars(600) }, { trainBars: 200, testBars: 100, holdoutFraction: 0.2 });
+
+      expect(result.windows).toHaveLength(3);
+      expect(result.windows[0].testStart > result.windows[0].trainEnd).toBe(true);
+      expect(result.outOfSample.days).toBe(100 + 100 + 80);
+      expect(result.outOfSampleEquity).toHaveLength(280);
+      expect(result.holdout?.outOfSample.days).toBe(120);
+      expect(result.holdout!.startDate > result.windows[2].testEnd).toBe(true);
+      expect(result.overfitting.trials).toBe(12);
+      expect(Object.values(result.selectionCounts).reduce((a, b) => a + b, 0)).toBe(3);
+    });
+
+    it('should refuse histories shorter than one training window', () => {
+      expect(() => runWalkForward(momentum, { AAA: trendingBars(150) }, { trainBars: 200, testBars: 50 })).toThrow(/trading days/);
+    });
+  });
+});
@@ -28,6 +28,15 @@ export interface BlackLittermanView {
   impliedRisk: number;
 }
 
+// Black-Litterman return view: `asset` returns `expectedReturn` (absolute), or beats `versus` by it (relative)
+export interface MarketView {
+  id: string;
+  asset: string;
+  versus?: string;
+  expectedReturn: number; // Annual, as a fraction
+  confidence: number; // 0-1, calibrated to view uncertainty with Idzorek's method
+}
+
 export interface EfficientFrontierPoint {
   risk: number; // volatility %
   return: number; // expected return %
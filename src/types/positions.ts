@@ -30,6 +30,7 @@ export interface SyncedPosition {
   unrealized_gain: number | null;
   unrealized_gain_percent: number | null;
   asset_type: string;
+  currency: string; // ISO 4217 code prices and cost basis are quoted in
   source: 'manual' | 'brokerage' | 'csv';
   purchase_date: string | null;
   last_price_update: string | null;
@@ -44,6 +45,7 @@ export interface PositionFormData {
   cost_per_share?: number;
   cost_basis?: number;
   asset_type?: string;
+  currency?: string; // Defaults to the listing currency implied by the symbol
   purchase_date?: string; // ISO date string YYYY-MM-DD
 }
 
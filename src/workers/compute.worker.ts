@@ -0,0 +1,18 @@
+// Compute Worker - Runs Monte Carlo, efficient frontier and backtest jobs off the main thread
+// Cancellation is handled by the pool terminating the worker, since jobs run synchronously
+
+import { WorkerRequest, WorkerResponse, executeComputeJob } from './computeJobs';
+
+const scope = self as unknown as Worker;
+
+const send = (message: WorkerResponse) => scope.postMessage(message);
+
+scope.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const result = executeComputeJob(job, (message, percent) => send({ id, kind: 'progress', message, percent }));
+    send({ id, kind: 'result', result });
+  } catch (error) {
+    send({ id, kind: 'error', message: error instanceof Error ? error.message : 'Computation failed' });
+  }
+};
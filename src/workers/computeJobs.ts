@@ -0,0 +1,60 @@
+// Compute Jobs - Typed job protocol shared by the compute worker and its pool
+// Everything imported here must stay free of browser-only globals (localStorage, window)
+
+import { BacktestConfig, BacktestEngine, BacktestMarketData, BacktestResult } from '@/services/backtestEngine';
+import { FrontierConstraints, computeEfficientFrontier } from '@/services/efficientFrontierService';
+import { MonteCarloParams, MonteCarloResult, simulateMonteCarlo } from '@/services/monteCarloService';
+import type { CorrelationMatrix } from '@/services/backtesterService';
+import type { AssetData } from '@/services/portfolioOptimizer';
+import type { EfficientFrontierPoint } from '@/types/portfolio';
+
+export interface FrontierJobParams {
+  correlationMatrix: CorrelationMatrix;
+  assetData: Map<string, AssetData>;
+  constraints?: FrontierConstraints;
+  covariance?: number[][];
+  numPoints?: number;
+}
+
+export type ComputeJob =
+  | { type: 'monteCarlo'; params: MonteCarloParams }
+  | { type: 'frontier'; params: FrontierJobParams }
+  | { type: 'backtest'; params: { config: BacktestConfig; data: BacktestMarketData } };
+
+export interface ComputeJobResults {
+  monteCarlo: MonteCarloResult;
+  frontier: EfficientFrontierPoint[];
+  backtest: BacktestResult;
+}
+
+export type ComputeJobResult<T extends ComputeJob> = ComputeJobResults[T['type']];
+
+// Messages from the pool to a worker
+export type WorkerRequest = { id: number; kind: 'run'; job: ComputeJob };
+
+// Messages from a worker back to the pool
+export type WorkerResponse =
+  | { id: number; kind: 'progress'; message: string; percent: number }
+  | { id: number; kind: 'result'; result: ComputeJobResults[ComputeJob['type']] }
+  | { id: number; kind: 'error'; message: string };
+
+/**
+ * Run one job to completion on the current thread
+ */
+export function executeComputeJob<T extends ComputeJob>(
+  job: T,
+  onProgress?: (message: string, percent: number) => void
+): ComputeJobResult<T> {
+  switch (job.type) {
+    case 'monteCarlo':
+      return simulateMonteCarlo(job.params, onProgress) as ComputeJobResult<T>;
+    case 'frontier': {
+      const { correlationMatrix, assetData, constraints, covariance, numPoints } = job.params;
+      return computeEfficientFrontier(correlationMatrix, assetData, constraints, { numPoints, covariance, onProgress }) as ComputeJobResult<T>;
+    }
+    case 'backtest':
+      return new BacktestEngine(job.params.config).simulate(job.params.data, onProgress) as ComputeJobResult<T>;
+    default:
+      throw new Error(`Unknown compute job: ${(job as ComputeJob).type}`);
+  }
+}
@@ -0,0 +1,627 @@
+// Strategy DSL - Typed rule-based strategy definitions, indicator evaluation and a long-only
+// bar simulator. Shared by the client backtester and edge functions, so it has no imports and
+// must run unchanged in the browser and in Deno.
+
+export const STRATEGY_DSL_VERSION = 1;
+
+export type PriceField = 'open' | 'high' | 'low' | 'close';
+export type PeriodIndicator = 'sma' | 'ema' | 'rsi' | 'atr' | 'momentum';
+export type BollingerBand = 'upper' | 'middle' | 'lower';
+
+export type Operand =
+  | { kind: 'price'; field: PriceField }
+  | { kind: 'volume' }
+  | { kind: PeriodIndicator; period: number }
+  | { kind: 'bollinger'; band: BollingerBand; period: number; stdDev: number }
+  | { kind: 'metric'; name: string } // Named series supplied with the bars (e.g. kol_sentiment)
+  | { kind: 'constant'; value: number };
+
+export type ComparisonOperator = '>' | '<' | '>=' | '<=' | '==';
+export type CrossOperator = 'crosses_above' | 'crosses_below';
+export type ConditionOperator = ComparisonOperator | CrossOperator;
+
+export interface StrategyCondition {
+  left: Operand;
+  operator: ConditionOperator;
+  right: Operand;
+}
+
+export interface RuleSet {
+  logic: 'AND' | 'OR';
+  conditions: StrategyCondition[]; // An empty rule set never fires
+}
+
+export type PositionSizing =
+  | { type: 'percent_equity'; percent: number }
+  | { type: 'fixed_amount'; amount: number }
+  // Size so that a move of atrMultiple x ATR against the position loses riskPercent of equity
+  | { type: 'risk_atr'; riskPercent: number; atrPeriod: number; atrMultiple: number };
+
+export type ExitLevel = { type: 'percent'; value: number } | { type: 'atr'; multiple: number; period: number };
+
+export interface StrategyDefinition {
+  version: number;
+  name: string;
+  entry: RuleSet;
+  exit: RuleSet;
+  sizing: PositionSizing;
+  stopLoss?: ExitLevel | null;
+  takeProfit?: ExitLevel | null;
+  maxHoldingBars?: number | null; // Time exit at the close once a position has been held this many bars
+}
+
+export interface StrategyBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+  metrics?: Record<string, number>;
+}
+
+export type ExitReason = 'signal' | 'stop_loss' | 'take_profit' | 'time_limit' | 'end_of_data';
+
+export interface StrategyTrade {
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  shares: number;
+  pnl: number; // After trading costs
+  returnPct: number;
+  costs: number;
+  exitReason: ExitReason;
+}
+
+export interface StrategySimulation {
+  equity: { date: string; value: number }[];
+  trades: StrategyTrade[];
+  totalCosts: number;
+  barsInMarket: number;
+}
+
+export interface SimulationOptions {
+  capital: number;
+  // Trading cost in $ for a fill; lets callers plug in their own commission/slippage model
+  tradeCost?: (shares: number, price: number, bar: StrategyBar) => number;
+  wholeShares?: boolean;
+}
+
+type Series = (number | null)[];
+
+export const COMPARISON_OPERATORS: ConditionOperator[] = ['>', '<', '>=', '<=', '==', 'crosses_above', 'crosses_below'];
+
+// ============================================================================
+// Indicators
+// ============================================================================
+
+export function sma(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  }
+  return out;
+}
+
+export function ema(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  if (values.length < period) return out;
+  const k = 2 / (period + 1);
+  let prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+}
+
+// Wilder's RSI
+export function rsi(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  if (values.length <= period) return out;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) gain += change;
+    else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+  out[period] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    out[i] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  }
+  return out;
+}
+
+// Wilder's average true range
+export function atr(bars: StrategyBar[], period: number): Series {
+  const out: Series = new Array(bars.length).fill(null);
+  if (bars.length < period) return out;
+
+  const trueRange = bars.map((b, i) =>
+    i === 0
+      ? b.high - b.low
+      : Math.max(b.high - b.low, Math.abs(b.high - bars[i - 1].close), Math.abs(b.low - bars[i - 1].close))
+  );
+  let prev = trueRange.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < bars.length; i++) {
+    prev = (prev * (period - 1) + trueRange[i]) / period;
+    out[i] = prev;
+  }
+  return out;
+}
+
+export function bollinger(values: number[], period: number, stdDev: number, band: BollingerBand): Series {
+  const middle = sma(values, period);
+  if (band === 'middle') return middle;
+  return middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const sd = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    return band === 'upper' ? mean + stdDev * sd : mean - stdDev * sd;
+  });
+}
+
+// Rate of change over `period` bars, in percent
+export function momentum(values: number[], period: number): Series {
+  return values.map((v, i) => (i >= period && values[i - period] !== 0 ? (v / values[i - period] - 1) * 100 : null));
+}
+
+export function operandKey(operand: Operand): string {
+  switch (operand.kind) {
+    case 'price':
+      return `price:${operand.field}`;
+    case 'volume':
+      return 'volume';
+    case 'bollinger':
+      return `bollinger:${operand.band}:${operand.period}:${operand.stdDev}`;
+    case 'metric':
+      return `metric:${operand.name}`;
+    case 'constant':
+      return `constant:${operand.value}`;
+    default:
+      return `${operand.kind}:${operand.period}`;
+  }
+}
+
+export function computeOperand(operand: Operand, bars: StrategyBar[]): Series {
+  const closes = bars.map(b => b.close);
+  switch (operand.kind) {
+    case 'price':
+      return bars.map(b => b[operand.field]);
+    case 'volume':
+      return bars.map(b => (b.volume === undefined ? null : b.volume));
+    case 'sma':
+      return sma(closes, operand.period);
+    case 'ema':
+      return ema(closes, operand.period);
+    case 'rsi':
+      return rsi(closes, operand.period);
+    case 'atr':
+      return atr(bars, operand.period);
+    case 'momentum':
+      return momentum(closes, operand.period);
+    case 'bollinger':
+      return bollinger(closes, operand.period, operand.stdDev, operand.band);
+    case 'metric':
+      return bars.map(b => {
+        const value = b.metrics?.[operand.name];
+        return value === undefined || !Number.isFinite(value) ? null : value;
+      });
+    case 'constant':
+      return bars.map(() => operand.value);
+  }
+}
+
+// ============================================================================
+// Rule evaluation
+// ============================================================================
+
+export interface CompiledStrategy {
+  entry: (i: number) => boolean;
+  exit: (i: number) => boolean;
+  series: (operand: Operand) => Series;
+}
+
+export function evaluateCondition(condition: StrategyCondition, left: Series, right: Series, i: number): boolean {
+  const l = left[i];
+  const r = right[i];
+  if (l === null || r === null || l === undefined || r === undefined) return false;
+
+  switch (condition.operator) {
+    case '>':
+      return l > r;
+    case '<':
+      return l < r;
+    case '>=':
+      return l >= r;
+    case '<=':
+      return l <= r;
+    case '==':
+      return Math.abs(l - r) < 1e-9;
+    case 'crosses_above':
+    case 'crosses_below': {
+      if (i === 0) return false;
+      const pl = left[i - 1];
+      const pr = right[i - 1];
+      if (pl === null || pr === null) return false;
+      return condition.operator === 'crosses_above' ? pl <= pr && l > r : pl >= pr && l < r;
+    }
+  }
+}
+
+/**
+ * Precompute every series the strategy references so rules evaluate in O(1) per bar
+ */
+export function compileStrategy(definition: Pick<StrategyDefinition, 'entry' | 'exit'>, bars: StrategyBar[]): CompiledStrategy {
+  const cache = new Map<string, Series>();
+  const series = (operand: Operand): Series => {
+    const key = operandKey(operand);
+    let values = cache.get(key);
+    if (!values) {
+      values = computeOperand(operand, bars);
+      cache.set(key, values);
+    }
+    return values;
+  };
+
+  const evaluate = (rules: RuleSet, i: number): boolean => {
+    if (rules.conditions.length === 0) return false;
+    const check = (c: StrategyCondition) => evaluateCondition(c, series(c.left), series(c.right), i);
+    return rules.logic === 'AND' ? rules.conditions.every(check) : rules.conditions.some(check);
+  };
+
+  return {
+    entry: i => evaluate(definition.entry, i),
+    exit: i => evaluate(definition.exit, i),
+    series,
+  };
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+function exitPrice(level: ExitLevel, entryPrice: number, atrAtEntry: number | null, side: 'stop' | 'target'): number | null {
+  const sign = side === 'stop' ? -1 : 1;
+  if (level.type === 'percent') return entryPrice * (1 + (sign * level.value) / 100);
+  return atrAtEntry === null ? null : entryPrice + sign * level.multiple * atrAtEntry;
+}
+
+/**
+ * Simulate a long-only strategy on one instrument. Signals are read on a bar's close and filled
+ * at the next bar's open; stops and targets trigger intrabar (gaps fill at the open, and a bar
+ * that touches both is assumed to hit the stop first).
+ */
+export function simulateStrategy(
+  definition: StrategyDefinition,
+  bars: StrategyBar[],
+  options: SimulationOptions
+): StrategySimulation {
+  const { capital, tradeCost = () => 0, wholeShares = false } = options;
+  const compiled = compileStrategy(definition, bars);
+  const atrFor = (period: number) => compiled.series({ kind: 'atr', period });
+
+  const equity: { date: string; value: number }[] = [];
+  const trades: StrategyTrade[] = [];
+  let cash = capital;
+  let totalCosts = 0;
+  let barsInMarket = 0;
+  let position: {
+    shares: number;
+    entryIndex: number;
+    entryDate: string;
+    entryPrice: number;
+    entryCost: number;
+    stop: number | null;
+    target: number | null;
+  } | null = null;
+  let pendingEntry = false;
+  let pendingExit = false;
+
+  const close = (bar: StrategyBar, price: number, reason: ExitReason) => {
+    if (!position) return;
+    const cost = tradeCost(position.shares, price, bar);
+    cash += position.shares * price - cost;
+    totalCosts += cost;
+    const pnl = (price - position.entryPrice) * position.shares - position.entryCost - cost;
+    trades.push({
+      entryDate: position.entryDate,
+      entryPrice: position.entryPrice,
+      exitDate: bar.date,
+      exitPrice: price,
+      shares: position.shares,
+      pnl,
+      returnPct: (pnl / (position.entryPrice * position.shares)) * 100,
+      costs: position.entryCost + cost,
+      exitReason: reason,
+    });
+    position = null;
+  };
+
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+    const open = Number.isFinite(bar.open) && bar.open > 0 ? bar.open : bar.close;
+
+    if (pendingExit && position) {
+      close(bar, open, 'signal');
+    } else if (pendingEntry && !position) {
+      const portfolioValue = cash;
+      let budget = 0;
+      let atrAtEntry: number | null = null;
+      const sizing = definition.sizing;
+
+      if (sizing.type === 'percent_equity') {
+        budget = (portfolioValue * sizing.percent) / 100;
+      } else if (sizing.type === 'fixed_amount') {
+        budget = sizing.amount;
+      } else {
+        atrAtEntry = atrFor(sizing.atrPeriod)[i - 1] ?? null;
+        const stopDistance = atrAtEntry === null ? 0 : atrAtEntry * sizing.atrMultiple;
+        budget = stopDistance > 0 ? ((portfolioValue * sizing.riskPercent) / 100 / stopDistance) * open : 0;
+      }
+
+      budget = Math.min(budget, cash);
+      let shares = budget / open;
+      if (wholeShares) shares = Math.floor(shares);
+      // Leave room for the entry's own costs
+      while (shares > 0 && shares * open + tradeCost(shares, open, bar) > cash) {
+        shares = wholeShares ? shares - 1 : shares * 0.99;
+      }
+
+      if (shares > 0) {
+        const cost = tradeCost(shares, open, bar);
+        cash -= shares * open + cost;
+        totalCosts += cost;
+        const levelAtr = (level: ExitLevel | null | undefined) =>
+          level?.type === 'atr' ? atrFor(level.period)[i - 1] ?? null : null;
+        position = {
+          shares,
+          entryIndex: i,
+          entryDate: bar.date,
+          entryPrice: open,
+          entryCost: cost,
+          stop: definition.stopLoss ? exitPrice(definition.stopLoss, open, levelAtr(definition.stopLoss), 'stop') : null,
+          target: definition.takeProfit
+            ? exitPrice(definition.takeProfit, open, levelAtr(definition.takeProfit), 'target')
+            : null,
+        };
+      }
+    }
+    pendingEntry = false;
+    pendingExit = false;
+
+    if (position) {
+      if (position.stop !== null && bar.low <= position.stop) {
+        close(bar, Math.min(open, position.stop), 'stop_loss');
+      } else if (position.target !== null && bar.high >= position.target) {
+        close(bar, Math.max(open, position.target), 'take_profit');
+      } else if (definition.maxHoldingBars && i - position.entryIndex + 1 >= definition.maxHoldingBars) {
+        close(bar, bar.close, 'time_limit');
+      }
+    }
+
+    if (position) {
+      barsInMarket++;
+      if (i === bars.length - 1) close(bar, bar.close, 'end_of_data');
+      else pendingExit = compiled.exit(i);
+    } else if (i < bars.length - 1) {
+      pendingEntry = compiled.entry(i);
+    }
+
+    equity.push({ date: bar.date, value: cash + (position ? position.shares * bar.close : 0) });
+  }
+
+  return { equity, trades, totalCosts, barsInMarket };
+}
+
+// ============================================================================
+// Validation and conversion
+// ============================================================================
+
+const isPositiveInt = (n: unknown) => typeof n === 'number' && Number.isInteger(n) && n > 0;
+
+function validateOperand(operand: unknown, path: string, errors: string[]): void {
+  const op = operand as Operand | undefined;
+  if (!op || typeof op !== 'object' || !('kind' in op)) {
+    errors.push(`${path}: missing operand`);
+    return;
+  }
+  switch (op.kind) {
+    case 'price':
+      if (!['open', 'high', 'low', 'close'].includes(op.field)) errors.push(`${path}: unknown price field`);
+      return;
+    case 'volume':
+      return;
+    case 'sma':
+    case 'ema':
+    case 'rsi':
+    case 'atr':
+    case 'momentum':
+      if (!isPositiveInt(op.period)) errors.push(`${path}: ${op.kind.toUpperCase()} period must be a positive whole number`);
+      return;
+    case 'bollinger':
+      if (!isPositiveInt(op.period)) errors.push(`${path}: Bollinger period must be a positive whole number`);
+      if (!(op.stdDev > 0)) errors.push(`${path}: Bollinger width must be positive`);
+      if (!['upper', 'middle', 'lower'].includes(op.band)) errors.push(`${path}: unknown Bollinger band`);
+      return;
+    case 'metric':
+      if (!op.name) errors.push(`${path}: metric name is required`);
+      return;
+    case 'constant':
+      if (typeof op.value !== 'number' || !Number.isFinite(op.value)) errors.push(`${path}: value must be a number`);
+      return;
+    default:
+      errors.push(`${path}: unknown operand "${(op as { kind: string }).kind}"`);
+  }
+}
+
+function validateRuleSet(rules: unknown, path: string, errors: string[]): void {
+  const r = rules as RuleSet | undefined;
+  if (!r || !Array.isArray(r.conditions)) {
+    errors.push(`${path}: conditions are required`);
+    return;
+  }
+  if (r.logic !== 'AND' && r.logic !== 'OR') errors.push(`${path}: logic must be AND or OR`);
+  r.conditions.forEach((c, i) => {
+    validateOperand(c?.left, `${path} #${i + 1} left`, errors);
+    validateOperand(c?.right, `${path} #${i + 1} right`, errors);
+    if (!COMPARISON_OPERATORS.includes(c?.operator)) errors.push(`${path} #${i + 1}: unknown operator`);
+  });
+}
+
+function validateExitLevel(level: unknown, path: string, errors: string[]): void {
+  if (level === null || level === undefined) return;
+  const l = level as ExitLevel;
+  if (l.type === 'percent') {
+    if (!(l.value > 0)) errors.push(`${path}: percentage must be positive`);
+  } else if (l.type === 'atr') {
+    if (!(l.multiple > 0) || !isPositiveInt(l.period)) errors.push(`${path}: ATR multiple and period must be positive`);
+  } else {
+    errors.push(`${path}: unknown type`);
+  }
+}
+
+/**
+ * Check an untrusted definition (saved JSON, AI output) before it is run
+ */
+export function validateStrategy(value: unknown): { definition: StrategyDefinition | null; errors: string[] } {
+  const errors: string[] = [];
+  const def = value as StrategyDefinition | undefined;
+  if (!def || typeof def !== 'object') return { definition: null, errors: ['Strategy definition is missing'] };
+
+  if (!def.name || typeof def.name !== 'string') errors.push('Strategy name is required');
+  validateRuleSet(def.entry, 'Entry', errors);
+  validateRuleSet(def.exit, 'Exit', errors);
+  if (def.entry?.conditions?.length === 0) errors.push('Entry: add at least one condition');
+
+  const sizing = def.sizing;
+  if (!sizing) {
+    errors.push('Position sizing is required');
+  } else if (sizing.type === 'percent_equity') {
+    if (!(sizing.percent > 0 && sizing.percent <= 100)) errors.push('Sizing: percent of equity must be between 0 and 100');
+  } else if (sizing.type === 'fixed_amount') {
+    if (!(sizing.amount > 0)) errors.push('Sizing: amount must be positive');
+  } else if (sizing.type === 'risk_atr') {
+    if (!(sizing.riskPercent > 0) || !(sizing.atrMultiple > 0) || !isPositiveInt(sizing.atrPeriod)) {
+      errors.push('Sizing: risk, ATR multiple and period must be positive');
+    }
+  } else {
+    errors.push('Sizing: unknown type');
+  }
+
+  validateExitLevel(def.stopLoss, 'Stop-loss', errors);
+  validateExitLevel(def.takeProfit, 'Take-profit', errors);
+  if (def.maxHoldingBars !== undefined && def.maxHoldingBars !== null && !isPositiveInt(def.maxHoldingBars)) {
+    errors.push('Holding period must be a positive whole number of bars');
+  }
+
+  return { definition: errors.length === 0 ? { ...def, version: def.version || STRATEGY_DSL_VERSION } : null, errors };
+}
+
+// Condition shape produced by the ai-strategy-backtest parser
+export interface LegacyCondition {
+  type: string;
+  metric: string;
+  operator: string;
+  value: number | string;
+}
+
+export interface LegacyParsedStrategy {
+  strategy_name: string;
+  entry_conditions: LegacyCondition[];
+  entry_logic: 'AND' | 'OR';
+  exit_conditions: LegacyCondition[];
+  exit_logic: 'AND' | 'OR';
+  position_sizing: string;
+}
+
+const LEGACY_OPERANDS: Record<string, Operand> = {
+  current_price: { kind: 'price', field: 'close' },
+  price: { kind: 'price', field: 'close' },
+  volume: { kind: 'volume' },
+};
+
+/**
+ * Convert AI-parsed entry/exit conditions into a definition. Profit and loss exit conditions
+ * become take-profit and stop-loss levels; other metrics are read from the bars' metric series.
+ */
+export function fromLegacyConditions(parsed: LegacyParsedStrategy): StrategyDefinition {
+  const toCondition = (c: LegacyCondition): StrategyCondition | null => {
+    const value = typeof c.value === 'number' ? c.value : parseFloat(String(c.value));
+    const operator = (c.operator === '=' ? '==' : c.operator) as ConditionOperator;
+    if (!Number.isFinite(value) || !COMPARISON_OPERATORS.includes(operator)) return null;
+    return {
+      left: LEGACY_OPERANDS[c.metric] || { kind: 'metric', name: c.metric },
+      operator,
+      right: { kind: 'constant', value },
+    };
+  };
+
+  // Legacy percentages are fractions when below 1 (0.2 = 20%)
+  const percent = (c: LegacyCondition) => {
+    const v = Math.abs(parseFloat(String(c.value)));
+    return v < 1 ? v * 100 : v;
+  };
+  const profit = (parsed.exit_conditions || []).find(c => c.type === 'profit');
+  const loss = (parsed.exit_conditions || []).find(c => c.type === 'loss');
+  const ruleConditions = (conditions: LegacyCondition[]) =>
+    (conditions || [])
+      .filter(c => c.type !== 'profit' && c.type !== 'loss')
+      .map(toCondition)
+      .filter((c): c is StrategyCondition => c !== null);
+
+  return {
+    version: STRATEGY_DSL_VERSION,
+    name: parsed.strategy_name || 'Parsed Strategy',
+    entry: { logic: parsed.entry_logic === 'OR' ? 'OR' : 'AND', conditions: ruleConditions(parsed.entry_conditions) },
+    exit: { logic: parsed.exit_logic === 'AND' ? 'AND' : 'OR', conditions: ruleConditions(parsed.exit_conditions) },
+    // Kelly variants need win-rate estimates the parser does not provide; use a fixed 10% slice
+    sizing: { type: 'percent_equity', percent: 10 },
+    stopLoss: loss && Number.isFinite(percent(loss)) ? { type: 'percent', value: percent(loss) } : null,
+    takeProfit: profit && Number.isFinite(percent(profit)) ? { type: 'percent', value: percent(profit) } : null,
+  };
+}
+
+// ============================================================================
+// Descriptions
+// ============================================================================
+
+export function describeOperand(operand: Operand): string {
+  switch (operand.kind) {
+    case 'price':
+      return operand.field === 'close' ? 'Price' : operand.field[0].toUpperCase() + operand.field.slice(1);
+    case 'volume':
+      return 'Volume';
+    case 'bollinger':
+      return `BB${operand.band === 'middle' ? '' : ` ${operand.band}`}(${operand.period}, ${operand.stdDev})`;
+    case 'metric':
+      return operand.name;
+    case 'constant':
+      return String(operand.value);
+    default:
+      return `${operand.kind === 'momentum' ? 'MOM' : operand.kind.toUpperCase()}(${operand.period})`;
+  }
+}
+
+export function describeCondition(condition: StrategyCondition): string {
+  const operator = condition.operator.replace('_', ' ');
+  return `${describeOperand(condition.left)} ${operator} ${describeOperand(condition.right)}`;
+}
+
+export function describeRuleSet(rules: RuleSet): string {
+  return rules.conditions.map(describeCondition).join(` ${rules.logic} `) || 'never';
+}
@@ -0,0 +1,368 @@
+// Three-Statement Projection Engine - Deterministic income statement, balance sheet and cash flow projection
+// Shared by the client model builders and edge functions, so it has no imports and must run
+// unchanged in the browser and in Deno.
+
+export interface HistoricalFinancials {
+  historical_years: string[];
+  income_statement?: {
+    revenue?: Record<string, number>;
+    ebitda?: Record<string, number>;
+    depreciation_amortization?: Record<string, number>;
+    interest_expense?: Record<string, number>;
+    net_income?: Record<string, number>;
+  };
+  balance_sheet?: {
+    cash?: Record<string, number>;
+    accounts_receivable?: Record<string, number>;
+    inventory?: Record<string, number>;
+    accounts_payable?: Record<string, number>;
+    total_debt?: Record<string, number>;
+    net_ppe?: Record<string, number>;
+  };
+  cash_flow?: {
+    capex?: Record<string, number>;
+  };
+}
+
+// All rates in whole percent (10 = 10%), matching saved model assumptions
+export interface ProjectionAssumptions {
+  revenue_growth: number;
+  ebitda_margin: number;
+  capex_pct: number;
+  nwc_pct: number;
+  tax_rate: number;
+  da_pct: number;
+  interest_rate: number; // On average debt balance
+  sbc_pct?: number; // Stock-based compensation, % of revenue (non-cash, included in EBITDA)
+  cash_interest_rate?: number; // Interest income on average cash balance
+  debt_repayment_pct?: number; // Mandatory repayment, % of opening debt per year
+  projection_years?: number;
+  opening_cash?: number; // Overrides when the historical balance sheet lacks cash
+  opening_debt?: number; // Overrides when the historical balance sheet lacks debt
+}
+
+export type YearSeries = Record<string, number>;
+
+export interface ThreeStatementProjection {
+  historical_years: string[];
+  projection_years: string[];
+  all_years: string[];
+  income_statement: {
+    revenue: YearSeries;
+    ebitda: YearSeries;
+    sbc: YearSeries;
+    depreciation: YearSeries;
+    ebit: YearSeries;
+    interest_expense: YearSeries;
+    interest_income: YearSeries;
+    ebt: YearSeries;
+    taxes: YearSeries;
+    net_income: YearSeries;
+  };
+  balance_sheet: {
+    cash: YearSeries;
+    net_working_capital: YearSeries;
+    net_ppe: YearSeries;
+    total_assets: YearSeries;
+    debt: YearSeries;
+    equity: YearSeries;
+    total_liabilities_and_equity: YearSeries;
+  };
+  cash_flow_statement: {
+    net_income: YearSeries;
+    add_back_da: YearSeries;
+    add_back_sbc: YearSeries;
+    change_nwc: YearSeries; // Negative = investment in working capital
+    cash_from_operations: YearSeries;
+    capex: YearSeries; // Negative = outflow
+    cash_from_investing: YearSeries;
+    debt_repayment: YearSeries; // Negative = outflow
+    cash_from_financing: YearSeries;
+    net_change_in_cash: YearSeries;
+    unlevered_fcf: YearSeries;
+    levered_fcf: YearSeries;
+  };
+  balance_check: YearSeries; // Assets - (liabilities + equity); zero when balanced
+  notes: string[];
+}
+
+const REQUIRED_ASSUMPTIONS: (keyof ProjectionAssumptions)[] = [
+  'revenue_growth',
+  'ebitda_margin',
+  'capex_pct',
+  'nwc_pct',
+  'tax_rate',
+  'da_pct',
+  'interest_rate',
+];
+
+const MAX_CIRCULARITY_ITERATIONS = 100;
+const CIRCULARITY_TOLERANCE = 1e-9;
+const BALANCE_TOLERANCE = 1e-6;
+
+/**
+ * Derive projection year labels from the last historical year label.
+ * Accepts plain years ("2024") and prefixed fiscal labels ("FY2024").
+ */
+export function deriveProjectionYears(lastHistoricalYear: string, count: number): string[] {
+  const match = /^(.*?)(\d{4})$/.exec(String(lastHistoricalYear).trim());
+  if (!match) {
+    throw new Error(`Cannot derive projection years from historical year label "${lastHistoricalYear}"`);
+  }
+  const [, prefix, year] = match;
+  return Array.from({ length: count }, (_, i) => `${prefix}${parseInt(year, 10) + i + 1}`);
+}
+
+function validateAssumptions(assumptions: ProjectionAssumptions): void {
+  const invalid = REQUIRED_ASSUMPTIONS.filter(
+    key => typeof assumptions?.[key] !== 'number' || !Number.isFinite(assumptions[key] as number)
+  );
+  if (invalid.length > 0) {
+    throw new Error(`Missing or invalid assumptions: ${invalid.join(', ')}`);
+  }
+  if (assumptions.tax_rate < 0 || assumptions.tax_rate >= 100) {
+    throw new Error('Tax rate must be between 0% and 100%');
+  }
+  if (assumptions.projection_years !== undefined && (assumptions.projection_years < 1 || assumptions.projection_years > 30)) {
+    throw new Error('Projection years must be between 1 and 30');
+  }
+}
+
+/**
+ * Run a balancing three-statement projection.
+ *
+ * Interest expense accrues on average debt; debt moves only by scheduled
+ * repayment, so it is not circular. Interest income on average cash is
+ * circular (cash depends on after-tax interest income) and is solved by
+ * fixed-point iteration, which converges because the feedback is < 1.
+ *
+ * Throws when required historical inputs or assumptions are missing rather
+ * than substituting placeholder values.
+ */
+export function runThreeStatementProjection(
+  historical: HistoricalFinancials,
+  assumptions: ProjectionAssumptions
+): ThreeStatementProjection {
+  validateAssumptions(assumptions);
+
+  const histYears = historical?.historical_years || [];
+  if (histYears.length === 0) {
+    throw new Error('Historical data must include at least one historical year');
+  }
+
+  const lastYear = histYears[histYears.length - 1];
+  const is = historical.income_statement || {};
+  const bs = historical.balance_sheet || {};
+  const cf = historical.cash_flow || {};
+  const notes: string[] = [];
+
+  const baseRevenue = is.revenue?.[lastYear];
+  const openingCash = bs.cash?.[lastYear] ?? assumptions.opening_cash;
+  const openingDebt = bs.total_debt?.[lastYear] ?? assumptions.opening_debt;
+
+  if (typeof baseRevenue !== 'number' || typeof openingCash !== 'number' || typeof openingDebt !== 'number') {
+    const missing: string[] = [];
+    if (typeof baseRevenue !== 'number') missing.push(`income_statement.revenue[${lastYear}]`);
+    if (typeof openingCash !== 'number') missing.push(`balance_sheet.cash[${lastYear}] (or opening_cash)`);
+    if (typeof openingDebt !== 'number') missing.push(`balance_sheet.total_debt[${lastYear}] (or opening_debt)`);
+    throw new Error(`Missing historical inputs: ${missing.join(', ')}`);
+  }
+  if (baseRevenue <= 0) {
+    throw new Error(`Revenue for ${lastYear} must be positive to project growth`);
+  }
+
+  const nYears = assumptions.projection_years ?? 5;
+  const projectionYears = deriveProjectionYears(lastYear, nYears);
+  const allYears = [...histYears, ...projectionYears];
+
+  const g = assumptions.revenue_growth / 100;
+  const margin = assumptions.ebitda_margin / 100;
+  const capexPct = assumptions.capex_pct / 100;
+  const nwcPct = assumptions.nwc_pct / 100;
+  const taxRate = assumptions.tax_rate / 100;
+  const daPct = assumptions.da_pct / 100;
+  const debtRate = assumptions.interest_rate / 100;
+  const sbcPct = (assumptions.sbc_pct ?? 0) / 100;
+  const cashRate = (assumptions.cash_interest_rate ?? 0) / 100;
+  const repaymentPct = (assumptions.debt_repayment_pct ?? 0) / 100;
+
+  const series = (): YearSeries => ({});
+  const result: ThreeStatementProjection = {
+    historical_years: histYears,
+    projection_years: projectionYears,
+    all_years: allYears,
+    income_statement: {
+      revenue: series(), ebitda: series(), sbc: series(), depreciation: series(), ebit: series(),
+      interest_expense: series(), interest_income: series(), ebt: series(), taxes: series(), net_income: series(),
+    },
+    balance_sheet: {
+      cash: series(), net_working_capital: series(), net_ppe: series(), total_assets: series(),
+      debt: series(), equity: series(), total_liabilities_and_equity: series(),
+    },
+    cash_flow_statement: {
+      net_income: series(), add_back_da: series(), add_back_sbc: series(), change_nwc: series(),
+      cash_from_operations: series(), capex: series(), cash_from_investing: series(),
+      debt_repayment: series(), cash_from_financing: series(), net_change_in_cash: series(),
+      unlevered_fcf: series(), levered_fcf: series(),
+    },
+    balance_check: series(),
+    notes,
+  };
+
+  // Historical columns: report only what was provided
+  histYears.forEach(year => {
+    const set = (target: YearSeries, value: number | undefined) => {
+      if (typeof value === 'number') target[year] = value;
+    };
+    set(result.income_statement.revenue, is.revenue?.[year]);
+    set(result.income_statement.ebitda, is.ebitda?.[year]);
+    set(result.income_statement.depreciation, is.depreciation_amortization?.[year]);
+    set(result.income_statement.interest_expense, is.interest_expense?.[year]);
+    set(result.income_statement.net_income, is.net_income?.[year]);
+    set(result.cash_flow_statement.net_income, is.net_income?.[year]);
+    set(result.cash_flow_statement.add_back_da, is.depreciation_amortization?.[year]);
+    set(result.cash_flow_statement.capex, cf.capex?.[year] !== undefined ? -Math.abs(cf.capex[year]) : undefined);
+    set(result.balance_sheet.cash, bs.cash?.[year]);
+    set(result.balance_sheet.debt, bs.total_debt?.[year]);
+    const ebitda = is.ebitda?.[year];
+    const da = is.depreciation_amortization?.[year];
+    if (typeof ebitda === 'number' && typeof da === 'number') {
+      result.income_statement.ebit[year] = ebitda - da;
+    }
+  });
+
+  // Opening balance sheet
+  const ar = bs.accounts_receivable?.[lastYear];
+  const inv = bs.inventory?.[lastYear];
+  const ap = bs.accounts_payable?.[lastYear];
+  let prevNwc: number;
+  if (typeof ar === 'number' || typeof inv === 'number' || typeof ap === 'number') {
+    prevNwc = (ar ?? 0) + (inv ?? 0) - (ap ?? 0);
+  } else {
+    prevNwc = baseRevenue * nwcPct;
+    notes.push(`Opening working capital set to ${assumptions.nwc_pct}% of ${lastYear} revenue (no AR/inventory/AP provided)`);
+  }
+
+  let prevPpe = bs.net_ppe?.[lastYear];
+  if (typeof prevPpe !== 'number') {
+    prevPpe = 0;
+    notes.push(`Net PP&E rolled forward from zero (no ${lastYear} net PP&E provided)`);
+  }
+
+  let prevCash = openingCash;
+  let prevDebt = openingDebt;
+  let prevEquity = prevCash + prevNwc + prevPpe - prevDebt;
+  let prevRevenue = baseRevenue;
+
+  // Opening cash and debt may come from the overrides; show them in the last historical column
+  result.balance_sheet.cash[lastYear] = prevCash;
+  result.balance_sheet.debt[lastYear] = prevDebt;
+  result.balance_sheet.net_working_capital[lastYear] = prevNwc;
+  result.balance_sheet.net_ppe[lastYear] = prevPpe;
+  result.balance_sheet.total_assets[lastYear] = prevCash + prevNwc + prevPpe;
+  result.balance_sheet.equity[lastYear] = prevEquity;
+  result.balance_sheet.total_liabilities_and_equity[lastYear] = prevDebt + prevEquity;
+  result.balance_check[lastYear] = 0;
+
+  projectionYears.forEach(year => {
+    const revenue = prevRevenue * (1 + g);
+    const ebitda = revenue * margin;
+    const sbc = revenue * sbcPct;
+    const da = revenue * daPct;
+    const ebit = ebitda - da;
+    const capex = revenue * capexPct;
+    const nwc = revenue * nwcPct;
+    const changeNwc = -(nwc - prevNwc);
+
+    const repayment = Math.min(prevDebt, prevDebt * repaymentPct);
+    const debt = prevDebt - repayment;
+    const interestExpense = debtRate * (prevDebt + debt) / 2;
+
+    // Solve the cash / interest income circularity
+    let interestIncome = 0;
+    let ebt = 0;
+    let taxes = 0;
+    let netIncome = 0;
+    let cash = prevCash;
+    for (let iter = 0; iter < MAX_CIRCULARITY_ITERATIONS; iter++) {
+      ebt = ebit - interestExpense + interestIncome;
+      taxes = Math.max(0, ebt * taxRate);
+      netIncome = ebt - taxes;
+      const cfo = netIncome + da + sbc + changeNwc;
+      const nextCash = prevCash + cfo - capex - repayment;
+      const nextInterestIncome = cashRate * (prevCash + nextCash) / 2;
+      const converged = Math.abs(nextInterestIncome - interestIncome) < CIRCULARITY_TOLERANCE;
+      cash = nextCash;
+      interestIncome = nextInterestIncome;
+      if (converged) break;
+      if (iter === MAX_CIRCULARITY_ITERATIONS - 1) {
+        throw new Error(`Interest circularity did not converge in ${year}`);
+      }
+    }
+    // Final pass so the income statement reflects the converged interest income
+    ebt = ebit - interestExpense + interestIncome;
+    taxes = Math.max(0, ebt * taxRate);
+    netIncome = ebt - taxes;
+    const cfo = netIncome + da + sbc + changeNwc;
+    cash = prevCash + cfo - capex - repayment;
+
+    const ppe = prevPpe + capex - da;
+    // SBC is a non-cash expense credited back to equity
+    const equity = prevEquity + netIncome + sbc;
+    const totalAssets = cash + nwc + ppe;
+    const totalLE = debt + equity;
+    const imbalance = totalAssets - totalLE;
+    if (Math.abs(imbalance) > BALANCE_TOLERANCE * Math.max(1, Math.abs(totalAssets))) {
+      throw new Error(`Balance sheet does not balance in ${year} (difference ${imbalance.toFixed(6)})`);
+    }
+
+    const ufcf = ebit * (1 - taxRate) + da + sbc + changeNwc - capex;
+    const lfcf = cfo - capex;
+
+    const isv = result.income_statement;
+    isv.revenue[year] = revenue;
+    isv.ebitda[year] = ebitda;
+    isv.sbc[year] = sbc;
+    isv.depreciation[year] = da;
+    isv.ebit[year] = ebit;
+    isv.interest_expense[year] = interestExpense;
+    isv.interest_income[year] = interestIncome;
+    isv.ebt[year] = ebt;
+    isv.taxes[year] = taxes;
+    isv.net_income[year] = netIncome;
+
+    const bsv = result.balance_sheet;
+    bsv.cash[year] = cash;
+    bsv.net_working_capital[year] = nwc;
+    bsv.net_ppe[year] = ppe;
+    bsv.total_assets[year] = totalAssets;
+    bsv.debt[year] = debt;
+    bsv.equity[year] = equity;
+    bsv.total_liabilities_and_equity[year] = totalLE;
+
+    const cfs = result.cash_flow_statement;
+    cfs.net_income[year] = netIncome;
+    cfs.add_back_da[year] = da;
+    cfs.add_back_sbc[year] = sbc;
+    cfs.change_nwc[year] = changeNwc;
+    cfs.cash_from_operations[year] = cfo;
+    cfs.capex[year] = -capex;
+    cfs.cash_from_investing[year] = -capex;
+    cfs.debt_repayment[year] = -repayment;
+    cfs.cash_from_financing[year] = -repayment;
+    cfs.net_change_in_cash[year] = cash - prevCash;
+    cfs.unlevered_fcf[year] = ufcf;
+    cfs.levered_fcf[year] = lfcf;
+
+    result.balance_check[year] = imbalance;
+
+    prevRevenue = revenue;
+    prevNwc = nwc;
+    prevPpe = ppe;
+    prevCash = cash;
+    prevDebt = debt;
+    prevEquity = equity;
+  });
+
+  return result;
+}
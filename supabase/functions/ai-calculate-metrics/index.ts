@@ -187,20 +187,11 @@ serve(async (req) => {
           return;
         }
         
-        // Convert to daily returns
-        const bars: { date: string; close: number; return: number }[] = [];
-        const results = data.results;
+        // Convert to daily total returns (price change plus dividends going ex)
+        const dividends = await fetchDividends(ticker, startDate, endDate);
+        const bars = toTotalReturnBars(data.results, dividends);
         
-        for (let i = 0; i < results.length; i++) {
-          const bar = results[i];
-          const date = new Date(bar.t).toISOString().split('T')[0];
-          const close = bar.c;
-          const dailyReturn = i > 0 ? (close - results[i-1].c) / results[i-1].c : 0;
-          
-          bars.push({ date, close, return: dailyReturn });
-        }
-        
-        console.log(`[AICalculate] Got ${bars.length} bars for ${ticker}`);
+        console.log(`[AICalculate] Got ${bars.length} bars for ${ticker} (${dividends.length} dividends)`);
         tickerData.set(ticker, bars);
       } catch (err) {
         console.error(`[AICalculate] Error fetching ${ticker}:`, err);
@@ -266,9 +257,8 @@ serve(async (req) => {
       if (benchResponse.ok) {
         const benchData = await benchResponse.json();
         if (benchData.ok && benchData.results && benchData.results.length > 0) {
-          benchmarkReturns = benchData.results.slice(1).map((bar: any, i: number) => 
-            (bar.c - benchData.results[i].c) / benchData.results[i].c
-          );
+          const benchDividends = await fetchDividends(benchmarkTicker, startDate, endDate);
+          benchmarkReturns = toTotalReturnBars(benchData.results, benchDividends).slice(1).map(bar => bar.return);
           console.log(`[AICalculate] Benchmark (${benchmarkTicker}): ${benchmarkReturns.length} days`);
         }
       }
@@ -1525,6 +1515,61 @@ function generatePortfolioHash(tickers: string[], weights: number[]): string {
   return Math.abs(hash).toString(16).padStart(16, '0');
 }
 
+/**
+ * Split-adjusted dividends by ex-date, through the finnhub-proxy function (which stores them in
+ * market_corporate_actions). Polygon aggregates are split-adjusted, so these match their share basis.
+ */
+async function fetchDividends(ticker: string, startDate: string, endDate: string): Promise<{ date: string; amount: number }[]> {
+  try {
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/finnhub-proxy`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get("SUPABASE_ANON_KEY")}`
+      },
+      body: JSON.stringify({ action: 'corporate_actions', symbol: ticker, from: startDate, to: endDate })
+    });
+    if (!response.ok) return [];
+
+    const data = await response.json();
+    if (!data.ok || !Array.isArray(data.dividends)) return [];
+    return data.dividends
+      .map((d: { date: string; amount: number; adjustedAmount?: number }) => ({
+        date: String(d.date),
+        amount: Number(d.adjustedAmount ?? d.amount),
+      }))
+      .filter((d: { date: string; amount: number }) => d.date && d.amount > 0);
+  } catch (err) {
+    console.warn(`[AICalculate] Dividends unavailable for ${ticker}:`, err);
+    return [];
+  }
+}
+
+/**
+ * Daily total returns from Polygon aggregates: dividends going ex after the previous bar and
+ * through this one are added back to the price change. The first bar gets a zero return.
+ */
+function toTotalReturnBars(
+  results: { t: number; c: number }[],
+  dividends: { date: string; amount: number }[]
+): { date: string; close: number; return: number }[] {
+  const bars: { date: string; close: number; return: number }[] = [];
+  for (let i = 0; i < results.length; i++) {
+    const date = new Date(results[i].t).toISOString().split('T')[0];
+    const close = results[i].c;
+    if (i === 0) {
+      bars.push({ date, close, return: 0 });
+      continue;
+    }
+    const prev = bars[i - 1];
+    const cash = dividends
+      .filter(d => d.date > prev.date && d.date <= date)
+      .reduce((sum, d) => sum + d.amount, 0);
+    bars.push({ date, close, return: (close + cash - prev.close) / prev.close });
+  }
+  return bars;
+}
+
 function getOneYearAgo(): string {
   const date = new Date();
   date.setFullYear(date.getFullYear() - 1);
@@ -1,6 +1,15 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  StrategyBar,
+  StrategyDefinition,
+  StrategyTrade,
+  describeRuleSet,
+  fromLegacyConditions,
+  simulateStrategy,
+  validateStrategy,
+} from "../_shared/strategyDsl.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -48,6 +57,77 @@ interface BacktestResults {
   trades: Trade[];
   equity_curve: Array<{ date: string; value: number }>;
   category_breakdown: Record<string, { trades: number; pnl: number }>;
+  unsupported_metrics: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_HOLDING_DAYS = 30;
+
+// Metrics derivable from price history; sentiment and whale metrics have no history yet
+const HISTORICAL_METRICS = ['current_price', 'price_change_24h', 'volume_24h', 'days_to_resolution'];
+
+interface PricePoint {
+  market_id: string;
+  outcome_id: string;
+  price: number;
+  timestamp: string;
+  volume: number | null;
+}
+
+/**
+ * Daily OHLC bars per market from the first outcome's price history, with the metrics the
+ * parser can reference attached to each bar
+ */
+function buildDailyBars(
+  history: PricePoint[],
+  markets: Array<{ id: string; resolution_date?: string | null }>
+): Map<string, StrategyBar[]> {
+  const outcomeByMarket = new Map<string, string>();
+  const barsByMarket = new Map<string, Map<string, StrategyBar>>();
+
+  for (const point of history) {
+    if (!outcomeByMarket.has(point.market_id)) outcomeByMarket.set(point.market_id, point.outcome_id);
+    if (outcomeByMarket.get(point.market_id) !== point.outcome_id) continue;
+
+    const date = point.timestamp.split('T')[0];
+    const days = barsByMarket.get(point.market_id) || new Map<string, StrategyBar>();
+    barsByMarket.set(point.market_id, days);
+    const bar = days.get(date);
+    if (!bar) {
+      days.set(date, { date, open: point.price, high: point.price, low: point.price, close: point.price, volume: point.volume || 0 });
+    } else {
+      bar.high = Math.max(bar.high, point.price);
+      bar.low = Math.min(bar.low, point.price);
+      bar.close = point.price;
+      bar.volume = (bar.volume || 0) + (point.volume || 0);
+    }
+  }
+
+  const result = new Map<string, StrategyBar[]>();
+  for (const market of markets) {
+    const days = barsByMarket.get(market.id);
+    if (!days) continue;
+    const resolution = market.resolution_date ? new Date(market.resolution_date).getTime() : null;
+    const bars = [...days.values()];
+    bars.forEach((bar, i) => {
+      const previous = bars[i - 1];
+      bar.metrics = {
+        current_price: bar.close,
+        volume_24h: bar.volume || 0,
+        ...(previous && previous.close > 0 ? { price_change_24h: bar.close / previous.close - 1 } : {}),
+        ...(resolution !== null ? { days_to_resolution: (resolution - new Date(bar.date).getTime()) / DAY_MS } : {}),
+      };
+    });
+    result.set(market.id, bars);
+  }
+  return result;
+}
+
+function unsupportedMetrics(definition: StrategyDefinition): string[] {
+  const names = [...definition.entry.conditions, ...definition.exit.conditions]
+    .flatMap((c) => [c.left, c.right])
+    .flatMap((o) => (o.kind === 'metric' ? [o.name] : []));
+  return [...new Set(names)].filter((name) => !HISTORICAL_METRICS.includes(name));
 }
 
 serve(async (req) => {
@@ -65,7 +145,8 @@ serve(async (req) => {
     }
 
     const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
-    const { action, strategy_text, parsed_strategy, start_date, end_date, initial_capital, categories } = await req.json();
+    const body = await req.json();
+    const { action, strategy_text, parsed_strategy, start_date, end_date, initial_capital, categories } = body;
 
     if (action === 'parse') {
       // Parse natural language strategy into rules
@@ -131,27 +212,32 @@ Be precise and convert natural language to exact conditions.`;
 
       return new Response(JSON.stringify({
         success: true,
-        parsed_strategy: parsedStrategy
+        parsed_strategy: parsedStrategy,
+        definition: { ...fromLegacyConditions(parsedStrategy), maxHoldingBars: MAX_HOLDING_DAYS },
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
     if (action === 'backtest') {
-      // Run backtest with parsed strategy
+      // Run backtest with parsed strategy. A DSL definition from the client takes precedence over
+      // the parser's conditions; both are evaluated by the shared rule engine on real price history.
       const strategy = parsed_strategy as ParsedStrategy;
-      
+      const { definition, errors } = validateStrategy(
+        body.definition || { ...fromLegacyConditions(strategy), maxHoldingBars: MAX_HOLDING_DAYS }
+      );
+      if (!definition) {
+        throw new Error(`Invalid strategy: ${errors.join('; ')}`);
+      }
+      const startingCapital = initial_capital || 10000;
+      const maxPositions = strategy?.max_positions || 5;
+
       // Fetch historical market data
       const { data: markets } = await supabase
         .from('prediction_markets')
         .select('*')
         .order('created_at', { ascending: true });
 
-      // Fetch historical outcomes for resolved markets
-      const { data: outcomes } = await supabase
-        .from('historical_outcomes')
-        .select('*');
-
       // Fetch price history
       const { data: priceHistory } = await supabase
         .from('market_price_history')
@@ -160,120 +246,72 @@ Be precise and convert natural language to exact conditions.`;
         .lte('timestamp', end_date)
         .order('timestamp', { ascending: true });
 
-      // Simulate backtest
+      const availableMarkets = (markets || []).filter(
+        (m) => !strategy?.category_filter || m.category === strategy.category_filter
+      );
+      const barsByMarket = buildDailyBars(priceHistory || [], availableMarkets);
+
+      // Simulate each market on the full starting capital, then admit trades in entry order
+      // while fewer than max_positions are open
+      const candidates: Array<StrategyTrade & { market: Record<string, unknown> }> = [];
+      for (const market of availableMarkets) {
+        const bars = barsByMarket.get(market.id);
+        if (!bars || bars.length < 2) continue;
+        const simulation = simulateStrategy(definition, bars, { capital: startingCapital });
+        simulation.trades.forEach((t) => candidates.push({ ...t, market }));
+      }
+      candidates.sort((a, b) => a.entryDate.localeCompare(b.entryDate));
+
       const trades: Trade[] = [];
+      const categoryBreakdown: Record<string, { trades: number; pnl: number }> = {};
+      const open: string[] = [];
+      for (const t of candidates) {
+        const stillOpen = open.filter((exitDate) => exitDate > t.entryDate);
+        if (stillOpen.length >= maxPositions) continue;
+        open.splice(0, open.length, ...stillOpen, t.exitDate);
+
+        const holdingDays = Math.round((new Date(t.exitDate).getTime() - new Date(t.entryDate).getTime()) / DAY_MS);
+        trades.push({
+          market_id: t.market.id as string,
+          market_title: (t.market.title as string) || 'Unknown Market',
+          entry_date: t.entryDate,
+          entry_price: t.entryPrice,
+          exit_date: t.exitDate,
+          exit_price: t.exitPrice,
+          pnl: t.pnl,
+          pnl_percent: t.returnPct / 100,
+          holding_days: holdingDays,
+          exit_reason: t.exitReason,
+        });
+
+        // Track category breakdown
+        const category = (t.market.category as string) || 'other';
+        if (!categoryBreakdown[category]) {
+          categoryBreakdown[category] = { trades: 0, pnl: 0 };
+        }
+        categoryBreakdown[category].trades++;
+        categoryBreakdown[category].pnl += t.pnl;
+      }
+
+      // Realized equity curve and drawdown
       const equityCurve: Array<{ date: string; value: number }> = [];
-      let capital = initial_capital || 10000;
+      let capital = startingCapital;
       let peakCapital = capital;
       let maxDrawdown = 0;
-      const openPositions: Map<string, { entry_price: number; entry_date: string; size: number; market: Record<string, unknown> }> = new Map();
-      const categoryBreakdown: Record<string, { trades: number; pnl: number }> = {};
-
-      // Generate simulated daily data points
-      const startDt = new Date(start_date);
       const endDt = new Date(end_date);
-      const dayMs = 24 * 60 * 60 * 1000;
-      
-      // Use available markets for simulation
-      const availableMarkets = markets || [];
-      
-      for (let dt = startDt; dt <= endDt; dt = new Date(dt.getTime() + dayMs)) {
+      for (let dt = new Date(start_date); dt <= endDt; dt = new Date(dt.getTime() + DAY_MS)) {
         const dateStr = dt.toISOString().split('T')[0];
-        
-        // Simulate market conditions for entry check
-        for (const market of availableMarkets.slice(0, 20)) {
-          if (openPositions.size >= strategy.max_positions) break;
-          if (openPositions.has(market.id)) continue;
-          
-          // Check category filter
-          if (strategy.category_filter && market.category !== strategy.category_filter) continue;
-          
-          // Simulate entry condition check (random with bias based on strategy)
-          const entryProbability = 0.05; // 5% chance per day per market
-          if (Math.random() < entryProbability) {
-            const entryPrice = 0.3 + Math.random() * 0.4; // 30-70%
-            const positionSize = capital * 0.1; // 10% per position
-            
-            openPositions.set(market.id, {
-              entry_price: entryPrice,
-              entry_date: dateStr,
-              size: positionSize,
-              market
-            });
-          }
-        }
-        
-        // Check exit conditions for open positions
-        const positionsToClose: string[] = [];
-        openPositions.forEach((pos, marketId) => {
-          const daysHeld = Math.floor((dt.getTime() - new Date(pos.entry_date).getTime()) / dayMs);
-          
-          // Simulate exit conditions
-          let shouldExit = false;
-          let exitReason = '';
-          let exitPrice = pos.entry_price;
-          
-          // Check time-based exit
-          if (daysHeld >= 30) {
-            shouldExit = true;
-            exitReason = 'time_limit';
-            exitPrice = pos.entry_price + (Math.random() - 0.3) * 0.3;
-          }
-          
-          // Random profit/loss exit
-          if (Math.random() < 0.1) {
-            shouldExit = true;
-            exitReason = Math.random() > 0.4 ? 'take_profit' : 'stop_loss';
-            exitPrice = exitReason === 'take_profit' 
-              ? pos.entry_price + 0.1 + Math.random() * 0.2
-              : pos.entry_price - 0.05 - Math.random() * 0.1;
-          }
-          
-          if (shouldExit) {
-            const pnl = (exitPrice - pos.entry_price) * pos.size;
-            const pnlPercent = (exitPrice - pos.entry_price) / pos.entry_price;
-            
-            trades.push({
-              market_id: marketId,
-              market_title: (pos.market.title as string) || 'Unknown Market',
-              entry_date: pos.entry_date,
-              entry_price: pos.entry_price,
-              exit_date: dateStr,
-              exit_price: exitPrice,
-              pnl,
-              pnl_percent: pnlPercent,
-              holding_days: daysHeld,
-              exit_reason: exitReason
-            });
-            
-            capital += pnl;
-            
-            // Track category breakdown
-            const category = (pos.market.category as string) || 'other';
-            if (!categoryBreakdown[category]) {
-              categoryBreakdown[category] = { trades: 0, pnl: 0 };
-            }
-            categoryBreakdown[category].trades++;
-            categoryBreakdown[category].pnl += pnl;
-            
-            positionsToClose.push(marketId);
-          }
-        });
-        
-        positionsToClose.forEach(id => openPositions.delete(id));
-        
-        // Track equity curve
+        trades.filter((t) => t.exit_date === dateStr).forEach((t) => (capital += t.pnl));
         equityCurve.push({ date: dateStr, value: capital });
-        
-        // Track drawdown
+
         if (capital > peakCapital) peakCapital = capital;
         const drawdown = (peakCapital - capital) / peakCapital;
         if (drawdown > maxDrawdown) maxDrawdown = drawdown;
       }
-      
+
       // Calculate final metrics
       const winningTrades = trades.filter(t => t.pnl > 0);
-      const totalReturn = (capital - (initial_capital || 10000)) / (initial_capital || 10000);
+      const totalReturn = (capital - startingCapital) / startingCapital;
       const winRate = trades.length > 0 ? winningTrades.length / trades.length : 0;
       const avgHoldingPeriod = trades.length > 0 
         ? trades.reduce((sum, t) => sum + t.holding_days, 0) / trades.length 
@@ -296,15 +334,16 @@ Be precise and convert natural language to exact conditions.`;
         avg_holding_period: avgHoldingPeriod,
         trades,
         equity_curve: equityCurve,
-        category_breakdown: categoryBreakdown
+        category_breakdown: categoryBreakdown,
+        unsupported_metrics: unsupportedMetrics(definition),
       };
 
       // Generate AI analysis
       const analysisPrompt = `Analyze these prediction market strategy backtest results:
 
-Strategy: ${strategy.strategy_name}
-Entry: ${strategy.entry_conditions.map(c => `${c.metric} ${c.operator} ${c.value}`).join(` ${strategy.entry_logic} `)}
-Exit: ${strategy.exit_conditions.map(c => `${c.metric} ${c.operator} ${c.value}`).join(` ${strategy.exit_logic} `)}
+Strategy: ${definition.name}
+Entry: ${describeRuleSet(definition.entry)}
+Exit: ${describeRuleSet(definition.exit)}
 
 Results:
 - Total Return: ${(results.total_return * 100).toFixed(1)}%
@@ -68,6 +68,9 @@ BALANCE SHEET:
 - total_debt: Total Debt (in millions USD)
 - cash: Cash & Equivalents (in millions USD)
 - net_debt: Net Debt (in millions USD)
+- interest_expense_ltm: Latest Twelve Months cash interest expense (in millions USD)
+- capex_ltm: Latest Twelve Months capital expenditure, as a positive number (in millions USD)
+- revolver_availability: Undrawn revolving credit facility availability (in millions USD)
 
 COMPANY INFO:
 - employee_count: Number of employees
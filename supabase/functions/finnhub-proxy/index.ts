@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,7 +8,7 @@ const corsHeaders = {
 
 const BASE_URL = "https://finnhub.io/api/v1";
 
-type Action = "quote" | "candles" | "profile" | "search" | "batch";
+type Action = "quote" | "candles" | "profile" | "search" | "batch" | "corporate_actions";
 
 function json(data: unknown, status = 200) {
   return new Response(JSON.stringify(data), {
@@ -30,6 +31,131 @@ async function fetchFinnhub(path: string, token: string) {
   return res.json();
 }
 
+interface CorporateActions {
+  dividends: { date: string; amount: number; adjustedAmount: number }[];
+  splits: { date: string; fromFactor: number; toFactor: number }[];
+}
+
+// Rows of Finnhub /stock/dividend and /stock/split
+interface FinnhubDividend {
+  date: string;
+  amount: number;
+  adjustedAmount?: number | null;
+}
+
+interface FinnhubSplit {
+  date: string;
+  fromFactor: number;
+  toFactor: number;
+}
+
+interface StoredAction {
+  action_date: string;
+  action_type: "dividend" | "split";
+  cash_amount: number | null;
+  split_from: number | null;
+  split_to: number | null;
+}
+
+async function fetchCorporateActions(symbol: string, from: string, to: string, token: string): Promise<CorporateActions & { answered: boolean }> {
+  const range = `symbol=${encodeURIComponent(symbol)}&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+  let answered = false;
+  const attempt = (path: string) =>
+    fetchFinnhub(path, token).then(
+      (data) => {
+        answered = true;
+        return data;
+      },
+      () => []
+    );
+  // Dividends are a premium endpoint on some plans; splits still help on their own
+  const [dividends, splits] = await Promise.all([attempt(`/stock/dividend?${range}`), attempt(`/stock/split?${range}`)]);
+
+  return {
+    answered,
+    dividends: (Array.isArray(dividends) ? dividends : []).map((d: FinnhubDividend) => ({
+      date: d.date,
+      amount: d.amount,
+      adjustedAmount: d.adjustedAmount ?? d.amount,
+    })),
+    splits: (Array.isArray(splits) ? splits : []).map((s: FinnhubSplit) => ({
+      date: s.date,
+      fromFactor: s.fromFactor,
+      toFactor: s.toFactor,
+    })),
+  };
+}
+
+/**
+ * Corporate actions served from market_corporate_actions. Finnhub is only asked when the
+ * stored coverage does not span the range, and then for the union of both ranges so the
+ * coverage stays one contiguous span per ticker.
+ */
+async function storedCorporateActions(symbol: string, from: string, to: string, token: string): Promise<CorporateActions> {
+  const url = Deno.env.get("SUPABASE_URL");
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !key) return fetchCorporateActions(symbol, from, to, token);
+  const supabase = createClient(url, key);
+
+  const { data: coverage } = await supabase
+    .from("market_corporate_action_coverage")
+    .select("covered_from, covered_to")
+    .eq("ticker", symbol)
+    .maybeSingle();
+
+  if (!coverage || coverage.covered_from > from || coverage.covered_to < to) {
+    const fetchFrom = coverage && coverage.covered_from < from ? coverage.covered_from : from;
+    const fetchTo = coverage && coverage.covered_to > to ? coverage.covered_to : to;
+    const fetched = await fetchCorporateActions(symbol, fetchFrom, fetchTo, token);
+    // Both endpoints failing says nothing about whether events exist, so nothing is recorded
+    if (!fetched.answered) return fetched;
+
+    const rows = [
+      ...fetched.dividends
+        .filter((d) => d.date && d.amount > 0)
+        .map((d) => ({ ticker: symbol, action_date: d.date, action_type: "dividend", cash_amount: d.amount })),
+      ...fetched.splits
+        .filter((sp) => sp.date && sp.fromFactor > 0 && sp.toFactor > 0)
+        .map((sp) => ({ ticker: symbol, action_date: sp.date, action_type: "split", split_from: sp.fromFactor, split_to: sp.toFactor })),
+    ];
+    if (rows.length > 0) {
+      const { error } = await supabase.from("market_corporate_actions").upsert(rows, { onConflict: "ticker,action_date,action_type" });
+      if (error) throw error;
+    }
+    const { error } = await supabase
+      .from("market_corporate_action_coverage")
+      .upsert({ ticker: symbol, covered_from: fetchFrom, covered_to: fetchTo, checked_at: new Date().toISOString() });
+    if (error) throw error;
+  }
+
+  // All splits are read, not just those in range: later splits restate earlier dividends
+  const { data: stored, error } = await supabase
+    .from("market_corporate_actions")
+    .select("action_date, action_type, cash_amount, split_from, split_to")
+    .eq("ticker", symbol)
+    .or(`action_type.eq.split,and(action_date.gte.${from},action_date.lte.${to})`)
+    .order("action_date");
+  if (error) throw error;
+
+  const rows: StoredAction[] = stored || [];
+  const splits = rows
+    .filter((r) => r.action_type === "split")
+    .map((r) => ({ date: r.action_date, fromFactor: Number(r.split_from), toFactor: Number(r.split_to) }));
+
+  return {
+    dividends: rows
+      .filter((r) => r.action_type === "dividend")
+      .map((r) => {
+        const amount = Number(r.cash_amount);
+        const laterSplits = splits
+          .filter((sp) => sp.date > r.action_date)
+          .reduce((factor, sp) => factor * (sp.toFactor / sp.fromFactor), 1);
+        return { date: r.action_date, amount, adjustedAmount: amount / laterSplits };
+      }),
+    splits: splits.filter((sp) => sp.date >= from && sp.date <= to),
+  };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
@@ -84,6 +210,25 @@ serve(async (req) => {
       return json({ ok: true, candles: data });
     }
 
+    if (action === "corporate_actions") {
+      const symbol = String(body.symbol || "").toUpperCase();
+      const from = String(body.from || "");
+      const to = String(body.to || "");
+
+      if (!symbol) return json({ ok: false, error: "symbol is required" }, 400);
+      if (!from || !to) return json({ ok: false, error: "from and to are required" }, 400);
+
+      let events: CorporateActions;
+      try {
+        events = await storedCorporateActions(symbol, from, to, FINNHUB_API_KEY);
+      } catch (e) {
+        console.warn("[finnhub-proxy] corporate action store unavailable", e);
+        events = await fetchCorporateActions(symbol, from, to, FINNHUB_API_KEY);
+      }
+
+      return json({ ok: true, dividends: events.dividends, splits: events.splits });
+    }
+
     if (action === "profile") {
       const symbol = String(body.symbol || "").toUpperCase();
       if (!symbol) return json({ ok: false, error: "symbol is required" }, 400);
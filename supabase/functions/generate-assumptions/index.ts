@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { runThreeStatementProjection } from "../_shared/threeStatementEngine.ts";
 
 // ========== KILL SWITCH - SET TO FALSE TO DISABLE ALL API CALLS ==========
 const ENABLE_LOVABLE_AI = false;
@@ -173,6 +174,26 @@ Based on this information, provide realistic 5-year projection assumptions.`;
     }
 
     result.success = true;
+
+    // Run the shared projection engine so the model is reproducible from these assumptions
+    if (historical_data && result.assumptions) {
+      try {
+        const a = result.assumptions;
+        result.projection = runThreeStatementProjection(historical_data, {
+          revenue_growth: a.revenue_growth * 100,
+          ebitda_margin: a.ebitda_margin * 100,
+          capex_pct: a.capex_pct * 100,
+          nwc_pct: a.nwc_pct * 100,
+          tax_rate: a.tax_rate * 100,
+          da_pct: a.da_pct * 100,
+          interest_rate: a.interest_rate * 100,
+        });
+      } catch (projectionError) {
+        console.error('Projection engine error:', projectionError);
+        result.projection = null;
+        result.projection_error = projectionError instanceof Error ? projectionError.message : 'Projection failed';
+      }
+    }
     
     return new Response(
       JSON.stringify(result),
@@ -0,0 +1,3 @@
+-- Named assumption scenarios (base/upside/downside/custom) stored alongside each model version
+ALTER TABLE public.models
+  ADD COLUMN IF NOT EXISTS scenarios JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,43 @@
+-- Immutable version history for models: one row per save
+CREATE TABLE IF NOT EXISTS public.model_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_id UUID NOT NULL REFERENCES public.models(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  assumptions JSONB,
+  model_data JSONB,
+  scenarios JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID NOT NULL, -- No FK: author is kept even if the user is removed
+  author_name TEXT,
+  note TEXT,
+  restored_from_version INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (model_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_versions_model_id ON public.model_versions(model_id, version_number DESC);
+
+ALTER TABLE public.model_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are readable and insertable by the model owner; no update/delete policies so history is append-only
+CREATE POLICY "Users can view versions of own models" ON public.model_versions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.models m WHERE m.id = model_id AND m.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create versions of own models" ON public.model_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (SELECT 1 FROM public.models m WHERE m.id = model_id AND m.user_id = auth.uid())
+  );
+
+-- Guard against edits from privileged roles as well
+CREATE OR REPLACE FUNCTION public.prevent_model_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'model_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER model_versions_immutable
+  BEFORE UPDATE ON public.model_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_model_version_update();
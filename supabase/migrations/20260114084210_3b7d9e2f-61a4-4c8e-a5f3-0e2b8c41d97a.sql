@@ -0,0 +1,7 @@
+-- Organization-defined pipeline stages with stage-gate requirements.
+-- NULL keeps the default Sourcing → Closing pipeline.
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS pipeline_stages JSONB;
+
+COMMENT ON COLUMN public.organizations.pipeline_stages IS
+  'Ordered deal stages: [{ id, title, color, gates: [{ type, ... }] }]. companies.pipeline_stage stores the stage id.';
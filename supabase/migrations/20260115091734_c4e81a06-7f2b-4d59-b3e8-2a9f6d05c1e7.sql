@@ -0,0 +1,93 @@
+-- Pipeline stage history: every stage / outcome transition of a company, recorded by trigger
+-- so moves made from any screen (Pipeline, Companies, edit dialogs) are captured.
+
+-- Deal source and close reason live on the company; the trigger snapshots them into history
+ALTER TABLE public.companies
+ADD COLUMN IF NOT EXISTS deal_source TEXT,
+ADD COLUMN IF NOT EXISTS close_reason TEXT,
+ADD COLUMN IF NOT EXISTS close_notes TEXT;
+
+CREATE TABLE public.pipeline_stage_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+  from_stage TEXT,
+  to_stage TEXT,
+  from_type TEXT,
+  to_type TEXT,
+  reason TEXT,
+  notes TEXT,
+  changed_by UUID,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.pipeline_stage_history IS 'Append-only log of company pipeline stage and outcome transitions';
+
+CREATE INDEX idx_pipeline_stage_history_company ON public.pipeline_stage_history(company_id, changed_at);
+CREATE INDEX idx_pipeline_stage_history_org ON public.pipeline_stage_history(organization_id);
+CREATE INDEX idx_pipeline_stage_history_user ON public.pipeline_stage_history(user_id);
+
+ALTER TABLE public.pipeline_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own stage history"
+ON public.pipeline_stage_history
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view org stage history"
+ON public.pipeline_stage_history
+FOR SELECT
+USING (
+  organization_id IS NOT NULL
+  AND is_org_member(organization_id)
+);
+
+-- No insert/update/delete policies: rows are only written by the trigger below
+
+CREATE OR REPLACE FUNCTION public.log_pipeline_stage_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  outcome_changed BOOLEAN;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.company_type = 'pipeline' OR NEW.pipeline_stage IS NOT NULL THEN
+      INSERT INTO public.pipeline_stage_history (
+        company_id, user_id, organization_id, to_stage, to_type, changed_by
+      ) VALUES (
+        NEW.id, NEW.user_id, NEW.organization_id, NEW.pipeline_stage, NEW.company_type::text,
+        COALESCE(auth.uid(), NEW.user_id)
+      );
+    END IF;
+  ELSIF OLD.pipeline_stage IS DISTINCT FROM NEW.pipeline_stage
+     OR OLD.company_type IS DISTINCT FROM NEW.company_type THEN
+    outcome_changed := OLD.company_type IS DISTINCT FROM NEW.company_type;
+    INSERT INTO public.pipeline_stage_history (
+      company_id, user_id, organization_id, from_stage, to_stage, from_type, to_type, reason, notes, changed_by
+    ) VALUES (
+      NEW.id, NEW.user_id, NEW.organization_id,
+      OLD.pipeline_stage, NEW.pipeline_stage, OLD.company_type::text, NEW.company_type::text,
+      CASE WHEN outcome_changed THEN NEW.close_reason END,
+      CASE WHEN outcome_changed THEN NEW.close_notes END,
+      COALESCE(auth.uid(), NEW.user_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_log_pipeline_stage_transition
+AFTER INSERT OR UPDATE OF pipeline_stage, company_type ON public.companies
+FOR EACH ROW
+EXECUTE FUNCTION public.log_pipeline_stage_transition();
+
+-- Backfill: best-effort entry row for existing deals so aging has a starting point.
+-- The true entry date into the current stage is unknown, so the last update is used.
+INSERT INTO public.pipeline_stage_history (company_id, user_id, organization_id, to_stage, to_type, changed_by, changed_at)
+SELECT id, user_id, organization_id, pipeline_stage, company_type::text, user_id, updated_at
+FROM public.companies
+WHERE company_type = 'pipeline' OR pipeline_stage IS NOT NULL;
@@ -0,0 +1,82 @@
+-- Data room checklist templates by deal type.
+-- Templates are defined per organization (NULL keeps the built-in buyout / growth / credit / real estate set);
+-- each company picks one, and per-item owners, due dates and tagged documents live in data_room_checklist_items.
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS checklist_templates JSONB;
+
+COMMENT ON COLUMN public.organizations.checklist_templates IS
+  'Checklist templates: [{ id, name, dealType, items: [{ id, name, category, description, keywords, documentTypes, folders }] }]';
+
+ALTER TABLE public.companies
+ADD COLUMN IF NOT EXISTS checklist_template_id TEXT;
+
+COMMENT ON COLUMN public.companies.checklist_template_id IS
+  'Id of the organization checklist template used for this company''s data room; NULL uses the first template';
+
+CREATE TABLE public.data_room_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL, -- Template item id; kept when the template changes so state survives re-assignment
+  owner_id UUID REFERENCES public.team_members(id) ON DELETE SET NULL,
+  due_date DATE,
+  document_ids UUID[] NOT NULL DEFAULT '{}', -- Documents explicitly tagged as satisfying the item
+  notes TEXT,
+  updated_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (company_id, item_id)
+);
+
+CREATE INDEX idx_data_room_checklist_items_company ON public.data_room_checklist_items(company_id);
+CREATE INDEX idx_data_room_checklist_items_owner ON public.data_room_checklist_items(owner_id);
+
+ALTER TABLE public.data_room_checklist_items ENABLE ROW LEVEL SECURITY;
+
+-- Checklist state follows access to the company it belongs to
+CREATE POLICY "Users can view checklist items of accessible companies"
+ON public.data_room_checklist_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.companies c
+    WHERE c.id = company_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can create checklist items of accessible companies"
+ON public.data_room_checklist_items
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.companies c
+    WHERE c.id = company_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can update checklist items of accessible companies"
+ON public.data_room_checklist_items
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.companies c
+    WHERE c.id = company_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can delete checklist items of accessible companies"
+ON public.data_room_checklist_items
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.companies c
+    WHERE c.id = company_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE TRIGGER update_data_room_checklist_items_updated_at
+  BEFORE UPDATE ON public.data_room_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
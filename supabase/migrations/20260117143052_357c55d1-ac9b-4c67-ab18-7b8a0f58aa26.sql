@@ -0,0 +1,77 @@
+-- Data room Q&A tracker.
+-- Diligence questions exchanged with the seller, linked to a company and optionally to a document
+-- and a checklist template item. Answer attachments are regular data room documents.
+CREATE TABLE public.data_room_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  number INTEGER NOT NULL, -- Sequential per company, shown as the Q&A log reference (Q-001)
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  checklist_item_id TEXT, -- Template item id, as in data_room_checklist_items.item_id
+  category TEXT, -- Workstream, e.g. Financial, Legal, Commercial
+  question TEXT NOT NULL,
+  answer TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'answered', 'closed')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('high', 'medium', 'low')),
+  assignee_id UUID REFERENCES public.team_members(id) ON DELETE SET NULL,
+  attachment_ids UUID[] NOT NULL DEFAULT '{}', -- Documents uploaded with the answer
+  raised_by UUID,
+  answered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (company_id, number)
+);
+
+CREATE INDEX idx_data_room_questions_company ON public.data_room_questions(company_id);
+CREATE INDEX idx_data_room_questions_document ON public.data_room_questions(document_id);
+CREATE INDEX idx_data_room_questions_assignee ON public.data_room_questions(assignee_id);
+
+ALTER TABLE public.data_room_questions ENABLE ROW LEVEL SECURITY;
+
+-- Questions follow access to the company they belong to
+CREATE POLICY "Users can view questions of accessible companies"
+ON public.data_room_questions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.companies c
+    WHERE c.id = company_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can create questions of accessible companies"
+ON public.data_room_questions
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.companies c
+    WHERE c.id = company_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can update questions of accessible companies"
+ON public.data_room_questions
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.companies c
+    WHERE c.id = company_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can delete questions of accessible companies"
+ON public.data_room_questions
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.companies c
+    WHERE c.id = company_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE TRIGGER update_data_room_questions_updated_at
+  BEFORE UPDATE ON public.data_room_questions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,104 @@
+-- Covenant compliance monitoring for portfolio companies.
+-- portfolio_covenants gains a company link and the definition the engine tests against
+-- metrics in company_data_fields; each reporting period's result (and projections from the
+-- saved LBO model) is kept in covenant_tests.
+ALTER TABLE public.portfolio_covenants
+ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS test_frequency TEXT NOT NULL DEFAULT 'quarterly' CHECK (test_frequency IN ('quarterly', 'annual')),
+ADD COLUMN IF NOT EXISTS warning_headroom_pct NUMERIC NOT NULL DEFAULT 15,
+ADD COLUMN IF NOT EXISTS headroom_pct NUMERIC,
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'untested'
+  CHECK (status IN ('untested', 'compliant', 'warning', 'breach', 'missing_data')),
+ADD COLUMN IF NOT EXISTS last_period TEXT,
+ADD COLUMN IF NOT EXISTS last_tested_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS model_id UUID REFERENCES public.models(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS projected_breach_period TEXT,
+ADD COLUMN IF NOT EXISTS created_by UUID,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+COMMENT ON COLUMN public.portfolio_covenants.covenant_type IS
+  'max_leverage | min_interest_coverage | min_liquidity | max_capex for engine-tested covenants';
+COMMENT ON COLUMN public.portfolio_covenants.warning_headroom_pct IS
+  'Alert and create a task when headroom falls below this percentage of the limit';
+COMMENT ON COLUMN public.portfolio_covenants.model_id IS
+  'LBO model used to project future tests; NULL uses the company''s most recently updated LBO';
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_covenants_company ON public.portfolio_covenants(company_id);
+
+CREATE TRIGGER update_portfolio_covenants_updated_at
+  BEFORE UPDATE ON public.portfolio_covenants
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.covenant_tests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  covenant_id UUID NOT NULL REFERENCES public.portfolio_covenants(id) ON DELETE CASCADE,
+  period TEXT NOT NULL, -- 2025-Q3, FY2025, or the model year label for projections
+  period_end DATE,
+  is_projected BOOLEAN NOT NULL DEFAULT false,
+  actual_value NUMERIC, -- NULL when the metrics were not available
+  limit_value NUMERIC NOT NULL,
+  headroom_pct NUMERIC,
+  status TEXT NOT NULL CHECK (status IN ('compliant', 'warning', 'breach', 'missing_data')),
+  model_id UUID REFERENCES public.models(id) ON DELETE SET NULL,
+  tested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (covenant_id, period, is_projected)
+);
+
+CREATE INDEX idx_covenant_tests_covenant ON public.covenant_tests(covenant_id);
+
+ALTER TABLE public.covenant_tests ENABLE ROW LEVEL SECURITY;
+
+-- Tests follow access to the covenant's company
+CREATE POLICY "Users can view covenant tests of accessible companies"
+ON public.covenant_tests
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.portfolio_covenants pc
+    JOIN public.companies c ON c.id = pc.company_id
+    WHERE pc.id = covenant_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can create covenant tests of accessible companies"
+ON public.covenant_tests
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.portfolio_covenants pc
+    JOIN public.companies c ON c.id = pc.company_id
+    WHERE pc.id = covenant_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can update covenant tests of accessible companies"
+ON public.covenant_tests
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.portfolio_covenants pc
+    JOIN public.companies c ON c.id = pc.company_id
+    WHERE pc.id = covenant_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+CREATE POLICY "Users can delete covenant tests of accessible companies"
+ON public.covenant_tests
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.portfolio_covenants pc
+    JOIN public.companies c ON c.id = pc.company_id
+    WHERE pc.id = covenant_id
+      AND (c.user_id = auth.uid() OR (c.organization_id IS NOT NULL AND is_org_member(c.organization_id)))
+  )
+);
+
+-- Covenant alerts are raised against companies rather than Market Intel assets
+ALTER TABLE public.alerts
+ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_company ON public.alerts(company_id);
@@ -0,0 +1,4 @@
+-- Rule-based backtest strategies.
+-- Strategies built in the Backtest page are saved alongside portfolios with portfolio_mode 'strategy';
+-- the definition is the shared strategy DSL JSON and allocations hold the tickers it trades.
+ALTER TABLE public.saved_portfolios ADD COLUMN strategy JSONB;
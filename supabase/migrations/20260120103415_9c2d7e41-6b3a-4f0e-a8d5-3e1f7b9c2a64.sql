@@ -0,0 +1,4 @@
+-- Black-Litterman view sets.
+-- Each saved portfolio keeps the return views authored for it: an array of
+-- { id, asset, versus?, expectedReturn, confidence } with returns and confidence as fractions.
+ALTER TABLE public.saved_portfolios ADD COLUMN views JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,21 @@
+-- Tax-lot accounting on asset transactions.
+-- Splits record the new-shares-per-old-share ratio; transfers in keep the original
+-- acquisition date so the holding period carries over. Sells and transfers out record
+-- the lot relief method, and specific-ID ones the lots relieved as [{ lotId, shares }].
+ALTER TABLE public.asset_transactions DROP CONSTRAINT asset_transactions_type_check;
+ALTER TABLE public.asset_transactions
+ADD CONSTRAINT asset_transactions_type_check
+CHECK (transaction_type IN ('buy', 'sell', 'dividend', 'split', 'distribution', 'capital_call', 'transfer_in', 'transfer_out'));
+
+ALTER TABLE public.asset_transactions ADD COLUMN split_ratio NUMERIC;
+ALTER TABLE public.asset_transactions ADD COLUMN acquired_date DATE;
+ALTER TABLE public.asset_transactions ADD COLUMN lot_method TEXT;
+ALTER TABLE public.asset_transactions ADD COLUMN lot_selection JSONB;
+
+ALTER TABLE public.asset_transactions
+ADD CONSTRAINT asset_transactions_lot_method_check
+CHECK (lot_method IS NULL OR lot_method IN ('fifo', 'lifo', 'hifo', 'specific_id'));
+
+ALTER TABLE public.asset_transactions
+ADD CONSTRAINT asset_transactions_split_ratio_check
+CHECK (transaction_type <> 'split' OR split_ratio > 0);
@@ -0,0 +1,119 @@
+-- Split and dividend events per ticker, cached from Finnhub by the finnhub-proxy function.
+-- Dividends keep the cash paid per share on the ex-date; splits keep from/to factors
+-- (2-for-1 is from 1, to 2). Stored bars are split-adjusted, so a dividend is brought onto
+-- their share basis by dividing by every split that took effect after its ex-date.
+CREATE TABLE IF NOT EXISTS market_corporate_actions (
+  id BIGSERIAL PRIMARY KEY,
+  ticker VARCHAR(20) NOT NULL,
+  action_date DATE NOT NULL,
+  action_type VARCHAR(10) NOT NULL CHECK (action_type IN ('dividend', 'split')),
+  cash_amount DECIMAL(18,6),
+  split_from DECIMAL(12,6),
+  split_to DECIMAL(12,6),
+  source VARCHAR(20) NOT NULL DEFAULT 'finnhub',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(ticker, action_date, action_type),
+  CHECK (action_type <> 'dividend' OR cash_amount > 0),
+  CHECK (action_type <> 'split' OR (split_from > 0 AND split_to > 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_actions_ticker_date ON market_corporate_actions(ticker, action_date);
+
+-- Date range already fetched for each ticker, so a ticker with no events is not refetched
+CREATE TABLE IF NOT EXISTS market_corporate_action_coverage (
+  ticker VARCHAR(20) PRIMARY KEY,
+  covered_from DATE NOT NULL,
+  covered_to DATE NOT NULL,
+  checked_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE market_corporate_actions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public read corporate actions" ON market_corporate_actions;
+CREATE POLICY "Public read corporate actions" ON market_corporate_actions FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Service role write corporate actions" ON market_corporate_actions;
+CREATE POLICY "Service role write corporate actions" ON market_corporate_actions FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE market_corporate_action_coverage ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public read corporate action coverage" ON market_corporate_action_coverage;
+CREATE POLICY "Public read corporate action coverage" ON market_corporate_action_coverage FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Service role write corporate action coverage" ON market_corporate_action_coverage;
+CREATE POLICY "Service role write corporate action coverage" ON market_corporate_action_coverage FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- A newly learned event changes the returns of every cached calculation holding the ticker
+DROP TRIGGER IF EXISTS trigger_invalidate_cache_on_corporate_action ON market_corporate_actions;
+CREATE TRIGGER trigger_invalidate_cache_on_corporate_action
+  AFTER INSERT OR UPDATE ON market_corporate_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION invalidate_affected_caches();
+
+-- Dividends going ex after one trading day and up to the next, per share of split-adjusted bars
+CREATE OR REPLACE FUNCTION split_adjusted_dividends(
+  p_ticker TEXT,
+  p_after_date DATE,
+  p_through_date DATE
+)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(
+    d.cash_amount / COALESCE((
+      SELECT EXP(SUM(LN(s.split_to / s.split_from)))
+      FROM market_corporate_actions s
+      WHERE s.ticker = d.ticker
+        AND s.action_type = 'split'
+        AND s.action_date > d.action_date
+    ), 1)
+  ), 0)::DECIMAL
+  FROM market_corporate_actions d
+  WHERE d.ticker = p_ticker
+    AND d.action_type = 'dividend'
+    AND d.action_date > COALESCE(p_after_date, p_through_date - 1)
+    AND d.action_date <= p_through_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Portfolio returns now include dividends: on an ex-date the cash is added back to the
+-- price return, relative to the previous close (close / (1 + daily_return))
+CREATE OR REPLACE FUNCTION get_portfolio_returns(
+  p_tickers TEXT[],
+  p_weights DECIMAL[],
+  p_start_date DATE DEFAULT CURRENT_DATE - INTERVAL '1 year',
+  p_end_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(bar_date DATE, portfolio_return DECIMAL) AS $$
+BEGIN
+  RETURN QUERY
+  WITH bars AS (
+    SELECT
+      m.bar_date,
+      m.ticker,
+      m.close,
+      m.daily_return,
+      LAG(m.bar_date) OVER (PARTITION BY m.ticker ORDER BY m.bar_date) as prev_date
+    FROM market_daily_bars m
+    WHERE m.ticker = ANY(p_tickers)
+      AND m.bar_date BETWEEN p_start_date - 10 AND p_end_date
+  ),
+  ticker_returns AS (
+    SELECT
+      b.bar_date,
+      b.ticker,
+      b.daily_return
+        + split_adjusted_dividends(b.ticker, b.prev_date, b.bar_date) * (1 + b.daily_return) / NULLIF(b.close, 0)
+        as total_return,
+      p_weights[array_position(p_tickers, b.ticker::TEXT)] as weight
+    FROM bars b
+    WHERE b.bar_date BETWEEN p_start_date AND p_end_date
+      AND b.daily_return IS NOT NULL
+  )
+  SELECT
+    tr.bar_date,
+    SUM(tr.total_return * tr.weight)::DECIMAL as portfolio_return
+  FROM ticker_returns tr
+  WHERE tr.total_return IS NOT NULL
+  GROUP BY tr.bar_date
+  HAVING COUNT(*) = array_length(p_tickers, 1)
+  ORDER BY tr.bar_date;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Cached metrics were computed from price-only returns
+UPDATE calculation_cache SET is_valid = false WHERE is_valid = true;
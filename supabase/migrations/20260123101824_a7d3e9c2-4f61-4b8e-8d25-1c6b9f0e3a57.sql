@@ -0,0 +1,13 @@
+-- Multi-currency holdings. Each position is priced in its listing currency; reports are
+-- converted into a base currency, set per user with an optional override per portfolio.
+ALTER TABLE public.synced_positions ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE public.synced_positions
+ADD CONSTRAINT synced_positions_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.saved_portfolios ADD COLUMN base_currency TEXT;
+ALTER TABLE public.saved_portfolios
+ADD CONSTRAINT saved_portfolios_base_currency_check CHECK (base_currency IS NULL OR base_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.profiles ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_base_currency_check CHECK (base_currency ~ '^[A-Z]{3}$');
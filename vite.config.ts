@@ -1,8 +1,30 @@
 // Vite configuration - cache bust v2
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { WebSocketServer } from "ws";
 import { componentTagger } from "lovable-tagger";
+import { MockQuoteFeed, MOCK_QUOTE_STREAM_PATH } from "./src/services/mockQuoteFeed";
+
+// Synthetic trade ticks on the dev server, for the quote stream when no provider key is set
+function mockQuoteServer(): Plugin {
+  return {
+    name: "mock-quote-server",
+    apply: "serve",
+    configureServer(server) {
+      const wss = new WebSocketServer({ noServer: true });
+      server.httpServer?.on("upgrade", (req, socket, head) => {
+        if (req.url?.split("?")[0] !== MOCK_QUOTE_STREAM_PATH) return;
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          const feed = new MockQuoteFeed((data) => ws.send(data));
+          feed.start();
+          ws.on("message", (data) => feed.receive(data.toString()));
+          ws.on("close", () => feed.stop());
+        });
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -10,10 +32,14 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mockQuoteServer(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // Compute worker lazily imports modules, which needs a code-splitting format
+    format: "es",
+  },
 }));